@@ -9,7 +9,17 @@ import Dashboard from './pages/Dashboard';
 import Productos from './pages/Productos';
 import Stock from './pages/Stock';
 import StockInsumos from './pages/StockInsumos';
+import ComprasInsumos from './pages/ComprasInsumos';
+import Produccion from './pages/Produccion';
+import Trazabilidad from './pages/Trazabilidad';
+import Vencimientos from './pages/Vencimientos';
+import ConteosInventario from './pages/ConteosInventario';
+import Kardex from './pages/Kardex';
+import Reposicion from './pages/Reposicion';
+import ControlCalidad from './pages/ControlCalidad';
+import Etiquetas from './pages/Etiquetas';
 import Clientes from './pages/Clientes';
+import Consignaciones from './pages/Consignaciones';
 import Ventas from './pages/Ventas';
 import Precios from './pages/Precios';
 import Login from './pages/Login';
@@ -20,6 +30,9 @@ import ProductoDashboard from './pages/ProductoDashboard';
 import GestionUsuarios from './pages/GestionUsuarios';
 import CrearVenta from './pages/CrearVenta';
 import GestionListasPrecios from './pages/GestionListasPrecios';
+import ReglasPrecio from './pages/ReglasPrecio';
+import Cupones from './pages/Cupones';
+import RemarcacionPrecios from './pages/RemarcacionPrecios';
 import GestionDepositos from './pages/GestionDepositos';
 import TransferenciasStock from './pages/TransferenciasStock';
 import PublicPriceListPage from './pages/PublicPriceListPage';
@@ -42,13 +55,26 @@ const routeConfig: { path: string; component: React.ReactElement; roles: AppRole
     { path: '/base-conocimiento', component: <KnowledgeBase />, roles: ['superadmin', 'vendedor', 'administrativo', 'analitico'] },
     { path: '/stock/productos', component: <Stock />, roles: ['superadmin', 'administrativo'] },
     { path: '/stock/insumos', component: <StockInsumos />, roles: ['superadmin', 'administrativo'] },
+    { path: '/stock/compras', component: <ComprasInsumos />, roles: ['superadmin', 'administrativo'] },
+    { path: '/stock/reposicion', component: <Reposicion />, roles: ['superadmin', 'administrativo'] },
+    { path: '/stock/produccion', component: <Produccion />, roles: ['superadmin', 'administrativo'] },
+    { path: '/stock/calidad', component: <ControlCalidad />, roles: ['superadmin', 'administrativo'] },
+    { path: '/stock/trazabilidad', component: <Trazabilidad />, roles: ['superadmin', 'administrativo'] },
+    { path: '/stock/vencimientos', component: <Vencimientos />, roles: ['superadmin', 'administrativo'] },
+    { path: '/stock/conteos', component: <ConteosInventario />, roles: ['superadmin', 'administrativo'] },
+    { path: '/stock/etiquetas', component: <Etiquetas />, roles: ['superadmin', 'administrativo'] },
+    { path: '/stock/kardex', component: <Kardex />, roles: ['superadmin', 'administrativo'] },
     { path: '/stock/depositos', component: <GestionDepositos />, roles: ['superadmin', 'administrativo'] },
     { path: '/stock/transferencias', component: <TransferenciasStock />, roles: ['superadmin', 'administrativo'] },
     { path: '/clientes', component: <Clientes />, roles: ['superadmin', 'vendedor', 'analitico'] },
+    { path: '/consignaciones', component: <Consignaciones />, roles: ['superadmin', 'vendedor', 'analitico'] },
     { path: '/precios', component: <Precios />, roles: ['superadmin', 'administrativo', 'vendedor', 'analitico'] },
     { path: '/comex', component: <Comex />, roles: ['superadmin', 'comex'] },
     { path: '/gestion-usuarios', component: <GestionUsuarios />, roles: ['superadmin'] },
     { path: '/gestion-listas-precios', component: <GestionListasPrecios />, roles: ['superadmin'] },
+    { path: '/remarcacion-precios', component: <RemarcacionPrecios />, roles: ['superadmin'] },
+    { path: '/reglas-precio', component: <ReglasPrecio />, roles: ['superadmin'] },
+    { path: '/cupones', component: <Cupones />, roles: ['superadmin'] },
     { path: '/imagenes', component: <Imagenes />, roles: ['superadmin', 'administrativo', 'vendedor', 'analitico'] },
 ];
 
@@ -1,5 +1,5 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import ReactDOM from 'react-dom';
 import { IconX, IconMercadoPago, IconAlertCircle, IconCheck, IconCashBanknote, IconTruck, IconFileText, IconNave } from './Icons';
 import { createVenta, VentaToCreate, prepareVentaItemsFromCart } from '../services/ventasService';
@@ -7,7 +7,10 @@ import { getOrCreateClientByEmail } from '../services/clientesService';
 import { createPreference } from '../services/mercadoPagoService';
 import { createNavePayment } from '../services/naveService';
 import { getBranchesByCP, OcaBranch } from '../services/ocaService';
-import { OrderItem } from '@/types';
+import { getTiendaFromHostname } from '../services/depositosService';
+import { ajustarItemsAlTotal, cotizarPedido, REGLAS_PREDETERMINADAS } from '../services/reglasPrecioService';
+import { validarCupon, describirCupon } from '../services/cuponesService';
+import { CuponValidado, MedioPagoRegla, OrderItem, ReglaPrecio } from '@/types';
 import DatabaseErrorDisplay from './DatabaseErrorDisplay';
 
 interface CheckoutModalProps {
@@ -16,6 +19,8 @@ interface CheckoutModalProps {
   orderItems: OrderItem[];
   subtotal: number;
   shippingCost?: number;
+  // Reglas de precio vigentes; los descuentos por medio de pago salen de las de alcance Pedido
+  reglas?: ReglaPrecio[];
 }
 
 interface InputFieldProps {
@@ -48,7 +53,7 @@ const InputField: React.FC<InputFieldProps> = ({ name, label, value, onChange, e
     </div>
 );
 
-const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, orderItems, subtotal, shippingCost = 0 }) => {
+const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, orderItems, subtotal, shippingCost = 0, reglas = REGLAS_PREDETERMINADAS }) => {
     const [paymentMethod, setPaymentMethod] = useState<'mercadopago' | 'transferencia' | 'nave'>('mercadopago');
     const [payerInfo, setPayerInfo] = useState({
         name: '',
@@ -71,21 +76,53 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, orderIte
     const [apiError, setApiError] = useState<any | null>(null);
     const [statusMessage, setStatusMessage] = useState<string>('');
     const [orderFinished, setOrderFinished] = useState(false);
+    // Una clave por pedido: si el usuario reintenta tras un error de red, la RPC devuelve la misma venta en vez de duplicarla.
+    // Se renueva si cambia el pedido o si la base lo rechazó, para que el reintento no devuelva una venta distinta a la que se cobra.
+    const idempotencyKeyRef = useRef<string>(crypto.randomUUID());
+    const [codigoCupon, setCodigoCupon] = useState('');
+    const [cupon, setCupon] = useState<CuponValidado | null>(null);
+    const [cuponError, setCuponError] = useState<string | null>(null);
+    const [validandoCupon, setValidandoCupon] = useState(false);
 
     // Cálculos de descuentos y totales
-    const discountTransfer = useMemo(() => {
-        return paymentMethod === 'transferencia' ? subtotal * 0.15 : 0;
-    }, [paymentMethod, subtotal]);
+    const lineasPedido = useMemo(() => orderItems.map(item => ({
+        productoId: item.id,
+        linea: item.linea,
+        cantidad: item.quantity,
+        total: item.lineTotal,
+    })), [orderItems]);
+
+    const cotizacionPago = useMemo(
+        () => cotizarPedido(lineasPedido, reglas, { canal: 'Tienda online', medioPago: paymentMethod }),
+        [lineasPedido, reglas, paymentMethod]
+    );
 
-    const discountMercadoPago = useMemo(() => {
-        return paymentMethod === 'mercadopago' ? subtotal * 0.10 : 0;
-    }, [paymentMethod, subtotal]);
+    // % de descuento extra que tendría el pedido con cada medio, para las etiquetas de los botones
+    const porcentajeExtra = useMemo(() => {
+        const porMedio = {} as Record<MedioPagoRegla, number>;
+        (['mercadopago', 'transferencia', 'nave'] as const).forEach(medio => {
+            const { descuentoPedido } = cotizarPedido(lineasPedido, reglas, { canal: 'Tienda online', medioPago: medio });
+            porMedio[medio] = subtotal > 0 ? Math.round(descuentoPedido / subtotal * 100) : 0;
+        });
+        return porMedio;
+    }, [lineasPedido, reglas, subtotal]);
+
+    const discountPedido = cotizacionPago.descuentoPedido;
 
     const naveSurcharge = useMemo(() => {
         return paymentMethod === 'nave' ? subtotal * 0 : 0;
     }, [paymentMethod, subtotal]);
 
-    const total = subtotal - discountTransfer - discountMercadoPago + naveSurcharge + shippingCost;
+    // El cupón se calcula sobre los productos (antes del descuento por medio de pago); el de envío gratis descuenta el envío
+    const descuentoCupon = cupon?.descuento || 0;
+    const envioACobrar = cupon?.tipo === 'Envío gratis' ? 0 : shippingCost;
+
+    const total = subtotal - discountPedido - descuentoCupon + naveSurcharge + shippingCost;
+
+    const firmaPedido = JSON.stringify([orderItems.map(i => [i.id, i.quantity, i.lineTotal]), total, paymentMethod]);
+    useEffect(() => {
+        idempotencyKeyRef.current = crypto.randomUUID();
+    }, [firmaPedido]);
 
     if (!isOpen) return null;
 
@@ -131,13 +168,26 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, orderIte
         }
     };
 
-    const getTiendaFromHostname = () => {
-        const host = window.location.hostname;
-        if (host.includes('ultrashineskin')) return 'Ultrashine';
-        if (host.includes('bodytancaribbean')) return 'Bodytan';
-        return 'Isabella';
+    const handleAplicarCupon = async () => {
+        if (!codigoCupon.trim()) return;
+        setValidandoCupon(true);
+        setCuponError(null);
+        try {
+            setCupon(await validarCupon(codigoCupon, payerInfo.email || null, orderItems, shippingCost));
+        } catch (err: any) {
+            setCupon(null);
+            setCuponError(err.message);
+        } finally {
+            setValidandoCupon(false);
+        }
     };
-    
+
+    const handleQuitarCupon = () => {
+        setCupon(null);
+        setCodigoCupon('');
+        setCuponError(null);
+    };
+
     const handleProcessOrder = async () => {
         let formIsValid = true;
         for (const key in payerInfo) {
@@ -151,6 +201,7 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, orderIte
 
         setLoading(true);
         setApiError(null);
+        let ventaCreada = false;
         
         try {
             // 1. Registrar o identificar al cliente (Upsert por Email)
@@ -159,11 +210,12 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, orderIte
             
             // 2. Preparar items y reservar stock
             setStatusMessage('Reservando stock...');
-            const itemsParaVenta = await prepareVentaItemsFromCart(orderItems);
+            const itemsParaVenta = await prepareVentaItemsFromCart(orderItems, getTiendaFromHostname());
             
             // 3. Generar nota para la venta
             const shippingNote = shippingCost > 0 ? ` [Incluye Envío: $${shippingCost.toFixed(2)}]` : ' [Envío Gratis]';
-            const discountNote = discountTransfer > 0 ? ` [Descuento Transferencia 5%: -$${discountTransfer.toFixed(2)}]` : '';
+            const discountNote = cotizacionPago.explicacion.map(linea => ` [${linea}]`).join('')
+                + (cupon ? ` [Cupón ${cupon.codigo}: -$${cupon.descuento.toFixed(2)}]` : '');
             const surchargeNote = naveSurcharge > 0 ? ` [Recargo Nave 10%: +$${naveSurcharge.toFixed(2)}]` : '';
             const methodLabel = paymentMethod === 'mercadopago' ? 'WEB MP' : paymentMethod === 'nave' ? 'WEB NAVE' : 'WEB TRANSFERENCIA';
             
@@ -191,17 +243,26 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, orderIte
                 observaciones: `${methodLabel}${shippingNote}${discountNote}${surchargeNote}${obsEnvio} - Tel: ${payerInfo.phone} - Envío a: ${direccionFinal}`,
                 puntoDeVenta: 'Tienda física',
                 tienda: getTiendaFromHostname(),
+                idempotencyKey: idempotencyKeyRef.current,
+                reservarStock: true,
+                cupon: cupon ? { codigo: cupon.codigo, email: payerInfo.email, envio: shippingCost, descuento: cupon.descuento } : null,
+                envio: shippingCost,
+                medioPago: paymentMethod,
             };
 
             const newSaleId = await createVenta(saleData);
-            
+            ventaCreada = true;
+
+            // La pasarela cobra los ítems con los descuentos ya aplicados para que el importe coincida con el total de la venta
+            const itemsACobrar = ajustarItemsAlTotal(orderItems, total - envioACobrar);
+
             if (paymentMethod === 'mercadopago') {
                 setStatusMessage('Generando link de pago...');
-                const initPoint = await createPreference(orderItems, payerInfo, newSaleId, shippingCost);
+                const initPoint = await createPreference(itemsACobrar, payerInfo, newSaleId, envioACobrar);
                 window.location.href = initPoint;
             } else if (paymentMethod === 'nave') {
                 setStatusMessage('Generando link de pago Nave...');
-                const checkoutUrl = await createNavePayment(orderItems, payerInfo, newSaleId, shippingCost);
+                const checkoutUrl = await createNavePayment(itemsACobrar, payerInfo, newSaleId, envioACobrar);
                 window.location.href = checkoutUrl;
             } else {
                 setOrderFinished(true);
@@ -210,6 +271,8 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, orderIte
 
         } catch (err: any) {
             console.error("Checkout error:", err);
+            // La base rechazó el pedido (stock, precios, cupón): el próximo intento es un pedido nuevo
+            if (!ventaCreada && err?.code) idempotencyKeyRef.current = crypto.randomUUID();
             setApiError(err);
             setLoading(false);
         }
@@ -275,7 +338,7 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, orderIte
                                         <IconMercadoPago className="w-8 h-8" />
                                         <div className="text-left">
                                             <p className="font-bold">Mercado Pago (1 Cuota)</p>
-                                            <p className="text-xs text-green-600 font-bold uppercase">¡10% OFF EXTRA!</p>
+                                            {porcentajeExtra.mercadopago > 0 && <p className="text-xs text-green-600 font-bold uppercase">¡{porcentajeExtra.mercadopago}% OFF EXTRA!</p>}
                                         </div>
                                     </button>
                                     <button 
@@ -287,7 +350,7 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, orderIte
                                         </div>
                                         <div className="text-left">
                                             <p className="font-bold">Transferencia</p>
-                                            <p className="text-xs text-green-600 font-bold uppercase">¡15% OFF EXTRA!</p>
+                                            {porcentajeExtra.transferencia > 0 && <p className="text-xs text-green-600 font-bold uppercase">¡{porcentajeExtra.transferencia}% OFF EXTRA!</p>}
                                         </div>
                                     </button>
                                     <button 
@@ -401,19 +464,44 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, orderIte
                                 ))}
                             </div>
 
+                            <div className="mb-4">
+                                {cupon ? (
+                                    <div className="flex justify-between items-center bg-green-50 border border-green-200 rounded-lg px-3 py-2 text-sm">
+                                        <span className="font-bold text-green-700">{cupon.codigo} · {describirCupon(cupon)}</span>
+                                        <button onClick={handleQuitarCupon} disabled={loading} className="text-gray-400 hover:text-gray-600" title="Quitar cupón"><IconX className="w-4 h-4" /></button>
+                                    </div>
+                                ) : (
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={codigoCupon}
+                                            onChange={e => setCodigoCupon(e.target.value.toUpperCase())}
+                                            onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleAplicarCupon(); } }}
+                                            placeholder="Código de descuento"
+                                            disabled={loading}
+                                            className="input-style uppercase"
+                                        />
+                                        <button onClick={handleAplicarCupon} disabled={loading || validandoCupon || !codigoCupon.trim()} className="px-4 rounded-lg bg-gray-800 text-white text-sm font-bold hover:bg-gray-900 disabled:bg-gray-300">
+                                            {validandoCupon ? '...' : 'Aplicar'}
+                                        </button>
+                                    </div>
+                                )}
+                                {cuponError && <p className="text-red-500 text-xs mt-1">{cuponError}</p>}
+                            </div>
+
                             <div className="space-y-3 text-sm">
                                 <div className="flex justify-between text-gray-600"><span>Subtotal</span><span>{formatPrice(subtotal)}</span></div>
                                 
-                                {discountTransfer > 0 && (
-                                    <div className="flex justify-between text-green-600 font-bold uppercase tracking-tight">
-                                        <span>Bonificación 15% OFF</span>
-                                        <span>-{formatPrice(discountTransfer)}</span>
+                                {cotizacionPago.reglasPedido.map(regla => (
+                                    <div key={regla.reglaId} className="flex justify-between text-green-600 font-bold uppercase tracking-tight">
+                                        <span>{regla.nombre}</span>
+                                        <span>-{formatPrice(regla.monto)}</span>
                                     </div>
-                                )}
-                                {discountMercadoPago > 0 && (
+                                ))}
+                                {cupon && (
                                     <div className="flex justify-between text-green-600 font-bold uppercase tracking-tight">
-                                        <span>Bonificación 10% OFF</span>
-                                        <span>-{formatPrice(discountMercadoPago)}</span>
+                                        <span>Cupón {cupon.codigo}</span>
+                                        <span>-{formatPrice(cupon.descuento)}</span>
                                     </div>
                                 )}
                                 {naveSurcharge > 0 && (
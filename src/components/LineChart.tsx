@@ -0,0 +1,75 @@
+import React from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  ChartData,
+  ChartOptions
+} from 'chart.js';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface LineChartProps {
+  data: ChartData<'line'>;
+  title: string;
+  // Los datasets con yAxisID 'y1' (p. ej. un porcentaje) se dibujan contra un eje secundario a la derecha
+  secondaryAxisLabel?: string;
+}
+
+const LineChart: React.FC<LineChartProps> = ({ data, title, secondaryAxisLabel }) => {
+    const options: ChartOptions<'line'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: {
+            mode: 'index',
+            intersect: false,
+        },
+        plugins: {
+            legend: {
+                position: 'top' as const,
+            },
+            title: {
+                display: true,
+                text: title,
+                font: {
+                    size: 16,
+                    weight: 'bold',
+                }
+            },
+        },
+        scales: {
+            y: {
+                beginAtZero: true,
+            },
+            ...(secondaryAxisLabel ? {
+                y1: {
+                    position: 'right' as const,
+                    grid: { drawOnChartArea: false },
+                    title: { display: true, text: secondaryAxisLabel },
+                },
+            } : {}),
+        },
+    };
+
+    return (
+        <div className="bg-surface rounded-xl shadow-md p-4 h-80">
+            <Line options={options} data={data} />
+        </div>
+    );
+};
+
+export default LineChart;
@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { Insumo, LoteInsumo, UsoLoteInsumo } from '@/types';
+import { IconX, IconSearch } from '@/components/Icons';
+import { fetchLotesInsumo, fetchUsosLoteInsumo } from '@/services/lotesInsumoService';
+import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
+
+interface LotesInsumoModalProps {
+    insumo: Insumo;
+    onClose: () => void;
+}
+
+const formatFecha = (fecha: string | null) => fecha ? fecha.slice(0, 10).split('-').reverse().join('/') : '-';
+
+const LotesInsumoModal: React.FC<LotesInsumoModalProps> = ({ insumo, onClose }) => {
+    const [lotes, setLotes] = useState<LoteInsumo[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<any | null>(null);
+    const [loteTrazado, setLoteTrazado] = useState<LoteInsumo | null>(null);
+    const [usos, setUsos] = useState<UsoLoteInsumo[]>([]);
+    const [loadingUsos, setLoadingUsos] = useState(false);
+    const [mostrarAgotados, setMostrarAgotados] = useState(false);
+
+    useEffect(() => {
+        fetchLotesInsumo(insumo.id)
+            .then(setLotes)
+            .catch(setError)
+            .finally(() => setLoading(false));
+    }, [insumo.id]);
+
+    const handleTrazar = async (lote: LoteInsumo) => {
+        setLoteTrazado(lote);
+        setLoadingUsos(true);
+        try {
+            setUsos(await fetchUsosLoteInsumo(lote.id));
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setLoadingUsos(false);
+        }
+    };
+
+    const hoy = new Date().toISOString().split('T')[0];
+    const lotesVisibles = mostrarAgotados ? lotes : lotes.filter(l => l.cantidadActual > 0);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">
+                        Lotes: <span className="text-primary">{insumo.nombre}</span>
+                    </h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+                        <IconX className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <div className="flex justify-between items-center text-sm">
+                        <p className="text-gray-600">Stock total: <span className="font-bold">{insumo.stock} {insumo.unidad}</span> · se consume primero el lote que vence antes.</p>
+                        <label className="flex items-center text-gray-600">
+                            <input type="checkbox" checked={mostrarAgotados} onChange={e => setMostrarAgotados(e.target.checked)} className="mr-2 h-4 w-4 rounded border-gray-300 text-primary" />
+                            Mostrar agotados
+                        </label>
+                    </div>
+
+                    {loading ? (
+                        <p className="text-center text-gray-500 py-4">Cargando...</p>
+                    ) : lotesVisibles.length === 0 ? (
+                        <p className="text-center text-gray-500 py-4">No hay lotes con stock.</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead className="border-b">
+                                <tr className="text-left text-gray-500 text-xs uppercase">
+                                    <th className="p-2">Lote Proveedor</th>
+                                    <th className="p-2">Proveedor</th>
+                                    <th className="p-2">Recepción</th>
+                                    <th className="p-2">Vencimiento</th>
+                                    <th className="p-2 text-right">Cantidad</th>
+                                    <th className="p-2 text-right">Costo Unit.</th>
+                                    <th className="p-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {lotesVisibles.map(l => {
+                                    const vencido = !!l.fechaVencimiento && l.fechaVencimiento < hoy;
+                                    return (
+                                        <tr key={l.id} className={loteTrazado?.id === l.id ? 'bg-violet-50' : ''}>
+                                            <td className="p-2 font-mono">{l.numeroLote}</td>
+                                            <td className="p-2">{l.proveedor || '-'}</td>
+                                            <td className="p-2">{formatFecha(l.fechaRecepcion)}</td>
+                                            <td className={`p-2 ${vencido ? 'text-red-600 font-semibold' : ''}`}>
+                                                {formatFecha(l.fechaVencimiento)}{vencido && ' (vencido)'}
+                                            </td>
+                                            <td className="p-2 text-right">{l.cantidadActual} / {l.cantidadInicial} {insumo.unidad}</td>
+                                            <td className="p-2 text-right">${l.costoUnitario.toLocaleString('es-AR')}</td>
+                                            <td className="p-2 text-right">
+                                                <button onClick={() => handleTrazar(l)} className="text-blue-500 hover:text-blue-700" title="¿En qué lotes de producto se usó?">
+                                                    <IconSearch className="h-4 w-4" />
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+
+                    {loteTrazado && (
+                        <div className="border rounded-lg overflow-hidden">
+                            <p className="bg-gray-50 px-3 py-2 text-sm font-semibold text-gray-700">
+                                Lotes de producto que usaron el lote <span className="font-mono">{loteTrazado.numeroLote}</span>
+                            </p>
+                            {loadingUsos ? (
+                                <p className="p-3 text-sm text-gray-500">Buscando...</p>
+                            ) : usos.length === 0 ? (
+                                <p className="p-3 text-sm text-gray-500">Este lote todavía no se usó en ninguna producción.</p>
+                            ) : (
+                                <table className="w-full text-sm">
+                                    <thead className="border-b">
+                                        <tr className="text-left text-gray-500 text-xs uppercase">
+                                            <th className="p-2">Producto</th>
+                                            <th className="p-2">Lote</th>
+                                            <th className="p-2">Orden</th>
+                                            <th className="p-2 text-right">Insumo usado</th>
+                                            <th className="p-2 text-right">En stock</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-100">
+                                        {usos.map((u, index) => (
+                                            <tr key={`${u.ordenNumero}-${index}`}>
+                                                <td className="p-2">{u.productoNombre}</td>
+                                                <td className="p-2 font-mono">{u.numeroLote}</td>
+                                                <td className="p-2">#{u.ordenNumero} · {formatFecha(u.fechaProduccion)}</td>
+                                                <td className="p-2 text-right">{u.cantidadConsumida} {insumo.unidad}</td>
+                                                <td className="p-2 text-right">{u.unidadesEnStock ?? '-'} / {u.unidadesProducidas} u.</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LotesInsumoModal;
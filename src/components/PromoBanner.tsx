@@ -1,6 +1,15 @@
 import React from 'react';
+import { Cupon, PromocionVencimiento } from '../types';
+import { describirCupon } from '../services/cuponesService';
 
-const PromoBanner: React.FC = () => {
+interface PromoBannerProps {
+    // Promociones de lotes próximos a vencer publicadas desde el tablero de Vencimientos.
+    promociones?: PromocionVencimiento[];
+    // Cupones marcados como destacados en la pantalla de Cupones.
+    cupones?: Cupon[];
+}
+
+const PromoBanner: React.FC<PromoBannerProps> = ({ promociones = [], cupones = [] }) => {
     return (
         <div className="bg-black text-white py-2 px-4 text-center z-[10000] relative overflow-hidden">
             <div className="flex items-center justify-center gap-4 animate-fade-in whitespace-nowrap overflow-x-auto no-scrollbar">
@@ -11,6 +20,22 @@ const PromoBanner: React.FC = () => {
                 <span className="text-[9px] md:text-xs font-black uppercase tracking-[0.2em]">
                     15% OFF con Transferencia por WhatsApp ✨
                 </span>
+                {promociones.map(p => (
+                    <React.Fragment key={p.id}>
+                        <span className="w-1.5 h-1.5 rounded-full bg-zinc-600"></span>
+                        <span className="text-[9px] md:text-xs font-black uppercase tracking-[0.2em] text-amber-300">
+                            {p.mensaje}
+                        </span>
+                    </React.Fragment>
+                ))}
+                {cupones.map(c => (
+                    <React.Fragment key={c.id}>
+                        <span className="w-1.5 h-1.5 rounded-full bg-zinc-600"></span>
+                        <span className="text-[9px] md:text-xs font-black uppercase tracking-[0.2em] text-emerald-300">
+                            {describirCupon(c)} con el código {c.codigo}
+                        </span>
+                    </React.Fragment>
+                ))}
             </div>
             {/* Subtle glow effect */}
             <div className="absolute top-0 left-0 w-full h-full bg-gradient-to-r from-transparent via-white/5 to-transparent -translate-x-full animate-shimmer pointer-events-none"></div>
@@ -1,7 +1,7 @@
 
 import React, { Dispatch, SetStateAction } from 'react';
 import { NavLink } from 'react-router-dom';
-import { IconChartPie, IconShoppingCart, IconPackage, IconUsers, IconTag, IconBuildingWarehouse, IconUserCog, IconX, IconCashBanknote, IconBuilding, IconSwitchHorizontal, IconFileText, IconWorld, IconChartBar, IconMessage2, IconPhoto } from './Icons';
+import { IconChartPie, IconShoppingCart, IconPackage, IconUsers, IconTag, IconBuildingWarehouse, IconUserCog, IconX, IconCashBanknote, IconBuilding, IconSwitchHorizontal, IconFileText, IconWorld, IconChartBar, IconMessage2, IconPhoto, IconClipboardPlus, IconTruck, IconScale, IconSearch, IconClock, IconList, IconCheck, IconTicket, IconTrendingUp } from './Icons';
 import { useAuth } from '../contexts/AuthContext';
 import { AppRole } from '../types';
 
@@ -30,6 +30,7 @@ const navConfig: NavConfigItem[] = [
   { type: 'link', to: '/', text: 'Dashboard', icon: <IconChartPie className="h-5 w-5" />, allowedRoles: ['superadmin', 'vendedor', 'administrativo', 'analitico'] },
   { type: 'link', to: '/ventas', text: 'Ventas', icon: <IconShoppingCart className="h-5 w-5" />, allowedRoles: ['superadmin', 'vendedor', 'analitico'] },
   { type: 'link', to: '/clientes', text: 'Clientes', icon: <IconUsers className="h-5 w-5" />, allowedRoles: ['superadmin', 'vendedor', 'analitico'] },
+  { type: 'link', to: '/consignaciones', text: 'Consignaciones', icon: <IconClipboardPlus className="h-5 w-5" />, allowedRoles: ['superadmin', 'vendedor', 'analitico'] },
 
   { type: 'header', text: 'Catálogo', allowedRoles: ['superadmin', 'administrativo', 'vendedor', 'analitico'] },
   { type: 'link', to: '/productos', text: 'Productos', icon: <IconPackage className="h-5 w-5" />, allowedRoles: ['superadmin', 'administrativo', 'vendedor', 'analitico'] },
@@ -39,8 +40,17 @@ const navConfig: NavConfigItem[] = [
   { type: 'header', text: 'Inventario', allowedRoles: ['superadmin', 'administrativo'] },
   { type: 'link', to: '/stock/productos', text: 'Stock Productos', icon: <IconPackage className="h-5 w-5" />, allowedRoles: ['superadmin', 'administrativo'] },
   { type: 'link', to: '/stock/insumos', text: 'Stock Insumos', icon: <IconBuildingWarehouse className="h-5 w-5" />, allowedRoles: ['superadmin', 'administrativo'] },
+  { type: 'link', to: '/stock/produccion', text: 'Producción', icon: <IconScale className="h-5 w-5" />, allowedRoles: ['superadmin', 'administrativo'] },
+  { type: 'link', to: '/stock/calidad', text: 'Control de Calidad', icon: <IconCheck className="h-5 w-5" />, allowedRoles: ['superadmin', 'administrativo'] },
+  { type: 'link', to: '/stock/compras', text: 'Compras Insumos', icon: <IconTruck className="h-5 w-5" />, allowedRoles: ['superadmin', 'administrativo'] },
+  { type: 'link', to: '/stock/reposicion', text: 'Reposición', icon: <IconClipboardPlus className="h-5 w-5" />, allowedRoles: ['superadmin', 'administrativo'] },
   { type: 'link', to: '/stock/depositos', text: 'Gestión Depósitos', icon: <IconBuilding className="h-5 w-5" />, allowedRoles: ['superadmin', 'administrativo'] },
   { type: 'link', to: '/stock/transferencias', text: 'Transferencias', icon: <IconSwitchHorizontal className="h-5 w-5" />, allowedRoles: ['superadmin', 'administrativo'] },
+  { type: 'link', to: '/stock/trazabilidad', text: 'Trazabilidad', icon: <IconSearch className="h-5 w-5" />, allowedRoles: ['superadmin', 'administrativo'] },
+  { type: 'link', to: '/stock/vencimientos', text: 'Vencimientos', icon: <IconClock className="h-5 w-5" />, allowedRoles: ['superadmin', 'administrativo'] },
+  { type: 'link', to: '/stock/conteos', text: 'Inventario Físico', icon: <IconList className="h-5 w-5" />, allowedRoles: ['superadmin', 'administrativo'] },
+  { type: 'link', to: '/stock/etiquetas', text: 'Etiquetas', icon: <IconTag className="h-5 w-5" />, allowedRoles: ['superadmin', 'administrativo'] },
+  { type: 'link', to: '/stock/kardex', text: 'Kardex', icon: <IconFileText className="h-5 w-5" />, allowedRoles: ['superadmin', 'administrativo'] },
 
   { type: 'header', text: 'Inteligencia', allowedRoles: ['superadmin', 'analitico', 'vendedor', 'administrativo'] },
   { type: 'link', to: '/base-conocimiento', text: 'Entrenar Chatbot', icon: <IconMessage2 className="h-5 w-5" />, allowedRoles: ['superadmin', 'vendedor', 'administrativo', 'analitico'] },
@@ -49,6 +59,9 @@ const navConfig: NavConfigItem[] = [
   { type: 'header', text: 'Administración', allowedRoles: ['superadmin', 'comex'] },
   { type: 'link', to: '/comex', text: 'COMEX', icon: <IconWorld className="h-5 w-5" />, allowedRoles: ['superadmin', 'comex'] },
   { type: 'link', to: '/gestion-listas-precios', text: 'Gestión Listas', icon: <IconCashBanknote className="h-5 w-5" />, allowedRoles: ['superadmin'] },
+  { type: 'link', to: '/remarcacion-precios', text: 'Remarcación', icon: <IconTrendingUp className="h-5 w-5" />, allowedRoles: ['superadmin'] },
+  { type: 'link', to: '/reglas-precio', text: 'Reglas de Precio', icon: <IconTag className="h-5 w-5" />, allowedRoles: ['superadmin'] },
+  { type: 'link', to: '/cupones', text: 'Cupones', icon: <IconTicket className="h-5 w-5" />, allowedRoles: ['superadmin'] },
   { type: 'link', to: '/gestion-usuarios', text: 'Gestión Usuarios', icon: <IconUserCog className="h-5 w-5" />, allowedRoles: ['superadmin'] },
 
   { type: 'link', to: '/lista-publica', text: 'Vista Pública Precios', icon: <IconFileText className="h-5 w-5" />, allowedRoles: ['superadmin', 'vendedor', 'administrativo', 'analitico'] },
@@ -3,6 +3,7 @@ import React, { useState, useEffect } from 'react';
 import { Insumo } from '@/types';
 import { IconX } from '@/components/Icons';
 import { addStockToInsumo } from '@/services/insumosService';
+import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
 
 interface StockUpdateModalProps {
   isOpen: boolean;
@@ -16,14 +17,16 @@ const StockUpdateModal: React.FC<StockUpdateModalProps> = ({ isOpen, onClose, on
     const [costo, setCosto] = useState(insumo?.costo || 0);
     const [lote, setLote] = useState('');
     const [fecha, setFecha] = useState(new Date().toISOString().split('T')[0]);
+    const [fechaVencimiento, setFechaVencimiento] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<any | null>(null);
 
     useEffect(() => {
         if (insumo) {
             setCosto(insumo.costo);
             setLote(insumo.ultimo_lote_pedido || '');
             setFecha(new Date().toISOString().split('T')[0]);
+            setFechaVencimiento('');
             setCantidad(0);
         }
     }, [insumo]);
@@ -37,7 +40,7 @@ const StockUpdateModal: React.FC<StockUpdateModalProps> = ({ isOpen, onClose, on
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!insumo || cantidad <= 0) {
-            setError('La cantidad a agregar debe ser mayor a cero.');
+            setError({ message: 'La cantidad a agregar debe ser mayor a cero.' });
             return;
         }
         setIsSubmitting(true);
@@ -49,10 +52,11 @@ const StockUpdateModal: React.FC<StockUpdateModalProps> = ({ isOpen, onClose, on
                 costo,
                 lote,
                 fecha,
+                fechaVencimiento,
             });
             onSuccess();
         } catch (err: any) {
-            setError(`Error al actualizar el stock: ${err.message}`);
+            setError(err.sql ? err : { message: `Error al actualizar el stock: ${err.message}` });
         } finally {
             setIsSubmitting(false);
         }
@@ -72,7 +76,7 @@ const StockUpdateModal: React.FC<StockUpdateModalProps> = ({ isOpen, onClose, on
                     </button>
                 </div>
                 <form onSubmit={handleSubmit} className="p-6 space-y-4">
-                    {error && <div className="bg-red-100 text-red-700 p-3 rounded-md text-sm">{error}</div>}
+                    <DatabaseErrorDisplay error={error} />
                     
                     <div>
                         <p className="text-sm text-gray-600">Stock actual: <span className="font-bold">{insumo.stock} {insumo.unidad}</span></p>
@@ -94,7 +98,7 @@ const StockUpdateModal: React.FC<StockUpdateModalProps> = ({ isOpen, onClose, on
                             />
                         </div>
                         <div>
-                            <label htmlFor="costo" className="block text-sm font-medium text-gray-700 mb-1">Nuevo Costo Unit. (ARS)</label>
+                            <label htmlFor="costo" className="block text-sm font-medium text-gray-700 mb-1">Costo Unit. de la Compra (ARS)</label>
                             <input
                                 type="number"
                                 name="costo"
@@ -108,7 +112,7 @@ const StockUpdateModal: React.FC<StockUpdateModalProps> = ({ isOpen, onClose, on
                             />
                         </div>
                         <div>
-                            <label htmlFor="lote" className="block text-sm font-medium text-gray-700 mb-1">Lote de Compra</label>
+                            <label htmlFor="lote" className="block text-sm font-medium text-gray-700 mb-1">Lote del Proveedor</label>
                             <input
                                 type="text"
                                 name="lote"
@@ -130,6 +134,17 @@ const StockUpdateModal: React.FC<StockUpdateModalProps> = ({ isOpen, onClose, on
                                 className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
                             />
                         </div>
+                        <div>
+                            <label htmlFor="fechaVencimiento" className="block text-sm font-medium text-gray-700 mb-1">Vencimiento del Lote</label>
+                            <input
+                                type="date"
+                                name="fechaVencimiento"
+                                id="fechaVencimiento"
+                                value={fechaVencimiento}
+                                onChange={(e) => setFechaVencimiento(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
+                            />
+                        </div>
                     </div>
 
                     <div className="flex justify-end pt-4 border-t mt-6">
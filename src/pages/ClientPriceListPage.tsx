@@ -3,10 +3,12 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import ClientHeader from '@/components/ClientHeader';
 import { supabase } from '@/supabase';
-import { Producto } from '@/types';
+import { Producto, ReglaPrecio } from '@/types';
 import { fetchProductosDeLista } from '@/services/preciosService';
 import { fetchProductosConStock } from '@/services/productosService';
+import { fetchStockDisponibleOnline } from '@/services/depositosService';
 import { IconShoppingCart } from '@/components/Icons';
+import { fetchReglasPrecio, cotizar, cotizarLineaUnica, ContextoPrecio, REGLAS_PREDETERMINADAS } from '@/services/reglasPrecioService';
 
 interface ClientProduct extends Producto {
     basePrice: number;
@@ -17,6 +19,8 @@ const ClientPriceListPage: React.FC = () => {
     const [products, setProducts] = useState<ClientProduct[]>([]);
     const [quantities, setQuantities] = useState<Record<string, number>>({});
     const [clientListName, setClientListName] = useState<string | undefined>(undefined);
+    const [listaPrecioId, setListaPrecioId] = useState<string | null>(null);
+    const [reglas, setReglas] = useState<ReglaPrecio[]>(REGLAS_PREDETERMINADAS);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<any | null>(null);
 
@@ -30,7 +34,12 @@ const ClientPriceListPage: React.FC = () => {
             setLoading(true);
             setError(null);
             try {
-                const allProducts = await fetchProductosConStock();
+                const [productosConStock, stockOnline, reglasData] = await Promise.all([fetchProductosConStock(), fetchStockDisponibleOnline(null), fetchReglasPrecio()]);
+                setReglas(reglasData);
+                // Solo cuenta el stock de los depósitos marcados para venta online
+                const allProducts = stockOnline
+                    ? productosConStock.map(p => ({ ...p, stockTotal: stockOnline.get(p.id) || 0 }))
+                    : productosConStock;
                 const { data: cliente, error: clientError } = await supabase
                     .from('clientes')
                     .select('lista_precio_id, listas_de_precios(nombre)')
@@ -40,6 +49,7 @@ const ClientPriceListPage: React.FC = () => {
                 if (clientError && clientError.code !== 'PGRST116') throw clientError;
 
                 setClientListName((cliente?.listas_de_precios as any)?.nombre || 'Lista de Precios Pública');
+                setListaPrecioId(cliente?.lista_precio_id || null);
                 
                 let finalProducts: ClientProduct[];
                 if (cliente?.lista_precio_id) {
@@ -65,39 +75,33 @@ const ClientPriceListPage: React.FC = () => {
         loadClientData();
     }, [user]);
     
-    const getDynamicPrice = (product: ClientProduct, quantity: number) => {
-        // FIX: Destructure properties now available on the ClientProduct type.
-        const { basePrice, precioComercio, precioMayorista, cantidadMinimaComercio, cantidadMinimaMayorista } = product;
-        const minComercio = cantidadMinimaComercio ?? Infinity;
-        const minMayorista = cantidadMinimaMayorista ?? Infinity;
-        if (quantity >= minMayorista && precioMayorista > 0) return precioMayorista;
-        if (quantity >= minComercio && precioComercio > 0) return precioComercio;
-        return basePrice;
-    };
+    const contextoPrecio = useMemo((): ContextoPrecio => ({ canal: 'Portal clientes', listaPrecioId }), [listaPrecioId]);
+
+    // El precio de la lista del cliente es el de partida; las reglas deciden niveles y descuentos
+    const getDynamicPrice = (product: ClientProduct, quantity: number) =>
+        cotizarLineaUnica({ productoId: product.id, cantidad: quantity, precioBase: product.basePrice, producto: product }, reglas, contextoPrecio).precioUnitario;
 
     const handleQuantityChange = (productId: string, value: string) => {
         const newQuantity = parseInt(value, 10);
         setQuantities(prev => ({
             ...prev,
-            [productId]: isNaN(newQuantity) || newQuantity < 0 ? 0 : newQuantity,
+            [productId]: isNaN(newQuantity) || newQuantity < 0 ? 0 : Math.min(newQuantity, products.find(p => p.id === productId)?.stockTotal ?? newQuantity),
         }));
     };
 
-    // FIX: Replaced `Object.entries` with `Object.keys` to correctly infer types and resolve calculation errors.
-    const { orderItems, subtotal } = useMemo(() => {
-        const items = Object.keys(quantities)
+    const { orderItems, cotizacion } = useMemo(() => {
+        const enPedido = Object.keys(quantities)
             .filter(productId => quantities[productId] > 0)
-            .map(productId => {
-                const product = products.find(p => p.id === productId);
-                if (!product) return null;
-                const qty = quantities[productId];
-                const price = getDynamicPrice(product, qty);
-                return { ...product, quantity: qty, currentPrice: price, lineTotal: price * qty };
-            })
-            .filter((item): item is NonNullable<typeof item> => item !== null);
-        const sub = items.reduce((acc, item) => acc + (item?.lineTotal || 0), 0);
-        return { orderItems: items, subtotal: sub };
-    }, [quantities, products]);
+            .map(productId => products.find(p => p.id === productId))
+            .filter((product): product is ClientProduct => !!product);
+        const cot = cotizar(
+            enPedido.map(product => ({ productoId: product.id, cantidad: quantities[product.id], precioBase: product.basePrice, producto: product })),
+            reglas,
+            contextoPrecio
+        );
+        const items = cot.lineas.map((linea, i) => ({ ...enPedido[i], quantity: linea.cantidad, currentPrice: linea.precioUnitario, lineTotal: linea.total, reglas: linea.reglas }));
+        return { orderItems: items, cotizacion: cot };
+    }, [quantities, products, reglas, contextoPrecio]);
 
 
     const groupedProducts = useMemo(() => {
@@ -150,9 +154,12 @@ const ClientPriceListPage: React.FC = () => {
                                                     const lineTotal = currentPrice * quantity;
                                                     return (
                                                         <tr key={product.id}>
-                                                            <td className="p-3 align-middle font-medium text-gray-800">{product.nombre}</td>
+                                                            <td className="p-3 align-middle font-medium text-gray-800">
+                                                                {product.nombre}
+                                                                {product.stockTotal <= 0 && <span className="ml-2 bg-red-100 text-red-700 text-xs font-semibold px-2 py-0.5 rounded-full">Sin stock</span>}
+                                                            </td>
                                                             <td className="p-3 align-middle">
-                                                                <input type="number" value={quantity} onChange={e => handleQuantityChange(product.id, e.target.value)} min="0" className="w-20 text-center font-semibold text-gray-800 border-2 border-gray-200 rounded-md p-2 focus:ring-primary focus:border-primary transition" />
+                                                                <input type="number" value={quantity} onChange={e => handleQuantityChange(product.id, e.target.value)} min="0" max={product.stockTotal} disabled={product.stockTotal <= 0} className="w-20 text-center font-semibold text-gray-800 border-2 border-gray-200 rounded-md p-2 focus:ring-primary focus:border-primary transition" />
                                                             </td>
                                                             <td className="p-3 text-center align-middle font-semibold text-gray-700">{formatPrice(currentPrice)}</td>
                                                             <td className="p-3 text-right align-middle font-bold text-lg text-primary">{formatPrice(lineTotal)}</td>
@@ -174,15 +181,27 @@ const ClientPriceListPage: React.FC = () => {
                                             <div>
                                                 <p className="font-semibold text-gray-700">{item.nombre}</p>
                                                 <p className="text-gray-500">{item.quantity} u. x {formatPrice(item.currentPrice)}</p>
+                                                {item.reglas.map(regla => <p key={regla.reglaId} className="text-xs text-green-600">{regla.nombre}</p>)}
                                             </div>
                                             <p className="font-semibold">{formatPrice(item.lineTotal)}</p>
                                         </div>
                                     )) : <p className="text-gray-500 text-center py-4">Agrega productos a tu pedido.</p>}
                                 </div>
-                                <div className="mt-4 pt-4 border-t-2 border-dashed">
+                                <div className="mt-4 pt-4 border-t-2 border-dashed space-y-2">
+                                    {cotizacion.reglasPedido.length > 0 && (
+                                        <>
+                                            <div className="flex justify-between text-gray-600"><span>Subtotal:</span><span>{formatPrice(cotizacion.subtotal)}</span></div>
+                                            {cotizacion.reglasPedido.map(regla => (
+                                                <div key={regla.reglaId} className="flex justify-between text-sm text-green-600 font-semibold">
+                                                    <span>{regla.nombre}</span>
+                                                    <span>-{formatPrice(regla.monto)}</span>
+                                                </div>
+                                            ))}
+                                        </>
+                                    )}
                                     <div className="flex justify-between font-bold text-2xl text-gray-800">
-                                        <span>Subtotal:</span>
-                                        <span>{formatPrice(subtotal)}</span>
+                                        <span>{cotizacion.reglasPedido.length > 0 ? 'Total:' : 'Subtotal:'}</span>
+                                        <span>{formatPrice(cotizacion.total)}</span>
                                     </div>
                                 </div>
                                 <button onClick={() => alert('¡Funcionalidad de envío de pedidos próximamente!')} disabled={orderItems.length === 0} className="w-full mt-6 bg-primary text-white py-3 rounded-lg shadow-md hover:bg-primary-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed font-semibold text-lg">
@@ -1,12 +1,13 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import PageHeader from '@/components/PageHeader';
 import Table, { Column } from '@/components/Table';
-import { Cliente, ListMeta } from '@/types';
-import { IconPlus, IconX, IconPencil, IconTrash, IconBrandWhatsapp } from '@/components/Icons';
+import { Cliente, ListMeta, CuentaCorriente, MetodoPago } from '@/types';
+import { IconPlus, IconX, IconPencil, IconTrash, IconBrandWhatsapp, IconCashBanknote, IconDownload, IconAlertTriangle } from '@/components/Icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { fetchClientes, createCliente, updateCliente, deleteCliente } from '@/services/clientesService';
 import { fetchListasDePrecios } from '@/services/preciosService';
 import { fetchUmbrales, Umbrales } from '@/services/ajustesService';
+import { fetchCuentaCorriente, registrarPagoCliente, descargarEstadoCuentaPdf, METODOS_PAGO } from '@/services/cuentaCorrienteService';
 import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
 
 // --- Cliente Modal Component ---
@@ -155,6 +156,16 @@ const ClienteModal: React.FC<ClienteModalProps> = ({ onClose, onSuccess, listasD
                         <label className="block text-sm font-medium text-gray-700">CUIT</label>
                         <input type="text" name="cuit" value={formData.cuit || ''} onChange={handleInputChange} className="mt-1 input-style w-full" />
                     </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700">Condición frente al IVA</label>
+                        <select name="condicionIva" value={formData.condicionIva || ''} onChange={handleInputChange} className="mt-1 input-style w-full">
+                            <option value="">Sin especificar (Consumidor Final)</option>
+                            <option value="Responsable Inscripto">Responsable Inscripto</option>
+                            <option value="Monotributo">Monotributo</option>
+                            <option value="Exento">Exento</option>
+                            <option value="Consumidor Final">Consumidor Final</option>
+                        </select>
+                    </div>
                     <div>
                         <label className="block text-sm font-medium text-gray-700">Rubro</label>
                         <input type="text" name="rubro" value={formData.rubro || ''} onChange={handleInputChange} className="mt-1 input-style w-full" />
@@ -206,6 +217,174 @@ const ClienteModal: React.FC<ClienteModalProps> = ({ onClose, onSuccess, listasD
     );
 };
 
+// --- Cuenta Corriente Modal ---
+const formatMoneda = (n: number) => `$${n.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const CuentaCorrienteModal: React.FC<{ cliente: Cliente; onClose: () => void }> = ({ cliente, onClose }) => {
+    const [cuenta, setCuenta] = useState<CuentaCorriente | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<any | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [pago, setPago] = useState({
+        monto: '',
+        metodo: 'Transferencia' as MetodoPago,
+        fecha: new Date().toISOString().split('T')[0],
+        referencia: '',
+        ventaId: '',
+    });
+
+    const loadCuenta = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            setCuenta(await fetchCuentaCorriente(cliente.id));
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setLoading(false);
+        }
+    }, [cliente.id]);
+
+    useEffect(() => { loadCuenta(); }, [loadCuenta]);
+
+    const handlePagoChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setPago(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleRegistrarPago = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const monto = parseFloat(pago.monto);
+        if (!monto || monto <= 0) {
+            setError({ message: 'El monto del pago debe ser mayor a cero.' });
+            return;
+        }
+        setSaving(true);
+        setError(null);
+        try {
+            await registrarPagoCliente({
+                clienteId: cliente.id,
+                ventaId: pago.ventaId || null,
+                fecha: pago.fecha,
+                monto,
+                metodo: pago.metodo,
+                referencia: pago.referencia || null,
+            });
+            setPago(prev => ({ ...prev, monto: '', referencia: '', ventaId: '' }));
+            await loadCuenta();
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+                <div className="flex justify-between items-center p-4 border-b">
+                    <h2 className="text-xl font-bold text-gray-800">Cuenta Corriente · {cliente.nombre}</h2>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => cuenta && descargarEstadoCuentaPdf(cliente, cuenta)}
+                            disabled={!cuenta}
+                            className="flex items-center text-sm bg-gray-100 px-3 py-1.5 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                        >
+                            <IconDownload className="h-4 w-4 mr-1" />
+                            Imprimir estado de cuenta
+                        </button>
+                        <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="h-6 w-6" /></button>
+                    </div>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    {loading || !cuenta ? (
+                        !error && <p className="text-center py-8 text-gray-400">Cargando cuenta corriente...</p>
+                    ) : (
+                        <>
+                            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                                <div className={`p-3 rounded-lg border ${cuenta.saldo > 0 ? 'bg-rose-50 border-rose-200' : 'bg-emerald-50 border-emerald-200'}`}>
+                                    <p className="text-xs text-gray-500 uppercase font-semibold">Saldo</p>
+                                    <p className="text-lg font-bold">{formatMoneda(cuenta.saldo)}</p>
+                                    {cuenta.saldoAFavor > 0 && <p className="text-[10px] text-emerald-700">A favor sin imputar: {formatMoneda(cuenta.saldoAFavor)}</p>}
+                                </div>
+                                {Object.entries(cuenta.antiguedad).map(([tramo, monto]) => (
+                                    <div key={tramo} className="p-3 rounded-lg border bg-gray-50">
+                                        <p className="text-xs text-gray-500 uppercase font-semibold">{tramo} días</p>
+                                        <p className={`text-lg font-bold ${monto > 0 && tramo !== '0-30' ? 'text-rose-600' : 'text-gray-800'}`}>{formatMoneda(monto)}</p>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {cuenta.inconsistencias.length > 0 && (
+                                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 space-y-1">
+                                    {cuenta.inconsistencias.map((msg, idx) => (
+                                        <p key={idx} className="flex items-center"><IconAlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />{msg}</p>
+                                    ))}
+                                </div>
+                            )}
+
+                            <form onSubmit={handleRegistrarPago} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end p-3 border rounded-lg bg-violet-50/40">
+                                <label className="text-xs font-medium text-gray-700">Monto
+                                    <input type="number" step="0.01" min="0" name="monto" value={pago.monto} onChange={handlePagoChange} className="mt-1 input-style w-full" />
+                                </label>
+                                <label className="text-xs font-medium text-gray-700">Método
+                                    <select name="metodo" value={pago.metodo} onChange={handlePagoChange} className="mt-1 input-style w-full">
+                                        {METODOS_PAGO.map(m => <option key={m} value={m}>{m}</option>)}
+                                    </select>
+                                </label>
+                                <label className="text-xs font-medium text-gray-700">Fecha
+                                    <input type="date" name="fecha" value={pago.fecha} onChange={handlePagoChange} className="mt-1 input-style w-full" />
+                                </label>
+                                <label className="text-xs font-medium text-gray-700">Referencia
+                                    <input type="text" name="referencia" value={pago.referencia} onChange={handlePagoChange} placeholder="N° cheque / operación" className="mt-1 input-style w-full" />
+                                </label>
+                                <label className="text-xs font-medium text-gray-700">Imputar a
+                                    <select name="ventaId" value={pago.ventaId} onChange={handlePagoChange} className="mt-1 input-style w-full">
+                                        <option value="">Deuda más antigua</option>
+                                        {cuenta.ventasPendientes.map(v => (
+                                            <option key={v.ventaId} value={v.ventaId}>#{v.ventaId.substring(0, 6).toUpperCase()} · {formatMoneda(v.pendiente)}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <button type="submit" disabled={saving} className="bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark disabled:bg-violet-300">
+                                    {saving ? 'Registrando...' : 'Registrar pago'}
+                                </button>
+                            </form>
+
+                            <table className="w-full text-sm">
+                                <thead className="bg-gray-50 border-b">
+                                    <tr className="text-left text-gray-500 text-xs uppercase">
+                                        <th className="p-2">Fecha</th>
+                                        <th className="p-2">Concepto</th>
+                                        <th className="p-2 text-right">Debe</th>
+                                        <th className="p-2 text-right">Haber</th>
+                                        <th className="p-2 text-right">Saldo</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {cuenta.movimientos.length === 0 ? (
+                                        <tr><td colSpan={5} className="p-4 text-center text-gray-400">Sin movimientos.</td></tr>
+                                    ) : cuenta.movimientos.map((m, idx) => (
+                                        <tr key={idx} className={m.tipo === 'Cobro según estado' ? 'text-gray-400 italic' : ''}>
+                                            <td className="p-2 whitespace-nowrap">{m.fecha.split('-').reverse().join('/')}</td>
+                                            <td className="p-2">{m.descripcion}</td>
+                                            <td className="p-2 text-right">{m.debe ? formatMoneda(m.debe) : ''}</td>
+                                            <td className="p-2 text-right text-emerald-700">{m.haber ? formatMoneda(m.haber) : ''}</td>
+                                            <td className="p-2 text-right font-semibold">{formatMoneda(m.saldo)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </>
+                    )}
+                </div>
+            </div>
+            <style>{`.input-style { display: block; padding: 0.5rem 0.75rem; border: 1px solid #D1D5DB; border-radius: 0.375rem; background: white; } .input-style:focus { border-color: #8a5cf6; }`}</style>
+        </div>
+    );
+};
+
 // --- Main Clientes Page ---
 const Clientes: React.FC = () => {
     const { profile } = useAuth();
@@ -217,6 +396,7 @@ const Clientes: React.FC = () => {
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingClient, setEditingClient] = useState<Partial<Cliente> | null>(null);
     const [searchTerm, setSearchTerm] = useState('');
+    const [clienteCuenta, setClienteCuenta] = useState<Cliente | null>(null);
 
     const canManage = profile?.roles?.some(role => ['superadmin', 'vendedor'].includes(role));
 
@@ -297,6 +477,7 @@ const Clientes: React.FC = () => {
         { header: 'Acciones', accessor: 'id', render: (item) => (
             canManage && (
                 <div className="flex space-x-3">
+                    <button onClick={() => setClienteCuenta(item)} className="text-emerald-600 hover:text-emerald-800" title="Cuenta corriente"><IconCashBanknote className="h-5 w-5" /></button>
                     <button onClick={() => handleOpenEdit(item)} className="text-blue-500 hover:text-blue-700" title="Editar"><IconPencil className="h-5 w-5" /></button>
                     <button onClick={() => handleDelete(item.id, item.nombre)} className="text-red-500 hover:text-red-700" title="Eliminar"><IconTrash className="h-5 w-5" /></button>
                 </div>
@@ -351,6 +532,10 @@ const Clientes: React.FC = () => {
                     clienteToEdit={editingClient}
                 />
             )}
+
+            {clienteCuenta && (
+                <CuentaCorrienteModal cliente={clienteCuenta} onClose={() => setClienteCuenta(null)} />
+            )}
         </div>
     );
 };
@@ -0,0 +1,544 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import PageHeader from '@/components/PageHeader';
+import Table, { Column } from '@/components/Table';
+import { Insumo, MonedaCompra, OrdenCompra, Proveedor } from '@/types';
+import { IconPlus, IconX, IconPencil, IconTrash, IconTruck, IconCheck, IconArrowLeft } from '@/components/Icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchInsumos } from '@/services/insumosService';
+import {
+    fetchProveedores, saveProveedor, deleteProveedor, fetchOrdenesCompra, crearOrdenCompra,
+    marcarOrdenEnviada, deleteOrdenCompra, recibirOrdenCompra, LineaOrdenCompra,
+} from '@/services/comprasService';
+import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
+
+const ESTADO_CLASES: Record<OrdenCompra['estado'], string> = {
+    'Borrador': 'bg-gray-100 text-gray-800',
+    'Enviada': 'bg-blue-100 text-blue-800',
+    'Recibida parcial': 'bg-yellow-100 text-yellow-800',
+    'Recibida': 'bg-green-100 text-green-800',
+};
+
+const formatMonto = (n: number, moneda: MonedaCompra) =>
+    `${moneda === 'USD' ? 'US$' : '$'}${n.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatFecha = (fecha: string | null) => fecha ? fecha.split('-').reverse().join('/') : '-';
+
+const ProveedorModal: React.FC<{
+    proveedor: Partial<Proveedor>;
+    onClose: () => void;
+    onSuccess: () => void;
+}> = ({ proveedor, onClose, onSuccess }) => {
+    const [form, setForm] = useState<Partial<Proveedor>>(proveedor);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setForm(prev => ({ ...prev, [name]: name === 'leadTimeDias' ? Math.max(0, parseInt(value, 10) || 0) : value }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await saveProveedor(form);
+            onSuccess();
+        } catch (err: any) {
+            setError(err);
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">{form.id ? 'Editar Proveedor' : 'Nuevo Proveedor'}</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700">Razón social*</label>
+                        <input type="text" name="nombre" value={form.nombre || ''} onChange={handleChange} required className="mt-1 input-style" />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">CUIT</label>
+                            <input type="text" name="cuit" value={form.cuit || ''} onChange={handleChange} placeholder="30-12345678-9" className="mt-1 input-style" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Contacto</label>
+                            <input type="text" name="contacto" value={form.contacto || ''} onChange={handleChange} className="mt-1 input-style" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Email</label>
+                            <input type="email" name="email" value={form.email || ''} onChange={handleChange} className="mt-1 input-style" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Teléfono</label>
+                            <input type="text" name="telefono" value={form.telefono || ''} onChange={handleChange} className="mt-1 input-style" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Demora de entrega (días)</label>
+                            <input type="number" name="leadTimeDias" min={0} value={form.leadTimeDias ?? 0} onChange={handleChange} className="mt-1 input-style" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Moneda</label>
+                            <select name="moneda" value={form.moneda || 'ARS'} onChange={handleChange} className="mt-1 input-style">
+                                <option value="ARS">Pesos (ARS)</option>
+                                <option value="USD">Dólares (USD)</option>
+                            </select>
+                        </div>
+                    </div>
+                    <div className="flex justify-end pt-4 border-t mt-6">
+                        <button type="button" onClick={onClose} className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg mr-2 hover:bg-gray-300">Cancelar</button>
+                        <button type="submit" disabled={isSubmitting} className="bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark disabled:bg-violet-300">
+                            {isSubmitting ? 'Guardando...' : 'Guardar'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const OrdenCompraModal: React.FC<{
+    proveedores: Proveedor[];
+    insumos: Insumo[];
+    onClose: () => void;
+    onSuccess: () => void;
+}> = ({ proveedores, insumos, onClose, onSuccess }) => {
+    const [proveedorId, setProveedorId] = useState(proveedores[0]?.id || '');
+    const [fecha, setFecha] = useState(new Date().toISOString().split('T')[0]);
+    const [notas, setNotas] = useState('');
+    const [lineas, setLineas] = useState<LineaOrdenCompra[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    const proveedor = proveedores.find(p => p.id === proveedorId);
+    const moneda = proveedor?.moneda || 'ARS';
+    const total = lineas.reduce((sum, l) => sum + l.cantidad * l.costoUnitario, 0);
+
+    const addLinea = () => {
+        const insumo = insumos.find(i => !lineas.some(l => l.insumoId === i.id));
+        if (!insumo) return;
+        // En pesos se propone el costo actual del insumo; en dólares se carga a mano
+        setLineas(prev => [...prev, { insumoId: insumo.id, cantidad: 1, costoUnitario: moneda === 'ARS' ? insumo.costo : 0 }]);
+    };
+
+    const updateLinea = (index: number, cambios: Partial<LineaOrdenCompra>) => {
+        setLineas(prev => prev.map((l, i) => i === index ? { ...l, ...cambios } : l));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!proveedor) {
+            setError({ message: 'Selecciona un proveedor.' });
+            return;
+        }
+        if (lineas.length === 0 || lineas.some(l => l.cantidad <= 0)) {
+            setError({ message: 'Agrega al menos un insumo con cantidad mayor a cero.' });
+            return;
+        }
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await crearOrdenCompra(proveedor, lineas, fecha, notas);
+            onSuccess();
+        } catch (err: any) {
+            setError(err);
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">Nueva Orden de Compra</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Proveedor*</label>
+                            <select value={proveedorId} onChange={e => setProveedorId(e.target.value)} required className="mt-1 input-style">
+                                {proveedores.map(p => <option key={p.id} value={p.id}>{p.nombre} ({p.moneda})</option>)}
+                            </select>
+                            {proveedor && <p className="text-xs text-gray-500 mt-1">Entrega estimada a {proveedor.leadTimeDias} días de la fecha de la orden.</p>}
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Fecha</label>
+                            <input type="date" value={fecha} onChange={e => setFecha(e.target.value)} required className="mt-1 input-style" />
+                        </div>
+                    </div>
+
+                    <table className="w-full text-sm">
+                        <thead className="border-b">
+                            <tr className="text-left text-gray-500 text-xs uppercase">
+                                <th className="p-2">Insumo</th>
+                                <th className="p-2 w-28">Cantidad</th>
+                                <th className="p-2 w-32">Costo unit. ({moneda})</th>
+                                <th className="p-2 text-right">Subtotal</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {lineas.map((l, index) => {
+                                const insumo = insumos.find(i => i.id === l.insumoId);
+                                return (
+                                    <tr key={index}>
+                                        <td className="p-2">
+                                            <select value={l.insumoId} onChange={e => updateLinea(index, { insumoId: e.target.value })} className="w-full p-1 border rounded">
+                                                {insumos.filter(i => i.id === l.insumoId || !lineas.some(x => x.insumoId === i.id)).map(i => (
+                                                    <option key={i.id} value={i.id}>{i.nombre}</option>
+                                                ))}
+                                            </select>
+                                        </td>
+                                        <td className="p-2">
+                                            <div className="flex items-center">
+                                                <input type="number" min="0.01" step="any" value={l.cantidad} onChange={e => updateLinea(index, { cantidad: parseFloat(e.target.value) || 0 })} className="w-20 p-1 border rounded" />
+                                                <span className="ml-1 text-xs text-gray-500">{insumo?.unidad}</span>
+                                            </div>
+                                        </td>
+                                        <td className="p-2">
+                                            <input type="number" min="0" step="0.01" value={l.costoUnitario} onChange={e => updateLinea(index, { costoUnitario: parseFloat(e.target.value) || 0 })} className="w-28 p-1 border rounded" />
+                                        </td>
+                                        <td className="p-2 text-right">{formatMonto(l.cantidad * l.costoUnitario, moneda)}</td>
+                                        <td className="p-2 text-right">
+                                            <button type="button" onClick={() => setLineas(prev => prev.filter((_, i) => i !== index))} className="text-red-500 hover:text-red-700"><IconTrash className="h-4 w-4" /></button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    <div className="flex justify-between items-center">
+                        <button type="button" onClick={addLinea} disabled={lineas.length >= insumos.length} className="flex items-center text-sm text-primary hover:underline disabled:text-gray-400">
+                            <IconPlus className="h-4 w-4 mr-1" /> Agregar insumo
+                        </button>
+                        <p className="text-sm">Total: <strong>{formatMonto(total, moneda)}</strong></p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700">Notas</label>
+                        <input type="text" value={notas} onChange={e => setNotas(e.target.value)} className="mt-1 input-style" />
+                    </div>
+
+                    <div className="flex justify-end pt-4 border-t mt-6">
+                        <button type="button" onClick={onClose} className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg mr-2 hover:bg-gray-300">Cancelar</button>
+                        <button type="submit" disabled={isSubmitting} className="bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark disabled:bg-violet-300">
+                            {isSubmitting ? 'Guardando...' : 'Guardar Borrador'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+// Recepción de mercadería: por cada ítem pendiente se carga lo que llegó y su lote.
+const RecepcionModal: React.FC<{
+    orden: OrdenCompra;
+    onClose: () => void;
+    onSuccess: () => void;
+}> = ({ orden, onClose, onSuccess }) => {
+    const pendientes = orden.items.filter(i => i.cantidadRecibida < i.cantidad);
+    const [cantidades, setCantidades] = useState<Record<string, number>>(() =>
+        Object.fromEntries(pendientes.map(i => [i.id, i.cantidad - i.cantidadRecibida]))
+    );
+    const [lotes, setLotes] = useState<Record<string, string>>({});
+    const [vencimientos, setVencimientos] = useState<Record<string, string>>({});
+    const [fecha, setFecha] = useState(new Date().toISOString().split('T')[0]);
+    const [remito, setRemito] = useState('');
+    const [tipoCambio, setTipoCambio] = useState(1);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const excedido = pendientes.find(i => (cantidades[i.id] || 0) > i.cantidad - i.cantidadRecibida);
+        if (excedido) {
+            setError({ message: `La cantidad de "${excedido.insumoNombre}" supera lo pendiente (${excedido.cantidad - excedido.cantidadRecibida}).` });
+            return;
+        }
+        if (orden.moneda === 'USD' && tipoCambio <= 1) {
+            setError({ message: 'Indica el tipo de cambio del día para convertir el costo a pesos.' });
+            return;
+        }
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await recibirOrdenCompra(
+                orden.id,
+                pendientes.map(i => ({ ordenItemId: i.id, cantidad: cantidades[i.id] || 0, lote: lotes[i.id] || '', fechaVencimiento: vencimientos[i.id] || '' })),
+                fecha,
+                remito,
+                tipoCambio
+            );
+            onSuccess();
+        } catch (err: any) {
+            setError(err);
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">Recibir OC #{orden.numero} <span className="text-primary">{orden.proveedorNombre}</span></h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Fecha de recepción</label>
+                            <input type="date" value={fecha} onChange={e => setFecha(e.target.value)} required className="mt-1 input-style" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">N° de remito</label>
+                            <input type="text" value={remito} onChange={e => setRemito(e.target.value)} className="mt-1 input-style" />
+                        </div>
+                        {orden.moneda === 'USD' && (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Tipo de cambio (ARS/USD)</label>
+                                <input type="number" min="0" step="0.01" value={tipoCambio} onChange={e => setTipoCambio(parseFloat(e.target.value) || 0)} required className="mt-1 input-style" />
+                            </div>
+                        )}
+                    </div>
+                    <table className="w-full text-sm">
+                        <thead className="border-b">
+                            <tr className="text-left text-gray-500 text-xs uppercase">
+                                <th className="p-2">Insumo</th>
+                                <th className="p-2 text-center">Pedido</th>
+                                <th className="p-2 text-center">Recibido</th>
+                                <th className="p-2 w-28">Llega ahora</th>
+                                <th className="p-2">Lote</th>
+                                <th className="p-2">Vencimiento</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {pendientes.map(i => (
+                                <tr key={i.id}>
+                                    <td className="p-2">
+                                        <p className="font-medium text-gray-700">{i.insumoNombre}</p>
+                                        <p className="text-[10px] text-gray-400">{formatMonto(i.costoUnitario, orden.moneda)} c/u</p>
+                                    </td>
+                                    <td className="p-2 text-center">{i.cantidad} {i.unidad}</td>
+                                    <td className="p-2 text-center">{i.cantidadRecibida}</td>
+                                    <td className="p-2">
+                                        <input type="number" min="0" step="any" value={cantidades[i.id] ?? 0}
+                                            onChange={e => setCantidades(prev => ({ ...prev, [i.id]: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                                            className="w-24 p-1 border rounded" />
+                                    </td>
+                                    <td className="p-2">
+                                        <input type="text" value={lotes[i.id] || ''} onChange={e => setLotes(prev => ({ ...prev, [i.id]: e.target.value }))} className="w-full p-1 border rounded" />
+                                    </td>
+                                    <td className="p-2">
+                                        <input type="date" value={vencimientos[i.id] || ''} onChange={e => setVencimientos(prev => ({ ...prev, [i.id]: e.target.value }))} className="w-full p-1 border rounded" />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="text-xs text-gray-500">Cada ítem recibido crea un lote del insumo; su costo se recalcula como promedio ponderado con el stock existente.</p>
+                    <div className="flex justify-end pt-4 border-t mt-6">
+                        <button type="button" onClick={onClose} className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg mr-2 hover:bg-gray-300">Cancelar</button>
+                        <button type="submit" disabled={isSubmitting} className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark disabled:bg-violet-300">
+                            <IconCheck className="h-5 w-5 mr-2" />
+                            {isSubmitting ? 'Registrando...' : 'Registrar Recepción'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const ComprasInsumos: React.FC = () => {
+    const { profile } = useAuth();
+    const [tab, setTab] = useState<'ordenes' | 'proveedores'>('ordenes');
+    const [ordenes, setOrdenes] = useState<OrdenCompra[]>([]);
+    const [proveedores, setProveedores] = useState<Proveedor[]>([]);
+    const [insumos, setInsumos] = useState<Insumo[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<any | null>(null);
+    const [proveedorEditando, setProveedorEditando] = useState<Partial<Proveedor> | null>(null);
+    const [isOrdenModalOpen, setIsOrdenModalOpen] = useState(false);
+    const [ordenRecibiendo, setOrdenRecibiendo] = useState<OrdenCompra | null>(null);
+
+    const canManage = profile?.roles?.some(role => ['superadmin', 'administrativo'].includes(role));
+
+    const loadData = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const [ordenesData, proveedoresData, insumosData] = await Promise.all([
+                fetchOrdenesCompra(),
+                fetchProveedores(),
+                fetchInsumos(),
+            ]);
+            setOrdenes(ordenesData);
+            setProveedores(proveedoresData);
+            setInsumos(insumosData);
+        } catch (err: any) {
+            console.error(`[ComprasInsumosPage] Error fetching data:`, err);
+            setError(err);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const runAction = async (action: () => Promise<void>) => {
+        setError(null);
+        try {
+            await action();
+            loadData();
+        } catch (err: any) {
+            setError(err);
+        }
+    };
+
+    const handleEnviar = (orden: OrdenCompra) => {
+        if (window.confirm(`¿Marcar la OC #${orden.numero} como enviada a ${orden.proveedorNombre}? Ya no podrá editarse.`)) {
+            runAction(() => marcarOrdenEnviada(orden.id));
+        }
+    };
+
+    const handleDeleteOrden = (orden: OrdenCompra) => {
+        if (window.confirm(`¿Eliminar el borrador de la OC #${orden.numero}?`)) {
+            runAction(() => deleteOrdenCompra(orden.id));
+        }
+    };
+
+    const handleDeleteProveedor = (proveedor: Proveedor) => {
+        if (window.confirm(`¿Seguro que quieres eliminar el proveedor "${proveedor.nombre}"?`)) {
+            runAction(() => deleteProveedor(proveedor.id));
+        }
+    };
+
+    const handleModalSuccess = () => {
+        setProveedorEditando(null);
+        setIsOrdenModalOpen(false);
+        setOrdenRecibiendo(null);
+        loadData();
+    };
+
+    const ordenColumns: Column<OrdenCompra>[] = [
+        { header: 'OC', accessor: 'numero', render: item => <span className="font-semibold">#{item.numero}</span> },
+        { header: 'Proveedor', accessor: 'proveedorNombre' },
+        { header: 'Fecha', accessor: 'fecha', render: item => formatFecha(item.fecha) },
+        { header: 'Entrega Est.', accessor: 'fechaEntregaEstimada', render: item => formatFecha(item.fechaEntregaEstimada) },
+        { header: 'Ítems', accessor: 'items', render: item => (
+            <div className="text-xs text-gray-600">
+                {item.items.map(i => (
+                    <p key={i.id}>{i.insumoNombre}: {i.cantidadRecibida}/{i.cantidad} {i.unidad}</p>
+                ))}
+            </div>
+        )},
+        { header: 'Total', accessor: 'total', render: item => formatMonto(item.total, item.moneda) },
+        { header: 'Estado', accessor: 'estado', render: item => (
+            <span className={`px-2 py-1 text-xs font-semibold rounded-full ${ESTADO_CLASES[item.estado]}`}>{item.estado}</span>
+        )},
+        { header: 'Acciones', accessor: 'id', render: item => canManage && (
+            <div className="flex space-x-3">
+                {item.estado === 'Borrador' && (
+                    <>
+                        <button onClick={() => handleEnviar(item)} className="text-blue-500 hover:text-blue-700" title="Marcar como Enviada"><IconTruck className="h-5 w-5" /></button>
+                        <button onClick={() => handleDeleteOrden(item)} className="text-red-500 hover:text-red-700" title="Eliminar Borrador"><IconTrash className="h-5 w-5" /></button>
+                    </>
+                )}
+                {(item.estado === 'Enviada' || item.estado === 'Recibida parcial') && (
+                    <button onClick={() => setOrdenRecibiendo(item)} className="text-green-500 hover:text-green-700" title="Recibir Mercadería"><IconCheck className="h-5 w-5" /></button>
+                )}
+            </div>
+        )},
+    ];
+
+    const proveedorColumns: Column<Proveedor>[] = [
+        { header: 'Proveedor', accessor: 'nombre', render: item => <span className="font-semibold">{item.nombre}</span> },
+        { header: 'CUIT', accessor: 'cuit' },
+        { header: 'Contacto', accessor: 'contacto', render: item => (
+            <div className="text-sm">
+                <p>{item.contacto || '-'}</p>
+                <p className="text-xs text-gray-500">{[item.email, item.telefono].filter(Boolean).join(' · ')}</p>
+            </div>
+        )},
+        { header: 'Demora', accessor: 'leadTimeDias', render: item => `${item.leadTimeDias} días` },
+        { header: 'Moneda', accessor: 'moneda' },
+        { header: 'Acciones', accessor: 'id', render: item => canManage && (
+            <div className="flex space-x-3">
+                <button onClick={() => setProveedorEditando(item)} className="text-blue-500 hover:text-blue-700" title="Editar"><IconPencil className="h-5 w-5" /></button>
+                <button onClick={() => handleDeleteProveedor(item)} className="text-red-500 hover:text-red-700" title="Eliminar"><IconTrash className="h-5 w-5" /></button>
+            </div>
+        )},
+    ];
+
+    return (
+        <div>
+            <PageHeader title="Compras de Insumos">
+                <Link to="/stock/insumos" className="flex items-center bg-gray-200 text-gray-700 px-4 py-2 rounded-lg shadow-sm hover:bg-gray-300 transition-colors">
+                    <IconArrowLeft className="h-5 w-5 mr-2" />
+                    Stock Insumos
+                </Link>
+                {canManage && (tab === 'ordenes' ? (
+                    <button
+                        onClick={() => proveedores.length === 0 ? setError({ message: 'Primero carga al menos un proveedor.' }) : setIsOrdenModalOpen(true)}
+                        className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark transition-colors"
+                    >
+                        <IconPlus className="h-5 w-5 mr-2" />
+                        Nueva Orden
+                    </button>
+                ) : (
+                    <button
+                        onClick={() => setProveedorEditando({ nombre: '', leadTimeDias: 0, moneda: 'ARS' })}
+                        className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark transition-colors"
+                    >
+                        <IconPlus className="h-5 w-5 mr-2" />
+                        Nuevo Proveedor
+                    </button>
+                ))}
+            </PageHeader>
+
+            <DatabaseErrorDisplay error={error} />
+
+            <div className="flex border-b mb-4">
+                {([['ordenes', 'Órdenes de Compra'], ['proveedores', 'Proveedores']] as const).map(([key, label]) => (
+                    <button
+                        key={key}
+                        onClick={() => setTab(key)}
+                        className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${tab === key ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {tab === 'ordenes'
+                ? <Table columns={ordenColumns} data={ordenes} isLoading={loading} />
+                : <Table columns={proveedorColumns} data={proveedores} isLoading={loading} />}
+
+            {proveedorEditando && (
+                <ProveedorModal proveedor={proveedorEditando} onClose={() => setProveedorEditando(null)} onSuccess={handleModalSuccess} />
+            )}
+            {isOrdenModalOpen && (
+                <OrdenCompraModal proveedores={proveedores} insumos={insumos} onClose={() => setIsOrdenModalOpen(false)} onSuccess={handleModalSuccess} />
+            )}
+            {ordenRecibiendo && (
+                <RecepcionModal orden={ordenRecibiendo} onClose={() => setOrdenRecibiendo(null)} onSuccess={handleModalSuccess} />
+            )}
+            <style>{`.input-style { display: block; width: 100%; padding: 0.5rem 0.75rem; border: 1px solid #D1D5DB; border-radius: 0.375rem; } .input-style:focus { border-color: #8a5cf6; }`}</style>
+        </div>
+    );
+};
+
+export default ComprasInsumos;
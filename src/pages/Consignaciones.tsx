@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import PageHeader from '../components/PageHeader';
+import { ConsignacionCliente, Deposito } from '../types';
+import { fetchConsignacionesPendientes, liquidarConsignacion, descargarReporteConsignacionPdf } from '../services/consignacionesService';
+import { fetchDepositos } from '../services/depositosService';
+import { useAuth } from '../contexts/AuthContext';
+import DatabaseErrorDisplay from '../components/DatabaseErrorDisplay';
+import { IconDownload, IconCheck, IconBuildingWarehouse } from '../components/Icons';
+
+type LineaForm = { vendidas: number; devueltas: number; depositoDestinoId: string };
+
+const formatMoneda = (n: number) => `$${n.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Liquidación de un cliente: por cada ítem se indica cuánto vendió y cuánto devuelve.
+const LiquidacionForm: React.FC<{
+    consignacion: ConsignacionCliente;
+    depositos: Deposito[];
+    onSuccess: (mensaje: string) => void;
+}> = ({ consignacion, depositos, onSuccess }) => {
+    const depositoPredeterminado = depositos.find(d => d.es_predeterminado)?.id || depositos[0]?.id || '';
+    const [lineas, setLineas] = useState<Record<string, LineaForm>>(() =>
+        Object.fromEntries(consignacion.items.map(i => [i.ventaItemId, { vendidas: 0, devueltas: 0, depositoDestinoId: i.depositoOrigenId || depositoPredeterminado }]))
+    );
+    const [notas, setNotas] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    const updateLinea = (ventaItemId: string, cambios: Partial<LineaForm>) => {
+        setLineas(prev => ({ ...prev, [ventaItemId]: { ...prev[ventaItemId], ...cambios } }));
+    };
+
+    const totalVendido = consignacion.items.reduce((sum, i) => sum + lineas[i.ventaItemId].vendidas * i.precioUnitario, 0);
+    const totalDevuelto = consignacion.items.reduce((sum, i) => sum + lineas[i.ventaItemId].devueltas * i.precioUnitario, 0);
+
+    const handleSubmit = async () => {
+        const excedidos = consignacion.items.filter(i => lineas[i.ventaItemId].vendidas + lineas[i.ventaItemId].devueltas > i.pendiente);
+        if (excedidos.length > 0) {
+            setError({ message: `Las cantidades de "${excedidos[0].productoNombre}" superan lo pendiente en consignación (${excedidos[0].pendiente}).` });
+            return;
+        }
+        if (!consignacion.items.some(i => lineas[i.ventaItemId].vendidas + lineas[i.ventaItemId].devueltas > 0)) {
+            setError({ message: 'Indica al menos una cantidad vendida o devuelta.' });
+            return;
+        }
+        setSaving(true);
+        setError(null);
+        try {
+            const { ventaId } = await liquidarConsignacion(
+                consignacion.clienteId,
+                consignacion.items.map(i => ({ ventaItemId: i.ventaItemId, ...lineas[i.ventaItemId] })),
+                notas
+            );
+            onSuccess(ventaId
+                ? `Liquidación registrada. Se creó la venta #${ventaId.substring(0, 6).toUpperCase()} por ${formatMoneda(totalVendido)}.`
+                : 'Liquidación registrada. Las unidades devueltas volvieron al depósito elegido.');
+        } catch (err: any) {
+            setError(err);
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="p-4 bg-gray-50 border-t space-y-3">
+            <DatabaseErrorDisplay error={error} />
+            <table className="w-full text-sm">
+                <thead className="border-b">
+                    <tr className="text-left text-gray-500 text-xs uppercase">
+                        <th className="p-2">Producto</th>
+                        <th className="p-2">Lote</th>
+                        <th className="p-2 text-center">Pendiente</th>
+                        <th className="p-2 text-center">Vendidas</th>
+                        <th className="p-2 text-center">Devueltas</th>
+                        <th className="p-2">Devolver a</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                    {consignacion.items.map(i => {
+                        const linea = lineas[i.ventaItemId];
+                        return (
+                            <tr key={i.ventaItemId}>
+                                <td className="p-2">
+                                    <p className="font-medium text-gray-700">{i.productoNombre}</p>
+                                    <p className="text-[10px] text-gray-400">Consignado el {i.fechaConsignacion.split('-').reverse().join('/')} · {formatMoneda(i.precioUnitario)} c/u</p>
+                                </td>
+                                <td className="p-2 text-gray-600">{i.numeroLote || 'N/A'}</td>
+                                <td className="p-2 text-center font-semibold">{i.pendiente}</td>
+                                <td className="p-2 text-center">
+                                    <input type="number" min={0} max={i.pendiente} value={linea.vendidas}
+                                        onChange={e => updateLinea(i.ventaItemId, { vendidas: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                                        className="w-16 p-1 border rounded text-center" />
+                                </td>
+                                <td className="p-2 text-center">
+                                    <input type="number" min={0} max={i.pendiente} value={linea.devueltas}
+                                        onChange={e => updateLinea(i.ventaItemId, { devueltas: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                                        className="w-16 p-1 border rounded text-center" />
+                                </td>
+                                <td className="p-2">
+                                    <select value={linea.depositoDestinoId} disabled={linea.devueltas === 0}
+                                        onChange={e => updateLinea(i.ventaItemId, { depositoDestinoId: e.target.value })}
+                                        className="w-full p-1 border rounded text-xs disabled:bg-gray-100">
+                                        {depositos.map(d => (
+                                            <option key={d.id} value={d.id}>{d.nombre}{d.id === i.depositoOrigenId ? ' (lote original)' : ''}</option>
+                                        ))}
+                                    </select>
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+            <div className="flex flex-col md:flex-row md:items-end gap-3">
+                <label className="flex-1 text-sm">Notas
+                    <input value={notas} onChange={e => setNotas(e.target.value)} placeholder="Ej: liquidación mensual de marzo" className="mt-1 w-full p-2 border rounded-lg" />
+                </label>
+                <div className="text-sm text-gray-600">
+                    <p>Vendido: <strong className="text-emerald-700">{formatMoneda(totalVendido)}</strong></p>
+                    <p>Devuelto: <strong>{formatMoneda(totalDevuelto)}</strong></p>
+                </div>
+                <button onClick={handleSubmit} disabled={saving} className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark disabled:bg-violet-300">
+                    <IconCheck className="h-5 w-5 mr-2" />
+                    {saving ? 'Liquidando...' : 'Registrar liquidación'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const Consignaciones: React.FC = () => {
+    const { profile } = useAuth();
+    const [consignaciones, setConsignaciones] = useState<ConsignacionCliente[]>([]);
+    const [depositos, setDepositos] = useState<Deposito[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<any | null>(null);
+    const [liquidandoClienteId, setLiquidandoClienteId] = useState<string | null>(null);
+    const [mensaje, setMensaje] = useState<string | null>(null);
+
+    const canManage = profile?.roles?.some(role => ['superadmin', 'vendedor'].includes(role));
+
+    const loadData = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const [consignacionesData, depositosData] = await Promise.all([
+                fetchConsignacionesPendientes(),
+                fetchDepositos(),
+            ]);
+            setConsignaciones(consignacionesData);
+            setDepositos(depositosData);
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const handleLiquidacionSuccess = (texto: string) => {
+        setLiquidandoClienteId(null);
+        setMensaje(texto);
+        loadData();
+    };
+
+    const totalUnidades = consignaciones.reduce((sum, c) => sum + c.unidadesPendientes, 0);
+    const totalValor = consignaciones.reduce((sum, c) => sum + c.valorPendiente, 0);
+
+    return (
+        <div>
+            <PageHeader title="Consignaciones" />
+            <DatabaseErrorDisplay error={error} />
+            {mensaje && (
+                <div className="mb-4 p-3 bg-emerald-50 border border-emerald-200 text-emerald-800 rounded-lg text-sm flex justify-between">
+                    <span>{mensaje}</span>
+                    <button onClick={() => setMensaje(null)} className="font-bold">×</button>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div className="bg-surface p-4 rounded-lg shadow-md">
+                    <p className="text-xs text-gray-500 uppercase font-semibold">Clientes con consignación</p>
+                    <p className="text-2xl font-bold">{loading ? '...' : consignaciones.length}</p>
+                </div>
+                <div className="bg-surface p-4 rounded-lg shadow-md">
+                    <p className="text-xs text-gray-500 uppercase font-semibold">Unidades en consignación</p>
+                    <p className="text-2xl font-bold">{loading ? '...' : totalUnidades}</p>
+                </div>
+                <div className="bg-surface p-4 rounded-lg shadow-md">
+                    <p className="text-xs text-gray-500 uppercase font-semibold">Valor a precio de venta</p>
+                    <p className="text-2xl font-bold">{loading ? '...' : formatMoneda(totalValor)}</p>
+                </div>
+            </div>
+
+            {!loading && consignaciones.length === 0 && !error && (
+                <p className="text-center text-gray-500 py-8">No hay mercadería en consignación pendiente de liquidar.</p>
+            )}
+
+            <div className="space-y-4">
+                {consignaciones.map(c => (
+                    <div key={c.clienteId} className="bg-surface rounded-lg shadow-md overflow-hidden">
+                        <div className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                            <div className="flex items-center">
+                                <IconBuildingWarehouse className="h-6 w-6 text-primary mr-3" />
+                                <div>
+                                    <p className="font-bold text-gray-800">{c.clienteNombre}</p>
+                                    <p className="text-xs text-gray-500">Depósito virtual · {c.unidadesPendientes} u. pendientes · {formatMoneda(c.valorPendiente)}</p>
+                                </div>
+                            </div>
+                            <div className="flex gap-2">
+                                <button onClick={() => descargarReporteConsignacionPdf(c)} className="flex items-center text-sm bg-gray-100 px-3 py-1.5 rounded-lg hover:bg-gray-200">
+                                    <IconDownload className="h-4 w-4 mr-1" />
+                                    Reporte
+                                </button>
+                                {canManage && (
+                                    <button
+                                        onClick={() => setLiquidandoClienteId(liquidandoClienteId === c.clienteId ? null : c.clienteId)}
+                                        className="text-sm bg-primary text-white px-3 py-1.5 rounded-lg hover:bg-primary-dark"
+                                    >
+                                        {liquidandoClienteId === c.clienteId ? 'Cerrar' : 'Liquidar'}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                        {liquidandoClienteId === c.clienteId ? (
+                            <LiquidacionForm consignacion={c} depositos={depositos} onSuccess={handleLiquidacionSuccess} />
+                        ) : (
+                            <table className="w-full text-sm border-t">
+                                <tbody className="divide-y divide-gray-100">
+                                    {c.items.map(i => (
+                                        <tr key={i.ventaItemId} className="text-gray-600">
+                                            <td className="px-4 py-2">{i.productoNombre}</td>
+                                            <td className="px-4 py-2 text-xs">Lote {i.numeroLote || 'N/A'}</td>
+                                            <td className="px-4 py-2 text-xs">Consignado {i.cantidadConsignada} · vendido {i.cantidadVendida} · devuelto {i.cantidadDevuelta}</td>
+                                            <td className="px-4 py-2 text-right font-semibold">{i.pendiente} u.</td>
+                                            <td className="px-4 py-2 text-right">{formatMoneda(i.pendiente * i.precioUnitario)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default Consignaciones;
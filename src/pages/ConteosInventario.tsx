@@ -0,0 +1,423 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import PageHeader from '@/components/PageHeader';
+import { IconPlus, IconX, IconCamera, IconEye, IconTrash, IconDeviceFloppy, IconCheck } from '@/components/Icons';
+import { ConteoInventario, ConteoInventarioItem, Deposito, EstadoConteo, MovimientoStock } from '@/types';
+import Table, { Column } from '@/components/Table';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchDepositos } from '@/services/depositosService';
+import { fetchConteos, fetchItemsConteo, iniciarConteo, guardarConteo, contabilizarConteo, anularConteo, MOTIVOS_AJUSTE } from '@/services/conteosService';
+import { fetchMovimientosStock } from '@/services/movimientosStockService';
+import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
+import BarcodeScanner from '@/components/BarcodeScanner';
+
+const formatPrecio = (n: number) => `$${n.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const ESTADO_CLASES: Record<EstadoConteo, string> = {
+    'Abierto': 'bg-yellow-100 text-yellow-800',
+    'Contabilizado': 'bg-green-100 text-green-800',
+    'Anulado': 'bg-gray-100 text-gray-600',
+};
+
+// --- Nuevo Conteo Modal Component ---
+interface NuevoConteoModalProps {
+    depositos: Deposito[];
+    onClose: () => void;
+    onSuccess: (conteoId: string) => void;
+}
+
+const NuevoConteoModal: React.FC<NuevoConteoModalProps> = ({ depositos, onClose, onSuccess }) => {
+    const [depositoId, setDepositoId] = useState(depositos.find(d => d.es_predeterminado)?.id || depositos[0]?.id || '');
+    const [notas, setNotas] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            onSuccess(await iniciarConteo(depositoId, notas));
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-md">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">Nuevo Conteo</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Depósito</label>
+                        <select value={depositoId} onChange={e => setDepositoId(e.target.value)} required className="w-full input-style">
+                            {depositos.map(d => <option key={d.id} value={d.id}>{d.nombre}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
+                        <input type="text" value={notas} onChange={e => setNotas(e.target.value)} placeholder="Ej: Conteo cíclico estantería A" className="w-full input-style" />
+                    </div>
+                    <p className="text-xs text-gray-500">Se toma una foto del stock actual de cada lote del depósito. Las ventas hechas mientras se cuenta no se pisan: al contabilizar solo se aplica la diferencia.</p>
+                    <div className="flex justify-end space-x-3 pt-2">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300">Cancelar</button>
+                        <button type="submit" disabled={isSubmitting || !depositoId} className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary-dark disabled:bg-violet-300">
+                            {isSubmitting ? 'Iniciando...' : 'Iniciar Conteo'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+// --- Conteo Detalle Modal Component ---
+interface ConteoDetalleModalProps {
+    conteo: ConteoInventario;
+    canManage: boolean;
+    onClose: () => void;
+    onChange: () => void;
+}
+
+const ConteoDetalleModal: React.FC<ConteoDetalleModalProps> = ({ conteo, canManage, onClose, onChange }) => {
+    const [items, setItems] = useState<ConteoInventarioItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+    const [aviso, setAviso] = useState<string | null>(null);
+    const [isScannerOpen, setIsScannerOpen] = useState(false);
+    const [resaltadoId, setResaltadoId] = useState<string | null>(null);
+
+    const editable = canManage && conteo.estado === 'Abierto';
+
+    useEffect(() => {
+        fetchItemsConteo(conteo.id)
+            .then(setItems)
+            .catch(setError)
+            .finally(() => setLoading(false));
+    }, [conteo.id]);
+
+    const updateItem = (id: string, cambios: Partial<ConteoInventarioItem>) => {
+        setItems(prev => prev.map(i => i.id === id ? { ...i, ...cambios } : i));
+    };
+
+    const handleScanSuccess = (codigo: string) => {
+        setIsScannerOpen(false);
+        // El código de barras identifica al producto, no al lote: se suma al primer lote que vence.
+        const candidatos = items
+            .filter(i => i.codigoBarras === codigo)
+            .sort((a, b) => (a.fechaVencimiento || '9999').localeCompare(b.fechaVencimiento || '9999'));
+        if (candidatos.length === 0) {
+            setAviso(`El código ${codigo} no corresponde a ningún lote de este depósito.`);
+            return;
+        }
+        const item = candidatos[0];
+        updateItem(item.id, { cantidadContada: (item.cantidadContada ?? 0) + 1 });
+        setResaltadoId(item.id);
+        setAviso(candidatos.length > 1
+            ? `+1 en ${item.productoNombre}, lote ${item.numeroLote}. El producto tiene ${candidatos.length} lotes: si era otro, corregí la cantidad a mano.`
+            : `+1 en ${item.productoNombre}, lote ${item.numeroLote}.`);
+    };
+
+    const handleGuardar = async () => {
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await guardarConteo(conteo.id, items);
+            setAviso('Avance guardado.');
+            onChange();
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const diferencias = items.filter(i => i.cantidadContada !== null && i.cantidadContada !== i.cantidadSistema);
+    const aAjustar = diferencias.filter(i => i.aprobado);
+    const sinContar = items.filter(i => i.cantidadContada === null).length;
+    const impacto = aAjustar.reduce((sum, i) => sum + ((i.cantidadContada ?? 0) - i.cantidadSistema) * i.costoUnitario, 0);
+
+    const handleContabilizar = async () => {
+        if (aAjustar.some(i => !i.motivo)) {
+            setError({ message: 'Indica el motivo de cada diferencia aprobada.' });
+            return;
+        }
+        const avisoSinContar = sinContar > 0 ? `\n${sinContar} lote(s) sin contar no se ajustan.` : '';
+        if (!window.confirm(`¿Contabilizar el conteo #${conteo.numero}? Se ajustarán ${aAjustar.length} lote(s) por ${formatPrecio(impacto)}.${avisoSinContar}`)) return;
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await guardarConteo(conteo.id, items);
+            await contabilizarConteo(conteo.id);
+            onChange();
+            onClose();
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <div>
+                        <h3 className="text-xl font-semibold text-gray-800">Conteo #{conteo.numero} · <span className="text-primary">{conteo.depositoNombre}</span></h3>
+                        <p className="text-xs text-gray-500">Foto del {new Date(conteo.fecha).toLocaleString('es-AR')}{conteo.notas && ` · ${conteo.notas}`}</p>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                        {editable && (
+                            <button type="button" onClick={() => setIsScannerOpen(true)} className="flex items-center bg-secondary text-white px-4 py-2 rounded-lg shadow hover:bg-secondary-dark transition-colors">
+                                <IconCamera className="h-5 w-5 mr-2" />
+                                Escanear
+                            </button>
+                        )}
+                        <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                    </div>
+                </div>
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <DatabaseErrorDisplay error={error} />
+                    {aviso && <p className="text-sm bg-blue-50 text-blue-800 px-3 py-2 rounded-md">{aviso}</p>}
+
+                    {loading ? (
+                        <p className="text-center text-gray-500 py-4">Cargando...</p>
+                    ) : items.length === 0 ? (
+                        <p className="text-center text-gray-500 py-4">El depósito no tenía lotes con stock al iniciar el conteo.</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead className="border-b">
+                                <tr className="text-left text-gray-500 text-xs uppercase">
+                                    <th className="p-2">Producto / Lote</th>
+                                    <th className="p-2 text-right">Sistema</th>
+                                    <th className="p-2 text-center">Contado</th>
+                                    <th className="p-2 text-right">Diferencia</th>
+                                    <th className="p-2 text-right">Impacto</th>
+                                    <th className="p-2">Motivo</th>
+                                    <th className="p-2 text-center">Aprobar</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {items.map(i => {
+                                    const diferencia = i.cantidadContada === null ? null : i.cantidadContada - i.cantidadSistema;
+                                    return (
+                                        <tr key={i.id} className={resaltadoId === i.id ? 'bg-violet-50' : ''}>
+                                            <td className="p-2">
+                                                <p className="font-semibold">{i.productoNombre}</p>
+                                                <p className="text-xs text-gray-500">Lote <span className="font-mono">{i.numeroLote}</span>{i.fechaVencimiento && ` · Vto ${new Date(i.fechaVencimiento).toLocaleDateString('es-AR')}`}</p>
+                                            </td>
+                                            <td className="p-2 text-right">{i.cantidadSistema}</td>
+                                            <td className="p-2 text-center">
+                                                {editable ? (
+                                                    <input
+                                                        type="number"
+                                                        min="0"
+                                                        step="1"
+                                                        value={i.cantidadContada ?? ''}
+                                                        onChange={e => updateItem(i.id, { cantidadContada: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                                                        className="w-24 text-center input-style"
+                                                    />
+                                                ) : (i.cantidadContada ?? '-')}
+                                            </td>
+                                            <td className={`p-2 text-right font-semibold ${diferencia === null || diferencia === 0 ? 'text-gray-400' : diferencia < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                                {diferencia === null ? '-' : diferencia > 0 ? `+${diferencia}` : diferencia}
+                                            </td>
+                                            <td className="p-2 text-right">{diferencia ? formatPrecio(diferencia * i.costoUnitario) : '-'}</td>
+                                            <td className="p-2">
+                                                {diferencia ? (editable ? (
+                                                    <select value={i.motivo || ''} onChange={e => updateItem(i.id, { motivo: e.target.value || null })} className="input-style text-sm">
+                                                        <option value="">Seleccionar...</option>
+                                                        {MOTIVOS_AJUSTE.map(m => <option key={m} value={m}>{m}</option>)}
+                                                    </select>
+                                                ) : (i.motivo || '-')) : null}
+                                            </td>
+                                            <td className="p-2 text-center">
+                                                {diferencia ? (
+                                                    <input type="checkbox" checked={i.aprobado} disabled={!editable} onChange={e => updateItem(i.id, { aprobado: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-primary" />
+                                                ) : null}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+                <div className="flex justify-between items-center p-5 border-t bg-gray-50 rounded-b-lg">
+                    <div className="text-sm text-gray-600">
+                        {items.length - sinContar} / {items.length} lotes contados · {diferencias.length} con diferencia ·
+                        Impacto aprobado: <span className={`font-bold ${impacto < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatPrecio(impacto)}</span>
+                    </div>
+                    {editable && (
+                        <div className="flex space-x-3">
+                            <button onClick={handleGuardar} disabled={isSubmitting} className="flex items-center px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50">
+                                <IconDeviceFloppy className="h-5 w-5 mr-2" />
+                                Guardar Avance
+                            </button>
+                            <button onClick={handleContabilizar} disabled={isSubmitting} className="flex items-center px-4 py-2 bg-primary text-white rounded-md hover:bg-primary-dark disabled:bg-violet-300">
+                                <IconCheck className="h-5 w-5 mr-2" />
+                                {isSubmitting ? 'Procesando...' : 'Contabilizar Ajustes'}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+            {isScannerOpen && <BarcodeScanner onScan={handleScanSuccess} onClose={() => setIsScannerOpen(false)} />}
+        </div>
+    );
+};
+
+// --- Main Page Component ---
+const ConteosInventario: React.FC = () => {
+    const { profile } = useAuth();
+    const [conteos, setConteos] = useState<ConteoInventario[]>([]);
+    const [movimientos, setMovimientos] = useState<MovimientoStock[]>([]);
+    const [depositos, setDepositos] = useState<Deposito[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<any | null>(null);
+    const [tab, setTab] = useState<'conteos' | 'movimientos'>('conteos');
+    const [isNuevoOpen, setIsNuevoOpen] = useState(false);
+    const [conteoAbiertoId, setConteoAbiertoId] = useState<string | null>(null);
+
+    const canManage = !!profile?.roles?.some(role => ['superadmin', 'administrativo'].includes(role));
+
+    const loadData = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const [conteosData, depositosData, movimientosData] = await Promise.all([fetchConteos(), fetchDepositos(), fetchMovimientosStock()]);
+            setConteos(conteosData);
+            setDepositos(depositosData);
+            setMovimientos(movimientosData);
+        } catch (err: any) {
+            console.error(`[ConteosInventarioPage] Error fetching data:`, err);
+            setError(err);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const handleAnular = async (conteo: ConteoInventario) => {
+        if (!window.confirm(`¿Anular el conteo #${conteo.numero}? No se ajustará ningún lote.`)) return;
+        setError(null);
+        try {
+            await anularConteo(conteo.id);
+            loadData();
+        } catch (err: any) {
+            setError(err);
+        }
+    };
+
+    const conteoAbierto = conteos.find(c => c.id === conteoAbiertoId);
+
+    const conteoColumns: Column<ConteoInventario>[] = [
+        { header: 'Conteo', accessor: 'numero', render: item => (
+            <div>
+                <span className="font-semibold">#{item.numero}</span>
+                <p className="text-xs text-gray-500">{new Date(item.fecha).toLocaleDateString('es-AR')}</p>
+            </div>
+        )},
+        { header: 'Depósito', accessor: 'depositoNombre', render: item => (
+            <div>
+                <p className="font-semibold">{item.depositoNombre}</p>
+                {item.notas && <p className="text-xs text-gray-500">{item.notas}</p>}
+            </div>
+        )},
+        { header: 'Avance', accessor: 'itemsContados', render: item => `${item.itemsContados} / ${item.totalItems} lotes` },
+        { header: 'Diferencia a Costo', accessor: 'diferenciaValor', render: item => (
+            <span className={item.diferenciaValor < 0 ? 'text-red-600 font-semibold' : item.diferenciaValor > 0 ? 'text-green-600 font-semibold' : ''}>{formatPrecio(item.diferenciaValor)}</span>
+        )},
+        { header: 'Estado', accessor: 'estado', render: item => (
+            <span className={`px-2 py-1 text-xs font-semibold rounded-full ${ESTADO_CLASES[item.estado]}`}>{item.estado}</span>
+        )},
+        { header: 'Acciones', accessor: 'id', render: item => (
+            <div className="flex space-x-3">
+                <button onClick={() => setConteoAbiertoId(item.id)} className="text-blue-500 hover:text-blue-700" title={item.estado === 'Abierto' ? 'Cargar Conteo' : 'Ver Conteo'}><IconEye className="h-5 w-5" /></button>
+                {canManage && item.estado === 'Abierto' && (
+                    <button onClick={() => handleAnular(item)} className="text-red-500 hover:text-red-700" title="Anular Conteo"><IconTrash className="h-5 w-5" /></button>
+                )}
+            </div>
+        )},
+    ];
+
+    const movimientoColumns: Column<MovimientoStock>[] = [
+        { header: 'Fecha', accessor: 'fecha', render: item => new Date(item.fecha).toLocaleString('es-AR') },
+        { header: 'Tipo', accessor: 'tipo', render: item => (
+            <div>
+                <p className="font-semibold">{item.tipo}</p>
+                {item.motivo && <p className="text-xs text-gray-500">{item.motivo}</p>}
+            </div>
+        )},
+        { header: 'Producto', accessor: 'productoNombre', render: item => (
+            <div>
+                <p>{item.productoNombre}</p>
+                <p className="text-xs text-gray-500">Lote <span className="font-mono">{item.numeroLote || '-'}</span> · {item.depositoNombre}</p>
+            </div>
+        )},
+        { header: 'Cantidad', accessor: 'cantidad', render: item => (
+            <span className={`font-semibold ${item.cantidad < 0 ? 'text-red-600' : 'text-green-600'}`}>{item.cantidad > 0 ? `+${item.cantidad}` : item.cantidad}</span>
+        )},
+        { header: 'Stock', accessor: 'cantidadNueva', render: item => item.cantidadNueva === null ? '-' : `${item.cantidadAnterior} → ${item.cantidadNueva}` },
+        { header: 'Usuario', accessor: 'usuarioEmail', render: item => item.usuarioEmail || '-' },
+    ];
+
+    return (
+        <div>
+            <PageHeader title="Inventario Físico">
+                {canManage && (
+                    <button onClick={() => setIsNuevoOpen(true)} className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark transition-colors">
+                        <IconPlus className="h-5 w-5 mr-2" />
+                        Nuevo Conteo
+                    </button>
+                )}
+            </PageHeader>
+
+            <DatabaseErrorDisplay error={error} />
+
+            <div className="flex border-b mb-4">
+                {([['conteos', 'Conteos'], ['movimientos', 'Movimientos de Stock']] as const).map(([key, label]) => (
+                    <button
+                        key={key}
+                        onClick={() => setTab(key)}
+                        className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${tab === key ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {tab === 'conteos'
+                ? <Table columns={conteoColumns} data={conteos} isLoading={loading} />
+                : <Table columns={movimientoColumns} data={movimientos} isLoading={loading} />}
+
+            {isNuevoOpen && (
+                <NuevoConteoModal
+                    depositos={depositos}
+                    onClose={() => setIsNuevoOpen(false)}
+                    onSuccess={conteoId => { setIsNuevoOpen(false); setConteoAbiertoId(conteoId); loadData(); }}
+                />
+            )}
+            {conteoAbierto && (
+                <ConteoDetalleModal
+                    conteo={conteoAbierto}
+                    canManage={canManage}
+                    onClose={() => setConteoAbiertoId(null)}
+                    onChange={loadData}
+                />
+            )}
+            <style>{`.input-style { display: block; width: 100%; padding: 0.5rem 0.75rem; border: 1px solid #D1D5DB; border-radius: 0.375rem; } .input-style:focus { border-color: #8a5cf6; }`}</style>
+        </div>
+    );
+};
+
+export default ConteosInventario;
@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import PageHeader from '@/components/PageHeader';
+import { IconX, IconCheck, IconAlertTriangle } from '@/components/Icons';
+import { EstadoCalidadLote, InspeccionCalidad, LoteEnCuarentena } from '@/types';
+import Table, { Column } from '@/components/Table';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchLotesEnCuarentena, fetchInspeccionesCalidad, liberarLote, rechazarLote } from '@/services/calidadService';
+import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
+
+const RESULTADO_CLASES: Record<EstadoCalidadLote, string> = {
+    'Cuarentena': 'bg-yellow-100 text-yellow-800',
+    'Liberado': 'bg-green-100 text-green-800',
+    'Rechazado': 'bg-red-100 text-red-700',
+};
+
+const formatFecha = (fecha: string | null) => fecha ? new Date(fecha).toLocaleDateString('es-AR') : 'N/A';
+
+// --- Inspección Modal Component ---
+interface InspeccionModalProps {
+    lote: LoteEnCuarentena;
+    resultado: 'Liberado' | 'Rechazado';
+    inspectorInicial: string;
+    onClose: () => void;
+    onSuccess: () => void;
+}
+
+const InspeccionModal: React.FC<InspeccionModalProps> = ({ lote, resultado, inspectorInicial, onClose, onSuccess }) => {
+    const [inspector, setInspector] = useState(inspectorInicial);
+    const [notas, setNotas] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+    const rechazo = resultado === 'Rechazado';
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            if (rechazo) {
+                await rechazarLote(lote.id, inspector, notas);
+            } else {
+                await liberarLote(lote.id, inspector, notas);
+            }
+            onSuccess();
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-md">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">{rechazo ? 'Rechazar Lote' : 'Liberar Lote'}</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <div className="bg-gray-50 p-3 rounded-md text-sm">
+                        <p className="font-semibold">{lote.productoNombre}</p>
+                        <p className="text-gray-600">Lote <span className="font-mono">{lote.numeroLote}</span> · {lote.cantidad} u. en {lote.depositoNombre}</p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Inspector</label>
+                        <input type="text" value={inspector} onChange={e => setInspector(e.target.value)} required className="w-full input-style" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{rechazo ? 'Motivo del rechazo' : 'Notas'}</label>
+                        <textarea
+                            value={notas}
+                            onChange={e => setNotas(e.target.value)}
+                            required={rechazo}
+                            rows={3}
+                            placeholder={rechazo ? 'Ej: pH fuera de especificación' : 'Ej: Análisis microbiológico OK'}
+                            className="w-full input-style"
+                        />
+                    </div>
+                    {rechazo && (
+                        <p className="text-xs text-gray-500">Todo el lote pasa al depósito de cuarentena y no se podrá vender ni transferir.</p>
+                    )}
+                    <div className="flex justify-end space-x-3 pt-2">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300">Cancelar</button>
+                        <button
+                            type="submit"
+                            disabled={isSubmitting || !inspector.trim() || (rechazo && !notas.trim())}
+                            className={`px-4 py-2 text-white rounded-md disabled:opacity-50 ${rechazo ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'}`}
+                        >
+                            {isSubmitting ? 'Guardando...' : rechazo ? 'Rechazar' : 'Liberar'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const ControlCalidad: React.FC = () => {
+    const { profile } = useAuth();
+    const [lotes, setLotes] = useState<LoteEnCuarentena[]>([]);
+    const [inspecciones, setInspecciones] = useState<InspeccionCalidad[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<any | null>(null);
+    const [tab, setTab] = useState<'pendientes' | 'historial'>('pendientes');
+    const [inspeccion, setInspeccion] = useState<{ lote: LoteEnCuarentena; resultado: 'Liberado' | 'Rechazado' } | null>(null);
+
+    const canManage = !!profile?.roles?.some(role => ['superadmin', 'administrativo'].includes(role));
+
+    const loadData = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const [lotesData, inspeccionesData] = await Promise.all([fetchLotesEnCuarentena(), fetchInspeccionesCalidad()]);
+            setLotes(lotesData);
+            setInspecciones(inspeccionesData);
+        } catch (err: any) {
+            console.error(`[ControlCalidadPage] Error fetching data:`, err);
+            setError(err);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const loteColumns: Column<LoteEnCuarentena>[] = [
+        { header: 'Producto', accessor: 'productoNombre', render: item => <span className="font-semibold">{item.productoNombre}</span> },
+        { header: 'Lote', accessor: 'numeroLote', render: item => (
+            <Link to={`/stock/trazabilidad?lote=${encodeURIComponent(item.numeroLote)}&producto=${item.productoId}`} className="font-mono text-primary hover:underline">{item.numeroLote}</Link>
+        )},
+        { header: 'Cantidad', accessor: 'cantidad', render: item => `${item.cantidad} u.` },
+        { header: 'Depósito', accessor: 'depositoNombre' },
+        { header: 'Ingreso', accessor: 'fechaIngreso', render: item => formatFecha(item.fechaIngreso) },
+        { header: 'Vencimiento', accessor: 'fechaVencimiento', render: item => formatFecha(item.fechaVencimiento) },
+        { header: 'Acciones', accessor: 'id', render: item => canManage ? (
+            <div className="flex space-x-3">
+                <button onClick={() => setInspeccion({ lote: item, resultado: 'Liberado' })} className="text-green-600 hover:text-green-800" title="Liberar Lote"><IconCheck className="h-5 w-5" /></button>
+                <button onClick={() => setInspeccion({ lote: item, resultado: 'Rechazado' })} className="text-red-500 hover:text-red-700" title="Rechazar Lote"><IconAlertTriangle className="h-5 w-5" /></button>
+            </div>
+        ) : null },
+    ];
+
+    const inspeccionColumns: Column<InspeccionCalidad>[] = [
+        { header: 'Fecha', accessor: 'fecha', render: item => new Date(item.fecha).toLocaleString('es-AR') },
+        { header: 'Producto', accessor: 'productoNombre', render: item => (
+            <div>
+                <p>{item.productoNombre}</p>
+                <p className="text-xs text-gray-500">Lote <span className="font-mono">{item.numeroLote}</span></p>
+            </div>
+        )},
+        { header: 'Resultado', accessor: 'resultado', render: item => (
+            <span className={`px-2 py-1 text-xs font-semibold rounded-full ${RESULTADO_CLASES[item.resultado]}`}>{item.resultado}</span>
+        )},
+        { header: 'Inspector', accessor: 'inspector' },
+        { header: 'Notas', accessor: 'notas', render: item => item.notas || '-' },
+    ];
+
+    return (
+        <div>
+            <PageHeader title="Control de Calidad" />
+
+            <DatabaseErrorDisplay error={error} />
+
+            <div className="flex border-b mb-4">
+                {([['pendientes', `Pendientes de Liberación (${lotes.length})`], ['historial', 'Historial de Inspecciones']] as const).map(([key, label]) => (
+                    <button
+                        key={key}
+                        onClick={() => setTab(key)}
+                        className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${tab === key ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {tab === 'pendientes'
+                ? <Table columns={loteColumns} data={lotes} isLoading={loading} />
+                : <Table columns={inspeccionColumns} data={inspecciones} isLoading={loading} />}
+
+            {inspeccion && (
+                <InspeccionModal
+                    lote={inspeccion.lote}
+                    resultado={inspeccion.resultado}
+                    inspectorInicial={profile?.email || ''}
+                    onClose={() => setInspeccion(null)}
+                    onSuccess={() => { setInspeccion(null); loadData(); }}
+                />
+            )}
+            <style>{`.input-style { display: block; width: 100%; padding: 0.5rem 0.75rem; border: 1px solid #D1D5DB; border-radius: 0.375rem; } .input-style:focus { border-color: #8a5cf6; }`}</style>
+        </div>
+    );
+};
+
+export default ControlCalidad;
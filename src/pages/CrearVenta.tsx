@@ -1,12 +1,13 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import PageHeader from '../components/PageHeader';
 import { IconArrowLeft, IconPlus, IconTrash, IconFileText, IconCamera } from '../components/Icons';
-import { SimpleCliente, Producto, VentaItem, Lote, PuntoDeVenta } from '../types';
+import { SimpleCliente, Producto, VentaItem, Lote, PuntoDeVenta, ReglaPrecio, MedioPagoRegla } from '../types';
 import { VentaToCreate, createVenta, VentaItemParaCrear } from '../services/ventasService';
 import { fetchSimpleClientes } from '../services/clientesService';
 import { fetchProductosConStock } from '../services/productosService';
-import { fetchLotesParaVenta } from '../services/stockService';
+import { asignarLotesFEFO, calcularAsignacionFEFO, estaVencido, estaLiberado, AsignacionLote } from '../services/stockService';
+import { fetchReglasPrecio, cotizar, MEDIOS_PAGO_REGLA, REGLAS_PREDETERMINADAS } from '../services/reglasPrecioService';
 import DatabaseErrorDisplay from '../components/DatabaseErrorDisplay';
 import BarcodeScanner from '../components/BarcodeScanner';
 
@@ -15,6 +16,8 @@ const IVA_RATE = 0.21;
 // Extends VentaItem for UI state management
 interface VentaItemUI extends VentaItem {
     depositoId: string;
+    // '' = asignación automática FEFO; si no, lote elegido manualmente por el vendedor.
+    loteId: string;
 }
 
 const CrearVenta: React.FC = () => {
@@ -43,6 +46,10 @@ const CrearVenta: React.FC = () => {
     const [observaciones, setObservaciones] = useState('');
     const [isScannerOpen, setIsScannerOpen] = useState(false);
     const [aplicarIva, setAplicarIva] = useState(true);
+    const [medioPago, setMedioPago] = useState<MedioPagoRegla | ''>('');
+    const [reglas, setReglas] = useState<ReglaPrecio[]>(REGLAS_PREDETERMINADAS);
+    // Evita ventas duplicadas si se reenvía el formulario tras un error de red.
+    const idempotencyKeyRef = useRef<string>(crypto.randomUUID());
 
     const selectedCliente = useMemo(() => clientes.find(c => c.id === selectedClienteId), [clientes, selectedClienteId]);
 
@@ -51,15 +58,17 @@ const CrearVenta: React.FC = () => {
             setLoading(true);
             setError(null);
             try {
-                const [clientesData, productosData] = await Promise.all([
+                const [clientesData, productosData, reglasData] = await Promise.all([
                     fetchSimpleClientes(),
-                    fetchProductosConStock()
+                    fetchProductosConStock(),
+                    fetchReglasPrecio()
                 ]);
                 const consumidorFinal = {
                     id: '',
                     nombre: 'Consumidor Final',
                     telefono: null,
                     email: null,
+                    listaPrecioId: null,
                     listaPrecioNombre: 'Público',
                     direccion: null,
                     localidad: null,
@@ -67,6 +76,7 @@ const CrearVenta: React.FC = () => {
                 };
                 setClientes([consumidorFinal, ...clientesData]);
                 setProductos(productosData);
+                setReglas(reglasData);
                 setSelectedClienteId(''); // Default to Consumidor Final
             } catch (err: any) {
                 setError(err);
@@ -97,7 +107,8 @@ const CrearVenta: React.FC = () => {
             cantidad: 1,
             precioUnitario: getPriceForProduct(firstAvailableProduct, selectedCliente),
             productoNombre: firstAvailableProduct.nombre,
-            depositoId: firstDepositoWithStock?.depositoId || ''
+            depositoId: firstDepositoWithStock?.depositoId || '',
+            loteId: '',
         }]);
     };
     
@@ -116,7 +127,7 @@ const CrearVenta: React.FC = () => {
                  return;
             }
 
-            const existingItemIndex = items.findIndex(item => item.productoId === product.id && item.depositoId === firstDepositoWithStock.depositoId);
+            const existingItemIndex = items.findIndex(item => item.productoId === product.id && item.depositoId === firstDepositoWithStock.depositoId && !item.loteId);
             if (existingItemIndex > -1) {
                 const newItems = [...items];
                 const currentItem = newItems[existingItemIndex];
@@ -133,6 +144,7 @@ const CrearVenta: React.FC = () => {
                     precioUnitario: getPriceForProduct(product, selectedCliente),
                     productoNombre: product.nombre,
                     depositoId: firstDepositoWithStock.depositoId,
+                    loteId: '',
                 };
                 setItems(prev => [...prev, newItem]);
             }
@@ -155,18 +167,26 @@ const CrearVenta: React.FC = () => {
                 currentItem.precioUnitario = getPriceForProduct(newProduct, selectedCliente);
                 currentItem.cantidad = 1;
                 currentItem.depositoId = firstDepositoWithStock?.depositoId || '';
+                currentItem.loteId = '';
             }
         } else if (field === 'depositoId') {
             currentItem.depositoId = value;
+            currentItem.loteId = '';
             currentItem.cantidad = 1; // Reset quantity on deposit change
+        } else if (field === 'loteId') {
+            currentItem.loteId = value;
+            currentItem.cantidad = 1;
         } else if (field === 'cantidad') {
             const newQuantity = parseInt(value, 10);
             if (isNaN(newQuantity) || newQuantity < 1) {
                 currentItem.cantidad = 1;
             } else {
-                const stockInDeposito = product?.stockPorDeposito.find(d => d.depositoId === currentItem.depositoId)?.stock || 0;
+                const deposito = product?.stockPorDeposito.find(d => d.depositoId === currentItem.depositoId);
+                const stockInDeposito = currentItem.loteId
+                    ? Math.floor(deposito?.lotes.find(l => l.id === currentItem.loteId)?.cantidad_actual || 0)
+                    : deposito?.stock || 0;
                 if (newQuantity > stockInDeposito) {
-                    alert(`Stock insuficiente. Solo quedan ${stockInDeposito} unidades de ${product?.nombre} en este depósito.`);
+                    alert(`Stock insuficiente. Solo quedan ${stockInDeposito} unidades de ${product?.nombre} en ${currentItem.loteId ? 'este lote' : 'este depósito'}.`);
                     currentItem.cantidad = stockInDeposito > 0 ? stockInDeposito : 1;
                 } else {
                      currentItem.cantidad = newQuantity;
@@ -185,13 +205,43 @@ const CrearVenta: React.FC = () => {
         setItems(prev => prev.filter((_, i) => i !== index));
     };
 
+    // El precio unitario de cada línea (editable) es el de partida; las reglas de precio se aplican encima
+    const cotizacion = useMemo(() => cotizar(
+        items.map(item => ({
+            productoId: item.productoId,
+            cantidad: item.cantidad,
+            precioBase: item.precioUnitario,
+            producto: productos.find(p => p.id === item.productoId) || { nombre: item.productoNombre },
+        })),
+        reglas,
+        { canal: 'Venta interna', listaPrecioId: selectedCliente?.listaPrecioId, medioPago: medioPago || null, fecha }
+    ), [items, productos, reglas, selectedCliente, medioPago, fecha]);
+
     const { subtotal, iva, total } = useMemo(() => {
-        const sub = items.reduce((acc, item) => acc + (item.cantidad * item.precioUnitario), 0);
+        const sub = cotizacion.total;
         const ivaRate = aplicarIva ? IVA_RATE : 0;
         const ivaAmount = sub * ivaRate;
         const totalAmount = sub + ivaAmount;
         return { subtotal: sub, iva: ivaAmount, total: totalAmount };
-    }, [items, aplicarIva]);
+    }, [cotizacion, aplicarIva]);
+
+    const toSolicitudes = (lineas: VentaItemUI[]) => lineas.map(item => ({
+        productoId: item.productoId,
+        productoNombre: item.productoNombre,
+        cantidad: item.cantidad,
+        depositoId: item.depositoId,
+        loteId: item.loteId || null,
+    }));
+
+    // Vista previa con el stock cargado en pantalla; al guardar se recalcula con los lotes actuales.
+    const previewAsignacion = useMemo((): { asignaciones: AsignacionLote[][]; error: string | null } => {
+        const lotesCatalogo = productos.flatMap(p => p.lotes.map(l => ({ ...l, producto_id: p.id })));
+        try {
+            return { asignaciones: calcularAsignacionFEFO(toSolicitudes(items), lotesCatalogo), error: null };
+        } catch (err: any) {
+            return { asignaciones: [], error: err.message };
+        }
+    }, [items, productos]);
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -203,56 +253,22 @@ const CrearVenta: React.FC = () => {
         setIsSubmitting(true);
         setError(null);
         try {
-            const itemsParaCrear: VentaItemParaCrear[] = [];
-            
-            for (const item of items) {
-                if (!item.depositoId) {
-                    throw new Error(`Debe seleccionar un depósito para el producto "${item.productoNombre}".`);
-                }
-
-                // 1. Fetch ALL lots (no server-side filtering) to debug status
-                const allLotes = await fetchLotesParaVenta(item.productoId, item.depositoId);
-                
-                // 2. Strict client-side filtering. 
-                const usableLotes = allLotes
-                    .map(l => ({...l, cantidad_actual: Math.floor(l.cantidad_actual)}))
-                    .filter(l => l.cantidad_actual >= 1);
-                
-                if (usableLotes.length === 0) {
-                     const totalRawStock = allLotes.reduce((sum, l) => sum + l.cantidad_actual, 0);
-                     throw new Error(`Stock insuficiente para "${item.productoNombre}". El sistema detecta ${totalRawStock.toFixed(2)} unidades, pero ninguna alcanza la unidad entera mínima requerida (>= 1) para la venta.`);
-                }
-
-                const stockInDeposito = usableLotes.reduce((sum, l) => sum + l.cantidad_actual, 0);
-
-                if (item.cantidad > stockInDeposito) {
-                    throw new Error(`Stock insuficiente para "${item.productoNombre}" en el depósito seleccionado. Solicitado: ${item.cantidad}, Disponible real: ${stockInDeposito}.`);
-                }
-
-                let cantidadRestante = item.cantidad;
-                
-                // 3. Allocate stock from lots
-                for (const lote of usableLotes) {
-                    if (cantidadRestante <= 0) break;
-                    
-                    const cantidadDeLote = Math.min(cantidadRestante, lote.cantidad_actual);
-                    
-                    if (cantidadDeLote > 0) {
-                        itemsParaCrear.push({
-                            productoId: item.productoId,
-                            cantidad: cantidadDeLote,
-                            precioUnitario: item.precioUnitario,
-                            loteId: lote.id,
-                        });
-                        cantidadRestante -= cantidadDeLote;
-                    }
-                }
-                
-                if (cantidadRestante > 0) {
-                    throw new Error(`Error de asignación de lotes para "${item.productoNombre}". Por favor intente nuevamente.`);
-                }
+            const sinDeposito = items.find(item => !item.depositoId);
+            if (sinDeposito) {
+                throw new Error(`Debe seleccionar un depósito para el producto "${sinDeposito.productoNombre}".`);
             }
 
+            const asignaciones = await asignarLotesFEFO(toSolicitudes(items));
+            // Los descuentos de pedido se prorratean en los precios para que los ítems sumen el subtotal
+            const factorPedido = cotizacion.subtotal > 0 ? cotizacion.total / cotizacion.subtotal : 1;
+            const itemsParaCrear: VentaItemParaCrear[] = items.flatMap((item, index) => asignaciones[index].map(a => ({
+                productoId: item.productoId,
+                cantidad: a.cantidad,
+                precioUnitario: Math.round(cotizacion.lineas[index].precioUnitario * factorPedido * 100) / 100,
+                loteId: a.loteId,
+            })));
+            const notaReglas = cotizacion.explicacion.length > 0 ? `Reglas de precio: ${cotizacion.explicacion.join('; ')}` : '';
+
             const ventaData: VentaToCreate = {
                 clienteId: selectedClienteId || null,
                 fecha,
@@ -262,8 +278,9 @@ const CrearVenta: React.FC = () => {
                 subtotal,
                 iva,
                 total,
-                observaciones: observaciones.trim() || null,
+                observaciones: [observaciones.trim(), notaReglas].filter(Boolean).join('\n') || null,
                 puntoDeVenta: puntoDeVenta,
+                idempotencyKey: idempotencyKeyRef.current,
             };
 
             await createVenta(ventaData);
@@ -278,6 +295,7 @@ const CrearVenta: React.FC = () => {
     };
     
     const formatPrice = (price: number) => price.toLocaleString('es-AR', { style: 'currency', currency: 'ARS' });
+    const formatVencimiento = (fecha: string | null) => fecha ? fecha.split('T')[0].split('-').reverse().join('/') : 'S/V';
 
     if (loading) return <div className="p-8 text-center text-gray-500">Cargando formulario...</div>;
     
@@ -322,7 +340,14 @@ const CrearVenta: React.FC = () => {
                                 <option value="Redes Sociales">Redes Sociales</option>
                             </select>
                         </div>
-                        <div className="md:col-span-2">
+                        <div>
+                            <label htmlFor="medioPago" className="block text-sm font-medium text-gray-700 mb-1">Medio de Pago</label>
+                            <select id="medioPago" value={medioPago} onChange={e => setMedioPago(e.target.value as MedioPagoRegla | '')} className="w-full input-style">
+                                <option value="">Sin especificar</option>
+                                {MEDIOS_PAGO_REGLA.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                            </select>
+                        </div>
+                        <div className="md:col-span-3">
                             <label htmlFor="observaciones" className="block text-sm font-medium text-gray-700 mb-1">Observaciones</label>
                             <textarea
                                 id="observaciones"
@@ -359,6 +384,7 @@ const CrearVenta: React.FC = () => {
                                 <tr className="text-left text-xs text-gray-500 uppercase">
                                     <th className="pb-2 w-2/5">Descripción</th>
                                     <th className="pb-2 w-1/5">Depósito</th>
+                                    <th className="pb-2 w-1/6">Lote</th>
                                     <th className="pb-2 text-center">Cantidad</th>
                                     <th className="pb-2 text-right">Precio Unit. (SIN IVA)</th>
                                     <th className="pb-2 text-right">Total Línea (SIN IVA)</th>
@@ -368,7 +394,11 @@ const CrearVenta: React.FC = () => {
                             <tbody>
                                 {items.map((item, index) => {
                                     const producto = productos.find(p => p.id === item.productoId);
+                                    const lineaCotizada = cotizacion.lineas[index];
                                     const depositosConStock = producto?.stockPorDeposito.filter(d => d.stock > 0) || [];
+                                    const lotesDeposito = (producto?.stockPorDeposito.find(d => d.depositoId === item.depositoId)?.lotes || [])
+                                        .filter(l => Math.floor(l.cantidad_actual) >= 1)
+                                        .sort((a, b) => (a.fecha_vencimiento || '9999').localeCompare(b.fecha_vencimiento || '9999'));
                                     return (
                                     <tr key={index} className="border-b">
                                         <td>
@@ -395,11 +425,32 @@ const CrearVenta: React.FC = () => {
                                                 ))}
                                              </select>
                                         </td>
+                                        <td>
+                                            <select value={item.loteId} onChange={e => handleItemChange(index, 'loteId', e.target.value)} className="w-full input-style-table" disabled={!item.depositoId}>
+                                                <option value="">Automático (FEFO)</option>
+                                                {lotesDeposito.map(l => {
+                                                    const bloqueado = estaVencido(l) || !estaLiberado(l);
+                                                    return (
+                                                        <option key={l.id} value={l.id} disabled={bloqueado} className={bloqueado ? 'text-red-500' : ''}>
+                                                            {l.numero_lote} · Vto {formatVencimiento(l.fecha_vencimiento)} ({Math.floor(l.cantidad_actual)} u.){estaVencido(l) && ' · VENCIDO'}{!estaLiberado(l) && ` · ${l.estado_calidad?.toUpperCase()}`}
+                                                        </option>
+                                                    );
+                                                })}
+                                            </select>
+                                        </td>
                                         <td>
                                             <input type="number" value={item.cantidad} min="1" onChange={e => handleItemChange(index, 'cantidad', e.target.value)} className="w-20 text-center input-style-table" disabled={!item.depositoId} />
                                         </td>
-                                        <td className="text-right py-2 pr-2">{formatPrice(item.precioUnitario)}</td>
-                                        <td className="text-right py-2 pr-2 font-semibold">{formatPrice(item.cantidad * item.precioUnitario)}</td>
+                                        <td className="text-right py-2 pr-2">
+                                            {lineaCotizada && lineaCotizada.precioUnitario !== item.precioUnitario ? (
+                                                <>
+                                                    <span className="block text-xs text-gray-400 line-through">{formatPrice(item.precioUnitario)}</span>
+                                                    <span>{formatPrice(lineaCotizada.precioUnitario)}</span>
+                                                </>
+                                            ) : formatPrice(item.precioUnitario)}
+                                            {lineaCotizada?.reglas.map(r => <span key={r.reglaId} className="block text-xs text-green-600" title={r.detalle}>{r.nombre}</span>)}
+                                        </td>
+                                        <td className="text-right py-2 pr-2 font-semibold">{formatPrice(lineaCotizada ? lineaCotizada.total : item.cantidad * item.precioUnitario)}</td>
                                         <td className="text-center">
                                             <button type="button" onClick={() => handleRemoveItem(index)} className="text-red-500 hover:text-red-700">
                                                 <IconTrash className="h-5 w-5" />
@@ -417,11 +468,43 @@ const CrearVenta: React.FC = () => {
 
                 {/* Totals and Actions */}
                 <div className="flex flex-col md:flex-row justify-between items-start gap-6">
-                     <div className="w-full md:w-1/3">
-                        {/* Placeholder for future actions */}
+                     <div className="w-full md:flex-1 bg-surface p-4 rounded-lg shadow-md">
+                        <h4 className="text-sm font-semibold text-gray-700 mb-2">Lotes a consumir</h4>
+                        {items.length === 0 ? (
+                            <p className="text-xs text-gray-400">Agregue productos para ver qué lotes se descontarán.</p>
+                        ) : previewAsignacion.error ? (
+                            <p className="text-xs text-red-600">{previewAsignacion.error}</p>
+                        ) : (
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="text-left text-gray-500 uppercase">
+                                        <th className="pb-1">Producto</th>
+                                        <th className="pb-1">Lote</th>
+                                        <th className="pb-1">Vencimiento</th>
+                                        <th className="pb-1 text-right">Cantidad</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {items.map((item, index) => (previewAsignacion.asignaciones[index] || []).map(a => (
+                                        <tr key={`${index}-${a.loteId}`} className="border-t">
+                                            <td className="py-1">{item.productoNombre}</td>
+                                            <td className="py-1 font-mono">{a.numeroLote}{item.loteId ? ' (manual)' : ''}</td>
+                                            <td className="py-1">{formatVencimiento(a.fechaVencimiento)}</td>
+                                            <td className="py-1 text-right">{a.cantidad}</td>
+                                        </tr>
+                                    )))}
+                                </tbody>
+                            </table>
+                        )}
                      </div>
                      <div className="w-full md:w-1/3 bg-surface p-4 rounded-lg shadow-md space-y-2">
-                        <div className="flex justify-between text-gray-700"><span>Subtotal</span><span>{formatPrice(subtotal)}</span></div>
+                        <div className="flex justify-between text-gray-700"><span>Subtotal</span><span>{formatPrice(cotizacion.subtotal)}</span></div>
+                        {cotizacion.reglasPedido.map(r => (
+                            <div key={r.reglaId} className="flex justify-between text-green-600 text-sm" title={r.detalle}>
+                                <span>{r.nombre}</span>
+                                <span>-{formatPrice(r.monto)}</span>
+                            </div>
+                        ))}
                         <div className="flex items-center justify-between text-gray-700">
                             <label htmlFor="aplicarIva" className="flex items-center cursor-pointer">
                                 <input
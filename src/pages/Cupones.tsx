@@ -0,0 +1,329 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import PageHeader from '@/components/PageHeader';
+import Table, { Column } from '@/components/Table';
+import { CanjeCupon, Cupon, Producto, TipoCupon } from '@/types';
+import { IconPlus, IconX, IconPencil, IconTrash } from '@/components/Icons';
+import { fetchCupones, fetchCanjesCupones, saveCupon, deleteCupon, describirCupon, normalizarCodigoCupon, TIPOS_CUPON } from '@/services/cuponesService';
+import { fetchAllProducts } from '@/services/preciosService';
+import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
+
+const LINEAS_PRODUCTO = ['ULTRAHISNE', 'BODYTAN CARIBEAN', 'SECRET', 'ESSENS', 'General'];
+
+type ProductoOpcion = Pick<Producto, 'id' | 'nombre' | 'linea'>;
+
+const NUEVO_CUPON: Omit<Cupon, 'id'> = {
+    codigo: '',
+    descripcion: null,
+    tipo: 'Porcentaje',
+    valor: 10,
+    productoIds: [],
+    lineas: [],
+    montoMinimo: null,
+    usosMaximos: null,
+    usosPorEmail: 1,
+    fechaDesde: null,
+    fechaHasta: null,
+    activo: true,
+    destacado: false,
+};
+
+const formatPrice = (price: number) => `$${price.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatFecha = (fecha: string | null) => fecha ? new Date(`${fecha}T00:00:00`).toLocaleDateString('es-AR') : null;
+const numeroONull = (value: string) => value === '' ? null : Number(value);
+const toggle = <T,>(lista: T[], valor: T) => lista.includes(valor) ? lista.filter(v => v !== valor) : [...lista, valor];
+
+// --- Cupón Modal Component ---
+const CuponModal: React.FC<{
+    cupon: Cupon | null;
+    productos: ProductoOpcion[];
+    onClose: () => void;
+    onSuccess: () => void;
+}> = ({ cupon, productos, onClose, onSuccess }) => {
+    const [form, setForm] = useState<Omit<Cupon, 'id'>>(() => {
+        if (!cupon) return NUEVO_CUPON;
+        const { id, ...resto } = cupon;
+        return resto;
+    });
+    const [filtroProducto, setFiltroProducto] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    const update = (cambios: Partial<Omit<Cupon, 'id'>>) => setForm(prev => ({ ...prev, ...cambios }));
+
+    const productosVisibles = productos.filter(p =>
+        form.productoIds.includes(p.id) || p.nombre.toLowerCase().includes(filtroProducto.toLowerCase())
+    );
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (form.fechaDesde && form.fechaHasta && form.fechaDesde > form.fechaHasta) {
+            setError({ message: 'La fecha de inicio no puede ser posterior a la de fin.' });
+            return;
+        }
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await saveCupon(form, cupon?.id);
+            onSuccess();
+        } catch (err: any) {
+            setError(err);
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">{cupon ? `Editar Cupón ${cupon.codigo}` : 'Nuevo Cupón'}</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Código*</label>
+                            <input type="text" value={form.codigo} onChange={e => update({ codigo: normalizarCodigoCupon(e.target.value) })} required className="w-full input-style font-mono" placeholder="VERANO15" />
+                        </div>
+                        <div className="md:col-span-2">
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Descripción</label>
+                            <input type="text" value={form.descripcion || ''} onChange={e => update({ descripcion: e.target.value })} className="w-full input-style" placeholder="Uso interno: campaña, influencer, etc." />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Tipo</label>
+                            <select value={form.tipo} onChange={e => update({ tipo: e.target.value as TipoCupon })} className="w-full input-style">
+                                {TIPOS_CUPON.map(t => <option key={t} value={t}>{t}</option>)}
+                            </select>
+                        </div>
+                        {form.tipo !== 'Envío gratis' && (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">{form.tipo === 'Porcentaje' ? 'Porcentaje' : 'Monto ($)'}</label>
+                                <input type="number" min="0.01" max={form.tipo === 'Porcentaje' ? 100 : undefined} step="0.01" value={form.valor || ''} onChange={e => update({ valor: Number(e.target.value) || 0 })} required className="w-full input-style" />
+                            </div>
+                        )}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Compra mínima ($)</label>
+                            <input type="number" min="0" step="0.01" value={form.montoMinimo ?? ''} onChange={e => update({ montoMinimo: numeroONull(e.target.value) })} className="w-full input-style" placeholder="Sin mínimo" />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Usos totales</label>
+                            <input type="number" min="1" value={form.usosMaximos ?? ''} onChange={e => update({ usosMaximos: numeroONull(e.target.value) })} className="w-full input-style" placeholder="Ilimitado" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Usos por email</label>
+                            <input type="number" min="1" value={form.usosPorEmail ?? ''} onChange={e => update({ usosPorEmail: numeroONull(e.target.value) })} className="w-full input-style" placeholder="Ilimitado" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Válido desde</label>
+                            <input type="date" value={form.fechaDesde || ''} onChange={e => update({ fechaDesde: e.target.value || null })} className="w-full input-style" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Válido hasta</label>
+                            <input type="date" value={form.fechaHasta || ''} onChange={e => update({ fechaHasta: e.target.value || null })} className="w-full input-style" />
+                        </div>
+                    </div>
+
+                    <div className="border-t pt-4">
+                        <p className="text-sm font-medium text-gray-700">Alcance</p>
+                        <p className="text-xs text-gray-500 mb-2">Sin líneas ni productos elegidos, el cupón se aplica a todo el pedido.</p>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 mb-3">
+                            {LINEAS_PRODUCTO.map(linea => (
+                                <label key={linea} className="flex items-center text-sm text-gray-700">
+                                    <input type="checkbox" checked={form.lineas.includes(linea)} onChange={() => update({ lineas: toggle(form.lineas, linea) })} className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-1" />
+                                    {linea}
+                                </label>
+                            ))}
+                        </div>
+                        <input type="text" value={filtroProducto} onChange={e => setFiltroProducto(e.target.value)} placeholder="Buscar producto..." className="w-full input-style mb-2" />
+                        <div className="max-h-40 overflow-y-auto border rounded-md divide-y">
+                            {productosVisibles.map(p => (
+                                <label key={p.id} className="flex items-center px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50">
+                                    <input type="checkbox" checked={form.productoIds.includes(p.id)} onChange={() => update({ productoIds: toggle(form.productoIds, p.id) })} className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2" />
+                                    {p.nombre}
+                                    {p.linea && <span className="ml-auto text-xs text-gray-400">{p.linea}</span>}
+                                </label>
+                            ))}
+                        </div>
+                        {form.productoIds.length > 0 && <p className="text-xs text-gray-500 mt-1">{form.productoIds.length} producto(s) elegidos.</p>}
+                    </div>
+
+                    <div className="flex flex-col gap-2 pt-2 border-t">
+                        <label className="flex items-center text-sm text-gray-900">
+                            <input type="checkbox" checked={form.destacado} onChange={e => update({ destacado: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2" />
+                            Anunciar el código en el banner de la tienda
+                        </label>
+                        <label className="flex items-center text-sm text-gray-900">
+                            <input type="checkbox" checked={form.activo} onChange={e => update({ activo: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2" />
+                            Activo
+                        </label>
+                    </div>
+                    <div className="flex justify-end pt-4 border-t">
+                        <button type="button" onClick={onClose} className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg mr-2 hover:bg-gray-300">Cancelar</button>
+                        <button type="submit" disabled={isSubmitting || !form.codigo} className="bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark disabled:bg-violet-300">
+                            {isSubmitting ? 'Guardando...' : 'Guardar'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const Cupones: React.FC = () => {
+    const [cupones, setCupones] = useState<Cupon[]>([]);
+    const [canjes, setCanjes] = useState<CanjeCupon[]>([]);
+    const [productos, setProductos] = useState<ProductoOpcion[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<any | null>(null);
+    const [tab, setTab] = useState<'cupones' | 'canjes'>('cupones');
+    const [filtroCodigo, setFiltroCodigo] = useState('');
+    const [modal, setModal] = useState<{ cupon: Cupon | null } | null>(null);
+
+    const loadData = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const [cuponesData, canjesData, productosData] = await Promise.all([fetchCupones(), fetchCanjesCupones(), fetchAllProducts()]);
+            setCupones(cuponesData);
+            setCanjes(canjesData);
+            setProductos(productosData);
+        } catch (err: any) {
+            console.error(`[CuponesPage] Error fetching data:`, err);
+            setError(err);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    // Igual que en validar_cupon: las ventas canceladas y los carritos abandonados no consumen usos
+    const usosPorCupon = useMemo(() => canjes.reduce((acc, c) => {
+        if (c.ventaEstado !== 'Cancelada' && c.ventaEstado !== 'Carrito Abandonado') acc[c.cuponId] = (acc[c.cuponId] || 0) + 1;
+        return acc;
+    }, {} as Record<string, number>), [canjes]);
+
+    const handleDelete = async (cupon: Cupon) => {
+        if (window.confirm(`¿Seguro que quieres eliminar el cupón ${cupon.codigo}?`)) {
+            try {
+                await deleteCupon(cupon.id);
+                loadData();
+            } catch (err: any) {
+                setError(err);
+            }
+        }
+    };
+
+    const describirAlcance = (cupon: Cupon) => {
+        const partes = [...cupon.lineas];
+        if (cupon.productoIds.length > 0) partes.push(`${cupon.productoIds.length} producto(s)`);
+        return partes.length > 0 ? partes.join(', ') : 'Todo el pedido';
+    };
+
+    const cuponColumns: Column<Cupon>[] = [
+        { header: 'Código', accessor: 'codigo', render: item => (
+            <div>
+                <p className="font-mono font-semibold">{item.codigo}</p>
+                {item.descripcion && <p className="text-xs text-gray-500">{item.descripcion}</p>}
+            </div>
+        )},
+        { header: 'Beneficio', accessor: 'tipo', render: item => (
+            <div className="text-sm">
+                <p className="font-semibold">{describirCupon(item)}</p>
+                <p className="text-xs text-gray-500">{describirAlcance(item)}{item.montoMinimo ? ` · desde ${formatPrice(item.montoMinimo)}` : ''}</p>
+            </div>
+        )},
+        { header: 'Vigencia', accessor: 'fechaHasta', render: item => (
+            <span className="text-sm">
+                {item.fechaDesde || item.fechaHasta ? `${formatFecha(item.fechaDesde) || '...'} a ${formatFecha(item.fechaHasta) || '...'}` : 'Sin vencimiento'}
+            </span>
+        )},
+        { header: 'Usos', accessor: 'usosMaximos', render: item => (
+            <div className="text-sm">
+                <p>{usosPorCupon[item.id] || 0}{item.usosMaximos ? ` / ${item.usosMaximos}` : ''}</p>
+                {item.usosPorEmail && <p className="text-xs text-gray-500">{item.usosPorEmail} por email</p>}
+            </div>
+        )},
+        { header: 'Estado', accessor: 'activo', render: item => (
+            <div className="flex flex-col items-start gap-1">
+                {item.activo
+                    ? <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">Activo</span>
+                    : <span className="px-2 py-1 text-xs font-semibold rounded-full bg-gray-100 text-gray-800">Inactivo</span>}
+                {item.destacado && <span className="px-2 py-1 text-xs font-semibold rounded-full bg-amber-100 text-amber-800">En banner</span>}
+            </div>
+        )},
+        { header: 'Acciones', accessor: 'id', render: item => (
+            <div className="flex space-x-3">
+                <button onClick={() => setModal({ cupon: item })} className="text-blue-500 hover:text-blue-700" title="Editar"><IconPencil className="h-5 w-5" /></button>
+                <button onClick={() => handleDelete(item)} className="text-red-500 hover:text-red-700" title="Eliminar"><IconTrash className="h-5 w-5" /></button>
+            </div>
+        )},
+    ];
+
+    const canjeColumns: Column<CanjeCupon>[] = [
+        { header: 'Fecha', accessor: 'fecha', render: item => new Date(item.fecha).toLocaleString('es-AR') },
+        { header: 'Código', accessor: 'codigo', render: item => <span className="font-mono font-semibold">{item.codigo}</span> },
+        { header: 'Email', accessor: 'email', render: item => item.email || '-' },
+        { header: 'Venta', accessor: 'ventaId', render: item => (
+            <div className="text-sm">
+                <p className="font-mono">{item.ventaId.substring(0, 8).toUpperCase()}</p>
+                <p className="text-xs text-gray-500">{item.tienda || 'Sin tienda'}{item.ventaEstado ? ` · ${item.ventaEstado}` : ''}</p>
+            </div>
+        )},
+        { header: 'Descuento', accessor: 'descuento', render: item => <span className="text-green-700 font-semibold">-{formatPrice(item.descuento)}</span> },
+        { header: 'Total Venta', accessor: 'ventaTotal', render: item => item.ventaTotal !== null ? formatPrice(item.ventaTotal) : '-' },
+    ];
+
+    const canjesFiltrados = canjes.filter(c => c.codigo.includes(normalizarCodigoCupon(filtroCodigo)));
+
+    return (
+        <div>
+            <PageHeader title="Cupones">
+                <button onClick={() => setModal({ cupon: null })} className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark transition-colors">
+                    <IconPlus className="h-5 w-5 mr-2" />
+                    Nuevo Cupón
+                </button>
+            </PageHeader>
+            <DatabaseErrorDisplay error={error} />
+
+            <div className="flex border-b mb-4">
+                {([['cupones', `Cupones (${cupones.length})`], ['canjes', `Canjes (${canjes.length})`]] as const).map(([key, label]) => (
+                    <button
+                        key={key}
+                        onClick={() => setTab(key)}
+                        className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${tab === key ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {tab === 'cupones' ? (
+                <Table columns={cuponColumns} data={cupones} isLoading={loading} />
+            ) : (
+                <>
+                    <input type="text" value={filtroCodigo} onChange={e => setFiltroCodigo(e.target.value)} placeholder="Filtrar por código..." className="input-style max-w-xs mb-4" />
+                    <Table columns={canjeColumns} data={canjesFiltrados} isLoading={loading} />
+                </>
+            )}
+
+            {modal && (
+                <CuponModal
+                    cupon={modal.cupon}
+                    productos={productos}
+                    onClose={() => setModal(null)}
+                    onSuccess={() => { setModal(null); loadData(); }}
+                />
+            )}
+            <style>{`.input-style { display: block; width: 100%; padding: 0.5rem 0.75rem; border: 1px solid #D1D5DB; border-radius: 0.375rem; } .input-style:focus { border-color: #8a5cf6; }`}</style>
+        </div>
+    );
+};
+
+export default Cupones;
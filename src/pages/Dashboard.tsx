@@ -1,13 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import Card from '@/components/Card';
 import PageHeader from '@/components/PageHeader';
-import { IconShoppingCart, IconPackage, IconUsers, IconBuildingWarehouse, IconPhoto } from '@/components/Icons';
+import { IconShoppingCart, IconPackage, IconUsers, IconBuildingWarehouse, IconPhoto, IconAlertTriangle } from '@/components/Icons';
 import { LowStockInsumo, LowStockProducto, MonthlyData } from '@/types';
 import Table, { Column } from '@/components/Table';
 import BarChart from '@/components/BarChart';
 import { ChartData } from 'chart.js';
 import { Link } from 'react-router-dom';
 import { fetchDashboardData } from '@/services/dashboardService';
+import { fetchResumenVencimientos } from '@/services/vencimientosService';
 import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
 import { useAuth } from '@/contexts/AuthContext';
 
@@ -23,6 +24,7 @@ const Dashboard: React.FC = () => {
   const [salesByMonth, setSalesByMonth] = useState<MonthlyData[]>([]);
   const [unitsByMonth, setUnitsByMonth] = useState<MonthlyData[]>([]);
   const [topProducts, setTopProducts] = useState<{ name: string; value: number }[]>([]);
+  const [vencimientos, setVencimientos] = useState({ vencidos: 0, proximos30: 0 });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<any | null>(null);
 
@@ -54,19 +56,23 @@ const Dashboard: React.FC = () => {
     };
 
     loadData();
+    fetchResumenVencimientos().then(setVencimientos);
   }, []);
   
   const lowStockProductsColumns: Column<LowStockProducto>[] = [
     { header: 'Producto', accessor: 'nombre', render: (item) => <span className="font-semibold">{item.nombre}</span> },
     { header: 'Stock Actual', accessor: 'stock', render: (item) => <span className="font-bold text-red-600">{item.stock} u.</span> },
+    { header: 'Punto de Reorden', accessor: 'puntoReorden', render: (item) => item.puntoReorden != null ? `${item.puntoReorden} u.` : '-' },
   ];
 
   const lowStockInsumosColumns: Column<LowStockInsumo>[] = [
     { header: 'Insumo', accessor: 'nombre', render: (item) => <span className="font-semibold">{item.nombre}</span> },
     { header: 'Stock Actual', accessor: 'stock', render: (item) => <span className="font-bold text-yellow-600">{item.stock} {item.unidad}</span> },
+    { header: 'Punto de Reorden', accessor: 'puntoReorden', render: (item) => item.puntoReorden != null ? `${item.puntoReorden} ${item.unidad}` : '-' },
   ];
   
   const canSeeSensitiveInfo = profile?.roles?.some(role => ['superadmin', 'analitico'].includes(role));
+  const canManageStock = profile?.roles?.some(role => ['superadmin', 'administrativo'].includes(role));
   
   const cardContainerClass = canSeeSensitiveInfo
     ? 'grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-8'
@@ -77,6 +83,19 @@ const Dashboard: React.FC = () => {
       <PageHeader title="Dashboard" />
 
       <DatabaseErrorDisplay error={error} />
+
+      {canManageStock && (vencimientos.vencidos > 0 || vencimientos.proximos30 > 0) && (
+        <div className="flex items-center justify-between bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-6 rounded-r-lg">
+          <div className="flex items-center text-sm text-yellow-800">
+            <IconAlertTriangle className="h-5 w-5 mr-3 flex-shrink-0" />
+            <span>
+              {vencimientos.vencidos > 0 && <><strong>{vencimientos.vencidos} lote(s) vencidos</strong> con stock (bloqueados para la venta). </>}
+              {vencimientos.proximos30 > 0 && <><strong>{vencimientos.proximos30} lote(s)</strong> vencen en los próximos 30 días.</>}
+            </span>
+          </div>
+          <Link to="/stock/vencimientos" className="text-sm font-medium text-primary hover:underline whitespace-nowrap ml-4">Ver Vencimientos</Link>
+        </div>
+      )}
       
       <div className={cardContainerClass}>
         {canSeeSensitiveInfo && (
@@ -172,7 +191,10 @@ const Dashboard: React.FC = () => {
         <div>
             <div className="flex justify-between items-center mb-4">
                 <h3 className="text-xl font-bold text-on-surface">Productos con Bajo Stock</h3>
-                <Link to="/stock/productos" className="text-sm font-medium text-primary hover:underline">Gestionar Stock</Link>
+                <div className="space-x-4">
+                    <Link to="/stock/reposicion" className="text-sm font-medium text-primary hover:underline">Hoja de Reposición</Link>
+                    <Link to="/stock/productos" className="text-sm font-medium text-primary hover:underline">Gestionar Stock</Link>
+                </div>
             </div>
             <Table columns={lowStockProductsColumns} data={lowStockProducts} isLoading={loading} />
         </div>
@@ -1,14 +1,19 @@
 import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import PageHeader from '../components/PageHeader';
-import { ProductoEstadistica } from '../types';
+import { MargenesMinimos, ProductoEstadistica, VersionPrecio, ViolacionMargen } from '../types';
 import { fetchProductStatistics } from '../services/estadisticasService';
-import { updateProductoPrecios } from '../services/productosService';
+import { aplicarPreciosProgramados, cancelarPrecioProgramado, fetchPreciosProgramados, hoyISO } from '../services/historialPreciosService';
+import { fetchMargenesMinimos, guardarPreciosProducto, verificarMargen } from '../services/margenesService';
+import { useAuth } from '../contexts/AuthContext';
 import DatabaseErrorDisplay from '../components/DatabaseErrorDisplay';
-import { IconDeviceFloppy, IconCheck, IconPencil, IconX } from '../components/Icons';
+import { IconDeviceFloppy, IconCheck, IconPencil, IconX, IconTrendingUp } from '../components/Icons';
 
 const formatPrice = (price: number) => `$${price.toLocaleString('es-AR', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+const formatFecha = (fecha: string) => new Date(`${fecha}T00:00:00`).toLocaleDateString('es-AR');
 
 const EstadisticasProductos: React.FC = () => {
+    const { profile } = useAuth();
     const [stats, setStats] = useState<ProductoEstadistica[]>([]);
     const [editMode, setEditMode] = useState<Record<string, boolean>>({});
     const [editedData, setEditedData] = useState<Record<string, Partial<ProductoEstadistica>>>({});
@@ -16,13 +21,26 @@ const EstadisticasProductos: React.FC = () => {
     const [error, setError] = useState<any | null>(null);
     const [savingState, setSavingState] = useState<Record<string, 'saving' | 'saved' | null>>({});
     const [searchTerm, setSearchTerm] = useState('');
+    const [vigenteDesde, setVigenteDesde] = useState(hoyISO());
+    const [programados, setProgramados] = useState<VersionPrecio[]>([]);
+    const [margenes, setMargenes] = useState<MargenesMinimos>({ porLinea: {}, porLista: {} });
+
+    const isSuperAdmin = profile?.roles?.includes('superadmin');
 
     const loadStats = async () => {
         setLoading(true);
         setError(null);
         try {
-            const data = await fetchProductStatistics();
+            // Aplica primero los cambios programados que ya vencieron, así las estadísticas muestran el precio vigente
+            await aplicarPreciosProgramados();
+            const [data, programadosData, margenesData] = await Promise.all([
+                fetchProductStatistics(),
+                fetchPreciosProgramados(null),
+                fetchMargenesMinimos(),
+            ]);
             setStats(data);
+            setProgramados(programadosData);
+            setMargenes(margenesData);
         } catch (err: any) {
             setError(err);
         } finally {
@@ -61,9 +79,34 @@ const EstadisticasProductos: React.FC = () => {
         }
     };
 
+    const violacionesDe = (item: ProductoEstadistica): ViolacionMargen[] => verificarMargen(
+        margenes,
+        { linea: item.linea, costoUnitario: item.costoTotalUnitario },
+        null,
+        [
+            { nivel: 'Público', precio: item.precioPublico },
+            { nivel: 'Comercio', precio: item.precioComercio },
+            { nivel: 'Mayorista', precio: item.precioMayorista },
+        ]
+    );
+
     const handleSave = async (productId: string) => {
         const changes = editedData[productId];
-        if (!changes) return;
+        const original = stats.find(stat => stat.id === productId);
+        if (!changes || !original) return;
+
+        // Precios bajo el margen mínimo: sólo un superadmin puede guardarlos, indicando el motivo
+        const violaciones = violacionesDe({ ...original, ...changes });
+        let motivoExcepcion: string | null = null;
+        if (violaciones.length > 0) {
+            const detalle = violaciones.map(v => `${v.nivel} ${formatPrice(v.precio)} (mín. ${formatPrice(v.minimo)})`).join(', ');
+            if (!isSuperAdmin) {
+                setError({ message: `Precios por debajo del margen mínimo: ${detalle}. Solo un superadmin puede autorizarlos.` });
+                return;
+            }
+            motivoExcepcion = window.prompt(`Precios por debajo del margen mínimo: ${detalle}. Indica el motivo de la excepción:`);
+            if (!motivoExcepcion?.trim()) return;
+        }
         
         setSavingState(prev => ({ ...prev, [productId]: 'saving' }));
         setError(null);
@@ -73,7 +116,13 @@ const EstadisticasProductos: React.FC = () => {
                 precioComercio: changes.precioComercio!,
                 precioMayorista: changes.precioMayorista!,
             };
-            await updateProductoPrecios(productId, pricesToUpdate);
+            await guardarPreciosProducto(productId, pricesToUpdate, vigenteDesde, motivoExcepcion);
+            if (vigenteDesde > hoyISO()) {
+                setProgramados(await fetchPreciosProgramados(null));
+                setSavingState(prev => ({ ...prev, [productId]: null }));
+                handleCancelClick(productId);
+                return;
+            }
             
             setSavingState(prev => ({ ...prev, [productId]: 'saved' }));
             setTimeout(() => {
@@ -88,6 +137,16 @@ const EstadisticasProductos: React.FC = () => {
         }
     };
 
+    const handleCancelProgramado = async (versionId: string) => {
+        setError(null);
+        try {
+            await cancelarPrecioProgramado(versionId);
+            setProgramados(prev => prev.filter(v => v.id !== versionId));
+        } catch (err: any) {
+            setError(err);
+        }
+    };
+
     const ProfitCell: React.FC<{ profit: number; cost: number }> = ({ profit, cost }) => {
         const percentage = cost > 0 ? (profit / cost) * 100 : 0;
         const colorClass = profit >= 0 ? 'text-green-600' : 'text-red-600';
@@ -117,9 +176,14 @@ const EstadisticasProductos: React.FC = () => {
 
     return (
         <div>
-            <PageHeader title="Estadísticas de Rentabilidad por Producto" />
+            <PageHeader title="Estadísticas de Rentabilidad por Producto">
+                <Link to="/remarcacion-precios" className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark transition-colors">
+                    <IconTrendingUp className="h-5 w-5 mr-2" />
+                    Remarcación Masiva
+                </Link>
+            </PageHeader>
             
-             <div className="mb-4">
+             <div className="mb-4 flex flex-col sm:flex-row sm:items-center gap-4">
                 <input
                     type="text"
                     placeholder="Buscar por nombre de producto..."
@@ -127,7 +191,23 @@ const EstadisticasProductos: React.FC = () => {
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="w-full max-w-lg p-2 border border-gray-300 rounded-lg shadow-sm focus:ring-primary focus:border-primary"
                 />
+                <div className="flex items-center gap-2">
+                    <label htmlFor="vigente-desde" className="text-sm font-semibold text-gray-700 whitespace-nowrap">Nuevos precios vigentes desde:</label>
+                    <input
+                        type="date"
+                        id="vigente-desde"
+                        value={vigenteDesde}
+                        min={hoyISO()}
+                        onChange={(e) => setVigenteDesde(e.target.value || hoyISO())}
+                        className="p-2 border border-gray-300 rounded-lg shadow-sm focus:ring-primary focus:border-primary"
+                    />
+                </div>
             </div>
+            {vigenteDesde > hoyISO() && (
+                <p className="text-sm text-blue-700 bg-blue-50 p-3 rounded-md mb-4">
+                    Los precios que guardes quedarán programados para el {formatFecha(vigenteDesde)} y se aplicarán automáticamente ese día.
+                </p>
+            )}
 
             <DatabaseErrorDisplay error={error} />
 
@@ -155,16 +235,33 @@ const EstadisticasProductos: React.FC = () => {
                             const gananciaPublico = item.precioPublico - item.costoTotalUnitario;
                             const gananciaComercio = item.precioComercio - item.costoTotalUnitario;
                             const gananciaMayorista = item.precioMayorista - item.costoTotalUnitario;
+                            const violaciones = violacionesDe(item);
 
                             return (
                                 <tr key={item.id} className="hover:bg-gray-50">
-                                    <td className="td-style font-semibold">{item.nombre}</td>
+                                    <td className="td-style font-semibold">
+                                        {item.nombre}
+                                        {programados.filter(v => v.productoId === item.id).map(v => (
+                                            <div key={v.id} className="mt-1 flex items-center gap-2 text-xs font-normal bg-blue-50 text-blue-800 px-2 py-1 rounded w-fit">
+                                                <span>Desde {formatFecha(v.vigenteDesde)}: {formatPrice(v.precioPublico || 0)} / {formatPrice(v.precioComercio || 0)} / {formatPrice(v.precioMayorista || 0)}</span>
+                                                <button onClick={() => handleCancelProgramado(v.id)} title="Cancelar cambio programado" className="text-blue-400 hover:text-red-600"><IconX className="w-3 h-3" /></button>
+                                            </div>
+                                        ))}
+                                    </td>
                                     <td className="td-style">{item.ventasMesActual} / {item.ventasAñoActual} u.</td>
                                     <td className="td-style font-medium text-red-600">{formatPrice(item.costoTotalUnitario)}</td>
                                     
-                                    <td className="td-style">{isInEditMode ? <input type="number" value={item.precioPublico} onChange={e => handlePriceChange(item.id, 'precioPublico', e.target.value)} className="input-style" /> : formatPrice(item.precioPublico)}</td>
-                                    <td className="td-style">{isInEditMode ? <input type="number" value={item.precioComercio} onChange={e => handlePriceChange(item.id, 'precioComercio', e.target.value)} className="input-style" /> : formatPrice(item.precioComercio)}</td>
-                                    <td className="td-style">{isInEditMode ? <input type="number" value={item.precioMayorista} onChange={e => handlePriceChange(item.id, 'precioMayorista', e.target.value)} className="input-style" /> : formatPrice(item.precioMayorista)}</td>
+                                    {([['precioPublico', 'Público'], ['precioComercio', 'Comercio'], ['precioMayorista', 'Mayorista']] as const).map(([campo, nivel]) => {
+                                        const violacion = violaciones.find(v => v.nivel === nivel);
+                                        return (
+                                            <td key={campo} className="td-style">
+                                                {isInEditMode
+                                                    ? <input type="number" value={item[campo]} onChange={e => handlePriceChange(item.id, campo, e.target.value)} className={`input-style ${violacion ? 'input-error' : ''}`} />
+                                                    : <span className={violacion ? 'text-red-600 font-semibold' : ''}>{formatPrice(item[campo])}</span>}
+                                                {violacion && <p className="text-xs text-red-600 mt-1" title={`Margen mínimo ${violacion.margen}% sobre el costo`}>Mín. {formatPrice(violacion.minimo)}</p>}
+                                            </td>
+                                        );
+                                    })}
 
                                     <td className="td-style"><ProfitCell profit={gananciaPublico} cost={item.costoTotalUnitario} /></td>
                                     <td className="td-style"><ProfitCell profit={gananciaComercio} cost={item.costoTotalUnitario} /></td>
@@ -206,7 +303,7 @@ const EstadisticasProductos: React.FC = () => {
             </div>
             
             <p className="text-xs text-gray-500 mt-4">
-                Nota: La ganancia unitaria es la diferencia entre el precio de lista y el costo unitario total. El costo unitario se basa en el costo de insumos más el costo de laboratorio del último lote producido. El porcentaje de ganancia se calcula sobre el costo.
+                Nota: La ganancia unitaria es la diferencia entre el precio de lista y el costo unitario total. El costo unitario se basa en el costo de insumos más el costo de laboratorio del último lote producido. El porcentaje de ganancia se calcula sobre el costo. Los precios en rojo están por debajo del margen mínimo de su línea (configurable en Gestión de Listas); guardarlos requiere autorización de un superadmin.
             </p>
 
             <style>{`
@@ -214,6 +311,7 @@ const EstadisticasProductos: React.FC = () => {
                 .td-style { padding: 0.75rem 1rem; white-space: nowrap; font-size: 0.875rem; color: #4A5568; vertical-align: middle; }
                 .input-style { width: 100px; padding: 0.5rem; border: 1px solid #CBD5E0; border-radius: 0.375rem; text-align: right; }
                 .input-style:focus { border-color: #8a5cf6; outline: none; box-shadow: 0 0 0 2px rgba(138, 92, 246, 0.2); }
+                .input-error { border-color: #DC2626; background-color: #FEF2F2; }
             `}</style>
         </div>
     );
@@ -0,0 +1,426 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import PageHeader from '@/components/PageHeader';
+import { IconX, IconPlus, IconTrash, IconDownload } from '@/components/Icons';
+import { Deposito, Etiqueta, PlantillaEtiqueta, Producto, SimbologiaEtiqueta } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchProductosConStock } from '@/services/productosService';
+import { fetchDepositos } from '@/services/depositosService';
+import {
+    fetchPlantillasEtiquetas, guardarPlantillaEtiqueta, eliminarPlantillaEtiqueta, validarPlantilla,
+    validarCodigoEtiqueta, descargarEtiquetasPdf, SIMBOLOGIAS, PLANTILLAS_PREDEFINIDAS,
+} from '@/services/etiquetasService';
+import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
+
+type Pestaña = 'productos' | 'lotes' | 'depositos';
+
+// Los lotes y ubicaciones suelen ser alfanuméricos: no entran en EAN-13
+const SIMBOLOGIA_INICIAL: Record<Pestaña, SimbologiaEtiqueta> = {
+    productos: 'EAN-13',
+    lotes: 'Code128',
+    depositos: 'QR',
+};
+
+const formatPrecio = (n: number) => `$${n.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatFecha = (fecha: string | null) => fecha ? new Date(fecha).toLocaleDateString('es-AR', { timeZone: 'UTC' }) : 'Sin vencimiento';
+
+// --- Plantilla Modal Component ---
+interface PlantillaModalProps {
+    onClose: () => void;
+    onSuccess: (plantilla: PlantillaEtiqueta) => void;
+}
+
+type CampoPlantilla = Exclude<keyof PlantillaEtiqueta, 'id' | 'nombre' | 'predefinida'>;
+
+const CAMPOS_PLANTILLA: [CampoPlantilla, string][] = [
+    ['anchoPagina', 'Ancho de página (mm)'],
+    ['altoPagina', 'Alto de página (mm)'],
+    ['columnas', 'Columnas'],
+    ['filas', 'Filas'],
+    ['anchoEtiqueta', 'Ancho de etiqueta (mm)'],
+    ['altoEtiqueta', 'Alto de etiqueta (mm)'],
+    ['margenSuperior', 'Margen superior (mm)'],
+    ['margenIzquierdo', 'Margen izquierdo (mm)'],
+    ['espacioHorizontal', 'Separación entre columnas (mm)'],
+    ['espacioVertical', 'Separación entre filas (mm)'],
+];
+
+const PlantillaModal: React.FC<PlantillaModalProps> = ({ onClose, onSuccess }) => {
+    const { id: _id, predefinida: _predefinida, ...base } = PLANTILLAS_PREDEFINIDAS[0];
+    const [plantilla, setPlantilla] = useState({ ...base, nombre: '' });
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            onSuccess(await guardarPlantillaEtiqueta(plantilla));
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    let avisoMedidas: string | null = null;
+    try {
+        validarPlantilla(plantilla);
+    } catch (err: any) {
+        avisoMedidas = err.message;
+    }
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">Nueva Plantilla de Etiquetas</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Nombre</label>
+                        <input type="text" value={plantilla.nombre} onChange={e => setPlantilla({ ...plantilla, nombre: e.target.value })} required placeholder="Ej: Avery L7160" className="w-full input-style" />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        {CAMPOS_PLANTILLA.map(([campo, label]) => (
+                            <div key={campo}>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step={campo === 'columnas' || campo === 'filas' ? 1 : 0.1}
+                                    value={plantilla[campo]}
+                                    onChange={e => setPlantilla({ ...plantilla, [campo]: parseFloat(e.target.value) || 0 })}
+                                    required
+                                    className="w-full input-style"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    {avisoMedidas && <p className="text-sm text-red-600">{avisoMedidas}</p>}
+                    <div className="flex justify-end space-x-3 pt-2">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300">Cancelar</button>
+                        <button type="submit" disabled={isSubmitting || !!avisoMedidas || !plantilla.nombre.trim()} className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary-dark disabled:bg-violet-300">
+                            {isSubmitting ? 'Guardando...' : 'Guardar Plantilla'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const CantidadInput: React.FC<{ value: number; onChange: (value: number) => void; disabled?: boolean }> = ({ value, onChange, disabled }) => (
+    <input
+        type="number"
+        min="0"
+        value={value || ''}
+        placeholder="0"
+        onChange={e => onChange(Math.max(0, parseInt(e.target.value, 10) || 0))}
+        disabled={disabled}
+        className="w-20 p-1 border rounded text-center disabled:bg-gray-100"
+    />
+);
+
+const Etiquetas: React.FC = () => {
+    const { profile } = useAuth();
+    const [productos, setProductos] = useState<Producto[]>([]);
+    const [depositos, setDepositos] = useState<Deposito[]>([]);
+    const [plantillas, setPlantillas] = useState<PlantillaEtiqueta[]>(PLANTILLAS_PREDEFINIDAS);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<any | null>(null);
+    const [tab, setTab] = useState<Pestaña>('productos');
+    const [plantillaId, setPlantillaId] = useState(PLANTILLAS_PREDEFINIDAS[0].id);
+    const [posicionInicial, setPosicionInicial] = useState(1);
+    const [simbologias, setSimbologias] = useState(SIMBOLOGIA_INICIAL);
+    const [busqueda, setBusqueda] = useState('');
+    const [incluirPrecio, setIncluirPrecio] = useState(true);
+    const [cantidades, setCantidades] = useState<Record<string, number>>({});
+    const [ubicaciones, setUbicaciones] = useState<Record<string, string>>({});
+    const [isPlantillaOpen, setIsPlantillaOpen] = useState(false);
+
+    const canManage = !!profile?.roles?.some(role => ['superadmin', 'administrativo'].includes(role));
+
+    const loadData = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const [productosData, depositosData, plantillasData] = await Promise.all([fetchProductosConStock(), fetchDepositos(), fetchPlantillasEtiquetas()]);
+            setProductos(productosData);
+            setDepositos(depositosData);
+            setPlantillas(plantillasData);
+        } catch (err: any) {
+            console.error(`[EtiquetasPage] Error fetching data:`, err);
+            setError(err);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const plantilla = plantillas.find(p => p.id === plantillaId) || plantillas[0];
+    const porHoja = plantilla.columnas * plantilla.filas;
+    const simbologia = simbologias[tab];
+
+    const lotes = useMemo(() => productos.flatMap(p => p.stockPorDeposito.flatMap(d => d.lotes
+        .filter(l => l.cantidad_actual > 0)
+        .map(l => ({ ...l, productoNombre: p.nombre, depositoNombre: d.depositoNombre })))), [productos]);
+
+    const termino = busqueda.trim().toLowerCase();
+    const productosFiltrados = productos.filter(p => !termino || p.nombre.toLowerCase().includes(termino) || (p.codigoBarras || '').includes(termino));
+    const lotesFiltrados = lotes.filter(l => !termino || l.productoNombre.toLowerCase().includes(termino) || l.numero_lote.toLowerCase().includes(termino));
+
+    const setCantidad = (clave: string, cantidad: number) => setCantidades(prev => ({ ...prev, [clave]: cantidad }));
+
+    // Una etiqueta por cada unidad pedida; en depósitos, una por ubicación (o una del depósito si no se cargan)
+    const etiquetas = useMemo((): Etiqueta[] => {
+        const repetir = (clave: string, etiqueta: Etiqueta) => Array.from({ length: cantidades[clave] || 0 }, () => etiqueta);
+        if (tab === 'productos') {
+            return productos.flatMap(p => repetir(`producto:${p.id}`, {
+                titulo: p.nombre,
+                lineas: incluirPrecio ? [formatPrecio(p.precioPublico)] : [],
+                codigo: p.codigoBarras || '',
+                simbologia,
+            }));
+        }
+        if (tab === 'lotes') {
+            return lotes.flatMap(l => repetir(`lote:${l.id}`, {
+                titulo: l.productoNombre,
+                lineas: [`Lote ${l.numero_lote}`, `Vto: ${formatFecha(l.fecha_vencimiento)}`],
+                codigo: l.numero_lote,
+                simbologia,
+            }));
+        }
+        return depositos.flatMap(d => {
+            const lista = (ubicaciones[d.id] || '').split('\n').map(u => u.trim()).filter(Boolean);
+            const etiquetasDeposito = lista.length > 0
+                ? lista.map(u => ({ titulo: d.nombre, lineas: [u], codigo: `${d.nombre}/${u}`, simbologia }))
+                : [{ titulo: d.nombre, lineas: d.direccion ? [d.direccion] : [], codigo: d.nombre, simbologia }];
+            return Array.from({ length: cantidades[`deposito:${d.id}`] || 0 }, () => etiquetasDeposito).flat();
+        });
+    }, [tab, productos, lotes, depositos, cantidades, ubicaciones, incluirPrecio, simbologia]);
+
+    const invalidas = etiquetas.filter(e => validarCodigoEtiqueta(e.codigo, e.simbologia)).length;
+    const hojas = Math.ceil((etiquetas.length + Math.min(posicionInicial, porHoja) - 1) / porHoja);
+
+    const handleDescargar = () => {
+        setError(null);
+        try {
+            descargarEtiquetasPdf(etiquetas, plantilla, posicionInicial, `etiquetas-${tab}-${new Date().toISOString().split('T')[0]}`);
+        } catch (err: any) {
+            setError(err);
+        }
+    };
+
+    const handleEliminarPlantilla = async () => {
+        if (!window.confirm(`¿Eliminar la plantilla "${plantilla.nombre}"?`)) return;
+        setError(null);
+        try {
+            await eliminarPlantillaEtiqueta(plantilla.id);
+            setPlantillaId(PLANTILLAS_PREDEFINIDAS[0].id);
+            setPlantillas(prev => prev.filter(p => p.id !== plantilla.id));
+        } catch (err: any) {
+            setError(err);
+        }
+    };
+
+    const codigoInvalido = (codigo: string) => validarCodigoEtiqueta(codigo, simbologia);
+
+    return (
+        <div>
+            <PageHeader title="Etiquetas" />
+
+            <DatabaseErrorDisplay error={error} />
+
+            <div className="bg-white p-4 rounded-lg shadow mb-6 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Plantilla</label>
+                    <div className="flex items-center space-x-2">
+                        <select value={plantilla.id} onChange={e => { setPlantillaId(e.target.value); setPosicionInicial(1); }} className="w-full input-style">
+                            {plantillas.map(p => <option key={p.id} value={p.id}>{p.nombre}</option>)}
+                        </select>
+                        {canManage && (
+                            <button onClick={() => setIsPlantillaOpen(true)} className="p-2 text-primary hover:bg-gray-100 rounded-md" title="Nueva Plantilla"><IconPlus className="h-5 w-5" /></button>
+                        )}
+                        {canManage && !plantilla.predefinida && (
+                            <button onClick={handleEliminarPlantilla} className="p-2 text-red-500 hover:bg-gray-100 rounded-md" title="Eliminar Plantilla"><IconTrash className="h-5 w-5" /></button>
+                        )}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                        {plantilla.columnas} x {plantilla.filas} etiquetas de {plantilla.anchoEtiqueta} x {plantilla.altoEtiqueta} mm en hoja de {plantilla.anchoPagina} x {plantilla.altoPagina} mm
+                    </p>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Código</label>
+                    <select value={simbologia} onChange={e => setSimbologias({ ...simbologias, [tab]: e.target.value as SimbologiaEtiqueta })} className="w-full input-style">
+                        {SIMBOLOGIAS.map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Empezar en la posición</label>
+                    <input
+                        type="number"
+                        min="1"
+                        max={porHoja}
+                        value={posicionInicial}
+                        onChange={e => setPosicionInicial(Math.min(porHoja, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                        disabled={porHoja === 1}
+                        className="w-full input-style disabled:bg-gray-100"
+                    />
+                </div>
+            </div>
+
+            <div className="flex border-b mb-4">
+                {([['productos', 'Productos'], ['lotes', 'Lotes'], ['depositos', 'Depósitos']] as const).map(([key, label]) => (
+                    <button
+                        key={key}
+                        onClick={() => { setTab(key); setCantidades({}); setBusqueda(''); }}
+                        className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${tab === key ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {tab !== 'depositos' && (
+                <div className="flex flex-wrap items-center gap-4 mb-4">
+                    <input type="text" value={busqueda} onChange={e => setBusqueda(e.target.value)} placeholder={tab === 'productos' ? 'Buscar por nombre o código...' : 'Buscar por producto o lote...'} className="input-style max-w-sm" />
+                    {tab === 'productos' && (
+                        <label className="flex items-center text-sm text-gray-700">
+                            <input type="checkbox" checked={incluirPrecio} onChange={e => setIncluirPrecio(e.target.checked)} className="mr-2" />
+                            Incluir precio público
+                        </label>
+                    )}
+                    {tab === 'lotes' && (
+                        <button onClick={() => setCantidades(Object.fromEntries(lotesFiltrados.map(l => [`lote:${l.id}`, Math.floor(l.cantidad_actual)])))} className="text-sm text-primary hover:underline">
+                            Una por unidad en stock
+                        </button>
+                    )}
+                    <button onClick={() => setCantidades({})} className="text-sm text-gray-500 hover:underline">Limpiar cantidades</button>
+                </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+                {loading ? (
+                    <p className="p-6 text-center text-gray-500">Cargando...</p>
+                ) : (
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                            {tab === 'productos' && (
+                                <tr>
+                                    <th className="px-4 py-3 text-left font-medium text-gray-500">Producto</th>
+                                    <th className="px-4 py-3 text-left font-medium text-gray-500">Código de Barras</th>
+                                    <th className="px-4 py-3 text-right font-medium text-gray-500">Precio Público</th>
+                                    <th className="px-4 py-3 text-center font-medium text-gray-500">Etiquetas</th>
+                                </tr>
+                            )}
+                            {tab === 'lotes' && (
+                                <tr>
+                                    <th className="px-4 py-3 text-left font-medium text-gray-500">Producto</th>
+                                    <th className="px-4 py-3 text-left font-medium text-gray-500">Lote</th>
+                                    <th className="px-4 py-3 text-left font-medium text-gray-500">Vencimiento</th>
+                                    <th className="px-4 py-3 text-left font-medium text-gray-500">Depósito</th>
+                                    <th className="px-4 py-3 text-right font-medium text-gray-500">Stock</th>
+                                    <th className="px-4 py-3 text-center font-medium text-gray-500">Etiquetas</th>
+                                </tr>
+                            )}
+                            {tab === 'depositos' && (
+                                <tr>
+                                    <th className="px-4 py-3 text-left font-medium text-gray-500">Depósito</th>
+                                    <th className="px-4 py-3 text-left font-medium text-gray-500">Ubicaciones (una por línea, opcional)</th>
+                                    <th className="px-4 py-3 text-center font-medium text-gray-500">Copias</th>
+                                </tr>
+                            )}
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {tab === 'productos' && productosFiltrados.map(p => {
+                                const aviso = p.codigoBarras ? codigoInvalido(p.codigoBarras) : 'Sin código de barras';
+                                return (
+                                    <tr key={p.id}>
+                                        <td className="px-4 py-2 font-semibold">{p.nombre}</td>
+                                        <td className="px-4 py-2">
+                                            <span className="font-mono">{p.codigoBarras || '-'}</span>
+                                            {aviso && <p className="text-xs text-red-600">{aviso}</p>}
+                                        </td>
+                                        <td className="px-4 py-2 text-right">{formatPrecio(p.precioPublico)}</td>
+                                        <td className="px-4 py-2 text-center">
+                                            <CantidadInput value={cantidades[`producto:${p.id}`] || 0} onChange={v => setCantidad(`producto:${p.id}`, v)} disabled={!!aviso} />
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {tab === 'lotes' && lotesFiltrados.map(l => {
+                                const aviso = codigoInvalido(l.numero_lote);
+                                return (
+                                    <tr key={l.id}>
+                                        <td className="px-4 py-2 font-semibold">{l.productoNombre}</td>
+                                        <td className="px-4 py-2">
+                                            <span className="font-mono">{l.numero_lote}</span>
+                                            {aviso && <p className="text-xs text-red-600">{aviso}</p>}
+                                        </td>
+                                        <td className="px-4 py-2">{formatFecha(l.fecha_vencimiento)}</td>
+                                        <td className="px-4 py-2">{l.depositoNombre}</td>
+                                        <td className="px-4 py-2 text-right">{l.cantidad_actual} u.</td>
+                                        <td className="px-4 py-2 text-center">
+                                            <CantidadInput value={cantidades[`lote:${l.id}`] || 0} onChange={v => setCantidad(`lote:${l.id}`, v)} disabled={!!aviso} />
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {tab === 'depositos' && depositos.map(d => (
+                                <tr key={d.id}>
+                                    <td className="px-4 py-2 align-top">
+                                        <p className="font-semibold">{d.nombre}</p>
+                                        {d.direccion && <p className="text-xs text-gray-500">{d.direccion}</p>}
+                                    </td>
+                                    <td className="px-4 py-2">
+                                        <textarea
+                                            value={ubicaciones[d.id] || ''}
+                                            onChange={e => setUbicaciones({ ...ubicaciones, [d.id]: e.target.value })}
+                                            rows={2}
+                                            placeholder={'Estante A-1\nEstante A-2'}
+                                            className="w-full p-1 border rounded font-mono"
+                                        />
+                                    </td>
+                                    <td className="px-4 py-2 text-center align-top">
+                                        <CantidadInput value={cantidades[`deposito:${d.id}`] || 0} onChange={v => setCantidad(`deposito:${d.id}`, v)} />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            <div className="flex flex-wrap justify-between items-center mt-4 bg-white p-4 rounded-lg shadow">
+                <div className="text-sm text-gray-700">
+                    <span className="font-semibold">{etiquetas.length}</span> etiqueta(s) · {hojas} {porHoja === 1 ? 'página' : 'hoja(s)'}
+                    {invalidas > 0 && <span className="ml-2 text-red-600">{invalidas} con código inválido para {simbologia}</span>}
+                </div>
+                <button
+                    onClick={handleDescargar}
+                    disabled={etiquetas.length === 0 || invalidas > 0}
+                    className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark transition-colors disabled:bg-violet-300"
+                >
+                    <IconDownload className="h-5 w-5 mr-2" />
+                    Descargar PDF
+                </button>
+            </div>
+
+            {isPlantillaOpen && (
+                <PlantillaModal
+                    onClose={() => setIsPlantillaOpen(false)}
+                    onSuccess={nueva => { setIsPlantillaOpen(false); setPlantillas(prev => [...prev, nueva]); setPlantillaId(nueva.id); }}
+                />
+            )}
+            <style>{`.input-style { display: block; width: 100%; padding: 0.5rem 0.75rem; border: 1px solid #D1D5DB; border-radius: 0.375rem; } .input-style:focus { border-color: #8a5cf6; }`}</style>
+        </div>
+    );
+};
+
+export default Etiquetas;
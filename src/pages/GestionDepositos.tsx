@@ -1,11 +1,116 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import PageHeader from '@/components/PageHeader';
 import Table, { Column } from '@/components/Table';
-import { Deposito } from '@/types';
-import { IconPlus, IconX, IconPencil, IconTrash, IconBuilding } from '@/components/Icons';
-import { fetchDepositos, createDeposito, updateDeposito, deleteDeposito } from '@/services/depositosService';
+import { Deposito, NivelStockDeposito, RolDeposito } from '@/types';
+import { IconPlus, IconX, IconPencil, IconTrash, IconBuilding, IconScale } from '@/components/Icons';
+import {
+    fetchDepositos, createDeposito, updateDeposito, deleteDeposito, fetchNivelesDeposito, saveNivelesDeposito,
+    fetchAlertasNivelesDeposito, ROLES_DEPOSITO, TIENDAS,
+} from '@/services/depositosService';
 import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
 
+const ROL_CLASES: Record<RolDeposito, string> = {
+    'Punto de venta': 'bg-blue-100 text-blue-800',
+    'Almacén': 'bg-gray-100 text-gray-800',
+    'Cuarentena': 'bg-red-100 text-red-800',
+    'Consignación': 'bg-yellow-100 text-yellow-800',
+};
+
+// Mínimo y máximo por producto; por debajo del mínimo conviene reponer hasta el máximo
+const NivelesModal: React.FC<{
+    deposito: Deposito;
+    onClose: () => void;
+    onSuccess: () => void;
+}> = ({ deposito, onClose, onSuccess }) => {
+    const [niveles, setNiveles] = useState<NivelStockDeposito[]>([]);
+    const [filtro, setFiltro] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    useEffect(() => {
+        fetchNivelesDeposito(deposito.id)
+            .then(setNiveles)
+            .catch(setError)
+            .finally(() => setLoading(false));
+    }, [deposito.id]);
+
+    const updateNivel = (productoId: string, cambios: Partial<NivelStockDeposito>) => {
+        setNiveles(prev => prev.map(n => n.id === productoId ? { ...n, ...cambios } : n));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await saveNivelesDeposito(deposito.id, niveles);
+            onSuccess();
+        } catch (err: any) {
+            setError(err);
+            setIsSubmitting(false);
+        }
+    };
+
+    const visibles = niveles.filter(n => n.productoNombre.toLowerCase().includes(filtro.toLowerCase()));
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">Niveles de Stock: <span className="text-primary">{deposito.nombre}</span></h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <input type="text" value={filtro} onChange={e => setFiltro(e.target.value)} placeholder="Buscar producto..." className="input-style" />
+                    {loading ? (
+                        <p className="text-sm text-gray-500">Cargando...</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead className="border-b">
+                                <tr className="text-left text-gray-500 text-xs uppercase">
+                                    <th className="p-2">Producto</th>
+                                    <th className="p-2 text-right">Stock</th>
+                                    <th className="p-2 w-28">Mínimo</th>
+                                    <th className="p-2 w-28">Máximo</th>
+                                    <th className="p-2 text-right">Reponer</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {visibles.map(n => {
+                                    const bajoMinimo = n.stockMinimo > 0 && n.stockActual < n.stockMinimo;
+                                    return (
+                                        <tr key={n.id} className={bajoMinimo ? 'bg-red-50' : ''}>
+                                            <td className="p-2 font-medium text-gray-700">{n.productoNombre}</td>
+                                            <td className={`p-2 text-right ${bajoMinimo ? 'font-bold text-red-600' : ''}`}>{n.stockActual} u.</td>
+                                            <td className="p-2">
+                                                <input type="number" min="0" value={n.stockMinimo} onChange={e => updateNivel(n.id, { stockMinimo: Math.max(0, parseInt(e.target.value, 10) || 0) })} className="w-24 p-1 border rounded" />
+                                            </td>
+                                            <td className="p-2">
+                                                <input type="number" min="0" value={n.stockMaximo ?? ''} placeholder="-" onChange={e => updateNivel(n.id, { stockMaximo: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value, 10) || 0) })} className="w-24 p-1 border rounded" />
+                                            </td>
+                                            <td className="p-2 text-right">
+                                                {bajoMinimo ? `${(n.stockMaximo ?? n.stockMinimo) - n.stockActual} u.` : '-'}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                    <div className="flex justify-end pt-4 border-t mt-6">
+                        <button type="button" onClick={onClose} className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg mr-2 hover:bg-gray-300">Cancelar</button>
+                        <button type="submit" disabled={isSubmitting || loading} className="bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark disabled:bg-violet-300">
+                            {isSubmitting ? 'Guardando...' : 'Guardar Niveles'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
 const GestionDepositos: React.FC = () => {
     const [depositos, setDepositos] = useState<Deposito[]>([]);
     const [loading, setLoading] = useState(true);
@@ -13,13 +118,16 @@ const GestionDepositos: React.FC = () => {
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [currentDeposito, setCurrentDeposito] = useState<Partial<Deposito>>({});
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [depositoNiveles, setDepositoNiveles] = useState<Deposito | null>(null);
+    const [alertas, setAlertas] = useState<Record<string, number>>({});
 
     const loadData = useCallback(async () => {
         setLoading(true);
         setError(null);
         try {
-            const data = await fetchDepositos();
+            const [data, alertasData] = await Promise.all([fetchDepositos(), fetchAlertasNivelesDeposito()]);
             setDepositos(data);
+            setAlertas(alertasData);
         } catch (err: any) {
             setError(err);
         } finally {
@@ -38,7 +146,7 @@ const GestionDepositos: React.FC = () => {
     };
 
     const handleOpenCreate = () => {
-        setCurrentDeposito({ nombre: '', direccion: '', es_predeterminado: false });
+        setCurrentDeposito({ nombre: '', direccion: '', es_predeterminado: false, rol: 'Almacén', vende_online: false, tienda: null });
         setIsModalOpen(true);
     };
 
@@ -58,11 +166,11 @@ const GestionDepositos: React.FC = () => {
         }
     };
 
-    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const { name, value, type, checked } = e.target;
+    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value, type } = e.target;
         setCurrentDeposito(prev => ({
             ...prev,
-            [name]: type === 'checkbox' ? checked : value
+            [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value
         }));
     };
 
@@ -72,6 +180,10 @@ const GestionDepositos: React.FC = () => {
             setError({ message: 'El nombre es requerido.' });
             return;
         }
+        if (currentDeposito.rol === 'Cuarentena' && (currentDeposito.vende_online || currentDeposito.tienda)) {
+            setError({ message: 'Un depósito de cuarentena no puede vender online ni despachar una tienda.' });
+            return;
+        }
         setIsSubmitting(true);
         setError(null);
         try {
@@ -92,6 +204,15 @@ const GestionDepositos: React.FC = () => {
     const columns: Column<Deposito>[] = [
         { header: 'Nombre', accessor: 'nombre', render: item => <span className="font-semibold">{item.nombre}</span> },
         { header: 'Dirección', accessor: 'direccion' },
+        { header: 'Rol', accessor: 'rol', render: item => (
+            <span className={`px-2 py-1 text-xs font-semibold rounded-full ${ROL_CLASES[item.rol]}`}>{item.rol}</span>
+        )},
+        { header: 'Venta Online', accessor: 'vende_online', render: item => (
+            <div className="text-sm">
+                {item.vende_online ? <span className="text-green-700 font-semibold">Sí</span> : <span className="text-gray-500">No</span>}
+                {item.tienda && <p className="text-xs text-gray-500">Despacha {item.tienda}</p>}
+            </div>
+        )},
         { header: 'Predeterminado', accessor: 'es_predeterminado', render: item => (
             item.es_predeterminado 
                 ? <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">Sí</span>
@@ -99,6 +220,12 @@ const GestionDepositos: React.FC = () => {
         )},
         { header: 'Acciones', accessor: 'id', render: item => (
             <div className="flex space-x-3">
+                <button onClick={() => setDepositoNiveles(item)} className="relative text-gray-600 hover:text-gray-800" title="Niveles mínimo/máximo">
+                    <IconScale className="h-5 w-5" />
+                    {alertas[item.id] > 0 && (
+                        <span className="absolute -top-2 -right-2 bg-red-500 text-white text-[10px] font-bold w-4 h-4 flex items-center justify-center rounded-full">{alertas[item.id]}</span>
+                    )}
+                </button>
                 <button onClick={() => handleOpenEdit(item)} className="text-blue-500 hover:text-blue-700" title="Editar"><IconPencil className="h-5 w-5" /></button>
                 <button onClick={() => handleDelete(item.id, item.nombre)} className="text-red-500 hover:text-red-700" title="Eliminar"><IconTrash className="h-5 w-5" /></button>
             </div>
@@ -116,6 +243,14 @@ const GestionDepositos: React.FC = () => {
             <DatabaseErrorDisplay error={error} />
             <Table columns={columns} data={depositos} isLoading={loading} />
 
+            {depositoNiveles && (
+                <NivelesModal
+                    deposito={depositoNiveles}
+                    onClose={() => setDepositoNiveles(null)}
+                    onSuccess={() => { setDepositoNiveles(null); loadData(); }}
+                />
+            )}
+
             {isModalOpen && (
                 <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
                     <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg">
@@ -137,6 +272,24 @@ const GestionDepositos: React.FC = () => {
                                 <input type="checkbox" name="es_predeterminado" id="es_predeterminado" checked={!!currentDeposito.es_predeterminado} onChange={handleInputChange} className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary" />
                                 <label htmlFor="es_predeterminado" className="ml-2 block text-sm text-gray-900">Marcar como depósito predeterminado para producción</label>
                             </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Rol</label>
+                                <select name="rol" value={currentDeposito.rol || 'Almacén'} onChange={handleInputChange} className="mt-1 w-full input-style">
+                                    {ROLES_DEPOSITO.map(r => <option key={r} value={r}>{r}</option>)}
+                                </select>
+                            </div>
+                            <div className="flex items-center">
+                                <input type="checkbox" name="vende_online" id="vende_online" checked={!!currentDeposito.vende_online} onChange={handleInputChange} className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary" />
+                                <label htmlFor="vende_online" className="ml-2 block text-sm text-gray-900">Ofrecer su stock en la tienda online y en las listas de clientes</label>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Despacha los pedidos de la tienda</label>
+                                <select name="tienda" value={currentDeposito.tienda || ''} onChange={handleInputChange} className="mt-1 w-full input-style">
+                                    <option value="">Ninguna en particular</option>
+                                    {TIENDAS.map(t => <option key={t} value={t}>{t}</option>)}
+                                </select>
+                                <p className="text-xs text-gray-500 mt-1">Si una tienda tiene depósito asignado, solo muestra y vende el stock de ese depósito.</p>
+                            </div>
 
                             <div className="flex justify-end pt-4 border-t mt-6">
                                 <button type="button" onClick={resetModal} className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg mr-2 hover:bg-gray-300">Cancelar</button>
@@ -1,11 +1,17 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import PageHeader from '../components/PageHeader';
-import { ListMeta, ProductoConPrecio } from '../types';
-import { fetchListasDePrecios, fetchAllProducts, createListaDePrecios, fetchProductosDeLista, upsertPreciosDeLista } from '../services/preciosService';
+import { ExcepcionMargen, ListMeta, MargenesMinimos, ProductoConPrecio, VersionPrecio } from '../types';
+import { fetchListasDePrecios, fetchAllProducts, createListaDePrecios, fetchProductosDeLista } from '../services/preciosService';
 import DatabaseErrorDisplay from '../components/DatabaseErrorDisplay';
-import { IconDeviceFloppy, IconPlus, IconX } from '../components/Icons';
+import { IconDeviceFloppy, IconPlus, IconX, IconTrendingUp } from '../components/Icons';
 import { useAuth } from '../contexts/AuthContext';
 import { fetchUmbrales, saveUmbrales, Umbrales } from '../services/ajustesService';
+import { aplicarPreciosProgramados, cancelarPrecioProgramado, fetchPreciosProgramados, hoyISO } from '../services/historialPreciosService';
+import { fetchExcepcionesMargen, fetchMargenesMinimos, guardarPreciosLista, saveMargenesMinimos, verificarMargen } from '../services/margenesService';
+import { fetchProductStatistics } from '../services/estadisticasService';
+
+const LINEAS_PRODUCTO = ['ULTRAHISNE', 'BODYTAN CARIBEAN', 'SECRET', 'ESSENS', 'General'];
 
 
 const UmbralesPrecios: React.FC = () => {
@@ -82,6 +88,98 @@ const UmbralesPrecios: React.FC = () => {
 };
 
 
+const MargenesMinimosConfig: React.FC<{ listas: ListMeta[]; margenes: MargenesMinimos; onSaved: (margenes: MargenesMinimos) => void }> = ({ listas, margenes, onSaved }) => {
+    const [valores, setValores] = useState<MargenesMinimos>(margenes);
+    const [excepciones, setExcepciones] = useState<ExcepcionMargen[]>([]);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+    const [success, setSuccess] = useState(false);
+
+    useEffect(() => setValores(margenes), [margenes]);
+
+    useEffect(() => {
+        fetchExcepcionesMargen().then(setExcepciones).catch(setError);
+    }, []);
+
+    const handleChange = (tipo: keyof MargenesMinimos, clave: string, value: string) => {
+        setValores(prev => ({ ...prev, [tipo]: { ...prev[tipo], [clave]: parseFloat(value) || 0 } }));
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        setError(null);
+        setSuccess(false);
+        try {
+            await saveMargenesMinimos(valores);
+            onSaved(valores);
+            setSuccess(true);
+            setTimeout(() => setSuccess(false), 3000);
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="bg-surface p-6 rounded-lg shadow-md mb-8">
+            <h3 className="text-xl font-bold text-on-surface mb-4">Márgenes Mínimos sobre el Costo</h3>
+            <DatabaseErrorDisplay error={error} />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                    <h4 className="text-sm font-semibold text-gray-600 uppercase mb-2">Por línea</h4>
+                    <div className="grid grid-cols-2 gap-3">
+                        {LINEAS_PRODUCTO.map(linea => (
+                            <div key={linea}>
+                                <label className="block text-sm font-medium text-gray-700">{linea} (%)</label>
+                                <input type="number" min="0" value={valores.porLinea[linea] ?? 0} onChange={e => handleChange('porLinea', linea, e.target.value)} className="mt-1 w-full input-style" />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+                <div>
+                    <h4 className="text-sm font-semibold text-gray-600 uppercase mb-2">Por lista</h4>
+                    <div className="grid grid-cols-2 gap-3">
+                        {listas.map(lista => (
+                            <div key={lista.id}>
+                                <label className="block text-sm font-medium text-gray-700">{lista.nombre} (%)</label>
+                                <input type="number" min="0" value={valores.porLista[lista.id] ?? 0} onChange={e => handleChange('porLista', lista.id, e.target.value)} className="mt-1 w-full input-style" />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+            <div className="flex items-center justify-between mt-4">
+                <p className="text-xs text-gray-500">
+                    Recargo mínimo sobre el costo unitario (insumos + laboratorio del último lote). Rige el mayor entre el de la línea y el de la lista; sin configurar, el piso es el costo. Solo un superadmin puede guardar precios por debajo, indicando el motivo.
+                </p>
+                <button onClick={handleSave} disabled={saving} className="ml-4 flex-shrink-0 flex items-center bg-green-500 text-white px-4 py-2 rounded-lg shadow hover:bg-green-600 transition-colors disabled:bg-gray-400">
+                    <IconDeviceFloppy className="h-5 w-5 mr-2" />
+                    {saving ? 'Guardando...' : 'Guardar Márgenes'}
+                </button>
+            </div>
+            {success && <p className="text-green-600 text-sm mt-2">Márgenes guardados con éxito.</p>}
+            {excepciones.length > 0 && (
+                <div className="mt-6">
+                    <h4 className="text-sm font-semibold text-gray-600 uppercase mb-2">Últimas excepciones autorizadas</h4>
+                    <div className="max-h-48 overflow-y-auto text-sm divide-y">
+                        {excepciones.map(e => (
+                            <div key={e.id} className="py-2 flex justify-between gap-4">
+                                <span>
+                                    <span className="font-semibold">{e.productoNombre}</span> · {e.listaNombre || e.nivel}: ${e.precio.toLocaleString('es-AR')} (mín. ${e.precioMinimo.toLocaleString('es-AR')})
+                                    <span className="block text-xs text-gray-500">{e.motivo}</span>
+                                </span>
+                                <span className="text-xs text-gray-400 whitespace-nowrap">{new Date(e.createdAt).toLocaleDateString('es-AR')}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+
 const GestionListasPrecios: React.FC = () => {
     const { profile } = useAuth();
     const [listas, setListas] = useState<ListMeta[]>([]);
@@ -95,6 +193,10 @@ const GestionListasPrecios: React.FC = () => {
     
     const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
     const [newListName, setNewListName] = useState('');
+    const [vigenteDesde, setVigenteDesde] = useState(hoyISO());
+    const [programados, setProgramados] = useState<VersionPrecio[]>([]);
+    const [margenes, setMargenes] = useState<MargenesMinimos>({ porLinea: {}, porLista: {} });
+    const [costos, setCostos] = useState<Map<string, number>>(new Map());
 
     const isSuperAdmin = profile?.roles?.includes('superadmin');
 
@@ -107,8 +209,16 @@ const GestionListasPrecios: React.FC = () => {
         setLoading(true);
         setError(null);
         try {
-            const listasData = await fetchListasDePrecios();
+            // Respaldo de pg_cron: si hay cambios programados que ya vencieron, se aplican antes de mostrar precios
+            await aplicarPreciosProgramados();
+            const [listasData, margenesData, estadisticas] = await Promise.all([
+                fetchListasDePrecios(),
+                fetchMargenesMinimos(),
+                fetchProductStatistics(),
+            ]);
             setListas(listasData);
+            setMargenes(margenesData);
+            setCostos(new Map(estadisticas.map(e => [e.id, e.costoTotalUnitario])));
             if (listasData.length > 0 && !selectedListaId) {
                 setSelectedListaId(listasData[0].id);
             } else if (listasData.length === 0) {
@@ -136,10 +246,12 @@ const GestionListasPrecios: React.FC = () => {
             setLoading(true);
             setError(null);
             try {
-                const [allProducts, preciosLista] = await Promise.all([
+                const [allProducts, preciosLista, programadosLista] = await Promise.all([
                     fetchAllProducts(),
-                    fetchProductosDeLista(selectedListaId)
+                    fetchProductosDeLista(selectedListaId),
+                    fetchPreciosProgramados(selectedListaId)
                 ]);
+                setProgramados(programadosLista);
 
                 const preciosMap = new Map<string, number>();
                 preciosLista.forEach(item => {
@@ -181,19 +293,45 @@ const GestionListasPrecios: React.FC = () => {
         }
     };
     
+    const violacionDe = (p: ProductoConPrecio) => verificarMargen(
+        margenes,
+        { linea: p.linea, costoUnitario: costos.get(p.id) || 0 },
+        selectedListaId,
+        [{ nivel: 'Lista', precio: p.precioAsignado }]
+    )[0];
+
     const handleSaveChanges = async () => {
         if (!hasChanges) return;
+        const cambiados = productosConPrecios.filter(p => originalPrecios[p.id] !== p.precioAsignado);
+
+        // Precios bajo el margen mínimo: sólo un superadmin puede guardarlos, indicando el motivo
+        const bajoMinimo = cambiados.filter(p => violacionDe(p));
+        let motivoExcepcion: string | null = null;
+        if (bajoMinimo.length > 0) {
+            const detalle = bajoMinimo.map(p => `${p.nombre} $${formatPrice(p.precioAsignado)} (mín. $${formatPrice(violacionDe(p)!.minimo)})`).join(', ');
+            if (!isSuperAdmin) {
+                setError({ message: `Precios por debajo del margen mínimo: ${detalle}. Solo un superadmin puede autorizarlos.` });
+                return;
+            }
+            motivoExcepcion = window.prompt(`Precios por debajo del margen mínimo: ${detalle}. Indica el motivo de la excepción:`);
+            if (!motivoExcepcion?.trim()) return;
+        }
+
         setIsSaving(true);
         setError(null);
         try {
-            const preciosToUpsert = productosConPrecios
-                .filter(p => originalPrecios[p.id] !== p.precioAsignado)
-                .map(p => ({
-                    productoId: p.id,
-                    precio: p.precioAsignado,
-                }));
+            const preciosToUpsert = cambiados.map(p => ({
+                productoId: p.id,
+                precio: p.precioAsignado,
+            }));
 
-            await upsertPreciosDeLista(selectedListaId, preciosToUpsert);
+            await guardarPreciosLista(selectedListaId, preciosToUpsert, vigenteDesde, motivoExcepcion);
+            if (vigenteDesde > hoyISO()) {
+                // Cambio a futuro: queda programado y la lista sigue mostrando los precios vigentes
+                setProductosConPrecios(prev => prev.map(p => ({ ...p, precioAsignado: originalPrecios[p.id] ?? p.precioAsignado })));
+                setProgramados(await fetchPreciosProgramados(selectedListaId));
+                return;
+            }
             
             const original = productosConPrecios.reduce((acc, p) => {
                 acc[p.id] = p.precioAsignado;
@@ -207,6 +345,22 @@ const GestionListasPrecios: React.FC = () => {
         }
     };
     
+    const handleCancelProgramado = async (versionId: string) => {
+        setError(null);
+        try {
+            await cancelarPrecioProgramado(versionId);
+            setProgramados(prev => prev.filter(v => v.id !== versionId));
+        } catch (err: any) {
+            setError(err);
+        }
+    };
+
+    const programadosPorProducto = useMemo(() => {
+        const map = new Map<string, VersionPrecio[]>();
+        programados.forEach(v => map.set(v.productoId, [...(map.get(v.productoId) || []), v]));
+        return map;
+    }, [programados]);
+
     const handleCreateList = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!newListName.trim()) return;
@@ -226,13 +380,20 @@ const GestionListasPrecios: React.FC = () => {
     };
 
     const formatPrice = (price: number) => price.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    const formatFecha = (fecha: string) => new Date(`${fecha}T00:00:00`).toLocaleDateString('es-AR');
 
     return (
         <div>
-            <PageHeader title="Gestión de Listas de Precios" />
+            <PageHeader title="Gestión de Listas de Precios">
+                <Link to="/remarcacion-precios" className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark transition-colors">
+                    <IconTrendingUp className="h-5 w-5 mr-2" />
+                    Remarcación Masiva
+                </Link>
+            </PageHeader>
             <DatabaseErrorDisplay error={error} />
 
             {isSuperAdmin && <UmbralesPrecios />}
+            {isSuperAdmin && <MargenesMinimosConfig listas={listas} margenes={margenes} onSaved={setMargenes} />}
             
             <div className="bg-surface p-4 rounded-lg shadow-md mb-6 flex flex-col sm:flex-row items-center justify-between gap-4">
                 <div className="flex items-center gap-2">
@@ -248,16 +409,30 @@ const GestionListasPrecios: React.FC = () => {
                     </select>
                 </div>
                 <div className="flex items-center gap-2">
+                    <label htmlFor="vigente-desde" className="text-sm font-semibold text-gray-700">Vigente desde:</label>
+                    <input
+                        type="date"
+                        id="vigente-desde"
+                        value={vigenteDesde}
+                        min={hoyISO()}
+                        onChange={(e) => setVigenteDesde(e.target.value || hoyISO())}
+                        className="p-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
+                    />
                     <button onClick={() => setIsCreateModalOpen(true)} className="flex items-center bg-blue-500 text-white px-4 py-2 rounded-lg shadow hover:bg-blue-600 transition-colors">
                         <IconPlus className="h-5 w-5 mr-2" />
                         Crear Lista
                     </button>
                     <button onClick={handleSaveChanges} disabled={!hasChanges || isSaving} className="flex items-center bg-green-500 text-white px-4 py-2 rounded-lg shadow hover:bg-green-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
                         <IconDeviceFloppy className="h-5 w-5 mr-2" />
-                        {isSaving ? 'Guardando...' : 'Guardar Cambios'}
+                        {isSaving ? 'Guardando...' : vigenteDesde > hoyISO() ? 'Programar Cambios' : 'Guardar Cambios'}
                     </button>
                 </div>
             </div>
+            {vigenteDesde > hoyISO() && (
+                <p className="text-sm text-blue-700 bg-blue-50 p-3 rounded-md mb-6">
+                    Los precios modificados se aplicarán automáticamente el {formatFecha(vigenteDesde)}. Hasta entonces la lista conserva los precios actuales.
+                </p>
+            )}
 
             <div className="bg-surface rounded-lg shadow overflow-x-auto">
                 <table className="min-w-full divide-y divide-gray-200">
@@ -272,26 +447,40 @@ const GestionListasPrecios: React.FC = () => {
                     <tbody className="bg-white divide-y divide-gray-200">
                         {loading ? (
                             <tr><td colSpan={4} className="p-8 text-center text-gray-500">Cargando productos...</td></tr>
-                        ) : productosConPrecios.map(p => (
-                            <tr key={p.id} className="hover:bg-gray-50">
-                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{p.nombre}</td>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{p.linea || 'N/A'}</td>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">${formatPrice(p.precioPublico)}</td>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm">
-                                    <div className="relative">
-                                        <span className="absolute left-3 inset-y-0 flex items-center text-gray-500">$</span>
-                                        <input
-                                            type="number"
-                                            value={p.precioAsignado}
-                                            onChange={(e) => handlePriceChange(p.id, e.target.value)}
-                                            className="w-full pl-7 pr-2 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
-                                            min="0"
-                                            step="0.01"
-                                        />
-                                    </div>
-                                </td>
-                            </tr>
-                        ))}
+                        ) : productosConPrecios.map(p => {
+                            const violacion = violacionDe(p);
+                            return (
+                                <tr key={p.id} className="hover:bg-gray-50">
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{p.nombre}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{p.linea || 'N/A'}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">${formatPrice(p.precioPublico)}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                        <div className="relative">
+                                            <span className="absolute left-3 inset-y-0 flex items-center text-gray-500">$</span>
+                                            <input
+                                                type="number"
+                                                value={p.precioAsignado}
+                                                onChange={(e) => handlePriceChange(p.id, e.target.value)}
+                                                className={`w-full pl-7 pr-2 py-2 border rounded-md shadow-sm focus:ring-primary focus:border-primary ${violacion ? 'border-red-500 bg-red-50' : 'border-gray-300'}`}
+                                                min="0"
+                                                step="0.01"
+                                            />
+                                        </div>
+                                        {violacion && (
+                                            <p className="text-xs text-red-600 mt-1" title={`Margen mínimo ${violacion.margen}% sobre el costo de $${formatPrice(violacion.costoUnitario)}`}>
+                                                Bajo el mínimo de ${formatPrice(violacion.minimo)}
+                                            </p>
+                                        )}
+                                        {(programadosPorProducto.get(p.id) || []).map(v => (
+                                            <div key={v.id} className="mt-1 flex items-center justify-between text-xs bg-blue-50 text-blue-800 px-2 py-1 rounded">
+                                                <span>${formatPrice(v.precio || 0)} desde {formatFecha(v.vigenteDesde)}</span>
+                                                <button onClick={() => handleCancelProgramado(v.id)} title="Cancelar cambio programado" className="text-blue-400 hover:text-red-600"><IconX className="w-3 h-3" /></button>
+                                            </div>
+                                        ))}
+                                    </td>
+                                </tr>
+                            );
+                        })}
                     </tbody>
                 </table>
             </div>
@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import PageHeader from '@/components/PageHeader';
+import { IconX, IconAlertTriangle, IconCheck } from '@/components/Icons';
+import { ConciliacionLote, Insumo, KardexLinea, MovimientoStock, SimpleProducto } from '@/types';
+import Table, { Column } from '@/components/Table';
+import { useAuth } from '@/contexts/AuthContext';
+import { ArticuloKardex, fetchKardex, calcularSaldos, fetchConciliacionLotes, reconstruirStockLote } from '@/services/kardexService';
+import { fetchSimpleProductos } from '@/services/productosService';
+import { fetchInsumos } from '@/services/insumosService';
+import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
+
+const formatCantidad = (n: number) => n.toLocaleString('es-AR', { maximumFractionDigits: 2 });
+
+// --- Reconstruir Modal Component ---
+interface ReconstruirModalProps {
+    articulo: ArticuloKardex;
+    lote: ConciliacionLote;
+    onClose: () => void;
+    onSuccess: () => void;
+}
+
+const ReconstruirModal: React.FC<ReconstruirModalProps> = ({ articulo, lote, onClose, onSuccess }) => {
+    const [motivo, setMotivo] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!motivo.trim()) {
+            setError({ message: 'Indica el motivo de la reconstrucción.' });
+            return;
+        }
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await reconstruirStockLote(articulo, lote.id, motivo.trim());
+            onSuccess();
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-md">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">Reconstruir Stock</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <p className="text-sm text-gray-600">
+                        El lote <span className="font-mono">{lote.numeroLote}</span> tiene {formatCantidad(lote.stockActual)} u. en stock, pero sus movimientos suman {formatCantidad(lote.saldoKardex)} u.
+                        Al reconstruir, el stock pasa a {formatCantidad(lote.saldoKardex)} u. y queda registrado en el kardex.
+                    </p>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Motivo</label>
+                        <input type="text" value={motivo} onChange={e => setMotivo(e.target.value)} placeholder="Ej: carga manual sin registrar" className="w-full input-style" />
+                    </div>
+                    <div className="flex justify-end space-x-3 pt-2">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300">Cancelar</button>
+                        <button type="submit" disabled={isSubmitting} className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary-dark disabled:bg-violet-300">
+                            {isSubmitting ? 'Reconstruyendo...' : 'Reconstruir'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+// --- Main Page Component ---
+const Kardex: React.FC = () => {
+    const { profile } = useAuth();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [productos, setProductos] = useState<SimpleProducto[]>([]);
+    const [insumos, setInsumos] = useState<Insumo[]>([]);
+    const [movimientos, setMovimientos] = useState<MovimientoStock[]>([]);
+    const [conciliacion, setConciliacion] = useState<ConciliacionLote[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+    const [loteReconstruir, setLoteReconstruir] = useState<ConciliacionLote | null>(null);
+
+    const canManage = profile?.roles?.some(role => ['superadmin', 'administrativo'].includes(role));
+
+    const insumoId = searchParams.get('insumo');
+    const productoId = searchParams.get('producto');
+    const loteId = searchParams.get('lote') || '';
+    const articulo = useMemo<ArticuloKardex | null>(() => (
+        insumoId ? { tipo: 'insumo', id: insumoId } : productoId ? { tipo: 'producto', id: productoId } : null
+    ), [insumoId, productoId]);
+
+    useEffect(() => {
+        Promise.all([fetchSimpleProductos(), fetchInsumos()])
+            .then(([productosData, insumosData]) => {
+                setProductos(productosData);
+                setInsumos(insumosData);
+            })
+            .catch(err => setError(err));
+    }, []);
+
+    const loadData = useCallback(async () => {
+        if (!articulo) {
+            setMovimientos([]);
+            setConciliacion([]);
+            return;
+        }
+        setLoading(true);
+        setError(null);
+        try {
+            const movimientosData = await fetchKardex(articulo);
+            setMovimientos(movimientosData);
+            setConciliacion(await fetchConciliacionLotes(articulo, movimientosData));
+        } catch (err: any) {
+            console.error(`[KardexPage] Error fetching data:`, err);
+            setError(err);
+        } finally {
+            setLoading(false);
+        }
+    }, [articulo]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const seleccionar = (tipo: ArticuloKardex['tipo'], id: string) => {
+        setSearchParams(id ? { [tipo]: id } : {});
+    };
+
+    const seleccionarLote = (id: string) => {
+        if (!articulo) return;
+        setSearchParams(id ? { [articulo.tipo]: articulo.id, lote: id } : { [articulo.tipo]: articulo.id });
+    };
+
+    // Con un lote elegido el saldo es el del lote; si no, el del producto/insumo en todos sus lotes
+    const lineas = useMemo(() => {
+        const delLote = loteId
+            ? movimientos.filter(m => (articulo?.tipo === 'producto' ? m.loteId : m.loteInsumoId) === loteId)
+            : movimientos;
+        return calcularSaldos(delLote).reverse();
+    }, [movimientos, loteId, articulo]);
+
+    const conciliacionVisible = loteId ? conciliacion.filter(l => l.id === loteId) : conciliacion;
+    const desfasados = conciliacionVisible.filter(l => l.diferencia !== 0);
+    const totalEntradas = lineas.reduce((sum, l) => sum + l.entrada, 0);
+    const totalSalidas = lineas.reduce((sum, l) => sum + l.salida, 0);
+    const saldoKardex = lineas.length > 0 ? lineas[0].saldo : 0;
+    const stockActual = conciliacionVisible.reduce((sum, l) => sum + l.stockActual, 0);
+    const unidad = articulo?.tipo === 'insumo' ? insumos.find(i => i.id === articulo.id)?.unidad || '' : 'u.';
+
+    const columns: Column<KardexLinea>[] = [
+        { header: 'Fecha', accessor: 'fecha', render: item => new Date(item.fecha).toLocaleString('es-AR') },
+        { header: 'Tipo', accessor: 'tipo', render: item => (
+            <div>
+                <p className="font-semibold">{item.tipo}</p>
+                {item.referencia && <p className="text-xs text-gray-500">{item.referencia}</p>}
+            </div>
+        )},
+        { header: 'Lote', accessor: 'numeroLote', render: item => (
+            <div>
+                <p className="font-mono">{item.numeroLote || '-'}</p>
+                {articulo?.tipo === 'producto' && <p className="text-xs text-gray-500">{item.depositoNombre}</p>}
+            </div>
+        )},
+        { header: 'Entrada', accessor: 'entrada', render: item => item.entrada ? <span className="text-green-700">{formatCantidad(item.entrada)}</span> : '' },
+        { header: 'Salida', accessor: 'salida', render: item => item.salida ? <span className="text-red-700">{formatCantidad(item.salida)}</span> : '' },
+        { header: 'Saldo', accessor: 'saldo', render: item => <span className="font-semibold">{formatCantidad(item.saldo)}</span> },
+        { header: 'Lote Antes → Después', accessor: 'cantidadNueva', render: item => (
+            item.cantidadAnterior === null ? '-' : <span className="text-xs text-gray-600">{formatCantidad(item.cantidadAnterior)} → {formatCantidad(item.cantidadNueva ?? 0)}</span>
+        )},
+        { header: 'Usuario / Motivo', accessor: 'usuarioEmail', render: item => (
+            <div className="text-xs">
+                <p>{item.usuarioEmail || 'Sistema'}</p>
+                {item.motivo && <p className="text-gray-500">{item.motivo}</p>}
+            </div>
+        )},
+    ];
+
+    const conciliacionColumns: Column<ConciliacionLote>[] = [
+        { header: 'Lote', accessor: 'numeroLote', render: item => (
+            <div>
+                <p className="font-mono">{item.numeroLote}</p>
+                {articulo?.tipo === 'producto' && <p className="text-xs text-gray-500">{item.depositoNombre}</p>}
+            </div>
+        )},
+        { header: 'Stock Actual', accessor: 'stockActual', render: item => formatCantidad(item.stockActual) },
+        { header: 'Saldo Kardex', accessor: 'saldoKardex', render: item => formatCantidad(item.saldoKardex) },
+        { header: 'Diferencia', accessor: 'diferencia', render: item => item.diferencia === 0
+            ? <span className="inline-flex items-center text-green-700"><IconCheck className="w-4 h-4 mr-1" />Cuadra</span>
+            : <span className="font-semibold text-red-600">{item.diferencia > 0 ? '+' : ''}{formatCantidad(item.diferencia)}</span>
+        },
+        { header: 'Acciones', accessor: 'id', render: item => (
+            canManage && item.diferencia !== 0 ? (
+                <button onClick={() => setLoteReconstruir(item)} className="text-sm text-primary hover:underline">Reconstruir desde el kardex</button>
+            ) : null
+        )},
+    ];
+
+    return (
+        <div>
+            <PageHeader title="Kardex">
+                <select value={productoId || ''} onChange={e => seleccionar('producto', e.target.value)} className="input-style bg-white">
+                    <option value="">Producto...</option>
+                    {productos.map(p => <option key={p.id} value={p.id}>{p.nombre}</option>)}
+                </select>
+                <select value={insumoId || ''} onChange={e => seleccionar('insumo', e.target.value)} className="input-style bg-white">
+                    <option value="">Insumo...</option>
+                    {insumos.map(i => <option key={i.id} value={i.id}>{i.nombre}</option>)}
+                </select>
+                {articulo && (
+                    <select value={loteId} onChange={e => seleccionarLote(e.target.value)} className="input-style bg-white">
+                        <option value="">Todos los lotes</option>
+                        {conciliacion.map(l => (
+                            <option key={l.id} value={l.id}>{l.numeroLote}{articulo.tipo === 'producto' ? ` (${l.depositoNombre})` : ''}</option>
+                        ))}
+                    </select>
+                )}
+            </PageHeader>
+            <DatabaseErrorDisplay error={error} />
+
+            {!articulo ? (
+                <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+                    Elige un producto o un insumo para ver sus movimientos de stock con el saldo acumulado.
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                        <div className="bg-white rounded-lg shadow p-4">
+                            <p className="text-xs text-gray-500">Entradas</p>
+                            <p className="text-2xl font-bold text-green-700">{formatCantidad(totalEntradas)} {unidad}</p>
+                        </div>
+                        <div className="bg-white rounded-lg shadow p-4">
+                            <p className="text-xs text-gray-500">Salidas</p>
+                            <p className="text-2xl font-bold text-red-700">{formatCantidad(totalSalidas)} {unidad}</p>
+                        </div>
+                        <div className="bg-white rounded-lg shadow p-4">
+                            <p className="text-xs text-gray-500">Saldo según Kardex</p>
+                            <p className="text-2xl font-bold">{formatCantidad(saldoKardex)} {unidad}</p>
+                        </div>
+                        <div className="bg-white rounded-lg shadow p-4">
+                            <p className="text-xs text-gray-500">Stock Actual</p>
+                            <p className={`text-2xl font-bold ${stockActual !== saldoKardex ? 'text-red-600' : ''}`}>{formatCantidad(stockActual)} {unidad}</p>
+                        </div>
+                    </div>
+
+                    {!loading && desfasados.length > 0 && (
+                        <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-6 flex items-start">
+                            <IconAlertTriangle className="w-5 h-5 text-yellow-600 mr-3 mt-0.5" />
+                            <p className="text-sm text-yellow-800">
+                                {desfasados.length} lote(s) tienen un stock distinto al que surge de sus movimientos. Revisa el historial antes de reconstruirlos.
+                            </p>
+                        </div>
+                    )}
+
+                    <h3 className="text-lg font-semibold text-gray-800 mb-3">Conciliación por Lote</h3>
+                    <div className="mb-6">
+                        <Table columns={conciliacionColumns} data={conciliacionVisible} isLoading={loading} />
+                    </div>
+
+                    <h3 className="text-lg font-semibold text-gray-800 mb-3">Movimientos</h3>
+                    <Table columns={columns} data={lineas} isLoading={loading} />
+                </>
+            )}
+
+            {loteReconstruir && articulo && (
+                <ReconstruirModal
+                    articulo={articulo}
+                    lote={loteReconstruir}
+                    onClose={() => setLoteReconstruir(null)}
+                    onSuccess={() => { setLoteReconstruir(null); loadData(); }}
+                />
+            )}
+            <style>{`.input-style { display: block; width: 100%; padding: 0.5rem 0.75rem; border: 1px solid #D1D5DB; border-radius: 0.375rem; } .input-style:focus { border-color: #8a5cf6; }`}</style>
+        </div>
+    );
+};
+
+export default Kardex;
@@ -0,0 +1,293 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import PageHeader from '@/components/PageHeader';
+import Table, { Column } from '@/components/Table';
+import { NecesidadInsumo, OrdenProduccion, SimpleProducto } from '@/types';
+import { IconPlus, IconX, IconCheck, IconTrash } from '@/components/Icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchSimpleProductos } from '@/services/productosService';
+import {
+    fetchOrdenesProduccion, calcularNecesidadInsumos, crearOrdenProduccion,
+    completarOrdenProduccion, cancelarOrdenProduccion, NuevaOrdenProduccion,
+} from '@/services/produccionService';
+import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
+
+const ESTADO_CLASES: Record<OrdenProduccion['estado'], string> = {
+    'Planificada': 'bg-blue-100 text-blue-800',
+    'Completada': 'bg-green-100 text-green-800',
+    'Cancelada': 'bg-gray-100 text-gray-800',
+};
+
+const formatPrecio = (n: number) => `$${n.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const OrdenProduccionModal: React.FC<{
+    productos: SimpleProducto[];
+    inicial?: { productoId: string; cantidad: number } | null;
+    onClose: () => void;
+    onSuccess: () => void;
+}> = ({ productos, inicial, onClose, onSuccess }) => {
+    const [form, setForm] = useState<NuevaOrdenProduccion>({
+        productoId: inicial?.productoId || productos[0]?.id || '',
+        cantidad: inicial?.cantidad || 0,
+        numeroLote: '',
+        fechaVencimiento: '',
+        costoLaboratorio: 0,
+        notas: '',
+    });
+    const [necesidades, setNecesidades] = useState<NecesidadInsumo[]>([]);
+    const [loadingNecesidades, setLoadingNecesidades] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    useEffect(() => {
+        if (!form.productoId) return;
+        let cancelado = false;
+        setLoadingNecesidades(true);
+        calcularNecesidadInsumos(form.productoId, form.cantidad)
+            .then(data => { if (!cancelado) setNecesidades(data); })
+            .catch(err => { if (!cancelado) setError(err); })
+            .finally(() => { if (!cancelado) setLoadingNecesidades(false); });
+        return () => { cancelado = true; };
+    }, [form.productoId, form.cantidad]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value, type } = e.target;
+        setForm(prev => ({ ...prev, [name]: type === 'number' ? parseFloat(value) || 0 : value }));
+    };
+
+    const faltantes = necesidades.filter(n => n.requerido > n.disponible);
+    const costoInsumosUnitario = necesidades.reduce((sum, n) => sum + n.cantidadPorUnidad * n.costoUnitario, 0);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form.productoId || form.cantidad <= 0 || !form.numeroLote) {
+            setError({ message: 'Producto, cantidad y número de lote son requeridos.' });
+            return;
+        }
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await crearOrdenProduccion(form);
+            onSuccess();
+        } catch (err: any) {
+            setError(err);
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">Nueva Orden de Producción</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700">Producto Terminado</label>
+                        <select name="productoId" value={form.productoId} onChange={handleChange} required className="mt-1 input-style">
+                            {productos.map(p => <option key={p.id} value={p.id}>{p.nombre}</option>)}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Cantidad a Producir</label>
+                            <input type="number" name="cantidad" min="1" step="1" value={form.cantidad} onChange={handleChange} required className="mt-1 input-style" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Número de Lote</label>
+                            <input type="text" name="numeroLote" value={form.numeroLote} onChange={handleChange} required className="mt-1 input-style" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Fecha de Vencimiento</label>
+                            <input type="date" name="fechaVencimiento" value={form.fechaVencimiento} onChange={handleChange} className="mt-1 input-style" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Costo Lab. (por Unidad)</label>
+                            <input type="number" name="costoLaboratorio" min="0" step="0.01" value={form.costoLaboratorio} onChange={handleChange} className="mt-1 input-style" />
+                        </div>
+                    </div>
+
+                    <div className="border rounded-lg overflow-hidden">
+                        <p className="bg-gray-50 px-3 py-2 text-sm font-semibold text-gray-700">Insumos según fórmula</p>
+                        {loadingNecesidades ? (
+                            <p className="p-3 text-sm text-gray-500">Calculando...</p>
+                        ) : necesidades.length === 0 ? (
+                            <p className="p-3 text-sm text-red-600">El producto no tiene insumos cargados. Edítalo en Stock Insumos para asociarlos.</p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead className="border-b">
+                                    <tr className="text-left text-gray-500 text-xs uppercase">
+                                        <th className="p-2">Insumo</th>
+                                        <th className="p-2 text-right">Requerido</th>
+                                        <th className="p-2 text-right">Disponible</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {necesidades.map(n => (
+                                        <tr key={n.insumoId} className={n.requerido > n.disponible ? 'bg-red-50' : ''}>
+                                            <td className="p-2">{n.insumoNombre}</td>
+                                            <td className="p-2 text-right">{n.requerido} {n.unidad}</td>
+                                            <td className={`p-2 text-right ${n.requerido > n.disponible ? 'text-red-600 font-semibold' : ''}`}>
+                                                {n.disponible} {n.unidad}
+                                                {n.reservado > 0 && <span className="block text-[10px] text-gray-400">({n.reservado} reservado en otras órdenes)</span>}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                        <p className="bg-gray-50 px-3 py-2 text-xs text-gray-600 border-t">
+                            Costo estimado por unidad: insumos {formatPrecio(costoInsumosUnitario)} + laboratorio {formatPrecio(form.costoLaboratorio)} = <strong>{formatPrecio(costoInsumosUnitario + form.costoLaboratorio)}</strong>
+                        </p>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700">Notas</label>
+                        <input type="text" name="notas" value={form.notas} onChange={handleChange} className="mt-1 input-style" />
+                    </div>
+
+                    <div className="flex justify-end pt-4 border-t mt-6">
+                        <button type="button" onClick={onClose} className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg mr-2 hover:bg-gray-300">Cancelar</button>
+                        <button type="submit" disabled={isSubmitting || faltantes.length > 0 || necesidades.length === 0} className="bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark disabled:bg-violet-300 disabled:cursor-not-allowed">
+                            {isSubmitting ? 'Guardando...' : 'Crear y Reservar Insumos'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const Produccion: React.FC = () => {
+    const { profile } = useAuth();
+    const [ordenes, setOrdenes] = useState<OrdenProduccion[]>([]);
+    const [productos, setProductos] = useState<SimpleProducto[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<any | null>(null);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [ordenSugerida, setOrdenSugerida] = useState<{ productoId: string; cantidad: number } | null>(null);
+
+    const canManage = profile?.roles?.some(role => ['superadmin', 'administrativo'].includes(role));
+
+    const loadData = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const [ordenesData, productosData] = await Promise.all([fetchOrdenesProduccion(), fetchSimpleProductos()]);
+            setOrdenes(ordenesData);
+            setProductos(productosData);
+        } catch (err: any) {
+            console.error(`[ProduccionPage] Error fetching data:`, err);
+            setError(err);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    // La hoja de reposición abre la orden sugerida con ?producto=&cantidad=
+    useEffect(() => {
+        const productoId = searchParams.get('producto');
+        if (!productoId) return;
+        setOrdenSugerida({ productoId, cantidad: parseInt(searchParams.get('cantidad') || '', 10) || 0 });
+        setIsModalOpen(true);
+        setSearchParams({}, { replace: true });
+    }, [searchParams, setSearchParams]);
+
+    const handleCompletar = async (orden: OrdenProduccion) => {
+        if (!window.confirm(`¿Completar la orden #${orden.numero}? Se descontarán los insumos y se creará el lote ${orden.numeroLote} con ${orden.cantidad} u.`)) return;
+        setError(null);
+        try {
+            await completarOrdenProduccion(orden.id);
+            loadData();
+        } catch (err: any) {
+            setError(err);
+        }
+    };
+
+    const handleCancelar = async (orden: OrdenProduccion) => {
+        if (!window.confirm(`¿Cancelar la orden #${orden.numero}? Se liberarán los insumos reservados.`)) return;
+        setError(null);
+        try {
+            await cancelarOrdenProduccion(orden.id);
+            loadData();
+        } catch (err: any) {
+            setError(err);
+        }
+    };
+
+    const columns: Column<OrdenProduccion>[] = [
+        { header: 'Orden', accessor: 'numero', render: item => (
+            <div>
+                <span className="font-semibold">#{item.numero}</span>
+                <p className="text-xs text-gray-500">{new Date(item.fecha).toLocaleDateString('es-AR')}</p>
+            </div>
+        )},
+        { header: 'Producto', accessor: 'productoNombre', render: item => (
+            <div>
+                <p className="font-semibold">{item.productoNombre}</p>
+                <p className="text-xs text-gray-500">{item.cantidad} u. · Lote <span className="font-mono">{item.numeroLote}</span></p>
+            </div>
+        )},
+        { header: 'Insumos', accessor: 'insumos', render: item => (
+            <div className="text-xs text-gray-600">
+                {item.insumos.map(i => (
+                    <p key={i.insumoId}>
+                        {i.insumoNombre}: {i.cantidad} {i.unidad}
+                        {i.loteInsumo && <span className="text-gray-400"> (lote {i.loteInsumo})</span>}
+                    </p>
+                ))}
+            </div>
+        )},
+        { header: 'Costo Unit.', accessor: 'costoInsumos', render: item => item.costoInsumos === null ? (
+            <span className="text-xs text-gray-400">Lab. {formatPrecio(item.costoLaboratorio)}</span>
+        ) : (
+            <div className="text-sm">
+                <p className="font-semibold">{formatPrecio(item.costoInsumos + item.costoLaboratorio)}</p>
+                <p className="text-xs text-gray-500">Insumos {formatPrecio(item.costoInsumos)} + Lab. {formatPrecio(item.costoLaboratorio)}</p>
+            </div>
+        )},
+        { header: 'Estado', accessor: 'estado', render: item => (
+            <span className={`px-2 py-1 text-xs font-semibold rounded-full ${ESTADO_CLASES[item.estado]}`}>{item.estado}</span>
+        )},
+        { header: 'Acciones', accessor: 'id', render: item => canManage && item.estado === 'Planificada' && (
+            <div className="flex space-x-3">
+                <button onClick={() => handleCompletar(item)} className="text-green-500 hover:text-green-700" title="Completar Producción"><IconCheck className="h-5 w-5" /></button>
+                <button onClick={() => handleCancelar(item)} className="text-red-500 hover:text-red-700" title="Cancelar Orden"><IconTrash className="h-5 w-5" /></button>
+            </div>
+        )},
+    ];
+
+    return (
+        <div>
+            <PageHeader title="Órdenes de Producción">
+                {canManage && (
+                    <button onClick={() => { setOrdenSugerida(null); setIsModalOpen(true); }} className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark transition-colors">
+                        <IconPlus className="h-5 w-5 mr-2" />
+                        Nueva Orden
+                    </button>
+                )}
+            </PageHeader>
+            <DatabaseErrorDisplay error={error} />
+            <Table columns={columns} data={ordenes} isLoading={loading} />
+
+            {isModalOpen && (
+                <OrdenProduccionModal
+                    productos={productos}
+                    inicial={ordenSugerida}
+                    onClose={() => setIsModalOpen(false)}
+                    onSuccess={() => { setIsModalOpen(false); loadData(); }}
+                />
+            )}
+            <style>{`.input-style { display: block; width: 100%; padding: 0.5rem 0.75rem; border: 1px solid #D1D5DB; border-radius: 0.375rem; } .input-style:focus { border-color: #8a5cf6; }`}</style>
+        </div>
+    );
+};
+
+export default Produccion;
@@ -2,12 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import PageHeader from '../components/PageHeader';
 import { fetchProductoDashboardData } from '../services/productoDashboardService';
-import type { DashboardData } from '../types';
+import { fetchHistorialPrecios } from '../services/historialPreciosService';
+import type { DashboardData, VersionPrecio } from '../types';
 import { IconArrowLeft, IconCashBanknote, IconPackage, IconClock, IconScale } from '../components/Icons';
 import BarChart from '../components/BarChart';
+import LineChart from '../components/LineChart';
 import DatabaseErrorDisplay from '../components/DatabaseErrorDisplay';
 
 const formatPrice = (price: number) => `$${price.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatFecha = (fecha: string) => new Date(`${fecha}T00:00:00`).toLocaleDateString('es-AR');
 
 const StatCard: React.FC<{ title: string; value: string; icon: React.ReactNode; color: string }> = ({ title, value, icon, color }) => (
     <div className="bg-surface rounded-xl shadow-md p-5 flex items-start">
@@ -26,6 +29,8 @@ const ProductoDashboard: React.FC = () => {
     const [data, setData] = useState<DashboardData | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<any | null>(null);
+    const [historial, setHistorial] = useState<VersionPrecio[]>([]);
+    const [historialError, setHistorialError] = useState<any | null>(null);
 
     useEffect(() => {
         if (!productoId) {
@@ -40,6 +45,12 @@ const ProductoDashboard: React.FC = () => {
             try {
                 const dashboardData = await fetchProductoDashboardData(productoId);
                 setData(dashboardData);
+                // El historial es opcional: si falta el script SQL se muestra el aviso sin romper el tablero
+                try {
+                    setHistorial(await fetchHistorialPrecios(productoId));
+                } catch (histErr: any) {
+                    setHistorialError(histErr);
+                }
             } catch (err: any) {
                 setError(err);
             } finally {
@@ -88,6 +99,26 @@ const ProductoDashboard: React.FC = () => {
         };
     };
 
+    // Precios base aplicados; el margen usa el mismo criterio que la tarjeta de rentabilidad (sobre precio público)
+    const historialBase = historial.filter(v => v.listaId === null && v.estado === 'Aplicado');
+    const proximosCambios = historial.filter(v => v.estado === 'Programado');
+    const historialChartData = {
+        labels: historialBase.map(v => formatFecha(v.vigenteDesde)),
+        datasets: [
+            { label: 'Público', data: historialBase.map(v => v.precioPublico ?? 0), borderColor: 'rgba(138, 92, 246, 1)', backgroundColor: 'rgba(138, 92, 246, 0.6)', stepped: true, yAxisID: 'y' },
+            { label: 'Comercio', data: historialBase.map(v => v.precioComercio ?? 0), borderColor: 'rgba(59, 130, 246, 1)', backgroundColor: 'rgba(59, 130, 246, 0.6)', stepped: true, yAxisID: 'y' },
+            { label: 'Mayorista', data: historialBase.map(v => v.precioMayorista ?? 0), borderColor: 'rgba(236, 72, 153, 1)', backgroundColor: 'rgba(236, 72, 153, 0.6)', stepped: true, yAxisID: 'y' },
+            { label: 'Costo', data: historialBase.map(v => v.costoUnitario ?? 0), borderColor: 'rgba(239, 68, 68, 1)', backgroundColor: 'rgba(239, 68, 68, 0.6)', borderDash: [6, 4], stepped: true, yAxisID: 'y' },
+            {
+                label: 'Margen %',
+                data: historialBase.map(v => v.precioPublico ? ((v.precioPublico - (v.costoUnitario ?? 0)) / v.precioPublico) * 100 : 0),
+                borderColor: 'rgba(34, 197, 94, 1)',
+                backgroundColor: 'rgba(34, 197, 94, 0.6)',
+                yAxisID: 'y1',
+            },
+        ],
+    };
+
     return (
         <div>
             <PageHeader title={producto.nombre}>
@@ -174,6 +205,36 @@ const ProductoDashboard: React.FC = () => {
                 </div>
             </div>
 
+            {/* Price history */}
+            <div className="grid grid-cols-1 xl:grid-cols-4 gap-8 mb-8">
+                <div className="xl:col-span-3">
+                    {historialError ? (
+                        <DatabaseErrorDisplay error={historialError} />
+                    ) : historialBase.length > 0 ? (
+                        <LineChart data={historialChartData} title="Historial de Precios y Margen" secondaryAxisLabel="Margen %" />
+                    ) : (
+                        <div className="bg-surface rounded-xl shadow-md p-4 h-80 flex items-center justify-center text-sm text-gray-500">Sin cambios de precio registrados.</div>
+                    )}
+                </div>
+                <div className="bg-surface rounded-xl shadow-md p-4">
+                    <h3 className="text-lg font-bold text-on-surface mb-3">Próximos Cambios de Precio</h3>
+                    <div className="space-y-3 text-sm max-h-64 overflow-y-auto">
+                        {proximosCambios.length > 0 ? proximosCambios.map(v => (
+                            <div key={v.id} className="border-b pb-2 last:border-b-0">
+                                <div className="flex justify-between items-center">
+                                    <span className="font-semibold text-gray-700">{v.listaNombre || 'Precios base'}</span>
+                                    <span className="text-xs text-blue-700 bg-blue-50 px-2 py-0.5 rounded">{formatFecha(v.vigenteDesde)}</span>
+                                </div>
+                                <p className="text-gray-600">
+                                    {v.listaId ? formatPrice(v.precio ?? 0) : `${formatPrice(v.precioPublico ?? 0)} / ${formatPrice(v.precioComercio ?? 0)} / ${formatPrice(v.precioMayorista ?? 0)}`}
+                                </p>
+                                {v.motivo && <p className="text-xs text-gray-500">{v.motivo}</p>}
+                            </div>
+                        )) : <p className="text-gray-500 text-center">No hay cambios programados.</p>}
+                    </div>
+                </div>
+            </div>
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                 <BarChart data={generateChartData(ventasPorMes)} title="Ventas por Mes (Últimos 12 meses)" />
                 <BarChart data={generateChartData(ventasPorAnio)} title="Ventas por Año" />
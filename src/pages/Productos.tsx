@@ -168,7 +168,10 @@ const Productos: React.FC = () => {
         { header: 'Nombre', accessor: 'nombre', render: (item) => <span className="font-semibold">{item.nombre}</span> },
         { header: 'Código de Barras', accessor: 'codigoBarras' },
         { header: 'Stock Total', accessor: 'stockTotal', render: (item) => (
-            <span className={item.stockTotal < 50 ? 'text-red-600 font-bold' : 'text-gray-700'}>{item.stockTotal}</span>
+            <div>
+                <span className={item.stockTotal < 50 ? 'text-red-600 font-bold' : 'text-gray-700'}>{item.stockTotal}</span>
+                {!!item.stockReservado && <div className="text-xs text-amber-600">{item.stockReservado} reservadas</div>}
+            </div>
         )},
         // FIX: Update price column to display minimum quantities for dynamic pricing.
         { header: 'Precios (P/C/M)', accessor: 'precioPublico', render: (item) => (
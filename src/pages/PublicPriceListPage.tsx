@@ -4,8 +4,14 @@ import { useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Producto, OrderItem } from '@/types';
 import { fetchPublicProductsList } from '@/services/productosService';
+import { getTiendaFromHostname, fetchDepositosDespachoOnline } from '@/services/depositosService';
 import { IconPackage, IconShoppingCart, IconList, IconLayoutGrid, IconTruck, IconPlus, IconMinus, IconTag } from '@/components/Icons';
 import CheckoutModal from '@/components/CheckoutModal';
+import PromoBanner from '@/components/PromoBanner';
+import { fetchPromocionesActivas, descuentosPorProducto } from '@/services/vencimientosService';
+import { Cupon, PromocionVencimiento, ReglaPrecio } from '@/types';
+import { fetchCuponesDestacados } from '@/services/cuponesService';
+import { fetchReglasPrecio, cotizar, cotizarLineaUnica, ContextoPrecio, LineaACotizar, REGLAS_PREDETERMINADAS } from '@/services/reglasPrecioService';
 
 const SHIPPING_COST = 9800;
 const FREE_SHIPPING_THRESHOLD = 30000;
@@ -46,6 +52,9 @@ const PublicPriceListPage: React.FC = () => {
     const [error, setError] = useState<any | null>(null);
     const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
     const [viewMode, setViewMode] = useState<'list' | 'grid'>('list');
+    const [promociones, setPromociones] = useState<PromocionVencimiento[]>([]);
+    const [reglas, setReglas] = useState<ReglaPrecio[]>(REGLAS_PREDETERMINADAS);
+    const [cuponesDestacados, setCuponesDestacados] = useState<Cupon[]>([]);
     
     // Ref for scrolling to summary on mobile
     const summaryRef = useRef<HTMLDivElement>(null);
@@ -88,8 +97,17 @@ const PublicPriceListPage: React.FC = () => {
             setLoading(true);
             setError(null);
             try {
-                const data = await fetchPublicProductsList();
+                const [data, promos, reglasData, cuponesData] = await Promise.all([
+                    fetchPublicProductsList(getTiendaFromHostname()),
+                    // Solo promos de lotes que despacha esta tienda: la venta los asigna primero
+                    fetchDepositosDespachoOnline(getTiendaFromHostname()).then(fetchPromocionesActivas),
+                    fetchReglasPrecio(),
+                    fetchCuponesDestacados(),
+                ]);
                 setProductos(data);
+                setPromociones(promos);
+                setReglas(reglasData);
+                setCuponesDestacados(cuponesData);
             } catch (err: any) {
                 setError(err);
             } finally {
@@ -99,50 +117,64 @@ const PublicPriceListPage: React.FC = () => {
         loadData();
     }, []);
 
+    const descuentos = useMemo(() => descuentosPorProducto(promociones), [promociones]);
+
+    // Las promos de lotes próximos a vencer se aplican sobre el precio que dejan las reglas
+    const contextoPrecio = useMemo((): ContextoPrecio => ({ canal: 'Tienda online', descuentosProducto: descuentos }), [descuentos]);
+
+    const aLineaACotizar = (product: Partial<Producto>, quantity: number): LineaACotizar => ({
+        productoId: product.id!,
+        cantidad: quantity,
+        precioBase: product.precioPublico || 0,
+        producto: product,
+    });
+
     const getDynamicPrice = (product: Partial<Producto>, quantity: number) => {
         if (!product) return 0;
-        const { precioPublico = 0, precioComercio = 0, precioMayorista = 0, cantidadMinimaComercio, cantidadMinimaMayorista } = product;
-        const minComercio = cantidadMinimaComercio ?? Infinity;
-        const minMayorista = cantidadMinimaMayorista ?? Infinity;
+        return cotizarLineaUnica(aLineaACotizar(product, quantity), reglas, contextoPrecio).precioUnitario;
+    };
 
-        if (quantity >= minMayorista && precioMayorista > 0) return precioMayorista;
-        if (quantity >= minComercio && precioComercio > 0) return precioComercio;
-        return precioPublico;
+    // Solo se puede pedir lo que hay en los depósitos que despachan esta tienda
+    const limitarAlStock = (productId: string, quantity: number) => {
+        const stock = productos.find(p => p.id === productId)?.stockTotal;
+        return stock === undefined ? quantity : Math.min(quantity, stock);
     };
 
     const handleQuantityChange = (productId: string, value: string) => {
         const newQuantity = parseInt(value, 10);
-        setQuantities(prev => ({ ...prev, [productId]: isNaN(newQuantity) || newQuantity < 0 ? 0 : newQuantity }));
+        setQuantities(prev => ({ ...prev, [productId]: isNaN(newQuantity) || newQuantity < 0 ? 0 : limitarAlStock(productId, newQuantity) }));
     };
 
     const handleAdjustQuantity = (productId: string, delta: number) => {
         setQuantities(prev => {
             const currentQty = prev[productId] || 0;
-            const newQty = Math.max(0, currentQty + delta);
+            const newQty = Math.max(0, limitarAlStock(productId, currentQty + delta));
             return { ...prev, [productId]: newQty };
         });
     };
 
     const { orderItems, subtotal } = useMemo(() => {
-        const items: OrderItem[] = Object.keys(quantities)
+        const enCarrito = Object.keys(quantities)
             .filter(productId => quantities[productId] > 0)
-            .map(productId => {
-                const qty = quantities[productId];
-                const product = productos.find(p => p.id === productId);
-                if (!product) return null;
-                const price = getDynamicPrice(product, qty);
-                return { 
-                  id: product.id!, 
-                  nombre: product.nombre!, 
-                  quantity: qty, 
-                  unitPrice: price,
-                  lineTotal: price * qty
-                };
-            }).filter((item): item is NonNullable<typeof item> => item !== null);
+            .map(productId => productos.find(p => p.id === productId))
+            .filter((product): product is Partial<Producto> => !!product);
+
+        // El carrito se cotiza junto para que los montos mínimos de las reglas miren todo el pedido
+        const cotizacion = cotizar(enCarrito.map(product => aLineaACotizar(product, quantities[product.id!])), reglas, { ...contextoPrecio, medioPago: null });
+        const items: OrderItem[] = cotizacion.lineas.map((linea, i) => ({
+            id: linea.productoId,
+            nombre: enCarrito[i].nombre!,
+            linea: enCarrito[i].linea,
+            quantity: linea.cantidad,
+            unitPrice: linea.precioUnitario,
+            lineTotal: linea.total,
+            precioSinPromo: linea.precioSinPromo,
+            promos: descuentos[linea.productoId],
+        }));
 
         const sub = items.reduce((acc, item) => acc + (item?.lineTotal || 0), 0);
         return { orderItems: items, subtotal: sub };
-    }, [quantities, productos]);
+    }, [quantities, productos, reglas, contextoPrecio, descuentos]);
 
     // Shipping Logic
     const shippingCost = useMemo(() => {
@@ -178,6 +210,18 @@ const PublicPriceListPage: React.FC = () => {
     const formatPrice = (price: number) => `$${price.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
     const lineaColors: Record<string, string> = { 'ULTRAHISNE': 'bg-orange-500', 'BODYTAN CARIBEAN': 'bg-yellow-800', 'SECRET': 'bg-gray-800', 'ESSENS': 'bg-blue-300', 'General': 'bg-gray-500' };
     
+    // --- Helper Component for Stock Availability ---
+    const StockAviso: React.FC<{ product: Partial<Producto> }> = ({ product }) => {
+        if (product.stockTotal === undefined) return null;
+        if (product.stockTotal <= 0) {
+            return <span className="inline-block mt-1 bg-red-100 text-red-700 text-xs font-semibold px-2 py-0.5 rounded-full">Sin stock</span>;
+        }
+        if (product.stockTotal <= 5) {
+            return <span className="inline-block mt-1 bg-yellow-100 text-yellow-800 text-xs font-semibold px-2 py-0.5 rounded-full">¡Últimas {product.stockTotal} unidades!</span>;
+        }
+        return null;
+    };
+
     // --- Helper Component for Upsell Message ---
     const UpsellMessage: React.FC<{ product: Partial<Producto>, quantity: number }> = ({ product, quantity }) => {
         const minComercio = product.cantidadMinimaComercio || 0;
@@ -282,6 +326,7 @@ const PublicPriceListPage: React.FC = () => {
                                                                 <div className="flex-grow">
                                                                     <p className="font-semibold text-gray-800">{product.nombre}</p>
                                                                     <p className="text-gray-600 text-xs">{product.descripcion}</p>
+                                                                    <StockAviso product={product} />
                                                                     <UpsellMessage product={product} quantity={quantity} />
                                                                 </div>
                                                             </div>
@@ -360,6 +405,7 @@ const PublicPriceListPage: React.FC = () => {
                                                         <div className="p-4 flex flex-col flex-grow">
                                                             <h4 className="font-semibold text-gray-800 text-lg leading-tight">{product.nombre}</h4>
                                                             <p className="text-gray-600 text-xs mt-1 flex-grow">{product.descripcion}</p>
+                                                            <StockAviso product={product} />
                                                             
                                                             <div className="mt-3 mb-2 min-h-[24px]">
                                                                 <UpsellMessage product={product} quantity={quantity} />
@@ -473,6 +519,7 @@ const PublicPriceListPage: React.FC = () => {
                     orderItems={orderItems}
                     subtotal={subtotal}
                     shippingCost={shippingCost}
+                    reglas={reglas}
                 />
             )}
 
@@ -503,6 +550,7 @@ const PublicPriceListPage: React.FC = () => {
     // Public view: Render the full page with its own header and footer.
     return (
         <div className="bg-gray-50 min-h-screen">
+            <PromoBanner promociones={promociones} cupones={cuponesDestacados} />
             <header className={`bg-white shadow-md sticky top-0 z-20 transition-all duration-300 ease-in-out ${isScrolled ? 'py-1 shadow-sm' : 'py-3 shadow-md'}`}>
                  <div className="container mx-auto px-4">
                     <div className={`flex flex-col sm:flex-row justify-between items-center transition-all duration-300 ${isScrolled ? 'gap-0' : 'gap-4'}`}>
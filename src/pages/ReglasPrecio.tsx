@@ -0,0 +1,321 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import PageHeader from '@/components/PageHeader';
+import Table, { Column } from '@/components/Table';
+import { ListMeta, ReglaPrecio, CanalVenta, MedioPagoRegla } from '@/types';
+import { IconPlus, IconX, IconPencil, IconTrash } from '@/components/Icons';
+import {
+    fetchReglasPrecioGestion, saveReglaPrecio, deleteReglaPrecio, CANALES_VENTA, MEDIOS_PAGO_REGLA,
+} from '@/services/reglasPrecioService';
+import { fetchListasDePrecios } from '@/services/preciosService';
+import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
+
+const LINEAS_PRODUCTO = ['ULTRAHISNE', 'BODYTAN CARIBEAN', 'SECRET', 'ESSENS', 'General'];
+
+const NUEVA_REGLA: Omit<ReglaPrecio, 'id'> = {
+    nombre: '',
+    activa: true,
+    prioridad: 100,
+    accion: 'Descuento %',
+    alcance: 'Pedido',
+    nivelPrecio: null,
+    porcentaje: 10,
+    cantidadMinima: null,
+    montoMinimo: null,
+    mediosPago: [],
+    listaPrecioIds: [],
+    lineas: [],
+    canales: [],
+    fechaDesde: null,
+    fechaHasta: null,
+    exclusiva: false,
+};
+
+const toggle = <T,>(lista: T[], valor: T) => lista.includes(valor) ? lista.filter(v => v !== valor) : [...lista, valor];
+
+const numeroONull = (value: string) => value === '' ? null : Number(value);
+
+// Casillas para las condiciones de lista; vacías = la regla aplica a todos
+const Opciones = <T extends string>({ label, opciones, seleccion, onChange }: {
+    label: string;
+    opciones: { value: T; label: string }[];
+    seleccion: T[];
+    onChange: (seleccion: T[]) => void;
+}) => (
+    <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {opciones.map(o => (
+                <label key={o.value} className="flex items-center text-sm text-gray-700">
+                    <input type="checkbox" checked={seleccion.includes(o.value)} onChange={() => onChange(toggle(seleccion, o.value))} className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-1" />
+                    {o.label}
+                </label>
+            ))}
+        </div>
+        {seleccion.length === 0 && <p className="text-xs text-gray-400 mt-1">Sin selección: aplica a todos.</p>}
+    </div>
+);
+
+const describirCondiciones = (regla: ReglaPrecio, listas: ListMeta[]) => {
+    const partes: string[] = [];
+    if (regla.canales.length > 0) partes.push(regla.canales.join(', '));
+    if (regla.mediosPago.length > 0) partes.push(`Pago: ${regla.mediosPago.map(m => MEDIOS_PAGO_REGLA.find(o => o.value === m)?.label || m).join(', ')}`);
+    if (regla.listaPrecioIds.length > 0) partes.push(`Listas: ${regla.listaPrecioIds.map(id => listas.find(l => l.id === id)?.nombre || id).join(', ')}`);
+    if (regla.lineas.length > 0) partes.push(`Líneas: ${regla.lineas.join(', ')}`);
+    if (regla.cantidadMinima) partes.push(`Desde ${regla.cantidadMinima} u.`);
+    if (regla.montoMinimo) partes.push(`Desde $${regla.montoMinimo.toLocaleString('es-AR')}`);
+    if (regla.fechaDesde || regla.fechaHasta) partes.push(`Vigencia: ${regla.fechaDesde || '...'} a ${regla.fechaHasta || '...'}`);
+    return partes;
+};
+
+// --- Regla Modal Component ---
+const ReglaModal: React.FC<{
+    regla: ReglaPrecio | null;
+    listas: ListMeta[];
+    onClose: () => void;
+    onSuccess: () => void;
+}> = ({ regla, listas, onClose, onSuccess }) => {
+    const [form, setForm] = useState<Omit<ReglaPrecio, 'id'>>(() => {
+        if (!regla) return NUEVA_REGLA;
+        const { id, ...resto } = regla;
+        return resto;
+    });
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    const update = (cambios: Partial<Omit<ReglaPrecio, 'id'>>) => setForm(prev => ({ ...prev, ...cambios }));
+
+    const handleAccionChange = (accion: ReglaPrecio['accion']) => {
+        // Los niveles de precio se eligen por línea; los descuentos pueden ser de línea o de pedido
+        update(accion === 'Nivel de precio'
+            ? { accion, alcance: 'Línea', nivelPrecio: form.nivelPrecio || 'Mayorista', porcentaje: null }
+            : { accion, nivelPrecio: null, porcentaje: form.porcentaje || 10 });
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (form.fechaDesde && form.fechaHasta && form.fechaDesde > form.fechaHasta) {
+            setError({ message: 'La fecha de inicio no puede ser posterior a la de fin.' });
+            return;
+        }
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await saveReglaPrecio(form, regla?.id);
+            onSuccess();
+        } catch (err: any) {
+            setError(err);
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">{regla ? 'Editar Regla' : 'Nueva Regla de Precio'}</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="md:col-span-2">
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Nombre*</label>
+                            <input type="text" value={form.nombre} onChange={e => update({ nombre: e.target.value })} required className="w-full input-style" placeholder="Ej: 5% extra ULTRAHISNE desde 12 u." />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Prioridad</label>
+                            <input type="number" value={form.prioridad} onChange={e => update({ prioridad: Number(e.target.value) || 0 })} className="w-full input-style" />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Acción</label>
+                            <select value={form.accion} onChange={e => handleAccionChange(e.target.value as ReglaPrecio['accion'])} className="w-full input-style">
+                                <option value="Nivel de precio">Nivel de precio</option>
+                                <option value="Descuento %">Descuento %</option>
+                            </select>
+                        </div>
+                        {form.accion === 'Nivel de precio' ? (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Nivel</label>
+                                <select value={form.nivelPrecio || 'Mayorista'} onChange={e => update({ nivelPrecio: e.target.value as ReglaPrecio['nivelPrecio'] })} className="w-full input-style">
+                                    <option value="Mayorista">Mayorista</option>
+                                    <option value="Comercio">Comercio</option>
+                                </select>
+                            </div>
+                        ) : (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Porcentaje</label>
+                                <input type="number" min="0.01" max="100" step="0.01" value={form.porcentaje ?? ''} onChange={e => update({ porcentaje: numeroONull(e.target.value) })} required className="w-full input-style" />
+                            </div>
+                        )}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Alcance</label>
+                            <select value={form.alcance} onChange={e => update({ alcance: e.target.value as ReglaPrecio['alcance'] })} disabled={form.accion === 'Nivel de precio'} className="w-full input-style">
+                                <option value="Línea">Cada línea del pedido</option>
+                                <option value="Pedido">Total del pedido</option>
+                            </select>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Cantidad mínima</label>
+                            <input type="number" min="1" value={form.cantidadMinima ?? ''} onChange={e => update({ cantidadMinima: numeroONull(e.target.value) })} className="w-full input-style" placeholder={form.accion === 'Nivel de precio' ? 'La del producto' : 'Sin mínimo'} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Monto mínimo del pedido</label>
+                            <input type="number" min="0" step="0.01" value={form.montoMinimo ?? ''} onChange={e => update({ montoMinimo: numeroONull(e.target.value) })} className="w-full input-style" placeholder="Sin mínimo" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Vigente desde</label>
+                            <input type="date" value={form.fechaDesde || ''} onChange={e => update({ fechaDesde: e.target.value || null })} className="w-full input-style" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Vigente hasta</label>
+                            <input type="date" value={form.fechaHasta || ''} onChange={e => update({ fechaHasta: e.target.value || null })} className="w-full input-style" />
+                        </div>
+                    </div>
+                    <Opciones<CanalVenta>
+                        label="Canales"
+                        opciones={CANALES_VENTA.map(c => ({ value: c, label: c }))}
+                        seleccion={form.canales}
+                        onChange={canales => update({ canales })}
+                    />
+                    <Opciones<MedioPagoRegla>
+                        label="Medios de pago"
+                        opciones={MEDIOS_PAGO_REGLA}
+                        seleccion={form.mediosPago}
+                        onChange={mediosPago => update({ mediosPago })}
+                    />
+                    <Opciones<string>
+                        label="Listas de precios del cliente"
+                        opciones={listas.map(l => ({ value: l.id, label: l.nombre }))}
+                        seleccion={form.listaPrecioIds}
+                        onChange={listaPrecioIds => update({ listaPrecioIds })}
+                    />
+                    <Opciones<string>
+                        label="Líneas de producto"
+                        opciones={LINEAS_PRODUCTO.map(l => ({ value: l, label: l }))}
+                        seleccion={form.lineas}
+                        onChange={lineas => update({ lineas })}
+                    />
+                    <div className="flex flex-col gap-2 pt-2 border-t">
+                        <label className="flex items-center text-sm text-gray-900">
+                            <input type="checkbox" checked={form.exclusiva} onChange={e => update({ exclusiva: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2" />
+                            Exclusiva: si se aplica, no se evalúan las reglas de menor prioridad del mismo alcance
+                        </label>
+                        <label className="flex items-center text-sm text-gray-900">
+                            <input type="checkbox" checked={form.activa} onChange={e => update({ activa: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2" />
+                            Activa
+                        </label>
+                    </div>
+                    <div className="flex justify-end pt-4 border-t">
+                        <button type="button" onClick={onClose} className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg mr-2 hover:bg-gray-300">Cancelar</button>
+                        <button type="submit" disabled={isSubmitting || !form.nombre.trim()} className="bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark disabled:bg-violet-300">
+                            {isSubmitting ? 'Guardando...' : 'Guardar'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const ReglasPrecio: React.FC = () => {
+    const [reglas, setReglas] = useState<ReglaPrecio[]>([]);
+    const [listas, setListas] = useState<ListMeta[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<any | null>(null);
+    const [modal, setModal] = useState<{ regla: ReglaPrecio | null } | null>(null);
+
+    const loadData = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const [reglasData, listasData] = await Promise.all([fetchReglasPrecioGestion(), fetchListasDePrecios()]);
+            setReglas(reglasData);
+            setListas(listasData);
+        } catch (err: any) {
+            console.error(`[ReglasPrecioPage] Error fetching data:`, err);
+            setError(err);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const handleDelete = async (regla: ReglaPrecio) => {
+        if (window.confirm(`¿Seguro que quieres eliminar la regla "${regla.nombre}"?`)) {
+            try {
+                await deleteReglaPrecio(regla.id);
+                loadData();
+            } catch (err: any) {
+                setError(err);
+            }
+        }
+    };
+
+    const columns: Column<ReglaPrecio>[] = [
+        { header: 'Prioridad', accessor: 'prioridad', render: item => <span className="font-mono">{item.prioridad}</span> },
+        { header: 'Nombre', accessor: 'nombre', render: item => (
+            <div>
+                <p className="font-semibold">{item.nombre}</p>
+                {item.exclusiva && <p className="text-xs text-gray-500">Exclusiva</p>}
+            </div>
+        )},
+        { header: 'Acción', accessor: 'accion', render: item => (
+            <div className="text-sm">
+                <p>{item.accion === 'Nivel de precio' ? `Precio ${item.nivelPrecio?.toLowerCase()}` : `${item.porcentaje}% de descuento`}</p>
+                <p className="text-xs text-gray-500">{item.alcance === 'Pedido' ? 'Sobre el pedido' : 'Por línea'}</p>
+            </div>
+        )},
+        { header: 'Condiciones', accessor: 'canales', render: item => {
+            const condiciones = describirCondiciones(item, listas);
+            return condiciones.length > 0
+                ? <div className="text-xs text-gray-600 space-y-0.5">{condiciones.map(c => <p key={c}>{c}</p>)}</div>
+                : <span className="text-xs text-gray-400">Siempre</span>;
+        }},
+        { header: 'Estado', accessor: 'activa', render: item => (
+            item.activa
+                ? <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">Activa</span>
+                : <span className="px-2 py-1 text-xs font-semibold rounded-full bg-gray-100 text-gray-800">Inactiva</span>
+        )},
+        { header: 'Acciones', accessor: 'id', render: item => (
+            <div className="flex space-x-3">
+                <button onClick={() => setModal({ regla: item })} className="text-blue-500 hover:text-blue-700" title="Editar"><IconPencil className="h-5 w-5" /></button>
+                <button onClick={() => handleDelete(item)} className="text-red-500 hover:text-red-700" title="Eliminar"><IconTrash className="h-5 w-5" /></button>
+            </div>
+        )},
+    ];
+
+    return (
+        <div>
+            <PageHeader title="Reglas de Precio">
+                <button onClick={() => setModal({ regla: null })} className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark transition-colors">
+                    <IconPlus className="h-5 w-5 mr-2" />
+                    Nueva Regla
+                </button>
+            </PageHeader>
+            <p className="text-sm text-gray-500 mb-4">
+                Las reglas se evalúan de menor a mayor prioridad. Primero las de línea (nivel de precio o descuento por producto) y después las de pedido, que se encadenan sobre el total.
+            </p>
+            <DatabaseErrorDisplay error={error} />
+            <Table columns={columns} data={reglas} isLoading={loading} />
+
+            {modal && (
+                <ReglaModal
+                    regla={modal.regla}
+                    listas={listas}
+                    onClose={() => setModal(null)}
+                    onSuccess={() => { setModal(null); loadData(); }}
+                />
+            )}
+            <style>{`.input-style { display: block; width: 100%; padding: 0.5rem 0.75rem; border: 1px solid #D1D5DB; border-radius: 0.375rem; } .input-style:focus { border-color: #8a5cf6; }`}</style>
+        </div>
+    );
+};
+
+export default ReglasPrecio;
@@ -0,0 +1,338 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import PageHeader from '@/components/PageHeader';
+import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
+import { IconCheck, IconTrendingUp } from '@/components/Icons';
+import {
+    CampoPrecioRemarcable, EstrategiaRemarcacion, ListMeta, MargenesMinimos, ParametrosRemarcacion, ProductoRemarcable,
+    PropuestaRemarcacion, RedondeoPrecio,
+} from '@/types';
+import {
+    ESTRATEGIAS_REMARCACION, REDONDEOS_PRECIO, CAMPOS_BASE, CAMPOS_LISTA, ETIQUETAS_CAMPO,
+    fetchProductosRemarcables, calcularRemarcacion, propuestaCambia, propuestaBaja, aplicarRemarcacion,
+} from '@/services/remarcacionService';
+import { fetchListasDePrecios } from '@/services/preciosService';
+import { fetchCotizaciones, fetchDolarReferenciaPrecios, saveDolarReferenciaPrecios } from '@/services/ajustesService';
+import { hoyISO } from '@/services/historialPreciosService';
+import { fetchMargenesMinimos, verificarMargen } from '@/services/margenesService';
+
+const LINEAS_PRODUCTO = ['ULTRAHISNE', 'BODYTAN CARIBEAN', 'SECRET', 'ESSENS', 'General'];
+
+const PARAMETROS_INICIALES: ParametrosRemarcacion = {
+    estrategia: 'Porcentaje',
+    porcentaje: 10,
+    margenes: { precioPublico: 150, precioComercio: 100, precioMayorista: 70, precio: 100 },
+    proporciones: { precioPublico: 1, precioComercio: 0.8, precioMayorista: 0.65, precio: 0.85 },
+    dolarReferencia: 0,
+    dolarActual: 0,
+    redondeo: 'Terminado en 990',
+};
+
+const formatPrice = (price: number) => `$${price.toLocaleString('es-AR', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+
+const variacion = (actual: number, nuevo: number) => actual > 0 ? ((nuevo - actual) / actual) * 100 : 0;
+
+const RemarcacionPrecios: React.FC = () => {
+    const [listas, setListas] = useState<ListMeta[]>([]);
+    const [listaId, setListaId] = useState<string>('');
+    const [linea, setLinea] = useState<string>('');
+    const [productos, setProductos] = useState<ProductoRemarcable[]>([]);
+    const [params, setParams] = useState<ParametrosRemarcacion>(PARAMETROS_INICIALES);
+    const [excluidos, setExcluidos] = useState<Set<string>>(new Set());
+    const [vigenteDesde, setVigenteDesde] = useState(hoyISO());
+    const [motivo, setMotivo] = useState('');
+    const [margenes, setMargenes] = useState<MargenesMinimos>({ porLinea: {}, porLista: {} });
+
+    const [loading, setLoading] = useState(true);
+    const [applying, setApplying] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+    const [resultado, setResultado] = useState<string | null>(null);
+
+    const campos: CampoPrecioRemarcable[] = listaId ? CAMPOS_LISTA : CAMPOS_BASE;
+
+    useEffect(() => {
+        const loadInicial = async () => {
+            try {
+                const [listasData, cotizaciones, dolarReferencia, margenesData] = await Promise.all([
+                    fetchListasDePrecios(),
+                    fetchCotizaciones(),
+                    fetchDolarReferenciaPrecios(),
+                    fetchMargenesMinimos(),
+                ]);
+                setListas(listasData);
+                setMargenes(margenesData);
+                setParams(prev => ({ ...prev, dolarActual: cotizaciones.usd, dolarReferencia: dolarReferencia ?? cotizaciones.usd }));
+            } catch (err: any) {
+                console.error(`[RemarcacionPrecios] Error fetching data:`, err);
+                setError(err);
+            }
+        };
+        loadInicial();
+    }, []);
+
+    const loadProductos = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            setProductos(await fetchProductosRemarcables(listaId || null));
+            setExcluidos(new Set());
+        } catch (err: any) {
+            console.error(`[RemarcacionPrecios] Error fetching data:`, err);
+            setError(err);
+        } finally {
+            setLoading(false);
+        }
+    }, [listaId]);
+
+    useEffect(() => {
+        loadProductos();
+    }, [loadProductos]);
+
+    const propuestas = useMemo(() => {
+        const seleccion = productos.filter(p => !linea || p.linea === linea);
+        return calcularRemarcacion(seleccion, campos, params).filter(propuestaCambia);
+    }, [productos, linea, campos, params]);
+
+    const aAplicar = propuestas.filter(p => !excluidos.has(p.productoId));
+
+    const violacionesDe = (p: PropuestaRemarcacion) => verificarMargen(
+        margenes,
+        { linea: p.linea, costoUnitario: p.costoUnitario },
+        listaId || null,
+        campos.map(campo => ({ nivel: ETIQUETAS_CAMPO[campo], precio: p.nuevo[campo] ?? 0 }))
+    );
+    const bajoMinimo = aAplicar.filter(p => violacionesDe(p).length > 0);
+    const bajan = aAplicar.filter(propuestaBaja);
+    const programar = vigenteDesde > hoyISO();
+
+    const setEstrategia = (estrategia: EstrategiaRemarcacion) => setParams(prev => ({ ...prev, estrategia }));
+    const setPorCampo = (clave: 'margenes' | 'proporciones', campo: CampoPrecioRemarcable, valor: number) =>
+        setParams(prev => ({ ...prev, [clave]: { ...prev[clave], [campo]: valor } }));
+
+    const toggleExcluido = (productoId: string) => setExcluidos(prev => {
+        const next = new Set(prev);
+        if (next.has(productoId)) next.delete(productoId); else next.add(productoId);
+        return next;
+    });
+
+    const handleAplicar = async () => {
+        if (aAplicar.length === 0) return;
+        const destino = listaId ? `la lista "${listas.find(l => l.id === listaId)?.nombre}"` : 'los precios base';
+        const cuando = programar ? `a partir del ${new Date(`${vigenteDesde}T00:00:00`).toLocaleDateString('es-AR')}` : 'ahora';
+        if (!window.confirm(`Se van a cambiar ${aAplicar.length} productos en ${destino} ${cuando}. ¿Continuar?`)) return;
+        // La página es sólo para superadmin: los precios bajo el margen mínimo se pueden autorizar con motivo
+        let motivoExcepcion: string | null = null;
+        if (bajoMinimo.length > 0) {
+            motivoExcepcion = window.prompt(`${bajoMinimo.length} productos quedan por debajo del margen mínimo. Indica el motivo de la excepción (o destildalos de la vista previa):`);
+            if (!motivoExcepcion?.trim()) return;
+        }
+
+        setApplying(true);
+        setError(null);
+        setResultado(null);
+        try {
+            const estrategia = ESTRATEGIAS_REMARCACION.find(e => e.value === params.estrategia)?.label;
+            const total = await aplicarRemarcacion(listaId || null, aAplicar, vigenteDesde, motivo || `Remarcación masiva: ${estrategia}`, motivoExcepcion);
+            // La próxima remarcación por dólar parte de la cotización con la que se fijaron estos precios
+            if (params.estrategia === 'Dólar' && !programar) {
+                await saveDolarReferenciaPrecios(params.dolarActual);
+                setParams(prev => ({ ...prev, dolarReferencia: prev.dolarActual }));
+            }
+            setResultado(programar ? `${total} cambios de precio programados.` : `${total} productos remarcados.`);
+            setMotivo('');
+            await loadProductos();
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setApplying(false);
+        }
+    };
+
+    const descripcion = ESTRATEGIAS_REMARCACION.find(e => e.value === params.estrategia)?.descripcion;
+
+    return (
+        <div>
+            <PageHeader title="Remarcación Masiva de Precios" />
+            <DatabaseErrorDisplay error={error} />
+            {resultado && (
+                <div className="flex items-center bg-green-50 text-green-800 p-3 rounded-md mb-4 text-sm">
+                    <IconCheck className="h-5 w-5 mr-2" /> {resultado}
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+                {/* Selection */}
+                <div className="bg-surface p-4 rounded-lg shadow-md space-y-4">
+                    <h3 className="text-lg font-bold text-on-surface">Productos</h3>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700">Precios a remarcar</label>
+                        <select value={listaId} onChange={e => setListaId(e.target.value)} className="mt-1 input-style">
+                            <option value="">Precios base (público, comercio y mayorista)</option>
+                            {listas.map(l => <option key={l.id} value={l.id}>Lista: {l.nombre}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700">Línea</label>
+                        <select value={linea} onChange={e => setLinea(e.target.value)} className="mt-1 input-style">
+                            <option value="">Todas las líneas</option>
+                            {LINEAS_PRODUCTO.map(l => <option key={l} value={l}>{l}</option>)}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Vigente desde</label>
+                            <input type="date" value={vigenteDesde} min={hoyISO()} onChange={e => setVigenteDesde(e.target.value || hoyISO())} className="mt-1 input-style" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Motivo</label>
+                            <input type="text" value={motivo} onChange={e => setMotivo(e.target.value)} placeholder="Opcional" className="mt-1 input-style" />
+                        </div>
+                    </div>
+                </div>
+
+                {/* Strategy */}
+                <div className="bg-surface p-4 rounded-lg shadow-md space-y-4 lg:col-span-2">
+                    <h3 className="text-lg font-bold text-on-surface">Estrategia</h3>
+                    <div className="flex flex-wrap gap-2">
+                        {ESTRATEGIAS_REMARCACION.map(e => (
+                            <button
+                                key={e.value}
+                                onClick={() => setEstrategia(e.value)}
+                                className={`px-3 py-2 rounded-lg text-sm font-medium border ${params.estrategia === e.value ? 'bg-primary text-white border-primary' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+                            >
+                                {e.label}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-sm text-gray-500">{descripcion}</p>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        {params.estrategia === 'Porcentaje' && (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Variación %</label>
+                                <input type="number" step="0.1" value={params.porcentaje} onChange={e => setParams(prev => ({ ...prev, porcentaje: Number(e.target.value) }))} className="mt-1 input-style" />
+                            </div>
+                        )}
+                        {params.estrategia === 'Costo más margen' && campos.map(campo => (
+                            <div key={campo}>
+                                <label className="block text-sm font-medium text-gray-700">Recargo {ETIQUETAS_CAMPO[campo]} %</label>
+                                <input type="number" step="1" value={params.margenes[campo]} onChange={e => setPorCampo('margenes', campo, Number(e.target.value))} className="mt-1 input-style" />
+                            </div>
+                        ))}
+                        {params.estrategia === 'Proporción del público' && campos.filter(c => c !== 'precioPublico').map(campo => (
+                            <div key={campo}>
+                                <label className="block text-sm font-medium text-gray-700">{ETIQUETAS_CAMPO[campo]} (% del público)</label>
+                                <input type="number" step="1" value={Math.round(params.proporciones[campo] * 1000) / 10} onChange={e => setPorCampo('proporciones', campo, Number(e.target.value) / 100)} className="mt-1 input-style" />
+                            </div>
+                        ))}
+                        {params.estrategia === 'Dólar' && (
+                            <>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">Dólar de referencia</label>
+                                    <input type="number" value={params.dolarReferencia} onChange={e => setParams(prev => ({ ...prev, dolarReferencia: Number(e.target.value) }))} className="mt-1 input-style" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">Dólar actual (COMEX)</label>
+                                    <input type="number" value={params.dolarActual} onChange={e => setParams(prev => ({ ...prev, dolarActual: Number(e.target.value) }))} className="mt-1 input-style" />
+                                </div>
+                                <div className="flex items-end pb-2 text-sm text-gray-600">
+                                    Variación: <span className="font-bold ml-1">{variacion(params.dolarReferencia, params.dolarActual).toFixed(1)}%</span>
+                                </div>
+                            </>
+                        )}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Redondeo</label>
+                            <select value={params.redondeo} onChange={e => setParams(prev => ({ ...prev, redondeo: e.target.value as RedondeoPrecio }))} className="mt-1 input-style">
+                                {REDONDEOS_PRECIO.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {/* Preview */}
+            <div className="bg-surface rounded-lg shadow-md">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 border-b">
+                    <div>
+                        <h3 className="text-lg font-bold text-on-surface">Vista previa</h3>
+                        <p className="text-sm text-gray-500">
+                            {propuestas.length} productos cambian de precio{excluidos.size > 0 ? `, ${excluidos.size} excluidos` : ''}. Nada se guarda hasta confirmar.
+                            {bajoMinimo.length > 0 && <span className="text-red-600 font-semibold"> {bajoMinimo.length} quedan bajo el margen mínimo.</span>}
+                            {bajan.length > 0 && <span className="text-amber-600 font-semibold"> {bajan.length} bajan de precio.</span>}
+                        </p>
+                    </div>
+                    <button
+                        onClick={handleAplicar}
+                        disabled={applying || loading || aAplicar.length === 0}
+                        className="flex items-center bg-green-500 text-white px-4 py-2 rounded-lg shadow hover:bg-green-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        <IconTrendingUp className="h-5 w-5 mr-2" />
+                        {applying ? 'Aplicando...' : programar ? `Programar ${aAplicar.length} cambios` : `Aplicar a ${aAplicar.length} productos`}
+                    </button>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-4 py-3 w-10"></th>
+                                <th className="px-4 py-3 text-left text-xs font-bold text-gray-500 uppercase tracking-wider">Producto</th>
+                                <th className="px-4 py-3 text-right text-xs font-bold text-gray-500 uppercase tracking-wider">Costo Unit.</th>
+                                {campos.map(campo => (
+                                    <th key={campo} className="px-4 py-3 text-right text-xs font-bold text-gray-500 uppercase tracking-wider">{ETIQUETAS_CAMPO[campo]}</th>
+                                ))}
+                                <th className="px-4 py-3 text-right text-xs font-bold text-gray-500 uppercase tracking-wider" title="Ganancia sobre el costo con el nuevo precio">Ganancia %</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {loading ? (
+                                <tr><td colSpan={campos.length + 4} className="p-8 text-center text-gray-500">Cargando productos...</td></tr>
+                            ) : propuestas.length === 0 ? (
+                                <tr><td colSpan={campos.length + 4} className="p-8 text-center text-gray-500">Con estos parámetros ningún precio cambia.</td></tr>
+                            ) : propuestas.map(p => {
+                                const excluido = excluidos.has(p.productoId);
+                                const violaciones = violacionesDe(p);
+                                const precioReferencia = p.nuevo[campos[0]] ?? 0;
+                                const ganancia = p.costoUnitario > 0 ? ((precioReferencia - p.costoUnitario) / p.costoUnitario) * 100 : null;
+                                return (
+                                    <tr key={p.productoId} className={excluido ? 'bg-gray-50 text-gray-400' : 'hover:bg-gray-50'}>
+                                        <td className="px-4 py-2 text-center">
+                                            <input type="checkbox" checked={!excluido} onChange={() => toggleExcluido(p.productoId)} className="h-4 w-4 text-primary rounded" />
+                                        </td>
+                                        <td className="px-4 py-2">
+                                            <p className="font-medium">{p.productoNombre}</p>
+                                            <p className="text-xs text-gray-500">{p.linea || 'N/A'}</p>
+                                            {propuestaBaja(p) && <span className="text-xs font-semibold text-amber-600">Baja de precio</span>}
+                                        </td>
+                                        <td className="px-4 py-2 text-right text-red-600">{p.costoUnitario > 0 ? formatPrice(p.costoUnitario) : '—'}</td>
+                                        {campos.map(campo => {
+                                            const actual = p.actual[campo] ?? 0;
+                                            const nuevo = p.nuevo[campo] ?? 0;
+                                            const delta = variacion(actual, nuevo);
+                                            const violacion = violaciones.find(v => v.nivel === ETIQUETAS_CAMPO[campo]);
+                                            return (
+                                                <td key={campo} className="px-4 py-2 text-right whitespace-nowrap">
+                                                    <span className="text-gray-400 line-through mr-2">{formatPrice(actual)}</span>
+                                                    <span className={`font-semibold ${violacion ? 'text-red-600' : ''}`}>{formatPrice(nuevo)}</span>
+                                                    <p className={`text-xs ${delta >= 0 ? 'text-green-600' : 'text-red-600'}`}>{delta >= 0 ? '+' : ''}{delta.toFixed(1)}%</p>
+                                                    {violacion && <p className="text-xs text-red-600">Mín. {formatPrice(violacion.minimo)}</p>}
+                                                </td>
+                                            );
+                                        })}
+                                        <td className={`px-4 py-2 text-right font-semibold ${ganancia !== null && ganancia < 0 ? 'text-red-600' : ''}`}>
+                                            {ganancia !== null ? `${ganancia.toFixed(1)}%` : '—'}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-4">
+                Nota: El costo unitario es el de Estadísticas de Productos (insumos más laboratorio del último lote). Todos los precios confirmados se guardan juntos: si alguno cambió mientras tanto, no se aplica ninguno. Los precios bajo el margen mínimo (en rojo) requieren indicar el motivo de la excepción. Cada cambio queda en el historial de precios del producto.
+            </p>
+            <style>{`.input-style { display: block; width: 100%; padding: 0.5rem 0.75rem; border: 1px solid #D1D5DB; border-radius: 0.375rem; } .input-style:focus { border-color: #8a5cf6; }`}</style>
+        </div>
+    );
+};
+
+export default RemarcacionPrecios;
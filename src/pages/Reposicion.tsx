@@ -0,0 +1,315 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import PageHeader from '@/components/PageHeader';
+import { IconDeviceFloppy, IconTruck } from '@/components/Icons';
+import { ClasificacionRotacion, HojaReposicion, ParametrosReposicion, Proveedor, SugerenciaCompra, SugerenciaProduccion } from '@/types';
+import Table, { Column } from '@/components/Table';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+    fetchHojaReposicion, guardarPuntosReorden, actualizarLeadTimeProduccion, generarOrdenesCompra, PARAMETROS_REPOSICION_DEFAULT,
+} from '@/services/reposicionService';
+import { fetchProveedores } from '@/services/comprasService';
+import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
+
+const ROTACION_CLASES: Record<ClasificacionRotacion, string> = {
+    'Alta': 'bg-green-100 text-green-800',
+    'Media': 'bg-blue-100 text-blue-800',
+    'Baja': 'bg-yellow-100 text-yellow-800',
+    'Sin ventas': 'bg-gray-100 text-gray-600',
+};
+
+const formatCantidad = (n: number) => n.toLocaleString('es-AR', { maximumFractionDigits: 2 });
+const formatPrecio = (n: number) => `$${n.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+interface LineaCompraForm {
+    seleccionada: boolean;
+    proveedorId: string;
+    cantidad: number;
+}
+
+const Reposicion: React.FC = () => {
+    const { profile } = useAuth();
+    const [parametros, setParametros] = useState<ParametrosReposicion>(PARAMETROS_REPOSICION_DEFAULT);
+    const [parametrosForm, setParametrosForm] = useState<ParametrosReposicion>(PARAMETROS_REPOSICION_DEFAULT);
+    const [hoja, setHoja] = useState<HojaReposicion>({ produccion: [], compras: [] });
+    const [proveedores, setProveedores] = useState<Proveedor[]>([]);
+    const [lineasCompra, setLineasCompra] = useState<Record<string, LineaCompraForm>>({});
+    const [tab, setTab] = useState<'produccion' | 'compras'>('produccion');
+    const [soloSugeridos, setSoloSugeridos] = useState(true);
+    const [loading, setLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+    const [mensaje, setMensaje] = useState<string | null>(null);
+
+    const canManage = profile?.roles?.some(role => ['superadmin', 'administrativo'].includes(role));
+
+    const loadData = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const [hojaData, proveedoresData] = await Promise.all([fetchHojaReposicion(parametros), fetchProveedores()]);
+            setHoja(hojaData);
+            setProveedores(proveedoresData);
+            setLineasCompra(Object.fromEntries(hojaData.compras.map(c => [c.id, {
+                seleccionada: c.cantidadSugerida > 0 && !!c.proveedorId,
+                proveedorId: c.proveedorId || '',
+                cantidad: c.cantidadSugerida,
+            }])));
+        } catch (err: any) {
+            console.error(`[ReposicionPage] Error fetching data:`, err);
+            setError(err);
+        } finally {
+            setLoading(false);
+        }
+    }, [parametros]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const handleParametroChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setParametrosForm(prev => ({ ...prev, [name]: Math.max(0, parseInt(value, 10) || 0) }));
+    };
+
+    const handleLeadTimeBlur = async (producto: SugerenciaProduccion, valor: string) => {
+        const dias = valor.trim() === '' ? null : Math.max(0, parseInt(valor, 10) || 0);
+        if (dias === (producto.leadTimePropio ? producto.leadTimeDias : null)) return;
+        setError(null);
+        try {
+            await actualizarLeadTimeProduccion(producto.id, dias);
+            loadData();
+        } catch (err: any) {
+            setError(err);
+        }
+    };
+
+    const updateLineaCompra = (insumoId: string, cambios: Partial<LineaCompraForm>) => {
+        setLineasCompra(prev => ({ ...prev, [insumoId]: { ...prev[insumoId], ...cambios } }));
+    };
+
+    const handleGuardarPuntos = async () => {
+        if (!window.confirm('¿Guardar los puntos de reorden calculados? El dashboard pasará a usarlos para avisar del bajo stock.')) return;
+        setIsSubmitting(true);
+        setError(null);
+        setMensaje(null);
+        try {
+            await guardarPuntosReorden(hoja);
+            setMensaje(`Se guardaron los puntos de reorden de ${hoja.produccion.length} productos y ${hoja.compras.length} insumos.`);
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const comprasSeleccionadas = hoja.compras.filter(c => lineasCompra[c.id]?.seleccionada);
+
+    const handleGenerarCompras = async () => {
+        const sinProveedor = comprasSeleccionadas.find(c => !lineasCompra[c.id].proveedorId);
+        if (sinProveedor) {
+            setError({ message: `Elige un proveedor para ${sinProveedor.insumoNombre}.` });
+            return;
+        }
+        if (comprasSeleccionadas.some(c => lineasCompra[c.id].cantidad <= 0)) {
+            setError({ message: 'Las cantidades a comprar deben ser mayores a cero.' });
+            return;
+        }
+        setIsSubmitting(true);
+        setError(null);
+        setMensaje(null);
+        try {
+            const ordenes = await generarOrdenesCompra(comprasSeleccionadas.map(c => ({
+                insumoId: c.id,
+                proveedorId: lineasCompra[c.id].proveedorId,
+                cantidad: lineasCompra[c.id].cantidad,
+                costoUnitario: c.costoUnitario,
+            })));
+            setMensaje(`Se generaron ${ordenes} orden(es) de compra en Borrador. Revísalas en Compras Insumos antes de enviarlas.`);
+            loadData();
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const produccionVisible = soloSugeridos ? hoja.produccion.filter(p => p.cantidadSugerida > 0) : hoja.produccion;
+    const comprasVisible = soloSugeridos ? hoja.compras.filter(c => c.cantidadSugerida > 0) : hoja.compras;
+    const totalCompras = comprasSeleccionadas.reduce((sum, c) => sum + lineasCompra[c.id].cantidad * c.costoUnitario, 0);
+
+    const produccionColumns: Column<SugerenciaProduccion>[] = [
+        { header: 'Producto', accessor: 'productoNombre', render: item => <span className="font-semibold">{item.productoNombre}</span> },
+        { header: 'Rotación', accessor: 'rotacion', render: item => (
+            <div>
+                <span className={`px-2 py-1 text-xs font-semibold rounded-full ${ROTACION_CLASES[item.rotacion]}`}>{item.rotacion}</span>
+                <p className="text-xs text-gray-500 mt-1">{formatCantidad(item.tasaRotacion)} vueltas/año</p>
+            </div>
+        )},
+        { header: 'Venta Diaria', accessor: 'demandaDiaria', render: item => `${formatCantidad(item.demandaDiaria)} u.` },
+        { header: 'Lead Time', accessor: 'leadTimeDias', render: item => canManage ? (
+            <div className="flex items-center">
+                <input
+                    key={`${item.id}-${item.leadTimeDias}-${item.leadTimePropio}`}
+                    type="number"
+                    min="0"
+                    defaultValue={item.leadTimePropio ? item.leadTimeDias : ''}
+                    placeholder={String(parametros.leadTimeProduccionDias)}
+                    onBlur={e => handleLeadTimeBlur(item, e.target.value)}
+                    className="w-16 p-1 border rounded"
+                />
+                <span className="ml-1 text-xs text-gray-500">días</span>
+            </div>
+        ) : `${item.leadTimeDias} días` },
+        { header: 'Stock + En Producción', accessor: 'proyectado', render: item => (
+            <div>
+                <p className={item.proyectado <= item.puntoReorden && item.demandaDiaria > 0 ? 'font-bold text-red-600' : ''}>{item.proyectado} u.</p>
+                {item.enProduccion > 0 && <p className="text-xs text-gray-500">{item.stock} + {item.enProduccion} planificadas</p>}
+            </div>
+        )},
+        { header: 'Seguridad / Reorden', accessor: 'puntoReorden', render: item => `${item.stockSeguridad} / ${item.puntoReorden} u.` },
+        { header: 'Producir', accessor: 'cantidadSugerida', render: item => item.cantidadSugerida > 0
+            ? <span className="font-bold text-primary">{item.cantidadSugerida} u.</span>
+            : '-'
+        },
+        { header: 'Acciones', accessor: 'id', render: item => canManage && item.cantidadSugerida > 0 && (
+            <Link to={`/stock/produccion?producto=${item.id}&cantidad=${item.cantidadSugerida}`} className="text-sm text-primary hover:underline">Crear OP</Link>
+        )},
+    ];
+
+    const comprasColumns: Column<SugerenciaCompra>[] = [
+        { header: '', accessor: 'id', render: item => canManage && (
+            <input type="checkbox" checked={!!lineasCompra[item.id]?.seleccionada} onChange={e => updateLineaCompra(item.id, { seleccionada: e.target.checked })} />
+        )},
+        { header: 'Insumo', accessor: 'insumoNombre', render: item => (
+            <div>
+                <p className="font-semibold">{item.insumoNombre}</p>
+                <p className="text-xs text-gray-500">{formatCantidad(item.demandaDiaria)} {item.unidad}/día</p>
+            </div>
+        )},
+        { header: 'Proveedor', accessor: 'proveedorId', render: item => canManage ? (
+            <div>
+                <select value={lineasCompra[item.id]?.proveedorId || ''} onChange={e => updateLineaCompra(item.id, { proveedorId: e.target.value })} className="p-1 border rounded text-sm">
+                    <option value="">Sin proveedor</option>
+                    {proveedores.map(p => <option key={p.id} value={p.id}>{p.nombre}</option>)}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Lead time: {item.leadTimeDias} días</p>
+            </div>
+        ) : item.proveedorNombre || '-' },
+        { header: 'Disponible / En Camino', accessor: 'stock', render: item => (
+            <div className="text-sm">
+                <p>{formatCantidad(item.stock - item.reservado)} {item.unidad}</p>
+                {item.reservado > 0 && <p className="text-xs text-gray-500">{formatCantidad(item.reservado)} reservado</p>}
+                {item.enCamino > 0 && <p className="text-xs text-blue-600">+{formatCantidad(item.enCamino)} en camino</p>}
+            </div>
+        )},
+        { header: 'Para Producción Sugerida', accessor: 'necesidadProduccion', render: item => item.necesidadProduccion > 0 ? `${formatCantidad(item.necesidadProduccion)} ${item.unidad}` : '-' },
+        { header: 'Proyectado', accessor: 'proyectado', render: item => (
+            <span className={item.cantidadSugerida > 0 ? 'font-bold text-red-600' : ''}>{formatCantidad(item.proyectado)} {item.unidad}</span>
+        )},
+        { header: 'Seguridad / Reorden', accessor: 'puntoReorden', render: item => `${formatCantidad(item.stockSeguridad)} / ${formatCantidad(item.puntoReorden)} ${item.unidad}` },
+        { header: 'Comprar', accessor: 'cantidadSugerida', render: item => canManage ? (
+            <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={lineasCompra[item.id]?.cantidad ?? 0}
+                onChange={e => updateLineaCompra(item.id, { cantidad: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-24 p-1 border rounded"
+            />
+        ) : `${formatCantidad(item.cantidadSugerida)} ${item.unidad}` },
+        { header: 'Costo Est.', accessor: 'costoUnitario', render: item => formatPrecio((lineasCompra[item.id]?.cantidad || 0) * item.costoUnitario) },
+    ];
+
+    return (
+        <div>
+            <PageHeader title="Hoja de Reposición">
+                {canManage && (
+                    <button onClick={handleGuardarPuntos} disabled={isSubmitting || loading} className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark transition-colors disabled:bg-violet-300">
+                        <IconDeviceFloppy className="h-5 w-5 mr-2" />
+                        Guardar Puntos de Reorden
+                    </button>
+                )}
+            </PageHeader>
+            <DatabaseErrorDisplay error={error} />
+            {mensaje && <div className="bg-green-50 border-l-4 border-green-400 p-4 mb-6 text-sm text-green-800">{mensaje}</div>}
+
+            <div className="bg-white rounded-lg shadow p-4 mb-6">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500">Días de seguridad</label>
+                        <input type="number" name="diasSeguridad" min="0" value={parametrosForm.diasSeguridad} onChange={handleParametroChange} className="mt-1 input-style" />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500">Días de cobertura</label>
+                        <input type="number" name="diasCobertura" min="0" value={parametrosForm.diasCobertura} onChange={handleParametroChange} className="mt-1 input-style" />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500">Lead time producción (general)</label>
+                        <input type="number" name="leadTimeProduccionDias" min="0" value={parametrosForm.leadTimeProduccionDias} onChange={handleParametroChange} className="mt-1 input-style" />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500">Lead time compra (sin proveedor)</label>
+                        <input type="number" name="leadTimeCompraDias" min="0" value={parametrosForm.leadTimeCompraDias} onChange={handleParametroChange} className="mt-1 input-style" />
+                    </div>
+                    <button onClick={() => setParametros(parametrosForm)} disabled={loading} className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 disabled:opacity-50">
+                        Recalcular
+                    </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-3">
+                    La venta diaria sale del promedio de los últimos 90 días. El stock de seguridad cubre los días de seguridad ajustados por la rotación
+                    (alta ×1,5, media ×1, baja ×0,5) y el punto de reorden suma la venta durante el lead time. Los insumos se calculan por la fórmula de cada producto.
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+                <div className="bg-white rounded-lg shadow p-4">
+                    <p className="text-xs text-gray-500">Productos a producir</p>
+                    <p className="text-2xl font-bold">{hoja.produccion.filter(p => p.cantidadSugerida > 0).length}</p>
+                </div>
+                <div className="bg-white rounded-lg shadow p-4">
+                    <p className="text-xs text-gray-500">Insumos a comprar</p>
+                    <p className="text-2xl font-bold">{hoja.compras.filter(c => c.cantidadSugerida > 0).length}</p>
+                </div>
+                <div className="bg-white rounded-lg shadow p-4">
+                    <p className="text-xs text-gray-500">Compra seleccionada (estimada)</p>
+                    <p className="text-2xl font-bold">{formatPrecio(totalCompras)}</p>
+                </div>
+            </div>
+
+            <div className="flex justify-between items-center border-b mb-4">
+                <div className="flex">
+                    {([['produccion', 'Producción'], ['compras', 'Compras de Insumos']] as const).map(([key, label]) => (
+                        <button
+                            key={key}
+                            onClick={() => setTab(key)}
+                            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${tab === key ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center space-x-4 pb-2">
+                    <label className="flex items-center text-sm text-gray-600">
+                        <input type="checkbox" checked={soloSugeridos} onChange={e => setSoloSugeridos(e.target.checked)} className="mr-2" />
+                        Solo con sugerencia
+                    </label>
+                    {tab === 'compras' && canManage && (
+                        <button onClick={handleGenerarCompras} disabled={isSubmitting || comprasSeleccionadas.length === 0} className="flex items-center bg-primary text-white px-3 py-1.5 rounded-lg shadow text-sm hover:bg-primary-dark disabled:bg-violet-300">
+                            <IconTruck className="h-4 w-4 mr-2" />
+                            Generar Órdenes de Compra ({comprasSeleccionadas.length})
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {tab === 'produccion'
+                ? <Table columns={produccionColumns} data={produccionVisible} isLoading={loading} />
+                : <Table columns={comprasColumns} data={comprasVisible} isLoading={loading} />}
+
+            <style>{`.input-style { display: block; width: 100%; padding: 0.5rem 0.75rem; border: 1px solid #D1D5DB; border-radius: 0.375rem; } .input-style:focus { border-color: #8a5cf6; }`}</style>
+        </div>
+    );
+};
+
+export default Reposicion;
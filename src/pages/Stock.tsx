@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import PageHeader from '@/components/PageHeader';
-import { IconPlus, IconX, IconPencil } from '@/components/Icons';
+import { IconPlus, IconX, IconPencil, IconScale, IconSearch, IconFileText } from '@/components/Icons';
 import { Lote, SimpleProducto, Producto } from '@/types';
 import Table, { Column } from '@/components/Table';
 import { useAuth } from '@/contexts/AuthContext';
@@ -241,6 +242,10 @@ const Stock: React.FC = () => {
     return (
         <div>
             <PageHeader title="Stock de Productos Terminados">
+                <Link to="/stock/produccion" className="flex items-center bg-gray-200 text-gray-700 px-4 py-2 rounded-lg shadow-sm hover:bg-gray-300 transition-colors">
+                    <IconScale className="h-5 w-5 mr-2" />
+                    Órdenes de Producción
+                </Link>
                 {canManage && (
                     <button 
                         onClick={() => setModalContent('create')}
@@ -308,11 +313,24 @@ const Stock: React.FC = () => {
                                                                                         <li key={l.id} className="flex items-center justify-between whitespace-nowrap gap-x-4">
                                                                                             <div>
                                                                                                 Lote <span className="font-mono bg-gray-100 px-1 rounded">{l.numero_lote}</span>: {l.cantidad_actual} / {l.cantidad_inicial} u. (Vence: {l.fecha_vencimiento ? new Date(l.fecha_vencimiento).toLocaleDateString('es-AR') : 'N/A'})
+                                                                                                {l.estado_calidad && l.estado_calidad !== 'Liberado' && (
+                                                                                                    <span className={`ml-2 px-1.5 py-0.5 rounded-full font-semibold ${l.estado_calidad === 'Rechazado' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'}`}>
+                                                                                                        {l.estado_calidad}
+                                                                                                    </span>
+                                                                                                )}
                                                                                             </div>
                                                                                             {canManage && (
-                                                                                                <button onClick={() => setModalContent(l)} className="text-blue-500 hover:text-blue-700" title="Editar Producción">
-                                                                                                    <IconPencil className="h-4 w-4" />
-                                                                                                </button>
+                                                                                                <div className="flex items-center space-x-2">
+                                                                                                    <Link to={`/stock/trazabilidad?lote=${encodeURIComponent(l.numero_lote)}&producto=${item.id}`} className="text-gray-500 hover:text-gray-700" title="Trazabilidad del Lote">
+                                                                                                        <IconSearch className="h-4 w-4" />
+                                                                                                    </Link>
+                                                                                                    <Link to={`/stock/kardex?producto=${item.id}&lote=${l.id}`} className="text-gray-500 hover:text-gray-700" title="Kardex del Lote">
+                                                                                                        <IconFileText className="h-4 w-4" />
+                                                                                                    </Link>
+                                                                                                    <button onClick={() => setModalContent(l)} className="text-blue-500 hover:text-blue-700" title="Editar Producción">
+                                                                                                        <IconPencil className="h-4 w-4" />
+                                                                                                    </button>
+                                                                                                </div>
                                                                                             )}
                                                                                         </li>
                                                                                     ))}
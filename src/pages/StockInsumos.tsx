@@ -1,12 +1,14 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import PageHeader from '@/components/PageHeader';
-import { IconPlus, IconPencil, IconClipboardPlus } from '@/components/Icons';
+import { IconPlus, IconPencil, IconClipboardPlus, IconTruck, IconList, IconFileText } from '@/components/Icons';
 import { Insumo } from '@/types';
 import Table, { Column } from '@/components/Table';
 import { useAuth } from '@/contexts/AuthContext';
 import { fetchInsumos } from '@/services/insumosService';
 import InsumoModal from '@/components/InsumoModal';
 import StockUpdateModal from '@/components/StockUpdateModal';
+import LotesInsumoModal from '@/components/LotesInsumoModal';
 import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
 
 const StockInsumos: React.FC = () => {
@@ -16,6 +18,7 @@ const StockInsumos: React.FC = () => {
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [isStockModalOpen, setIsStockModalOpen] = useState(false);
     const [selectedInsumo, setSelectedInsumo] = useState<Insumo | null>(null);
+    const [insumoLotes, setInsumoLotes] = useState<Insumo | null>(null);
     const [error, setError] = useState<any | null>(null);
 
     const canManage = profile?.roles?.some(role => ['superadmin', 'administrativo'].includes(role));
@@ -79,22 +82,34 @@ const StockInsumos: React.FC = () => {
         )},
         { header: 'Costo Unitario', accessor: 'costo', render: item => `$${item.costo.toLocaleString('es-AR')}` },
         { header: 'Acciones', accessor: 'id', render: (item) => (
-            canManage && (
-                <div className="flex space-x-3">
-                    <button onClick={() => handleOpenEditModal(item)} className="text-blue-500 hover:text-blue-700" title="Editar Insumo">
-                        <IconPencil className="h-5 w-5" />
-                    </button>
-                    <button onClick={() => handleOpenStockModal(item)} className="text-green-500 hover:text-green-700" title="Registrar Compra / Agregar Stock">
-                        <IconClipboardPlus className="h-5 w-5" />
-                    </button>
-                </div>
-            )
+            <div className="flex space-x-3">
+                <button onClick={() => setInsumoLotes(item)} className="text-gray-500 hover:text-gray-700" title="Ver Lotes y Trazabilidad">
+                    <IconList className="h-5 w-5" />
+                </button>
+                <Link to={`/stock/kardex?insumo=${item.id}`} className="text-gray-500 hover:text-gray-700" title="Kardex del Insumo">
+                    <IconFileText className="h-5 w-5" />
+                </Link>
+                {canManage && (
+                    <>
+                        <button onClick={() => handleOpenEditModal(item)} className="text-blue-500 hover:text-blue-700" title="Editar Insumo">
+                            <IconPencil className="h-5 w-5" />
+                        </button>
+                        <button onClick={() => handleOpenStockModal(item)} className="text-green-500 hover:text-green-700" title="Registrar Compra / Agregar Stock">
+                            <IconClipboardPlus className="h-5 w-5" />
+                        </button>
+                    </>
+                )}
+            </div>
         )},
     ];
 
     return (
         <div>
             <PageHeader title="Stock de Insumos y Materias Primas">
+                <Link to="/stock/compras" className="flex items-center bg-gray-200 text-gray-700 px-4 py-2 rounded-lg shadow-sm hover:bg-gray-300 transition-colors">
+                    <IconTruck className="h-5 w-5 mr-2" />
+                    Órdenes de Compra
+                </Link>
                 {canManage && (
                     <button 
                         onClick={handleOpenCreateModal}
@@ -127,6 +142,10 @@ const StockInsumos: React.FC = () => {
                     insumo={selectedInsumo}
                 />
             )}
+
+            {insumoLotes && (
+                <LotesInsumoModal insumo={insumoLotes} onClose={() => setInsumoLotes(null)} />
+            )}
         </div>
     );
 };
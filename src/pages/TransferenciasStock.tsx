@@ -1,16 +1,293 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import PageHeader from '../components/PageHeader';
-import { Producto, Lote, Deposito, TransferenciaStock } from '../types';
+import { Producto, Deposito, TransferenciaStock, RemitoTransferencia, EstadoRemitoTransferencia } from '../types';
 import { fetchProductosConStock } from '../services/productosService';
 import { fetchDepositos, transferirStock, fetchTransferencias } from '../services/depositosService';
+import { estaLiberado } from '../services/stockService';
+import {
+    fetchRemitosTransferencia, crearRemitoTransferencia, despacharRemitoTransferencia, anularRemitoTransferencia,
+    recibirRemitoTransferencia, descargarRemitoTransferenciaPdf, LineaRemitoTransferencia,
+} from '../services/remitosTransferenciaService';
 import DatabaseErrorDisplay from '../components/DatabaseErrorDisplay';
 import Table, { Column } from '../components/Table';
-import { IconSwitchHorizontal } from '../components/Icons';
+import { IconSwitchHorizontal, IconPlus, IconX, IconTrash, IconTruck, IconCheck, IconDownload } from '../components/Icons';
+
+const ESTADO_CLASES: Record<EstadoRemitoTransferencia, string> = {
+    'Preparado': 'bg-gray-100 text-gray-800',
+    'En tránsito': 'bg-blue-100 text-blue-800',
+    'Recibido parcial': 'bg-yellow-100 text-yellow-800',
+    'Recibido': 'bg-green-100 text-green-800',
+    'Recibido con diferencias': 'bg-red-100 text-red-800',
+    'Anulado': 'bg-gray-100 text-gray-500',
+};
+
+const formatFechaHora = (fecha: string | null) => fecha ? new Date(fecha).toLocaleString('es-AR') : '-';
+
+interface LineaRemitoForm extends LineaRemitoTransferencia {
+    productoId: string;
+}
+
+// Arma el remito con varios lotes del depósito de origen. Queda Preparado hasta despacharlo.
+const NuevoRemitoModal: React.FC<{
+    productos: Producto[];
+    depositos: Deposito[];
+    onClose: () => void;
+    onSuccess: () => void;
+}> = ({ productos, depositos, onClose, onSuccess }) => {
+    const [origenId, setOrigenId] = useState(depositos.find(d => d.es_predeterminado)?.id || depositos[0]?.id || '');
+    const [destinoId, setDestinoId] = useState('');
+    const [transportista, setTransportista] = useState('');
+    const [notas, setNotas] = useState('');
+    const [lineas, setLineas] = useState<LineaRemitoForm[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    const lotesEnOrigen = (producto?: Producto) =>
+        (producto?.lotes || []).filter(l => l.deposito_id === origenId && l.cantidad_actual > 0 && estaLiberado(l));
+    const productosEnOrigen = productos.filter(p => lotesEnOrigen(p).length > 0);
+
+    const handleOrigenChange = (id: string) => {
+        setOrigenId(id);
+        setLineas([]);
+        if (destinoId === id) setDestinoId('');
+    };
+
+    const addLinea = () => {
+        const producto = productosEnOrigen[0];
+        const lote = lotesEnOrigen(producto)[0];
+        if (!producto || !lote) return;
+        setLineas(prev => [...prev, { productoId: producto.id, loteId: lote.id, cantidad: 1 }]);
+    };
+
+    const updateLinea = (index: number, cambios: Partial<LineaRemitoForm>) => {
+        setLineas(prev => prev.map((l, i) => {
+            if (i !== index) return l;
+            const linea = { ...l, ...cambios };
+            // Al cambiar de producto se propone su primer lote
+            if (cambios.productoId) linea.loteId = lotesEnOrigen(productos.find(p => p.id === cambios.productoId))[0]?.id || '';
+            return linea;
+        }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!origenId || !destinoId) {
+            setError({ message: 'Selecciona el depósito de origen y el de destino.' });
+            return;
+        }
+        if (lineas.length === 0 || lineas.some(l => !l.loteId || l.cantidad <= 0)) {
+            setError({ message: 'Agrega al menos un lote con cantidad mayor a cero.' });
+            return;
+        }
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await crearRemitoTransferencia(origenId, destinoId, lineas.map(l => ({ loteId: l.loteId, cantidad: l.cantidad })), transportista, notas);
+            onSuccess();
+        } catch (err: any) {
+            setError(err);
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">Nuevo Remito de Transferencia</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Depósito de Origen*</label>
+                            <select value={origenId} onChange={e => handleOrigenChange(e.target.value)} required className="mt-1 input-style">
+                                {depositos.map(d => <option key={d.id} value={d.id}>{d.nombre}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Depósito de Destino*</label>
+                            <select value={destinoId} onChange={e => setDestinoId(e.target.value)} required className="mt-1 input-style">
+                                <option value="">Seleccionar destino...</option>
+                                {depositos.filter(d => d.id !== origenId).map(d => <option key={d.id} value={d.id}>{d.nombre}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <table className="w-full text-sm">
+                        <thead className="border-b">
+                            <tr className="text-left text-gray-500 text-xs uppercase">
+                                <th className="p-2">Producto</th>
+                                <th className="p-2">Lote</th>
+                                <th className="p-2 w-28">Cantidad</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {lineas.map((l, index) => {
+                                const lotes = lotesEnOrigen(productos.find(p => p.id === l.productoId));
+                                const lote = lotes.find(x => x.id === l.loteId);
+                                return (
+                                    <tr key={index}>
+                                        <td className="p-2">
+                                            <select value={l.productoId} onChange={e => updateLinea(index, { productoId: e.target.value })} className="w-full p-1 border rounded">
+                                                {productosEnOrigen.map(p => <option key={p.id} value={p.id}>{p.nombre}</option>)}
+                                            </select>
+                                        </td>
+                                        <td className="p-2">
+                                            <select value={l.loteId} onChange={e => updateLinea(index, { loteId: e.target.value })} className="w-full p-1 border rounded">
+                                                {lotes.map(x => <option key={x.id} value={x.id}>{x.numero_lote} (Stock: {x.cantidad_actual}u.)</option>)}
+                                            </select>
+                                        </td>
+                                        <td className="p-2">
+                                            <input type="number" min="1" max={lote?.cantidad_actual} value={l.cantidad} onChange={e => updateLinea(index, { cantidad: parseInt(e.target.value, 10) || 0 })} className="w-24 p-1 border rounded" />
+                                        </td>
+                                        <td className="p-2 text-right">
+                                            <button type="button" onClick={() => setLineas(prev => prev.filter((_, i) => i !== index))} className="text-red-500 hover:text-red-700"><IconTrash className="h-4 w-4" /></button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    <div className="flex justify-between items-center">
+                        <button type="button" onClick={addLinea} disabled={productosEnOrigen.length === 0} className="flex items-center text-sm text-primary hover:underline disabled:text-gray-400">
+                            <IconPlus className="h-4 w-4 mr-1" /> Agregar lote
+                        </button>
+                        <p className="text-sm">Total: <strong>{lineas.reduce((sum, l) => sum + (l.cantidad || 0), 0)} u.</strong></p>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Transportista</label>
+                            <input type="text" value={transportista} onChange={e => setTransportista(e.target.value)} className="mt-1 input-style" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">Notas</label>
+                            <input type="text" value={notas} onChange={e => setNotas(e.target.value)} className="mt-1 input-style" />
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-500">El stock sale del depósito de origen al despachar el remito y entra al destino a medida que se recibe.</p>
+
+                    <div className="flex justify-end pt-4 border-t mt-6">
+                        <button type="button" onClick={onClose} className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg mr-2 hover:bg-gray-300">Cancelar</button>
+                        <button type="submit" disabled={isSubmitting} className="bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark disabled:bg-violet-300">
+                            {isSubmitting ? 'Guardando...' : 'Preparar Remito'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+// Recepción en destino: puede ser parcial; al cerrar con faltantes se informa el motivo de la diferencia.
+const RecepcionRemitoModal: React.FC<{
+    remito: RemitoTransferencia;
+    onClose: () => void;
+    onSuccess: () => void;
+}> = ({ remito, onClose, onSuccess }) => {
+    const pendientes = remito.items.filter(i => i.cantidadRecibida < i.cantidad);
+    const [cantidades, setCantidades] = useState<Record<string, number>>(() =>
+        Object.fromEntries(pendientes.map(i => [i.id, i.cantidad - i.cantidadRecibida]))
+    );
+    const [cerrar, setCerrar] = useState(false);
+    const [motivo, setMotivo] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    const faltante = pendientes.reduce((sum, i) => sum + (i.cantidad - i.cantidadRecibida - (cantidades[i.id] || 0)), 0);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const excedido = pendientes.find(i => (cantidades[i.id] || 0) > i.cantidad - i.cantidadRecibida);
+        if (excedido) {
+            setError({ message: `La cantidad del lote ${excedido.numeroLote} supera lo que queda en tránsito (${excedido.cantidad - excedido.cantidadRecibida}).` });
+            return;
+        }
+        if (faltante > 0 && cerrar && !motivo.trim()) {
+            setError({ message: 'Indica el motivo de la diferencia para cerrar el remito.' });
+            return;
+        }
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await recibirRemitoTransferencia(remito.id, cantidades, faltante > 0 && cerrar, motivo.trim());
+            onSuccess();
+        } catch (err: any) {
+            setError(err);
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">Recibir Remito #{remito.numero} <span className="text-primary">{remito.depositoDestinoNombre}</span></h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <table className="w-full text-sm">
+                        <thead className="border-b">
+                            <tr className="text-left text-gray-500 text-xs uppercase">
+                                <th className="p-2">Producto</th>
+                                <th className="p-2">Lote</th>
+                                <th className="p-2 text-center">Enviado</th>
+                                <th className="p-2 text-center">Recibido</th>
+                                <th className="p-2 w-28">Llega ahora</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {pendientes.map(i => (
+                                <tr key={i.id}>
+                                    <td className="p-2 font-medium text-gray-700">{i.productoNombre}</td>
+                                    <td className="p-2 font-mono">{i.numeroLote}</td>
+                                    <td className="p-2 text-center">{i.cantidad}</td>
+                                    <td className="p-2 text-center">{i.cantidadRecibida}</td>
+                                    <td className="p-2">
+                                        <input type="number" min="0" value={cantidades[i.id] ?? 0}
+                                            onChange={e => setCantidades(prev => ({ ...prev, [i.id]: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                                            className="w-24 p-1 border rounded" />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {faltante > 0 && (
+                        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 space-y-2">
+                            <p className="text-sm text-yellow-800">Quedan {faltante} u. sin recibir.</p>
+                            <label className="flex items-center text-sm text-gray-700">
+                                <input type="checkbox" checked={cerrar} onChange={e => setCerrar(e.target.checked)} className="mr-2" />
+                                Cerrar el remito con diferencias (no se espera el resto)
+                            </label>
+                            {cerrar && (
+                                <input type="text" value={motivo} onChange={e => setMotivo(e.target.value)} placeholder="Motivo de la diferencia (rotura, faltante, error de carga...)" className="input-style" />
+                            )}
+                        </div>
+                    )}
+                    <div className="flex justify-end pt-4 border-t mt-6">
+                        <button type="button" onClick={onClose} className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg mr-2 hover:bg-gray-300">Cancelar</button>
+                        <button type="submit" disabled={isSubmitting} className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark disabled:bg-violet-300">
+                            <IconCheck className="h-5 w-5 mr-2" />
+                            {isSubmitting ? 'Registrando...' : 'Registrar Recepción'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
 
 const TransferenciasStock: React.FC = () => {
     const [productos, setProductos] = useState<Producto[]>([]);
     const [depositos, setDepositos] = useState<Deposito[]>([]);
     const [transferencias, setTransferencias] = useState<TransferenciaStock[]>([]);
+    const [remitos, setRemitos] = useState<RemitoTransferencia[]>([]);
+    const [tab, setTab] = useState<'remitos' | 'rapida' | 'historial'>('remitos');
+    const [isNuevoRemitoOpen, setIsNuevoRemitoOpen] = useState(false);
+    const [remitoRecibiendo, setRemitoRecibiendo] = useState<RemitoTransferencia | null>(null);
     
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<any | null>(null);
@@ -25,20 +302,23 @@ const TransferenciasStock: React.FC = () => {
     const selectedProducto = productos.find(p => p.id === selectedProductoId);
     const selectedLote = selectedProducto?.lotes.find(l => l.id === selectedLoteId);
     
-    const lotesDisponibles = selectedProducto?.lotes.filter(l => l.cantidad_actual > 0) || [];
+    // Los lotes en cuarentena o rechazados no se transfieren
+    const lotesDisponibles = selectedProducto?.lotes.filter(l => l.cantidad_actual > 0 && estaLiberado(l)) || [];
 
     const loadData = useCallback(async () => {
         setLoading(true);
         setError(null);
         try {
-            const [productosData, depositosData, transferenciasData] = await Promise.all([
+            const [productosData, depositosData, transferenciasData, remitosData] = await Promise.all([
                 fetchProductosConStock(),
                 fetchDepositos(),
-                fetchTransferencias()
+                fetchTransferencias(),
+                fetchRemitosTransferencia()
             ]);
             setProductos(productosData.filter(p => p.stockTotal > 0));
             setDepositos(depositosData);
             setTransferencias(transferenciasData);
+            setRemitos(remitosData);
         } catch (err: any) {
             setError(err);
         } finally {
@@ -91,6 +371,83 @@ const TransferenciasStock: React.FC = () => {
         }
     };
 
+    const runAction = async (action: () => Promise<void>) => {
+        setError(null);
+        try {
+            await action();
+            loadData();
+        } catch (err: any) {
+            setError(err);
+        }
+    };
+
+    const handleDespachar = (remito: RemitoTransferencia) => {
+        if (window.confirm(`¿Despachar el remito #${remito.numero} hacia ${remito.depositoDestinoNombre}? El stock saldrá de ${remito.depositoOrigenNombre} y quedará en tránsito.`)) {
+            runAction(() => despacharRemitoTransferencia(remito.id));
+        }
+    };
+
+    const handleAnular = (remito: RemitoTransferencia) => {
+        if (window.confirm(`¿Anular el remito #${remito.numero}?`)) {
+            runAction(() => anularRemitoTransferencia(remito.id));
+        }
+    };
+
+    const handleModalSuccess = () => {
+        setIsNuevoRemitoOpen(false);
+        setRemitoRecibiendo(null);
+        loadData();
+    };
+
+    const remitoColumns: Column<RemitoTransferencia>[] = [
+        { header: 'Remito', accessor: 'numero', render: item => <span className="font-mono font-semibold">#{item.numero}</span> },
+        { header: 'Origen → Destino', accessor: 'depositoOrigenNombre', render: item => (
+            <div>
+                <p className="font-medium">{item.depositoOrigenNombre} → {item.depositoDestinoNombre}</p>
+                {item.transportista && <p className="text-xs text-gray-500">Transporta: {item.transportista}</p>}
+            </div>
+        )},
+        { header: 'Fechas', accessor: 'fecha', render: item => (
+            <div className="text-xs">
+                <p>Preparado: {formatFechaHora(item.fecha)}</p>
+                {item.fechaDespacho && <p>Despachado: {formatFechaHora(item.fechaDespacho)}</p>}
+                {item.fechaRecepcion && <p>Recibido: {formatFechaHora(item.fechaRecepcion)}</p>}
+            </div>
+        )},
+        { header: 'Ítems', accessor: 'items', render: item => (
+            <ul className="text-xs">
+                {item.items.map(i => {
+                    const diferencia = ['Recibido', 'Recibido con diferencias'].includes(item.estado) && i.cantidadRecibida !== i.cantidad;
+                    return (
+                        <li key={i.id} className={diferencia ? 'text-red-600' : ''}>
+                            {i.productoNombre} <span className="font-mono">({i.numeroLote})</span>: {i.cantidadRecibida}/{i.cantidad} u.
+                        </li>
+                    );
+                })}
+                {item.motivoDiferencias && <li className="text-red-600 italic">Diferencia: {item.motivoDiferencias}</li>}
+            </ul>
+        )},
+        { header: 'Estado', accessor: 'estado', render: item => (
+            <span className={`px-2 py-1 text-xs font-semibold rounded-full ${ESTADO_CLASES[item.estado]}`}>{item.estado}</span>
+        )},
+        { header: 'Acciones', accessor: 'id', render: item => (
+            <div className="flex space-x-2">
+                {item.estado === 'Preparado' && (
+                    <>
+                        <button onClick={() => handleDespachar(item)} className="text-blue-600 hover:text-blue-800" title="Despachar"><IconTruck className="h-5 w-5" /></button>
+                        <button onClick={() => handleAnular(item)} className="text-red-600 hover:text-red-800" title="Anular"><IconTrash className="h-5 w-5" /></button>
+                    </>
+                )}
+                {['En tránsito', 'Recibido parcial'].includes(item.estado) && (
+                    <button onClick={() => setRemitoRecibiendo(item)} className="text-green-600 hover:text-green-800" title="Recibir"><IconCheck className="h-5 w-5" /></button>
+                )}
+                {item.estado !== 'Anulado' && (
+                    <button onClick={() => descargarRemitoTransferenciaPdf(item)} className="text-gray-600 hover:text-gray-800" title="Imprimir remito"><IconDownload className="h-5 w-5" /></button>
+                )}
+            </div>
+        )},
+    ];
+
     const transferenciasColumns: Column<TransferenciaStock>[] = [
         { header: 'Fecha', accessor: 'fecha' },
         { header: 'Producto', accessor: 'productoNombre' },
@@ -104,9 +461,34 @@ const TransferenciasStock: React.FC = () => {
 
     return (
         <div>
-            <PageHeader title="Transferencias de Stock entre Depósitos" />
+            <PageHeader title="Transferencias de Stock entre Depósitos">
+                {tab === 'remitos' && (
+                    <button
+                        onClick={() => depositos.length < 2 ? setError({ message: 'Se necesitan al menos dos depósitos para armar un remito.' }) : setIsNuevoRemitoOpen(true)}
+                        className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark transition-colors"
+                    >
+                        <IconPlus className="h-5 w-5 mr-2" />
+                        Nuevo Remito
+                    </button>
+                )}
+            </PageHeader>
             <DatabaseErrorDisplay error={error} />
 
+            <div className="flex border-b mb-4">
+                {([['remitos', 'Remitos'], ['rapida', 'Transferencia Rápida'], ['historial', 'Historial']] as const).map(([key, label]) => (
+                    <button
+                        key={key}
+                        onClick={() => setTab(key)}
+                        className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${tab === key ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {tab === 'remitos' && <Table columns={remitoColumns} data={remitos} isLoading={loading} />}
+
+            {tab === 'rapida' && (
             <div className="bg-surface p-6 rounded-lg shadow-md mb-8">
                 <h3 className="text-lg font-semibold text-gray-800 mb-4 border-b pb-2">Nueva Transferencia</h3>
                 <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
@@ -146,11 +528,16 @@ const TransferenciasStock: React.FC = () => {
                     </div>
                 </form>
             </div>
+            )}
 
-            <div>
-                <h3 className="text-xl font-bold text-on-surface mb-4">Historial de Transferencias</h3>
-                <Table columns={transferenciasColumns} data={transferencias} isLoading={loading} />
-            </div>
+            {tab === 'historial' && <Table columns={transferenciasColumns} data={transferencias} isLoading={loading} />}
+
+            {isNuevoRemitoOpen && (
+                <NuevoRemitoModal productos={productos} depositos={depositos} onClose={() => setIsNuevoRemitoOpen(false)} onSuccess={handleModalSuccess} />
+            )}
+            {remitoRecibiendo && (
+                <RecepcionRemitoModal remito={remitoRecibiendo} onClose={() => setRemitoRecibiendo(null)} onSuccess={handleModalSuccess} />
+            )}
              <style>{`.input-style { display: block; width: 100%; padding: 0.5rem 0.75rem; border: 1px solid #D1D5DB; border-radius: 0.375rem; } .input-style:focus { border-color: #8a5cf6; } .input-style:disabled { background-color: #f3f4f6 }`}</style>
         </div>
     );
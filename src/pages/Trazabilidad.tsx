@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import PageHeader from '@/components/PageHeader';
+import { IconSearch, IconDownload, IconFileText, IconAlertTriangle } from '@/components/Icons';
+import { TrazabilidadLote, MovimientoLote } from '@/types';
+import { fetchTrazabilidadLote, fetchProductosConLote, exportarContactosRecallCsv, descargarTrazabilidadPdf } from '@/services/trazabilidadService';
+import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
+
+const formatFecha = (fecha: string | null) => fecha ? new Date(fecha).toLocaleDateString('es-AR') : '-';
+
+const MOVIMIENTO_CLASES: Record<MovimientoLote['tipo'], string> = {
+    'Alta': 'bg-green-100 text-green-800',
+    'Transferencia': 'bg-blue-100 text-blue-800',
+    'Venta': 'bg-violet-100 text-violet-800',
+    'Devolución': 'bg-yellow-100 text-yellow-800',
+};
+
+const Seccion: React.FC<{ titulo: string; children: React.ReactNode }> = ({ titulo, children }) => (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+        <p className="bg-gray-50 px-4 py-2 text-sm font-semibold text-gray-700 border-b">{titulo}</p>
+        {children}
+    </div>
+);
+
+const Trazabilidad: React.FC = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [busqueda, setBusqueda] = useState(searchParams.get('lote') || '');
+    const [traza, setTraza] = useState<TrazabilidadLote | null>(null);
+    // Productos con ese número de lote cuando hay que elegir uno
+    const [productosLote, setProductosLote] = useState<{ id: string; nombre: string }[]>([]);
+    const [noEncontrado, setNoEncontrado] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    const buscar = useCallback(async (numeroLote: string, productoId: string | null) => {
+        if (!numeroLote.trim()) return;
+        setLoading(true);
+        setError(null);
+        setNoEncontrado(false);
+        setTraza(null);
+        try {
+            const productos = await fetchProductosConLote(numeroLote);
+            const producto = productos.find(p => p.id === productoId) || (productos.length === 1 ? productos[0] : null);
+            setProductosLote(producto ? [] : productos);
+            if (productos.length === 0) {
+                setNoEncontrado(true);
+            } else if (producto) {
+                const resultado = await fetchTrazabilidadLote(numeroLote, producto.id);
+                setTraza(resultado);
+                setNoEncontrado(!resultado);
+            }
+        } catch (err: any) {
+            console.error(`[TrazabilidadPage] Error tracing lot:`, err);
+            setError(err);
+            setTraza(null);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const loteParam = searchParams.get('lote');
+    const productoParam = searchParams.get('producto');
+    useEffect(() => {
+        if (loteParam) buscar(loteParam, productoParam);
+    }, [loteParam, productoParam, buscar]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const numero = busqueda.trim();
+        if (numero === loteParam) buscar(numero, productoParam);
+        else setSearchParams(numero ? { lote: numero } : {});
+    };
+
+    return (
+        <div>
+            <PageHeader title="Trazabilidad de Lotes">
+                {traza && (
+                    <>
+                        <button onClick={() => exportarContactosRecallCsv(traza)} className="flex items-center bg-white text-gray-700 border px-4 py-2 rounded-lg shadow-sm hover:bg-gray-50 transition-colors">
+                            <IconDownload className="h-5 w-5 mr-2" />
+                            Contactos CSV
+                        </button>
+                        <button onClick={() => descargarTrazabilidadPdf(traza)} className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark transition-colors">
+                            <IconFileText className="h-5 w-5 mr-2" />
+                            Informe de Recall
+                        </button>
+                    </>
+                )}
+            </PageHeader>
+
+            <form onSubmit={handleSubmit} className="flex items-center gap-2 mb-6 max-w-lg">
+                <input
+                    type="text"
+                    value={busqueda}
+                    onChange={e => setBusqueda(e.target.value)}
+                    placeholder="Número de lote del producto"
+                    className="flex-1 input-style font-mono"
+                />
+                <button type="submit" disabled={loading} className="flex items-center bg-gray-800 text-white px-4 py-2 rounded-lg hover:bg-gray-700 disabled:opacity-50">
+                    <IconSearch className="h-5 w-5 mr-2" />
+                    {loading ? 'Buscando...' : 'Rastrear'}
+                </button>
+            </form>
+
+            <DatabaseErrorDisplay error={error} />
+            {noEncontrado && <p className="text-gray-500">No existe ningún lote con el número <span className="font-mono">{loteParam}</span>.</p>}
+            {productosLote.length > 0 && loteParam && (
+                <div className="bg-white rounded-lg shadow p-4 max-w-lg">
+                    <p className="text-sm text-gray-700 mb-2">Hay {productosLote.length} productos con el lote <span className="font-mono">{loteParam}</span>. Elige cuál rastrear:</p>
+                    <div className="flex flex-col gap-1">
+                        {productosLote.map(p => (
+                            <button key={p.id} onClick={() => setSearchParams({ lote: loteParam, producto: p.id })} className="text-left text-primary hover:underline">
+                                {p.nombre}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {traza && (
+                <div className="space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        <div className="bg-white rounded-lg shadow p-4">
+                            <p className="text-xs text-gray-500 uppercase">Producto</p>
+                            <p className="font-semibold">{Array.from(new Set(traza.lotes.map(l => l.productoNombre))).join(', ')}</p>
+                            <p className="text-xs text-gray-500">Vence: {formatFecha(traza.lotes[0].fechaVencimiento)}</p>
+                        </div>
+                        <div className="bg-white rounded-lg shadow p-4">
+                            <p className="text-xs text-gray-500 uppercase">Producidas</p>
+                            <p className="text-2xl font-bold">{traza.unidadesProducidas} u.</p>
+                        </div>
+                        <div className="bg-white rounded-lg shadow p-4">
+                            <p className="text-xs text-gray-500 uppercase">En clientes</p>
+                            <p className="text-2xl font-bold text-red-600">{traza.unidadesEntregadas} u.</p>
+                            <p className="text-xs text-gray-500">{traza.contactos.length} cliente(s) a contactar</p>
+                        </div>
+                        <div className="bg-white rounded-lg shadow p-4">
+                            <p className="text-xs text-gray-500 uppercase">En depósitos</p>
+                            <p className="text-2xl font-bold">{traza.unidadesEnStock} u.</p>
+                        </div>
+                    </div>
+
+                    <Seccion titulo="Lista de contactos para recall">
+                        {traza.contactos.length === 0 ? (
+                            <p className="p-4 text-sm text-gray-500">Ningún cliente identificado tiene unidades de este lote.</p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead className="border-b">
+                                    <tr className="text-left text-gray-500 text-xs uppercase">
+                                        <th className="p-2">Cliente</th>
+                                        <th className="p-2">Teléfono</th>
+                                        <th className="p-2">Email</th>
+                                        <th className="p-2">Localidad</th>
+                                        <th className="p-2 text-right">Unidades</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {traza.contactos.map(c => (
+                                        <tr key={c.clienteId}>
+                                            <td className="p-2">
+                                                <p className="font-semibold">{c.nombre}</p>
+                                                {c.representante && <p className="text-xs text-gray-500">{c.representante}</p>}
+                                            </td>
+                                            <td className="p-2">{c.telefono || '-'}</td>
+                                            <td className="p-2">{c.email || '-'}</td>
+                                            <td className="p-2">{[c.localidad, c.provincia].filter(Boolean).join(', ') || '-'}</td>
+                                            <td className="p-2 text-right font-semibold">{c.unidades}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </Seccion>
+
+                    <Seccion titulo="Entregas (hacia adelante)">
+                        {traza.entregas.length === 0 ? (
+                            <p className="p-4 text-sm text-gray-500">Este lote no se vendió ni consignó.</p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead className="border-b">
+                                    <tr className="text-left text-gray-500 text-xs uppercase">
+                                        <th className="p-2">Fecha</th>
+                                        <th className="p-2">Venta</th>
+                                        <th className="p-2">Cliente</th>
+                                        <th className="p-2">Depósito</th>
+                                        <th className="p-2 text-right">Cantidad</th>
+                                        <th className="p-2 text-right">Devueltas</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {traza.entregas.map((e, index) => (
+                                        <tr key={`${e.ventaId}-${index}`}>
+                                            <td className="p-2">{formatFecha(e.fecha)}</td>
+                                            <td className="p-2">
+                                                <span className="font-mono text-xs">{e.ventaId.substring(0, 8)}</span>
+                                                <p className="text-xs text-gray-500">{e.tipo === 'Consignacion' ? 'Consignación' : 'Venta'} · {e.estado}</p>
+                                            </td>
+                                            <td className="p-2">{e.clienteNombre}</td>
+                                            <td className="p-2">{e.depositoNombre}</td>
+                                            <td className="p-2 text-right">{e.cantidad}</td>
+                                            <td className="p-2 text-right">{e.cantidadDevuelta || '-'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </Seccion>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <Seccion titulo="Historial por depósito">
+                            <table className="w-full text-sm">
+                                <tbody className="divide-y divide-gray-100">
+                                    {traza.movimientos.map((m, index) => (
+                                        <tr key={index}>
+                                            <td className="p-2 whitespace-nowrap">{formatFecha(m.fecha)}</td>
+                                            <td className="p-2"><span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${MOVIMIENTO_CLASES[m.tipo]}`}>{m.tipo}</span></td>
+                                            <td className="p-2">
+                                                {m.descripcion}
+                                                <p className="text-xs text-gray-500">{m.depositoNombre}</p>
+                                            </td>
+                                            <td className={`p-2 text-right font-semibold ${m.cantidad < 0 ? 'text-red-600' : ''}`}>{m.cantidad > 0 ? `+${m.cantidad}` : m.cantidad}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <div className="border-t px-4 py-2 text-xs text-gray-500">
+                                {traza.lotes.map(l => (
+                                    <p key={l.id}>{l.depositoNombre}: {l.cantidadActual} / {l.cantidadInicial} u. en stock</p>
+                                ))}
+                            </div>
+                        </Seccion>
+
+                        <Seccion titulo="Producción (hacia atrás)">
+                            {traza.produccion.length === 0 ? (
+                                <p className="p-4 text-sm text-gray-500 flex items-center">
+                                    <IconAlertTriangle className="h-4 w-4 mr-2 text-yellow-500" />
+                                    Lote cargado sin orden de producción: no hay registro de los lotes de insumo usados.
+                                </p>
+                            ) : traza.produccion.map(p => (
+                                <div key={p.ordenNumero} className="p-4">
+                                    <p className="font-semibold text-sm">Orden #{p.ordenNumero} · {formatFecha(p.fecha)} · {p.cantidad} u.</p>
+                                    <table className="w-full text-sm mt-2">
+                                        <thead className="border-b">
+                                            <tr className="text-left text-gray-500 text-xs uppercase">
+                                                <th className="p-2">Insumo</th>
+                                                <th className="p-2">Lote Proveedor</th>
+                                                <th className="p-2">Vence</th>
+                                                <th className="p-2 text-right">Usado</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-100">
+                                            {p.insumos.map((i, index) => (
+                                                <tr key={index}>
+                                                    <td className="p-2">{i.insumoNombre}</td>
+                                                    <td className="p-2">
+                                                        <span className="font-mono">{i.numeroLote}</span>
+                                                        {i.proveedor && <p className="text-xs text-gray-500">{i.proveedor}</p>}
+                                                    </td>
+                                                    <td className="p-2">{i.fechaVencimiento ? i.fechaVencimiento.split('-').reverse().join('/') : '-'}</td>
+                                                    <td className="p-2 text-right">{i.cantidad} {i.unidad}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            ))}
+                        </Seccion>
+                    </div>
+                </div>
+            )}
+            <style>{`.input-style { display: block; width: 100%; padding: 0.5rem 0.75rem; border: 1px solid #D1D5DB; border-radius: 0.375rem; } .input-style:focus { border-color: #8a5cf6; }`}</style>
+        </div>
+    );
+};
+
+export default Trazabilidad;
@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import PageHeader from '@/components/PageHeader';
+import { IconX, IconTag, IconSearch } from '@/components/Icons';
+import { LoteProximoVencer, TramoVencimiento } from '@/types';
+import Table, { Column } from '@/components/Table';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchLotesPorVencer, publicarPromocionVencimiento, finalizarPromocionVencimiento, TRAMOS_VENCIMIENTO } from '@/services/vencimientosService';
+import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
+
+const formatPrecio = (n: number) => `$${n.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatFecha = (fecha: string) => fecha.slice(0, 10).split('-').reverse().join('/');
+
+const TRAMO_CLASES: Record<TramoVencimiento, string> = {
+    'Vencido': 'bg-red-100 text-red-800',
+    '30 días': 'bg-orange-100 text-orange-800',
+    '60 días': 'bg-yellow-100 text-yellow-800',
+    '90 días': 'bg-blue-100 text-blue-800',
+};
+
+// --- Promoción Modal Component ---
+interface PromocionModalProps {
+    lote: LoteProximoVencer;
+    onClose: () => void;
+    onSuccess: () => void;
+}
+
+const PromocionModal: React.FC<PromocionModalProps> = ({ lote, onClose, onSuccess }) => {
+    const [descuento, setDescuento] = useState(lote.descuentoSugerido);
+    const [mensaje, setMensaje] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (descuento <= 0 || descuento > 90) {
+            setError({ message: 'El descuento debe estar entre 1% y 90%.' });
+            return;
+        }
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await publicarPromocionVencimiento(lote, descuento, mensaje);
+            onSuccess();
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-md">
+                <div className="flex justify-between items-center p-5 border-b">
+                    <h3 className="text-xl font-semibold text-gray-800">Publicar Promoción</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-6 h-6" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    <p className="text-sm text-gray-600">
+                        {lote.productoNombre} · Lote <span className="font-mono">{lote.numeroLote}</span> · {lote.cantidad} u. que vencen el {formatFecha(lote.fechaVencimiento)}.
+                    </p>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Descuento (%)</label>
+                        <input type="number" min="1" max="90" value={descuento} onChange={e => setDescuento(Number(e.target.value))} className="w-full input-style" />
+                        <p className="text-xs text-gray-500 mt-1">Sugerido para el tramo de {lote.tramo}: {lote.descuentoSugerido}%.</p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Mensaje del banner</label>
+                        <input type="text" value={mensaje} onChange={e => setMensaje(e.target.value)} placeholder={`${descuento}% OFF en ${lote.productoNombre}`} className="w-full input-style" />
+                    </div>
+                    <p className="text-xs text-gray-500">Se muestra en la tienda hasta el vencimiento o hasta que se agote el lote, y el descuento se aplica al precio del producto.</p>
+                    <div className="flex justify-end space-x-3 pt-2">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300">Cancelar</button>
+                        <button type="submit" disabled={isSubmitting} className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary-dark disabled:bg-violet-300">
+                            {isSubmitting ? 'Publicando...' : 'Publicar'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+// --- Main Page Component ---
+const Vencimientos: React.FC = () => {
+    const { profile } = useAuth();
+    const [lotes, setLotes] = useState<LoteProximoVencer[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<any | null>(null);
+    const [tramo, setTramo] = useState<TramoVencimiento | 'Todos'>('Todos');
+    const [depositoId, setDepositoId] = useState('');
+    const [lotePromocion, setLotePromocion] = useState<LoteProximoVencer | null>(null);
+
+    const canManage = profile?.roles?.some(role => ['superadmin', 'administrativo'].includes(role));
+
+    const loadData = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            setLotes(await fetchLotesPorVencer(90));
+        } catch (err: any) {
+            console.error(`[VencimientosPage] Error fetching data:`, err);
+            setError(err);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const handleFinalizar = async (lote: LoteProximoVencer) => {
+        if (!lote.promocion || !window.confirm(`¿Quitar la promoción del lote ${lote.numeroLote}?`)) return;
+        setError(null);
+        try {
+            await finalizarPromocionVencimiento(lote.promocion.id);
+            loadData();
+        } catch (err: any) {
+            setError(err);
+        }
+    };
+
+    const depositos = useMemo(() => {
+        const mapa = new Map<string, string>();
+        lotes.forEach(l => mapa.set(l.depositoId, l.depositoNombre));
+        return Array.from(mapa.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+    }, [lotes]);
+
+    const lotesDeposito = depositoId ? lotes.filter(l => l.depositoId === depositoId) : lotes;
+    const lotesVisibles = tramo === 'Todos' ? lotesDeposito : lotesDeposito.filter(l => l.tramo === tramo);
+
+    const resumen = TRAMOS_VENCIMIENTO.map(t => {
+        const delTramo = lotesDeposito.filter(l => l.tramo === t);
+        return {
+            tramo: t,
+            lotes: delTramo.length,
+            unidades: delTramo.reduce((sum, l) => sum + l.cantidad, 0),
+            valor: delTramo.reduce((sum, l) => sum + l.valorCosto, 0),
+        };
+    });
+
+    const columns: Column<LoteProximoVencer>[] = [
+        { header: 'Vencimiento', accessor: 'fechaVencimiento', render: item => (
+            <div>
+                <span className={`px-2 py-1 text-xs font-semibold rounded-full ${TRAMO_CLASES[item.tramo]}`}>{formatFecha(item.fechaVencimiento)}</span>
+                <p className="text-xs text-gray-500 mt-1">{item.diasRestantes < 0 ? `Venció hace ${-item.diasRestantes} días` : `Faltan ${item.diasRestantes} días`}</p>
+            </div>
+        )},
+        { header: 'Producto', accessor: 'productoNombre', render: item => (
+            <div>
+                <p className="font-semibold">{item.productoNombre}</p>
+                <p className="text-xs text-gray-500">Lote <span className="font-mono">{item.numeroLote}</span></p>
+            </div>
+        )},
+        { header: 'Depósito', accessor: 'depositoNombre' },
+        { header: 'Unidades', accessor: 'cantidad', render: item => `${item.cantidad} u.` },
+        { header: 'Valor a Costo', accessor: 'valorCosto', render: item => formatPrecio(item.valorCosto) },
+        { header: 'Acción Sugerida', accessor: 'promocion', render: item => {
+            if (item.tramo === 'Vencido') {
+                return <span className="text-xs font-semibold text-red-600">Bloqueado para venta · dar de baja</span>;
+            }
+            if (item.promocion) {
+                return (
+                    <div className="text-xs">
+                        <p className="font-semibold text-green-700">Promo activa: {item.promocion.descuentoPct}% OFF</p>
+                        <p className="text-gray-500">{item.promocion.mensaje}</p>
+                    </div>
+                );
+            }
+            return <span className="text-xs text-gray-600">Sugerido: {item.descuentoSugerido}% OFF</span>;
+        }},
+        { header: 'Acciones', accessor: 'id', render: item => (
+            <div className="flex space-x-3">
+                <Link to={`/stock/trazabilidad?lote=${encodeURIComponent(item.numeroLote)}&producto=${item.productoId}`} className="text-gray-500 hover:text-gray-700" title="Trazabilidad del Lote">
+                    <IconSearch className="h-5 w-5" />
+                </Link>
+                {canManage && item.tramo !== 'Vencido' && (item.promocion ? (
+                    <button onClick={() => handleFinalizar(item)} className="text-red-500 hover:text-red-700" title="Quitar Promoción"><IconX className="h-5 w-5" /></button>
+                ) : (
+                    <button onClick={() => setLotePromocion(item)} className="text-green-600 hover:text-green-800" title="Publicar Promoción"><IconTag className="h-5 w-5" /></button>
+                ))}
+            </div>
+        )},
+    ];
+
+    return (
+        <div>
+            <PageHeader title="Vencimientos">
+                <select value={depositoId} onChange={e => setDepositoId(e.target.value)} className="input-style bg-white">
+                    <option value="">Todos los depósitos</option>
+                    {depositos.map(([id, nombre]) => <option key={id} value={id}>{nombre}</option>)}
+                </select>
+            </PageHeader>
+            <DatabaseErrorDisplay error={error} />
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                {resumen.map(r => (
+                    <button
+                        key={r.tramo}
+                        onClick={() => setTramo(tramo === r.tramo ? 'Todos' : r.tramo)}
+                        className={`text-left bg-white rounded-lg shadow p-4 border-2 transition-colors ${tramo === r.tramo ? 'border-primary' : 'border-transparent hover:border-gray-200'}`}
+                    >
+                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${TRAMO_CLASES[r.tramo]}`}>{r.tramo === 'Vencido' ? 'Vencidos' : `Hasta ${r.tramo}`}</span>
+                        <p className="text-2xl font-bold mt-2">{formatPrecio(r.valor)}</p>
+                        <p className="text-xs text-gray-500">{r.lotes} lote(s) · {r.unidades} u.</p>
+                    </button>
+                ))}
+            </div>
+
+            <Table columns={columns} data={lotesVisibles} isLoading={loading} />
+
+            {lotePromocion && (
+                <PromocionModal
+                    lote={lotePromocion}
+                    onClose={() => setLotePromocion(null)}
+                    onSuccess={() => { setLotePromocion(null); loadData(); }}
+                />
+            )}
+            <style>{`.input-style { display: block; width: 100%; padding: 0.5rem 0.75rem; border: 1px solid #D1D5DB; border-radius: 0.375rem; } .input-style:focus { border-color: #8a5cf6; }`}</style>
+        </div>
+    );
+};
+
+export default Vencimientos;
@@ -1,11 +1,17 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import PageHeader from '@/components/PageHeader';
-import { Venta, SimpleCliente } from '@/types';
-import { IconPlus, IconTrash, IconBrandWhatsapp, IconEye, IconX, IconPackage, IconTruck, IconClock, IconWorld, IconFileText, IconCheck, IconUsers, IconUserPlus, IconUserCheck, IconArrowLeft, IconDownload } from '@/components/Icons';
+import { Venta, SimpleCliente, VentaEstadoHistorial, Factura, Deposito, ItemDevolvible, NotaCredito, DestinoDevolucion } from '@/types';
+import { IconPlus, IconTrash, IconBrandWhatsapp, IconEye, IconX, IconPackage, IconTruck, IconClock, IconWorld, IconFileText, IconCheck, IconUsers, IconUserPlus, IconUserCheck, IconArrowLeft, IconDownload, IconCashBanknote } from '@/components/Icons';
 import { useAuth } from '@/contexts/AuthContext';
-import { fetchVentas as fetchVentasService, updateVentaStatus, deleteVenta, assignClientToVenta } from '@/services/ventasService';
+import { fetchVentas as fetchVentasService, updateVentaStatus, deleteVenta, puedeEliminarVenta, assignClientToVenta, fetchHistorialEstadoVenta, isTransicionPermitida } from '@/services/ventasService';
 import { fetchSimpleClientes, createCliente } from '@/services/clientesService';
+import { liberarReservasVencidas } from '@/services/reservasService';
+import { fetchMinutosReserva, saveMinutosReserva, fetchConfigFacturacion, saveConfigFacturacion, ConfigFacturacion } from '@/services/ajustesService';
+import { fetchFacturasPorVenta, emitirFactura, descargarFacturaPdf } from '@/services/facturacionService';
+import { fetchItemsDevolvibles, fetchNotasCredito, registrarDevolucion } from '@/services/devolucionesService';
+import { fetchDepositos } from '@/services/depositosService';
+import { fetchVentasDeLiquidacion } from '@/services/consignacionesService';
 import DatabaseErrorDisplay from '@/components/DatabaseErrorDisplay';
 
 // Tipos para las pestañas
@@ -72,6 +78,126 @@ const StoreBadge: React.FC<{ tienda: string | null | undefined }> = ({ tienda })
     );
 };
 
+// CONFIGURACIÓN DE LA VENTANA DE RESERVA DE PEDIDOS WEB
+const ReservaWebConfig: React.FC = () => {
+    const [minutos, setMinutos] = useState<number>(60);
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => { fetchMinutosReserva().then(setMinutos); }, []);
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            await saveMinutosReserva(minutos);
+            setSaved(true);
+            setTimeout(() => setSaved(false), 2000);
+        } catch (err: any) {
+            alert(err.message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-2 text-xs text-gray-600" title="Tiempo que un pedido web sin pagar retiene el stock antes de pasar a 'Carrito Abandonado'">
+            <IconClock className="w-4 h-4 text-gray-400" />
+            <span className="font-semibold">Reserva web</span>
+            <input
+                type="number"
+                min={5}
+                value={minutos}
+                onChange={e => setMinutos(parseInt(e.target.value, 10) || 0)}
+                className="w-16 p-1.5 border border-gray-200 rounded-lg text-center"
+            />
+            <span>min</span>
+            <button onClick={handleSave} disabled={saving || minutos < 5} className="px-2 py-1.5 bg-gray-100 rounded-lg font-bold hover:bg-gray-200 disabled:opacity-50">
+                {saved ? '✓' : saving ? '...' : 'Guardar'}
+            </button>
+        </div>
+    );
+};
+
+// MODAL DE DATOS DEL EMISOR PARA FACTURACIÓN ELECTRÓNICA
+const FacturacionConfigModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const [config, setConfig] = useState<ConfigFacturacion | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => { fetchConfigFacturacion().then(setConfig); }, []);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setConfig(prev => prev ? { ...prev, [name]: name === 'puntoVenta' ? parseInt(value, 10) || 0 : value } : prev);
+    };
+
+    const handleSave = async () => {
+        if (!config) return;
+        setSaving(true);
+        setError(null);
+        try {
+            await saveConfigFacturacion(config);
+            onClose();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-[100] p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col">
+                <div className="p-4 border-b bg-gray-50 flex justify-between items-center">
+                    <h3 className="font-bold text-gray-800">Facturación Electrónica (AFIP)</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-5 h-5" /></button>
+                </div>
+                {!config ? (
+                    <div className="text-center py-8 text-gray-400 text-sm">Cargando configuración...</div>
+                ) : (
+                    <div className="p-4 grid grid-cols-2 gap-3 text-sm">
+                        <label className="col-span-2">Razón social
+                            <input name="razonSocial" value={config.razonSocial} onChange={handleChange} className="mt-1 w-full p-2 border rounded-lg" />
+                        </label>
+                        <label>CUIT
+                            <input name="cuit" value={config.cuit} onChange={handleChange} placeholder="20-12345678-9" className="mt-1 w-full p-2 border rounded-lg" />
+                        </label>
+                        <label>Condición frente al IVA
+                            <select name="condicionIva" value={config.condicionIva} onChange={handleChange} className="mt-1 w-full p-2 border rounded-lg">
+                                <option value="Responsable Inscripto">Responsable Inscripto</option>
+                                <option value="Monotributo">Monotributo</option>
+                            </select>
+                        </label>
+                        <label className="col-span-2">Domicilio comercial
+                            <input name="domicilio" value={config.domicilio} onChange={handleChange} className="mt-1 w-full p-2 border rounded-lg" />
+                        </label>
+                        <label>Punto de venta
+                            <input type="number" min={1} name="puntoVenta" value={config.puntoVenta} onChange={handleChange} className="mt-1 w-full p-2 border rounded-lg" />
+                        </label>
+                        <label>Inicio de actividades
+                            <input type="date" name="inicioActividades" value={config.inicioActividades} onChange={handleChange} className="mt-1 w-full p-2 border rounded-lg" />
+                        </label>
+                        <label className="col-span-2">Modo
+                            <select name="modo" value={config.modo} onChange={handleChange} className="mt-1 w-full p-2 border rounded-lg">
+                                <option value="mock">Prueba local (sin AFIP)</option>
+                                <option value="homologacion">Homologación AFIP</option>
+                                <option value="produccion">Producción AFIP</option>
+                            </select>
+                        </label>
+                    </div>
+                )}
+                {error && <div className="p-3 bg-red-50 text-red-600 text-xs">{error}</div>}
+                <div className="p-4 border-t bg-gray-50 flex justify-end gap-2">
+                    <button onClick={onClose} className="px-4 py-2 text-sm rounded-lg hover:bg-gray-200">Cancelar</button>
+                    <button onClick={handleSave} disabled={saving || !config} className="px-4 py-2 text-sm bg-primary text-white rounded-lg font-bold disabled:opacity-50">
+                        {saving ? 'Guardando...' : 'Guardar'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
 // MODAL PARA VINCULAR CLIENTE
 const AssignClientModal: React.FC<{
     venta: Venta;
@@ -152,7 +278,245 @@ const AssignClientModal: React.FC<{
     );
 };
 
-const VentaDetailContent: React.FC<{ venta: any }> = ({ venta }) => {
+const DESTINOS_DEVOLUCION: { value: DestinoDevolucion; label: string }[] = [
+    { value: 'lote_original', label: 'Reingresa al lote original' },
+    { value: 'cuarentena', label: 'Depósito de cuarentena' },
+    { value: 'baja', label: 'Baja (descarte)' },
+];
+
+// MODAL DE DEVOLUCIÓN / NOTA DE CRÉDITO
+const DevolucionModal: React.FC<{
+    venta: Venta;
+    onClose: () => void;
+    onSuccess: () => void;
+}> = ({ venta, onClose, onSuccess }) => {
+    const [items, setItems] = useState<ItemDevolvible[]>([]);
+    const [lineas, setLineas] = useState<Record<string, { cantidad: number; destino: DestinoDevolucion }>>({});
+    const [depositos, setDepositos] = useState<Deposito[]>([]);
+    const [depositoCuarentenaId, setDepositoCuarentenaId] = useState('');
+    const [motivo, setMotivo] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<any | null>(null);
+
+    useEffect(() => {
+        Promise.all([fetchItemsDevolvibles(venta.id), fetchDepositos()])
+            .then(([itemsData, depositosData]) => {
+                setItems(itemsData);
+                setDepositos(depositosData);
+                setLineas(Object.fromEntries(itemsData.map(i => [i.ventaItemId, { cantidad: 0, destino: i.loteId ? 'lote_original' : 'cuarentena' }])));
+                const cuarentena = depositosData.find(d => d.rol === 'Cuarentena');
+                setDepositoCuarentenaId(cuarentena?.id || '');
+            })
+            .catch(setError)
+            .finally(() => setLoading(false));
+    }, [venta.id]);
+
+    const updateLinea = (ventaItemId: string, cambios: Partial<{ cantidad: number; destino: DestinoDevolucion }>) => {
+        setLineas(prev => ({ ...prev, [ventaItemId]: { ...prev[ventaItemId], ...cambios } }));
+    };
+
+    // Se acredita la proporción de lo cobrado por los productos (con IVA y descuentos, sin el envío), igual que registrar_devolucion
+    const subtotalItems = items.reduce((sum, i) => sum + i.cantidadVendida * i.precioUnitario, 0);
+    const factorCobrado = subtotalItems > 0 ? (venta.total - (venta.costoEnvio || 0)) / subtotalItems : 1;
+    const totalCredito = items.reduce((sum, i) => sum + (lineas[i.ventaItemId]?.cantidad || 0) * Math.round(i.precioUnitario * factorCobrado * 100) / 100, 0);
+    const usaCuarentena = items.some(i => lineas[i.ventaItemId]?.cantidad > 0 && lineas[i.ventaItemId]?.destino === 'cuarentena');
+
+    const handleSubmit = async () => {
+        if (!items.some(i => lineas[i.ventaItemId]?.cantidad > 0)) {
+            setError({ message: 'Indica al menos un producto y cantidad a devolver.' });
+            return;
+        }
+        if (!motivo.trim()) {
+            setError({ message: 'El motivo de la devolución es obligatorio.' });
+            return;
+        }
+        setSaving(true);
+        setError(null);
+        try {
+            await registrarDevolucion(
+                venta.id,
+                items.map(i => ({ ventaItemId: i.ventaItemId, ...lineas[i.ventaItemId] })),
+                motivo.trim(),
+                usaCuarentena ? depositoCuarentenaId || null : null
+            );
+            onSuccess();
+        } catch (err: any) {
+            setError(err);
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-[100] p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+                <div className="p-4 border-b bg-gray-50 flex justify-between items-center">
+                    <h3 className="font-bold text-gray-800">Devolución · Venta #{venta.id.substring(0, 6).toUpperCase()}</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><IconX className="w-5 h-5" /></button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    <DatabaseErrorDisplay error={error} />
+                    {loading ? (
+                        <div className="text-center py-8 text-gray-400 text-sm">Cargando productos de la venta...</div>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead className="bg-gray-50 border-b">
+                                <tr className="text-left text-gray-500 text-xs">
+                                    <th className="p-2">Producto</th>
+                                    <th className="p-2 text-center">Vendidas</th>
+                                    <th className="p-2 text-center">Devolver</th>
+                                    <th className="p-2">Destino</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {items.map(i => {
+                                    const disponible = i.cantidadVendida - i.cantidadDevuelta;
+                                    const linea = lineas[i.ventaItemId];
+                                    return (
+                                        <tr key={i.ventaItemId}>
+                                            <td className="p-2">
+                                                <p className="font-medium text-gray-700">{i.productoNombre}</p>
+                                                <p className="text-[10px] text-gray-400">Lote {i.numeroLote || 'sin registrar'} · ${i.precioUnitario.toLocaleString('es-AR')} c/u</p>
+                                            </td>
+                                            <td className="p-2 text-center text-gray-600">
+                                                {i.cantidadVendida}
+                                                {i.cantidadDevuelta > 0 && <span className="block text-[10px] text-rose-500">{i.cantidadDevuelta} ya devueltas</span>}
+                                            </td>
+                                            <td className="p-2 text-center">
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    max={disponible}
+                                                    disabled={disponible === 0}
+                                                    value={linea?.cantidad || 0}
+                                                    onChange={e => updateLinea(i.ventaItemId, { cantidad: Math.min(disponible, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+                                                    className="w-16 p-1 border rounded text-center disabled:bg-gray-100"
+                                                />
+                                            </td>
+                                            <td className="p-2">
+                                                <select
+                                                    value={linea?.destino}
+                                                    onChange={e => updateLinea(i.ventaItemId, { destino: e.target.value as DestinoDevolucion })}
+                                                    className="w-full p-1 border rounded text-xs"
+                                                >
+                                                    {DESTINOS_DEVOLUCION
+                                                        .filter(d => d.value !== 'lote_original' || i.loteId)
+                                                        .map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+                                                </select>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                    {usaCuarentena && (
+                        <label className="block text-sm">Depósito de cuarentena
+                            <select value={depositoCuarentenaId} onChange={e => setDepositoCuarentenaId(e.target.value)} className="mt-1 w-full p-2 border rounded-lg">
+                                <option value="">El de rol Cuarentena</option>
+                                {depositos.map(d => <option key={d.id} value={d.id}>{d.nombre}{d.rol === 'Cuarentena' ? ' (Cuarentena)' : ''}</option>)}
+                            </select>
+                            <span className="text-xs text-gray-500">Lo devuelto queda en cuarentena hasta que Control de Calidad lo libere.</span>
+                        </label>
+                    )}
+                    <label className="block text-sm">Motivo
+                        <input value={motivo} onChange={e => setMotivo(e.target.value)} placeholder="Ej: producto dañado en el envío" className="mt-1 w-full p-2 border rounded-lg" />
+                    </label>
+                </div>
+                <div className="p-4 border-t bg-gray-50 flex justify-between items-center">
+                    <p className="text-sm text-gray-600">Nota de crédito: <strong className="text-rose-600">${totalCredito.toLocaleString('es-AR')}</strong></p>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 text-sm rounded-lg hover:bg-gray-200">Cancelar</button>
+                        <button onClick={handleSubmit} disabled={saving || loading} className="px-4 py-2 text-sm bg-rose-600 text-white rounded-lg font-bold disabled:opacity-50">
+                            {saving ? 'Registrando...' : 'Registrar devolución'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// NOTAS DE CRÉDITO DE LA VENTA
+const NotasCreditoList: React.FC<{ ventaId: string; version: number }> = ({ ventaId, version }) => {
+    const [notas, setNotas] = useState<NotaCredito[]>([]);
+
+    useEffect(() => { fetchNotasCredito(ventaId).then(setNotas); }, [ventaId, version]);
+
+    if (notas.length === 0) return null;
+
+    const destinoLabel = (d: DestinoDevolucion) => DESTINOS_DEVOLUCION.find(x => x.value === d)?.label || d;
+
+    return (
+        <div className="space-y-3">
+            <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center">
+                <IconArrowLeft className="w-4 h-4 mr-2" />
+                Notas de Crédito
+            </h4>
+            {notas.map(nc => (
+                <div key={nc.id} className="bg-white p-4 rounded-lg border border-rose-100 shadow-sm">
+                    <div className="flex justify-between items-center">
+                        <p className="text-sm font-bold text-gray-800">NC #{String(nc.numero).padStart(6, '0')} <span className="text-[10px] font-normal text-gray-400 ml-2">{nc.fecha}</span></p>
+                        <p className="text-sm font-extrabold text-rose-600">-${nc.total.toLocaleString('es-AR')}</p>
+                    </div>
+                    {nc.motivo && <p className="text-xs text-gray-600 italic">{nc.motivo}</p>}
+                    <ul className="mt-2 text-xs text-gray-600 space-y-0.5">
+                        {nc.items.map((i, idx) => (
+                            <li key={idx}>{i.cantidad} × {i.productoNombre}{i.numeroLote ? ` (lote ${i.numeroLote})` : ''} · {destinoLabel(i.destino)}</li>
+                        ))}
+                    </ul>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const ESTADOS_VENTA: { value: Venta['estado']; label: string }[] = [
+    { value: 'Pendiente', label: 'Pendiente' },
+    { value: 'Contactado', label: 'Contactado' },
+    { value: 'Pagada', label: 'Pagada' },
+    { value: 'Enviada', label: 'Enviada' },
+    { value: 'Carrito Abandonado', label: 'Abandonado' },
+    { value: 'Cancelada', label: 'Cancelada' },
+];
+
+// LÍNEA DE TIEMPO DE ESTADOS
+const StatusTimeline: React.FC<{ ventaId: string; estado: Venta['estado'] }> = ({ ventaId, estado }) => {
+    const [historial, setHistorial] = useState<VentaEstadoHistorial[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<any | null>(null);
+
+    useEffect(() => {
+        setLoading(true);
+        fetchHistorialEstadoVenta(ventaId)
+            .then(setHistorial)
+            .catch(setError)
+            .finally(() => setLoading(false));
+    }, [ventaId, estado]);
+
+    if (error) return <DatabaseErrorDisplay error={error} />;
+    if (loading) return <p className="text-xs text-gray-400 animate-pulse">Cargando historial...</p>;
+    if (historial.length === 0) return <p className="text-xs text-gray-400">Sin cambios de estado registrados.</p>;
+
+    return (
+        <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+            {historial.map(h => (
+                <li key={h.id} className="ml-4">
+                    <span className={`absolute -left-[7px] mt-1 w-3 h-3 rounded-full border-2 border-white ${h.overrideAdmin ? 'bg-rose-500' : 'bg-primary'}`}></span>
+                    <div className="flex flex-wrap items-center gap-2">
+                        {h.estadoAnterior && <><StatusBadge estado={h.estadoAnterior} /><span className="text-gray-400 text-xs">→</span></>}
+                        <StatusBadge estado={h.estadoNuevo} />
+                        {h.overrideAdmin && <span className="text-[9px] font-bold text-rose-600 uppercase">Override admin</span>}
+                    </div>
+                    <p className="text-[10px] text-gray-500 mt-1">{h.fecha} · {h.usuarioEmail || 'Sistema'}</p>
+                    {h.motivo && <p className="text-xs text-gray-700 italic">{h.motivo}</p>}
+                </li>
+            ))}
+        </ol>
+    );
+};
+
+const VentaDetailContent: React.FC<{ venta: any; notasVersion: number }> = ({ venta, notasVersion }) => {
     const webInfo = extractWebInfo(venta.observaciones || '');
     const formatPrice = (p: number) => `$${p.toLocaleString('es-AR')}`;
 
@@ -210,6 +574,13 @@ const VentaDetailContent: React.FC<{ venta: any }> = ({ venta }) => {
                         </div>
                     </div>
 
+                    {venta.cuponCodigo && (
+                        <div className="p-3 bg-green-50 border border-green-100 rounded-lg shadow-sm flex justify-between items-center text-xs">
+                            <span className="font-bold text-green-700 uppercase">Cupón {venta.cuponCodigo}</span>
+                            <span className="font-bold text-green-700">-{formatPrice(venta.cuponDescuento || 0)}</span>
+                        </div>
+                    )}
+
                     {venta.observaciones && (
                         <div className="p-3 bg-amber-50 border border-amber-100 rounded-lg shadow-sm">
                             <h5 className="text-[10px] font-bold text-amber-600 uppercase mb-1 flex items-center gap-1">
@@ -257,6 +628,18 @@ const VentaDetailContent: React.FC<{ venta: any }> = ({ venta }) => {
                     </table>
                 </div>
             </div>
+
+            <div className="space-y-3">
+                <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center">
+                    <IconClock className="w-4 h-4 mr-2" />
+                    Historial de Estados
+                </h4>
+                <div className="bg-white p-4 rounded-lg border border-gray-100 shadow-sm">
+                    <StatusTimeline ventaId={venta.id} estado={venta.estado} />
+                </div>
+            </div>
+
+            <NotasCreditoList ventaId={venta.id} version={notasVersion} />
         </div>
     );
 };
@@ -273,18 +656,35 @@ const Ventas: React.FC = () => {
     const [selectedVentaForAssign, setSelectedVentaForAssign] = useState<Venta | null>(null);
     const [creatingClientId, setCreatingClientId] = useState<string | null>(null);
 
+    // Facturación electrónica
+    const [facturas, setFacturas] = useState<Record<string, Factura>>({});
+    const [facturandoId, setFacturandoId] = useState<string | null>(null);
+    const [showFacturacionConfig, setShowFacturacionConfig] = useState(false);
+
+    // Devoluciones
+    const [selectedVentaForDevolucion, setSelectedVentaForDevolucion] = useState<Venta | null>(null);
+    const [notasVersion, setNotasVersion] = useState(0);
+
+    // Ventas generadas por liquidaciones de consignación: no se eliminan
+    const [ventasDeLiquidacion, setVentasDeLiquidacion] = useState<Set<string>>(new Set());
+
     // Estado para la pestaña activa y buscador
     const [activeTab, setActiveTab] = useState<SalesTab>('PENDIENTE');
     const [searchTerm, setSearchTerm] = useState('');
 
     const canManage = profile?.roles?.some(role => ['superadmin', 'vendedor'].includes(role));
+    const isSuperAdmin = profile?.roles?.includes('superadmin');
 
     const loadVentas = useCallback(async () => {
         setLoading(true);
         setError(null);
         try {
-            const data = await fetchVentasService();
+            // Respaldo por si pg_cron no está configurado: libera reservas vencidas antes de listar.
+            await liberarReservasVencidas().catch(err => setError(err));
+            const [data, facturasData, liquidacionesData] = await Promise.all([fetchVentasService(), fetchFacturasPorVenta(), fetchVentasDeLiquidacion()]);
             setVentas(data);
+            setFacturas(facturasData);
+            setVentasDeLiquidacion(liquidacionesData);
         } catch (err: any) {
             setError(err);
         } finally {
@@ -315,11 +715,24 @@ const Ventas: React.FC = () => {
     };
 
     const handleStatusChange = async (ventaId: string, newStatus: Venta['estado']) => {
+        const venta = ventas.find(v => v.id === ventaId);
+        if (!venta) return;
+
+        const override = !isTransicionPermitida(venta.estado, newStatus);
+        let motivo: string | null = null;
+        if (override || newStatus === 'Cancelada') {
+            const pregunta = override
+                ? `La transición ${venta.estado} → ${newStatus} requiere override de administrador. Indica el motivo:`
+                : `Indica el motivo de la cancelación (se repondrá el stock):`;
+            motivo = window.prompt(pregunta);
+            if (!motivo?.trim()) return;
+        }
+
         setUpdatingStatus(prev => ({ ...prev, [ventaId]: true }));
         const originalVentas = [...ventas];
         setVentas(prev => prev.map(v => v.id === ventaId ? { ...v, estado: newStatus } : v));
         try {
-            await updateVentaStatus(ventaId, newStatus);
+            await updateVentaStatus(ventaId, newStatus, { motivo, override });
         } catch (err: any) {
             setVentas(originalVentas);
             setError(err);
@@ -328,6 +741,28 @@ const Ventas: React.FC = () => {
         }
     };
 
+    const handleFacturar = async (venta: Venta) => {
+        if (!window.confirm(`¿Emitir la factura electrónica de la venta #${venta.id.substring(0, 6).toUpperCase()} por $${venta.total.toLocaleString('es-AR')}?`)) return;
+        setFacturandoId(venta.id);
+        try {
+            const factura = await emitirFactura(venta);
+            setFacturas(prev => ({ ...prev, [venta.id]: factura }));
+            await descargarFacturaPdf(factura);
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setFacturandoId(null);
+        }
+    };
+
+    const handleDescargarFactura = async (factura: Factura) => {
+        try {
+            await descargarFacturaPdf(factura);
+        } catch (err: any) {
+            setError(err);
+        }
+    };
+
     const handleDelete = async (ventaId: string, clienteNombre: string | undefined) => {
         if (window.confirm(`¿Seguro que quieres eliminar la venta? Se restaurará el stock.`)) {
             try {
@@ -433,6 +868,13 @@ const Ventas: React.FC = () => {
     return (
         <div className="space-y-6">
             <PageHeader title="Pedidos Multi-Tienda">
+                {isSuperAdmin && <ReservaWebConfig />}
+                {isSuperAdmin && (
+                    <button onClick={() => setShowFacturacionConfig(true)} className="flex items-center text-xs font-bold text-gray-600 px-3 py-2 bg-gray-100 rounded-lg hover:bg-gray-200">
+                        <IconFileText className="h-4 w-4 mr-1" />
+                        Facturación
+                    </button>
+                )}
                 {canManage && (
                     <Link to="/ventas/crear" className="flex items-center bg-primary text-white px-4 py-2 rounded-lg shadow hover:bg-primary-dark transition-all transform hover:scale-105">
                         <IconPlus className="h-5 w-5 mr-2" />
@@ -594,15 +1036,17 @@ const Ventas: React.FC = () => {
                                             )}
                                             <select
                                                 value={item.estado}
-                                                onChange={(e) => handleStatusChange(item.id, e.target.value as any)}
+                                                disabled={updatingStatus[item.id]}
+                                                onChange={(e) => handleStatusChange(item.id, e.target.value as Venta['estado'])}
                                                 className="p-1.5 bg-gray-50 border border-gray-200 rounded-lg text-[10px] font-bold uppercase focus:ring-primary"
                                             >
-                                                <option value="Pendiente">Pendiente</option>
-                                                <option value="Contactado">Contactado</option>
-                                                <option value="Pagada">Pagada</option>
-                                                <option value="Enviada">Enviada</option>
-                                                <option value="Carrito Abandonado">Abandonado</option>
-                                                <option value="Cancelada">Cancelada</option>
+                                                {ESTADOS_VENTA
+                                                    .filter(e => isSuperAdmin || isTransicionPermitida(item.estado, e.value))
+                                                    .map(e => (
+                                                        <option key={e.value} value={e.value}>
+                                                            {e.label}{!isTransicionPermitida(item.estado, e.value) ? ' (forzar)' : ''}
+                                                        </option>
+                                                    ))}
                                             </select>
                                             {item.url_etiqueta_oca && (
                                                 <a 
@@ -615,14 +1059,45 @@ const Ventas: React.FC = () => {
                                                     <IconDownload className="h-4 w-4" />
                                                 </a>
                                             )}
-                                            {canManage && (
+                                            {facturas[item.id] ? (
+                                                <button
+                                                    onClick={() => handleDescargarFactura(facturas[item.id])}
+                                                    className="p-2 rounded-full bg-emerald-600 text-white transition-all transform hover:scale-110 shadow-sm"
+                                                    title={`Descargar Factura ${facturas[item.id].tipo} ${String(facturas[item.id].puntoVenta).padStart(5, '0')}-${String(facturas[item.id].numero).padStart(8, '0')}`}
+                                                >
+                                                    <IconFileText className="h-4 w-4" />
+                                                </button>
+                                            ) : canManage && (item.estado === 'Pagada' || item.estado === 'Enviada') && (
+                                                <button
+                                                    onClick={() => handleFacturar(item)}
+                                                    disabled={facturandoId === item.id}
+                                                    className="p-2 rounded-full bg-gray-100 text-gray-600 hover:bg-emerald-100 hover:text-emerald-700 transition-all disabled:opacity-50"
+                                                    title="Emitir factura electrónica"
+                                                >
+                                                    {facturandoId === item.id ? (
+                                                        <div className="w-4 h-4 border-2 border-emerald-600 border-t-transparent rounded-full animate-spin"></div>
+                                                    ) : (
+                                                        <IconCashBanknote className="h-4 w-4" />
+                                                    )}
+                                                </button>
+                                            )}
+                                            {canManage && (item.estado === 'Pagada' || item.estado === 'Enviada') && (
+                                                <button
+                                                    onClick={() => setSelectedVentaForDevolucion(item)}
+                                                    className="p-2 rounded-full bg-gray-100 text-gray-600 hover:bg-rose-100 hover:text-rose-700 transition-all"
+                                                    title="Registrar devolución / nota de crédito"
+                                                >
+                                                    <IconArrowLeft className="h-4 w-4" />
+                                                </button>
+                                            )}
+                                            {canManage && puedeEliminarVenta(item) && !ventasDeLiquidacion.has(item.id) && (
                                                 <button onClick={() => handleDelete(item.id, item.clienteNombre)} className="text-gray-300 hover:text-red-500 p-2"><IconTrash className="h-4 w-4" /></button>
                                             )}
                                         </div>
                                     </td>
                                 </tr>
                                 {expandedRows[item.id] && (
-                                    <tr><td colSpan={6} className="p-0"><VentaDetailContent venta={item} /></td></tr>
+                                    <tr><td colSpan={6} className="p-0"><VentaDetailContent venta={item} notasVersion={notasVersion} /></td></tr>
                                 )}
                             </React.Fragment>
                             );
@@ -631,6 +1106,20 @@ const Ventas: React.FC = () => {
                 </table>
             </div>
 
+            {showFacturacionConfig && <FacturacionConfigModal onClose={() => setShowFacturacionConfig(false)} />}
+
+            {selectedVentaForDevolucion && (
+                <DevolucionModal
+                    venta={selectedVentaForDevolucion}
+                    onClose={() => setSelectedVentaForDevolucion(null)}
+                    onSuccess={() => {
+                        setExpandedRows(prev => ({ ...prev, [selectedVentaForDevolucion.id]: true }));
+                        setSelectedVentaForDevolucion(null);
+                        setNotasVersion(v => v + 1);
+                    }}
+                />
+            )}
+
             {/* MODAL DE VINCULACIÓN */}
             {selectedVentaForAssign && (
                 <AssignClientModal 
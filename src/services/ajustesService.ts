@@ -52,6 +52,32 @@ export const saveUmbrales = async (umbrales: Umbrales): Promise<void> => {
     }
 };
 
+export const fetchMinutosReserva = async (): Promise<number> => {
+    console.log(`[${SERVICE_NAME}] Fetching stock reservation window.`);
+    try {
+        const { data, error } = await supabase
+            .from('ajustes_sistema')
+            .select('valor')
+            .eq('clave', 'RESERVA_MINUTOS')
+            .maybeSingle();
+
+        if (error) throw error;
+        return Number(data?.valor) || 60;
+    } catch (error: any) {
+        console.error(`[${SERVICE_NAME}] Error fetching reservation window:`, error);
+        return 60;
+    }
+};
+
+export const saveMinutosReserva = async (minutos: number): Promise<void> => {
+    try {
+        const { error } = await supabase.from('ajustes_sistema').upsert([{ clave: 'RESERVA_MINUTOS', valor: minutos }]);
+        if (error) throw error;
+    } catch (error: any) {
+        throw new Error(`No se pudo guardar la ventana de reserva: ${error?.message}`);
+    }
+};
+
 export const fetchCotizaciones = async (): Promise<Cotizaciones> => {
     console.log(`[${SERVICE_NAME}] Fetching COMEX exchange rates.`);
     try {
@@ -90,4 +116,94 @@ export const saveCotizaciones = async (rates: Cotizaciones): Promise<void> => {
     } catch (error: any) {
         throw new Error(`No se pudieron guardar las cotizaciones: ${error?.message}`);
     }
-};
\ No newline at end of file
+};
+export interface ConfigFacturacion {
+    cuit: string;
+    razonSocial: string;
+    domicilio: string;
+    condicionIva: 'Responsable Inscripto' | 'Monotributo';
+    puntoVenta: number;
+    inicioActividades: string;
+    // 'mock' no contacta a AFIP: sirve para probar el circuito completo sin certificado.
+    modo: 'mock' | 'homologacion' | 'produccion';
+}
+
+const CLAVES_FACTURACION: Record<keyof ConfigFacturacion, string> = {
+    cuit: 'AFIP_CUIT',
+    razonSocial: 'AFIP_RAZON_SOCIAL',
+    domicilio: 'AFIP_DOMICILIO',
+    condicionIva: 'AFIP_CONDICION_IVA',
+    puntoVenta: 'AFIP_PUNTO_VENTA',
+    inicioActividades: 'AFIP_INICIO_ACTIVIDADES',
+    modo: 'AFIP_MODO',
+};
+
+export const fetchConfigFacturacion = async (): Promise<ConfigFacturacion> => {
+    console.log(`[${SERVICE_NAME}] Fetching invoicing settings.`);
+    const config: ConfigFacturacion = {
+        cuit: '',
+        razonSocial: '',
+        domicilio: '',
+        condicionIva: 'Responsable Inscripto',
+        puntoVenta: 1,
+        inicioActividades: '',
+        modo: 'mock',
+    };
+    try {
+        const { data, error } = await supabase
+            .from('ajustes_sistema')
+            .select('clave, valor')
+            .in('clave', Object.values(CLAVES_FACTURACION));
+
+        if (error) throw error;
+
+        for (const row of data || []) {
+            const campo = (Object.keys(CLAVES_FACTURACION) as (keyof ConfigFacturacion)[])
+                .find(k => CLAVES_FACTURACION[k] === row.clave);
+            if (!campo || row.valor === null || row.valor === '') continue;
+            if (campo === 'puntoVenta') config.puntoVenta = Number(row.valor) || 1;
+            else (config as any)[campo] = String(row.valor);
+        }
+        return config;
+    } catch (error: any) {
+        console.error(`[${SERVICE_NAME}] Error fetching invoicing settings:`, error);
+        return config;
+    }
+};
+
+export const saveConfigFacturacion = async (config: ConfigFacturacion): Promise<void> => {
+    try {
+        const dataToUpsert = (Object.keys(CLAVES_FACTURACION) as (keyof ConfigFacturacion)[])
+            .map(k => ({ clave: CLAVES_FACTURACION[k], valor: config[k] }));
+        const { error } = await supabase.from('ajustes_sistema').upsert(dataToUpsert);
+        if (error) throw error;
+    } catch (error: any) {
+        throw new Error(`No se pudo guardar la configuración de facturación: ${error?.message}`);
+    }
+};
+
+// Dólar con el que se fijaron los precios la última vez que se remarcó siguiendo la cotización
+export const fetchDolarReferenciaPrecios = async (): Promise<number | null> => {
+    try {
+        const { data, error } = await supabase
+            .from('ajustes_sistema')
+            .select('valor')
+            .eq('clave', 'REMARCACION_USD_REFERENCIA')
+            .maybeSingle();
+
+        if (error) throw error;
+        return Number(data?.valor) || null;
+    } catch (error: any) {
+        console.error(`[${SERVICE_NAME}] Error fetching repricing USD reference:`, error);
+        return null;
+    }
+};
+
+export const saveDolarReferenciaPrecios = async (usd: number): Promise<void> => {
+    try {
+        const { error } = await supabase.from('ajustes_sistema').upsert([{ clave: 'REMARCACION_USD_REFERENCIA', valor: usd }]);
+        if (error) throw error;
+    } catch (error: any) {
+        throw new Error(`No se pudo guardar el dólar de referencia: ${error?.message}`);
+    }
+};
@@ -0,0 +1,297 @@
+import { supabase } from '../supabase';
+import { EstadoCalidadLote, InspeccionCalidad, LoteEnCuarentena } from '../types';
+import { DEPOSITOS_SQL } from './depositosService';
+import { REGISTRAR_PRODUCCION_SQL } from './stockService';
+
+const SERVICE_NAME = 'CalidadService';
+
+const CALIDAD_SQL = `-- Control de calidad de lotes: lo producido queda en cuarentena hasta que un inspector lo libera.
+-- Solo los lotes liberados se pueden vender o transferir; los rechazados pasan al depósito de cuarentena.
+${DEPOSITOS_SQL}
+
+ALTER TABLE public.lotes DROP CONSTRAINT IF EXISTS lotes_estado_calidad_check;
+ALTER TABLE public.lotes ADD CONSTRAINT lotes_estado_calidad_check CHECK (estado_calidad IN ('Cuarentena', 'Liberado', 'Rechazado'));
+ALTER TABLE public.lotes ADD COLUMN IF NOT EXISTS calidad_inspector text;
+ALTER TABLE public.lotes ADD COLUMN IF NOT EXISTS calidad_fecha timestamptz;
+ALTER TABLE public.lotes ADD COLUMN IF NOT EXISTS calidad_notas text;
+
+CREATE TABLE IF NOT EXISTS public.inspecciones_calidad (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    lote_id uuid NOT NULL REFERENCES public.lotes(id) ON DELETE CASCADE,
+    resultado text NOT NULL CHECK (resultado IN ('Liberado', 'Rechazado')),
+    inspector text NOT NULL,
+    notas text,
+    fecha timestamptz NOT NULL DEFAULT now(),
+    usuario_id uuid DEFAULT auth.uid()
+);
+CREATE INDEX IF NOT EXISTS inspecciones_calidad_lote_idx ON public.inspecciones_calidad(lote_id);
+ALTER TABLE public.inspecciones_calidad ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Inspecciones de calidad visibles para usuarios autenticados" ON public.inspecciones_calidad;
+CREATE POLICY "Inspecciones de calidad visibles para usuarios autenticados" ON public.inspecciones_calidad FOR SELECT TO authenticated USING (true);
+
+-- registrar_produccion y completar_orden_produccion marcan el movimiento como 'Producción'.
+-- Si se suma producción a un lote existente, el lote entero vuelve a cuarentena.
+${REGISTRAR_PRODUCCION_SQL}
+
+CREATE OR REPLACE FUNCTION public.lote_produccion_en_cuarentena()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF current_setting('app.movimiento_tipo', true) = 'Producción'
+       AND (TG_OP = 'INSERT' OR NEW.cantidad_actual > OLD.cantidad_actual) THEN
+        NEW.estado_calidad := 'Cuarentena';
+        NEW.calidad_inspector := NULL;
+        NEW.calidad_fecha := NULL;
+        NEW.calidad_notas := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_lote_produccion_en_cuarentena ON public.lotes;
+CREATE TRIGGER trg_lote_produccion_en_cuarentena
+BEFORE INSERT OR UPDATE OF cantidad_actual ON public.lotes
+FOR EACH ROW EXECUTE FUNCTION public.lote_produccion_en_cuarentena();
+
+-- TG_ARGV[0]: columna con el lote; TG_ARGV[1]: la operación, para el mensaje
+CREATE OR REPLACE FUNCTION public.validar_lote_liberado()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_lote_id uuid := (to_jsonb(NEW)->>TG_ARGV[0])::uuid;
+    v_lote record;
+BEGIN
+    IF v_lote_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+    SELECT numero_lote, estado_calidad INTO v_lote FROM lotes WHERE id = v_lote_id;
+    IF FOUND AND v_lote.estado_calidad <> 'Liberado' THEN
+        RAISE EXCEPTION 'El lote % % por control de calidad y no se puede %.',
+            v_lote.numero_lote,
+            CASE v_lote.estado_calidad WHEN 'Rechazado' THEN 'fue rechazado' ELSE 'está retenido' END,
+            TG_ARGV[1];
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_venta_items_lote_liberado ON public.venta_items;
+CREATE TRIGGER trg_venta_items_lote_liberado
+BEFORE INSERT ON public.venta_items
+FOR EACH ROW EXECUTE FUNCTION public.validar_lote_liberado('lote_id', 'vender');
+
+DROP TRIGGER IF EXISTS trg_transferencias_lote_liberado ON public.transferencias_stock;
+CREATE TRIGGER trg_transferencias_lote_liberado
+BEFORE INSERT ON public.transferencias_stock
+FOR EACH ROW EXECUTE FUNCTION public.validar_lote_liberado('lote_origen_id', 'transferir');
+
+DO $$
+BEGIN
+    IF to_regclass('public.remito_transferencia_items') IS NOT NULL THEN
+        DROP TRIGGER IF EXISTS trg_remito_items_lote_liberado ON public.remito_transferencia_items;
+        CREATE TRIGGER trg_remito_items_lote_liberado
+        BEFORE INSERT ON public.remito_transferencia_items
+        FOR EACH ROW EXECUTE FUNCTION public.validar_lote_liberado('lote_origen_id', 'transferir');
+    END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.liberar_lote(p_lote_id uuid, p_inspector text, p_notas text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_lote record;
+BEGIN
+    IF COALESCE(trim(p_inspector), '') = '' THEN
+        RAISE EXCEPTION 'Indica quién inspeccionó el lote.';
+    END IF;
+    SELECT * INTO v_lote FROM lotes WHERE id = p_lote_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'El lote no existe.';
+    END IF;
+    IF v_lote.estado_calidad <> 'Cuarentena' THEN
+        RAISE EXCEPTION 'El lote % no está en cuarentena (estado actual: %).', v_lote.numero_lote, v_lote.estado_calidad;
+    END IF;
+
+    UPDATE lotes SET estado_calidad = 'Liberado', calidad_inspector = trim(p_inspector), calidad_fecha = now(), calidad_notas = NULLIF(trim(p_notas), '')
+    WHERE id = p_lote_id;
+    INSERT INTO inspecciones_calidad (lote_id, resultado, inspector, notas)
+    VALUES (p_lote_id, 'Liberado', trim(p_inspector), NULLIF(trim(p_notas), ''));
+END;
+$$;
+
+-- Mueve todo el lote al depósito de cuarentena (mismo número de lote) y lo deja como Rechazado.
+-- Devuelve el id del lote en ese depósito.
+CREATE OR REPLACE FUNCTION public.rechazar_lote(p_lote_id uuid, p_inspector text, p_notas text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_lote record;
+    v_cuarentena record;
+    v_origen_nombre text;
+    v_destino_id uuid;
+BEGIN
+    IF COALESCE(trim(p_inspector), '') = '' THEN
+        RAISE EXCEPTION 'Indica quién inspeccionó el lote.';
+    END IF;
+    IF COALESCE(trim(p_notas), '') = '' THEN
+        RAISE EXCEPTION 'Indica el motivo del rechazo.';
+    END IF;
+    SELECT * INTO v_lote FROM lotes WHERE id = p_lote_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'El lote no existe.';
+    END IF;
+    IF v_lote.estado_calidad = 'Rechazado' THEN
+        RAISE EXCEPTION 'El lote % ya fue rechazado.', v_lote.numero_lote;
+    END IF;
+    SELECT id, nombre INTO v_cuarentena FROM depositos WHERE rol = 'Cuarentena' ORDER BY nombre LIMIT 1;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No hay ningún depósito con rol Cuarentena. Créalo en Gestión de Depósitos.';
+    END IF;
+
+    INSERT INTO inspecciones_calidad (lote_id, resultado, inspector, notas)
+    VALUES (p_lote_id, 'Rechazado', trim(p_inspector), trim(p_notas));
+
+    IF v_lote.deposito_id = v_cuarentena.id OR v_lote.cantidad_actual <= 0 THEN
+        UPDATE lotes SET estado_calidad = 'Rechazado', calidad_inspector = trim(p_inspector), calidad_fecha = now(), calidad_notas = trim(p_notas)
+        WHERE id = p_lote_id;
+        RETURN p_lote_id;
+    END IF;
+
+    SELECT nombre INTO v_origen_nombre FROM depositos WHERE id = v_lote.deposito_id;
+
+    -- Tipo, referencia y motivo para el kardex
+    PERFORM set_config('app.movimiento_tipo', 'Rechazo de calidad', true);
+    PERFORM set_config('app.movimiento_motivo', trim(p_notas), true);
+    PERFORM set_config('app.movimiento_referencia', 'Hacia ' || v_cuarentena.nombre, true);
+
+    UPDATE lotes SET cantidad_actual = 0, estado_calidad = 'Rechazado', calidad_inspector = trim(p_inspector), calidad_fecha = now(), calidad_notas = trim(p_notas)
+    WHERE id = p_lote_id;
+
+    PERFORM set_config('app.movimiento_referencia', 'Desde ' || COALESCE(v_origen_nombre, 'otro depósito'), true);
+
+    INSERT INTO lotes (producto_id, numero_lote, cantidad_inicial, cantidad_actual, fecha_vencimiento, costo_laboratorio, deposito_id, estado_calidad, calidad_inspector, calidad_fecha, calidad_notas)
+    VALUES (v_lote.producto_id, v_lote.numero_lote, v_lote.cantidad_actual, v_lote.cantidad_actual, v_lote.fecha_vencimiento, v_lote.costo_laboratorio, v_cuarentena.id, 'Rechazado', trim(p_inspector), now(), trim(p_notas))
+    ON CONFLICT (producto_id, numero_lote, deposito_id) DO UPDATE SET
+        cantidad_inicial = lotes.cantidad_inicial + EXCLUDED.cantidad_inicial,
+        cantidad_actual = lotes.cantidad_actual + EXCLUDED.cantidad_actual,
+        estado_calidad = 'Rechazado',
+        calidad_inspector = EXCLUDED.calidad_inspector,
+        calidad_fecha = EXCLUDED.calidad_fecha,
+        calidad_notas = EXCLUDED.calidad_notas
+    RETURNING id INTO v_destino_id;
+
+    RETURN v_destino_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.liberar_lote(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rechazar_lote(uuid, text, text) TO authenticated;`;
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', '42703', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('inspecciones_calidad') ||
+    error?.message?.includes('estado_calidad') ||
+    error?.message?.includes('Could not find the function');
+
+const calidadSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Falta el control de calidad de lotes.",
+    details: "Los lotes producidos quedan en cuarentena hasta que un inspector los libera; solo los liberados se pueden vender o transferir.",
+    hint: "Ejecuta el script SQL de abajo. Si usas órdenes de producción, vuelve a ejecutar también su script para que los lotes que completan entren en cuarentena.",
+    sql: CALIDAD_SQL,
+});
+
+const handleError = (error: any, context: string): never => {
+    console.error(`[${SERVICE_NAME}] Error ${context}:`, error);
+    if (isMissingObject(error)) throw calidadSqlError(error);
+    if (error.code === 'P0001') {
+        throw { ...error, message: `No se pudo ${context}: ${error.message}` };
+    }
+    throw error;
+};
+
+export const fetchLotesEnCuarentena = async (): Promise<LoteEnCuarentena[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching lots pending QC release.`);
+    const { data, error } = await supabase
+        .from('lotes')
+        .select('id, producto_id, numero_lote, cantidad_actual, fecha_vencimiento, deposito_id, created_at, productos(nombre), depositos(nombre)')
+        .eq('estado_calidad', 'Cuarentena')
+        .order('created_at', { ascending: true });
+    if (error) handleError(error, 'cargar los lotes en cuarentena');
+
+    return (data || []).map((l: any) => ({
+        id: l.id,
+        productoId: l.producto_id,
+        productoNombre: l.productos?.nombre || 'N/A',
+        numeroLote: l.numero_lote,
+        cantidad: l.cantidad_actual,
+        fechaVencimiento: l.fecha_vencimiento,
+        depositoId: l.deposito_id,
+        depositoNombre: l.depositos?.nombre || 'N/A',
+        fechaIngreso: l.created_at || null,
+    }));
+};
+
+/**
+ * Estado de calidad de los lotes no liberados, por id de lote. get_productos_con_stock no lo devuelve.
+ * Sin el script instalado todos los lotes cuentan como liberados.
+ */
+export const fetchLotesRetenidos = async (): Promise<Record<string, EstadoCalidadLote>> => {
+    const { data, error } = await supabase
+        .from('lotes')
+        .select('id, estado_calidad')
+        .neq('estado_calidad', 'Liberado');
+    if (error) {
+        console.warn(`[${SERVICE_NAME}] QC status not available, treating every lot as released:`, error.message);
+        return {};
+    }
+    return Object.fromEntries((data || []).map((l: any) => [l.id, l.estado_calidad]));
+};
+
+export const fetchInspeccionesCalidad = async (limite = 200): Promise<InspeccionCalidad[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching QC inspections.`);
+    const { data, error } = await supabase
+        .from('inspecciones_calidad')
+        .select('*, lotes(numero_lote, productos(nombre))')
+        .order('fecha', { ascending: false })
+        .limit(limite);
+    if (error) handleError(error, 'cargar las inspecciones');
+
+    return (data || []).map((i: any) => ({
+        id: i.id,
+        fecha: i.fecha,
+        loteId: i.lote_id,
+        productoNombre: i.lotes?.productos?.nombre || 'N/A',
+        numeroLote: i.lotes?.numero_lote || 'N/A',
+        resultado: i.resultado,
+        inspector: i.inspector,
+        notas: i.notas,
+    }));
+};
+
+export const liberarLote = async (loteId: string, inspector: string, notas: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Releasing lot ${loteId}.`);
+    const { error } = await (supabase.rpc as any)('liberar_lote', {
+        p_lote_id: loteId,
+        p_inspector: inspector,
+        p_notas: notas,
+    });
+    if (error) handleError(error, 'liberar el lote');
+};
+
+/** Rechaza el lote y mueve su stock al depósito de cuarentena. */
+export const rechazarLote = async (loteId: string, inspector: string, notas: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Rejecting lot ${loteId}.`);
+    const { error } = await (supabase.rpc as any)('rechazar_lote', {
+        p_lote_id: loteId,
+        p_inspector: inspector,
+        p_notas: notas,
+    });
+    if (error) handleError(error, 'rechazar el lote');
+};
@@ -6,6 +6,8 @@ const SERVICE_NAME = 'ClientesService';
 
 // Maps frontend camelCase to backend snake_case
 const toDatabaseFormat = (cliente: Partial<Cliente>) => ({
+  // Solo se envía si el formulario la conoce, para no pisarla con null desde versiones viejas de la RPC.
+  ...(cliente.condicionIva !== undefined ? { condicion_iva: cliente.condicionIva || null } : {}),
   nombre: cliente.nombre,
   representante: cliente.representante || null,
   provincia: cliente.provincia || null,
@@ -25,6 +27,28 @@ const toDatabaseFormat = (cliente: Partial<Cliente>) => ({
 });
 
 
+// total_comprado descuenta las notas de crédito (requiere el script de devoluciones de Ventas)
+export const CLIENTES_CON_VENTAS_SQL = `ALTER TABLE public.clientes ADD COLUMN IF NOT EXISTS condicion_iva TEXT;
+DROP FUNCTION IF EXISTS get_clientes_con_ventas();
+CREATE OR REPLACE FUNCTION get_clientes_con_ventas()
+RETURNS TABLE (id uuid, created_at timestamptz, nombre text, representante text, provincia text, localidad text, codigo_postal text, direccion text, rubro text, telefono text, red_social text, cuit text, condicion_iva text, email text, descripcion text, lista_precio_id uuid, lista_enviada boolean, fecha_envio_lista date, tiene_stock boolean, lista_precio_nombre text, total_comprado numeric) AS $$
+BEGIN
+    RETURN QUERY SELECT c.id, c.created_at, c.nombre, c.representante, c.provincia, c.localidad, c.codigo_postal, c.direccion, c.rubro, c.telefono, c.red_social, c.cuit, c.condicion_iva, c.email, c.descripcion, c.lista_precio_id, c.lista_enviada, c.fecha_envio_lista, c.tiene_stock, lp.nombre as lista_precio_nombre, (SELECT COALESCE(SUM(v.total), 0) FROM public.ventas v WHERE v.cliente_id = c.id AND (v.estado = 'Pagada' OR v.estado = 'Enviada')) - (SELECT COALESCE(SUM(nc.total), 0) FROM public.notas_credito nc JOIN public.ventas v ON v.id = nc.venta_id WHERE v.cliente_id = c.id) as total_comprado FROM public.clientes c LEFT JOIN public.listas_de_precios lp ON c.lista_precio_id = lp.id ORDER BY c.created_at DESC;
+END; $$ LANGUAGE plpgsql SECURITY DEFINER;`;
+
+const withCondicionIvaHint = (error: any) => {
+    if (error?.message?.includes('condicion_iva')) {
+        return {
+            ...error,
+            message: "La columna 'condicion_iva' no existe en la tabla 'clientes'.",
+            details: "La condición frente al IVA se usa para elegir el tipo de factura (A/B/C).",
+            hint: "Ejecuta el script SQL para agregar la columna y actualizar 'get_clientes_con_ventas'.",
+            sql: `ALTER TABLE public.clientes ADD COLUMN IF NOT EXISTS condicion_iva TEXT;`,
+        };
+    }
+    return error;
+};
+
 export const fetchClientes = async (): Promise<Cliente[]> => {
     console.log(`[${SERVICE_NAME}] Fetching clients via RPC 'get_clientes_con_ventas'.`);
     try {
@@ -45,6 +69,7 @@ export const fetchClientes = async (): Promise<Cliente[]> => {
                 direccion: c.direccion,
                 redSocial: c.red_social,
                 cuit: c.cuit,
+                condicionIva: c.condicion_iva,
                 email: c.email,
                 descripcion: c.descripcion,
                 listaPrecioId: c.lista_precio_id,
@@ -64,11 +89,7 @@ export const fetchClientes = async (): Promise<Cliente[]> => {
             throw {
                 message: "La función 'get_clientes_con_ventas' no existe.",
                 hint: "Ejecuta el script SQL en Supabase para crear 'get_clientes_con_ventas'.",
-                sql: `CREATE OR REPLACE FUNCTION get_clientes_con_ventas()
-RETURNS TABLE (id uuid, created_at timestamptz, nombre text, representante text, provincia text, localidad text, codigo_postal text, direccion text, rubro text, telefono text, red_social text, cuit text, email text, descripcion text, lista_precio_id uuid, lista_enviada boolean, fecha_envio_lista date, tiene_stock boolean, lista_precio_nombre text, total_comprado numeric) AS $$
-BEGIN
-    RETURN QUERY SELECT c.id, c.created_at, c.nombre, c.representante, c.provincia, c.localidad, c.codigo_postal, c.direccion, c.rubro, c.telefono, c.red_social, c.cuit, c.email, c.descripcion, c.lista_precio_id, c.lista_enviada, c.fecha_envio_lista, c.tiene_stock, lp.nombre as lista_precio_nombre, (SELECT COALESCE(SUM(v.total), 0) FROM public.ventas v WHERE v.cliente_id = c.id AND (v.estado = 'Pagada' OR v.estado = 'Enviada')) as total_comprado FROM public.clientes c LEFT JOIN public.listas_de_precios lp ON c.lista_precio_id = lp.id ORDER BY c.created_at DESC;
-END; $$ LANGUAGE plpgsql SECURITY DEFINER;`
+                sql: CLIENTES_CON_VENTAS_SQL
             }
         }
         throw error;
@@ -79,7 +100,7 @@ export const fetchSimpleClientes = async (): Promise<SimpleCliente[]> => {
     try {
         const { data, error } = await supabase
             .from('clientes')
-            .select('id, nombre, telefono, email, direccion, localidad, provincia, listas_de_precios(nombre)')
+            .select('id, nombre, telefono, email, direccion, localidad, provincia, lista_precio_id, listas_de_precios(nombre)')
             .order('nombre', { ascending: true });
 
         if (error) throw error;
@@ -92,6 +113,7 @@ export const fetchSimpleClientes = async (): Promise<SimpleCliente[]> => {
             direccion: c.direccion,
             localidad: c.localidad,
             provincia: c.provincia,
+            listaPrecioId: c.lista_precio_id,
             listaPrecioNombre: c.listas_de_precios?.nombre || 'Público',
         }));
     } catch (error: any) {
@@ -112,7 +134,7 @@ export const createCliente = async (clienteData: Partial<Cliente>): Promise<stri
         return data.id;
     } catch (error: any) {
         console.error(`[${SERVICE_NAME}] Error creating client:`, error);
-        throw error;
+        throw withCondicionIvaHint(error);
     }
 };
 
@@ -169,7 +191,7 @@ export const updateCliente = async (clienteId: string, clienteData: Partial<Clie
             .eq('id', clienteId);
         if (error) throw error;
     } catch (error: any) {
-        throw error;
+        throw withCondicionIvaHint(error);
     }
 };
 
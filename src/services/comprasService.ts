@@ -0,0 +1,348 @@
+import { supabase } from '../supabase';
+import { EstadoOrdenCompra, OrdenCompra, Proveedor } from '../types';
+import { LOTES_INSUMO_SQL } from './lotesInsumoService';
+
+const SERVICE_NAME = 'ComprasService';
+
+const COMPRAS_SQL = `-- Proveedores y órdenes de compra de insumos
+CREATE TABLE IF NOT EXISTS public.proveedores (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    nombre text NOT NULL UNIQUE,
+    cuit text,
+    contacto text,
+    email text,
+    telefono text,
+    lead_time_dias integer NOT NULL DEFAULT 0 CHECK (lead_time_dias >= 0),
+    moneda text NOT NULL DEFAULT 'ARS' CHECK (moneda IN ('ARS', 'USD')),
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.ordenes_compra (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    numero bigint GENERATED ALWAYS AS IDENTITY,
+    proveedor_id uuid NOT NULL REFERENCES public.proveedores(id) ON DELETE RESTRICT,
+    estado text NOT NULL DEFAULT 'Borrador' CHECK (estado IN ('Borrador', 'Enviada', 'Recibida parcial', 'Recibida')),
+    fecha date NOT NULL DEFAULT current_date,
+    fecha_entrega_estimada date,
+    moneda text NOT NULL DEFAULT 'ARS' CHECK (moneda IN ('ARS', 'USD')),
+    notas text,
+    usuario_id uuid DEFAULT auth.uid(),
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.orden_compra_items (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    orden_id uuid NOT NULL REFERENCES public.ordenes_compra(id) ON DELETE CASCADE,
+    insumo_id uuid NOT NULL REFERENCES public.insumos(id) ON DELETE RESTRICT,
+    cantidad numeric NOT NULL CHECK (cantidad > 0),
+    cantidad_recibida numeric NOT NULL DEFAULT 0 CHECK (cantidad_recibida >= 0),
+    costo_unitario numeric NOT NULL CHECK (costo_unitario >= 0)
+);
+
+-- Una fila por remito recibido; tipo_cambio convierte el costo de órdenes en USD a ARS
+CREATE TABLE IF NOT EXISTS public.recepciones_compra (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    orden_id uuid NOT NULL REFERENCES public.ordenes_compra(id) ON DELETE RESTRICT,
+    fecha date NOT NULL DEFAULT current_date,
+    remito text,
+    tipo_cambio numeric NOT NULL DEFAULT 1 CHECK (tipo_cambio > 0),
+    usuario_id uuid DEFAULT auth.uid()
+);
+
+CREATE TABLE IF NOT EXISTS public.recepcion_compra_items (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    recepcion_id uuid NOT NULL REFERENCES public.recepciones_compra(id) ON DELETE CASCADE,
+    orden_item_id uuid NOT NULL REFERENCES public.orden_compra_items(id) ON DELETE RESTRICT,
+    cantidad numeric NOT NULL CHECK (cantidad > 0),
+    lote text
+);
+
+ALTER TABLE public.proveedores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ordenes_compra ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.orden_compra_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recepciones_compra ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recepcion_compra_items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Proveedores para usuarios autenticados" ON public.proveedores;
+CREATE POLICY "Proveedores para usuarios autenticados" ON public.proveedores FOR ALL TO authenticated USING (true) WITH CHECK (true);
+DROP POLICY IF EXISTS "Ordenes de compra para usuarios autenticados" ON public.ordenes_compra;
+CREATE POLICY "Ordenes de compra para usuarios autenticados" ON public.ordenes_compra FOR ALL TO authenticated USING (true) WITH CHECK (true);
+DROP POLICY IF EXISTS "Items de ordenes de compra para usuarios autenticados" ON public.orden_compra_items;
+CREATE POLICY "Items de ordenes de compra para usuarios autenticados" ON public.orden_compra_items FOR ALL TO authenticated USING (true) WITH CHECK (true);
+DROP POLICY IF EXISTS "Recepciones visibles para usuarios autenticados" ON public.recepciones_compra;
+CREATE POLICY "Recepciones visibles para usuarios autenticados" ON public.recepciones_compra FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Items de recepciones visibles para usuarios autenticados" ON public.recepcion_compra_items;
+CREATE POLICY "Items de recepciones visibles para usuarios autenticados" ON public.recepcion_compra_items FOR SELECT TO authenticated USING (true);
+
+-- Lotes de insumos: add_insumo_stock crea un lote por cada ítem recibido
+${LOTES_INSUMO_SQL}
+
+ALTER TABLE public.recepcion_compra_items ADD COLUMN IF NOT EXISTS fecha_vencimiento date;
+ALTER TABLE public.recepcion_compra_items ADD COLUMN IF NOT EXISTS lote_insumo_id uuid REFERENCES public.lotes_insumo(id) ON DELETE SET NULL;
+
+-- p_items: [{ orden_item_id, cantidad, lote, fecha_vencimiento }]
+CREATE OR REPLACE FUNCTION public.recibir_orden_compra(p_orden_id uuid, p_items jsonb, p_fecha date DEFAULT current_date, p_remito text DEFAULT NULL, p_tipo_cambio numeric DEFAULT 1)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_orden record;
+    v_recepcion_id uuid;
+    v_item jsonb;
+    v_oi record;
+    v_cantidad numeric;
+    v_lineas integer := 0;
+    v_nuevo_estado text;
+    v_lote_insumo_id uuid;
+BEGIN
+    SELECT oc.*, p.nombre AS proveedor_nombre INTO v_orden
+    FROM ordenes_compra oc JOIN proveedores p ON p.id = oc.proveedor_id
+    WHERE oc.id = p_orden_id FOR UPDATE OF oc;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'La orden de compra no existe.';
+    END IF;
+    IF v_orden.estado NOT IN ('Enviada', 'Recibida parcial') THEN
+        RAISE EXCEPTION 'Solo se reciben órdenes Enviadas o Recibidas parcialmente (estado actual: %).', v_orden.estado;
+    END IF;
+    IF v_orden.moneda = 'ARS' THEN
+        p_tipo_cambio := 1;
+    END IF;
+
+    -- Tipo y referencia para el kardex
+    PERFORM set_config('app.movimiento_tipo', 'Compra', true);
+    PERFORM set_config('app.movimiento_referencia', 'OC #' || v_orden.numero || COALESCE(' · Remito ' || NULLIF(p_remito, ''), ''), true);
+    PERFORM set_config('app.movimiento_referencia_id', p_orden_id::text, true);
+
+    INSERT INTO recepciones_compra (orden_id, fecha, remito, tipo_cambio)
+    VALUES (p_orden_id, COALESCE(p_fecha, current_date), NULLIF(p_remito, ''), COALESCE(p_tipo_cambio, 1))
+    RETURNING id INTO v_recepcion_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) LOOP
+        v_cantidad := (v_item->>'cantidad')::numeric;
+        CONTINUE WHEN COALESCE(v_cantidad, 0) <= 0;
+
+        SELECT * INTO v_oi FROM orden_compra_items WHERE id = (v_item->>'orden_item_id')::uuid AND orden_id = p_orden_id FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'El ítem % no pertenece a la orden.', v_item->>'orden_item_id';
+        END IF;
+        IF v_oi.cantidad_recibida + v_cantidad > v_oi.cantidad THEN
+            RAISE EXCEPTION 'Se intentan recibir % pero quedan % pendientes de ese ítem.', v_cantidad, v_oi.cantidad - v_oi.cantidad_recibida;
+        END IF;
+
+        -- Mismo camino que la carga manual de stock: crea el lote y recalcula el costo ponderado
+        UPDATE insumos SET proveedor = v_orden.proveedor_nombre WHERE id = v_oi.insumo_id;
+        v_lote_insumo_id := add_insumo_stock(v_oi.insumo_id, v_cantidad, v_oi.costo_unitario * COALESCE(p_tipo_cambio, 1), v_item->>'lote',
+                                             COALESCE(p_fecha, current_date), NULLIF(v_item->>'fecha_vencimiento', '')::date);
+
+        UPDATE orden_compra_items SET cantidad_recibida = cantidad_recibida + v_cantidad WHERE id = v_oi.id;
+        INSERT INTO recepcion_compra_items (recepcion_id, orden_item_id, cantidad, lote, fecha_vencimiento, lote_insumo_id)
+        VALUES (v_recepcion_id, v_oi.id, v_cantidad, NULLIF(v_item->>'lote', ''), NULLIF(v_item->>'fecha_vencimiento', '')::date, v_lote_insumo_id);
+        v_lineas := v_lineas + 1;
+    END LOOP;
+
+    IF v_lineas = 0 THEN
+        RAISE EXCEPTION 'Indica al menos una cantidad recibida.';
+    END IF;
+
+    SELECT CASE WHEN bool_and(cantidad_recibida >= cantidad) THEN 'Recibida' ELSE 'Recibida parcial' END
+    INTO v_nuevo_estado FROM orden_compra_items WHERE orden_id = p_orden_id;
+    UPDATE ordenes_compra SET estado = v_nuevo_estado WHERE id = p_orden_id;
+    RETURN v_nuevo_estado;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.recibir_orden_compra(uuid, jsonb, date, text, numeric) TO authenticated;`;
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('proveedores') ||
+    error?.message?.includes('ordenes_compra') ||
+    error?.message?.includes('lotes_insumo') ||
+    error?.message?.includes('Could not find the function');
+
+const comprasSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Faltan las tablas de proveedores y órdenes de compra.",
+    details: "Las órdenes de compra registran lo pedido a cada proveedor y, al recibirlas, suman stock a los insumos con costo promedio ponderado.",
+    hint: "Ejecuta el script SQL de abajo. También instala los lotes de insumos, que usa la recepción.",
+    sql: COMPRAS_SQL,
+});
+
+const handleError = (error: any, context: string): never => {
+    console.error(`[${SERVICE_NAME}] Error ${context}:`, error);
+    if (isMissingObject(error)) throw comprasSqlError(error);
+    if (error.code === 'P0001') {
+        throw { ...error, message: `No se pudo ${context}: ${error.message}` };
+    }
+    throw error;
+};
+
+const mapProveedor = (p: any): Proveedor => ({
+    id: p.id,
+    nombre: p.nombre,
+    cuit: p.cuit,
+    contacto: p.contacto,
+    email: p.email,
+    telefono: p.telefono,
+    leadTimeDias: p.lead_time_dias ?? 0,
+    moneda: p.moneda,
+});
+
+export const fetchProveedores = async (): Promise<Proveedor[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching suppliers.`);
+    const { data, error } = await supabase.from('proveedores').select('*').order('nombre', { ascending: true });
+    if (error) handleError(error, 'cargar los proveedores');
+    return (data || []).map(mapProveedor);
+};
+
+export const saveProveedor = async (proveedor: Partial<Proveedor>): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Saving supplier: ${proveedor.nombre}`);
+    const payload = {
+        nombre: proveedor.nombre,
+        cuit: proveedor.cuit || null,
+        contacto: proveedor.contacto || null,
+        email: proveedor.email || null,
+        telefono: proveedor.telefono || null,
+        lead_time_dias: proveedor.leadTimeDias ?? 0,
+        moneda: proveedor.moneda || 'ARS',
+    };
+    const { error } = proveedor.id
+        ? await (supabase.from('proveedores') as any).update(payload).eq('id', proveedor.id)
+        : await (supabase.from('proveedores') as any).insert([payload]);
+    if (error?.code === '23505') {
+        throw { ...error, message: `Ya existe un proveedor llamado "${proveedor.nombre}".` };
+    }
+    if (error) handleError(error, 'guardar el proveedor');
+};
+
+export const deleteProveedor = async (id: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Deleting supplier: ${id}`);
+    const { error } = await supabase.from('proveedores').delete().eq('id', id);
+    if (error?.code === '23503') {
+        throw { ...error, message: 'No se puede eliminar el proveedor porque tiene órdenes de compra.' };
+    }
+    if (error) handleError(error, 'eliminar el proveedor');
+};
+
+export const fetchOrdenesCompra = async (): Promise<OrdenCompra[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching purchase orders.`);
+    const { data, error } = await supabase
+        .from('ordenes_compra')
+        .select('*, proveedores(nombre), orden_compra_items(*, insumos(nombre, unidad))')
+        .order('numero', { ascending: false });
+    if (error) handleError(error, 'cargar las órdenes de compra');
+
+    return (data || []).map((oc: any) => {
+        const items = (oc.orden_compra_items || []).map((i: any) => ({
+            id: i.id,
+            insumoId: i.insumo_id,
+            insumoNombre: i.insumos?.nombre || 'N/A',
+            unidad: i.insumos?.unidad || 'unidades',
+            cantidad: Number(i.cantidad),
+            cantidadRecibida: Number(i.cantidad_recibida),
+            costoUnitario: Number(i.costo_unitario),
+        }));
+        return {
+            id: oc.id,
+            numero: oc.numero,
+            proveedorId: oc.proveedor_id,
+            proveedorNombre: oc.proveedores?.nombre || 'N/A',
+            estado: oc.estado,
+            fecha: oc.fecha,
+            fechaEntregaEstimada: oc.fecha_entrega_estimada,
+            moneda: oc.moneda,
+            notas: oc.notas,
+            total: items.reduce((sum: number, i: any) => sum + i.cantidad * i.costoUnitario, 0),
+            items,
+        };
+    });
+};
+
+export interface LineaOrdenCompra {
+    insumoId: string;
+    cantidad: number;
+    costoUnitario: number;
+}
+
+/** Crea la orden en Borrador. La fecha de entrega estimada sale del lead time del proveedor. */
+export const crearOrdenCompra = async (
+    proveedor: Proveedor,
+    lineas: LineaOrdenCompra[],
+    fecha: string,
+    notas: string
+): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Creating purchase order for supplier ${proveedor.id}.`);
+    const entrega = new Date(`${fecha}T00:00:00`);
+    entrega.setDate(entrega.getDate() + proveedor.leadTimeDias);
+
+    const { data: orden, error } = await (supabase.from('ordenes_compra') as any)
+        .insert([{
+            proveedor_id: proveedor.id,
+            fecha,
+            fecha_entrega_estimada: entrega.toISOString().split('T')[0],
+            moneda: proveedor.moneda,
+            notas: notas || null,
+        }])
+        .select()
+        .single();
+    if (error) handleError(error, 'crear la orden de compra');
+
+    const { error: itemsError } = await (supabase.from('orden_compra_items') as any).insert(
+        lineas.map(l => ({ orden_id: orden.id, insumo_id: l.insumoId, cantidad: l.cantidad, costo_unitario: l.costoUnitario }))
+    );
+    if (itemsError) {
+        // Sin ítems la orden no sirve: se descarta para no dejar borradores vacíos
+        await supabase.from('ordenes_compra').delete().eq('id', orden.id);
+        handleError(itemsError, 'guardar los ítems de la orden');
+    }
+};
+
+/** Borrador → Enviada. Las recepciones hacen el resto de las transiciones. */
+export const marcarOrdenEnviada = async (ordenId: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Marking purchase order ${ordenId} as sent.`);
+    const estado: EstadoOrdenCompra = 'Enviada';
+    const { data, error } = await (supabase.from('ordenes_compra') as any)
+        .update({ estado })
+        .eq('id', ordenId)
+        .eq('estado', 'Borrador')
+        .select('id');
+    if (error) handleError(error, 'enviar la orden de compra');
+    if (!data || data.length === 0) {
+        throw new Error('La orden ya no está en Borrador.');
+    }
+};
+
+export const deleteOrdenCompra = async (ordenId: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Deleting draft purchase order ${ordenId}.`);
+    const { error } = await supabase.from('ordenes_compra').delete().eq('id', ordenId).eq('estado', 'Borrador');
+    if (error) handleError(error, 'eliminar la orden de compra');
+};
+
+export interface LineaRecepcion {
+    ordenItemId: string;
+    cantidad: number;
+    lote: string;
+    fechaVencimiento: string;
+}
+
+/** Registra un remito de la orden y devuelve el nuevo estado ('Recibida parcial' o 'Recibida'). */
+export const recibirOrdenCompra = async (
+    ordenId: string,
+    lineas: LineaRecepcion[],
+    fecha: string,
+    remito: string,
+    tipoCambio: number
+): Promise<EstadoOrdenCompra> => {
+    console.log(`[${SERVICE_NAME}] Receiving goods for purchase order ${ordenId}.`);
+    const { data, error } = await (supabase.rpc as any)('recibir_orden_compra', {
+        p_orden_id: ordenId,
+        p_items: lineas
+            .filter(l => l.cantidad > 0)
+            .map(l => ({ orden_item_id: l.ordenItemId, cantidad: l.cantidad, lote: l.lote, fecha_vencimiento: l.fechaVencimiento })),
+        p_fecha: fecha,
+        p_remito: remito,
+        p_tipo_cambio: tipoCambio,
+    });
+    if (error) handleError(error, 'registrar la recepción');
+    return data as EstadoOrdenCompra;
+};
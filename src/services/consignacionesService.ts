@@ -0,0 +1,352 @@
+import jsPDF from 'jspdf';
+import { supabase } from '../supabase';
+import { ConsignacionCliente, ItemConsignado } from '../types';
+
+const SERVICE_NAME = 'ConsignacionesService';
+
+const CONSIGNACIONES_SQL = `-- Liquidaciones de consignación: lo vendido por el cliente pasa a una venta real y lo devuelto vuelve a un depósito.
+-- Las unidades consignadas ya se descontaron de los lotes al crear la consignación; mientras no se liquiden
+-- viven en el "depósito virtual" del cliente (venta_items de la consignación menos lo liquidado).
+CREATE TABLE IF NOT EXISTS public.liquidaciones_consignacion (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    numero bigint GENERATED ALWAYS AS IDENTITY,
+    cliente_id uuid NOT NULL REFERENCES public.clientes(id) ON DELETE RESTRICT,
+    fecha timestamptz NOT NULL DEFAULT now(),
+    venta_id uuid REFERENCES public.ventas(id) ON DELETE SET NULL,
+    total_vendido numeric NOT NULL DEFAULT 0,
+    total_devuelto numeric NOT NULL DEFAULT 0,
+    notas text,
+    usuario_id uuid DEFAULT auth.uid()
+);
+
+CREATE TABLE IF NOT EXISTS public.liquidacion_consignacion_items (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    liquidacion_id uuid NOT NULL REFERENCES public.liquidaciones_consignacion(id) ON DELETE CASCADE,
+    venta_item_id uuid NOT NULL REFERENCES public.venta_items(id) ON DELETE RESTRICT,
+    venta_consignacion_id uuid NOT NULL REFERENCES public.ventas(id) ON DELETE RESTRICT,
+    producto_id uuid NOT NULL REFERENCES public.productos(id),
+    lote_origen_id uuid REFERENCES public.lotes(id),
+    lote_destino_id uuid REFERENCES public.lotes(id),
+    cantidad_vendida integer NOT NULL DEFAULT 0 CHECK (cantidad_vendida >= 0),
+    cantidad_devuelta integer NOT NULL DEFAULT 0 CHECK (cantidad_devuelta >= 0),
+    precio_unitario numeric NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_liq_consignacion_items_venta_item ON public.liquidacion_consignacion_items(venta_item_id);
+
+ALTER TABLE public.liquidaciones_consignacion ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.liquidacion_consignacion_items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Liquidaciones visibles para usuarios autenticados" ON public.liquidaciones_consignacion;
+CREATE POLICY "Liquidaciones visibles para usuarios autenticados" ON public.liquidaciones_consignacion FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Items de liquidaciones visibles para usuarios autenticados" ON public.liquidacion_consignacion_items;
+CREATE POLICY "Items de liquidaciones visibles para usuarios autenticados" ON public.liquidacion_consignacion_items FOR SELECT TO authenticated USING (true);
+
+-- p_lineas: [{ venta_item_id, vendidas, devueltas, deposito_destino_id }]
+CREATE OR REPLACE FUNCTION public.liquidar_consignacion(p_cliente_id uuid, p_lineas jsonb, p_notas text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_liq_id uuid;
+    v_liq_numero bigint;
+    v_venta_id uuid;
+    v_linea jsonb;
+    v_vi record;
+    v_lote record;
+    v_vendidas integer;
+    v_devueltas integer;
+    v_previas integer;
+    v_lote_destino uuid;
+    v_lineas integer := 0;
+    v_total_vendido numeric := 0;
+    v_total_devuelto numeric := 0;
+BEGIN
+    INSERT INTO liquidaciones_consignacion (cliente_id, notas) VALUES (p_cliente_id, NULLIF(p_notas, '')) RETURNING id, numero INTO v_liq_id, v_liq_numero;
+
+    -- Tipo y referencia para el kardex (solo lo devuelto mueve stock)
+    PERFORM set_config('app.movimiento_tipo', 'Devolución de consignación', true);
+    PERFORM set_config('app.movimiento_referencia', 'Liquidación #' || v_liq_numero, true);
+    PERFORM set_config('app.movimiento_referencia_id', v_liq_id::text, true);
+
+    FOR v_linea IN SELECT * FROM jsonb_array_elements(COALESCE(p_lineas, '[]'::jsonb)) LOOP
+        v_vendidas := COALESCE((v_linea->>'vendidas')::integer, 0);
+        v_devueltas := COALESCE((v_linea->>'devueltas')::integer, 0);
+        IF v_vendidas < 0 OR v_devueltas < 0 THEN
+            RAISE EXCEPTION 'Las cantidades a liquidar no pueden ser negativas.';
+        END IF;
+        CONTINUE WHEN v_vendidas + v_devueltas = 0;
+
+        SELECT vi.*, v.estado AS venta_estado INTO v_vi
+        FROM venta_items vi JOIN ventas v ON v.id = vi.venta_id
+        WHERE vi.id = (v_linea->>'venta_item_id')::uuid AND v.cliente_id = p_cliente_id AND v.tipo = 'Consignacion'
+        FOR UPDATE OF vi;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'El ítem % no es una consignación de este cliente.', v_linea->>'venta_item_id';
+        END IF;
+        IF v_vi.venta_estado IN ('Cancelada', 'Carrito Abandonado') THEN
+            RAISE EXCEPTION 'La consignación está % y no se puede liquidar.', v_vi.venta_estado;
+        END IF;
+
+        SELECT COALESCE(SUM(cantidad_vendida + cantidad_devuelta), 0) INTO v_previas
+        FROM liquidacion_consignacion_items WHERE venta_item_id = v_vi.id;
+        IF v_previas + v_vendidas + v_devueltas > v_vi.cantidad THEN
+            RAISE EXCEPTION 'Se liquidan % unidades pero quedan % en consignación.', v_vendidas + v_devueltas, v_vi.cantidad - v_previas;
+        END IF;
+
+        -- Lo devuelto vuelve al mismo número de lote en el depósito elegido
+        v_lote_destino := NULL;
+        IF v_devueltas > 0 THEN
+            IF v_linea->>'deposito_destino_id' IS NULL THEN
+                RAISE EXCEPTION 'Indica el depósito de destino de las unidades devueltas.';
+            END IF;
+            SELECT * INTO v_lote FROM lotes WHERE id = v_vi.lote_id;
+            INSERT INTO lotes (producto_id, numero_lote, cantidad_inicial, cantidad_actual, fecha_vencimiento, costo_laboratorio, deposito_id)
+            VALUES (v_vi.producto_id, COALESCE(v_lote.numero_lote, 'CONS-' || to_char(now(), 'YYYYMMDD')), v_devueltas, v_devueltas, v_lote.fecha_vencimiento, COALESCE(v_lote.costo_laboratorio, 0), (v_linea->>'deposito_destino_id')::uuid)
+            ON CONFLICT (producto_id, numero_lote, deposito_id) DO UPDATE SET
+                cantidad_actual = lotes.cantidad_actual + EXCLUDED.cantidad_actual
+            RETURNING id INTO v_lote_destino;
+        END IF;
+
+        -- Lo vendido se factura en una venta real (el stock ya salió al consignar)
+        IF v_vendidas > 0 THEN
+            IF v_venta_id IS NULL THEN
+                INSERT INTO ventas (cliente_id, fecha, subtotal, iva, total, tipo, estado, observaciones)
+                VALUES (p_cliente_id, now(), 0, 0, 0, 'Venta', 'Pendiente', 'Liquidación de consignación')
+                RETURNING id INTO v_venta_id;
+            END IF;
+            INSERT INTO venta_items (venta_id, producto_id, cantidad, precio_unitario, lote_id)
+            VALUES (v_venta_id, v_vi.producto_id, v_vendidas, v_vi.precio_unitario, v_vi.lote_id);
+        END IF;
+
+        INSERT INTO liquidacion_consignacion_items (liquidacion_id, venta_item_id, venta_consignacion_id, producto_id, lote_origen_id, lote_destino_id, cantidad_vendida, cantidad_devuelta, precio_unitario)
+        VALUES (v_liq_id, v_vi.id, v_vi.venta_id, v_vi.producto_id, v_vi.lote_id, v_lote_destino, v_vendidas, v_devueltas, v_vi.precio_unitario);
+
+        v_lineas := v_lineas + 1;
+        v_total_vendido := v_total_vendido + v_vendidas * v_vi.precio_unitario;
+        v_total_devuelto := v_total_devuelto + v_devueltas * v_vi.precio_unitario;
+    END LOOP;
+
+    IF v_lineas = 0 THEN
+        RAISE EXCEPTION 'Indica al menos una cantidad vendida o devuelta.';
+    END IF;
+
+    IF v_venta_id IS NOT NULL THEN
+        UPDATE ventas SET subtotal = v_total_vendido, total = v_total_vendido WHERE id = v_venta_id;
+    END IF;
+    UPDATE liquidaciones_consignacion
+    SET venta_id = v_venta_id, total_vendido = v_total_vendido, total_devuelto = v_total_devuelto
+    WHERE id = v_liq_id;
+
+    RETURN json_build_object('liquidacion_id', v_liq_id, 'venta_id', v_venta_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.liquidar_consignacion(uuid, jsonb, text) TO authenticated;
+
+-- Una consignación con liquidaciones no se cancela: reponer todo el stock duplicaría lo ya devuelto.
+-- Tampoco la venta generada por una liquidación: sus unidades salieron al consignar y cancelarla las repondría
+-- en el lote aunque el cliente ya las vendió.
+CREATE OR REPLACE FUNCTION public.proteger_consignacion_liquidada()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_liq_numero bigint;
+BEGIN
+    IF NEW.estado NOT IN ('Cancelada', 'Carrito Abandonado') OR OLD.estado IS NOT DISTINCT FROM NEW.estado THEN
+        RETURN NEW;
+    END IF;
+    IF NEW.tipo = 'Consignacion'
+       AND EXISTS (SELECT 1 FROM liquidacion_consignacion_items WHERE venta_consignacion_id = NEW.id) THEN
+        RAISE EXCEPTION 'La consignación ya tiene liquidaciones: devuelve el saldo desde Consignaciones en lugar de cancelarla.';
+    END IF;
+    SELECT numero INTO v_liq_numero FROM liquidaciones_consignacion WHERE venta_id = NEW.id;
+    IF FOUND THEN
+        RAISE EXCEPTION 'La venta surge de la liquidación de consignación #% y no se puede cancelar: registra una devolución (nota de crédito) por lo que corresponda.', v_liq_numero;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_proteger_consignacion_liquidada ON public.ventas;
+CREATE TRIGGER trg_proteger_consignacion_liquidada BEFORE UPDATE OF estado ON public.ventas
+FOR EACH ROW EXECUTE FUNCTION public.proteger_consignacion_liquidada();`;
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('liquidacion') ||
+    error?.message?.includes('Could not find the function');
+
+const consignacionesSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Faltan las tablas o la función de liquidación de consignaciones.",
+    details: "El módulo de consignaciones registra qué vendió cada cliente y qué devolvió, y convierte lo vendido en una venta real.",
+    hint: "Ejecuta el script SQL de abajo en tu editor de Supabase.",
+    sql: CONSIGNACIONES_SQL,
+});
+
+export interface LineaLiquidacion {
+    ventaItemId: string;
+    vendidas: number;
+    devueltas: number;
+    depositoDestinoId: string | null;
+}
+
+/**
+ * Ventas generadas por liquidaciones de consignación (no se cancelan ni se eliminan).
+ * Sin el módulo instalado no hay ninguna.
+ */
+export const fetchVentasDeLiquidacion = async (): Promise<Set<string>> => {
+    const { data, error } = await supabase.from('liquidaciones_consignacion').select('venta_id').not('venta_id', 'is', null);
+    if (error) {
+        console.warn(`[${SERVICE_NAME}] Could not fetch settlement sales:`, error.message);
+        return new Set();
+    }
+    return new Set((data || []).map((l: any) => l.venta_id));
+};
+
+/** Stock en consignación pendiente de liquidar, agrupado por cliente. */
+export const fetchConsignacionesPendientes = async (): Promise<ConsignacionCliente[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching outstanding consignments.`);
+    const { data: ventas, error } = await supabase
+        .from('ventas')
+        .select('id, fecha, cliente_id, clientes(nombre), venta_items(id, producto_id, cantidad, precio_unitario, lote_id, productos(nombre), lotes(numero_lote, deposito_id))')
+        .eq('tipo', 'Consignacion')
+        .not('estado', 'in', '("Cancelada","Carrito Abandonado")')
+        .order('fecha', { ascending: true });
+    if (error) throw error;
+
+    const itemIds = (ventas || []).flatMap((v: any) => (v.venta_items || []).map((i: any) => i.id));
+    const { data: liquidados, error: liqError } = itemIds.length === 0
+        ? { data: [], error: null }
+        : await supabase.from('liquidacion_consignacion_items').select('venta_item_id, cantidad_vendida, cantidad_devuelta').in('venta_item_id', itemIds);
+    if (liqError) {
+        console.error(`[${SERVICE_NAME}] Error fetching settlements:`, liqError);
+        throw isMissingObject(liqError) ? consignacionesSqlError(liqError) : liqError;
+    }
+
+    const liquidadoPorItem = (liquidados || []).reduce((acc: Record<string, { vendidas: number; devueltas: number }>, l: any) => {
+        const actual = acc[l.venta_item_id] || { vendidas: 0, devueltas: 0 };
+        acc[l.venta_item_id] = { vendidas: actual.vendidas + l.cantidad_vendida, devueltas: actual.devueltas + l.cantidad_devuelta };
+        return acc;
+    }, {});
+
+    const porCliente = new Map<string, ConsignacionCliente>();
+    for (const v of ventas || []) {
+        if (!v.cliente_id) continue;
+        const grupo: ConsignacionCliente = porCliente.get(v.cliente_id) || {
+            clienteId: v.cliente_id,
+            clienteNombre: (v as any).clientes?.nombre || 'Cliente',
+            items: [],
+            unidadesPendientes: 0,
+            valorPendiente: 0,
+        };
+        for (const i of (v as any).venta_items || []) {
+            const liq = liquidadoPorItem[i.id] || { vendidas: 0, devueltas: 0 };
+            const item: ItemConsignado = {
+                ventaItemId: i.id,
+                ventaId: v.id,
+                fechaConsignacion: String(v.fecha).slice(0, 10),
+                productoId: i.producto_id,
+                productoNombre: i.productos?.nombre || 'N/A',
+                loteId: i.lote_id,
+                numeroLote: i.lotes?.numero_lote || null,
+                depositoOrigenId: i.lotes?.deposito_id || null,
+                cantidadConsignada: i.cantidad,
+                cantidadVendida: liq.vendidas,
+                cantidadDevuelta: liq.devueltas,
+                pendiente: i.cantidad - liq.vendidas - liq.devueltas,
+                precioUnitario: i.precio_unitario,
+            };
+            if (item.pendiente <= 0) continue;
+            grupo.items.push(item);
+            grupo.unidadesPendientes += item.pendiente;
+            grupo.valorPendiente += item.pendiente * item.precioUnitario;
+        }
+        if (grupo.items.length > 0) porCliente.set(v.cliente_id, grupo);
+    }
+
+    return Array.from(porCliente.values()).sort((a, b) => b.valorPendiente - a.valorPendiente);
+};
+
+export const liquidarConsignacion = async (
+    clienteId: string,
+    lineas: LineaLiquidacion[],
+    notas: string
+): Promise<{ liquidacionId: string; ventaId: string | null }> => {
+    console.log(`[${SERVICE_NAME}] Settling consignment for client ${clienteId}.`);
+    const { data, error } = await (supabase.rpc as any)('liquidar_consignacion', {
+        p_cliente_id: clienteId,
+        p_lineas: lineas
+            .filter(l => l.vendidas > 0 || l.devueltas > 0)
+            .map(l => ({
+                venta_item_id: l.ventaItemId,
+                vendidas: l.vendidas,
+                devueltas: l.devueltas,
+                deposito_destino_id: l.devueltas > 0 ? l.depositoDestinoId : null,
+            })),
+        p_notas: notas,
+    });
+
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error settling consignment:`, error);
+        if (isMissingObject(error)) throw consignacionesSqlError(error);
+        if (error.code === 'P0001') throw { ...error, message: `No se pudo liquidar la consignación: ${error.message}` };
+        throw error;
+    }
+    return { liquidacionId: data.liquidacion_id, ventaId: data.venta_id };
+};
+
+// --- Reporte de consignación (PDF) ---
+
+const formatMoneda = (n: number) => `$ ${n.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const descargarReporteConsignacionPdf = (consignacion: ConsignacionCliente) => {
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+    const ancho = pdf.internal.pageSize.getWidth();
+    const alto = pdf.internal.pageSize.getHeight();
+    const margen = 12;
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(16);
+    pdf.text('Mercadería en Consignación', margen, margen + 6);
+    pdf.setFontSize(11);
+    pdf.text(consignacion.clienteNombre, margen, margen + 14);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.text(`Emitido: ${new Date().toLocaleDateString('es-AR')}    Unidades pendientes: ${consignacion.unidadesPendientes}    Valor: ${formatMoneda(consignacion.valorPendiente)}`, margen, margen + 20);
+
+    let y = margen + 32;
+    const encabezado = () => {
+        pdf.setFillColor(230, 230, 230);
+        pdf.rect(margen, y - 5, ancho - margen * 2, 7, 'F');
+        pdf.setFont('helvetica', 'bold');
+        pdf.text('Consignado', margen + 2, y);
+        pdf.text('Producto', margen + 24, y);
+        pdf.text('Lote', 105, y);
+        pdf.text('Cons.', 135, y, { align: 'right' });
+        pdf.text('Liq.', 150, y, { align: 'right' });
+        pdf.text('Pend.', 165, y, { align: 'right' });
+        pdf.text('Valor', ancho - margen - 2, y, { align: 'right' });
+        pdf.setFont('helvetica', 'normal');
+        y += 7;
+    };
+    encabezado();
+    for (const i of consignacion.items) {
+        if (y > alto - margen) {
+            pdf.addPage();
+            y = margen + 6;
+            encabezado();
+        }
+        pdf.text(i.fechaConsignacion.split('-').reverse().join('/'), margen + 2, y);
+        pdf.text(i.productoNombre.substring(0, 40), margen + 24, y);
+        pdf.text(i.numeroLote || '-', 105, y);
+        pdf.text(String(i.cantidadConsignada), 135, y, { align: 'right' });
+        pdf.text(String(i.cantidadVendida + i.cantidadDevuelta), 150, y, { align: 'right' });
+        pdf.text(String(i.pendiente), 165, y, { align: 'right' });
+        pdf.text(formatMoneda(i.pendiente * i.precioUnitario), ancho - margen - 2, y, { align: 'right' });
+        y += 6;
+    }
+
+    pdf.save(`Consignacion_${consignacion.clienteNombre.replace(/\s+/g, '_')}_${new Date().toLocaleDateString('es-AR').replace(/\//g, '-')}.pdf`);
+};
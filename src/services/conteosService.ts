@@ -0,0 +1,261 @@
+import { supabase } from '../supabase';
+import { ConteoInventario, ConteoInventarioItem } from '../types';
+import { MOVIMIENTOS_STOCK_SQL } from './movimientosStockService';
+
+const SERVICE_NAME = 'ConteosService';
+
+export const CONTEOS_SQL = `${MOVIMIENTOS_STOCK_SQL}
+
+-- Conteos de inventario (inventario físico por depósito)
+CREATE TABLE IF NOT EXISTS public.conteos_inventario (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    numero bigint GENERATED ALWAYS AS IDENTITY,
+    deposito_id uuid NOT NULL REFERENCES public.depositos(id) ON DELETE RESTRICT,
+    estado text NOT NULL DEFAULT 'Abierto' CHECK (estado IN ('Abierto', 'Contabilizado', 'Anulado')),
+    notas text,
+    usuario_id uuid DEFAULT auth.uid(),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    contabilizado_at timestamptz
+);
+CREATE UNIQUE INDEX IF NOT EXISTS conteos_inventario_abierto_idx ON public.conteos_inventario (deposito_id) WHERE estado = 'Abierto';
+
+-- cantidad_sistema es la foto del lote al abrir el conteo
+CREATE TABLE IF NOT EXISTS public.conteo_inventario_items (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    conteo_id uuid NOT NULL REFERENCES public.conteos_inventario(id) ON DELETE CASCADE,
+    lote_id uuid NOT NULL REFERENCES public.lotes(id) ON DELETE CASCADE,
+    producto_id uuid NOT NULL REFERENCES public.productos(id) ON DELETE CASCADE,
+    cantidad_sistema numeric NOT NULL,
+    cantidad_contada numeric CHECK (cantidad_contada >= 0),
+    costo_unitario numeric NOT NULL DEFAULT 0,
+    motivo text,
+    aprobado boolean NOT NULL DEFAULT true,
+    UNIQUE (conteo_id, lote_id)
+);
+
+ALTER TABLE public.conteos_inventario ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conteo_inventario_items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Conteos para usuarios autenticados" ON public.conteos_inventario;
+CREATE POLICY "Conteos para usuarios autenticados" ON public.conteos_inventario FOR ALL TO authenticated USING (true) WITH CHECK (true);
+DROP POLICY IF EXISTS "Items de conteo visibles para usuarios autenticados" ON public.conteo_inventario_items;
+CREATE POLICY "Items de conteo visibles para usuarios autenticados" ON public.conteo_inventario_items FOR SELECT TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION public.iniciar_conteo_inventario(p_deposito_id uuid, p_notas text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_conteo_id uuid;
+    v_abierto bigint;
+BEGIN
+    SELECT numero INTO v_abierto FROM conteos_inventario WHERE deposito_id = p_deposito_id AND estado = 'Abierto';
+    IF FOUND THEN
+        RAISE EXCEPTION 'Ya hay un conteo abierto para este depósito (#%).', v_abierto;
+    END IF;
+
+    INSERT INTO conteos_inventario (deposito_id, notas) VALUES (p_deposito_id, NULLIF(p_notas, '')) RETURNING id INTO v_conteo_id;
+
+    -- También entran los lotes vigentes en cero: si aparece mercadería que el sistema daba por agotada,
+    -- el conteo tiene dónde cargarla y el ajuste la vuelve a sumar
+    INSERT INTO conteo_inventario_items (conteo_id, lote_id, producto_id, cantidad_sistema, costo_unitario)
+    SELECT v_conteo_id, l.id, l.producto_id, l.cantidad_actual, COALESCE(l.costo_laboratorio, 0)
+    FROM lotes l
+    WHERE l.deposito_id = p_deposito_id
+      AND (l.cantidad_actual > 0 OR l.fecha_vencimiento IS NULL OR l.fecha_vencimiento >= current_date);
+
+    RETURN v_conteo_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.guardar_conteo_inventario(p_conteo_id uuid, p_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    PERFORM 1 FROM conteos_inventario WHERE id = p_conteo_id AND estado = 'Abierto';
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'El conteo no existe o ya no está abierto.';
+    END IF;
+
+    UPDATE conteo_inventario_items ci SET
+        cantidad_contada = NULLIF(i->>'cantidad_contada', '')::numeric,
+        motivo = NULLIF(i->>'motivo', ''),
+        aprobado = COALESCE((i->>'aprobado')::boolean, true)
+    FROM jsonb_array_elements(p_items) i
+    WHERE ci.id = (i->>'id')::uuid AND ci.conteo_id = p_conteo_id;
+END;
+$$;
+
+-- Aplica las diferencias aprobadas sobre el stock actual (lo vendido desde la foto no se pisa)
+CREATE OR REPLACE FUNCTION public.contabilizar_conteo_inventario(p_conteo_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_item record;
+    v_diferencia numeric;
+    v_nueva numeric;
+    v_ajustes integer := 0;
+    v_numero bigint;
+BEGIN
+    PERFORM 1 FROM conteos_inventario WHERE id = p_conteo_id AND estado = 'Abierto' FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'El conteo no existe o ya no está abierto.';
+    END IF;
+    SELECT numero INTO v_numero FROM conteos_inventario WHERE id = p_conteo_id;
+
+    -- El kardex toma el tipo, la referencia y el motivo de cada ajuste
+    PERFORM set_config('app.movimiento_tipo', 'Ajuste de inventario', true);
+    PERFORM set_config('app.movimiento_referencia', 'Conteo #' || v_numero, true);
+    PERFORM set_config('app.movimiento_referencia_id', p_conteo_id::text, true);
+
+    FOR v_item IN
+        SELECT ci.*, l.numero_lote
+        FROM conteo_inventario_items ci
+        JOIN lotes l ON l.id = ci.lote_id
+        WHERE ci.conteo_id = p_conteo_id AND ci.aprobado AND ci.cantidad_contada IS NOT NULL AND ci.cantidad_contada <> ci.cantidad_sistema
+        FOR UPDATE OF l
+    LOOP
+        IF v_item.motivo IS NULL THEN
+            RAISE EXCEPTION 'Falta el motivo del ajuste del lote %.', v_item.numero_lote;
+        END IF;
+        v_diferencia := v_item.cantidad_contada - v_item.cantidad_sistema;
+
+        PERFORM set_config('app.movimiento_motivo', v_item.motivo, true);
+        UPDATE lotes SET cantidad_actual = cantidad_actual + v_diferencia WHERE id = v_item.lote_id
+        RETURNING cantidad_actual INTO v_nueva;
+        IF v_nueva < 0 THEN
+            RAISE EXCEPTION 'El ajuste deja el lote % con stock negativo (%). Revisa las ventas hechas durante el conteo.', v_item.numero_lote, v_nueva;
+        END IF;
+
+        v_ajustes := v_ajustes + 1;
+    END LOOP;
+
+    UPDATE conteos_inventario SET estado = 'Contabilizado', contabilizado_at = now() WHERE id = p_conteo_id;
+    RETURN v_ajustes;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.iniciar_conteo_inventario(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.guardar_conteo_inventario(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.contabilizar_conteo_inventario(uuid) TO authenticated;`;
+
+// Códigos de motivo para los ajustes por diferencia de inventario.
+export const MOTIVOS_AJUSTE = ['Rotura', 'Vencimiento', 'Faltante / robo', 'Sobrante', 'Error de carga', 'Muestra / regalo'];
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('conteos_inventario') ||
+    error?.message?.includes('conteo_inventario_items') ||
+    error?.message?.includes('Could not find the function');
+
+const conteosSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Faltan las tablas de conteos de inventario.",
+    details: "Los conteos toman una foto del stock de un depósito, registran lo contado por lote y ajustan las diferencias aprobadas dejando un movimiento auditable.",
+    hint: "Ejecuta el script SQL de abajo. También crea el registro de movimientos de stock.",
+    sql: CONTEOS_SQL,
+});
+
+const handleError = (error: any, context: string): never => {
+    console.error(`[${SERVICE_NAME}] Error ${context}:`, error);
+    if (isMissingObject(error)) throw conteosSqlError(error);
+    if (error.code === 'P0001') {
+        throw { ...error, message: `No se pudo ${context}: ${error.message}` };
+    }
+    throw error;
+};
+
+export const fetchConteos = async (): Promise<ConteoInventario[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching inventory counts.`);
+    const { data, error } = await supabase
+        .from('conteos_inventario')
+        .select('*, depositos(nombre), conteo_inventario_items(cantidad_sistema, cantidad_contada, costo_unitario)')
+        .order('numero', { ascending: false });
+    if (error) handleError(error, 'cargar los conteos');
+
+    return (data || []).map((c: any) => {
+        const items = c.conteo_inventario_items || [];
+        const contados = items.filter((i: any) => i.cantidad_contada !== null);
+        return {
+            id: c.id,
+            numero: c.numero,
+            depositoId: c.deposito_id,
+            depositoNombre: c.depositos?.nombre || 'N/A',
+            estado: c.estado,
+            notas: c.notas,
+            fecha: c.created_at,
+            fechaContabilizado: c.contabilizado_at,
+            totalItems: items.length,
+            itemsContados: contados.length,
+            diferenciaValor: contados.reduce((sum: number, i: any) => sum + (Number(i.cantidad_contada) - Number(i.cantidad_sistema)) * Number(i.costo_unitario), 0),
+        };
+    });
+};
+
+export const fetchItemsConteo = async (conteoId: string): Promise<ConteoInventarioItem[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching items for count ${conteoId}.`);
+    const { data, error } = await supabase
+        .from('conteo_inventario_items')
+        .select('*, productos(nombre, codigo_barras), lotes(numero_lote, fecha_vencimiento)')
+        .eq('conteo_id', conteoId);
+    if (error) handleError(error, 'cargar los ítems del conteo');
+
+    return (data || []).map((i: any) => ({
+        id: i.id,
+        loteId: i.lote_id,
+        productoId: i.producto_id,
+        productoNombre: i.productos?.nombre || 'N/A',
+        codigoBarras: i.productos?.codigo_barras || null,
+        numeroLote: i.lotes?.numero_lote || '-',
+        fechaVencimiento: i.lotes?.fecha_vencimiento || null,
+        cantidadSistema: Number(i.cantidad_sistema),
+        cantidadContada: i.cantidad_contada === null ? null : Number(i.cantidad_contada),
+        costoUnitario: Number(i.costo_unitario),
+        motivo: i.motivo,
+        aprobado: i.aprobado,
+    })).sort((a, b) => a.productoNombre.localeCompare(b.productoNombre) || a.numeroLote.localeCompare(b.numeroLote));
+};
+
+export const iniciarConteo = async (depositoId: string, notas: string): Promise<string> => {
+    console.log(`[${SERVICE_NAME}] Starting inventory count for deposit ${depositoId}.`);
+    const { data, error } = await (supabase.rpc as any)('iniciar_conteo_inventario', {
+        p_deposito_id: depositoId,
+        p_notas: notas,
+    });
+    if (error) handleError(error, 'iniciar el conteo');
+    return data as string;
+};
+
+export const guardarConteo = async (conteoId: string, items: ConteoInventarioItem[]): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Saving ${items.length} counted lines for count ${conteoId}.`);
+    const { error } = await (supabase.rpc as any)('guardar_conteo_inventario', {
+        p_conteo_id: conteoId,
+        p_items: items.map(i => ({
+            id: i.id,
+            cantidad_contada: i.cantidadContada,
+            motivo: i.motivo,
+            aprobado: i.aprobado,
+        })),
+    });
+    if (error) handleError(error, 'guardar el conteo');
+};
+
+export const contabilizarConteo = async (conteoId: string): Promise<number> => {
+    console.log(`[${SERVICE_NAME}] Posting adjustments for count ${conteoId}.`);
+    const { data, error } = await (supabase.rpc as any)('contabilizar_conteo_inventario', { p_conteo_id: conteoId });
+    if (error) handleError(error, 'contabilizar el conteo');
+    return data as number;
+};
+
+export const anularConteo = async (conteoId: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Voiding count ${conteoId}.`);
+    const { error } = await (supabase.from('conteos_inventario') as any)
+        .update({ estado: 'Anulado' })
+        .eq('id', conteoId)
+        .eq('estado', 'Abierto');
+    if (error) handleError(error, 'anular el conteo');
+};
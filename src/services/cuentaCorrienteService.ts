@@ -0,0 +1,398 @@
+import jsPDF from 'jspdf';
+import { supabase } from '../supabase';
+import { Cliente, CuentaCorriente, MetodoPago, MovimientoCuentaCorriente, PagoCliente, TramoAntiguedad, Venta, VentaConSaldo } from '../types';
+
+const SERVICE_NAME = 'CuentaCorrienteService';
+
+export const METODOS_PAGO: MetodoPago[] = ['Efectivo', 'Transferencia', 'Mercado Pago', 'Cheque'];
+
+const CUENTA_CORRIENTE_SQL = `-- Pagos de clientes (cuenta corriente). venta_id es opcional: sin venta, el pago se imputa a las deudas más antiguas.
+CREATE TABLE IF NOT EXISTS public.pagos_clientes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    cliente_id uuid NOT NULL REFERENCES public.clientes(id) ON DELETE RESTRICT,
+    venta_id uuid REFERENCES public.ventas(id) ON DELETE RESTRICT,
+    fecha date NOT NULL DEFAULT current_date,
+    monto numeric NOT NULL CHECK (monto > 0),
+    metodo text NOT NULL CHECK (metodo IN ('Efectivo', 'Transferencia', 'Mercado Pago', 'Cheque')),
+    referencia text,
+    usuario_id uuid DEFAULT auth.uid(),
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_pagos_clientes_cliente ON public.pagos_clientes(cliente_id);
+
+ALTER TABLE public.pagos_clientes ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Pagos visibles para usuarios autenticados" ON public.pagos_clientes;
+CREATE POLICY "Pagos visibles para usuarios autenticados" ON public.pagos_clientes FOR SELECT TO authenticated USING (true);
+
+-- Registra el pago y, si salda una venta Pendiente/Contactado, la pasa a 'Pagada' con la máquina de estados.
+CREATE OR REPLACE FUNCTION public.registrar_pago_cliente(p_cliente_id uuid, p_monto numeric, p_metodo text, p_fecha date DEFAULT current_date, p_referencia text DEFAULT NULL, p_venta_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_pago_id uuid;
+    v_venta record;
+    v_pendiente numeric;
+BEGIN
+    IF p_venta_id IS NOT NULL THEN
+        SELECT * INTO v_venta FROM ventas WHERE id = p_venta_id FOR UPDATE;
+        IF NOT FOUND OR v_venta.cliente_id IS DISTINCT FROM p_cliente_id THEN
+            RAISE EXCEPTION 'La venta no pertenece al cliente.';
+        END IF;
+        IF v_venta.estado IN ('Cancelada', 'Carrito Abandonado') THEN
+            RAISE EXCEPTION 'No se pueden imputar pagos a una venta %.', v_venta.estado;
+        END IF;
+    END IF;
+
+    INSERT INTO pagos_clientes (cliente_id, venta_id, fecha, monto, metodo, referencia)
+    VALUES (p_cliente_id, p_venta_id, COALESCE(p_fecha, current_date), p_monto, p_metodo, NULLIF(p_referencia, ''))
+    RETURNING id INTO v_pago_id;
+
+    IF p_venta_id IS NOT NULL AND v_venta.estado IN ('Pendiente', 'Contactado') THEN
+        SELECT v_venta.total
+            - COALESCE(v_venta.pago_1, 0)
+            - COALESCE((SELECT SUM(monto) FROM pagos_clientes WHERE venta_id = p_venta_id), 0)
+            - COALESCE((SELECT SUM(total) FROM notas_credito WHERE venta_id = p_venta_id), 0)
+        INTO v_pendiente;
+        IF v_pendiente <= 0.005 THEN
+            PERFORM cambiar_estado_venta(p_venta_id, 'Pagada', 'Saldada con pagos de cuenta corriente', false);
+        END IF;
+    END IF;
+
+    RETURN v_pago_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.registrar_pago_cliente(uuid, numeric, text, date, text, uuid) TO authenticated;`;
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('pagos_clientes') ||
+    error?.message?.includes('Could not find the function');
+
+const cuentaCorrienteSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Falta la tabla de pagos o la función 'registrar_pago_cliente'.",
+    details: "La cuenta corriente registra los pagos de cada cliente (efectivo, transferencia, Mercado Pago, cheque) y los imputa a sus ventas.",
+    hint: "Ejecuta el script SQL de abajo. Requiere haber instalado antes las funciones de cambio de estado y de devoluciones de Ventas.",
+    sql: CUENTA_CORRIENTE_SQL,
+});
+
+const ESTADOS_SIN_DEUDA: Venta['estado'][] = ['Cancelada', 'Carrito Abandonado'];
+const ESTADOS_COBRADOS: Venta['estado'][] = ['Pagada', 'Enviada'];
+const TOLERANCIA = 0.005;
+
+const ventaRef = (ventaId: string) => `#${ventaId.substring(0, 6).toUpperCase()}`;
+const soloFecha = (fecha: string) => (fecha || '').slice(0, 10);
+
+const tramoPorDias = (dias: number): TramoAntiguedad =>
+    dias <= 30 ? '0-30' : dias <= 60 ? '31-60' : dias <= 90 ? '61-90' : '90+';
+
+export interface VentaCuenta {
+    id: string;
+    fecha: string;
+    total: number;
+    estado: Venta['estado'];
+    tipo: Venta['tipo'];
+    pago1: number;
+}
+
+export interface NotaCreditoCuenta {
+    numero: number;
+    ventaId: string;
+    fecha: string;
+    total: number;
+}
+
+export interface LiquidacionCuenta {
+    numero: number;
+    ventaConsignacionId: string;
+    fecha: string;
+    monto: number;
+}
+
+/**
+ * Arma el libro de la cuenta corriente. Las ventas Pagadas/Enviadas sin pagos registrados
+ * se consideran cobradas al contado para que el saldo concuerde con el estado de la venta,
+ * salvo la parte que cubran los pagos sin venta asignada del cliente.
+ * Los pagos sin venta asignada se imputan a las deudas más antiguas (FIFO) para la antigüedad.
+ * Las liquidaciones descargan la consignación: lo vendido pasa a deber en la venta que generan.
+ */
+export const construirCuentaCorriente = (
+    ventas: VentaCuenta[],
+    notas: NotaCreditoCuenta[],
+    pagos: PagoCliente[],
+    liquidaciones: LiquidacionCuenta[] = [],
+    hoy: Date = new Date()
+): CuentaCorriente => {
+    const movimientos: Omit<MovimientoCuentaCorriente, 'saldo'>[] = [];
+    const pendientes: VentaConSaldo[] = [];
+    const inconsistencias: string[] = [];
+    const cobradasSinPagos: { venta: VentaCuenta; fecha: string; pendiente: number }[] = [];
+    let creditoSinImputar = 0;
+
+    for (const v of ventas) {
+        if (ESTADOS_SIN_DEUDA.includes(v.estado)) continue;
+        const fecha = soloFecha(v.fecha);
+        movimientos.push({
+            fecha,
+            tipo: v.tipo === 'Consignacion' ? 'Consignación' : 'Venta',
+            descripcion: `${v.tipo === 'Consignacion' ? 'Consignación' : 'Venta'} ${ventaRef(v.id)} (${v.estado})`,
+            ventaId: v.id,
+            debe: v.total,
+            haber: 0,
+        });
+        if (v.pago1 > 0) {
+            movimientos.push({ fecha, tipo: 'Pago', descripcion: `Pago inicial de la venta ${ventaRef(v.id)}`, ventaId: v.id, debe: 0, haber: v.pago1 });
+        }
+
+        const pagado = v.pago1
+            + pagos.filter(p => p.ventaId === v.id).reduce((s, p) => s + p.monto, 0)
+            + liquidaciones.filter(l => l.ventaConsignacionId === v.id).reduce((s, l) => s + l.monto, 0);
+        const pendiente = v.total - pagado - notas.filter(n => n.ventaId === v.id).reduce((s, n) => s + n.total, 0);
+
+        if (ESTADOS_COBRADOS.includes(v.estado) && pendiente > TOLERANCIA) {
+            if (pagado <= TOLERANCIA) {
+                // El cobro al contado se resuelve después de imputar los pagos sin venta asignada
+                cobradasSinPagos.push({ venta: v, fecha, pendiente });
+                continue;
+            }
+            inconsistencias.push(`La venta ${ventaRef(v.id)} figura como ${v.estado} pero sus pagos registrados no cubren el total.`);
+        }
+        if (pendiente <= TOLERANCIA && !ESTADOS_COBRADOS.includes(v.estado) && v.tipo !== 'Consignacion') {
+            inconsistencias.push(`La venta ${ventaRef(v.id)} está saldada pero figura como ${v.estado}.`);
+        }
+
+        if (pendiente < -TOLERANCIA) creditoSinImputar += -pendiente;
+        else if (pendiente > TOLERANCIA) pendientes.push({ ventaId: v.id, fecha, estado: v.estado, total: v.total, pendiente });
+    }
+
+    for (const n of notas) {
+        const venta = ventas.find(v => v.id === n.ventaId);
+        if (venta && ESTADOS_SIN_DEUDA.includes(venta.estado)) continue;
+        movimientos.push({
+            fecha: soloFecha(n.fecha),
+            tipo: 'Nota de crédito',
+            descripcion: `NC #${String(n.numero).padStart(6, '0')} sobre venta ${ventaRef(n.ventaId)}`,
+            ventaId: n.ventaId,
+            debe: 0,
+            haber: n.total,
+        });
+    }
+
+    for (const l of liquidaciones) {
+        movimientos.push({
+            fecha: soloFecha(l.fecha),
+            tipo: 'Liquidación de consignación',
+            descripcion: `Liquidación #${l.numero} de consignación ${ventaRef(l.ventaConsignacionId)} (vendido y devuelto)`,
+            ventaId: l.ventaConsignacionId,
+            debe: 0,
+            haber: l.monto,
+        });
+    }
+
+    for (const p of pagos) {
+        movimientos.push({
+            fecha: soloFecha(p.fecha),
+            tipo: 'Pago',
+            descripcion: `${p.metodo}${p.referencia ? ` · ${p.referencia}` : ''}${p.ventaId ? ` · imputado a venta ${ventaRef(p.ventaId)}` : ''}`,
+            ventaId: p.ventaId,
+            debe: 0,
+            haber: p.monto,
+        });
+        if (!p.ventaId) creditoSinImputar += p.monto;
+    }
+
+    // Ventas cobradas sin pagos propios: primero las cubren los pagos libres y solo el resto se da por cobrado
+    cobradasSinPagos.sort((a, b) => a.fecha.localeCompare(b.fecha));
+    for (const c of cobradasSinPagos) {
+        const cubierto = Math.min(c.pendiente, creditoSinImputar);
+        creditoSinImputar -= cubierto;
+        const resto = c.pendiente - cubierto;
+        if (resto <= TOLERANCIA) continue;
+        movimientos.push({
+            fecha: c.fecha,
+            tipo: 'Cobro según estado',
+            descripcion: `Venta ${ventaRef(c.venta.id)} marcada como ${c.venta.estado} sin pagos registrados`,
+            ventaId: c.venta.id,
+            debe: 0,
+            haber: resto,
+        });
+    }
+
+    // Orden cronológico; en el mismo día los débitos van primero
+    movimientos.sort((a, b) => a.fecha.localeCompare(b.fecha) || (b.debe - a.debe));
+    let saldo = 0;
+    const conSaldo = movimientos.map(m => {
+        saldo += m.debe - m.haber;
+        return { ...m, saldo };
+    });
+
+    // Imputación FIFO de los créditos libres a las deudas más antiguas
+    pendientes.sort((a, b) => a.fecha.localeCompare(b.fecha));
+    for (const p of pendientes) {
+        const aplicado = Math.min(p.pendiente, creditoSinImputar);
+        p.pendiente -= aplicado;
+        creditoSinImputar -= aplicado;
+    }
+
+    const antiguedad: Record<TramoAntiguedad, number> = { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+    for (const p of pendientes) {
+        const dias = Math.floor((hoy.getTime() - new Date(`${p.fecha}T00:00:00`).getTime()) / 86400000);
+        antiguedad[tramoPorDias(dias)] += p.pendiente;
+    }
+
+    return {
+        movimientos: conSaldo,
+        saldo,
+        saldoAFavor: creditoSinImputar > TOLERANCIA ? creditoSinImputar : 0,
+        antiguedad,
+        ventasPendientes: pendientes.filter(p => p.pendiente > TOLERANCIA),
+        inconsistencias,
+    };
+};
+
+export const fetchCuentaCorriente = async (clienteId: string): Promise<CuentaCorriente> => {
+    console.log(`[${SERVICE_NAME}] Fetching current account for client ${clienteId}.`);
+    const [ventasRes, notasRes, pagosRes, liquidacionesRes] = await Promise.all([
+        supabase.from('ventas').select('id, fecha, total, estado, tipo, pago_1').eq('cliente_id', clienteId),
+        supabase.from('notas_credito').select('numero, venta_id, fecha, total, ventas!inner(cliente_id)').eq('ventas.cliente_id', clienteId),
+        supabase.from('pagos_clientes').select('*').eq('cliente_id', clienteId),
+        supabase.from('liquidacion_consignacion_items')
+            .select('venta_consignacion_id, cantidad_vendida, cantidad_devuelta, precio_unitario, liquidaciones_consignacion!inner(numero, fecha, cliente_id)')
+            .eq('liquidaciones_consignacion.cliente_id', clienteId),
+    ]);
+
+    if (ventasRes.error) throw ventasRes.error;
+    if (pagosRes.error) {
+        console.error(`[${SERVICE_NAME}] Error fetching payments:`, pagosRes.error);
+        throw isMissingObject(pagosRes.error) ? cuentaCorrienteSqlError(pagosRes.error) : pagosRes.error;
+    }
+    if (notasRes.error) {
+        // Sin el módulo de devoluciones instalado no hay notas de crédito.
+        console.warn(`[${SERVICE_NAME}] Could not fetch credit notes:`, notasRes.error.message);
+    }
+    if (liquidacionesRes.error) {
+        console.warn(`[${SERVICE_NAME}] Could not fetch consignment settlements:`, liquidacionesRes.error.message);
+    }
+
+    const ventas: VentaCuenta[] = (ventasRes.data || []).map((v: any) => ({
+        id: v.id,
+        fecha: v.fecha,
+        total: Number(v.total) || 0,
+        estado: v.estado,
+        tipo: v.tipo,
+        pago1: Number(v.pago_1) || 0,
+    }));
+    const notas: NotaCreditoCuenta[] = (notasRes.data || []).map((n: any) => ({
+        numero: n.numero,
+        ventaId: n.venta_id,
+        fecha: n.fecha,
+        total: Number(n.total) || 0,
+    }));
+    const pagos: PagoCliente[] = (pagosRes.data || []).map((p: any) => ({
+        id: p.id,
+        clienteId: p.cliente_id,
+        ventaId: p.venta_id,
+        fecha: p.fecha,
+        monto: Number(p.monto) || 0,
+        metodo: p.metodo,
+        referencia: p.referencia,
+    }));
+
+    // Una fila por liquidación y consignación
+    const liquidaciones = Object.values((liquidacionesRes.data || []).reduce((acc: Record<string, LiquidacionCuenta>, i: any) => {
+        const clave = `${i.liquidaciones_consignacion.numero}-${i.venta_consignacion_id}`;
+        const monto = (i.cantidad_vendida + i.cantidad_devuelta) * Number(i.precio_unitario);
+        acc[clave] = acc[clave]
+            ? { ...acc[clave], monto: acc[clave].monto + monto }
+            : { numero: i.liquidaciones_consignacion.numero, ventaConsignacionId: i.venta_consignacion_id, fecha: i.liquidaciones_consignacion.fecha, monto };
+        return acc;
+    }, {}));
+
+    return construirCuentaCorriente(ventas, notas, pagos, liquidaciones);
+};
+
+export const registrarPagoCliente = async (pago: Omit<PagoCliente, 'id'>): Promise<string> => {
+    console.log(`[${SERVICE_NAME}] Registering payment for client ${pago.clienteId}.`);
+    const { data, error } = await (supabase.rpc as any)('registrar_pago_cliente', {
+        p_cliente_id: pago.clienteId,
+        p_monto: pago.monto,
+        p_metodo: pago.metodo,
+        p_fecha: pago.fecha,
+        p_referencia: pago.referencia,
+        p_venta_id: pago.ventaId,
+    });
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error registering payment:`, error);
+        if (isMissingObject(error)) throw cuentaCorrienteSqlError(error);
+        if (error.code === 'P0001') throw { ...error, message: `No se pudo registrar el pago: ${error.message}` };
+        throw error;
+    }
+    return data as string;
+};
+
+// --- Estado de cuenta (PDF) ---
+
+const formatMoneda = (n: number) => `$ ${n.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatFecha = (iso: string) => {
+    const [y, m, d] = iso.split('-');
+    return `${d}/${m}/${y}`;
+};
+
+export const descargarEstadoCuentaPdf = (cliente: Cliente, cuenta: CuentaCorriente) => {
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+    const ancho = pdf.internal.pageSize.getWidth();
+    const alto = pdf.internal.pageSize.getHeight();
+    const margen = 12;
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(16);
+    pdf.text('Estado de Cuenta', margen, margen + 6);
+    pdf.setFontSize(11);
+    pdf.text(cliente.nombre, margen, margen + 14);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.text(`CUIT: ${cliente.cuit || '-'}    Emitido: ${new Date().toLocaleDateString('es-AR')}`, margen, margen + 20);
+
+    // Resumen y antigüedad
+    let y = margen + 30;
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(`Saldo: ${formatMoneda(cuenta.saldo)}`, margen, y);
+    pdf.setFont('helvetica', 'normal');
+    const tramos = Object.entries(cuenta.antiguedad).map(([t, v]) => `${t} días: ${formatMoneda(v)}`).join('   ');
+    pdf.text(tramos, margen, y + 6);
+    if (cuenta.saldoAFavor > 0) pdf.text(`Saldo a favor sin imputar: ${formatMoneda(cuenta.saldoAFavor)}`, margen, y + 12);
+
+    // Movimientos
+    y += 20;
+    const encabezado = () => {
+        pdf.setFillColor(230, 230, 230);
+        pdf.rect(margen, y - 5, ancho - margen * 2, 7, 'F');
+        pdf.setFont('helvetica', 'bold');
+        pdf.text('Fecha', margen + 2, y);
+        pdf.text('Concepto', margen + 24, y);
+        pdf.text('Debe', 140, y, { align: 'right' });
+        pdf.text('Haber', 165, y, { align: 'right' });
+        pdf.text('Saldo', ancho - margen - 2, y, { align: 'right' });
+        pdf.setFont('helvetica', 'normal');
+        y += 7;
+    };
+    encabezado();
+    for (const m of cuenta.movimientos) {
+        if (y > alto - margen) {
+            pdf.addPage();
+            y = margen + 6;
+            encabezado();
+        }
+        pdf.text(formatFecha(m.fecha), margen + 2, y);
+        pdf.text(m.descripcion.substring(0, 60), margen + 24, y);
+        if (m.debe) pdf.text(formatMoneda(m.debe), 140, y, { align: 'right' });
+        if (m.haber) pdf.text(formatMoneda(m.haber), 165, y, { align: 'right' });
+        pdf.text(formatMoneda(m.saldo), ancho - margen - 2, y, { align: 'right' });
+        y += 6;
+    }
+
+    pdf.save(`Estado_Cuenta_${cliente.nombre.replace(/\s+/g, '_')}_${new Date().toLocaleDateString('es-AR').replace(/\//g, '-')}.pdf`);
+};
@@ -0,0 +1,317 @@
+import { supabase } from '../supabase';
+import { CanjeCupon, Cupon, CuponValidado, OrderItem, TipoCupon } from '../types';
+import { CREAR_VENTA_SQL } from './ventasService';
+
+const SERVICE_NAME = 'CuponesService';
+
+export const TIPOS_CUPON: TipoCupon[] = ['Porcentaje', 'Monto fijo', 'Envío gratis'];
+
+const CUPONES_SQL = `-- Cupones y códigos promocionales de la tienda
+CREATE TABLE IF NOT EXISTS public.cupones (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    codigo text NOT NULL UNIQUE CHECK (codigo = upper(btrim(codigo)) AND codigo <> ''),
+    descripcion text,
+    tipo text NOT NULL CHECK (tipo IN ('Porcentaje', 'Monto fijo', 'Envío gratis')),
+    valor numeric NOT NULL DEFAULT 0 CHECK (valor >= 0),
+    producto_ids uuid[] NOT NULL DEFAULT '{}',
+    lineas text[] NOT NULL DEFAULT '{}',
+    monto_minimo numeric CHECK (monto_minimo > 0),
+    usos_maximos integer CHECK (usos_maximos > 0),
+    usos_por_email integer CHECK (usos_por_email > 0),
+    fecha_desde date,
+    fecha_hasta date,
+    activo boolean NOT NULL DEFAULT true,
+    destacado boolean NOT NULL DEFAULT false,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    CHECK (tipo <> 'Porcentaje' OR (valor > 0 AND valor <= 100)),
+    CHECK (tipo <> 'Monto fijo' OR valor > 0),
+    CHECK (fecha_desde IS NULL OR fecha_hasta IS NULL OR fecha_desde <= fecha_hasta)
+);
+
+CREATE TABLE IF NOT EXISTS public.cupones_canjes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    cupon_id uuid NOT NULL REFERENCES public.cupones(id),
+    venta_id uuid NOT NULL UNIQUE REFERENCES public.ventas(id) ON DELETE CASCADE,
+    email text,
+    descuento numeric NOT NULL,
+    fecha timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS cupones_canjes_cupon_idx ON public.cupones_canjes (cupon_id);
+
+ALTER TABLE public.ventas ADD COLUMN IF NOT EXISTS cupon_codigo text;
+ALTER TABLE public.ventas ADD COLUMN IF NOT EXISTS cupon_descuento numeric;
+
+-- La tienda solo ve los cupones destacados (banner); el resto se valida por RPC sin exponer la lista
+ALTER TABLE public.cupones ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Cupones destacados visibles en la tienda" ON public.cupones;
+CREATE POLICY "Cupones destacados visibles en la tienda" ON public.cupones FOR SELECT TO anon USING (activo AND destacado);
+DROP POLICY IF EXISTS "Cupones para usuarios autenticados" ON public.cupones;
+CREATE POLICY "Cupones para usuarios autenticados" ON public.cupones FOR ALL TO authenticated USING (true) WITH CHECK (true);
+ALTER TABLE public.cupones_canjes ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Canjes visibles para usuarios autenticados" ON public.cupones_canjes;
+CREATE POLICY "Canjes visibles para usuarios autenticados" ON public.cupones_canjes FOR SELECT TO authenticated USING (true);
+
+-- Valida un código contra un pedido y devuelve el descuento. p_items: [{producto_id, total}].
+-- Los canjes de ventas canceladas o de carritos abandonados (reserva vencida) no cuentan para los límites de uso.
+CREATE OR REPLACE FUNCTION public.validar_cupon(p_codigo text, p_email text, p_items jsonb, p_envio numeric DEFAULT 0)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_cupon cupones%ROWTYPE;
+    v_codigo text := upper(btrim(p_codigo));
+    v_subtotal numeric;
+    v_alcanzado numeric;
+    v_usos integer;
+    v_descuento numeric;
+BEGIN
+    SELECT * INTO v_cupon FROM cupones WHERE codigo = v_codigo;
+    IF NOT FOUND OR NOT v_cupon.activo THEN
+        RAISE EXCEPTION 'El cupón % no existe o no está activo.', v_codigo;
+    END IF;
+    IF v_cupon.fecha_desde IS NOT NULL AND current_date < v_cupon.fecha_desde THEN
+        RAISE EXCEPTION 'El cupón % es válido a partir del %.', v_codigo, to_char(v_cupon.fecha_desde, 'DD/MM/YYYY');
+    END IF;
+    IF v_cupon.fecha_hasta IS NOT NULL AND current_date > v_cupon.fecha_hasta THEN
+        RAISE EXCEPTION 'El cupón % venció el %.', v_codigo, to_char(v_cupon.fecha_hasta, 'DD/MM/YYYY');
+    END IF;
+
+    SELECT COALESCE(SUM((i->>'total')::numeric), 0) INTO v_subtotal FROM jsonb_array_elements(p_items) i;
+    IF v_cupon.monto_minimo IS NOT NULL AND v_subtotal < v_cupon.monto_minimo THEN
+        RAISE EXCEPTION 'El cupón % requiere una compra mínima de $%.', v_codigo, v_cupon.monto_minimo;
+    END IF;
+
+    IF v_cupon.usos_maximos IS NOT NULL THEN
+        SELECT count(*) INTO v_usos FROM cupones_canjes c JOIN ventas v ON v.id = c.venta_id
+        WHERE c.cupon_id = v_cupon.id AND v.estado NOT IN ('Cancelada', 'Carrito Abandonado');
+        IF v_usos >= v_cupon.usos_maximos THEN
+            RAISE EXCEPTION 'El cupón % ya alcanzó su límite de usos.', v_codigo;
+        END IF;
+    END IF;
+    IF v_cupon.usos_por_email IS NOT NULL THEN
+        IF NULLIF(btrim(p_email), '') IS NULL THEN
+            RAISE EXCEPTION 'Ingresa tu email para usar el cupón %.', v_codigo;
+        END IF;
+        SELECT count(*) INTO v_usos FROM cupones_canjes c JOIN ventas v ON v.id = c.venta_id
+        WHERE c.cupon_id = v_cupon.id AND lower(c.email) = lower(btrim(p_email)) AND v.estado NOT IN ('Cancelada', 'Carrito Abandonado');
+        IF v_usos >= v_cupon.usos_por_email THEN
+            RAISE EXCEPTION 'Ya usaste el cupón % la cantidad de veces permitida.', v_codigo;
+        END IF;
+    END IF;
+
+    -- Sin productos ni líneas el cupón alcanza a todo el pedido
+    SELECT COALESCE(SUM((i->>'total')::numeric), 0) INTO v_alcanzado
+    FROM jsonb_array_elements(p_items) i
+    LEFT JOIN productos p ON p.id = (i->>'producto_id')::uuid
+    WHERE (cardinality(v_cupon.producto_ids) = 0 AND cardinality(v_cupon.lineas) = 0)
+       OR p.id = ANY(v_cupon.producto_ids)
+       OR p.linea = ANY(v_cupon.lineas);
+    IF v_alcanzado <= 0 THEN
+        RAISE EXCEPTION 'El cupón % no aplica a los productos del pedido.', v_codigo;
+    END IF;
+
+    v_descuento := CASE v_cupon.tipo
+        WHEN 'Porcentaje' THEN round(v_alcanzado * v_cupon.valor / 100, 2)
+        WHEN 'Monto fijo' THEN LEAST(v_cupon.valor, v_alcanzado)
+        ELSE COALESCE(p_envio, 0)
+    END;
+
+    RETURN jsonb_build_object('cupon_id', v_cupon.id, 'codigo', v_cupon.codigo, 'tipo', v_cupon.tipo, 'valor', v_cupon.valor, 'descuento', v_descuento);
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.validar_cupon(text, text, jsonb, numeric) TO anon, authenticated;
+
+-- Lo llama crear_venta: vuelve a validar con los ítems guardados (mismos límites de uso que validar_cupon,
+-- sin contar canceladas ni carritos abandonados) y deja el canje en la venta
+CREATE OR REPLACE FUNCTION public.canjear_cupon(p_venta_id uuid, p_codigo text, p_email text, p_envio numeric, p_descuento numeric)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_items jsonb;
+    v_cupon jsonb;
+    v_descuento numeric;
+BEGIN
+    -- Serializa los canjes del mismo código para que los límites de uso no se pasen
+    PERFORM 1 FROM cupones WHERE codigo = upper(btrim(p_codigo)) FOR UPDATE;
+
+    SELECT jsonb_agg(jsonb_build_object('producto_id', producto_id, 'total', cantidad * precio_unitario)) INTO v_items
+    FROM venta_items WHERE venta_id = p_venta_id;
+
+    v_cupon := validar_cupon(p_codigo, p_email, COALESCE(v_items, '[]'::jsonb), p_envio);
+    v_descuento := (v_cupon->>'descuento')::numeric;
+    IF p_descuento IS NOT NULL AND abs(p_descuento - v_descuento) > 0.01 THEN
+        RAISE EXCEPTION 'El descuento del cupón % cambió: ahora es $%.', v_cupon->>'codigo', v_descuento;
+    END IF;
+
+    INSERT INTO cupones_canjes (cupon_id, venta_id, email, descuento)
+    VALUES ((v_cupon->>'cupon_id')::uuid, p_venta_id, NULLIF(lower(btrim(p_email)), ''), v_descuento);
+    UPDATE ventas SET cupon_codigo = v_cupon->>'codigo', cupon_descuento = v_descuento WHERE id = p_venta_id;
+
+    RETURN v_descuento;
+END;
+$$;
+
+-- crear_venta canjeando el cupón en la misma transacción
+${CREAR_VENTA_SQL}`;
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', '42703', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('cupones') ||
+    error?.message?.includes('validar_cupon');
+
+const cuponesSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Faltan las tablas de cupones.",
+    details: "Los códigos promocionales se validan en la base (límites de uso, vigencia, alcance) y el canje queda guardado en la venta.",
+    hint: "Ejecuta el script SQL de abajo. También actualiza la función crear_venta para que canjee el cupón al registrar el pedido.",
+    sql: CUPONES_SQL,
+});
+
+const mapCupon = (c: any): Cupon => ({
+    id: c.id,
+    codigo: c.codigo,
+    descripcion: c.descripcion,
+    tipo: c.tipo,
+    valor: Number(c.valor),
+    productoIds: c.producto_ids || [],
+    lineas: c.lineas || [],
+    montoMinimo: c.monto_minimo === null ? null : Number(c.monto_minimo),
+    usosMaximos: c.usos_maximos,
+    usosPorEmail: c.usos_por_email,
+    fechaDesde: c.fecha_desde,
+    fechaHasta: c.fecha_hasta,
+    activo: c.activo,
+    destacado: c.destacado,
+});
+
+export const normalizarCodigoCupon = (codigo: string) => codigo.trim().toUpperCase();
+
+export const fetchCupones = async (): Promise<Cupon[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching coupons.`);
+    const { data, error } = await supabase.from('cupones').select('*').order('created_at', { ascending: false });
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error fetching coupons:`, error);
+        if (isMissingObject(error)) throw cuponesSqlError(error);
+        throw error;
+    }
+    return (data || []).map(mapCupon);
+};
+
+/** Cupones vigentes marcados para anunciarse en el banner. Sin la tabla no hay nada que mostrar. */
+export const fetchCuponesDestacados = async (): Promise<Cupon[]> => {
+    const hoy = new Date().toISOString().split('T')[0];
+    const { data, error } = await supabase.from('cupones').select('*').eq('activo', true).eq('destacado', true);
+    if (error) {
+        console.warn(`[${SERVICE_NAME}] Featured coupons unavailable:`, error.message);
+        return [];
+    }
+    return (data || [])
+        .map(mapCupon)
+        .filter(c => (!c.fechaDesde || c.fechaDesde <= hoy) && (!c.fechaHasta || c.fechaHasta >= hoy));
+};
+
+export const saveCupon = async (cupon: Omit<Cupon, 'id'>, id?: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Saving coupon ${cupon.codigo}.`);
+    const row = {
+        codigo: normalizarCodigoCupon(cupon.codigo),
+        descripcion: cupon.descripcion?.trim() || null,
+        tipo: cupon.tipo,
+        valor: cupon.tipo === 'Envío gratis' ? 0 : cupon.valor,
+        producto_ids: cupon.productoIds,
+        lineas: cupon.lineas,
+        monto_minimo: cupon.montoMinimo || null,
+        usos_maximos: cupon.usosMaximos || null,
+        usos_por_email: cupon.usosPorEmail || null,
+        fecha_desde: cupon.fechaDesde || null,
+        fecha_hasta: cupon.fechaHasta || null,
+        activo: cupon.activo,
+        destacado: cupon.destacado,
+    };
+    const query = id
+        ? (supabase.from('cupones') as any).update(row).eq('id', id)
+        : (supabase.from('cupones') as any).insert(row);
+    const { error } = await query;
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error saving coupon:`, error);
+        if (error.code === '23505') throw new Error(`Ya existe un cupón con el código ${row.codigo}.`);
+        if (error.code === '23514') throw new Error('El cupón no es válido: revisa el valor, los mínimos y las fechas.');
+        if (isMissingObject(error)) throw cuponesSqlError(error);
+        throw error;
+    }
+};
+
+export const deleteCupon = async (id: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Deleting coupon ${id}.`);
+    const { error } = await supabase.from('cupones').delete().eq('id', id);
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error deleting coupon:`, error);
+        if (error.code === '23503') throw new Error('El cupón ya se canjeó en ventas. Desactívalo en lugar de eliminarlo.');
+        if (isMissingObject(error)) throw cuponesSqlError(error);
+        throw error;
+    }
+};
+
+export const fetchCanjesCupones = async (): Promise<CanjeCupon[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching coupon redemptions.`);
+    const { data, error } = await supabase
+        .from('cupones_canjes')
+        .select('id, cupon_id, venta_id, email, descuento, fecha, cupones(codigo), ventas(estado, total, tienda)')
+        .order('fecha', { ascending: false });
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error fetching redemptions:`, error);
+        if (isMissingObject(error)) throw cuponesSqlError(error);
+        throw error;
+    }
+    return (data || []).map((c: any) => ({
+        id: c.id,
+        cuponId: c.cupon_id,
+        codigo: c.cupones?.codigo || '',
+        ventaId: c.venta_id,
+        email: c.email,
+        descuento: Number(c.descuento),
+        fecha: c.fecha,
+        ventaEstado: c.ventas?.estado || null,
+        ventaTotal: c.ventas?.total ?? null,
+        tienda: c.ventas?.tienda || null,
+    }));
+};
+
+/**
+ * Valida un código contra el carrito. El descuento se calcula en la base con los mismos criterios
+ * que usa crear_venta al canjearlo. Los errores de validación llegan como mensaje legible.
+ */
+export const validarCupon = async (codigo: string, email: string | null, orderItems: OrderItem[], envio: number): Promise<CuponValidado> => {
+    console.log(`[${SERVICE_NAME}] Validating coupon ${normalizarCodigoCupon(codigo)}.`);
+    const { data, error } = await (supabase.rpc as any)('validar_cupon', {
+        p_codigo: normalizarCodigoCupon(codigo),
+        p_email: email?.trim() || null,
+        p_items: orderItems.map(item => ({ producto_id: item.id, total: item.lineTotal })),
+        p_envio: envio,
+    });
+    if (error) {
+        if (error.code === 'P0001') throw new Error(error.message);
+        if (isMissingObject(error)) {
+            console.warn(`[${SERVICE_NAME}] Coupon functions not installed.`);
+            throw new Error('Los cupones no están disponibles en este momento.');
+        }
+        console.error(`[${SERVICE_NAME}] Error validating coupon:`, error);
+        throw error;
+    }
+    return {
+        cuponId: data.cupon_id,
+        codigo: data.codigo,
+        tipo: data.tipo,
+        valor: Number(data.valor),
+        descuento: Number(data.descuento),
+    };
+};
+
+/** Texto corto para el banner y el resumen: "15% OFF", "$5.000 OFF", "Envío gratis". */
+export const describirCupon = (cupon: Pick<Cupon, 'tipo' | 'valor'>) => {
+    if (cupon.tipo === 'Porcentaje') return `${cupon.valor}% OFF`;
+    if (cupon.tipo === 'Monto fijo') return `$${cupon.valor.toLocaleString('es-AR')} OFF`;
+    return 'Envío gratis';
+};
@@ -3,36 +3,14 @@ import { DashboardStats } from '../types';
 
 const SERVICE_NAME = 'DashboardService';
 
-export const fetchDashboardData = async (): Promise<DashboardStats> => {
-    console.log(`[${SERVICE_NAME}] Fetching all dashboard data via RPC 'get_dashboard_stats'.`);
-    try {
-        const { data, error } = await supabase.rpc('get_dashboard_stats', {}).single();
-
-        if (error) {
-            console.error(`[${SERVICE_NAME}] Error fetching dashboard data via RPC:`, error);
-            throw error;
-        }
-
-        if (!data) {
-            throw new Error('La llamada a la base de datos para el dashboard no devolvió datos.');
-        }
-
-        console.log(`[${SERVICE_NAME}] Successfully fetched dashboard data via RPC.`);
-        return data as DashboardStats;
-    } catch (error: any) {
-        console.error(`[${SERVICE_NAME}] Exception while fetching dashboard data:`, error);
-        
-        // More robust check for the "function not found" error from Supabase/PostgREST.
-        const functionNotFound = 
-            error.message?.includes('function get_dashboard_stats does not exist') || 
-            error.message?.includes('Could not find the function');
-
-        if (functionNotFound) {
-            throw {
-                message: "Error de base de datos: La función 'get_dashboard_stats' no existe o está desactualizada.",
-                details: "Esta función es crucial para recopilar todas las estadísticas que se muestran en el Dashboard. Sin ella, la página principal no puede funcionar.",
-                hint: "Ejecuta el siguiente script SQL en tu editor de Supabase para crear o actualizar la función necesaria.",
-                sql: `CREATE OR REPLACE FUNCTION get_dashboard_stats()
+export const DASHBOARD_STATS_SQL = `-- Requiere la tabla notas_credito (script de devoluciones de Ventas)
+-- Puntos de reorden: los calcula la hoja de reposición; sin cálculo se usan los umbrales fijos
+ALTER TABLE public.productos ADD COLUMN IF NOT EXISTS punto_reorden numeric;
+ALTER TABLE public.productos ADD COLUMN IF NOT EXISTS stock_seguridad numeric;
+ALTER TABLE public.insumos ADD COLUMN IF NOT EXISTS punto_reorden numeric;
+ALTER TABLE public.insumos ADD COLUMN IF NOT EXISTS stock_seguridad numeric;
+
+CREATE OR REPLACE FUNCTION get_dashboard_stats()
 RETURNS json AS $$
 DECLARE
     total_sales_count integer;
@@ -50,11 +28,15 @@ BEGIN
     -- Total sales count
     SELECT COUNT(*) INTO total_sales_count FROM ventas;
 
-    -- Total revenue for the current year
+    -- Total revenue for the current year, net of credit notes (returns)
     SELECT COALESCE(SUM(total), 0) INTO total_revenue_val
     FROM ventas
     WHERE date_part('year', fecha) = date_part('year', CURRENT_DATE);
 
+    SELECT total_revenue_val - COALESCE(SUM(total), 0) INTO total_revenue_val
+    FROM notas_credito
+    WHERE date_part('year', fecha) = date_part('year', CURRENT_DATE);
+
     -- Total product stock
     SELECT COALESCE(SUM(cantidad_actual), 0) INTO total_product_stock_val FROM lotes;
 
@@ -64,29 +46,30 @@ BEGIN
     -- Total insumos types
     SELECT COUNT(*) INTO total_insumos_count_val FROM insumos;
 
-    -- Low stock products (stock < 50)
+    -- Low stock products (at or below reorder point, stock < 50 when not calculated)
     WITH product_stock AS (
         SELECT producto_id, SUM(cantidad_actual) as stock
         FROM lotes
         GROUP BY producto_id
     )
-    SELECT json_agg(json_build_object('id', p.id, 'nombre', p.nombre, 'stock', ps.stock))
+    SELECT json_agg(json_build_object('id', p.id, 'nombre', p.nombre, 'stock', ps.stock, 'puntoReorden', p.punto_reorden))
     INTO low_stock_products_json
     FROM productos p
     JOIN product_stock ps ON p.id = ps.producto_id
-    WHERE ps.stock < 50;
+    WHERE CASE WHEN p.punto_reorden IS NULL THEN ps.stock < 50 ELSE ps.stock <= p.punto_reorden AND p.punto_reorden > 0 END;
 
-    -- Low stock insumos (stock < 100)
-    SELECT json_agg(json_build_object('id', i.id, 'nombre', i.nombre, 'stock', i.stock, 'unidad', i.unidad))
+    -- Low stock insumos (at or below reorder point, stock < 100 when not calculated)
+    SELECT json_agg(json_build_object('id', i.id, 'nombre', i.nombre, 'stock', i.stock, 'unidad', i.unidad, 'puntoReorden', i.punto_reorden))
     INTO low_stock_insumos_json
     FROM insumos i
-    WHERE i.stock < 100;
+    WHERE CASE WHEN i.punto_reorden IS NULL THEN i.stock < 100 ELSE i.stock <= i.punto_reorden AND i.punto_reorden > 0 END;
 
-    -- Sales by month (Amount for current year)
+    -- Sales by month (Amount for current year, net of credit notes)
     SELECT json_agg(month_data) INTO monthly_sales_json FROM (
         SELECT 
             TO_CHAR(m, 'Mon') as month,
-            COALESCE(SUM(v.total), 0) as value
+            COALESCE(SUM(v.total), 0)
+                - COALESCE((SELECT SUM(nc.total) FROM notas_credito nc WHERE date_trunc('month', nc.fecha) = m), 0) as value
         FROM generate_series(
             date_trunc('year', CURRENT_DATE),
             date_trunc('year', CURRENT_DATE) + interval '11 months',
@@ -149,7 +132,38 @@ BEGIN
         'salesByPOS', COALESCE(sales_by_pos_json, '[]'::json)
     );
 END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;`
+$$ LANGUAGE plpgsql SECURITY DEFINER;`;
+
+export const fetchDashboardData = async (): Promise<DashboardStats> => {
+    console.log(`[${SERVICE_NAME}] Fetching all dashboard data via RPC 'get_dashboard_stats'.`);
+    try {
+        const { data, error } = await supabase.rpc('get_dashboard_stats', {}).single();
+
+        if (error) {
+            console.error(`[${SERVICE_NAME}] Error fetching dashboard data via RPC:`, error);
+            throw error;
+        }
+
+        if (!data) {
+            throw new Error('La llamada a la base de datos para el dashboard no devolvió datos.');
+        }
+
+        console.log(`[${SERVICE_NAME}] Successfully fetched dashboard data via RPC.`);
+        return data as DashboardStats;
+    } catch (error: any) {
+        console.error(`[${SERVICE_NAME}] Exception while fetching dashboard data:`, error);
+        
+        // More robust check for the "function not found" error from Supabase/PostgREST.
+        const functionNotFound = 
+            error.message?.includes('function get_dashboard_stats does not exist') || 
+            error.message?.includes('Could not find the function');
+
+        if (functionNotFound) {
+            throw {
+                message: "Error de base de datos: La función 'get_dashboard_stats' no existe o está desactualizada.",
+                details: "Esta función es crucial para recopilar todas las estadísticas que se muestran en el Dashboard. Sin ella, la página principal no puede funcionar.",
+                hint: "Ejecuta el siguiente script SQL en tu editor de Supabase para crear o actualizar la función necesaria.",
+                sql: DASHBOARD_STATS_SQL
             };
         }
         if (error.message?.includes('security policy')) {
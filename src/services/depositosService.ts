@@ -1,8 +1,104 @@
 import { supabase } from '../supabase';
-import { Deposito, TransferenciaStock } from '../types';
+import { Deposito, NivelStockDeposito, RolDeposito, TransferenciaStock } from '../types';
 
 const SERVICE_NAME = 'DepositosService';
 
+export const ROLES_DEPOSITO: RolDeposito[] = ['Punto de venta', 'Almacén', 'Cuarentena', 'Consignación'];
+
+// Valores de ventas.tienda según el dominio desde el que se compra
+export const TIENDAS = ['Isabella', 'Ultrashine', 'Bodytan'];
+
+export const getTiendaFromHostname = () => {
+    const host = window.location.hostname;
+    if (host.includes('ultrashineskin')) return 'Ultrashine';
+    if (host.includes('bodytancaribbean')) return 'Bodytan';
+    return 'Isabella';
+};
+
+export const DEPOSITOS_SQL = `-- Rol de cada depósito, venta online y niveles mínimo/máximo por producto
+ALTER TABLE public.depositos ADD COLUMN IF NOT EXISTS rol text NOT NULL DEFAULT 'Almacén';
+ALTER TABLE public.depositos DROP CONSTRAINT IF EXISTS depositos_rol_check;
+ALTER TABLE public.depositos ADD CONSTRAINT depositos_rol_check CHECK (rol IN ('Punto de venta', 'Almacén', 'Cuarentena', 'Consignación'));
+ALTER TABLE public.depositos ADD COLUMN IF NOT EXISTS vende_online boolean NOT NULL DEFAULT false;
+ALTER TABLE public.depositos ADD COLUMN IF NOT EXISTS tienda text;
+-- Cada tienda despacha desde un único depósito
+CREATE UNIQUE INDEX IF NOT EXISTS depositos_tienda_idx ON public.depositos(tienda) WHERE tienda IS NOT NULL;
+-- Estado de control de calidad del lote: solo los liberados se ofrecen online
+ALTER TABLE public.lotes ADD COLUMN IF NOT EXISTS estado_calidad text NOT NULL DEFAULT 'Liberado';
+
+-- Instalaciones existentes: el depósito predeterminado sigue abasteciendo la tienda
+UPDATE public.depositos SET vende_online = true
+WHERE es_predeterminado AND NOT EXISTS (SELECT 1 FROM public.depositos WHERE vende_online);
+
+CREATE TABLE IF NOT EXISTS public.deposito_stock_niveles (
+    deposito_id uuid NOT NULL REFERENCES public.depositos(id) ON DELETE CASCADE,
+    producto_id uuid NOT NULL REFERENCES public.productos(id) ON DELETE CASCADE,
+    stock_minimo integer NOT NULL DEFAULT 0 CHECK (stock_minimo >= 0),
+    stock_maximo integer CHECK (stock_maximo IS NULL OR stock_maximo >= stock_minimo),
+    PRIMARY KEY (deposito_id, producto_id)
+);
+ALTER TABLE public.deposito_stock_niveles ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Niveles de stock para usuarios autenticados" ON public.deposito_stock_niveles;
+CREATE POLICY "Niveles de stock para usuarios autenticados" ON public.deposito_stock_niveles FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Depósitos que despachan los pedidos web de una tienda: el asignado a ella o, si no tiene, todos los que venden online.
+-- Los de cuarentena nunca despachan.
+CREATE OR REPLACE FUNCTION public.depositos_despacho_online(p_tienda text DEFAULT NULL)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT d.id FROM depositos d
+    WHERE d.rol <> 'Cuarentena'
+      AND CASE WHEN EXISTS (SELECT 1 FROM depositos WHERE tienda = p_tienda)
+               THEN d.tienda = p_tienda
+               ELSE d.vende_online END;
+$$;
+
+-- Stock vendible online por producto (sin lotes vencidos ni retenidos por calidad), visible sin iniciar sesión
+CREATE OR REPLACE FUNCTION public.stock_disponible_online(p_tienda text DEFAULT NULL)
+RETURNS TABLE (producto_id uuid, stock bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT l.producto_id, SUM(l.cantidad_actual)::bigint
+    FROM lotes l
+    WHERE l.deposito_id IN (SELECT depositos_despacho_online(p_tienda))
+      AND l.cantidad_actual > 0
+      AND l.estado_calidad = 'Liberado'
+      AND (l.fecha_vencimiento IS NULL OR l.fecha_vencimiento >= current_date)
+    GROUP BY l.producto_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.depositos_despacho_online(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.stock_disponible_online(text) TO anon, authenticated;`;
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', '42703', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('deposito_stock_niveles') ||
+    error?.message?.includes('vende_online') ||
+    error?.message?.includes('Could not find the function');
+
+const depositosSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Faltan las columnas de rol y venta online de los depósitos.",
+    details: "Cada depósito tiene un rol (punto de venta, almacén, cuarentena o consignación), puede ofrecer su stock en la tienda online y tener niveles mínimo y máximo por producto.",
+    hint: "Ejecuta el script SQL de abajo.",
+    sql: DEPOSITOS_SQL,
+});
+
+const mapDeposito = (d: any): Deposito => ({
+    id: d.id,
+    nombre: d.nombre,
+    direccion: d.direccion,
+    es_predeterminado: d.es_predeterminado,
+    rol: d.rol || 'Almacén',
+    vende_online: d.vende_online ?? false,
+    tienda: d.tienda ?? null,
+});
+
 export const fetchDepositos = async (): Promise<Deposito[]> => {
     console.log(`[${SERVICE_NAME}] Fetching depositos.`);
     try {
@@ -12,7 +108,7 @@ export const fetchDepositos = async (): Promise<Deposito[]> => {
             .order('nombre', { ascending: true });
         
         if (error) throw error;
-        return data || [];
+        return (data || []).map(mapDeposito);
     } catch (error: any) {
         console.error(`[${SERVICE_NAME}] Error fetching depositos:`, error);
         throw new Error(`No se pudieron cargar los depósitos: ${error?.message}`);
@@ -32,12 +128,19 @@ export const createDeposito = async (depositoData: Partial<Deposito>): Promise<v
             {
                 nombre: depositoData.nombre,
                 direccion: depositoData.direccion,
-                es_predeterminado: depositoData.es_predeterminado
+                es_predeterminado: depositoData.es_predeterminado,
+                rol: depositoData.rol || 'Almacén',
+                vende_online: !!depositoData.vende_online,
+                tienda: depositoData.tienda || null,
             }
         ]);
         if (error) throw error;
     } catch (error: any) {
         console.error(`[${SERVICE_NAME}] Error creating deposito:`, error);
+        if (isMissingObject(error)) throw depositosSqlError(error);
+        if (error.message?.includes('depositos_tienda_idx')) {
+            throw new Error(`La tienda ${depositoData.tienda} ya despacha desde otro depósito.`);
+        }
         if (error.message?.includes('un_solo_predeterminado_idx')) {
             throw new Error('Ya existe un depósito predeterminado. Por favor, desmarque el actual antes de asignar uno nuevo.');
         }
@@ -56,12 +159,19 @@ export const updateDeposito = async (id: string, depositoData: Partial<Deposito>
         const { error } = await (supabase.from('depositos') as any).update({
             nombre: depositoData.nombre,
             direccion: depositoData.direccion,
-            es_predeterminado: depositoData.es_predeterminado
+            es_predeterminado: depositoData.es_predeterminado,
+            rol: depositoData.rol || 'Almacén',
+            vende_online: !!depositoData.vende_online,
+            tienda: depositoData.tienda || null,
         }).eq('id', id);
         
         if (error) throw error;
     } catch (error: any) {
         console.error(`[${SERVICE_NAME}] Error updating deposito:`, error);
+        if (isMissingObject(error)) throw depositosSqlError(error);
+        if (error.message?.includes('depositos_tienda_idx')) {
+            throw new Error(`La tienda ${depositoData.tienda} ya despacha desde otro depósito.`);
+        }
         if (error.message?.includes('un_solo_predeterminado_idx')) {
             throw new Error('Ya existe otro depósito predeterminado. Por favor, desmarque el actual antes de asignar este.');
         }
@@ -80,25 +190,113 @@ export const deleteDeposito = async (id: string): Promise<void> => {
     }
 };
 
-export const transferirStock = async (loteId: string, depositoDestinoId: string, cantidad: number): Promise<void> => {
-    console.log(`[${SERVICE_NAME}] Transferring ${cantidad} from lot ${loteId} to deposit ${depositoDestinoId}`);
-    try {
-        const { error } = await (supabase.rpc as any)('transferir_stock', {
-            p_lote_id: loteId,
-            p_deposito_destino_id: depositoDestinoId,
-            p_cantidad: cantidad,
-        });
+/** Productos con stock en el depósito o con niveles cargados, con su mínimo y máximo. */
+export const fetchNivelesDeposito = async (depositoId: string): Promise<NivelStockDeposito[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching stock levels for deposito ${depositoId}.`);
+    const [
+        { data: productos, error: productosError },
+        { data: lotes, error: lotesError },
+        { data: niveles, error: nivelesError },
+    ] = await Promise.all([
+        supabase.from('productos').select('id, nombre').order('nombre', { ascending: true }),
+        supabase.from('lotes').select('producto_id, cantidad_actual').eq('deposito_id', depositoId),
+        supabase.from('deposito_stock_niveles').select('*').eq('deposito_id', depositoId),
+    ]);
+    const error = productosError || lotesError || nivelesError;
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error fetching stock levels:`, error);
+        if (isMissingObject(error)) throw depositosSqlError(error);
+        throw new Error(`No se pudieron cargar los niveles de stock: ${error.message}`);
+    }
 
-        if (error) throw error;
-    } catch (error: any) {
-        console.error(`[${SERVICE_NAME}] Error in RPC transferir_stock:`, error);
-        const functionNotFound = error.code === '42883' || error.message?.includes('function transferir_stock does not exist') || error.message?.includes('Could not find the function');
-        if (functionNotFound) {
-             throw {
-                message: "Error de base de datos: La función 'transferir_stock' no existe.",
-                details: "Esta función es vital para mover inventario entre depósitos. Sin ella, no se pueden realizar transferencias.",
-                hint: "Ejecuta el siguiente script SQL en tu editor de Supabase para crear la función necesaria.",
-                sql: `CREATE OR REPLACE FUNCTION transferir_stock(
+    const stock = new Map<string, number>();
+    for (const l of lotes || []) {
+        stock.set(l.producto_id, (stock.get(l.producto_id) || 0) + Number(l.cantidad_actual));
+    }
+    const nivelPorProducto = new Map((niveles || []).map((n: any) => [n.producto_id, n]));
+
+    return (productos || []).map((p: any) => ({
+        id: p.id,
+        productoNombre: p.nombre,
+        stockActual: stock.get(p.id) || 0,
+        stockMinimo: nivelPorProducto.get(p.id)?.stock_minimo ?? 0,
+        stockMaximo: nivelPorProducto.get(p.id)?.stock_maximo ?? null,
+    }));
+};
+
+/** Guarda los niveles del depósito. Los productos sin mínimo ni máximo se quitan. */
+export const saveNivelesDeposito = async (depositoId: string, niveles: NivelStockDeposito[]): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Saving stock levels for deposito ${depositoId}.`);
+    const invalido = niveles.find(n => n.stockMaximo !== null && n.stockMaximo < n.stockMinimo);
+    if (invalido) {
+        throw new Error(`El máximo de "${invalido.productoNombre}" no puede ser menor que el mínimo.`);
+    }
+    const conNivel = niveles.filter(n => n.stockMinimo > 0 || n.stockMaximo !== null);
+    const sinNivel = niveles.filter(n => n.stockMinimo <= 0 && n.stockMaximo === null).map(n => n.id);
+
+    if (conNivel.length > 0) {
+        const { error } = await (supabase.from('deposito_stock_niveles') as any).upsert(
+            conNivel.map(n => ({ deposito_id: depositoId, producto_id: n.id, stock_minimo: n.stockMinimo, stock_maximo: n.stockMaximo })),
+            { onConflict: 'deposito_id,producto_id' }
+        );
+        if (error) {
+            if (isMissingObject(error)) throw depositosSqlError(error);
+            throw new Error(`No se pudieron guardar los niveles de stock: ${error.message}`);
+        }
+    }
+    if (sinNivel.length > 0) {
+        const { error } = await supabase.from('deposito_stock_niveles').delete().eq('deposito_id', depositoId).in('producto_id', sinNivel);
+        if (error) throw new Error(`No se pudieron quitar los niveles de stock: ${error.message}`);
+    }
+};
+
+/** Cantidad de productos por debajo del mínimo en cada depósito. */
+export const fetchAlertasNivelesDeposito = async (): Promise<Record<string, number>> => {
+    console.log(`[${SERVICE_NAME}] Fetching deposit stock level alerts.`);
+    const [{ data: niveles, error }, { data: lotes, error: lotesError }] = await Promise.all([
+        supabase.from('deposito_stock_niveles').select('deposito_id, producto_id, stock_minimo').gt('stock_minimo', 0),
+        supabase.from('lotes').select('deposito_id, producto_id, cantidad_actual'),
+    ]);
+    // Sin el script instalado no hay niveles que alertar
+    if (error || lotesError) return {};
+
+    const stock = new Map<string, number>();
+    for (const l of lotes || []) {
+        const clave = `${l.deposito_id}|${l.producto_id}`;
+        stock.set(clave, (stock.get(clave) || 0) + Number(l.cantidad_actual));
+    }
+    return (niveles || []).reduce((acc: Record<string, number>, n: any) => {
+        if ((stock.get(`${n.deposito_id}|${n.producto_id}`) || 0) < n.stock_minimo) {
+            acc[n.deposito_id] = (acc[n.deposito_id] || 0) + 1;
+        }
+        return acc;
+    }, {});
+};
+
+/**
+ * Depósitos desde los que se despachan los pedidos web de la tienda.
+ * `undefined` si el script no está instalado: la tienda sigue usando todos los depósitos.
+ */
+export const fetchDepositosDespachoOnline = async (tienda: string | null): Promise<string[] | undefined> => {
+    const { data, error } = await (supabase.rpc as any)('depositos_despacho_online', { p_tienda: tienda });
+    if (error) {
+        console.warn(`[${SERVICE_NAME}] Could not resolve fulfillment deposits, using all deposits:`, error.message);
+        return undefined;
+    }
+    return (data || []) as string[];
+};
+
+/** Stock vendible online por producto. `undefined` si el script no está instalado. */
+export const fetchStockDisponibleOnline = async (tienda: string | null): Promise<Map<string, number> | undefined> => {
+    const { data, error } = await (supabase.rpc as any)('stock_disponible_online', { p_tienda: tienda });
+    if (error) {
+        console.warn(`[${SERVICE_NAME}] Could not load online stock:`, error.message);
+        return undefined;
+    }
+    return new Map((data || []).map((r: any) => [r.producto_id, Number(r.stock)]));
+};
+
+export const TRANSFERIR_STOCK_SQL = `CREATE OR REPLACE FUNCTION transferir_stock(
     p_lote_id uuid,
     p_deposito_destino_id uuid,
     p_cantidad integer,
@@ -126,10 +324,16 @@ BEGIN
         RAISE EXCEPTION 'El depósito de destino no puede ser el mismo que el de origen.';
     END IF;
 
+    -- Kardex: tipo, referencia y notas de la transferencia
+    PERFORM set_config('app.movimiento_tipo', 'Transferencia', true);
+    PERFORM set_config('app.movimiento_referencia', 'Hacia ' || (SELECT nombre FROM depositos WHERE id = p_deposito_destino_id), true);
+    PERFORM set_config('app.movimiento_motivo', COALESCE(p_notas, ''), true);
+
     -- Update the source lot
     UPDATE lotes SET cantidad_actual = cantidad_actual - p_cantidad WHERE id = p_lote_id;
 
     -- Create or update the lot in the destination warehouse
+    PERFORM set_config('app.movimiento_referencia', 'Desde ' || (SELECT nombre FROM depositos WHERE id = v_lote.deposito_id), true);
     INSERT INTO lotes (producto_id, numero_lote, cantidad_inicial, cantidad_actual, fecha_vencimiento, costo_laboratorio, deposito_id)
     VALUES (v_lote.producto_id, v_lote.numero_lote, p_cantidad, p_cantidad, v_lote.fecha_vencimiento, v_lote.costo_laboratorio, p_deposito_destino_id)
     ON CONFLICT (producto_id, numero_lote, deposito_id) DO UPDATE
@@ -141,7 +345,27 @@ BEGIN
     INSERT INTO transferencias_stock (producto_id, lote_origen_id, deposito_origen_id, deposito_destino_id, cantidad, usuario_id, notas, lote_destino_id)
     VALUES (v_lote.producto_id, p_lote_id, v_lote.deposito_id, p_deposito_destino_id, p_cantidad, auth.uid(), p_notas, v_nuevo_lote_id);
 END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;`
+$$ LANGUAGE plpgsql SECURITY DEFINER;`;
+
+export const transferirStock = async (loteId: string, depositoDestinoId: string, cantidad: number): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Transferring ${cantidad} from lot ${loteId} to deposit ${depositoDestinoId}`);
+    try {
+        const { error } = await (supabase.rpc as any)('transferir_stock', {
+            p_lote_id: loteId,
+            p_deposito_destino_id: depositoDestinoId,
+            p_cantidad: cantidad,
+        });
+
+        if (error) throw error;
+    } catch (error: any) {
+        console.error(`[${SERVICE_NAME}] Error in RPC transferir_stock:`, error);
+        const functionNotFound = error.code === '42883' || error.message?.includes('function transferir_stock does not exist') || error.message?.includes('Could not find the function');
+        if (functionNotFound) {
+             throw {
+                message: "Error de base de datos: La función 'transferir_stock' no existe.",
+                details: "Esta función es vital para mover inventario entre depósitos. Sin ella, no se pueden realizar transferencias.",
+                hint: "Ejecuta el siguiente script SQL en tu editor de Supabase para crear la función necesaria.",
+                sql: TRANSFERIR_STOCK_SQL
             };
         }
         throw new Error(`No se pudo realizar la transferencia: ${error?.message}`);
@@ -0,0 +1,281 @@
+import { supabase } from '../supabase';
+import { DestinoDevolucion, ItemDevolvible, NotaCredito } from '../types';
+import { DASHBOARD_STATS_SQL } from './dashboardService';
+import { CLIENTES_CON_VENTAS_SQL } from './clientesService';
+import { DEPOSITOS_SQL } from './depositosService';
+
+const SERVICE_NAME = 'DevolucionesService';
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('notas_credito') ||
+    error?.message?.includes('nota_credito_items') ||
+    error?.message?.includes('Could not find the function');
+
+const DEVOLUCIONES_SQL = `-- Notas de crédito por devoluciones parciales o totales de una venta
+CREATE TABLE IF NOT EXISTS public.notas_credito (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    numero bigint GENERATED ALWAYS AS IDENTITY,
+    venta_id uuid NOT NULL REFERENCES public.ventas(id) ON DELETE RESTRICT,
+    fecha timestamptz NOT NULL DEFAULT now(),
+    motivo text,
+    total numeric NOT NULL DEFAULT 0,
+    usuario_id uuid DEFAULT auth.uid()
+);
+
+CREATE TABLE IF NOT EXISTS public.nota_credito_items (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    nota_credito_id uuid NOT NULL REFERENCES public.notas_credito(id) ON DELETE CASCADE,
+    venta_item_id uuid NOT NULL REFERENCES public.venta_items(id),
+    producto_id uuid NOT NULL REFERENCES public.productos(id),
+    lote_origen_id uuid REFERENCES public.lotes(id),
+    lote_destino_id uuid REFERENCES public.lotes(id),
+    cantidad integer NOT NULL CHECK (cantidad > 0),
+    precio_unitario numeric NOT NULL,
+    destino text NOT NULL CHECK (destino IN ('lote_original', 'cuarentena', 'baja'))
+);
+CREATE INDEX IF NOT EXISTS idx_nota_credito_items_venta_item ON public.nota_credito_items(venta_item_id);
+
+-- Envío cobrado dentro del total (lo registra crear_venta)
+ALTER TABLE public.ventas ADD COLUMN IF NOT EXISTS costo_envio numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE public.notas_credito ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.nota_credito_items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Notas de crédito visibles para usuarios autenticados" ON public.notas_credito;
+CREATE POLICY "Notas de crédito visibles para usuarios autenticados" ON public.notas_credito FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Items de notas de crédito visibles para usuarios autenticados" ON public.nota_credito_items;
+CREATE POLICY "Items de notas de crédito visibles para usuarios autenticados" ON public.nota_credito_items FOR SELECT TO authenticated USING (true);
+
+-- Rol de los depósitos y estado de calidad de los lotes
+${DEPOSITOS_SQL}
+
+-- p_items: [{ venta_item_id, cantidad, destino: 'lote_original' | 'cuarentena' | 'baja' }]
+-- Lo que va a cuarentena queda retenido hasta que control de calidad lo libere.
+-- Sin depósito indicado se usa el de rol Cuarentena.
+CREATE OR REPLACE FUNCTION public.registrar_devolucion(p_venta_id uuid, p_items jsonb, p_motivo text, p_deposito_cuarentena_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_estado text;
+    v_nc_id uuid;
+    v_nc_numero bigint;
+    v_item jsonb;
+    v_vi record;
+    v_lote record;
+    v_cantidad integer;
+    v_destino text;
+    v_devuelto integer;
+    v_lote_destino uuid;
+    v_deposito_cuarentena uuid := p_deposito_cuarentena_id;
+    v_lineas integer := 0;
+    v_total numeric := 0;
+    v_total_venta numeric;
+    v_factor numeric;
+    v_precio numeric;
+BEGIN
+    -- Lo cobrado por los productos: el envío no se devuelve
+    SELECT estado, total - costo_envio INTO v_estado, v_total_venta FROM ventas WHERE id = p_venta_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'La venta no existe.';
+    END IF;
+    IF v_estado NOT IN ('Pagada', 'Enviada') THEN
+        RAISE EXCEPTION 'Solo se registran devoluciones de ventas Pagadas o Enviadas (estado actual: %).', v_estado;
+    END IF;
+
+    -- El crédito se prorratea sobre lo cobrado por los productos: precio_unitario no incluye el IVA
+    -- sumado aparte ni los descuentos de la venta, que sí están en ventas.total.
+    SELECT CASE WHEN SUM(cantidad * precio_unitario) > 0 THEN COALESCE(v_total_venta, 0) / SUM(cantidad * precio_unitario) ELSE 1 END
+    INTO v_factor FROM venta_items WHERE venta_id = p_venta_id;
+
+    INSERT INTO notas_credito (venta_id, motivo) VALUES (p_venta_id, p_motivo) RETURNING id, numero INTO v_nc_id, v_nc_numero;
+
+    -- Tipo y referencia para el kardex
+    PERFORM set_config('app.movimiento_tipo', 'Devolución', true);
+    PERFORM set_config('app.movimiento_referencia', 'NC #' || v_nc_numero, true);
+    PERFORM set_config('app.movimiento_referencia_id', v_nc_id::text, true);
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) LOOP
+        v_cantidad := (v_item->>'cantidad')::integer;
+        v_destino := v_item->>'destino';
+        CONTINUE WHEN COALESCE(v_cantidad, 0) <= 0;
+
+        SELECT * INTO v_vi FROM venta_items WHERE id = (v_item->>'venta_item_id')::uuid AND venta_id = p_venta_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'El ítem % no pertenece a la venta.', v_item->>'venta_item_id';
+        END IF;
+
+        SELECT COALESCE(SUM(cantidad), 0) INTO v_devuelto FROM nota_credito_items WHERE venta_item_id = v_vi.id;
+        IF v_devuelto + v_cantidad > v_vi.cantidad THEN
+            RAISE EXCEPTION 'Se intentan devolver % unidades pero quedan % por devolver de ese ítem.', v_cantidad, v_vi.cantidad - v_devuelto;
+        END IF;
+
+        v_lote_destino := NULL;
+        IF v_destino = 'lote_original' THEN
+            IF v_vi.lote_id IS NULL THEN
+                RAISE EXCEPTION 'El ítem no tiene lote registrado: elige cuarentena o baja.';
+            END IF;
+            UPDATE lotes SET cantidad_actual = cantidad_actual + v_cantidad WHERE id = v_vi.lote_id;
+            v_lote_destino := v_vi.lote_id;
+        ELSIF v_destino = 'cuarentena' THEN
+            IF v_deposito_cuarentena IS NULL THEN
+                SELECT id INTO v_deposito_cuarentena FROM depositos WHERE rol = 'Cuarentena' ORDER BY nombre LIMIT 1;
+                IF v_deposito_cuarentena IS NULL THEN
+                    RAISE EXCEPTION 'No hay ningún depósito con rol Cuarentena. Créalo en Gestión de Depósitos o indica uno.';
+                END IF;
+            END IF;
+            SELECT * INTO v_lote FROM lotes WHERE id = v_vi.lote_id;
+            INSERT INTO lotes (producto_id, numero_lote, cantidad_inicial, cantidad_actual, fecha_vencimiento, costo_laboratorio, deposito_id, estado_calidad)
+            VALUES (v_vi.producto_id, COALESCE(v_lote.numero_lote, 'DEV-' || to_char(now(), 'YYYYMMDD')), v_cantidad, v_cantidad, v_lote.fecha_vencimiento, COALESCE(v_lote.costo_laboratorio, 0), v_deposito_cuarentena, 'Cuarentena')
+            ON CONFLICT (producto_id, numero_lote, deposito_id) DO UPDATE SET
+                cantidad_inicial = lotes.cantidad_inicial + EXCLUDED.cantidad_inicial,
+                cantidad_actual = lotes.cantidad_actual + EXCLUDED.cantidad_actual,
+                -- Un lote ya rechazado sigue rechazado; uno liberado vuelve a revisión
+                estado_calidad = CASE WHEN lotes.estado_calidad = 'Rechazado' THEN 'Rechazado' ELSE 'Cuarentena' END
+            RETURNING id INTO v_lote_destino;
+        ELSIF v_destino IS DISTINCT FROM 'baja' THEN
+            RAISE EXCEPTION 'Destino de devolución inválido: %', v_destino;
+        END IF;
+
+        v_precio := round(v_vi.precio_unitario * v_factor, 2);
+        INSERT INTO nota_credito_items (nota_credito_id, venta_item_id, producto_id, lote_origen_id, lote_destino_id, cantidad, precio_unitario, destino)
+        VALUES (v_nc_id, v_vi.id, v_vi.producto_id, v_vi.lote_id, v_lote_destino, v_cantidad, v_precio, v_destino);
+
+        v_lineas := v_lineas + 1;
+        v_total := v_total + v_cantidad * v_precio;
+    END LOOP;
+
+    IF v_lineas = 0 THEN
+        RAISE EXCEPTION 'Indica al menos un producto y cantidad a devolver.';
+    END IF;
+
+    -- Si con esta nota queda todo devuelto, el crédito cierra exacto contra el total cobrado (sin restos de redondeo)
+    IF NOT EXISTS (
+        SELECT 1 FROM venta_items vi
+        WHERE vi.venta_id = p_venta_id
+          AND vi.cantidad > (SELECT COALESCE(SUM(nci.cantidad), 0) FROM nota_credito_items nci WHERE nci.venta_item_id = vi.id)
+    ) THEN
+        SELECT COALESCE(v_total_venta, 0) - COALESCE(SUM(total), 0) INTO v_total
+        FROM notas_credito WHERE venta_id = p_venta_id AND id <> v_nc_id;
+    END IF;
+
+    UPDATE notas_credito SET total = v_total WHERE id = v_nc_id;
+    RETURN v_nc_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.registrar_devolucion(uuid, jsonb, text, uuid) TO authenticated;
+
+-- Ingresos del dashboard y total comprado por cliente netos de notas de crédito
+${DASHBOARD_STATS_SQL}
+
+${CLIENTES_CON_VENTAS_SQL}`;
+
+const devolucionesSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Faltan las tablas o la función de devoluciones.",
+    details: "Las devoluciones generan una nota de crédito vinculada a la venta y ajustan el stock según el destino elegido.",
+    hint: "Ejecuta el script SQL de abajo. También actualiza el Dashboard y el total comprado de Clientes para descontar las notas de crédito.",
+    sql: DEVOLUCIONES_SQL,
+});
+
+export interface LineaDevolucion {
+    ventaItemId: string;
+    cantidad: number;
+    destino: DestinoDevolucion;
+}
+
+/** Ítems de la venta con la cantidad ya devuelta en notas de crédito anteriores. */
+export const fetchItemsDevolvibles = async (ventaId: string): Promise<ItemDevolvible[]> => {
+    const { data: items, error } = await supabase
+        .from('venta_items')
+        .select('id, producto_id, cantidad, precio_unitario, lote_id, productos(nombre), lotes(numero_lote)')
+        .eq('venta_id', ventaId);
+    if (error) throw error;
+
+    const ids = (items || []).map((i: any) => i.id);
+    const { data: devueltos, error: devError } = ids.length === 0
+        ? { data: [], error: null }
+        : await supabase.from('nota_credito_items').select('venta_item_id, cantidad').in('venta_item_id', ids);
+    if (devError) {
+        console.error(`[${SERVICE_NAME}] Error fetching returned quantities:`, devError);
+        throw isMissingObject(devError) ? devolucionesSqlError(devError) : devError;
+    }
+
+    const devueltoPorItem = (devueltos || []).reduce((acc: Record<string, number>, d: any) => {
+        acc[d.venta_item_id] = (acc[d.venta_item_id] || 0) + d.cantidad;
+        return acc;
+    }, {});
+
+    return (items || []).map((i: any) => ({
+        ventaItemId: i.id,
+        productoId: i.producto_id,
+        productoNombre: i.productos?.nombre || 'N/A',
+        loteId: i.lote_id,
+        numeroLote: i.lotes?.numero_lote || null,
+        cantidadVendida: i.cantidad,
+        cantidadDevuelta: devueltoPorItem[i.id] || 0,
+        precioUnitario: i.precio_unitario,
+    }));
+};
+
+/**
+ * Notas de crédito de una venta.
+ * Si las tablas todavía no existen se asume que no hay devoluciones.
+ */
+export const fetchNotasCredito = async (ventaId: string): Promise<NotaCredito[]> => {
+    const { data, error } = await supabase
+        .from('notas_credito')
+        .select('*, nota_credito_items(cantidad, precio_unitario, destino, productos(nombre), lotes!nota_credito_items_lote_origen_id_fkey(numero_lote))')
+        .eq('venta_id', ventaId)
+        .order('fecha', { ascending: true });
+
+    if (error) {
+        console.warn(`[${SERVICE_NAME}] Could not fetch credit notes:`, error.message);
+        return [];
+    }
+
+    return (data || []).map((nc: any) => ({
+        id: nc.id,
+        numero: nc.numero,
+        ventaId: nc.venta_id,
+        fecha: new Date(nc.fecha).toLocaleString('es-AR'),
+        motivo: nc.motivo,
+        total: Number(nc.total),
+        items: (nc.nota_credito_items || []).map((i: any) => ({
+            productoNombre: i.productos?.nombre || 'N/A',
+            numeroLote: i.lotes?.numero_lote || null,
+            cantidad: i.cantidad,
+            precioUnitario: i.precio_unitario,
+            destino: i.destino,
+        })),
+    }));
+};
+
+export const registrarDevolucion = async (
+    ventaId: string,
+    lineas: LineaDevolucion[],
+    motivo: string,
+    depositoCuarentenaId: string | null
+): Promise<string> => {
+    console.log(`[${SERVICE_NAME}] Registering return for sale ${ventaId}.`);
+    const { data, error } = await (supabase.rpc as any)('registrar_devolucion', {
+        p_venta_id: ventaId,
+        p_items: lineas
+            .filter(l => l.cantidad > 0)
+            .map(l => ({ venta_item_id: l.ventaItemId, cantidad: l.cantidad, destino: l.destino })),
+        p_motivo: motivo,
+        p_deposito_cuarentena_id: depositoCuarentenaId,
+    });
+
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error registering return:`, error);
+        if (isMissingObject(error)) throw devolucionesSqlError(error);
+        if (error.code === 'P0001') {
+            throw { ...error, message: `No se pudo registrar la devolución: ${error.message}` };
+        }
+        throw error;
+    }
+    return data as string;
+};
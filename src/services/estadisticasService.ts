@@ -15,7 +15,7 @@ export const fetchProductStatistics = async (): Promise<ProductoEstadistica[]> =
             { data: insumos, error: insumosError },
             { data: productosInsumos, error: productosInsumosError },
         ] = await Promise.all([
-            supabase.from('productos').select('id, nombre, precio_publico, precio_comercio, precio_mayorista'),
+            supabase.from('productos').select('id, nombre, linea, precio_publico, precio_comercio, precio_mayorista'),
             supabase.from('venta_items').select('producto_id, cantidad, ventas!inner(fecha)'),
             supabase.from('lotes').select('producto_id, cantidad_actual, costo_laboratorio, created_at'),
             supabase.from('insumos').select('id, costo'),
@@ -83,6 +83,7 @@ export const fetchProductStatistics = async (): Promise<ProductoEstadistica[]> =
             return {
                 id: p.id,
                 nombre: p.nombre,
+                linea: p.linea ?? null,
                 ventasMesActual,
                 ventasAñoActual,
                 costoTotalUnitario: totalUnitCost,
@@ -0,0 +1,374 @@
+import jsPDF from 'jspdf';
+import { BrowserQRCodeSvgWriter } from '@zxing/browser';
+import { supabase } from '../supabase';
+import { Etiqueta, PlantillaEtiqueta, SimbologiaEtiqueta } from '../types';
+
+const SERVICE_NAME = 'EtiquetasService';
+
+export const SIMBOLOGIAS: SimbologiaEtiqueta[] = ['EAN-13', 'Code128', 'QR'];
+
+export const PLANTILLAS_PREDEFINIDAS: PlantillaEtiqueta[] = [
+    {
+        id: 'a4-3x8', nombre: 'A4 · 24 etiquetas de 70 x 37 mm', predefinida: true,
+        anchoPagina: 210, altoPagina: 297, columnas: 3, filas: 8, anchoEtiqueta: 70, altoEtiqueta: 37,
+        margenSuperior: 0.5, margenIzquierdo: 0, espacioHorizontal: 0, espacioVertical: 0,
+    },
+    {
+        id: 'a4-4x10', nombre: 'A4 · 40 etiquetas de 48,5 x 25,4 mm', predefinida: true,
+        anchoPagina: 210, altoPagina: 297, columnas: 4, filas: 10, anchoEtiqueta: 48.5, altoEtiqueta: 25.4,
+        margenSuperior: 21.5, margenIzquierdo: 8, espacioHorizontal: 0, espacioVertical: 0,
+    },
+    {
+        id: 'a4-5x13', nombre: 'A4 · 65 etiquetas de 38,1 x 21,2 mm', predefinida: true,
+        anchoPagina: 210, altoPagina: 297, columnas: 5, filas: 13, anchoEtiqueta: 38.1, altoEtiqueta: 21.2,
+        margenSuperior: 10.7, margenIzquierdo: 4.75, espacioHorizontal: 2.5, espacioVertical: 0,
+    },
+    {
+        id: 'termica-50x25', nombre: 'Térmica 50 x 25 mm', predefinida: true,
+        anchoPagina: 50, altoPagina: 25, columnas: 1, filas: 1, anchoEtiqueta: 50, altoEtiqueta: 25,
+        margenSuperior: 0, margenIzquierdo: 0, espacioHorizontal: 0, espacioVertical: 0,
+    },
+];
+
+const PLANTILLAS_ETIQUETAS_SQL = `-- Plantillas de hojas de etiquetas propias (las de A4 y térmica 50x25 vienen predefinidas)
+CREATE TABLE IF NOT EXISTS public.plantillas_etiquetas (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    nombre text NOT NULL UNIQUE,
+    ancho_pagina numeric NOT NULL CHECK (ancho_pagina > 0),
+    alto_pagina numeric NOT NULL CHECK (alto_pagina > 0),
+    columnas integer NOT NULL CHECK (columnas > 0),
+    filas integer NOT NULL CHECK (filas > 0),
+    ancho_etiqueta numeric NOT NULL CHECK (ancho_etiqueta > 0),
+    alto_etiqueta numeric NOT NULL CHECK (alto_etiqueta > 0),
+    margen_superior numeric NOT NULL DEFAULT 0,
+    margen_izquierdo numeric NOT NULL DEFAULT 0,
+    espacio_horizontal numeric NOT NULL DEFAULT 0,
+    espacio_vertical numeric NOT NULL DEFAULT 0,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+ALTER TABLE public.plantillas_etiquetas ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Plantillas de etiquetas para usuarios autenticados" ON public.plantillas_etiquetas;
+CREATE POLICY "Plantillas de etiquetas para usuarios autenticados" ON public.plantillas_etiquetas FOR ALL TO authenticated USING (true) WITH CHECK (true);`;
+
+const isMissingObject = (error: any) =>
+    ['42P01', 'PGRST205'].includes(error?.code) || error?.message?.includes('plantillas_etiquetas');
+
+const plantillasSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Falta la tabla de plantillas de etiquetas.",
+    details: "Las plantillas predefinidas funcionan sin ella; hace falta solo para guardar hojas de etiquetas propias.",
+    hint: "Ejecuta el script SQL de abajo.",
+    sql: PLANTILLAS_ETIQUETAS_SQL,
+});
+
+const mapPlantilla = (p: any): PlantillaEtiqueta => ({
+    id: p.id,
+    nombre: p.nombre,
+    anchoPagina: Number(p.ancho_pagina),
+    altoPagina: Number(p.alto_pagina),
+    columnas: p.columnas,
+    filas: p.filas,
+    anchoEtiqueta: Number(p.ancho_etiqueta),
+    altoEtiqueta: Number(p.alto_etiqueta),
+    margenSuperior: Number(p.margen_superior),
+    margenIzquierdo: Number(p.margen_izquierdo),
+    espacioHorizontal: Number(p.espacio_horizontal),
+    espacioVertical: Number(p.espacio_vertical),
+    predefinida: false,
+});
+
+/** Predefinidas más las guardadas. Sin la tabla creada devuelve solo las predefinidas. */
+export const fetchPlantillasEtiquetas = async (): Promise<PlantillaEtiqueta[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching label templates.`);
+    const { data, error } = await supabase
+        .from('plantillas_etiquetas')
+        .select('*')
+        .order('nombre', { ascending: true });
+    if (error) {
+        if (isMissingObject(error)) {
+            console.warn(`[${SERVICE_NAME}] Custom label templates not installed, using the built-in ones.`);
+            return PLANTILLAS_PREDEFINIDAS;
+        }
+        console.error(`[${SERVICE_NAME}] Error fetching label templates:`, error);
+        throw error;
+    }
+    return [...PLANTILLAS_PREDEFINIDAS, ...(data || []).map(mapPlantilla)];
+};
+
+/** Lanza un Error si las etiquetas no entran en la página. */
+export const validarPlantilla = (p: Omit<PlantillaEtiqueta, 'id' | 'predefinida'>) => {
+    const anchoOcupado = p.margenIzquierdo + p.columnas * p.anchoEtiqueta + (p.columnas - 1) * p.espacioHorizontal;
+    const altoOcupado = p.margenSuperior + p.filas * p.altoEtiqueta + (p.filas - 1) * p.espacioVertical;
+    if (anchoOcupado > p.anchoPagina + 0.01) {
+        throw new Error(`Las columnas ocupan ${anchoOcupado.toFixed(1)} mm y la página mide ${p.anchoPagina} mm de ancho.`);
+    }
+    if (altoOcupado > p.altoPagina + 0.01) {
+        throw new Error(`Las filas ocupan ${altoOcupado.toFixed(1)} mm y la página mide ${p.altoPagina} mm de alto.`);
+    }
+};
+
+export const guardarPlantillaEtiqueta = async (plantilla: Omit<PlantillaEtiqueta, 'id' | 'predefinida'>): Promise<PlantillaEtiqueta> => {
+    console.log(`[${SERVICE_NAME}] Saving label template "${plantilla.nombre}".`);
+    validarPlantilla(plantilla);
+    const { data, error } = await (supabase.from('plantillas_etiquetas') as any)
+        .insert({
+            nombre: plantilla.nombre.trim(),
+            ancho_pagina: plantilla.anchoPagina,
+            alto_pagina: plantilla.altoPagina,
+            columnas: plantilla.columnas,
+            filas: plantilla.filas,
+            ancho_etiqueta: plantilla.anchoEtiqueta,
+            alto_etiqueta: plantilla.altoEtiqueta,
+            margen_superior: plantilla.margenSuperior,
+            margen_izquierdo: plantilla.margenIzquierdo,
+            espacio_horizontal: plantilla.espacioHorizontal,
+            espacio_vertical: plantilla.espacioVertical,
+        })
+        .select()
+        .single();
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error saving label template:`, error);
+        if (isMissingObject(error)) throw plantillasSqlError(error);
+        if (error.code === '23505') throw new Error(`Ya existe una plantilla llamada "${plantilla.nombre}".`);
+        throw error;
+    }
+    return mapPlantilla(data);
+};
+
+export const eliminarPlantillaEtiqueta = async (id: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Deleting label template ${id}.`);
+    const { error } = await supabase.from('plantillas_etiquetas').delete().eq('id', id);
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error deleting label template:`, error);
+        if (isMissingObject(error)) throw plantillasSqlError(error);
+        throw error;
+    }
+};
+
+// --- Codificadores ---
+// Devuelven los módulos del código de barras: '1' barra, '0' espacio.
+
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_R = EAN_L.map(p => p.split('').map(b => (b === '1' ? '0' : '1')).join(''));
+const EAN_G = EAN_R.map(p => p.split('').reverse().join(''));
+// El primer dígito no se dibuja: define qué dígitos de la mitad izquierda usan el juego G
+const EAN_PARIDAD = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+export const digitoVerificadorEAN13 = (doceDigitos: string): number => {
+    const suma = doceDigitos.split('').reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 1 : 3), 0);
+    return (10 - (suma % 10)) % 10;
+};
+
+/** Acepta 12 dígitos (calcula el verificador) o 13 (lo valida). Devuelve el código completo. */
+export const normalizarEAN13 = (codigo: string): string => {
+    const limpio = codigo.trim();
+    if (!/^\d{12,13}$/.test(limpio)) {
+        throw new Error(`"${codigo}" no es un EAN-13: debe tener 12 o 13 dígitos.`);
+    }
+    const verificador = digitoVerificadorEAN13(limpio.slice(0, 12));
+    if (limpio.length === 13 && Number(limpio[12]) !== verificador) {
+        throw new Error(`"${codigo}" no es un EAN-13 válido: el dígito verificador debería ser ${verificador}.`);
+    }
+    return limpio.slice(0, 12) + verificador;
+};
+
+export const codificarEAN13 = (codigo: string): string => {
+    const ean = normalizarEAN13(codigo);
+    const paridad = EAN_PARIDAD[Number(ean[0])];
+    const izquierda = ean.slice(1, 7).split('').map((d, i) => (paridad[i] === 'L' ? EAN_L : EAN_G)[Number(d)]).join('');
+    const derecha = ean.slice(7).split('').map(d => EAN_R[Number(d)]).join('');
+    return `101${izquierda}01010${derecha}101`;
+};
+
+// Anchos de barra/espacio de los 107 símbolos Code 128 (0-102 datos, 103-105 inicio A/B/C, 106 fin)
+const CODE128_ANCHOS = [
+    '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+    '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+    '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+    '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+    '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+    '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+    '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+    '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+    '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+    '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+    '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+const CODE128_INICIO_B = 104;
+const CODE128_INICIO_C = 105;
+const CODE128_CAMBIO_A_B = 100;
+const CODE128_FIN = 106;
+
+/**
+ * Code 128 con el juego B (ASCII imprimible). Si el texto es solo dígitos usa el juego C,
+ * que empaqueta dos dígitos por símbolo y da un código más corto.
+ */
+export const codificarCode128 = (texto: string): string => {
+    if (!texto) throw new Error('El código está vacío.');
+    const invalido = texto.split('').find(c => c.charCodeAt(0) < 32 || c.charCodeAt(0) > 126);
+    if (invalido) {
+        throw new Error(`"${texto}" tiene caracteres que Code128 no admite ("${invalido}"). Usa QR para textos con acentos o ñ.`);
+    }
+
+    const valores: number[] = [];
+    if (/^\d{4,}$/.test(texto)) {
+        valores.push(CODE128_INICIO_C);
+        const pares = texto.length - (texto.length % 2);
+        for (let i = 0; i < pares; i += 2) valores.push(Number(texto.slice(i, i + 2)));
+        if (pares < texto.length) {
+            valores.push(CODE128_CAMBIO_A_B, texto.charCodeAt(pares) - 32);
+        }
+    } else {
+        valores.push(CODE128_INICIO_B, ...texto.split('').map(c => c.charCodeAt(0) - 32));
+    }
+    const verificador = valores.reduce((acc, v, i) => acc + v * Math.max(i, 1), 0) % 103;
+    valores.push(verificador, CODE128_FIN);
+
+    return valores
+        .map(v => CODE128_ANCHOS[v].split('').map((ancho, i) => (i % 2 === 0 ? '1' : '0').repeat(Number(ancho))).join(''))
+        .join('');
+};
+
+/** Mensaje de error si el código no se puede representar con la simbología elegida. */
+export const validarCodigoEtiqueta = (codigo: string, simbologia: SimbologiaEtiqueta): string | null => {
+    if (!codigo.trim()) return 'El código está vacío.';
+    try {
+        if (simbologia === 'EAN-13') normalizarEAN13(codigo);
+        if (simbologia === 'Code128') codificarCode128(codigo);
+        return null;
+    } catch (err: any) {
+        return err.message;
+    }
+};
+
+// --- PDF ---
+
+const PT_A_MM = 0.3528;
+
+const dibujarModulos = (pdf: jsPDF, modulos: string, x: number, y: number, modulo: number, alto: number) => {
+    let inicio = -1;
+    for (let i = 0; i <= modulos.length; i++) {
+        if (modulos[i] === '1' && inicio < 0) inicio = i;
+        if (modulos[i] !== '1' && inicio >= 0) {
+            pdf.rect(x + inicio * modulo, y, (i - inicio) * modulo, alto, 'F');
+            inicio = -1;
+        }
+    }
+};
+
+const dibujarQR = (pdf: jsPDF, contenido: string, x: number, y: number, size: number) => {
+    const svg = new BrowserQRCodeSvgWriter().write(contenido, 200, 200);
+    const escala = size / Number(svg.getAttribute('width'));
+    svg.querySelectorAll('rect').forEach(rect => {
+        pdf.rect(
+            x + Number(rect.getAttribute('x')) * escala,
+            y + Number(rect.getAttribute('y')) * escala,
+            Number(rect.getAttribute('width')) * escala,
+            Number(rect.getAttribute('height')) * escala,
+            'F'
+        );
+    });
+};
+
+// Escribe hasta `maxLineas` renglones centrados (o alineados a la izquierda) y devuelve la y siguiente
+const escribirTexto = (pdf: jsPDF, texto: string, x: number, y: number, ancho: number, puntos: number, maxLineas: number, centrado: boolean): number => {
+    pdf.setFontSize(puntos);
+    const alto = puntos * PT_A_MM * 1.15;
+    const lineas = (pdf.splitTextToSize(texto, ancho) as string[]).slice(0, maxLineas);
+    lineas.forEach((linea, i) => {
+        const yLinea = y + alto * (i + 1) - alto * 0.25;
+        if (centrado) pdf.text(linea, x + ancho / 2, yLinea, { align: 'center' });
+        else pdf.text(linea, x, yLinea);
+    });
+    return y + alto * lineas.length;
+};
+
+const dibujarEtiqueta = (pdf: jsPDF, etiqueta: Etiqueta, x: number, y: number, ancho: number, alto: number) => {
+    const pad = Math.min(2, alto * 0.08);
+    const tamTitulo = Math.max(6, Math.min(11, alto / 3.6));
+    const tamLinea = tamTitulo * 0.8;
+
+    if (etiqueta.simbologia === 'QR') {
+        // QR a la izquierda, textos a la derecha
+        const lado = Math.min(alto - 2 * pad, ancho * 0.45);
+        dibujarQR(pdf, etiqueta.codigo, x + pad, y + (alto - lado) / 2, lado);
+        const xTexto = x + 2 * pad + lado;
+        const anchoTexto = ancho - lado - 3 * pad;
+        pdf.setFont('helvetica', 'bold');
+        let yTexto = escribirTexto(pdf, etiqueta.titulo, xTexto, y + pad, anchoTexto, tamTitulo, 3, false);
+        pdf.setFont('helvetica', 'normal');
+        etiqueta.lineas.forEach(linea => {
+            yTexto = escribirTexto(pdf, linea, xTexto, yTexto, anchoTexto, tamLinea, 2, false);
+        });
+        return;
+    }
+
+    const anchoUtil = ancho - 2 * pad;
+    pdf.setFont('helvetica', 'bold');
+    let yTexto = escribirTexto(pdf, etiqueta.titulo, x + pad, y + pad, anchoUtil, tamTitulo, 2, true);
+    pdf.setFont('helvetica', 'normal');
+    etiqueta.lineas.forEach(linea => {
+        yTexto = escribirTexto(pdf, linea, x + pad, yTexto, anchoUtil, tamLinea, 1, true);
+    });
+
+    // Zona de silencio: 11 módulos a la izquierda del EAN-13 y 10 a cada lado del Code128
+    const modulos = etiqueta.simbologia === 'EAN-13' ? codificarEAN13(etiqueta.codigo) : codificarCode128(etiqueta.codigo);
+    const silencio = etiqueta.simbologia === 'EAN-13' ? 18 : 20;
+    const modulo = Math.min(0.5, anchoUtil / (modulos.length + silencio));
+    const tamLegible = Math.max(5, Math.min(8, tamLinea));
+    const altoLegible = tamLegible * PT_A_MM * 1.2;
+    const altoBarras = y + alto - pad - altoLegible - yTexto - 0.5;
+    const xBarras = x + (ancho - modulos.length * modulo) / 2;
+    if (altoBarras > 3) {
+        dibujarModulos(pdf, modulos, xBarras, yTexto + 0.5, modulo, altoBarras);
+    }
+    pdf.setFontSize(tamLegible);
+    const legible = etiqueta.simbologia === 'EAN-13' ? normalizarEAN13(etiqueta.codigo) : etiqueta.codigo;
+    pdf.text(legible, x + ancho / 2, y + alto - pad - altoLegible * 0.2, { align: 'center' });
+};
+
+/**
+ * Arma el PDF de etiquetas con la plantilla. `posicionInicial` (desde 1) saltea etiquetas
+ * ya usadas de la primera hoja.
+ */
+export const generarEtiquetasPdf = (etiquetas: Etiqueta[], plantilla: PlantillaEtiqueta, posicionInicial = 1): jsPDF => {
+    const errores = etiquetas
+        .map(e => ({ etiqueta: e, error: validarCodigoEtiqueta(e.codigo, e.simbologia) }))
+        .filter(e => e.error);
+    if (errores.length > 0) {
+        const detalle = errores.slice(0, 5).map(e => `${e.etiqueta.titulo}: ${e.error}`).join(' ');
+        throw new Error(`Hay ${errores.length} etiqueta(s) con códigos inválidos para ${errores[0].etiqueta.simbologia}. ${detalle}`);
+    }
+
+    const pdf = new jsPDF({
+        unit: 'mm',
+        format: [plantilla.anchoPagina, plantilla.altoPagina],
+        orientation: plantilla.anchoPagina > plantilla.altoPagina ? 'landscape' : 'portrait',
+    });
+    pdf.setFillColor(0, 0, 0);
+    pdf.setTextColor(0, 0, 0);
+
+    const porPagina = plantilla.columnas * plantilla.filas;
+    const salto = Math.min(Math.max(posicionInicial, 1), porPagina) - 1;
+    etiquetas.forEach((etiqueta, index) => {
+        const posicion = index + salto;
+        if (posicion > 0 && posicion % porPagina === 0) pdf.addPage();
+        const enPagina = posicion % porPagina;
+        const columna = enPagina % plantilla.columnas;
+        const fila = Math.floor(enPagina / plantilla.columnas);
+        dibujarEtiqueta(
+            pdf,
+            etiqueta,
+            plantilla.margenIzquierdo + columna * (plantilla.anchoEtiqueta + plantilla.espacioHorizontal),
+            plantilla.margenSuperior + fila * (plantilla.altoEtiqueta + plantilla.espacioVertical),
+            plantilla.anchoEtiqueta,
+            plantilla.altoEtiqueta
+        );
+    });
+    return pdf;
+};
+
+export const descargarEtiquetasPdf = (etiquetas: Etiqueta[], plantilla: PlantillaEtiqueta, posicionInicial: number, nombreArchivo: string) => {
+    console.log(`[${SERVICE_NAME}] Generating ${etiquetas.length} labels with template "${plantilla.nombre}".`);
+    generarEtiquetasPdf(etiquetas, plantilla, posicionInicial).save(`${nombreArchivo}.pdf`);
+};
@@ -0,0 +1,457 @@
+import jsPDF from 'jspdf';
+import { BrowserQRCodeSvgWriter } from '@zxing/browser';
+import { supabase } from '../supabase';
+import { Venta, Factura, TipoFactura } from '../types';
+import { fetchConfigFacturacion } from './ajustesService';
+
+const SERVICE_NAME = 'FacturacionService';
+
+const FACTURAS_SQL = `-- Comprobantes electrónicos emitidos (uno por venta)
+CREATE TABLE IF NOT EXISTS public.facturas (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    venta_id uuid NOT NULL UNIQUE REFERENCES public.ventas(id) ON DELETE RESTRICT,
+    tipo text NOT NULL CHECK (tipo IN ('A', 'B', 'C')),
+    punto_venta integer NOT NULL,
+    numero bigint NOT NULL,
+    cae text NOT NULL,
+    cae_vencimiento date NOT NULL,
+    fecha date NOT NULL DEFAULT current_date,
+    receptor_nombre text NOT NULL,
+    receptor_doc_tipo integer NOT NULL,
+    receptor_doc_nro text NOT NULL,
+    receptor_condicion_iva text NOT NULL,
+    importe_neto numeric NOT NULL,
+    importe_iva numeric NOT NULL,
+    importe_total numeric NOT NULL,
+    modo text NOT NULL DEFAULT 'mock',
+    created_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (tipo, punto_venta, numero)
+);
+
+ALTER TABLE public.facturas ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Facturas visibles para usuarios autenticados" ON public.facturas;
+CREATE POLICY "Facturas visibles para usuarios autenticados" ON public.facturas FOR SELECT TO authenticated USING (true);
+-- Sin escrituras desde el cliente: las facturas se emiten solo desde reservar_factura / emitir_factura_mock y la Edge Function
+DROP POLICY IF EXISTS "Facturas emitidas por usuarios autenticados" ON public.facturas;
+
+-- Solo se facturan ventas cobradas
+CREATE OR REPLACE FUNCTION public.validar_factura_venta()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_estado text;
+BEGIN
+    SELECT estado INTO v_estado FROM ventas WHERE id = NEW.venta_id;
+    IF v_estado NOT IN ('Pagada', 'Enviada') THEN
+        RAISE EXCEPTION 'Solo se pueden facturar ventas Pagadas o Enviadas (estado actual: %)', v_estado;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_validar_factura_venta ON public.facturas;
+CREATE TRIGGER trg_validar_factura_venta BEFORE INSERT ON public.facturas
+FOR EACH ROW EXECUTE FUNCTION public.validar_factura_venta();
+
+-- Reserva: la fila se crea 'Pendiente' antes de pedir el CAE y se completa con la respuesta de AFIP.
+-- Así dos emisiones simultáneas de la misma venta chocan contra venta_id UNIQUE antes de llegar a AFIP.
+ALTER TABLE public.facturas ADD COLUMN IF NOT EXISTS estado text NOT NULL DEFAULT 'Emitida';
+ALTER TABLE public.facturas ALTER COLUMN numero DROP NOT NULL;
+ALTER TABLE public.facturas ALTER COLUMN cae DROP NOT NULL;
+ALTER TABLE public.facturas ALTER COLUMN cae_vencimiento DROP NOT NULL;
+ALTER TABLE public.facturas DROP CONSTRAINT IF EXISTS facturas_estado_check;
+ALTER TABLE public.facturas ADD CONSTRAINT facturas_estado_check CHECK (
+    estado = 'Pendiente' OR (estado = 'Emitida' AND numero IS NOT NULL AND cae IS NOT NULL AND cae_vencimiento IS NOT NULL)
+);
+
+DROP POLICY IF EXISTS "Facturas pendientes completadas por usuarios autenticados" ON public.facturas;
+DROP POLICY IF EXISTS "Facturas pendientes liberadas por usuarios autenticados" ON public.facturas;
+
+CREATE OR REPLACE FUNCTION public.ajuste_facturacion(p_clave text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT NULLIF(trim(both '"' from valor::text), '') FROM ajustes_sistema WHERE clave = p_clave;
+$$;
+
+-- Reserva el comprobante de una venta con los importes, el tipo y el receptor calculados acá, no en el navegador.
+-- Una reserva sin completar por más de 15 minutos se considera abandonada y se reemplaza.
+-- Devuelve la fila más los datos que necesita el WSFE (CUIT emisor, código de comprobante, condición del receptor).
+CREATE OR REPLACE FUNCTION public.reservar_factura(p_venta_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_venta record;
+    v_cliente record;
+    v_factura facturas;
+    v_cuit_emisor text := regexp_replace(COALESCE(ajuste_facturacion('AFIP_CUIT'), ''), '[^0-9]', '', 'g');
+    v_condicion_emisor text := COALESCE(ajuste_facturacion('AFIP_CONDICION_IVA'), 'Responsable Inscripto');
+    v_receptor_nombre text := 'Consumidor Final';
+    v_receptor_cuit text := '';
+    v_receptor_condicion text := 'Consumidor Final';
+    v_tipo text;
+    v_total numeric;
+    v_iva numeric;
+BEGIN
+    SELECT * INTO v_venta FROM ventas WHERE id = p_venta_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'La venta no existe.';
+    END IF;
+    IF v_venta.estado::text NOT IN ('Pagada', 'Enviada') THEN
+        RAISE EXCEPTION 'Solo se pueden facturar ventas Pagadas o Enviadas (estado actual: %).', v_venta.estado;
+    END IF;
+    IF v_cuit_emisor = '' OR ajuste_facturacion('AFIP_RAZON_SOCIAL') IS NULL THEN
+        RAISE EXCEPTION 'Falta configurar los datos del emisor (CUIT y razón social) en la configuración de facturación.';
+    END IF;
+
+    SELECT * INTO v_factura FROM facturas WHERE venta_id = p_venta_id;
+    IF FOUND THEN
+        IF v_factura.estado <> 'Pendiente' THEN
+            RAISE EXCEPTION 'La venta ya tiene una factura. Recarga la página para verla.';
+        END IF;
+        IF v_factura.created_at > now() - interval '15 minutes' THEN
+            RAISE EXCEPTION 'La factura de esta venta se está emitiendo en otra sesión. Espera unos minutos y recarga la página.';
+        END IF;
+        DELETE FROM facturas WHERE id = v_factura.id;
+    END IF;
+
+    IF v_venta.cliente_id IS NOT NULL THEN
+        SELECT * INTO v_cliente FROM clientes WHERE id = v_venta.cliente_id;
+        v_receptor_nombre := v_cliente.nombre;
+        v_receptor_cuit := regexp_replace(COALESCE(v_cliente.cuit, ''), '[^0-9]', '', 'g');
+        v_receptor_condicion := COALESCE(v_cliente.condicion_iva, 'Consumidor Final');
+    END IF;
+
+    v_tipo := CASE
+        WHEN v_condicion_emisor = 'Monotributo' THEN 'C'
+        WHEN v_receptor_condicion IN ('Responsable Inscripto', 'Monotributo') THEN 'A'
+        ELSE 'B'
+    END;
+    IF v_tipo = 'A' AND length(v_receptor_cuit) <> 11 THEN
+        RAISE EXCEPTION 'El cliente "%" es % y necesita un CUIT válido para emitir factura A.', v_receptor_nombre, v_receptor_condicion;
+    END IF;
+
+    -- Los precios de venta son finales: si la venta no registró el IVA se calcula el contenido al 21%. La C no lo discrimina.
+    v_total := COALESCE(v_venta.total, 0);
+    v_iva := CASE
+        WHEN v_tipo = 'C' THEN 0
+        WHEN COALESCE(v_venta.iva, 0) > 0 THEN v_venta.iva
+        ELSE round(v_total - v_total / 1.21, 2)
+    END;
+
+    INSERT INTO facturas (venta_id, tipo, punto_venta, fecha, receptor_nombre, receptor_doc_tipo, receptor_doc_nro, receptor_condicion_iva,
+                          importe_neto, importe_iva, importe_total, modo, estado)
+    VALUES (p_venta_id, v_tipo, COALESCE(ajuste_facturacion('AFIP_PUNTO_VENTA')::numeric::integer, 1), current_date, v_receptor_nombre,
+            CASE WHEN v_receptor_cuit <> '' THEN 80 ELSE 99 END, COALESCE(NULLIF(v_receptor_cuit, ''), '0'), v_receptor_condicion,
+            round(v_total - v_iva, 2), v_iva, v_total, COALESCE(ajuste_facturacion('AFIP_MODO'), 'mock'), 'Pendiente')
+    RETURNING * INTO v_factura;
+
+    RETURN to_jsonb(v_factura) || jsonb_build_object(
+        'cuit_emisor', v_cuit_emisor,
+        'codigo_comprobante', CASE v_tipo WHEN 'A' THEN 1 WHEN 'B' THEN 6 ELSE 11 END,
+        -- Condición frente al IVA del receptor (RG 5616)
+        'condicion_iva_receptor_id', CASE v_receptor_condicion WHEN 'Responsable Inscripto' THEN 1 WHEN 'Exento' THEN 4 WHEN 'Monotributo' THEN 6 ELSE 5 END
+    );
+END;
+$$;
+REVOKE ALL ON FUNCTION public.reservar_factura(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reservar_factura(uuid) TO service_role;
+
+-- Modo 'mock': numera correlativamente y genera un CAE ficticio en la base. No tiene validez fiscal.
+CREATE OR REPLACE FUNCTION public.emitir_factura_mock(p_venta_id uuid)
+RETURNS public.facturas
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_puede boolean;
+    v_reserva jsonb;
+    v_factura facturas;
+BEGIN
+    SELECT roles && ARRAY['superadmin', 'vendedor'] INTO v_puede FROM public.profiles WHERE id = auth.uid();
+    IF NOT COALESCE(v_puede, false) THEN
+        RAISE EXCEPTION 'No tienes permisos para emitir comprobantes.';
+    END IF;
+    IF COALESCE(ajuste_facturacion('AFIP_MODO'), 'mock') <> 'mock' THEN
+        RAISE EXCEPTION 'La facturación está configurada contra AFIP: el comprobante se emite desde el servicio de AFIP.';
+    END IF;
+
+    v_reserva := reservar_factura(p_venta_id);
+    PERFORM pg_advisory_xact_lock(hashtext('facturas:' || (v_reserva->>'tipo') || ':' || (v_reserva->>'punto_venta')));
+    UPDATE facturas SET
+        numero = (SELECT COALESCE(MAX(numero), 0) + 1 FROM facturas WHERE tipo = v_reserva->>'tipo' AND punto_venta = (v_reserva->>'punto_venta')::integer),
+        cae = lpad(floor(random() * 1e14)::bigint::text, 14, '0'),
+        cae_vencimiento = current_date + 10,
+        estado = 'Emitida'
+    WHERE id = (v_reserva->>'id')::uuid
+    RETURNING * INTO v_factura;
+    RETURN v_factura;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.emitir_factura_mock(uuid) TO authenticated;
+
+-- Ticket de acceso del WSAA que reutiliza la Edge Function 'afip-wsfe'. Sin políticas: solo service_role.
+CREATE TABLE IF NOT EXISTS public.afip_tickets_acceso (
+    modo text PRIMARY KEY,
+    token text NOT NULL,
+    sign text NOT NULL,
+    expira timestamptz NOT NULL,
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+ALTER TABLE public.afip_tickets_acceso ENABLE ROW LEVEL SECURITY;`;
+
+const isTableNotFound = (error: any) =>
+    error?.code === '42P01' || error?.code === 'PGRST205' || error?.code === '42703' || error?.code === 'PGRST204'
+    || error?.message?.includes('relation "public.facturas" does not exist') || error?.message?.includes("table 'public.facturas'");
+
+const facturasTableError = (error: any) => ({
+    ...error,
+    message: "La tabla 'facturas' no existe o está desactualizada.",
+    details: "El módulo de facturación electrónica guarda el número de comprobante y el CAE de cada venta en esta tabla.",
+    hint: "Ejecuta el script SQL para crear la tabla de facturas.",
+    sql: FACTURAS_SQL,
+});
+
+// Códigos de comprobante de AFIP (para el QR y el PDF)
+const CODIGO_COMPROBANTE: Record<TipoFactura, number> = { A: 1, B: 6, C: 11 };
+
+const DOC_TIPO_CUIT = 80;
+const ALICUOTA_IVA = 0.21;
+
+const mapFactura = (f: any): Factura => ({
+    id: f.id,
+    ventaId: f.venta_id,
+    tipo: f.tipo,
+    puntoVenta: f.punto_venta,
+    numero: Number(f.numero),
+    cae: f.cae,
+    caeVencimiento: f.cae_vencimiento,
+    fecha: f.fecha,
+    receptorNombre: f.receptor_nombre,
+    receptorDocTipo: f.receptor_doc_tipo,
+    receptorDocNro: f.receptor_doc_nro,
+    receptorCondicionIva: f.receptor_condicion_iva,
+    importeNeto: Number(f.importe_neto),
+    importeIva: Number(f.importe_iva),
+    importeTotal: Number(f.importe_total),
+    modo: f.modo,
+});
+
+/**
+ * Facturas emitidas indexadas por venta.
+ * Si la tabla todavía no existe se asume que no hay facturas.
+ */
+export const fetchFacturasPorVenta = async (): Promise<Record<string, Factura>> => {
+    const { data, error } = await supabase.from('facturas').select('*');
+    if (error) {
+        console.warn(`[${SERVICE_NAME}] Could not fetch invoices:`, error.message);
+        return {};
+    }
+    return (data || []).reduce((acc: Record<string, Factura>, f: any) => {
+        if (f.estado !== 'Pendiente') acc[f.venta_id] = mapFactura(f);
+        return acc;
+    }, {});
+};
+
+/**
+ * Emite la factura de una venta. Importes, tipo y receptor los calcula la base a partir de la venta:
+ * en modo 'mock' lo resuelve emitir_factura_mock; contra AFIP, la Edge Function 'afip-wsfe',
+ * que guarda el certificado, pide el CAE y completa la factura con la service role.
+ */
+export const emitirFactura = async (venta: Venta): Promise<Factura> => {
+    console.log(`[${SERVICE_NAME}] Issuing invoice for sale ${venta.id}.`);
+    if (venta.estado !== 'Pagada' && venta.estado !== 'Enviada') {
+        throw new Error('Solo se pueden facturar ventas Pagadas o Enviadas.');
+    }
+
+    const config = await fetchConfigFacturacion();
+    if (config.modo === 'mock') {
+        const { data, error } = await (supabase.rpc as any)('emitir_factura_mock', { p_venta_id: venta.id });
+        if (error) {
+            console.error(`[${SERVICE_NAME}] Error issuing mock invoice:`, error);
+            if (isTableNotFound(error) || error.code === '42883' || error.code === 'PGRST202') throw facturasTableError(error);
+            if (error.code === 'P0001') throw new Error(error.message);
+            throw error;
+        }
+        const factura = mapFactura(data);
+        console.log(`[${SERVICE_NAME}] Mock invoice ${factura.tipo} ${factura.numero} issued.`);
+        return factura;
+    }
+
+    const { data, error } = await supabase.functions.invoke('afip-wsfe', { body: { venta_id: venta.id } });
+    if (error) {
+        const detalle = await (error as any).context?.json?.().catch(() => null);
+        if (detalle?.error) throw new Error(detalle.error);
+        throw new Error(`No se pudo contactar al servicio de AFIP: ${error.message}`);
+    }
+    if (data?.error) throw new Error(data.error);
+    const factura = mapFactura(data.factura);
+    console.log(`[${SERVICE_NAME}] Invoice ${factura.tipo} ${factura.numero} issued with CAE ${factura.cae}.`);
+    return factura;
+};
+
+// --- PDF ---
+
+const formatNumeroComprobante = (f: Factura) =>
+    `${String(f.puntoVenta).padStart(5, '0')}-${String(f.numero).padStart(8, '0')}`;
+
+const formatFecha = (iso: string) => {
+    const [y, m, d] = iso.slice(0, 10).split('-');
+    return `${d}/${m}/${y}`;
+};
+
+const formatMoneda = (n: number) => `$ ${n.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** URL del código QR exigido por AFIP (RG 4892). */
+export const construirUrlQrAfip = (f: Factura, cuitEmisor: string) => {
+    const payload = {
+        ver: 1,
+        fecha: f.fecha.slice(0, 10),
+        cuit: Number(cuitEmisor.replace(/\D/g, '')),
+        ptoVta: f.puntoVenta,
+        tipoCmp: CODIGO_COMPROBANTE[f.tipo],
+        nroCmp: f.numero,
+        importe: f.importeTotal,
+        moneda: 'PES',
+        ctz: 1,
+        tipoDocRec: f.receptorDocTipo,
+        nroDocRec: Number(f.receptorDocNro) || 0,
+        tipoCodAut: 'E',
+        codAut: Number(f.cae),
+    };
+    return `https://www.afip.gob.ar/fe/qr/?p=${btoa(JSON.stringify(payload))}`;
+};
+
+const dibujarQR = (pdf: jsPDF, contenido: string, x: number, y: number, size: number) => {
+    const svg = new BrowserQRCodeSvgWriter().write(contenido, 200, 200);
+    const escala = size / Number(svg.getAttribute('width'));
+    pdf.setFillColor(0, 0, 0);
+    svg.querySelectorAll('rect').forEach(rect => {
+        pdf.rect(
+            x + Number(rect.getAttribute('x')) * escala,
+            y + Number(rect.getAttribute('y')) * escala,
+            Number(rect.getAttribute('width')) * escala,
+            Number(rect.getAttribute('height')) * escala,
+            'F'
+        );
+    });
+};
+
+export const descargarFacturaPdf = async (factura: Factura): Promise<void> => {
+    const config = await fetchConfigFacturacion();
+    const { data: items, error } = await supabase
+        .from('venta_items')
+        .select('cantidad, precio_unitario, productos(nombre)')
+        .eq('venta_id', factura.ventaId);
+    if (error) throw error;
+    const { data: venta, error: ventaError } = await supabase
+        .from('ventas')
+        .select('iva')
+        .eq('id', factura.ventaId)
+        .single();
+    if (ventaError) throw ventaError;
+
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+    const ancho = pdf.internal.pageSize.getWidth();
+    const margen = 12;
+
+    // Encabezado: emisor | letra | comprobante
+    pdf.setDrawColor(0);
+    pdf.rect(margen, margen, ancho - margen * 2, 45);
+    pdf.line(ancho / 2, margen + 14, ancho / 2, margen + 45);
+    pdf.rect(ancho / 2 - 8, margen, 16, 14);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(22);
+    pdf.text(factura.tipo, ancho / 2, margen + 9, { align: 'center' });
+    pdf.setFontSize(6);
+    pdf.text(`COD. ${String(CODIGO_COMPROBANTE[factura.tipo]).padStart(2, '0')}`, ancho / 2, margen + 12.5, { align: 'center' });
+
+    pdf.setFontSize(14);
+    pdf.text(config.razonSocial, margen + 4, margen + 10);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.text(`Domicilio comercial: ${config.domicilio || '-'}`, margen + 4, margen + 24);
+    pdf.text(`Condición frente al IVA: ${config.condicionIva}`, margen + 4, margen + 30);
+
+    const colDerecha = ancho / 2 + 12;
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(16);
+    pdf.text('FACTURA', colDerecha, margen + 10);
+    pdf.setFontSize(9);
+    pdf.text(`Punto de Venta / Comp. Nro: ${formatNumeroComprobante(factura)}`, colDerecha, margen + 20);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(`Fecha de emisión: ${formatFecha(factura.fecha)}`, colDerecha, margen + 26);
+    pdf.text(`CUIT: ${config.cuit}`, colDerecha, margen + 32);
+    pdf.text(`Inicio de actividades: ${config.inicioActividades ? formatFecha(config.inicioActividades) : '-'}`, colDerecha, margen + 38);
+
+    // Receptor
+    let y = margen + 50;
+    pdf.rect(margen, y, ancho - margen * 2, 16);
+    pdf.text(`${factura.receptorDocTipo === DOC_TIPO_CUIT ? 'CUIT' : 'Doc.'}: ${factura.receptorDocTipo === DOC_TIPO_CUIT ? factura.receptorDocNro : '-'}`, margen + 4, y + 6);
+    pdf.text(`Apellido y Nombre / Razón Social: ${factura.receptorNombre}`, margen + 60, y + 6);
+    pdf.text(`Condición frente al IVA: ${factura.receptorCondicionIva}`, margen + 4, y + 12);
+    pdf.text('Condición de venta: Contado', margen + 100, y + 12);
+
+    // Detalle. En la factura A los precios se expresan netos de IVA: si la venta sumó el IVA
+    // aparte, los precios de los ítems ya son netos; si no, son finales y hay que descontarlo.
+    y += 24;
+    const preciosFinales = !(Number(venta?.iva) > 0);
+    const factorNeto = factura.tipo === 'A' && preciosFinales ? 1 / (1 + ALICUOTA_IVA) : 1;
+    pdf.setFillColor(230, 230, 230);
+    pdf.rect(margen, y - 5, ancho - margen * 2, 7, 'F');
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Producto', margen + 2, y);
+    pdf.text('Cantidad', 120, y, { align: 'right' });
+    pdf.text('Precio Unit.', 155, y, { align: 'right' });
+    pdf.text('Subtotal', ancho - margen - 2, y, { align: 'right' });
+    pdf.setFont('helvetica', 'normal');
+    y += 8;
+    for (const item of items || []) {
+        const unitario = Number(item.precio_unitario) * factorNeto;
+        pdf.text(String((item as any).productos?.nombre || 'Producto').substring(0, 55), margen + 2, y);
+        pdf.text(String(item.cantidad), 120, y, { align: 'right' });
+        pdf.text(formatMoneda(unitario), 155, y, { align: 'right' });
+        pdf.text(formatMoneda(unitario * item.cantidad), ancho - margen - 2, y, { align: 'right' });
+        y += 6;
+    }
+
+    // Totales
+    y += 6;
+    pdf.line(margen, y - 4, ancho - margen, y - 4);
+    const totales: [string, number][] = factura.tipo === 'A'
+        ? [['Importe Neto Gravado', factura.importeNeto], ['IVA 21%', factura.importeIva], ['Importe Total', factura.importeTotal]]
+        : factura.tipo === 'B'
+            ? [['Importe Total', factura.importeTotal], ['IVA contenido (Ley 27.743)', factura.importeIva]]
+            : [['Importe Total', factura.importeTotal]];
+    for (const [label, valor] of totales) {
+        pdf.setFont('helvetica', label === 'Importe Total' ? 'bold' : 'normal');
+        pdf.text(`${label}:`, 155, y, { align: 'right' });
+        pdf.text(formatMoneda(valor), ancho - margen - 2, y, { align: 'right' });
+        y += 6;
+    }
+
+    // Pie: QR + CAE
+    const altoPagina = pdf.internal.pageSize.getHeight();
+    const yPie = altoPagina - margen - 32;
+    dibujarQR(pdf, construirUrlQrAfip(factura, config.cuit), margen, yPie, 32);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(`CAE N°: ${factura.cae}`, ancho - margen - 2, yPie + 12, { align: 'right' });
+    pdf.text(`Fecha de Vto. de CAE: ${formatFecha(factura.caeVencimiento)}`, ancho - margen - 2, yPie + 18, { align: 'right' });
+    pdf.setFont('helvetica', 'normal');
+    pdf.text('Comprobante Autorizado', margen + 36, yPie + 12);
+
+    if (factura.modo !== 'produccion') {
+        pdf.setTextColor(200, 0, 0);
+        pdf.setFont('helvetica', 'bold');
+        pdf.setFontSize(11);
+        pdf.text('COMPROBANTE DE PRUEBA - SIN VALIDEZ FISCAL', ancho / 2, yPie - 6, { align: 'center' });
+        pdf.setTextColor(0, 0, 0);
+    }
+
+    pdf.save(`Factura_${factura.tipo}_${formatNumeroComprobante(factura)}.pdf`);
+};
@@ -0,0 +1,334 @@
+import { supabase } from '../supabase';
+import { VersionPrecio } from '../types';
+
+const SERVICE_NAME = 'HistorialPreciosService';
+
+export const HISTORIAL_PRECIOS_SQL = `-- Versiones de precio con fecha de vigencia (precios base del producto y precios por lista)
+CREATE TABLE IF NOT EXISTS public.versiones_precio (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    producto_id uuid NOT NULL REFERENCES public.productos(id) ON DELETE CASCADE,
+    -- NULL = precios base del producto (público, comercio, mayorista)
+    lista_id uuid REFERENCES public.listas_de_precios(id) ON DELETE CASCADE,
+    precio_publico numeric,
+    precio_comercio numeric,
+    precio_mayorista numeric,
+    precio numeric,
+    costo_unitario numeric,
+    vigente_desde date NOT NULL DEFAULT current_date,
+    estado text NOT NULL DEFAULT 'Programado' CHECK (estado IN ('Programado', 'Aplicado', 'Cancelado')),
+    motivo text,
+    usuario_id uuid DEFAULT auth.uid(),
+    aplicado_en timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    CHECK ((lista_id IS NULL AND precio_publico IS NOT NULL) OR (lista_id IS NOT NULL AND precio IS NOT NULL))
+);
+CREATE INDEX IF NOT EXISTS versiones_precio_producto_idx ON public.versiones_precio (producto_id, vigente_desde);
+CREATE INDEX IF NOT EXISTS versiones_precio_programadas_idx ON public.versiones_precio (vigente_desde) WHERE estado = 'Programado';
+
+ALTER TABLE public.versiones_precio ENABLE ROW LEVEL SECURITY;
+-- Solo lectura: las versiones se escriben desde triggers y funciones (programar, cancelar, aplicar, remarcar)
+DROP POLICY IF EXISTS "Versiones de precio para usuarios autenticados" ON public.versiones_precio;
+CREATE POLICY "Versiones de precio para usuarios autenticados" ON public.versiones_precio FOR SELECT TO authenticated USING (true);
+
+-- Costo unitario con el mismo criterio del tablero del producto: insumos a costo actual + laboratorio del último lote
+CREATE OR REPLACE FUNCTION public.costo_unitario_producto(p_producto_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT COALESCE((
+        SELECT SUM(pi.cantidad * COALESCE(i.costo, 0))
+        FROM productos_insumos pi JOIN insumos i ON i.id = pi.insumo_id
+        WHERE pi.producto_id = p_producto_id
+    ), 0) + COALESCE((
+        SELECT l.costo_laboratorio FROM lotes l
+        WHERE l.producto_id = p_producto_id
+        ORDER BY l.created_at DESC LIMIT 1
+    ), 0);
+$$;
+
+-- Todo cambio directo de precio queda como versión aplicada (edición en pantallas, listas nuevas, etc.)
+CREATE OR REPLACE FUNCTION public.registrar_version_precio()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    -- aplicar_precios_programados marca su propia versión como aplicada
+    IF current_setting('app.aplicando_precios', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_TABLE_NAME = 'productos' THEN
+        IF TG_OP = 'UPDATE'
+           AND NEW.precio_publico IS NOT DISTINCT FROM OLD.precio_publico
+           AND NEW.precio_comercio IS NOT DISTINCT FROM OLD.precio_comercio
+           AND NEW.precio_mayorista IS NOT DISTINCT FROM OLD.precio_mayorista THEN
+            RETURN NEW;
+        END IF;
+        INSERT INTO versiones_precio (producto_id, precio_publico, precio_comercio, precio_mayorista, costo_unitario, estado, aplicado_en)
+        VALUES (NEW.id, COALESCE(NEW.precio_publico, 0), NEW.precio_comercio, NEW.precio_mayorista, costo_unitario_producto(NEW.id), 'Aplicado', now());
+    ELSE
+        IF TG_OP = 'UPDATE' AND NEW.precio IS NOT DISTINCT FROM OLD.precio THEN
+            RETURN NEW;
+        END IF;
+        INSERT INTO versiones_precio (producto_id, lista_id, precio, costo_unitario, estado, aplicado_en)
+        VALUES (NEW.producto_id, NEW.lista_id, NEW.precio, costo_unitario_producto(NEW.producto_id), 'Aplicado', now());
+    END IF;
+    RETURN NEW;
+END;
+$$;
+DROP TRIGGER IF EXISTS trg_version_precio_producto ON public.productos;
+CREATE TRIGGER trg_version_precio_producto AFTER INSERT OR UPDATE OF precio_publico, precio_comercio, precio_mayorista ON public.productos
+FOR EACH ROW EXECUTE FUNCTION public.registrar_version_precio();
+DROP TRIGGER IF EXISTS trg_version_precio_lista ON public.lista_precio_productos;
+CREATE TRIGGER trg_version_precio_lista AFTER INSERT OR UPDATE OF precio ON public.lista_precio_productos
+FOR EACH ROW EXECUTE FUNCTION public.registrar_version_precio();
+
+-- Punto de partida del historial: los precios vigentes al instalar
+INSERT INTO versiones_precio (producto_id, precio_publico, precio_comercio, precio_mayorista, costo_unitario, estado, aplicado_en, motivo)
+SELECT p.id, COALESCE(p.precio_publico, 0), p.precio_comercio, p.precio_mayorista, costo_unitario_producto(p.id), 'Aplicado', now(), 'Precio inicial'
+FROM productos p
+WHERE NOT EXISTS (SELECT 1 FROM versiones_precio v WHERE v.producto_id = p.id AND v.lista_id IS NULL);
+INSERT INTO versiones_precio (producto_id, lista_id, precio, costo_unitario, estado, aplicado_en, motivo)
+SELECT lp.producto_id, lp.lista_id, lp.precio, costo_unitario_producto(lp.producto_id), 'Aplicado', now(), 'Precio inicial'
+FROM lista_precio_productos lp
+WHERE NOT EXISTS (SELECT 1 FROM versiones_precio v WHERE v.producto_id = lp.producto_id AND v.lista_id = lp.lista_id);
+
+-- p_versiones: [{ producto_id, lista_id, precio_publico, precio_comercio, precio_mayorista, precio, vigente_desde, motivo }]
+-- lista_id NULL programa precios base; si no, el precio de esa lista.
+CREATE OR REPLACE FUNCTION public.programar_precios(p_versiones jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_programadas integer;
+BEGIN
+    IF auth.uid() IS NULL AND auth.role() <> 'service_role' THEN
+        RAISE EXCEPTION 'Debe iniciar sesión para programar precios.';
+    END IF;
+    IF EXISTS (SELECT 1 FROM jsonb_to_recordset(COALESCE(p_versiones, '[]'::jsonb)) AS x(vigente_desde date) WHERE x.vigente_desde IS NULL OR x.vigente_desde < current_date) THEN
+        RAISE EXCEPTION 'La fecha de vigencia no puede ser anterior a hoy.';
+    END IF;
+
+    INSERT INTO versiones_precio (producto_id, lista_id, precio_publico, precio_comercio, precio_mayorista, precio, vigente_desde, estado, motivo, usuario_id)
+    SELECT x.producto_id, x.lista_id, x.precio_publico, x.precio_comercio, x.precio_mayorista, x.precio, x.vigente_desde, 'Programado', NULLIF(trim(x.motivo), ''), auth.uid()
+    FROM jsonb_to_recordset(COALESCE(p_versiones, '[]'::jsonb))
+        AS x(producto_id uuid, lista_id uuid, precio_publico numeric, precio_comercio numeric, precio_mayorista numeric, precio numeric, vigente_desde date, motivo text);
+    GET DIAGNOSTICS v_programadas = ROW_COUNT;
+    RETURN v_programadas;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.programar_precios(jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.cancelar_precio_programado(p_version_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF auth.uid() IS NULL AND auth.role() <> 'service_role' THEN
+        RAISE EXCEPTION 'Debe iniciar sesión para cancelar precios programados.';
+    END IF;
+    UPDATE versiones_precio SET estado = 'Cancelado' WHERE id = p_version_id AND estado = 'Programado';
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'El cambio programado ya se aplicó o fue cancelado.';
+    END IF;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.cancelar_precio_programado(uuid) TO authenticated;
+
+-- Aplica las versiones programadas cuya fecha llegó. Si hay dos para el mismo precio y día, gana la última cargada.
+CREATE OR REPLACE FUNCTION public.aplicar_precios_programados()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v record;
+    v_aplicadas integer := 0;
+BEGIN
+    PERFORM set_config('app.aplicando_precios', 'on', true);
+    -- Señal para otros controles (p. ej. margen mínimo) de que estos precios ya se validaron al programarse
+    PERFORM set_config('app.precios_programados', 'on', true);
+
+    FOR v IN
+        SELECT * FROM versiones_precio
+        WHERE estado = 'Programado' AND vigente_desde <= current_date
+        ORDER BY vigente_desde, created_at
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        IF v.lista_id IS NULL THEN
+            UPDATE productos SET
+                precio_publico = v.precio_publico,
+                precio_comercio = COALESCE(v.precio_comercio, precio_comercio),
+                precio_mayorista = COALESCE(v.precio_mayorista, precio_mayorista)
+            WHERE id = v.producto_id;
+        ELSE
+            INSERT INTO lista_precio_productos (lista_id, producto_id, precio)
+            VALUES (v.lista_id, v.producto_id, v.precio)
+            ON CONFLICT (lista_id, producto_id) DO UPDATE SET precio = EXCLUDED.precio;
+        END IF;
+        UPDATE versiones_precio SET estado = 'Aplicado', aplicado_en = now(), costo_unitario = costo_unitario_producto(v.producto_id)
+        WHERE id = v.id;
+        v_aplicadas := v_aplicadas + 1;
+    END LOOP;
+
+    PERFORM set_config('app.aplicando_precios', 'off', true);
+    PERFORM set_config('app.precios_programados', 'off', true);
+    RETURN v_aplicadas;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.aplicar_precios_programados() TO authenticated;
+
+-- Los cambios programados se aplican solos con pg_cron. Corre cada hora porque vigente_desde se compara con
+-- current_date del servidor (UTC); cron.schedule con el mismo nombre reemplaza el job si ya existía.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+SELECT cron.schedule('aplicar-precios-programados', '5 * * * *', 'SELECT public.aplicar_precios_programados()');`;
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', '42703', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('versiones_precio') ||
+    error?.message?.includes('aplicar_precios_programados');
+
+const historialSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Falta el historial de precios.",
+    details: "Cada cambio de precio (base o por lista) se guarda como una versión con fecha de vigencia. Los cambios con fecha futura quedan programados y se aplican solos.",
+    hint: "Ejecuta el script SQL de abajo. Activa pg_cron (extensión de Supabase) para que los cambios se apliquen aunque nadie abra el sistema.",
+    sql: HISTORIAL_PRECIOS_SQL,
+});
+
+const mapVersion = (v: any): VersionPrecio => ({
+    id: v.id,
+    productoId: v.producto_id,
+    productoNombre: v.productos?.nombre || '',
+    listaId: v.lista_id,
+    listaNombre: v.listas_de_precios?.nombre || null,
+    precioPublico: v.precio_publico === null ? null : Number(v.precio_publico),
+    precioComercio: v.precio_comercio === null ? null : Number(v.precio_comercio),
+    precioMayorista: v.precio_mayorista === null ? null : Number(v.precio_mayorista),
+    precio: v.precio === null ? null : Number(v.precio),
+    costoUnitario: v.costo_unitario === null ? null : Number(v.costo_unitario),
+    vigenteDesde: v.vigente_desde,
+    estado: v.estado,
+    motivo: v.motivo,
+    aplicadoEn: v.aplicado_en,
+    createdAt: v.created_at,
+});
+
+const VERSION_SELECT = '*, productos(nombre), listas_de_precios(nombre)';
+
+export const hoyISO = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+/** Historial de un producto (precios base y de todas las listas), del más viejo al más nuevo. */
+export const fetchHistorialPrecios = async (productoId: string): Promise<VersionPrecio[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching price history for product ${productoId}.`);
+    const { data, error } = await supabase
+        .from('versiones_precio')
+        .select(VERSION_SELECT)
+        .eq('producto_id', productoId)
+        .neq('estado', 'Cancelado')
+        .order('vigente_desde', { ascending: true })
+        .order('created_at', { ascending: true });
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error fetching price history:`, error);
+        if (isMissingObject(error)) throw historialSqlError(error);
+        throw error;
+    }
+    return (data || []).map(mapVersion);
+};
+
+/** Cambios pendientes de los precios base (listaId null) o de una lista. Sin el script instalado no hay ninguno. */
+export const fetchPreciosProgramados = async (listaId: string | null): Promise<VersionPrecio[]> => {
+    let query = supabase.from('versiones_precio').select(VERSION_SELECT).eq('estado', 'Programado');
+    query = listaId ? query.eq('lista_id', listaId) : query.is('lista_id', null);
+    const { data, error } = await query.order('vigente_desde', { ascending: true });
+    if (error) {
+        if (isMissingObject(error)) {
+            console.warn(`[${SERVICE_NAME}] Price history not installed, no scheduled prices.`);
+            return [];
+        }
+        console.error(`[${SERVICE_NAME}] Error fetching scheduled prices:`, error);
+        throw error;
+    }
+    return (data || []).map(mapVersion);
+};
+
+const insertProgramados = async (rows: Record<string, any>[]): Promise<void> => {
+    const { error } = await (supabase.rpc as any)('programar_precios', { p_versiones: rows });
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error scheduling prices:`, error);
+        if (isMissingObject(error)) throw historialSqlError(error);
+        if (error.code === 'P0001') throw { ...error, message: `No se pudieron programar los precios: ${error.message}` };
+        throw error;
+    }
+};
+
+export const programarPreciosProducto = async (
+    productoId: string,
+    precios: { precioPublico: number; precioComercio: number; precioMayorista: number },
+    vigenteDesde: string,
+    motivo?: string
+): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Scheduling base prices for product ${productoId} from ${vigenteDesde}.`);
+    await insertProgramados([{
+        producto_id: productoId,
+        precio_publico: precios.precioPublico,
+        precio_comercio: precios.precioComercio,
+        precio_mayorista: precios.precioMayorista,
+        vigente_desde: vigenteDesde,
+        motivo: motivo?.trim() || null,
+    }]);
+};
+
+export const programarPreciosLista = async (
+    listaId: string,
+    precios: { productoId: string; precio: number }[],
+    vigenteDesde: string,
+    motivo?: string
+): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Scheduling ${precios.length} prices for list ${listaId} from ${vigenteDesde}.`);
+    await insertProgramados(precios.map(p => ({
+        producto_id: p.productoId,
+        lista_id: listaId,
+        precio: p.precio,
+        vigente_desde: vigenteDesde,
+        motivo: motivo?.trim() || null,
+    })));
+};
+
+export const cancelarPrecioProgramado = async (versionId: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Cancelling scheduled price ${versionId}.`);
+    const { error } = await (supabase.rpc as any)('cancelar_precio_programado', { p_version_id: versionId });
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error cancelling scheduled price:`, error);
+        if (isMissingObject(error)) throw historialSqlError(error);
+        if (error.code === 'P0001') throw { ...error, message: `No se pudo cancelar el cambio: ${error.message}` };
+        throw error;
+    }
+};
+
+/**
+ * Aplica los cambios programados cuya fecha llegó. Lo corre pg_cron cada hora;
+ * las pantallas de precios lo invocan también al cargar para no esperar a la próxima corrida.
+ */
+export const aplicarPreciosProgramados = async (): Promise<number> => {
+    const { data, error } = await (supabase.rpc as any)('aplicar_precios_programados');
+    if (error) {
+        if (isMissingObject(error)) {
+            console.warn(`[${SERVICE_NAME}] Scheduled prices not installed.`);
+            return 0;
+        }
+        console.error(`[${SERVICE_NAME}] Error applying scheduled prices:`, error);
+        throw error;
+    }
+    const aplicadas = Number(data) || 0;
+    if (aplicadas > 0) console.log(`[${SERVICE_NAME}] Applied ${aplicadas} scheduled price changes.`);
+    return aplicadas;
+};
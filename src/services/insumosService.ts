@@ -1,6 +1,7 @@
 import { supabase } from '../supabase';
 import { Insumo } from '../types';
 import { PostgrestError } from '@supabase/supabase-js';
+import { lotesInsumoSqlError } from './lotesInsumoService';
 
 const SERVICE_NAME = 'InsumosService';
 
@@ -137,6 +138,7 @@ interface StockUpdateData {
     costo: number;
     lote: string;
     fecha: string;
+    fechaVencimiento?: string;
 }
 
 export const addStockToInsumo = async (stockData: StockUpdateData): Promise<void> => {
@@ -147,13 +149,14 @@ export const addStockToInsumo = async (stockData: StockUpdateData): Promise<void
             p_cantidad_agregada: stockData.cantidad,
             p_nuevo_costo: stockData.costo,
             p_lote_comprado: stockData.lote,
-            p_fecha_compra: stockData.fecha
+            p_fecha_compra: stockData.fecha,
+            p_fecha_vencimiento: stockData.fechaVencimiento || null,
         });
         if (error) throw error;
     } catch (error: any) {
         console.error(`[${SERVICE_NAME}] RPC call 'add_insumo_stock' failed:`, error);
-         if (error.message?.includes('does not exist')) {
-            throw new Error(`Error de base de datos: La función 'add_insumo_stock' no existe. Ejecuta el script SQL para crearla.`);
+        if (error.code === 'PGRST202' || error.message?.includes('does not exist') || error.message?.includes('lotes_insumo')) {
+            throw lotesInsumoSqlError(error);
         }
         throw new Error(`No se pudo agregar stock: ${error?.message}`);
     }
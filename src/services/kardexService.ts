@@ -0,0 +1,199 @@
+import { supabase } from '../supabase';
+import { ConciliacionLote, KardexLinea, MovimientoStock } from '../types';
+import { mapMovimientoStock } from './movimientosStockService';
+import { CONTEOS_SQL } from './conteosService';
+import { CREAR_VENTA_SQL } from './ventasService';
+import { TRANSFERIR_STOCK_SQL } from './depositosService';
+import { REGISTRAR_PRODUCCION_SQL } from './stockService';
+
+const SERVICE_NAME = 'KardexService';
+
+// Páginas del historial: PostgREST corta cada respuesta en 1000 filas.
+const PAGINA = 1000;
+
+/**
+ * Incluye el script de conteos (que a su vez instala el registro de movimientos) porque contabilizar_conteo_inventario
+ * llamaba a registrar_movimiento_stock, y vuelve a crear las funciones principales para que informen tipo y referencia.
+ * Devoluciones, consignaciones, producción, compras, reservas y cambios de estado lo hacen desde sus propios scripts.
+ */
+const KARDEX_SQL = `${CONTEOS_SQL}
+
+-- Reconstrucción: deja el stock del lote igual al saldo que surge del kardex
+CREATE OR REPLACE FUNCTION public.reconstruir_stock_lote(p_lote_id uuid, p_motivo text)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_saldo numeric;
+BEGIN
+    IF COALESCE(trim(p_motivo), '') = '' THEN
+        RAISE EXCEPTION 'Indica el motivo de la reconstrucción.';
+    END IF;
+    PERFORM 1 FROM lotes WHERE id = p_lote_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'El lote no existe.';
+    END IF;
+
+    SELECT COALESCE(SUM(cantidad), 0) INTO v_saldo FROM movimientos_stock WHERE lote_id = p_lote_id;
+    IF v_saldo < 0 THEN
+        RAISE EXCEPTION 'El kardex del lote da un saldo negativo (%): revisa los movimientos antes de reconstruir.', v_saldo;
+    END IF;
+
+    PERFORM set_config('app.movimiento_tipo', 'Reconstrucción', true);
+    PERFORM set_config('app.movimiento_referencia', '', true);
+    PERFORM set_config('app.movimiento_referencia_id', '', true);
+    PERFORM set_config('app.movimiento_motivo', p_motivo, true);
+    UPDATE lotes SET cantidad_actual = v_saldo WHERE id = p_lote_id;
+    RETURN v_saldo;
+END;
+$$;
+
+-- Igual para un lote de insumo; insumos.stock acompaña la diferencia
+CREATE OR REPLACE FUNCTION public.reconstruir_stock_lote_insumo(p_lote_insumo_id uuid, p_motivo text)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_lote record;
+    v_saldo numeric;
+BEGIN
+    IF COALESCE(trim(p_motivo), '') = '' THEN
+        RAISE EXCEPTION 'Indica el motivo de la reconstrucción.';
+    END IF;
+    SELECT * INTO v_lote FROM lotes_insumo WHERE id = p_lote_insumo_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'El lote de insumo no existe.';
+    END IF;
+
+    SELECT COALESCE(SUM(cantidad), 0) INTO v_saldo FROM movimientos_stock WHERE lote_insumo_id = p_lote_insumo_id;
+    IF v_saldo < 0 THEN
+        RAISE EXCEPTION 'El kardex del lote da un saldo negativo (%): revisa los movimientos antes de reconstruir.', v_saldo;
+    END IF;
+
+    PERFORM set_config('app.movimiento_tipo', 'Reconstrucción', true);
+    PERFORM set_config('app.movimiento_referencia', '', true);
+    PERFORM set_config('app.movimiento_referencia_id', '', true);
+    PERFORM set_config('app.movimiento_motivo', p_motivo, true);
+    UPDATE lotes_insumo SET cantidad_actual = v_saldo WHERE id = p_lote_insumo_id;
+    UPDATE insumos SET stock = stock + (v_saldo - v_lote.cantidad_actual) WHERE id = v_lote.insumo_id;
+    RETURN v_saldo;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reconstruir_stock_lote(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reconstruir_stock_lote_insumo(uuid, text) TO authenticated;
+
+-- crear_venta, transferir_stock y registrar_produccion informando el tipo de movimiento
+${CREAR_VENTA_SQL}
+
+${TRANSFERIR_STOCK_SQL}
+
+${REGISTRAR_PRODUCCION_SQL}`;
+
+export interface ArticuloKardex {
+    tipo: 'producto' | 'insumo';
+    id: string;
+}
+
+const isMissingObject = (error: any) =>
+    ['42703', '42883', '42P01', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('movimientos_stock') ||
+    error?.message?.includes('Could not find the function');
+
+const kardexSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Falta el registro de movimientos de stock (kardex).",
+    details: "Cada cambio de stock de un lote de producto o de insumo queda registrado con tipo, cantidad, saldo anterior y nuevo, documento de referencia y usuario.",
+    hint: "Ejecuta el script SQL de abajo. El stock actual de cada lote se registra como saldo inicial. Para que devoluciones, consignaciones, producción, compras, reservas y cambios de estado de ventas informen su tipo, vuelve a ejecutar también sus scripts.",
+    sql: KARDEX_SQL,
+});
+
+const handleError = (error: any, context: string): never => {
+    console.error(`[${SERVICE_NAME}] Error ${context}:`, error);
+    if (isMissingObject(error)) throw kardexSqlError(error);
+    if (error.code === 'P0001') {
+        throw { ...error, message: `No se pudo ${context}: ${error.message}` };
+    }
+    throw error;
+};
+
+/**
+ * Historial completo de un producto o insumo, del más antiguo al más reciente.
+ */
+export const fetchKardex = async (articulo: ArticuloKardex): Promise<MovimientoStock[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching kardex for ${articulo.tipo} ${articulo.id}.`);
+    const movimientos: MovimientoStock[] = [];
+    for (let desde = 0; ; desde += PAGINA) {
+        const { data, error } = await supabase
+            .from('movimientos_stock')
+            .select('*, productos(nombre), insumos(nombre), depositos(nombre)')
+            .eq(articulo.tipo === 'producto' ? 'producto_id' : 'insumo_id', articulo.id)
+            .order('fecha', { ascending: true })
+            .order('secuencia', { ascending: true })
+            .range(desde, desde + PAGINA - 1);
+        if (error) handleError(error, 'cargar el kardex');
+
+        movimientos.push(...(data || []).map(mapMovimientoStock));
+        if (!data || data.length < PAGINA) break;
+    }
+    return movimientos;
+};
+
+/** Entradas, salidas y saldo acumulado, en el orden recibido. */
+export const calcularSaldos = (movimientos: MovimientoStock[]): KardexLinea[] => {
+    let saldo = 0;
+    return movimientos.map(m => {
+        saldo += m.cantidad;
+        return {
+            ...m,
+            entrada: m.cantidad > 0 ? m.cantidad : 0,
+            salida: m.cantidad < 0 ? -m.cantidad : 0,
+            saldo,
+        };
+    });
+};
+
+/**
+ * Compara el stock actual de cada lote con el saldo de sus movimientos.
+ * Una diferencia indica cambios hechos por fuera del registro (p. ej. antes de instalarlo o con los triggers desactivados).
+ */
+export const fetchConciliacionLotes = async (articulo: ArticuloKardex, movimientos: MovimientoStock[]): Promise<ConciliacionLote[]> => {
+    console.log(`[${SERVICE_NAME}] Reconciling lots for ${articulo.tipo} ${articulo.id}.`);
+    const { data, error } = articulo.tipo === 'producto'
+        ? await supabase.from('lotes').select('id, numero_lote, cantidad_actual, depositos(nombre)').eq('producto_id', articulo.id)
+        : await supabase.from('lotes_insumo').select('id, numero_lote, cantidad_actual').eq('insumo_id', articulo.id);
+    if (error) handleError(error, 'cargar los lotes');
+
+    const saldos = new Map<string, number>();
+    movimientos.forEach(m => {
+        const loteId = articulo.tipo === 'producto' ? m.loteId : m.loteInsumoId;
+        if (loteId) saldos.set(loteId, (saldos.get(loteId) || 0) + m.cantidad);
+    });
+
+    return ((data || []) as any[])
+        .map(l => {
+            const stockActual = Number(l.cantidad_actual);
+            const saldoKardex = saldos.get(l.id) || 0;
+            return {
+                id: l.id,
+                numeroLote: l.numero_lote,
+                depositoNombre: l.depositos?.nombre || 'N/A',
+                stockActual,
+                saldoKardex,
+                diferencia: Math.round((stockActual - saldoKardex) * 1000) / 1000,
+            };
+        })
+        .sort((a, b) => a.numeroLote.localeCompare(b.numeroLote));
+};
+
+/** Lleva el stock del lote al saldo del kardex. Devuelve el stock resultante. */
+export const reconstruirStockLote = async (articulo: ArticuloKardex, loteId: string, motivo: string): Promise<number> => {
+    console.log(`[${SERVICE_NAME}] Rebuilding stock of ${articulo.tipo} lot ${loteId} from its movements.`);
+    const { data, error } = articulo.tipo === 'producto'
+        ? await (supabase.rpc as any)('reconstruir_stock_lote', { p_lote_id: loteId, p_motivo: motivo })
+        : await (supabase.rpc as any)('reconstruir_stock_lote_insumo', { p_lote_insumo_id: loteId, p_motivo: motivo });
+    if (error) handleError(error, 'reconstruir el stock del lote');
+    return Number(data);
+};
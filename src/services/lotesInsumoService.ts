@@ -0,0 +1,197 @@
+import { supabase } from '../supabase';
+import { LoteInsumo, UsoLoteInsumo } from '../types';
+
+const SERVICE_NAME = 'LotesInsumoService';
+
+/**
+ * Lotes de insumos. insumos.stock sigue siendo el total (suma de cantidad_actual de sus lotes)
+ * para no romper las pantallas que lo leen; solo add_insumo_stock y consumir_insumo_fefo lo mueven.
+ * Compras y Producción incluyen este script porque dependen de esas dos funciones.
+ */
+export const LOTES_INSUMO_SQL = `-- Lotes de insumos (lote del proveedor, recepción, vencimiento y costo)
+CREATE TABLE IF NOT EXISTS public.lotes_insumo (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    insumo_id uuid NOT NULL REFERENCES public.insumos(id) ON DELETE CASCADE,
+    numero_lote text NOT NULL,
+    proveedor text,
+    fecha_recepcion date NOT NULL DEFAULT current_date,
+    fecha_vencimiento date,
+    cantidad_inicial numeric NOT NULL CHECK (cantidad_inicial >= 0),
+    cantidad_actual numeric NOT NULL CHECK (cantidad_actual >= 0),
+    costo_unitario numeric NOT NULL DEFAULT 0,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_lotes_insumo_insumo ON public.lotes_insumo(insumo_id);
+
+ALTER TABLE public.lotes_insumo ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Lotes de insumo visibles para usuarios autenticados" ON public.lotes_insumo;
+CREATE POLICY "Lotes de insumo visibles para usuarios autenticados" ON public.lotes_insumo FOR SELECT TO authenticated USING (true);
+
+-- El stock existente pasa a un lote inicial por insumo
+INSERT INTO public.lotes_insumo (insumo_id, numero_lote, proveedor, fecha_recepcion, cantidad_inicial, cantidad_actual, costo_unitario)
+SELECT i.id, COALESCE(NULLIF(i.ultimo_lote_pedido, ''), 'INICIAL'), i.proveedor, COALESCE(i.ultima_compra::date, current_date), i.stock, i.stock, i.costo
+FROM public.insumos i
+WHERE i.stock > 0 AND NOT EXISTS (SELECT 1 FROM public.lotes_insumo li WHERE li.insumo_id = i.id);
+
+-- Un insumo creado con stock inicial también arranca con su lote
+CREATE OR REPLACE FUNCTION public.crear_lote_inicial_insumo()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF NEW.stock > 0 THEN
+        INSERT INTO lotes_insumo (insumo_id, numero_lote, proveedor, fecha_recepcion, cantidad_inicial, cantidad_actual, costo_unitario)
+        VALUES (NEW.id, COALESCE(NULLIF(NEW.ultimo_lote_pedido, ''), 'INICIAL'), NEW.proveedor, COALESCE(NEW.ultima_compra::date, current_date), NEW.stock, NEW.stock, NEW.costo);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+DROP TRIGGER IF EXISTS trg_crear_lote_inicial_insumo ON public.insumos;
+CREATE TRIGGER trg_crear_lote_inicial_insumo AFTER INSERT ON public.insumos
+FOR EACH ROW EXECUTE FUNCTION public.crear_lote_inicial_insumo();
+
+-- Alta de stock: crea el lote y pondera el costo del insumo. Devuelve el id del lote creado.
+DROP FUNCTION IF EXISTS public.add_insumo_stock(uuid, numeric, numeric, text, date);
+CREATE OR REPLACE FUNCTION public.add_insumo_stock(p_insumo_id uuid, p_cantidad_agregada numeric, p_nuevo_costo numeric, p_lote_comprado text, p_fecha_compra date, p_fecha_vencimiento date DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_insumo record;
+    v_lote_id uuid;
+BEGIN
+    UPDATE insumos SET
+        costo = CASE
+            WHEN GREATEST(stock, 0) + p_cantidad_agregada > 0
+            THEN ROUND((GREATEST(stock, 0) * costo + p_cantidad_agregada * p_nuevo_costo) / (GREATEST(stock, 0) + p_cantidad_agregada), 4)
+            ELSE p_nuevo_costo
+        END,
+        stock = stock + p_cantidad_agregada,
+        ultimo_lote_pedido = COALESCE(NULLIF(p_lote_comprado, ''), ultimo_lote_pedido),
+        ultima_compra = p_fecha_compra
+    WHERE id = p_insumo_id
+    RETURNING * INTO v_insumo;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'El insumo no existe.';
+    END IF;
+
+    INSERT INTO lotes_insumo (insumo_id, numero_lote, proveedor, fecha_recepcion, fecha_vencimiento, cantidad_inicial, cantidad_actual, costo_unitario)
+    VALUES (p_insumo_id, COALESCE(NULLIF(p_lote_comprado, ''), 'S/N-' || to_char(COALESCE(p_fecha_compra, current_date), 'YYYYMMDD')), v_insumo.proveedor,
+            COALESCE(p_fecha_compra, current_date), p_fecha_vencimiento, p_cantidad_agregada, p_cantidad_agregada, p_nuevo_costo)
+    RETURNING id INTO v_lote_id;
+    RETURN v_lote_id;
+END;
+$$;
+
+-- Consume p_cantidad del insumo desde sus lotes vigentes, primero el que vence antes (FEFO).
+-- Devuelve una fila por lote tocado con la cantidad tomada y su costo.
+CREATE OR REPLACE FUNCTION public.consumir_insumo_fefo(p_insumo_id uuid, p_cantidad numeric)
+RETURNS TABLE(lote_insumo_id uuid, cantidad_consumida numeric, costo_lote numeric)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_lote record;
+    v_restante numeric := p_cantidad;
+    v_tomado numeric;
+    v_nombre text;
+BEGIN
+    FOR v_lote IN
+        SELECT li.id, li.cantidad_actual, li.costo_unitario
+        FROM lotes_insumo li
+        WHERE li.insumo_id = p_insumo_id AND li.cantidad_actual > 0
+          AND (li.fecha_vencimiento IS NULL OR li.fecha_vencimiento >= current_date)
+        ORDER BY li.fecha_vencimiento ASC NULLS LAST, li.fecha_recepcion ASC, li.created_at ASC
+        FOR UPDATE
+    LOOP
+        EXIT WHEN v_restante <= 0;
+        v_tomado := LEAST(v_restante, v_lote.cantidad_actual);
+        UPDATE lotes_insumo SET cantidad_actual = lotes_insumo.cantidad_actual - v_tomado WHERE id = v_lote.id;
+        v_restante := v_restante - v_tomado;
+        lote_insumo_id := v_lote.id;
+        cantidad_consumida := v_tomado;
+        costo_lote := v_lote.costo_unitario;
+        RETURN NEXT;
+    END LOOP;
+
+    IF v_restante > 0 THEN
+        SELECT nombre INTO v_nombre FROM insumos WHERE id = p_insumo_id;
+        RAISE EXCEPTION 'Stock en lotes vigentes insuficiente para "%": faltan %.', v_nombre, round(v_restante, 2);
+    END IF;
+
+    UPDATE insumos SET stock = stock - p_cantidad WHERE id = p_insumo_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.add_insumo_stock(uuid, numeric, numeric, text, date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.consumir_insumo_fefo(uuid, numeric) TO authenticated;`;
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('lotes_insumo') ||
+    error?.message?.includes('Could not find the function');
+
+export const lotesInsumoSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Falta la tabla de lotes de insumos o sus funciones.",
+    details: "Cada compra de insumo se guarda como lote (lote del proveedor, vencimiento y costo) y la producción los consume por FEFO.",
+    hint: "Ejecuta el script SQL de abajo. El stock actual de cada insumo se convierte en un lote inicial.",
+    sql: LOTES_INSUMO_SQL,
+});
+
+export const fetchLotesInsumo = async (insumoId: string): Promise<LoteInsumo[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching lots for insumo ${insumoId}.`);
+    const { data, error } = await supabase
+        .from('lotes_insumo')
+        .select('*')
+        .eq('insumo_id', insumoId)
+        .order('fecha_vencimiento', { ascending: true, nullsFirst: false })
+        .order('fecha_recepcion', { ascending: true });
+
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error fetching insumo lots:`, error);
+        throw isMissingObject(error) ? lotesInsumoSqlError(error) : error;
+    }
+
+    return (data || []).map((l: any) => ({
+        id: l.id,
+        insumoId: l.insumo_id,
+        numeroLote: l.numero_lote,
+        proveedor: l.proveedor,
+        fechaRecepcion: l.fecha_recepcion,
+        fechaVencimiento: l.fecha_vencimiento,
+        cantidadInicial: Number(l.cantidad_inicial),
+        cantidadActual: Number(l.cantidad_actual),
+        costoUnitario: Number(l.costo_unitario),
+    }));
+};
+
+/**
+ * Recall: lotes de producto terminado que usaron el lote de insumo indicado.
+ * Sin la trazabilidad de producción instalada no se puede saber, así que pide el script en lugar de responder vacío.
+ */
+export const fetchUsosLoteInsumo = async (loteInsumoId: string): Promise<UsoLoteInsumo[]> => {
+    console.log(`[${SERVICE_NAME}] Tracing product lots that used insumo lot ${loteInsumoId}.`);
+    const { data, error } = await supabase
+        .from('orden_produccion_consumos')
+        .select('cantidad, ordenes_produccion(numero, numero_lote, cantidad, completada_at, lote_id, productos(nombre), lotes!ordenes_produccion_lote_id_fkey(cantidad_actual))')
+        .eq('lote_insumo_id', loteInsumoId);
+
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error tracing insumo lot usage:`, error);
+        throw isMissingObject(error) ? lotesInsumoSqlError(error) : error;
+    }
+
+    return (data || []).map((c: any) => ({
+        ordenNumero: c.ordenes_produccion?.numero,
+        fechaProduccion: c.ordenes_produccion?.completada_at,
+        productoNombre: c.ordenes_produccion?.productos?.nombre || 'N/A',
+        loteId: c.ordenes_produccion?.lote_id,
+        numeroLote: c.ordenes_produccion?.numero_lote,
+        cantidadConsumida: Number(c.cantidad),
+        unidadesProducidas: c.ordenes_produccion?.cantidad || 0,
+        unidadesEnStock: c.ordenes_produccion?.lotes ? c.ordenes_produccion.lotes.cantidad_actual : null,
+    }));
+};
@@ -0,0 +1,333 @@
+import { supabase } from '../supabase';
+import { ExcepcionMargen, MargenesMinimos, ViolacionMargen } from '../types';
+import { HISTORIAL_PRECIOS_SQL } from './historialPreciosService';
+
+const SERVICE_NAME = 'MargenesService';
+
+// Los márgenes mínimos viven en ajustes_sistema, como los umbrales de categorías
+const CLAVE_LINEA = 'MARGEN_MIN_LINEA:';
+const CLAVE_LISTA = 'MARGEN_MIN_LISTA:';
+
+export const MARGENES_SQL = `${HISTORIAL_PRECIOS_SQL}
+
+-- Márgenes mínimos: recargo % sobre el costo unitario (mismo criterio que Estadísticas de Productos).
+-- Se configuran por línea (MARGEN_MIN_LINEA:<línea>) y por lista (MARGEN_MIN_LISTA:<id>) en ajustes_sistema;
+-- sin configuración el piso es el costo (0%).
+CREATE TABLE IF NOT EXISTS public.excepciones_margen (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    producto_id uuid NOT NULL REFERENCES public.productos(id) ON DELETE CASCADE,
+    lista_id uuid REFERENCES public.listas_de_precios(id) ON DELETE SET NULL,
+    nivel text NOT NULL,
+    precio numeric NOT NULL,
+    precio_minimo numeric NOT NULL,
+    costo_unitario numeric NOT NULL,
+    motivo text NOT NULL,
+    usuario_id uuid DEFAULT auth.uid(),
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+ALTER TABLE public.excepciones_margen ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Excepciones de margen visibles para autenticados" ON public.excepciones_margen;
+CREATE POLICY "Excepciones de margen visibles para autenticados" ON public.excepciones_margen FOR SELECT TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION public.margen_minimo_producto(p_producto_id uuid, p_lista_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT GREATEST(0,
+        COALESCE((SELECT NULLIF(trim(both '"' from a.valor::text), '')::numeric FROM ajustes_sistema a
+                  JOIN productos p ON a.clave = 'MARGEN_MIN_LINEA:' || p.linea WHERE p.id = p_producto_id), 0),
+        COALESCE((SELECT NULLIF(trim(both '"' from a.valor::text), '')::numeric FROM ajustes_sistema a
+                  WHERE p_lista_id IS NOT NULL AND a.clave = 'MARGEN_MIN_LISTA:' || p_lista_id::text), 0));
+$$;
+
+-- Habilita una excepción para el resto de la transacción. Sólo superadmin y con motivo.
+CREATE OR REPLACE FUNCTION public.habilitar_excepcion_margen(p_motivo text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_es_admin boolean;
+BEGIN
+    SELECT 'superadmin' = ANY(roles) INTO v_es_admin FROM public.profiles WHERE id = auth.uid();
+    IF NOT COALESCE(v_es_admin, false) AND auth.role() <> 'service_role' THEN
+        RAISE EXCEPTION 'Solo un superadmin puede autorizar precios por debajo del margen mínimo.';
+    END IF;
+    IF COALESCE(trim(p_motivo), '') = '' THEN
+        RAISE EXCEPTION 'Debe indicar un motivo para autorizar precios por debajo del margen mínimo.';
+    END IF;
+    PERFORM set_config('app.excepcion_margen', trim(p_motivo), true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.verificar_margen_minimo(p_producto_id uuid, p_lista_id uuid, p_nivel text, p_precio numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_costo numeric := costo_unitario_producto(p_producto_id);
+    v_minimo numeric;
+    v_motivo text := NULLIF(current_setting('app.excepcion_margen', true), '');
+BEGIN
+    -- Sin costo cargado (producto nuevo, sin fórmula ni lotes) no hay piso contra qué comparar
+    IF p_precio IS NULL OR v_costo <= 0 THEN
+        RETURN;
+    END IF;
+    v_minimo := round(v_costo * (1 + margen_minimo_producto(p_producto_id, p_lista_id) / 100), 2);
+    IF p_precio >= v_minimo THEN
+        RETURN;
+    END IF;
+
+    IF v_motivo IS NULL THEN
+        RAISE EXCEPTION 'Precio por debajo del margen mínimo: % $% (mínimo $%, costo $%).',
+            p_nivel, p_precio, v_minimo, round(v_costo, 2)
+            USING HINT = 'MARGEN_MINIMO';
+    END IF;
+    INSERT INTO excepciones_margen (producto_id, lista_id, nivel, precio, precio_minimo, costo_unitario, motivo)
+    VALUES (p_producto_id, p_lista_id, p_nivel, p_precio, v_minimo, v_costo, v_motivo);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.controlar_margen_minimo()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    -- Los cambios programados se validaron al programarlos; si el costo subió en el medio, no se frena el cron
+    IF current_setting('app.precios_programados', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_TABLE_NAME = 'productos' THEN
+        IF TG_OP = 'INSERT' OR NEW.precio_publico IS DISTINCT FROM OLD.precio_publico THEN
+            PERFORM verificar_margen_minimo(NEW.id, NULL, 'Público', NEW.precio_publico);
+        END IF;
+        IF TG_OP = 'INSERT' OR NEW.precio_comercio IS DISTINCT FROM OLD.precio_comercio THEN
+            PERFORM verificar_margen_minimo(NEW.id, NULL, 'Comercio', NEW.precio_comercio);
+        END IF;
+        IF TG_OP = 'INSERT' OR NEW.precio_mayorista IS DISTINCT FROM OLD.precio_mayorista THEN
+            PERFORM verificar_margen_minimo(NEW.id, NULL, 'Mayorista', NEW.precio_mayorista);
+        END IF;
+    ELSIF TG_TABLE_NAME = 'lista_precio_productos' THEN
+        IF TG_OP = 'INSERT' OR NEW.precio IS DISTINCT FROM OLD.precio THEN
+            PERFORM verificar_margen_minimo(NEW.producto_id, NEW.lista_id, 'Lista', NEW.precio);
+        END IF;
+    ELSIF NEW.estado = 'Programado' THEN
+        IF NEW.lista_id IS NULL THEN
+            PERFORM verificar_margen_minimo(NEW.producto_id, NULL, 'Público', NEW.precio_publico);
+            PERFORM verificar_margen_minimo(NEW.producto_id, NULL, 'Comercio', NEW.precio_comercio);
+            PERFORM verificar_margen_minimo(NEW.producto_id, NULL, 'Mayorista', NEW.precio_mayorista);
+        ELSE
+            PERFORM verificar_margen_minimo(NEW.producto_id, NEW.lista_id, 'Lista', NEW.precio);
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+DROP TRIGGER IF EXISTS trg_margen_minimo_producto ON public.productos;
+CREATE TRIGGER trg_margen_minimo_producto BEFORE INSERT OR UPDATE OF precio_publico, precio_comercio, precio_mayorista ON public.productos
+FOR EACH ROW EXECUTE FUNCTION public.controlar_margen_minimo();
+DROP TRIGGER IF EXISTS trg_margen_minimo_lista ON public.lista_precio_productos;
+CREATE TRIGGER trg_margen_minimo_lista BEFORE INSERT OR UPDATE OF precio ON public.lista_precio_productos
+FOR EACH ROW EXECUTE FUNCTION public.controlar_margen_minimo();
+DROP TRIGGER IF EXISTS trg_margen_minimo_programado ON public.versiones_precio;
+CREATE TRIGGER trg_margen_minimo_programado BEFORE INSERT OR UPDATE OF precio, precio_publico, precio_comercio, precio_mayorista, estado ON public.versiones_precio
+FOR EACH ROW WHEN (NEW.estado = 'Programado') EXECUTE FUNCTION public.controlar_margen_minimo();
+
+-- Guardado de precios base: aplica hoy o programa a futuro, con excepción opcional de superadmin
+CREATE OR REPLACE FUNCTION public.guardar_precios_producto(
+    p_producto_id uuid, p_precio_publico numeric, p_precio_comercio numeric, p_precio_mayorista numeric,
+    p_vigente_desde date DEFAULT current_date, p_motivo_excepcion text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF p_motivo_excepcion IS NOT NULL THEN
+        PERFORM habilitar_excepcion_margen(p_motivo_excepcion);
+    END IF;
+    IF COALESCE(p_vigente_desde, current_date) > current_date THEN
+        INSERT INTO versiones_precio (producto_id, precio_publico, precio_comercio, precio_mayorista, vigente_desde, estado, motivo)
+        VALUES (p_producto_id, p_precio_publico, p_precio_comercio, p_precio_mayorista, p_vigente_desde, 'Programado', p_motivo_excepcion);
+    ELSE
+        UPDATE productos SET precio_publico = p_precio_publico, precio_comercio = p_precio_comercio, precio_mayorista = p_precio_mayorista
+        WHERE id = p_producto_id;
+    END IF;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.guardar_precios_producto(uuid, numeric, numeric, numeric, date, text) TO authenticated;
+
+-- p_precios: [{producto_id, precio}]
+CREATE OR REPLACE FUNCTION public.guardar_precios_lista(
+    p_lista_id uuid, p_precios jsonb, p_vigente_desde date DEFAULT current_date, p_motivo_excepcion text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_item record;
+BEGIN
+    IF p_motivo_excepcion IS NOT NULL THEN
+        PERFORM habilitar_excepcion_margen(p_motivo_excepcion);
+    END IF;
+    FOR v_item IN SELECT * FROM jsonb_to_recordset(p_precios) AS x(producto_id uuid, precio numeric)
+    LOOP
+        IF COALESCE(p_vigente_desde, current_date) > current_date THEN
+            INSERT INTO versiones_precio (producto_id, lista_id, precio, vigente_desde, estado, motivo)
+            VALUES (v_item.producto_id, p_lista_id, v_item.precio, p_vigente_desde, 'Programado', p_motivo_excepcion);
+        ELSE
+            INSERT INTO lista_precio_productos (lista_id, producto_id, precio)
+            VALUES (p_lista_id, v_item.producto_id, v_item.precio)
+            ON CONFLICT (lista_id, producto_id) DO UPDATE SET precio = EXCLUDED.precio;
+        END IF;
+    END LOOP;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.guardar_precios_lista(uuid, jsonb, date, text) TO authenticated;`;
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('excepciones_margen');
+
+export const isMargenMinimoError = (error: any) =>
+    error?.hint === 'MARGEN_MINIMO' || error?.message?.startsWith('Precio por debajo del margen mínimo');
+
+const margenesSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Faltan los controles de margen mínimo.",
+    details: "Los precios por debajo del margen mínimo se rechazan en la base de datos, salvo que un superadmin autorice la excepción con un motivo.",
+    hint: "Ejecuta el script SQL de abajo (incluye el historial de precios) en el editor de Supabase.",
+    sql: MARGENES_SQL,
+});
+
+const rpcError = (error: any) => {
+    if (isMargenMinimoError(error) || error.code === 'P0001') return new Error(error.message);
+    return error;
+};
+
+export const fetchMargenesMinimos = async (): Promise<MargenesMinimos> => {
+    console.log(`[${SERVICE_NAME}] Fetching minimum margins.`);
+    const { data, error } = await supabase
+        .from('ajustes_sistema')
+        .select('clave, valor')
+        .like('clave', 'MARGEN_MIN_%');
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error fetching minimum margins:`, error);
+        throw error;
+    }
+    const margenes: MargenesMinimos = { porLinea: {}, porLista: {} };
+    for (const row of (data || []) as { clave: string; valor: any }[]) {
+        if (row.clave.startsWith(CLAVE_LINEA)) margenes.porLinea[row.clave.slice(CLAVE_LINEA.length)] = Number(row.valor) || 0;
+        else if (row.clave.startsWith(CLAVE_LISTA)) margenes.porLista[row.clave.slice(CLAVE_LISTA.length)] = Number(row.valor) || 0;
+    }
+    return margenes;
+};
+
+export const saveMargenesMinimos = async (margenes: MargenesMinimos): Promise<void> => {
+    const dataToUpsert = [
+        ...Object.entries(margenes.porLinea).map(([linea, valor]) => ({ clave: `${CLAVE_LINEA}${linea}`, valor })),
+        ...Object.entries(margenes.porLista).map(([listaId, valor]) => ({ clave: `${CLAVE_LISTA}${listaId}`, valor })),
+    ];
+    try {
+        const { error } = await supabase.from('ajustes_sistema').upsert(dataToUpsert);
+        if (error) throw error;
+    } catch (error: any) {
+        throw new Error(`No se pudieron guardar los márgenes mínimos: ${error?.message}`);
+    }
+};
+
+/** Margen mínimo que rige: el mayor entre el de la línea y el de la lista (nunca menos que el costo). */
+export const margenMinimoPara = (margenes: MargenesMinimos, linea: string | null, listaId: string | null): number =>
+    Math.max(0, (linea && margenes.porLinea[linea]) || 0, (listaId && margenes.porLista[listaId]) || 0);
+
+export const precioMinimo = (costoUnitario: number, margen: number) =>
+    Math.round(costoUnitario * (1 + margen / 100) * 100) / 100;
+
+export const verificarMargen = (
+    margenes: MargenesMinimos,
+    producto: { linea: string | null; costoUnitario: number },
+    listaId: string | null,
+    precios: { nivel: string; precio: number }[]
+): ViolacionMargen[] => {
+    // Igual que en la base: sin costo cargado no hay piso
+    if (!(producto.costoUnitario > 0)) return [];
+    const margen = margenMinimoPara(margenes, producto.linea, listaId);
+    const minimo = precioMinimo(producto.costoUnitario, margen);
+    return precios
+        .filter(p => p.precio < minimo)
+        .map(p => ({ nivel: p.nivel, precio: p.precio, minimo, margen, costoUnitario: producto.costoUnitario }));
+};
+
+/**
+ * Guarda los precios base (hoy o programados). La base rechaza precios bajo el margen mínimo
+ * salvo que se envíe motivoExcepcion y el usuario sea superadmin.
+ */
+export const guardarPreciosProducto = async (
+    productoId: string,
+    precios: { precioPublico: number; precioComercio: number; precioMayorista: number },
+    vigenteDesde: string,
+    motivoExcepcion?: string | null
+): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Saving base prices for product ${productoId}${motivoExcepcion ? ' with margin exception' : ''}.`);
+    const { error } = await (supabase.rpc as any)('guardar_precios_producto', {
+        p_producto_id: productoId,
+        p_precio_publico: precios.precioPublico,
+        p_precio_comercio: precios.precioComercio,
+        p_precio_mayorista: precios.precioMayorista,
+        p_vigente_desde: vigenteDesde,
+        p_motivo_excepcion: motivoExcepcion?.trim() || null,
+    });
+    if (!error) return;
+    console.error(`[${SERVICE_NAME}] Error saving base prices:`, error);
+    if (isMissingObject(error)) throw margenesSqlError(error);
+    throw rpcError(error);
+};
+
+export const guardarPreciosLista = async (
+    listaId: string,
+    precios: { productoId: string; precio: number }[],
+    vigenteDesde: string,
+    motivoExcepcion?: string | null
+): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Saving ${precios.length} prices for list ${listaId}${motivoExcepcion ? ' with margin exception' : ''}.`);
+    const { error } = await (supabase.rpc as any)('guardar_precios_lista', {
+        p_lista_id: listaId,
+        p_precios: precios.map(p => ({ producto_id: p.productoId, precio: p.precio })),
+        p_vigente_desde: vigenteDesde,
+        p_motivo_excepcion: motivoExcepcion?.trim() || null,
+    });
+    if (!error) return;
+    console.error(`[${SERVICE_NAME}] Error saving list prices:`, error);
+    if (isMissingObject(error)) throw margenesSqlError(error);
+    throw rpcError(error);
+};
+
+export const fetchExcepcionesMargen = async (limite = 20): Promise<ExcepcionMargen[]> => {
+    const { data, error } = await supabase
+        .from('excepciones_margen')
+        .select('*, productos(nombre), listas_de_precios(nombre)')
+        .order('created_at', { ascending: false })
+        .limit(limite);
+    if (error) {
+        if (isMissingObject(error)) throw margenesSqlError(error);
+        console.error(`[${SERVICE_NAME}] Error fetching margin exceptions:`, error);
+        throw error;
+    }
+    return (data || []).map((e: any) => ({
+        id: e.id,
+        productoNombre: e.productos?.nombre || '',
+        listaNombre: e.listas_de_precios?.nombre || null,
+        nivel: e.nivel,
+        precio: Number(e.precio),
+        precioMinimo: Number(e.precio_minimo),
+        costoUnitario: Number(e.costo_unitario),
+        motivo: e.motivo,
+        createdAt: e.created_at,
+    }));
+};
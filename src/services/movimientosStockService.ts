@@ -0,0 +1,264 @@
+import { supabase } from '../supabase';
+import { MovimientoStock } from '../types';
+import { LOTES_INSUMO_SQL } from './lotesInsumoService';
+
+const SERVICE_NAME = 'MovimientosStockService';
+
+/**
+ * Kardex: registro único de movimientos de stock de productos (lotes) e insumos (lotes_insumo).
+ * Lo alimentan triggers sobre las cantidades, así que ningún camino que mueva stock queda afuera.
+ * Las funciones que mueven stock indican tipo, referencia y motivo con set_config('app.movimiento_*', ..., true);
+ * sin esa información el movimiento queda como Alta / Ingreso / Egreso / Baja de lote.
+ * Solo se escribe desde los triggers (no hay políticas de INSERT/UPDATE/DELETE), así que no se puede editar a mano.
+ */
+export const MOVIMIENTOS_STOCK_SQL = `${LOTES_INSUMO_SQL}
+
+-- Registro de movimientos de stock
+CREATE TABLE IF NOT EXISTS public.movimientos_stock (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    fecha timestamptz NOT NULL DEFAULT now(),
+    tipo text NOT NULL,
+    producto_id uuid REFERENCES public.productos(id) ON DELETE CASCADE,
+    lote_id uuid REFERENCES public.lotes(id) ON DELETE SET NULL,
+    numero_lote text,
+    deposito_id uuid REFERENCES public.depositos(id) ON DELETE SET NULL,
+    cantidad numeric NOT NULL,
+    cantidad_anterior numeric,
+    cantidad_nueva numeric,
+    motivo text,
+    referencia_id uuid,
+    usuario_id uuid DEFAULT auth.uid(),
+    usuario_email text
+);
+ALTER TABLE public.movimientos_stock ALTER COLUMN producto_id DROP NOT NULL;
+ALTER TABLE public.movimientos_stock ADD COLUMN IF NOT EXISTS insumo_id uuid REFERENCES public.insumos(id) ON DELETE CASCADE;
+ALTER TABLE public.movimientos_stock ADD COLUMN IF NOT EXISTS lote_insumo_id uuid REFERENCES public.lotes_insumo(id) ON DELETE SET NULL;
+ALTER TABLE public.movimientos_stock ADD COLUMN IF NOT EXISTS referencia text;
+ALTER TABLE public.movimientos_stock ADD COLUMN IF NOT EXISTS transaccion bigint DEFAULT txid_current();
+-- Desempata movimientos de una misma transacción (comparten now())
+ALTER TABLE public.movimientos_stock ADD COLUMN IF NOT EXISTS secuencia bigint GENERATED ALWAYS AS IDENTITY;
+CREATE INDEX IF NOT EXISTS idx_movimientos_stock_lote ON public.movimientos_stock(lote_id);
+CREATE INDEX IF NOT EXISTS idx_movimientos_stock_producto_fecha ON public.movimientos_stock(producto_id, fecha);
+CREATE INDEX IF NOT EXISTS idx_movimientos_stock_lote_insumo ON public.movimientos_stock(lote_insumo_id);
+CREATE INDEX IF NOT EXISTS idx_movimientos_stock_insumo_fecha ON public.movimientos_stock(insumo_id, fecha);
+
+ALTER TABLE public.movimientos_stock ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Movimientos de stock visibles para usuarios autenticados" ON public.movimientos_stock;
+CREATE POLICY "Movimientos de stock visibles para usuarios autenticados" ON public.movimientos_stock FOR SELECT TO authenticated USING (true);
+
+-- Los movimientos ahora los registran los triggers
+DROP FUNCTION IF EXISTS public.registrar_movimiento_stock(text, uuid, numeric, text, uuid);
+
+-- Saldo inicial: lo que ya había en cada lote antes de empezar a registrar (o la diferencia con lo registrado)
+INSERT INTO public.movimientos_stock (fecha, tipo, producto_id, lote_id, numero_lote, deposito_id, cantidad, cantidad_anterior, cantidad_nueva, motivo)
+SELECT l.created_at, 'Saldo inicial', l.producto_id, l.id, l.numero_lote, l.deposito_id, l.cantidad_actual - COALESCE(m.total, 0), 0, l.cantidad_actual - COALESCE(m.total, 0), 'Stock previo al registro de movimientos'
+FROM public.lotes l
+LEFT JOIN (SELECT lote_id, SUM(cantidad) AS total FROM public.movimientos_stock WHERE lote_id IS NOT NULL GROUP BY lote_id) m ON m.lote_id = l.id
+WHERE l.cantidad_actual <> COALESCE(m.total, 0)
+  AND NOT EXISTS (SELECT 1 FROM public.movimientos_stock x WHERE x.lote_id = l.id AND x.tipo = 'Saldo inicial');
+
+INSERT INTO public.movimientos_stock (fecha, tipo, insumo_id, lote_insumo_id, numero_lote, cantidad, cantidad_anterior, cantidad_nueva, motivo)
+SELECT li.created_at, 'Saldo inicial', li.insumo_id, li.id, li.numero_lote, li.cantidad_actual - COALESCE(m.total, 0), 0, li.cantidad_actual - COALESCE(m.total, 0), 'Stock previo al registro de movimientos'
+FROM public.lotes_insumo li
+LEFT JOIN (SELECT lote_insumo_id, SUM(cantidad) AS total FROM public.movimientos_stock WHERE lote_insumo_id IS NOT NULL GROUP BY lote_insumo_id) m ON m.lote_insumo_id = li.id
+WHERE li.cantidad_actual <> COALESCE(m.total, 0)
+  AND NOT EXISTS (SELECT 1 FROM public.movimientos_stock x WHERE x.lote_insumo_id = li.id AND x.tipo = 'Saldo inicial');
+
+-- Tipo por defecto cuando la función que mueve el stock no lo indicó
+CREATE OR REPLACE FUNCTION public.tipo_movimiento_stock(p_operacion text, p_anterior numeric, p_nueva numeric)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN p_operacion = 'INSERT' THEN 'Alta de lote'
+        WHEN p_operacion = 'DELETE' THEN 'Baja de lote'
+        WHEN p_nueva > p_anterior THEN 'Ingreso'
+        ELSE 'Egreso'
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.registrar_movimiento_lote()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_lote record;
+    v_anterior numeric := 0;
+    v_nueva numeric := 0;
+    v_tipo text := NULLIF(current_setting('app.movimiento_tipo', true), '');
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        v_lote := OLD;
+        v_anterior := OLD.cantidad_actual;
+        -- Si se está borrando el producto, sus movimientos se borran en cascada
+        PERFORM 1 FROM productos WHERE id = OLD.producto_id;
+        IF NOT FOUND THEN
+            RETURN NULL;
+        END IF;
+    ELSE
+        v_lote := NEW;
+        v_nueva := NEW.cantidad_actual;
+        IF TG_OP = 'UPDATE' THEN
+            v_anterior := OLD.cantidad_actual;
+        END IF;
+    END IF;
+    IF v_nueva = v_anterior THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO movimientos_stock (tipo, producto_id, lote_id, numero_lote, deposito_id, cantidad, cantidad_anterior, cantidad_nueva, motivo, referencia, referencia_id, usuario_email)
+    VALUES (
+        COALESCE(v_tipo, tipo_movimiento_stock(TG_OP, v_anterior, v_nueva)),
+        v_lote.producto_id,
+        CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE v_lote.id END,
+        v_lote.numero_lote,
+        (SELECT id FROM depositos WHERE id = v_lote.deposito_id),
+        -- La reconstrucción deja constancia pero no suma: el saldo ya es el del kardex
+        CASE WHEN v_tipo = 'Reconstrucción' THEN 0 ELSE v_nueva - v_anterior END,
+        v_anterior,
+        v_nueva,
+        NULLIF(current_setting('app.movimiento_motivo', true), ''),
+        NULLIF(current_setting('app.movimiento_referencia', true), ''),
+        NULLIF(current_setting('app.movimiento_referencia_id', true), '')::uuid,
+        (SELECT email FROM auth.users WHERE id = auth.uid())
+    );
+    RETURN NULL;
+END;
+$$;
+DROP TRIGGER IF EXISTS trg_registrar_movimiento_lote ON public.lotes;
+CREATE TRIGGER trg_registrar_movimiento_lote AFTER INSERT OR DELETE OR UPDATE OF cantidad_actual ON public.lotes
+FOR EACH ROW EXECUTE FUNCTION public.registrar_movimiento_lote();
+
+CREATE OR REPLACE FUNCTION public.registrar_movimiento_lote_insumo()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_lote record;
+    v_anterior numeric := 0;
+    v_nueva numeric := 0;
+    v_tipo text := NULLIF(current_setting('app.movimiento_tipo', true), '');
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        v_lote := OLD;
+        v_anterior := OLD.cantidad_actual;
+        PERFORM 1 FROM insumos WHERE id = OLD.insumo_id;
+        IF NOT FOUND THEN
+            RETURN NULL;
+        END IF;
+    ELSE
+        v_lote := NEW;
+        v_nueva := NEW.cantidad_actual;
+        IF TG_OP = 'UPDATE' THEN
+            v_anterior := OLD.cantidad_actual;
+        END IF;
+    END IF;
+    IF v_nueva = v_anterior THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO movimientos_stock (tipo, insumo_id, lote_insumo_id, numero_lote, cantidad, cantidad_anterior, cantidad_nueva, motivo, referencia, referencia_id, usuario_email)
+    VALUES (
+        COALESCE(v_tipo, tipo_movimiento_stock(TG_OP, v_anterior, v_nueva)),
+        v_lote.insumo_id,
+        CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE v_lote.id END,
+        v_lote.numero_lote,
+        CASE WHEN v_tipo = 'Reconstrucción' THEN 0 ELSE v_nueva - v_anterior END,
+        v_anterior,
+        v_nueva,
+        NULLIF(current_setting('app.movimiento_motivo', true), ''),
+        NULLIF(current_setting('app.movimiento_referencia', true), ''),
+        NULLIF(current_setting('app.movimiento_referencia_id', true), '')::uuid,
+        (SELECT email FROM auth.users WHERE id = auth.uid())
+    );
+    RETURN NULL;
+END;
+$$;
+DROP TRIGGER IF EXISTS trg_registrar_movimiento_lote_insumo ON public.lotes_insumo;
+CREATE TRIGGER trg_registrar_movimiento_lote_insumo AFTER INSERT OR DELETE OR UPDATE OF cantidad_actual ON public.lotes_insumo
+FOR EACH ROW EXECUTE FUNCTION public.registrar_movimiento_lote_insumo();
+
+-- eliminar_venta_y_restaurar_stock no indica el tipo y puede reponer el stock antes o después de borrar los ítems:
+-- al borrar cada ítem se etiquetan los ingresos ya registrados de su lote en esta transacción y los que vengan después.
+CREATE OR REPLACE FUNCTION public.etiquetar_movimientos_venta_eliminada()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_referencia text := 'Venta ' || upper(left(OLD.venta_id::text, 8));
+BEGIN
+    UPDATE movimientos_stock SET tipo = 'Venta eliminada', referencia = v_referencia, referencia_id = OLD.venta_id
+    WHERE transaccion = txid_current() AND lote_id = OLD.lote_id AND tipo = 'Ingreso' AND referencia_id IS NULL;
+
+    PERFORM set_config('app.movimiento_tipo', 'Venta eliminada', true);
+    PERFORM set_config('app.movimiento_referencia', v_referencia, true);
+    PERFORM set_config('app.movimiento_referencia_id', OLD.venta_id::text, true);
+    RETURN OLD;
+END;
+$$;
+DROP TRIGGER IF EXISTS trg_etiquetar_movimientos_venta_eliminada ON public.venta_items;
+CREATE TRIGGER trg_etiquetar_movimientos_venta_eliminada BEFORE DELETE ON public.venta_items
+FOR EACH ROW EXECUTE FUNCTION public.etiquetar_movimientos_venta_eliminada();`;
+
+
+export interface FiltroMovimientos {
+    productoId?: string;
+    loteId?: string;
+    insumoId?: string;
+    loteInsumoId?: string;
+    depositoId?: string;
+    desde?: string;
+    hasta?: string;
+}
+
+export const mapMovimientoStock = (m: any): MovimientoStock => ({
+    id: m.id,
+    fecha: m.fecha,
+    tipo: m.tipo,
+    productoId: m.producto_id,
+    insumoId: m.insumo_id || null,
+    productoNombre: m.productos?.nombre || m.insumos?.nombre || 'N/A',
+    loteId: m.lote_id,
+    loteInsumoId: m.lote_insumo_id || null,
+    numeroLote: m.numero_lote,
+    depositoNombre: m.depositos?.nombre || 'N/A',
+    cantidad: Number(m.cantidad),
+    cantidadAnterior: m.cantidad_anterior === null ? null : Number(m.cantidad_anterior),
+    cantidadNueva: m.cantidad_nueva === null ? null : Number(m.cantidad_nueva),
+    motivo: m.motivo,
+    referencia: m.referencia || null,
+    referenciaId: m.referencia_id,
+    usuarioEmail: m.usuario_email,
+});
+
+/**
+ * Últimos movimientos registrados. Si la tabla todavía no existe se devuelve vacío:
+ * la instalan los módulos que generan movimientos (p. ej. los conteos de inventario).
+ */
+export const fetchMovimientosStock = async (filtro: FiltroMovimientos = {}, limite = 200): Promise<MovimientoStock[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching stock movements.`, filtro);
+    let query = supabase
+        .from('movimientos_stock')
+        .select('*, productos(nombre), insumos(nombre), depositos(nombre)')
+        .order('fecha', { ascending: false })
+        .limit(limite);
+    if (filtro.productoId) query = query.eq('producto_id', filtro.productoId);
+    if (filtro.loteId) query = query.eq('lote_id', filtro.loteId);
+    if (filtro.insumoId) query = query.eq('insumo_id', filtro.insumoId);
+    if (filtro.loteInsumoId) query = query.eq('lote_insumo_id', filtro.loteInsumoId);
+    if (filtro.depositoId) query = query.eq('deposito_id', filtro.depositoId);
+    if (filtro.desde) query = query.gte('fecha', filtro.desde);
+    if (filtro.hasta) query = query.lte('fecha', `${filtro.hasta}T23:59:59`);
+
+    const { data, error } = await query;
+    if (error) {
+        console.warn(`[${SERVICE_NAME}] Could not load stock movements:`, error.message);
+        return [];
+    }
+
+    return (data || []).map(mapMovimientoStock);
+};
@@ -0,0 +1,334 @@
+import { supabase } from '../supabase';
+import { NecesidadInsumo, OrdenProduccion } from '../types';
+import { LOTES_INSUMO_SQL } from './lotesInsumoService';
+
+const SERVICE_NAME = 'ProduccionService';
+
+const PRODUCCION_SQL = `-- Órdenes de producción: reservan los insumos de la fórmula (productos_insumos) y al completarse
+-- los descuentan y crean el lote de producto terminado con su costo real.
+CREATE TABLE IF NOT EXISTS public.ordenes_produccion (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    numero bigint GENERATED ALWAYS AS IDENTITY,
+    producto_id uuid NOT NULL REFERENCES public.productos(id) ON DELETE RESTRICT,
+    cantidad integer NOT NULL CHECK (cantidad > 0),
+    numero_lote text NOT NULL,
+    fecha_vencimiento date,
+    costo_laboratorio numeric NOT NULL DEFAULT 0,
+    costo_insumos numeric,
+    estado text NOT NULL DEFAULT 'Planificada' CHECK (estado IN ('Planificada', 'Completada', 'Cancelada')),
+    lote_id uuid REFERENCES public.lotes(id) ON DELETE SET NULL,
+    notas text,
+    usuario_id uuid DEFAULT auth.uid(),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    completada_at timestamptz
+);
+
+-- Mientras la orden está Planificada, cantidad es la reserva; al completarse queda como consumo real.
+-- lote_insumo resume los lotes consumidos; el detalle está en orden_produccion_consumos.
+CREATE TABLE IF NOT EXISTS public.orden_produccion_insumos (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    orden_id uuid NOT NULL REFERENCES public.ordenes_produccion(id) ON DELETE CASCADE,
+    insumo_id uuid NOT NULL REFERENCES public.insumos(id) ON DELETE RESTRICT,
+    cantidad numeric NOT NULL CHECK (cantidad > 0),
+    costo_unitario numeric,
+    lote_insumo text
+);
+CREATE INDEX IF NOT EXISTS idx_orden_produccion_insumos_insumo ON public.orden_produccion_insumos(insumo_id);
+
+${LOTES_INSUMO_SQL}
+
+-- Trazabilidad: qué lote de insumo (y cuánto) entró en cada orden y, por ella, en cada lote terminado
+CREATE TABLE IF NOT EXISTS public.orden_produccion_consumos (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    orden_id uuid NOT NULL REFERENCES public.ordenes_produccion(id) ON DELETE CASCADE,
+    insumo_id uuid NOT NULL REFERENCES public.insumos(id) ON DELETE RESTRICT,
+    lote_insumo_id uuid NOT NULL REFERENCES public.lotes_insumo(id) ON DELETE RESTRICT,
+    cantidad numeric NOT NULL CHECK (cantidad > 0),
+    costo_unitario numeric NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_orden_produccion_consumos_lote_insumo ON public.orden_produccion_consumos(lote_insumo_id);
+ALTER TABLE public.orden_produccion_consumos ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Consumos de produccion visibles para usuarios autenticados" ON public.orden_produccion_consumos;
+CREATE POLICY "Consumos de produccion visibles para usuarios autenticados" ON public.orden_produccion_consumos FOR SELECT TO authenticated USING (true);
+
+ALTER TABLE public.lotes ADD COLUMN IF NOT EXISTS costo_insumos numeric;
+ALTER TABLE public.lotes ADD COLUMN IF NOT EXISTS orden_produccion_id uuid REFERENCES public.ordenes_produccion(id) ON DELETE SET NULL;
+
+ALTER TABLE public.ordenes_produccion ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.orden_produccion_insumos ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Ordenes de produccion para usuarios autenticados" ON public.ordenes_produccion;
+CREATE POLICY "Ordenes de produccion para usuarios autenticados" ON public.ordenes_produccion FOR ALL TO authenticated USING (true) WITH CHECK (true);
+DROP POLICY IF EXISTS "Insumos de produccion visibles para usuarios autenticados" ON public.orden_produccion_insumos;
+CREATE POLICY "Insumos de produccion visibles para usuarios autenticados" ON public.orden_produccion_insumos FOR SELECT TO authenticated USING (true);
+
+-- Insumos comprometidos por órdenes Planificadas
+CREATE OR REPLACE VIEW public.insumos_reservados AS
+SELECT opi.insumo_id, SUM(opi.cantidad) AS cantidad
+FROM orden_produccion_insumos opi
+JOIN ordenes_produccion op ON op.id = opi.orden_id
+WHERE op.estado = 'Planificada'
+GROUP BY opi.insumo_id;
+GRANT SELECT ON public.insumos_reservados TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.crear_orden_produccion(p_producto_id uuid, p_cantidad integer, p_numero_lote text, p_fecha_vencimiento date, p_costo_laboratorio numeric, p_notas text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_orden_id uuid;
+    v_faltantes text;
+BEGIN
+    IF COALESCE(p_cantidad, 0) <= 0 OR COALESCE(p_numero_lote, '') = '' THEN
+        RAISE EXCEPTION 'Indica la cantidad a producir y el número de lote.';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM productos_insumos WHERE producto_id = p_producto_id) THEN
+        RAISE EXCEPTION 'El producto no tiene insumos cargados en su fórmula.';
+    END IF;
+
+    -- Bloquea los insumos de la fórmula para que dos órdenes no reserven el mismo stock
+    PERFORM 1 FROM insumos WHERE id IN (SELECT insumo_id FROM productos_insumos WHERE producto_id = p_producto_id) FOR UPDATE;
+
+    -- Solo cuenta el stock de lotes sin vencer: es lo que después puede consumir la orden
+    SELECT string_agg(format('%s (faltan %s %s)', i.nombre, round(pi.cantidad * p_cantidad - (v.stock - COALESCE(r.cantidad, 0)), 2), i.unidad), ', ')
+    INTO v_faltantes
+    FROM productos_insumos pi
+    JOIN insumos i ON i.id = pi.insumo_id
+    CROSS JOIN LATERAL (
+        SELECT COALESCE(SUM(li.cantidad_actual), 0) AS stock
+        FROM lotes_insumo li
+        WHERE li.insumo_id = pi.insumo_id
+          AND (li.fecha_vencimiento IS NULL OR li.fecha_vencimiento >= current_date)
+    ) v
+    LEFT JOIN insumos_reservados r ON r.insumo_id = pi.insumo_id
+    WHERE pi.producto_id = p_producto_id
+      AND pi.cantidad * p_cantidad > v.stock - COALESCE(r.cantidad, 0);
+    IF v_faltantes IS NOT NULL THEN
+        RAISE EXCEPTION 'Insumos insuficientes: %', v_faltantes;
+    END IF;
+
+    INSERT INTO ordenes_produccion (producto_id, cantidad, numero_lote, fecha_vencimiento, costo_laboratorio, notas)
+    VALUES (p_producto_id, p_cantidad, p_numero_lote, p_fecha_vencimiento, COALESCE(p_costo_laboratorio, 0), NULLIF(p_notas, ''))
+    RETURNING id INTO v_orden_id;
+
+    INSERT INTO orden_produccion_insumos (orden_id, insumo_id, cantidad)
+    SELECT v_orden_id, insumo_id, cantidad * p_cantidad
+    FROM productos_insumos
+    WHERE producto_id = p_producto_id AND cantidad > 0;
+
+    RETURN v_orden_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.completar_orden_produccion(p_orden_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_orden record;
+    v_dep_id uuid;
+    v_costo_insumos numeric;
+    v_lote_id uuid;
+    v_linea record;
+BEGIN
+    SELECT * INTO v_orden FROM ordenes_produccion WHERE id = p_orden_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'La orden de producción no existe.';
+    END IF;
+    IF v_orden.estado <> 'Planificada' THEN
+        RAISE EXCEPTION 'La orden ya está %.', v_orden.estado;
+    END IF;
+
+    SELECT id INTO v_dep_id FROM depositos WHERE es_predeterminado = TRUE LIMIT 1;
+    IF v_dep_id IS NULL THEN
+        RAISE EXCEPTION 'No hay depósito predeterminado.';
+    END IF;
+    IF EXISTS (SELECT 1 FROM lotes WHERE producto_id = v_orden.producto_id AND numero_lote = v_orden.numero_lote) THEN
+        RAISE EXCEPTION 'Ya existe el lote % para este producto: cambia el número de lote de la orden.', v_orden.numero_lote;
+    END IF;
+
+    -- Tipo y referencia para el kardex
+    PERFORM set_config('app.movimiento_tipo', 'Consumo de producción', true);
+    PERFORM set_config('app.movimiento_referencia', 'OP #' || v_orden.numero, true);
+    PERFORM set_config('app.movimiento_referencia_id', p_orden_id::text, true);
+
+    -- Consume cada insumo por FEFO y guarda de qué lotes salió y a qué costo real
+    FOR v_linea IN SELECT * FROM orden_produccion_insumos WHERE orden_id = p_orden_id LOOP
+        INSERT INTO orden_produccion_consumos (orden_id, insumo_id, lote_insumo_id, cantidad, costo_unitario)
+        SELECT p_orden_id, v_linea.insumo_id, c.lote_insumo_id, c.cantidad_consumida, c.costo_lote
+        FROM consumir_insumo_fefo(v_linea.insumo_id, v_linea.cantidad) c;
+    END LOOP;
+
+    UPDATE orden_produccion_insumos opi SET
+        costo_unitario = t.costo,
+        lote_insumo = t.lotes
+    FROM (
+        SELECT c.insumo_id, SUM(c.cantidad * c.costo_unitario) / SUM(c.cantidad) AS costo, string_agg(DISTINCT li.numero_lote, ', ') AS lotes
+        FROM orden_produccion_consumos c
+        JOIN lotes_insumo li ON li.id = c.lote_insumo_id
+        WHERE c.orden_id = p_orden_id
+        GROUP BY c.insumo_id
+    ) t
+    WHERE opi.orden_id = p_orden_id AND opi.insumo_id = t.insumo_id;
+
+    SELECT ROUND(COALESCE(SUM(cantidad * costo_unitario), 0) / v_orden.cantidad, 4) INTO v_costo_insumos
+    FROM orden_produccion_insumos WHERE orden_id = p_orden_id;
+
+    PERFORM set_config('app.movimiento_tipo', 'Producción', true);
+    INSERT INTO lotes (producto_id, numero_lote, cantidad_inicial, cantidad_actual, fecha_vencimiento, costo_laboratorio, costo_insumos, orden_produccion_id, deposito_id)
+    VALUES (v_orden.producto_id, v_orden.numero_lote, v_orden.cantidad, v_orden.cantidad, v_orden.fecha_vencimiento, v_orden.costo_laboratorio, v_costo_insumos, p_orden_id, v_dep_id)
+    RETURNING id INTO v_lote_id;
+
+    UPDATE ordenes_produccion SET estado = 'Completada', costo_insumos = v_costo_insumos, lote_id = v_lote_id, completada_at = now()
+    WHERE id = p_orden_id;
+
+    RETURN v_lote_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.crear_orden_produccion(uuid, integer, text, date, numeric, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.completar_orden_produccion(uuid) TO authenticated;`;
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('ordenes_produccion') ||
+    error?.message?.includes('insumos_reservados') ||
+    error?.message?.includes('orden_produccion_consumos') ||
+    error?.message?.includes('Could not find the function');
+
+const produccionSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Faltan las tablas o funciones de órdenes de producción.",
+    details: "Las órdenes de producción reservan los insumos de la fórmula del producto y, al completarse, los descuentan y crean el lote terminado.",
+    hint: "Ejecuta el script SQL de abajo.",
+    sql: PRODUCCION_SQL,
+});
+
+const handleError = (error: any, context: string): never => {
+    console.error(`[${SERVICE_NAME}] Error ${context}:`, error);
+    if (isMissingObject(error)) throw produccionSqlError(error);
+    if (error.code === 'P0001') {
+        throw { ...error, message: `No se pudo ${context}: ${error.message}` };
+    }
+    throw error;
+};
+
+/**
+ * Insumos que requiere producir `cantidad` unidades según la fórmula del producto,
+ * con lo disponible (lotes sin vencer) descontando lo ya reservado por otras órdenes planificadas.
+ */
+export const calcularNecesidadInsumos = async (productoId: string, cantidad: number): Promise<NecesidadInsumo[]> => {
+    console.log(`[${SERVICE_NAME}] Calculating insumo requirements for product ${productoId} x${cantidad}.`);
+    const { data, error } = await supabase
+        .from('productos_insumos')
+        .select('insumo_id, cantidad, insumos(nombre, unidad, costo, lotes_insumo(cantidad_actual, fecha_vencimiento))')
+        .eq('producto_id', productoId);
+    if (error) handleError(error, 'cargar la fórmula del producto');
+
+    const { data: reservas, error: resError } = await supabase.from('insumos_reservados').select('*');
+    if (resError) handleError(resError, 'cargar las reservas de insumos');
+    const reservado = (reservas || []).reduce((acc: Record<string, number>, r: any) => {
+        acc[r.insumo_id] = Number(r.cantidad);
+        return acc;
+    }, {});
+
+    const hoy = new Date().toISOString().split('T')[0];
+    return (data || []).map((pi: any) => {
+        // Los lotes vencidos no se pueden consumir, así que no cuentan como stock
+        const stock = (pi.insumos?.lotes_insumo || [])
+            .filter((l: any) => !l.fecha_vencimiento || l.fecha_vencimiento >= hoy)
+            .reduce((sum: number, l: any) => sum + Number(l.cantidad_actual || 0), 0);
+        return {
+            insumoId: pi.insumo_id,
+            insumoNombre: pi.insumos?.nombre || 'N/A',
+            unidad: pi.insumos?.unidad || 'unidades',
+            cantidadPorUnidad: Number(pi.cantidad),
+            requerido: Number(pi.cantidad) * cantidad,
+            stock,
+            reservado: reservado[pi.insumo_id] || 0,
+            disponible: stock - (reservado[pi.insumo_id] || 0),
+            costoUnitario: Number(pi.insumos?.costo || 0),
+        };
+    });
+};
+
+export const fetchOrdenesProduccion = async (): Promise<OrdenProduccion[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching production orders.`);
+    const { data, error } = await supabase
+        .from('ordenes_produccion')
+        .select('*, productos(nombre), orden_produccion_insumos(insumo_id, cantidad, costo_unitario, lote_insumo, insumos(nombre, unidad))')
+        .order('numero', { ascending: false });
+    if (error) handleError(error, 'cargar las órdenes de producción');
+
+    return (data || []).map((op: any) => ({
+        id: op.id,
+        numero: op.numero,
+        productoId: op.producto_id,
+        productoNombre: op.productos?.nombre || 'N/A',
+        cantidad: op.cantidad,
+        numeroLote: op.numero_lote,
+        fechaVencimiento: op.fecha_vencimiento,
+        costoLaboratorio: Number(op.costo_laboratorio),
+        costoInsumos: op.costo_insumos === null ? null : Number(op.costo_insumos),
+        estado: op.estado,
+        loteId: op.lote_id,
+        notas: op.notas,
+        fecha: op.created_at,
+        fechaCompletada: op.completada_at,
+        insumos: (op.orden_produccion_insumos || []).map((i: any) => ({
+            insumoId: i.insumo_id,
+            insumoNombre: i.insumos?.nombre || 'N/A',
+            unidad: i.insumos?.unidad || 'unidades',
+            cantidad: Number(i.cantidad),
+            costoUnitario: i.costo_unitario === null ? null : Number(i.costo_unitario),
+            loteInsumo: i.lote_insumo,
+        })),
+    }));
+};
+
+export interface NuevaOrdenProduccion {
+    productoId: string;
+    cantidad: number;
+    numeroLote: string;
+    fechaVencimiento: string;
+    costoLaboratorio: number;
+    notas: string;
+}
+
+/** Crea la orden Planificada y reserva los insumos. Falla si alguno no alcanza. */
+export const crearOrdenProduccion = async (orden: NuevaOrdenProduccion): Promise<string> => {
+    console.log(`[${SERVICE_NAME}] Creating production order for product ${orden.productoId}.`);
+    const { data, error } = await (supabase.rpc as any)('crear_orden_produccion', {
+        p_producto_id: orden.productoId,
+        p_cantidad: orden.cantidad,
+        p_numero_lote: orden.numeroLote,
+        p_fecha_vencimiento: orden.fechaVencimiento || null,
+        p_costo_laboratorio: orden.costoLaboratorio,
+        p_notas: orden.notas,
+    });
+    if (error) handleError(error, 'crear la orden de producción');
+    return data as string;
+};
+
+/** Descuenta los insumos reservados y crea el lote terminado. Devuelve el id del lote. */
+export const completarOrdenProduccion = async (ordenId: string): Promise<string> => {
+    console.log(`[${SERVICE_NAME}] Completing production order ${ordenId}.`);
+    const { data, error } = await (supabase.rpc as any)('completar_orden_produccion', { p_orden_id: ordenId });
+    if (error) handleError(error, 'completar la orden de producción');
+    return data as string;
+};
+
+/** Libera la reserva de insumos de una orden Planificada. */
+export const cancelarOrdenProduccion = async (ordenId: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Cancelling production order ${ordenId}.`);
+    const { data, error } = await (supabase.from('ordenes_produccion') as any)
+        .update({ estado: 'Cancelada' })
+        .eq('id', ordenId)
+        .eq('estado', 'Planificada')
+        .select('id');
+    if (error) handleError(error, 'cancelar la orden de producción');
+    if (!data || data.length === 0) {
+        throw new Error('La orden ya no está Planificada.');
+    }
+};
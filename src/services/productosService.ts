@@ -2,6 +2,9 @@
 import { supabase } from '../supabase';
 import { Producto, Lote, SimpleProducto, StockPorDeposito } from '../types';
 import { PostgrestError } from '@supabase/supabase-js';
+import { fetchStockReservadoPorProducto } from './reservasService';
+import { fetchStockDisponibleOnline } from './depositosService';
+import { fetchLotesRetenidos } from './calidadService';
 
 const SERVICE_NAME = 'ProductosService';
 
@@ -24,6 +27,10 @@ export const fetchProductosConStock = async (): Promise<Producto[]> => {
         // The RPC likely returns snake_case keys that need to be mapped to the camelCase Producto interface.
         // It's assumed the RPC handles the aggregation of stock and grouping of lots.
         // FIX: Add mapping for new dynamic pricing fields.
+        const [reservados, retenidos] = await Promise.all([fetchStockReservadoPorProducto(), fetchLotesRetenidos()]);
+        const conEstadoCalidad = (lotes: any[] = []) =>
+            lotes.map(l => (retenidos[l.id] ? { ...l, estado_calidad: retenidos[l.id] } : l));
+
         const transformedProductos: Producto[] = data.map((p: any) => ({
             id: p.id,
             nombre: p.nombre,
@@ -44,8 +51,9 @@ export const fetchProductosConStock = async (): Promise<Producto[]> => {
             productsPerBox: p.products_per_box,
             stock: p.stock_total ?? 0,
             stockTotal: p.stock_total ?? 0,
-            lotes: p.lotes || [],
-            stockPorDeposito: p.stock_por_deposito || [],
+            stockReservado: reservados[p.id] || 0,
+            lotes: conEstadoCalidad(p.lotes),
+            stockPorDeposito: (p.stock_por_deposito || []).map((d: any) => ({ ...d, lotes: conEstadoCalidad(d.lotes) })),
             insumos: [], // This was empty in the original function as well.
             // FIX: Add 'imagenesGaleria' to satisfy the updated Producto interface and fix type errors in consuming components.
             imagenesGaleria: p.imagenes_galeria || [],
@@ -224,7 +232,11 @@ $function$;`
     }
 };
 
-export const fetchPublicProductsList = async (): Promise<Partial<Producto>[]> => {
+/**
+ * Lista de la tienda pública. stockTotal es solo el stock de los depósitos que despachan la tienda
+ * (queda sin definir si el script de depósitos no está instalado).
+ */
+export const fetchPublicProductsList = async (tienda: string | null = null): Promise<Partial<Producto>[]> => {
     console.log(`[${SERVICE_NAME}] Fetching public products list.`);
     try {
         // FIX: Select new columns needed for dynamic pricing.
@@ -237,6 +249,8 @@ export const fetchPublicProductsList = async (): Promise<Partial<Producto>[]> =>
             throw error;
         }
 
+        const stockOnline = await fetchStockDisponibleOnline(tienda);
+
         // FIX: Map new columns to the returned object.
         return (data || []).map(p => ({
             id: p.id,
@@ -250,6 +264,7 @@ export const fetchPublicProductsList = async (): Promise<Partial<Producto>[]> =>
             codigoBarras: p.codigo_barras,
             cantidadMinimaComercio: p.cantidad_minima_comercio,
             cantidadMinimaMayorista: p.cantidad_minima_mayorista,
+            stockTotal: stockOnline ? stockOnline.get(p.id) || 0 : undefined,
         }));
     } catch (error: any) {
         console.error(`[${SERVICE_NAME}] Error fetching public products. Raw error:`, JSON.stringify(error, null, 2));
@@ -0,0 +1,390 @@
+import { supabase } from '../supabase';
+import { CanalVenta, Cotizacion, LineaCotizada, MedioPagoRegla, OrderItem, Producto, PromoLote, ReglaAplicada, ReglaPrecio } from '../types';
+
+const SERVICE_NAME = 'ReglasPrecioService';
+
+export const CANALES_VENTA: CanalVenta[] = ['Tienda online', 'Portal clientes', 'Venta interna'];
+
+export const MEDIOS_PAGO_REGLA: { value: MedioPagoRegla; label: string }[] = [
+    { value: 'mercadopago', label: 'Mercado Pago' },
+    { value: 'transferencia', label: 'Transferencia' },
+    { value: 'nave', label: 'Nave' },
+    { value: 'efectivo', label: 'Efectivo' },
+];
+
+const REGLA_VACIA: Omit<ReglaPrecio, 'id' | 'nombre' | 'prioridad' | 'accion' | 'alcance'> = {
+    activa: true,
+    nivelPrecio: null,
+    porcentaje: null,
+    cantidadMinima: null,
+    montoMinimo: null,
+    mediosPago: [],
+    listaPrecioIds: [],
+    lineas: [],
+    canales: [],
+    fechaDesde: null,
+    fechaHasta: null,
+    exclusiva: false,
+};
+
+// Mismo comportamiento que tenían las tiendas antes de las reglas configurables.
+// Se usan si la tabla no existe y son las que siembra el script SQL.
+export const REGLAS_PREDETERMINADAS: ReglaPrecio[] = [
+    {
+        ...REGLA_VACIA, id: 'predeterminada-mayorista', nombre: 'Precio mayorista por cantidad', prioridad: 10,
+        accion: 'Nivel de precio', alcance: 'Línea', nivelPrecio: 'Mayorista', canales: ['Tienda online', 'Portal clientes'],
+    },
+    {
+        ...REGLA_VACIA, id: 'predeterminada-comercio', nombre: 'Precio comercio por cantidad', prioridad: 20,
+        accion: 'Nivel de precio', alcance: 'Línea', nivelPrecio: 'Comercio', canales: ['Tienda online', 'Portal clientes'],
+    },
+    {
+        ...REGLA_VACIA, id: 'predeterminada-transferencia', nombre: 'Descuento por transferencia', prioridad: 100,
+        accion: 'Descuento %', alcance: 'Pedido', porcentaje: 15, mediosPago: ['transferencia'], canales: ['Tienda online'],
+    },
+    {
+        ...REGLA_VACIA, id: 'predeterminada-mercadopago', nombre: 'Descuento Mercado Pago', prioridad: 110,
+        accion: 'Descuento %', alcance: 'Pedido', porcentaje: 10, mediosPago: ['mercadopago'], canales: ['Tienda online'],
+    },
+];
+
+// También lo incluye el script de ventas: crear_venta cotiza los pedidos de la tienda con estas reglas.
+export const REGLAS_PRECIO_SQL = `-- Reglas de precio: niveles por cantidad y descuentos por monto, medio de pago, lista, línea, canal y fechas
+CREATE TABLE IF NOT EXISTS public.reglas_precio (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    nombre text NOT NULL,
+    activa boolean NOT NULL DEFAULT true,
+    prioridad integer NOT NULL DEFAULT 100,
+    accion text NOT NULL CHECK (accion IN ('Nivel de precio', 'Descuento %')),
+    alcance text NOT NULL DEFAULT 'Línea' CHECK (alcance IN ('Línea', 'Pedido')),
+    nivel_precio text CHECK (nivel_precio IN ('Comercio', 'Mayorista')),
+    porcentaje numeric CHECK (porcentaje > 0 AND porcentaje < 100),
+    cantidad_minima integer CHECK (cantidad_minima > 0),
+    monto_minimo numeric CHECK (monto_minimo > 0),
+    medios_pago text[] NOT NULL DEFAULT '{}',
+    lista_precio_ids uuid[] NOT NULL DEFAULT '{}',
+    lineas text[] NOT NULL DEFAULT '{}',
+    canales text[] NOT NULL DEFAULT '{}',
+    fecha_desde date,
+    fecha_hasta date,
+    exclusiva boolean NOT NULL DEFAULT false,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    CHECK (accion <> 'Nivel de precio' OR (alcance = 'Línea' AND nivel_precio IS NOT NULL)),
+    CHECK (accion <> 'Descuento %' OR porcentaje IS NOT NULL),
+    CHECK (fecha_hasta IS NULL OR fecha_desde IS NULL OR fecha_hasta >= fecha_desde)
+);
+
+ALTER TABLE public.reglas_precio ENABLE ROW LEVEL SECURITY;
+-- Las tiendas públicas calculan precios sin iniciar sesión
+DROP POLICY IF EXISTS "Reglas de precio visibles para todos" ON public.reglas_precio;
+CREATE POLICY "Reglas de precio visibles para todos" ON public.reglas_precio FOR SELECT TO anon, authenticated USING (true);
+DROP POLICY IF EXISTS "Reglas de precio editables por usuarios autenticados" ON public.reglas_precio;
+CREATE POLICY "Reglas de precio editables por usuarios autenticados" ON public.reglas_precio FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Reglas equivalentes a los precios por cantidad y descuentos del checkout que estaban fijos en el código
+INSERT INTO public.reglas_precio (nombre, prioridad, accion, alcance, nivel_precio, porcentaje, medios_pago, canales)
+SELECT * FROM (VALUES
+    ('Precio mayorista por cantidad', 10, 'Nivel de precio', 'Línea', 'Mayorista', NULL::numeric, '{}'::text[], '{"Tienda online","Portal clientes"}'::text[]),
+    ('Precio comercio por cantidad', 20, 'Nivel de precio', 'Línea', 'Comercio', NULL::numeric, '{}'::text[], '{"Tienda online","Portal clientes"}'::text[]),
+    ('Descuento por transferencia', 100, 'Descuento %', 'Pedido', NULL, 15, '{transferencia}'::text[], '{"Tienda online"}'::text[]),
+    ('Descuento Mercado Pago', 110, 'Descuento %', 'Pedido', NULL, 10, '{mercadopago}'::text[], '{"Tienda online"}'::text[])
+) AS v(nombre, prioridad, accion, alcance, nivel_precio, porcentaje, medios_pago, canales)
+WHERE NOT EXISTS (SELECT 1 FROM public.reglas_precio);`;
+
+const isMissingObject = (error: any) =>
+    ['42P01', '42703', 'PGRST205'].includes(error?.code) || error?.message?.includes('reglas_precio');
+
+const reglasSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Falta la tabla de reglas de precio.",
+    details: "Mientras no exista, las tiendas usan las reglas predeterminadas (precio comercio/mayorista por cantidad, 15% por transferencia y 10% con Mercado Pago).",
+    hint: "Ejecuta el script SQL de abajo.",
+    sql: REGLAS_PRECIO_SQL,
+});
+
+const mapRegla = (r: any): ReglaPrecio => ({
+    id: r.id,
+    nombre: r.nombre,
+    activa: r.activa,
+    prioridad: r.prioridad,
+    accion: r.accion,
+    alcance: r.alcance,
+    nivelPrecio: r.nivel_precio,
+    porcentaje: r.porcentaje === null ? null : Number(r.porcentaje),
+    cantidadMinima: r.cantidad_minima,
+    montoMinimo: r.monto_minimo === null ? null : Number(r.monto_minimo),
+    mediosPago: r.medios_pago || [],
+    listaPrecioIds: r.lista_precio_ids || [],
+    lineas: r.lineas || [],
+    canales: r.canales || [],
+    fechaDesde: r.fecha_desde,
+    fechaHasta: r.fecha_hasta,
+    exclusiva: r.exclusiva,
+});
+
+const toRow = (regla: Omit<ReglaPrecio, 'id'>) => ({
+    nombre: regla.nombre.trim(),
+    activa: regla.activa,
+    prioridad: regla.prioridad,
+    accion: regla.accion,
+    alcance: regla.accion === 'Nivel de precio' ? 'Línea' : regla.alcance,
+    nivel_precio: regla.accion === 'Nivel de precio' ? regla.nivelPrecio : null,
+    porcentaje: regla.accion === 'Descuento %' ? regla.porcentaje : null,
+    cantidad_minima: regla.cantidadMinima || null,
+    monto_minimo: regla.montoMinimo || null,
+    medios_pago: regla.mediosPago,
+    lista_precio_ids: regla.listaPrecioIds,
+    lineas: regla.lineas,
+    canales: regla.canales,
+    fecha_desde: regla.fechaDesde || null,
+    fecha_hasta: regla.fechaHasta || null,
+    exclusiva: regla.exclusiva,
+});
+
+const queryReglas = () => supabase
+    .from('reglas_precio')
+    .select('*')
+    .order('prioridad', { ascending: true });
+
+/** Todas las reglas, activas o no, por prioridad. Sin la tabla creada devuelve las predeterminadas. */
+export const fetchReglasPrecio = async (): Promise<ReglaPrecio[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching pricing rules.`);
+    const { data, error } = await queryReglas();
+    if (error) {
+        if (isMissingObject(error)) {
+            console.warn(`[${SERVICE_NAME}] Pricing rules table not installed, using the built-in rules.`);
+            return REGLAS_PREDETERMINADAS;
+        }
+        console.error(`[${SERVICE_NAME}] Error fetching pricing rules:`, error);
+        throw error;
+    }
+    return (data || []).map(mapRegla);
+};
+
+/** Para la pantalla de gestión: a diferencia de fetchReglasPrecio, pide crear la tabla si falta. */
+export const fetchReglasPrecioGestion = async (): Promise<ReglaPrecio[]> => {
+    const { data, error } = await queryReglas();
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error fetching pricing rules:`, error);
+        if (isMissingObject(error)) throw reglasSqlError(error);
+        throw error;
+    }
+    return (data || []).map(mapRegla);
+};
+
+export const saveReglaPrecio = async (regla: Omit<ReglaPrecio, 'id'>, id?: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Saving pricing rule "${regla.nombre}".`);
+    const query = id
+        ? (supabase.from('reglas_precio') as any).update(toRow(regla)).eq('id', id)
+        : (supabase.from('reglas_precio') as any).insert(toRow(regla));
+    const { error } = await query;
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error saving pricing rule:`, error);
+        if (isMissingObject(error)) throw reglasSqlError(error);
+        if (error.code === '23514') throw new Error('La regla no es válida: revisa el porcentaje, el nivel de precio y las fechas.');
+        throw error;
+    }
+};
+
+export const deleteReglaPrecio = async (id: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Deleting pricing rule ${id}.`);
+    const { error } = await supabase.from('reglas_precio').delete().eq('id', id);
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error deleting pricing rule:`, error);
+        if (isMissingObject(error)) throw reglasSqlError(error);
+        throw error;
+    }
+};
+
+// --- Motor de precios ---
+
+export type ProductoCotizable = Partial<Pick<Producto, 'nombre' | 'linea' | 'precioComercio' | 'precioMayorista' | 'cantidadMinimaComercio' | 'cantidadMinimaMayorista'>>;
+
+export interface LineaACotizar {
+    productoId: string;
+    cantidad: number;
+    // Precio de partida: el público o el de la lista del cliente
+    precioBase: number;
+    producto: ProductoCotizable;
+}
+
+export interface LineaPedido {
+    productoId: string;
+    linea?: string | null;
+    cantidad: number;
+    total: number;
+}
+
+export interface ContextoPrecio {
+    canal: CanalVenta;
+    medioPago?: MedioPagoRegla | null;
+    listaPrecioId?: string | null;
+    // YYYY-MM-DD; hoy si no se indica
+    fecha?: string;
+    // Promos de lotes por vencer por producto, la de mayor descuento primero. Se aplican después de las
+    // reglas y solo a las unidades que le quedan a cada lote.
+    descuentosProducto?: Record<string, PromoLote[]>;
+}
+
+const redondear = (n: number) => Math.round(n * 100) / 100;
+
+/** Precio de una unidad del lote promocionado. crear_venta redondea igual al cotizar los pedidos de la tienda. */
+export const precioConPromo = (precio: number, descuentoPct: number) => Math.round(precio * (100 - descuentoPct)) / 100;
+const formatPrecio = (n: number) => `$${n.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const cumpleContexto = (r: ReglaPrecio, ctx: ContextoPrecio, fecha: string) =>
+    r.activa &&
+    (r.canales.length === 0 || r.canales.includes(ctx.canal)) &&
+    (r.mediosPago.length === 0 || (!!ctx.medioPago && r.mediosPago.includes(ctx.medioPago))) &&
+    (r.listaPrecioIds.length === 0 || (!!ctx.listaPrecioId && r.listaPrecioIds.includes(ctx.listaPrecioId))) &&
+    (!r.fechaDesde || fecha >= r.fechaDesde) &&
+    (!r.fechaHasta || fecha <= r.fechaHasta);
+
+const aplicaALinea = (r: ReglaPrecio, linea?: string | null) => r.lineas.length === 0 || (!!linea && r.lineas.includes(linea));
+
+const reglasVigentes = (reglas: ReglaPrecio[], ctx: ContextoPrecio, alcance: ReglaPrecio['alcance']) => {
+    const fecha = ctx.fecha || new Date().toISOString().split('T')[0];
+    return reglas
+        .filter(r => r.alcance === alcance && cumpleContexto(r, ctx, fecha))
+        .sort((a, b) => a.prioridad - b.prioridad);
+};
+
+// `subtotalBase` (a precio de partida) es contra lo que se compara el monto mínimo de las reglas de línea
+const cotizarLinea = (l: LineaACotizar, reglas: ReglaPrecio[], ctx: ContextoPrecio, subtotalBase: number): LineaCotizada => {
+    let precio = l.precioBase;
+    let nivelAplicado = false;
+    const aplicadas: ReglaAplicada[] = [];
+
+    for (const r of reglas) {
+        if (!aplicaALinea(r, l.producto.linea)) continue;
+        if (r.montoMinimo && subtotalBase < r.montoMinimo) continue;
+        const anterior = precio;
+        let detalle: string;
+        if (r.accion === 'Nivel de precio') {
+            // Un solo nivel por línea, y solo si baja el precio
+            if (nivelAplicado || !r.nivelPrecio) continue;
+            const precioNivel = (r.nivelPrecio === 'Mayorista' ? l.producto.precioMayorista : l.producto.precioComercio) || 0;
+            const minimo = r.cantidadMinima || (r.nivelPrecio === 'Mayorista' ? l.producto.cantidadMinimaMayorista : l.producto.cantidadMinimaComercio);
+            if (!minimo || l.cantidad < minimo || precioNivel <= 0 || precioNivel >= precio) continue;
+            precio = precioNivel;
+            nivelAplicado = true;
+            detalle = `precio ${r.nivelPrecio.toLowerCase()} desde ${minimo} u.`;
+        } else {
+            if (!r.porcentaje || (r.cantidadMinima && l.cantidad < r.cantidadMinima)) continue;
+            precio = redondear(precio * (100 - r.porcentaje) / 100);
+            detalle = `${r.porcentaje}% de descuento`;
+        }
+        aplicadas.push({ reglaId: r.id, nombre: r.nombre, detalle, monto: redondear((anterior - precio) * l.cantidad) });
+        if (r.exclusiva) break;
+    }
+
+    // Cada promo alcanza como máximo a las unidades de su lote; el resto se cobra sin promo
+    let total = redondear(precio * l.cantidad);
+    let sinPromo = l.cantidad;
+    for (const promo of ctx.descuentosProducto?.[l.productoId] || []) {
+        const unidades = Math.min(sinPromo, promo.unidades);
+        if (unidades <= 0 || promo.descuentoPct <= 0) continue;
+        const rebaja = redondear((precio - precioConPromo(precio, promo.descuentoPct)) * unidades);
+        total = redondear(total - rebaja);
+        sinPromo -= unidades;
+        aplicadas.push({ reglaId: 'promo-vencimiento', nombre: 'Promo por vencimiento', detalle: `${promo.descuentoPct}% en ${unidades} u. del lote próximo a vencer`, monto: rebaja });
+    }
+
+    return {
+        productoId: l.productoId,
+        cantidad: l.cantidad,
+        precioBase: l.precioBase,
+        precioSinPromo: precio,
+        precioUnitario: sinPromo === l.cantidad ? precio : redondear(total / l.cantidad),
+        total,
+        reglas: aplicadas,
+    };
+};
+
+/**
+ * Aplica las reglas de alcance Pedido sobre líneas ya cotizadas. Si una regla se limita a ciertas
+ * líneas de producto, el descuento (y su cantidad y monto mínimos) se calcula solo sobre esas líneas.
+ * Los descuentos se encadenan: cada uno se aplica sobre lo que dejó el anterior.
+ */
+export const cotizarPedido = (lineas: LineaPedido[], reglas: ReglaPrecio[], ctx: ContextoPrecio): Omit<Cotizacion, 'lineas'> => {
+    const subtotal = redondear(lineas.reduce((sum, l) => sum + l.total, 0));
+    const restantes = lineas.map(l => l.total);
+    const reglasPedido: ReglaAplicada[] = [];
+
+    for (const r of reglasVigentes(reglas, ctx, 'Pedido')) {
+        if (r.accion !== 'Descuento %' || !r.porcentaje) continue;
+        const indices = lineas.map((l, i) => (aplicaALinea(r, l.linea) ? i : -1)).filter(i => i >= 0);
+        if (indices.length === 0) continue;
+        const unidades = indices.reduce((sum, i) => sum + lineas[i].cantidad, 0);
+        const monto = indices.reduce((sum, i) => sum + lineas[i].total, 0);
+        if ((r.cantidadMinima && unidades < r.cantidadMinima) || (r.montoMinimo && monto < r.montoMinimo)) continue;
+
+        let descuento = 0;
+        indices.forEach(i => {
+            const rebaja = restantes[i] * r.porcentaje! / 100;
+            restantes[i] -= rebaja;
+            descuento += rebaja;
+        });
+        reglasPedido.push({ reglaId: r.id, nombre: r.nombre, detalle: `${r.porcentaje}% sobre ${r.lineas.length > 0 ? r.lineas.join(', ') : 'el pedido'}`, monto: redondear(descuento) });
+        if (r.exclusiva) break;
+    }
+
+    const descuentoPedido = redondear(reglasPedido.reduce((sum, r) => sum + r.monto, 0));
+    return {
+        subtotal,
+        reglasPedido,
+        descuentoPedido,
+        total: redondear(subtotal - descuentoPedido),
+        explicacion: reglasPedido.map(r => `${r.nombre} (${r.detalle}): -${formatPrecio(r.monto)}`),
+    };
+};
+
+/**
+ * Lleva los ítems del carrito al importe a cobrar (ya con descuentos de pedido y cupón) para las
+ * pasarelas, que no aceptan líneas negativas. El descuento se prorratea sobre los precios unitarios y
+ * los centavos del redondeo se ajustan separando una unidad del último ítem.
+ */
+export const ajustarItemsAlTotal = (items: OrderItem[], totalItems: number): OrderItem[] => {
+    const bruto = items.reduce((sum, i) => sum + i.lineTotal, 0);
+    const objetivo = redondear(Math.max(totalItems, 0));
+    // Con promo en parte de las unidades el precio unitario es un promedio: también hay que ajustarlo
+    const exactos = items.every(i => redondear(i.unitPrice * i.quantity) === redondear(i.lineTotal));
+    if (items.length === 0 || bruto <= 0 || (exactos && redondear(bruto) === objetivo)) return items;
+
+    const factor = objetivo / bruto;
+    const ajustados = items.map(i => {
+        const unitPrice = redondear(i.lineTotal / i.quantity * factor);
+        return { ...i, unitPrice, lineTotal: redondear(unitPrice * i.quantity) };
+    });
+    const diferencia = redondear(objetivo - ajustados.reduce((sum, i) => sum + i.lineTotal, 0));
+    if (diferencia === 0) return ajustados;
+
+    const ultimo = ajustados[ajustados.length - 1];
+    const unidadAjustada = { ...ultimo, quantity: 1, unitPrice: redondear(ultimo.unitPrice + diferencia), lineTotal: redondear(ultimo.unitPrice + diferencia) };
+    return ultimo.quantity > 1
+        ? [...ajustados.slice(0, -1), { ...ultimo, quantity: ultimo.quantity - 1, lineTotal: redondear(ultimo.unitPrice * (ultimo.quantity - 1)) }, unidadAjustada]
+        : [...ajustados.slice(0, -1), unidadAjustada];
+};
+
+/**
+ * Motor de precios: cotiza cada línea con las reglas de alcance Línea (por prioridad) y después
+ * aplica las de alcance Pedido. Devuelve qué reglas se aplicaron y cuánto rebajó cada una.
+ */
+export const cotizar = (lineas: LineaACotizar[], reglas: ReglaPrecio[], ctx: ContextoPrecio): Cotizacion => {
+    const subtotalBase = lineas.reduce((sum, l) => sum + l.precioBase * l.cantidad, 0);
+    const reglasLinea = reglasVigentes(reglas, ctx, 'Línea');
+    const cotizadas = lineas.map(l => cotizarLinea(l, reglasLinea, ctx, subtotalBase));
+    const pedido = cotizarPedido(
+        cotizadas.map((c, i) => ({ productoId: c.productoId, linea: lineas[i].producto.linea, cantidad: c.cantidad, total: c.total })),
+        reglas,
+        ctx
+    );
+    const explicacionLineas = cotizadas.flatMap((c, i) =>
+        c.reglas.map(r => `${lineas[i].producto.nombre || 'Producto'}: ${r.nombre} (${r.detalle})`)
+    );
+    return { lineas: cotizadas, ...pedido, explicacion: [...explicacionLineas, ...pedido.explicacion] };
+};
+
+/** Precio unitario de un producto para una cantidad, sin reglas de pedido. Para listados y carritos. */
+export const cotizarLineaUnica = (linea: LineaACotizar, reglas: ReglaPrecio[], ctx: ContextoPrecio): LineaCotizada =>
+    cotizarLinea(linea, reglasVigentes(reglas, ctx, 'Línea'), ctx, linea.precioBase * linea.cantidad);
@@ -0,0 +1,257 @@
+import { supabase } from '../supabase';
+import {
+    CampoPrecioRemarcable, EstrategiaRemarcacion, ParametrosRemarcacion, ProductoRemarcable,
+    PropuestaRemarcacion, RedondeoPrecio,
+} from '../types';
+import { fetchProductStatistics } from './estadisticasService';
+import { fetchAllProducts, fetchProductosDeLista } from './preciosService';
+import { MARGENES_SQL } from './margenesService';
+
+const SERVICE_NAME = 'RemarcacionService';
+
+export const ESTRATEGIAS_REMARCACION: { value: EstrategiaRemarcacion; label: string; descripcion: string }[] = [
+    { value: 'Porcentaje', label: 'Aumento %', descripcion: 'Suma (o resta, con valor negativo) un porcentaje a los precios actuales.' },
+    { value: 'Costo más margen', label: 'Costo + margen', descripcion: 'Recalcula cada precio como costo unitario más un recargo % sobre el costo.' },
+    { value: 'Proporción del público', label: 'Proporción del público', descripcion: 'Deriva los demás precios del precio público actual, con una proporción por nivel.' },
+    { value: 'Dólar', label: 'Seguir al dólar', descripcion: 'Ajusta los precios en la misma proporción en que cambió la cotización del dólar desde la última remarcación.' },
+];
+
+export const REDONDEOS_PRECIO: { value: RedondeoPrecio; label: string }[] = [
+    { value: 'Terminado en 990', label: 'Terminado en 990 (ej. $12.990)' },
+    { value: 'Terminado en 90', label: 'Terminado en 90 (ej. $12.490)' },
+    { value: 'Centena', label: 'A la centena (ej. $12.500)' },
+    { value: 'Sin redondeo', label: 'Sin redondeo' },
+];
+
+export const CAMPOS_BASE: CampoPrecioRemarcable[] = ['precioPublico', 'precioComercio', 'precioMayorista'];
+export const CAMPOS_LISTA: CampoPrecioRemarcable[] = ['precio'];
+
+export const ETIQUETAS_CAMPO: Record<CampoPrecioRemarcable, string> = {
+    precioPublico: 'Público',
+    precioComercio: 'Comercio',
+    precioMayorista: 'Mayorista',
+    precio: 'Lista',
+};
+
+const REMARCACION_SQL = `${MARGENES_SQL}
+
+-- Remarcación masiva: todos los precios en una sola transacción, o ninguno.
+-- p_precios: [{producto_id, precio_publico, precio_comercio, precio_mayorista, precio, anterior: {...mismos campos}}]
+DROP FUNCTION IF EXISTS public.aplicar_remarcacion(uuid, jsonb, date, text);
+CREATE OR REPLACE FUNCTION public.aplicar_remarcacion(p_lista_id uuid, p_precios jsonb, p_vigente_desde date, p_motivo text, p_motivo_excepcion text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_item jsonb;
+    v_producto_id uuid;
+    v_actual record;
+    v_actual_lista numeric;
+    v_programar boolean := COALESCE(p_vigente_desde, current_date) > current_date;
+    v_total integer := 0;
+BEGIN
+    IF jsonb_typeof(p_precios) <> 'array' OR jsonb_array_length(p_precios) = 0 THEN
+        RAISE EXCEPTION 'No hay precios para remarcar.';
+    END IF;
+    -- Los precios bajo el margen mínimo los frenan los triggers, salvo excepción autorizada
+    IF p_motivo_excepcion IS NOT NULL THEN
+        PERFORM habilitar_excepcion_margen(p_motivo_excepcion);
+    END IF;
+
+    -- Las versiones se registran acá con el motivo; los triggers del historial no duplican
+    PERFORM set_config('app.aplicando_precios', 'on', true);
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_precios)
+    LOOP
+        v_producto_id := (v_item->>'producto_id')::uuid;
+
+        -- Si alguien cambió el precio después de la vista previa, se cancela todo para no pisarlo
+        IF p_lista_id IS NULL THEN
+            SELECT id, nombre, precio_publico, precio_comercio, precio_mayorista INTO v_actual
+            FROM productos WHERE id = v_producto_id FOR UPDATE;
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'El producto % ya no existe.', v_producto_id;
+            END IF;
+            IF COALESCE(v_actual.precio_publico, 0) IS DISTINCT FROM (v_item->'anterior'->>'precio_publico')::numeric
+               OR COALESCE(v_actual.precio_comercio, 0) IS DISTINCT FROM (v_item->'anterior'->>'precio_comercio')::numeric
+               OR COALESCE(v_actual.precio_mayorista, 0) IS DISTINCT FROM (v_item->'anterior'->>'precio_mayorista')::numeric THEN
+                RAISE EXCEPTION 'Los precios de "%" cambiaron desde la vista previa. Volvé a calcularla.', v_actual.nombre;
+            END IF;
+
+            IF NOT v_programar THEN
+                UPDATE productos SET
+                    precio_publico = (v_item->>'precio_publico')::numeric,
+                    precio_comercio = (v_item->>'precio_comercio')::numeric,
+                    precio_mayorista = (v_item->>'precio_mayorista')::numeric
+                WHERE id = v_producto_id;
+            END IF;
+            INSERT INTO versiones_precio (producto_id, precio_publico, precio_comercio, precio_mayorista, costo_unitario, vigente_desde, estado, motivo, aplicado_en)
+            VALUES (v_producto_id, (v_item->>'precio_publico')::numeric, (v_item->>'precio_comercio')::numeric, (v_item->>'precio_mayorista')::numeric,
+                    costo_unitario_producto(v_producto_id), COALESCE(p_vigente_desde, current_date),
+                    CASE WHEN v_programar THEN 'Programado' ELSE 'Aplicado' END, p_motivo,
+                    CASE WHEN v_programar THEN NULL ELSE now() END);
+        ELSE
+            SELECT lp.precio INTO v_actual_lista
+            FROM lista_precio_productos lp WHERE lp.lista_id = p_lista_id AND lp.producto_id = v_producto_id FOR UPDATE;
+            IF FOUND AND v_actual_lista IS DISTINCT FROM (v_item->'anterior'->>'precio')::numeric THEN
+                RAISE EXCEPTION 'El precio de lista de % cambió desde la vista previa. Volvé a calcularla.', (SELECT nombre FROM productos WHERE id = v_producto_id);
+            END IF;
+
+            IF NOT v_programar THEN
+                INSERT INTO lista_precio_productos (lista_id, producto_id, precio)
+                VALUES (p_lista_id, v_producto_id, (v_item->>'precio')::numeric)
+                ON CONFLICT (lista_id, producto_id) DO UPDATE SET precio = EXCLUDED.precio;
+            END IF;
+            INSERT INTO versiones_precio (producto_id, lista_id, precio, costo_unitario, vigente_desde, estado, motivo, aplicado_en)
+            VALUES (v_producto_id, p_lista_id, (v_item->>'precio')::numeric, costo_unitario_producto(v_producto_id),
+                    COALESCE(p_vigente_desde, current_date), CASE WHEN v_programar THEN 'Programado' ELSE 'Aplicado' END, p_motivo,
+                    CASE WHEN v_programar THEN NULL ELSE now() END);
+        END IF;
+        v_total := v_total + 1;
+    END LOOP;
+
+    PERFORM set_config('app.aplicando_precios', 'off', true);
+    RETURN v_total;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.aplicar_remarcacion(uuid, jsonb, date, text, text) TO authenticated;`;
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', 'PGRST202'].includes(error?.code) ||
+    error?.message?.includes('aplicar_remarcacion') ||
+    error?.message?.includes('versiones_precio');
+
+/**
+ * Trae los productos con su costo unitario (mismo cálculo que las estadísticas de rentabilidad)
+ * y, si se elige una lista, el precio que tienen cargado en ella.
+ */
+export const fetchProductosRemarcables = async (listaId: string | null): Promise<ProductoRemarcable[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching products to reprice${listaId ? ` for list ${listaId}` : ''}.`);
+    const [estadisticas, productos, preciosLista] = await Promise.all([
+        fetchProductStatistics(),
+        fetchAllProducts(),
+        listaId ? fetchProductosDeLista(listaId) : Promise.resolve([]),
+    ]);
+    const lineas = new Map(productos.map(p => [p.id, p.linea]));
+    const preciosMap = new Map(preciosLista.map(item => [item.productoId, Number(item.precio)]));
+
+    return estadisticas
+        .map(e => ({
+            id: e.id,
+            nombre: e.nombre,
+            linea: lineas.get(e.id) || null,
+            costoUnitario: e.costoTotalUnitario,
+            precioPublico: e.precioPublico,
+            precioComercio: e.precioComercio,
+            precioMayorista: e.precioMayorista,
+            precio: listaId ? (preciosMap.get(e.id) ?? e.precioPublico) : null,
+        }))
+        .sort((a, b) => a.nombre.localeCompare(b.nombre));
+};
+
+/**
+ * Redondeo "psicológico". Al más cercano: 12.340 → 11.990, 12.600 → 12.990. Hacia arriba, al primer
+ * terminado que no quede por debajo del valor (12.340 → 12.990), que es lo que usan los aumentos.
+ */
+export const redondearPrecio = (valor: number, redondeo: RedondeoPrecio, haciaArriba = false): number => {
+    if (!(valor > 0)) return 0;
+    const ajustar = haciaArriba ? Math.ceil : Math.round;
+    switch (redondeo) {
+        case 'Terminado en 990':
+            // Precios chicos no llegan a 990: se terminan en 90
+            if (valor >= 1000) return Math.max(990, ajustar((valor + 10) / 1000) * 1000 - 10);
+            return redondearPrecio(valor, 'Terminado en 90', haciaArriba);
+        case 'Terminado en 90':
+            return Math.max(90, ajustar((valor + 10) / 100) * 100 - 10);
+        case 'Centena':
+            return Math.max(100, ajustar(valor / 100) * 100);
+        default:
+            return Math.round(valor * 100) / 100;
+    }
+};
+
+const calcularCampo = (producto: ProductoRemarcable, campo: CampoPrecioRemarcable, params: ParametrosRemarcacion): number => {
+    const actual = producto[campo] ?? 0;
+    switch (params.estrategia) {
+        case 'Porcentaje':
+            return actual * (1 + params.porcentaje / 100);
+        case 'Costo más margen':
+            // Sin costo cargado no hay de dónde calcular: se mantiene el precio
+            return producto.costoUnitario > 0 ? producto.costoUnitario * (1 + (params.margenes[campo] || 0) / 100) : actual;
+        case 'Proporción del público':
+            return campo === 'precioPublico' ? actual : producto.precioPublico * (params.proporciones[campo] || 0);
+        case 'Dólar':
+            return params.dolarReferencia > 0 ? actual * (params.dolarActual / params.dolarReferencia) : actual;
+    }
+};
+
+export const calcularRemarcacion = (
+    productos: ProductoRemarcable[],
+    campos: CampoPrecioRemarcable[],
+    params: ParametrosRemarcacion
+): PropuestaRemarcacion[] => productos.map(p => {
+    const actual: PropuestaRemarcacion['actual'] = {};
+    const nuevo: PropuestaRemarcacion['nuevo'] = {};
+    campos.forEach(campo => {
+        actual[campo] = p[campo] ?? 0;
+        const calculado = calcularCampo(p, campo, params);
+        // Con la proporción, el público queda como está (sin re-redondear). Un aumento redondea hacia arriba
+        // para que el terminado no lo deje por debajo del precio actual.
+        nuevo[campo] = params.estrategia === 'Proporción del público' && campo === 'precioPublico'
+            ? p.precioPublico
+            : redondearPrecio(calculado, params.redondeo, calculado >= actual[campo]!);
+    });
+    return { productoId: p.id, productoNombre: p.nombre, linea: p.linea, costoUnitario: p.costoUnitario, actual, nuevo };
+});
+
+/** Algún precio queda por debajo del actual: en la vista previa se marca para revisarlo. */
+export const propuestaBaja = (propuesta: PropuestaRemarcacion) =>
+    Object.keys(propuesta.nuevo).some(campo =>
+        (propuesta.nuevo[campo as CampoPrecioRemarcable] ?? 0) < (propuesta.actual[campo as CampoPrecioRemarcable] ?? 0));
+
+export const propuestaCambia = (propuesta: PropuestaRemarcacion) =>
+    Object.keys(propuesta.nuevo).some(campo =>
+        propuesta.nuevo[campo as CampoPrecioRemarcable] !== propuesta.actual[campo as CampoPrecioRemarcable]);
+
+/**
+ * Aplica (o programa, con fecha futura) la remarcación en una sola transacción.
+ * Si algún precio cambió desde la vista previa o queda bajo el margen mínimo sin excepción, no se aplica ninguno.
+ */
+export const aplicarRemarcacion = async (
+    listaId: string | null,
+    propuestas: PropuestaRemarcacion[],
+    vigenteDesde: string,
+    motivo: string,
+    motivoExcepcion?: string | null
+): Promise<number> => {
+    console.log(`[${SERVICE_NAME}] Applying repricing of ${propuestas.length} products${listaId ? ` in list ${listaId}` : ''} from ${vigenteDesde}.`);
+    const aFila = (precios: PropuestaRemarcacion['actual']) => ({
+        precio_publico: precios.precioPublico ?? null,
+        precio_comercio: precios.precioComercio ?? null,
+        precio_mayorista: precios.precioMayorista ?? null,
+        precio: precios.precio ?? null,
+    });
+    const { data, error } = await (supabase.rpc as any)('aplicar_remarcacion', {
+        p_lista_id: listaId,
+        p_precios: propuestas.map(p => ({ producto_id: p.productoId, ...aFila(p.nuevo), anterior: aFila(p.actual) })),
+        p_vigente_desde: vigenteDesde,
+        p_motivo: motivo.trim() || null,
+        p_motivo_excepcion: motivoExcepcion?.trim() || null,
+    });
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error applying repricing:`, error);
+        if (isMissingObject(error)) {
+            throw {
+                ...error,
+                message: "Error de base de datos: Falta la función 'aplicar_remarcacion' (o su versión con márgenes mínimos).",
+                details: "La remarcación masiva guarda todos los precios en una sola transacción y deja registro en el historial de precios.",
+                hint: "Ejecuta el script SQL de abajo (incluye el historial de precios y los márgenes mínimos) en el editor de Supabase.",
+                sql: REMARCACION_SQL,
+            };
+        }
+        if (error.code === 'P0001') throw new Error(error.message);
+        throw error;
+    }
+    return Number(data) || 0;
+};
@@ -0,0 +1,449 @@
+import jsPDF from 'jspdf';
+import { supabase } from '../supabase';
+import { EstadoRemitoTransferencia, RemitoTransferencia } from '../types';
+
+const SERVICE_NAME = 'RemitosTransferenciaService';
+
+const REMITOS_TRANSFERENCIA_SQL = `-- Remitos de transferencia entre depósitos (varios lotes por documento, con mercadería en tránsito)
+CREATE TABLE IF NOT EXISTS public.remitos_transferencia (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    numero bigint GENERATED ALWAYS AS IDENTITY,
+    deposito_origen_id uuid NOT NULL REFERENCES public.depositos(id) ON DELETE RESTRICT,
+    deposito_destino_id uuid NOT NULL REFERENCES public.depositos(id) ON DELETE RESTRICT,
+    estado text NOT NULL DEFAULT 'Preparado' CHECK (estado IN ('Preparado', 'En tránsito', 'Recibido parcial', 'Recibido', 'Recibido con diferencias', 'Anulado')),
+    transportista text,
+    notas text,
+    motivo_diferencias text,
+    usuario_id uuid DEFAULT auth.uid(),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    despachado_at timestamptz,
+    despachado_por uuid,
+    recibido_at timestamptz,
+    recibido_por uuid,
+    CHECK (deposito_origen_id <> deposito_destino_id)
+);
+
+-- Se copian número de lote, vencimiento y costo: el lote de destino se crea recién al recibir
+CREATE TABLE IF NOT EXISTS public.remito_transferencia_items (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    remito_id uuid NOT NULL REFERENCES public.remitos_transferencia(id) ON DELETE CASCADE,
+    lote_origen_id uuid REFERENCES public.lotes(id) ON DELETE SET NULL,
+    producto_id uuid NOT NULL REFERENCES public.productos(id) ON DELETE RESTRICT,
+    numero_lote text NOT NULL,
+    fecha_vencimiento date,
+    costo_laboratorio numeric NOT NULL DEFAULT 0,
+    cantidad integer NOT NULL CHECK (cantidad > 0),
+    cantidad_recibida integer NOT NULL DEFAULT 0 CHECK (cantidad_recibida >= 0),
+    lote_destino_id uuid REFERENCES public.lotes(id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.remitos_transferencia ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.remito_transferencia_items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Remitos de transferencia visibles para usuarios autenticados" ON public.remitos_transferencia;
+CREATE POLICY "Remitos de transferencia visibles para usuarios autenticados" ON public.remitos_transferencia FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Items de remitos de transferencia visibles para usuarios autenticados" ON public.remito_transferencia_items;
+CREATE POLICY "Items de remitos de transferencia visibles para usuarios autenticados" ON public.remito_transferencia_items FOR SELECT TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION public.crear_remito_transferencia(p_deposito_origen_id uuid, p_deposito_destino_id uuid, p_items jsonb, p_transportista text DEFAULT NULL, p_notas text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_remito_id uuid;
+    v_item jsonb;
+    v_lote record;
+    v_cantidad integer;
+BEGIN
+    IF p_deposito_origen_id = p_deposito_destino_id THEN
+        RAISE EXCEPTION 'El depósito de destino no puede ser el mismo que el de origen.';
+    END IF;
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'El remito debe tener al menos un lote.';
+    END IF;
+
+    INSERT INTO remitos_transferencia (deposito_origen_id, deposito_destino_id, transportista, notas)
+    VALUES (p_deposito_origen_id, p_deposito_destino_id, NULLIF(p_transportista, ''), NULLIF(p_notas, ''))
+    RETURNING id INTO v_remito_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        v_cantidad := (v_item->>'cantidad')::integer;
+        IF v_cantidad IS NULL OR v_cantidad < 1 THEN
+            RAISE EXCEPTION 'Cantidad inválida para el lote %.', v_item->>'lote_id';
+        END IF;
+        SELECT * INTO v_lote FROM lotes WHERE id = (v_item->>'lote_id')::uuid;
+        IF NOT FOUND OR v_lote.deposito_id <> p_deposito_origen_id THEN
+            RAISE EXCEPTION 'El lote % no está en el depósito de origen.', COALESCE(v_lote.numero_lote, v_item->>'lote_id');
+        END IF;
+
+        INSERT INTO remito_transferencia_items (remito_id, lote_origen_id, producto_id, numero_lote, fecha_vencimiento, costo_laboratorio, cantidad)
+        VALUES (v_remito_id, v_lote.id, v_lote.producto_id, v_lote.numero_lote, v_lote.fecha_vencimiento, COALESCE(v_lote.costo_laboratorio, 0), v_cantidad);
+    END LOOP;
+
+    -- Validar totales por lote (un lote puede repetirse en varias líneas)
+    FOR v_lote IN
+        SELECT l.numero_lote, l.cantidad_actual, SUM(ri.cantidad) AS solicitado
+        FROM remito_transferencia_items ri JOIN lotes l ON l.id = ri.lote_origen_id
+        WHERE ri.remito_id = v_remito_id
+        GROUP BY l.id, l.numero_lote, l.cantidad_actual
+    LOOP
+        IF v_lote.cantidad_actual < v_lote.solicitado THEN
+            RAISE EXCEPTION 'Stock insuficiente en el lote %. Solicitado: %, Disponible: %.', v_lote.numero_lote, v_lote.solicitado, v_lote.cantidad_actual;
+        END IF;
+    END LOOP;
+
+    RETURN v_remito_id;
+END;
+$$;
+
+-- Preparado → En tránsito: el stock sale del depósito de origen
+CREATE OR REPLACE FUNCTION public.despachar_remito_transferencia(p_remito_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_remito record;
+    v_lote record;
+BEGIN
+    SELECT * INTO v_remito FROM remitos_transferencia WHERE id = p_remito_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'El remito no existe.';
+    END IF;
+    IF v_remito.estado <> 'Preparado' THEN
+        RAISE EXCEPTION 'El remito ya está %.', v_remito.estado;
+    END IF;
+
+    FOR v_lote IN
+        SELECT l.id, l.numero_lote, l.cantidad_actual, l.deposito_id, SUM(ri.cantidad) AS cantidad
+        FROM remito_transferencia_items ri JOIN lotes l ON l.id = ri.lote_origen_id
+        WHERE ri.remito_id = p_remito_id
+        GROUP BY l.id, l.numero_lote, l.cantidad_actual, l.deposito_id
+    LOOP
+        IF v_lote.deposito_id <> v_remito.deposito_origen_id THEN
+            RAISE EXCEPTION 'El lote % ya no está en el depósito de origen.', v_lote.numero_lote;
+        END IF;
+        IF v_lote.cantidad_actual < v_lote.cantidad THEN
+            RAISE EXCEPTION 'Stock insuficiente en el lote %. Solicitado: %, Disponible: %.', v_lote.numero_lote, v_lote.cantidad, v_lote.cantidad_actual;
+        END IF;
+    END LOOP;
+    IF EXISTS (SELECT 1 FROM remito_transferencia_items WHERE remito_id = p_remito_id AND lote_origen_id IS NULL) THEN
+        RAISE EXCEPTION 'Uno de los lotes del remito fue eliminado: anúlalo y prepara uno nuevo.';
+    END IF;
+
+    -- Tipo y referencia para el kardex
+    PERFORM set_config('app.movimiento_tipo', 'Transferencia despachada', true);
+    PERFORM set_config('app.movimiento_referencia', 'Remito #' || v_remito.numero, true);
+    PERFORM set_config('app.movimiento_referencia_id', p_remito_id::text, true);
+
+    UPDATE lotes l SET cantidad_actual = l.cantidad_actual - t.cantidad
+    FROM (SELECT lote_origen_id, SUM(cantidad) AS cantidad FROM remito_transferencia_items WHERE remito_id = p_remito_id GROUP BY lote_origen_id) t
+    WHERE l.id = t.lote_origen_id;
+
+    UPDATE remitos_transferencia SET estado = 'En tránsito', despachado_at = now(), despachado_por = auth.uid() WHERE id = p_remito_id;
+END;
+$$;
+
+-- Suma lo recibido al lote del mismo número en el destino. Con p_cerrar se da por terminado aunque falten unidades.
+CREATE OR REPLACE FUNCTION public.recibir_remito_transferencia(p_remito_id uuid, p_items jsonb, p_cerrar boolean DEFAULT false, p_motivo text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_remito record;
+    v_item jsonb;
+    v_ri record;
+    v_cantidad integer;
+    v_lote_destino uuid;
+    v_lineas integer := 0;
+    v_pendiente integer;
+    v_nuevo_estado text;
+BEGIN
+    SELECT * INTO v_remito FROM remitos_transferencia WHERE id = p_remito_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'El remito no existe.';
+    END IF;
+    IF v_remito.estado NOT IN ('En tránsito', 'Recibido parcial') THEN
+        RAISE EXCEPTION 'Solo se reciben remitos En tránsito o Recibidos parcialmente (estado actual: %).', v_remito.estado;
+    END IF;
+
+    PERFORM set_config('app.movimiento_tipo', 'Transferencia recibida', true);
+    PERFORM set_config('app.movimiento_referencia', 'Remito #' || v_remito.numero, true);
+    PERFORM set_config('app.movimiento_referencia_id', p_remito_id::text, true);
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) LOOP
+        v_cantidad := (v_item->>'cantidad')::integer;
+        CONTINUE WHEN COALESCE(v_cantidad, 0) <= 0;
+
+        SELECT * INTO v_ri FROM remito_transferencia_items WHERE id = (v_item->>'item_id')::uuid AND remito_id = p_remito_id FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'El ítem % no pertenece al remito.', v_item->>'item_id';
+        END IF;
+        IF v_ri.cantidad_recibida + v_cantidad > v_ri.cantidad THEN
+            RAISE EXCEPTION 'Se intentan recibir % unidades del lote % pero quedan % en tránsito.', v_cantidad, v_ri.numero_lote, v_ri.cantidad - v_ri.cantidad_recibida;
+        END IF;
+
+        INSERT INTO lotes (producto_id, numero_lote, cantidad_inicial, cantidad_actual, fecha_vencimiento, costo_laboratorio, deposito_id)
+        VALUES (v_ri.producto_id, v_ri.numero_lote, v_cantidad, v_cantidad, v_ri.fecha_vencimiento, v_ri.costo_laboratorio, v_remito.deposito_destino_id)
+        ON CONFLICT (producto_id, numero_lote, deposito_id) DO UPDATE
+        SET cantidad_actual = lotes.cantidad_actual + EXCLUDED.cantidad_actual,
+            cantidad_inicial = lotes.cantidad_inicial + EXCLUDED.cantidad_inicial
+        RETURNING id INTO v_lote_destino;
+
+        UPDATE remito_transferencia_items SET cantidad_recibida = cantidad_recibida + v_cantidad, lote_destino_id = v_lote_destino WHERE id = v_ri.id;
+
+        -- Mismo historial que las transferencias inmediatas (lo usa la trazabilidad de lotes)
+        INSERT INTO transferencias_stock (producto_id, lote_origen_id, deposito_origen_id, deposito_destino_id, cantidad, usuario_id, notas, lote_destino_id)
+        VALUES (v_ri.producto_id, v_ri.lote_origen_id, v_remito.deposito_origen_id, v_remito.deposito_destino_id, v_cantidad, auth.uid(), 'Remito #' || v_remito.numero, v_lote_destino);
+
+        v_lineas := v_lineas + 1;
+    END LOOP;
+
+    IF v_lineas = 0 AND NOT p_cerrar THEN
+        RAISE EXCEPTION 'Indica al menos una cantidad recibida.';
+    END IF;
+
+    SELECT COALESCE(SUM(cantidad - cantidad_recibida), 0) INTO v_pendiente FROM remito_transferencia_items WHERE remito_id = p_remito_id;
+    IF v_pendiente = 0 THEN
+        v_nuevo_estado := 'Recibido';
+    ELSIF p_cerrar THEN
+        IF COALESCE(trim(p_motivo), '') = '' THEN
+            RAISE EXCEPTION 'Indica el motivo de las diferencias para cerrar el remito.';
+        END IF;
+        v_nuevo_estado := 'Recibido con diferencias';
+    ELSE
+        v_nuevo_estado := 'Recibido parcial';
+    END IF;
+
+    UPDATE remitos_transferencia SET
+        estado = v_nuevo_estado,
+        motivo_diferencias = CASE WHEN v_nuevo_estado = 'Recibido con diferencias' THEN trim(p_motivo) ELSE motivo_diferencias END,
+        recibido_at = CASE WHEN v_nuevo_estado IN ('Recibido', 'Recibido con diferencias') THEN now() ELSE recibido_at END,
+        recibido_por = auth.uid()
+    WHERE id = p_remito_id;
+    RETURN v_nuevo_estado;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.anular_remito_transferencia(p_remito_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    UPDATE remitos_transferencia SET estado = 'Anulado' WHERE id = p_remito_id AND estado = 'Preparado';
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Solo se anulan remitos que todavía no se despacharon.';
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.crear_remito_transferencia(uuid, uuid, jsonb, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.despachar_remito_transferencia(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.recibir_remito_transferencia(uuid, jsonb, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.anular_remito_transferencia(uuid) TO authenticated;`;
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('remitos_transferencia') ||
+    error?.message?.includes('remito_transferencia_items') ||
+    error?.message?.includes('Could not find the function');
+
+const remitosSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Faltan las tablas de remitos de transferencia.",
+    details: "Los remitos agrupan varios lotes que viajan juntos entre depósitos: el stock sale del origen al despacharlo y entra al destino a medida que se recibe.",
+    hint: "Ejecuta el script SQL de abajo.",
+    sql: REMITOS_TRANSFERENCIA_SQL,
+});
+
+const handleError = (error: any, context: string): never => {
+    console.error(`[${SERVICE_NAME}] Error ${context}:`, error);
+    if (isMissingObject(error)) throw remitosSqlError(error);
+    if (error.code === 'P0001') {
+        throw { ...error, message: `No se pudo ${context}: ${error.message}` };
+    }
+    throw error;
+};
+
+export const fetchRemitosTransferencia = async (): Promise<RemitoTransferencia[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching transfer documents.`);
+    const { data, error } = await supabase
+        .from('remitos_transferencia')
+        .select('*, origen:depositos!remitos_transferencia_deposito_origen_id_fkey(nombre, direccion), destino:depositos!remitos_transferencia_deposito_destino_id_fkey(nombre, direccion), remito_transferencia_items(*, productos(nombre))')
+        .order('numero', { ascending: false });
+    if (error) handleError(error, 'cargar los remitos');
+
+    return (data || []).map((r: any) => ({
+        id: r.id,
+        numero: r.numero,
+        depositoOrigenId: r.deposito_origen_id,
+        depositoOrigenNombre: r.origen?.nombre || 'N/A',
+        depositoOrigenDireccion: r.origen?.direccion || null,
+        depositoDestinoId: r.deposito_destino_id,
+        depositoDestinoNombre: r.destino?.nombre || 'N/A',
+        depositoDestinoDireccion: r.destino?.direccion || null,
+        estado: r.estado,
+        fecha: r.created_at,
+        fechaDespacho: r.despachado_at,
+        fechaRecepcion: r.recibido_at,
+        transportista: r.transportista,
+        notas: r.notas,
+        motivoDiferencias: r.motivo_diferencias,
+        items: (r.remito_transferencia_items || [])
+            .map((i: any) => ({
+                id: i.id,
+                loteOrigenId: i.lote_origen_id,
+                productoId: i.producto_id,
+                productoNombre: i.productos?.nombre || 'N/A',
+                numeroLote: i.numero_lote,
+                fechaVencimiento: i.fecha_vencimiento,
+                cantidad: i.cantidad,
+                cantidadRecibida: i.cantidad_recibida,
+            }))
+            .sort((a: any, b: any) => a.productoNombre.localeCompare(b.productoNombre)),
+    }));
+};
+
+export interface LineaRemitoTransferencia {
+    loteId: string;
+    cantidad: number;
+}
+
+/** Crea el remito en estado Preparado. El stock no se mueve hasta despacharlo. */
+export const crearRemitoTransferencia = async (
+    depositoOrigenId: string,
+    depositoDestinoId: string,
+    lineas: LineaRemitoTransferencia[],
+    transportista: string,
+    notas: string
+): Promise<string> => {
+    console.log(`[${SERVICE_NAME}] Creating transfer document from ${depositoOrigenId} to ${depositoDestinoId} (${lineas.length} lines).`);
+    const { data, error } = await (supabase.rpc as any)('crear_remito_transferencia', {
+        p_deposito_origen_id: depositoOrigenId,
+        p_deposito_destino_id: depositoDestinoId,
+        p_items: lineas.map(l => ({ lote_id: l.loteId, cantidad: l.cantidad })),
+        p_transportista: transportista,
+        p_notas: notas,
+    });
+    if (error) handleError(error, 'crear el remito');
+    return data as string;
+};
+
+export const despacharRemitoTransferencia = async (remitoId: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Dispatching transfer document ${remitoId}.`);
+    const { error } = await (supabase.rpc as any)('despachar_remito_transferencia', { p_remito_id: remitoId });
+    if (error) handleError(error, 'despachar el remito');
+};
+
+export const anularRemitoTransferencia = async (remitoId: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Voiding transfer document ${remitoId}.`);
+    const { error } = await (supabase.rpc as any)('anular_remito_transferencia', { p_remito_id: remitoId });
+    if (error) handleError(error, 'anular el remito');
+};
+
+/** Registra lo que llegó y devuelve el nuevo estado. Con cerrar, lo que falta queda como diferencia. */
+export const recibirRemitoTransferencia = async (
+    remitoId: string,
+    cantidades: Record<string, number>,
+    cerrar: boolean,
+    motivo: string
+): Promise<EstadoRemitoTransferencia> => {
+    console.log(`[${SERVICE_NAME}] Receiving transfer document ${remitoId}${cerrar ? ' (closing)' : ''}.`);
+    const { data, error } = await (supabase.rpc as any)('recibir_remito_transferencia', {
+        p_remito_id: remitoId,
+        p_items: Object.entries(cantidades)
+            .filter(([, cantidad]) => cantidad > 0)
+            .map(([itemId, cantidad]) => ({ item_id: itemId, cantidad })),
+        p_cerrar: cerrar,
+        p_motivo: motivo || null,
+    });
+    if (error) handleError(error, 'registrar la recepción');
+    return data as EstadoRemitoTransferencia;
+};
+
+const formatFecha = (fecha: string | null) => fecha ? new Date(fecha).toLocaleDateString('es-AR') : '-';
+
+/** Remito imprimible: acompaña la mercadería y se firma al despachar y al recibir. */
+export const descargarRemitoTransferenciaPdf = (remito: RemitoTransferencia) => {
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+    const ancho = pdf.internal.pageSize.getWidth();
+    const alto = pdf.internal.pageSize.getHeight();
+    const margen = 12;
+    const recibido = remito.items.some(i => i.cantidadRecibida > 0);
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(16);
+    pdf.text(`Remito de Transferencia #${remito.numero}`, margen, margen + 6);
+    pdf.setFontSize(9);
+    pdf.text(remito.estado.toUpperCase(), ancho - margen, margen + 6, { align: 'right' });
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(`Preparado: ${formatFecha(remito.fecha)}    Despachado: ${formatFecha(remito.fechaDespacho)}    Recibido: ${formatFecha(remito.fechaRecepcion)}`, margen, margen + 13);
+
+    let y = margen + 22;
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Origen', margen, y);
+    pdf.text('Destino', ancho / 2, y);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(remito.depositoOrigenNombre, margen, y + 5);
+    pdf.text(remito.depositoDestinoNombre, ancho / 2, y + 5);
+    pdf.text((remito.depositoOrigenDireccion || '').substring(0, 50), margen, y + 10);
+    pdf.text((remito.depositoDestinoDireccion || '').substring(0, 50), ancho / 2, y + 10);
+    y += 17;
+    if (remito.transportista) {
+        pdf.text(`Transportista: ${remito.transportista}`, margen, y);
+        y += 5;
+    }
+    if (remito.notas) {
+        pdf.text(`Notas: ${remito.notas}`.substring(0, 110), margen, y);
+        y += 5;
+    }
+
+    y += 6;
+    const encabezado = () => {
+        pdf.setFillColor(230, 230, 230);
+        pdf.rect(margen, y - 5, ancho - margen * 2, 7, 'F');
+        pdf.setFont('helvetica', 'bold');
+        pdf.text('Producto', margen + 2, y);
+        pdf.text('Lote', 100, y);
+        pdf.text('Vence', 135, y);
+        pdf.text('Enviado', recibido ? 168 : ancho - margen - 2, y, { align: 'right' });
+        if (recibido) pdf.text('Recibido', ancho - margen - 2, y, { align: 'right' });
+        pdf.setFont('helvetica', 'normal');
+        y += 7;
+    };
+    encabezado();
+    for (const i of remito.items) {
+        if (y > alto - 40) {
+            pdf.addPage();
+            y = margen + 6;
+            encabezado();
+        }
+        pdf.text(i.productoNombre.substring(0, 48), margen + 2, y);
+        pdf.text(i.numeroLote.substring(0, 18), 100, y);
+        pdf.text(i.fechaVencimiento ? i.fechaVencimiento.split('-').reverse().join('/') : '-', 135, y);
+        pdf.text(String(i.cantidad), recibido ? 168 : ancho - margen - 2, y, { align: 'right' });
+        if (recibido) pdf.text(String(i.cantidadRecibida), ancho - margen - 2, y, { align: 'right' });
+        y += 6;
+    }
+    const totalEnviado = remito.items.reduce((sum, i) => sum + i.cantidad, 0);
+    const totalRecibido = remito.items.reduce((sum, i) => sum + i.cantidadRecibida, 0);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(`Total: ${totalEnviado} u.${recibido ? `    Recibido: ${totalRecibido} u.` : ''}`, ancho - margen - 2, y + 2, { align: 'right' });
+    pdf.setFont('helvetica', 'normal');
+
+    if (remito.motivoDiferencias) {
+        y += 10;
+        pdf.text(`Diferencias (${totalEnviado - totalRecibido} u.): ${remito.motivoDiferencias}`.substring(0, 110), margen, y);
+    }
+
+    // Firmas al pie de la última página
+    const yFirmas = alto - 20;
+    pdf.line(margen, yFirmas, margen + 70, yFirmas);
+    pdf.line(ancho - margen - 70, yFirmas, ancho - margen, yFirmas);
+    pdf.text('Despachó (firma y aclaración)', margen, yFirmas + 5);
+    pdf.text('Recibió (firma y aclaración)', ancho - margen - 70, yFirmas + 5);
+
+    pdf.save(`remito-transferencia-${remito.numero}.pdf`);
+};
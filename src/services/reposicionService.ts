@@ -0,0 +1,277 @@
+import { supabase } from '../supabase';
+import {
+    ClasificacionRotacion, HojaReposicion, ParametrosReposicion, Proveedor, SugerenciaCompra, SugerenciaProduccion,
+} from '../types';
+import { DASHBOARD_STATS_SQL } from './dashboardService';
+import { fetchProductStatistics } from './estadisticasService';
+import { fetchProveedores, crearOrdenCompra } from './comprasService';
+
+const SERVICE_NAME = 'ReposicionService';
+
+const REPOSICION_SQL = `-- Hoja de reposición: puntos de reorden y stock de seguridad calculados desde la velocidad de venta.
+-- Requiere los scripts de Producción y Compras de Insumos (órdenes, reservas y proveedores).
+ALTER TABLE public.productos ADD COLUMN IF NOT EXISTS lead_time_produccion_dias integer CHECK (lead_time_produccion_dias >= 0);
+
+-- Columnas punto_reorden / stock_seguridad y el dashboard que las usa para los listados de bajo stock
+${DASHBOARD_STATS_SQL}
+
+CREATE OR REPLACE FUNCTION public.guardar_puntos_reorden(p_productos jsonb, p_insumos jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    UPDATE productos p SET
+        punto_reorden = (x->>'punto_reorden')::numeric,
+        stock_seguridad = (x->>'stock_seguridad')::numeric
+    FROM jsonb_array_elements(p_productos) x
+    WHERE p.id = (x->>'id')::uuid;
+
+    UPDATE insumos i SET
+        punto_reorden = (x->>'punto_reorden')::numeric,
+        stock_seguridad = (x->>'stock_seguridad')::numeric
+    FROM jsonb_array_elements(p_insumos) x
+    WHERE i.id = (x->>'id')::uuid;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.guardar_puntos_reorden(jsonb, jsonb) TO authenticated;`;
+
+const isMissingObject = (error: any) =>
+    ['42883', '42P01', '42703', 'PGRST202', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('lead_time_produccion_dias') ||
+    error?.message?.includes('punto_reorden') ||
+    error?.message?.includes('Could not find the function');
+
+const reposicionSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Faltan las columnas o funciones de la hoja de reposición.",
+    details: "La hoja de reposición guarda el punto de reorden y el stock de seguridad de cada producto e insumo, y el dashboard los usa para avisar del bajo stock.",
+    hint: "Ejecuta el script SQL de abajo. Si falla por órdenes de producción o de compra, instala antes esos módulos.",
+    sql: REPOSICION_SQL,
+});
+
+const handleError = (error: any, context: string): never => {
+    console.error(`[${SERVICE_NAME}] Error ${context}:`, error);
+    if (isMissingObject(error)) throw reposicionSqlError(error);
+    if (error.code === 'P0001') {
+        throw { ...error, message: `No se pudo ${context}: ${error.message}` };
+    }
+    throw error;
+};
+
+export const PARAMETROS_REPOSICION_DEFAULT: ParametrosReposicion = {
+    diasSeguridad: 7,
+    diasCobertura: 30,
+    leadTimeProduccionDias: 7,
+    leadTimeCompraDias: 15,
+};
+
+/** Rotación anual (ventas 12 meses / stock). Sin stock pero con ventas, el producto rota tanto como se produzca. */
+const clasificarRotacion = (tasaRotacion: number, tasaVentasPromedio: number, stock: number): ClasificacionRotacion => {
+    if (tasaVentasPromedio <= 0) return 'Sin ventas';
+    if (stock <= 0 || tasaRotacion >= 6) return 'Alta';
+    if (tasaRotacion >= 2) return 'Media';
+    return 'Baja';
+};
+
+// Los productos de alta rotación se quedan sin stock ante cualquier pico: se cubren más días de seguridad
+const FACTOR_SEGURIDAD: Record<ClasificacionRotacion, number> = {
+    'Alta': 1.5,
+    'Media': 1,
+    'Baja': 0.5,
+    'Sin ventas': 0,
+};
+
+const redondear = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Arma la hoja de reposición. Para cada producto:
+ *   demanda diaria = tasaVentasPromedio (u./mes, últimos 90 días) / 30
+ *   stock de seguridad = demanda diaria × días de seguridad × factor de rotación
+ *   punto de reorden = demanda diaria × lead time de producción + stock de seguridad
+ * Si el stock más lo que está en producción no supera el punto de reorden se sugiere producir
+ * hasta cubrir el punto de reorden más los días de cobertura.
+ * Los insumos heredan la demanda de los productos por la fórmula (productos_insumos), usan el lead
+ * time del proveedor y suman lo que requieren las órdenes de producción sugeridas.
+ */
+export const fetchHojaReposicion = async (parametros: ParametrosReposicion): Promise<HojaReposicion> => {
+    console.log(`[${SERVICE_NAME}] Building replenishment worksheet.`);
+    const [
+        estadisticas,
+        proveedores,
+        { data: productos, error: productosError },
+        { data: formulas, error: formulasError },
+        { data: insumos, error: insumosError },
+        { data: reservas, error: reservasError },
+        { data: ordenesProduccion, error: ordenesProduccionError },
+        { data: itemsCompra, error: itemsCompraError },
+    ] = await Promise.all([
+        fetchProductStatistics(),
+        fetchProveedores(),
+        supabase.from('productos').select('id, lead_time_produccion_dias'),
+        supabase.from('productos_insumos').select('producto_id, insumo_id, cantidad'),
+        supabase.from('insumos').select('id, nombre, unidad, stock, costo, proveedor').order('nombre'),
+        supabase.from('insumos_reservados').select('*'),
+        supabase.from('ordenes_produccion').select('producto_id, cantidad').eq('estado', 'Planificada'),
+        supabase.from('orden_compra_items').select('insumo_id, cantidad, cantidad_recibida, ordenes_compra!inner(numero, estado, proveedor_id)'),
+    ]);
+    if (productosError) handleError(productosError, 'cargar los lead times de producción');
+    if (formulasError) handleError(formulasError, 'cargar las fórmulas');
+    if (insumosError) handleError(insumosError, 'cargar los insumos');
+    if (reservasError) handleError(reservasError, 'cargar las reservas de insumos');
+    if (ordenesProduccionError) handleError(ordenesProduccionError, 'cargar las órdenes de producción');
+    if (itemsCompraError) handleError(itemsCompraError, 'cargar las órdenes de compra');
+
+    const leadTimes = new Map<string, number | null>((productos || []).map((p: any) => [p.id, p.lead_time_produccion_dias]));
+    const enProduccion = new Map<string, number>();
+    for (const op of ordenesProduccion || []) {
+        enProduccion.set(op.producto_id, (enProduccion.get(op.producto_id) || 0) + Number(op.cantidad));
+    }
+
+    const produccion: SugerenciaProduccion[] = estadisticas.map(e => {
+        const demandaDiaria = e.tasaVentasPromedio / 30;
+        const rotacion = clasificarRotacion(e.tasaRotacion, e.tasaVentasPromedio, e.stockTotal);
+        const leadTimePropio = leadTimes.get(e.id) != null;
+        const leadTimeDias = leadTimePropio ? Number(leadTimes.get(e.id)) : parametros.leadTimeProduccionDias;
+        const stockSeguridad = Math.ceil(demandaDiaria * parametros.diasSeguridad * FACTOR_SEGURIDAD[rotacion]);
+        const puntoReorden = Math.ceil(demandaDiaria * leadTimeDias) + stockSeguridad;
+        const proyectado = e.stockTotal + (enProduccion.get(e.id) || 0);
+        const cantidadSugerida = demandaDiaria > 0 && proyectado <= puntoReorden
+            ? Math.ceil(puntoReorden + demandaDiaria * parametros.diasCobertura - proyectado)
+            : 0;
+        return {
+            id: e.id,
+            productoNombre: e.nombre,
+            demandaDiaria: redondear(demandaDiaria),
+            tasaRotacion: redondear(e.tasaRotacion),
+            rotacion,
+            leadTimeDias,
+            leadTimePropio,
+            stockSeguridad,
+            puntoReorden,
+            stock: e.stockTotal,
+            enProduccion: enProduccion.get(e.id) || 0,
+            proyectado,
+            cantidadSugerida,
+        };
+    }).sort((a, b) => b.cantidadSugerida - a.cantidadSugerida || a.productoNombre.localeCompare(b.productoNombre));
+
+    // Demanda, factor de seguridad y necesidad de las órdenes sugeridas, explotadas por la fórmula
+    const productoPorId = new Map(produccion.map(p => [p.id, p]));
+    const demandaInsumo = new Map<string, { demandaDiaria: number; factor: number; necesidadProduccion: number }>();
+    for (const f of formulas || []) {
+        const producto = productoPorId.get(f.producto_id);
+        if (!producto) continue;
+        const actual = demandaInsumo.get(f.insumo_id) || { demandaDiaria: 0, factor: 0, necesidadProduccion: 0 };
+        actual.demandaDiaria += producto.demandaDiaria * Number(f.cantidad);
+        actual.factor = Math.max(actual.factor, FACTOR_SEGURIDAD[producto.rotacion]);
+        actual.necesidadProduccion += producto.cantidadSugerida * Number(f.cantidad);
+        demandaInsumo.set(f.insumo_id, actual);
+    }
+
+    const reservado = new Map<string, number>((reservas || []).map((r: any) => [r.insumo_id, Number(r.cantidad)]));
+
+    // Lo pedido y no recibido está en camino; el proveedor de la última orden es el habitual del insumo
+    const enCamino = new Map<string, number>();
+    const ultimaOrden = new Map<string, { numero: number; proveedorId: string }>();
+    for (const item of (itemsCompra || []) as any[]) {
+        const orden = item.ordenes_compra;
+        if (orden.estado !== 'Recibida') {
+            enCamino.set(item.insumo_id, (enCamino.get(item.insumo_id) || 0) + Number(item.cantidad) - Number(item.cantidad_recibida));
+        }
+        const previa = ultimaOrden.get(item.insumo_id);
+        if (!previa || orden.numero > previa.numero) {
+            ultimaOrden.set(item.insumo_id, { numero: orden.numero, proveedorId: orden.proveedor_id });
+        }
+    }
+
+    const proveedorDeInsumo = (insumo: any): Proveedor | undefined => {
+        const ultima = ultimaOrden.get(insumo.id);
+        if (ultima) return proveedores.find(p => p.id === ultima.proveedorId);
+        const nombre = (insumo.proveedor || '').trim().toLowerCase();
+        return nombre ? proveedores.find(p => p.nombre.toLowerCase() === nombre) : undefined;
+    };
+
+    const compras: SugerenciaCompra[] = (insumos || []).map((i: any) => {
+        const demanda = demandaInsumo.get(i.id) || { demandaDiaria: 0, factor: 0, necesidadProduccion: 0 };
+        const proveedor = proveedorDeInsumo(i);
+        const leadTimeDias = proveedor ? proveedor.leadTimeDias : parametros.leadTimeCompraDias;
+        const stockSeguridad = redondear(demanda.demandaDiaria * parametros.diasSeguridad * demanda.factor);
+        const puntoReorden = redondear(demanda.demandaDiaria * leadTimeDias + stockSeguridad);
+        const stock = Number(i.stock || 0);
+        const proyectado = redondear(stock - (reservado.get(i.id) || 0) + (enCamino.get(i.id) || 0) - demanda.necesidadProduccion);
+        const cantidadSugerida = (demanda.demandaDiaria > 0 || demanda.necesidadProduccion > 0) && proyectado <= puntoReorden
+            ? Math.ceil((puntoReorden + demanda.demandaDiaria * parametros.diasCobertura - proyectado) * 100) / 100
+            : 0;
+        return {
+            id: i.id,
+            insumoNombre: i.nombre,
+            unidad: i.unidad,
+            demandaDiaria: redondear(demanda.demandaDiaria),
+            proveedorId: proveedor?.id || null,
+            proveedorNombre: proveedor?.nombre || null,
+            leadTimeDias,
+            stockSeguridad,
+            puntoReorden,
+            stock,
+            reservado: reservado.get(i.id) || 0,
+            enCamino: redondear(enCamino.get(i.id) || 0),
+            necesidadProduccion: redondear(demanda.necesidadProduccion),
+            proyectado,
+            cantidadSugerida,
+            costoUnitario: Number(i.costo || 0),
+        };
+    }).sort((a: SugerenciaCompra, b: SugerenciaCompra) => b.cantidadSugerida - a.cantidadSugerida || a.insumoNombre.localeCompare(b.insumoNombre));
+
+    return { produccion, compras };
+};
+
+/** Guarda los puntos de reorden calculados; desde ahí el dashboard los usa en lugar de los umbrales fijos. */
+export const guardarPuntosReorden = async (hoja: HojaReposicion): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Saving reorder points for ${hoja.produccion.length} products and ${hoja.compras.length} insumos.`);
+    const { error } = await (supabase.rpc as any)('guardar_puntos_reorden', {
+        p_productos: hoja.produccion.map(p => ({ id: p.id, punto_reorden: p.puntoReorden, stock_seguridad: p.stockSeguridad })),
+        p_insumos: hoja.compras.map(i => ({ id: i.id, punto_reorden: i.puntoReorden, stock_seguridad: i.stockSeguridad })),
+    });
+    if (error) handleError(error, 'guardar los puntos de reorden');
+};
+
+/** `null` vuelve al lead time de producción general de la hoja. */
+export const actualizarLeadTimeProduccion = async (productoId: string, dias: number | null): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Updating production lead time for product ${productoId}.`);
+    const { error } = await (supabase.from('productos') as any)
+        .update({ lead_time_produccion_dias: dias })
+        .eq('id', productoId);
+    if (error) handleError(error, 'actualizar el lead time de producción');
+};
+
+export interface LineaSugerenciaCompra {
+    insumoId: string;
+    proveedorId: string;
+    cantidad: number;
+    costoUnitario: number;
+}
+
+/** Crea una orden de compra en Borrador por proveedor. Devuelve cuántas órdenes se generaron. */
+export const generarOrdenesCompra = async (lineas: LineaSugerenciaCompra[]): Promise<number> => {
+    console.log(`[${SERVICE_NAME}] Generating purchase orders for ${lineas.length} insumos.`);
+    const proveedores = await fetchProveedores();
+    const porProveedor = new Map<string, LineaSugerenciaCompra[]>();
+    for (const linea of lineas) {
+        porProveedor.set(linea.proveedorId, [...(porProveedor.get(linea.proveedorId) || []), linea]);
+    }
+
+    const hoy = new Date().toISOString().split('T')[0];
+    for (const [proveedorId, items] of porProveedor) {
+        const proveedor = proveedores.find(p => p.id === proveedorId);
+        if (!proveedor) throw new Error('Uno de los proveedores seleccionados ya no existe.');
+        await crearOrdenCompra(
+            proveedor,
+            items.map(i => ({ insumoId: i.insumoId, cantidad: i.cantidad, costoUnitario: i.costoUnitario })),
+            hoy,
+            'Generada desde la hoja de reposición'
+        );
+    }
+    return porProveedor.size;
+};
@@ -0,0 +1,93 @@
+import { supabase } from '../supabase';
+
+const SERVICE_NAME = 'ReservasService';
+
+const isFunctionNotFound = (error: any, fnName: string) =>
+    error?.code === '42883' || error?.code === 'PGRST202' || error?.message?.includes(`function ${fnName}`) || error?.message?.includes('Could not find the function');
+
+const RESERVAS_SQL = `-- Libera reservas vencidas: devuelve el stock al lote y marca la venta como 'Carrito Abandonado'
+CREATE OR REPLACE FUNCTION public.liberar_reservas_vencidas()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_liberadas integer;
+BEGIN
+    -- Motivo que toma el trigger de historial de estados (si está instalado)
+    PERFORM set_config('app.motivo_estado', 'Reserva de stock vencida', true);
+    PERFORM set_config('app.movimiento_tipo', 'Reserva vencida', true);
+
+    WITH vencidas AS (
+        UPDATE reservas_stock SET estado = 'Liberada'
+        WHERE estado = 'Activa' AND expira_en < now()
+        RETURNING venta_id, lote_id, cantidad
+    ),
+    restock AS (
+        UPDATE lotes l SET cantidad_actual = l.cantidad_actual + t.cantidad
+        FROM (SELECT lote_id, SUM(cantidad) AS cantidad FROM vencidas GROUP BY lote_id) t
+        WHERE l.id = t.lote_id
+        RETURNING l.id
+    ),
+    ventas_abandonadas AS (
+        UPDATE ventas SET estado = 'Carrito Abandonado'
+        WHERE id IN (SELECT DISTINCT venta_id FROM vencidas) AND estado IN ('Pendiente', 'Contactado')
+        RETURNING id
+    )
+    SELECT COUNT(*) INTO v_liberadas FROM vencidas;
+
+    RETURN v_liberadas;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.liberar_reservas_vencidas() TO authenticated;
+
+-- Liberación automática cada 5 minutos con pg_cron (cron.schedule con el mismo nombre reemplaza el job).
+-- crear_venta además libera las vencidas antes de validar stock.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+SELECT cron.schedule('liberar-reservas-vencidas', '*/5 * * * *', 'SELECT public.liberar_reservas_vencidas()');`;
+
+/**
+ * Unidades reservadas (pedidos web sin pagar) por producto.
+ * Si la tabla todavía no existe se asume que no hay reservas.
+ */
+export const fetchStockReservadoPorProducto = async (): Promise<Record<string, number>> => {
+    const { data, error } = await supabase
+        .from('reservas_stock')
+        .select('producto_id, cantidad')
+        .eq('estado', 'Activa');
+
+    if (error) {
+        console.warn(`[${SERVICE_NAME}] Could not fetch active reservations:`, error.message);
+        return {};
+    }
+
+    return (data || []).reduce((acc: Record<string, number>, r: any) => {
+        acc[r.producto_id] = (acc[r.producto_id] || 0) + r.cantidad;
+        return acc;
+    }, {});
+};
+
+/**
+ * Libera las reservas cuya ventana expiró. Lo corre pg_cron cada 5 minutos y crear_venta antes de validar stock;
+ * el panel de ventas lo invoca también al cargar para mostrar los estados al día.
+ */
+export const liberarReservasVencidas = async (): Promise<number> => {
+    const { data, error } = await (supabase.rpc as any)('liberar_reservas_vencidas');
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error releasing expired reservations:`, error);
+        if (isFunctionNotFound(error, 'liberar_reservas_vencidas')) {
+            throw {
+                ...error,
+                message: "Error de base de datos: La función 'liberar_reservas_vencidas' no existe.",
+                details: "Los pedidos web reservan stock durante una ventana de tiempo. Sin esta función las reservas vencidas no se liberan.",
+                hint: "Ejecuta el script SQL de abajo. Activa pg_cron (extensión de Supabase) para que se ejecute automáticamente.",
+                sql: RESERVAS_SQL,
+            };
+        }
+        throw error;
+    }
+    const liberadas = Number(data) || 0;
+    if (liberadas > 0) console.log(`[${SERVICE_NAME}] Released ${liberadas} expired reservations.`);
+    return liberadas;
+};
@@ -84,6 +84,134 @@ export const fetchLotesParaVenta = async (productoId: string, depositoId?: strin
     return (data || []) as Lote[];
 }
 
+export interface AsignacionLote {
+    loteId: string;
+    numeroLote: string;
+    fechaVencimiento: string | null;
+    depositoId: string;
+    cantidad: number;
+}
+
+export interface SolicitudAsignacion {
+    productoId: string;
+    productoNombre?: string;
+    cantidad: number;
+    depositoId?: string;
+    // Si se indica, se consume solo este lote (override manual del vendedor).
+    loteId?: string | null;
+    // Lotes que se consumen antes que el resto, en este orden (los promocionados por vencimiento).
+    lotesPreferidos?: string[];
+}
+
+/** Un lote vencido no se puede vender: ni por FEFO ni eligiéndolo a mano (crear_venta también lo rechaza). */
+export const estaVencido = (lote: Pick<Lote, 'fecha_vencimiento'>, hoy: string = new Date().toISOString().split('T')[0]): boolean =>
+    !!lote.fecha_vencimiento && lote.fecha_vencimiento.slice(0, 10) < hoy;
+
+/** Solo los lotes liberados por control de calidad se pueden vender o transferir. */
+export const estaLiberado = (lote: Pick<Lote, 'estado_calidad'>): boolean =>
+    !lote.estado_calidad || lote.estado_calidad === 'Liberado';
+
+const compararFEFO = (a: Lote, b: Lote): number => {
+    // Los lotes sin vencimiento se consumen al final.
+    if (!a.fecha_vencimiento && !b.fecha_vencimiento) return 0;
+    if (!a.fecha_vencimiento) return 1;
+    if (!b.fecha_vencimiento) return -1;
+    return a.fecha_vencimiento.localeCompare(b.fecha_vencimiento);
+};
+
+/**
+ * Reparte cada cantidad solicitada entre los lotes disponibles, primero el que vence antes (FEFO).
+ * Una solicitud puede generar varias asignaciones si un solo lote no alcanza. El consumo se acumula
+ * entre solicitudes, así dos líneas del mismo producto no reservan las mismas unidades.
+ * Lanza un Error con mensaje legible si el stock no alcanza.
+ */
+export const calcularAsignacionFEFO = (solicitudes: SolicitudAsignacion[], lotes: (Lote & { producto_id?: string })[]): AsignacionLote[][] => {
+    const consumido: Record<string, number> = {};
+
+    return solicitudes.map(sol => {
+        const nombre = sol.productoNombre || sol.productoId;
+        const candidatos = lotes
+            .filter(l => (!l.producto_id || l.producto_id === sol.productoId))
+            .filter(l => !sol.depositoId || l.deposito_id === sol.depositoId)
+            .filter(l => !sol.loteId || l.id === sol.loteId)
+            .map(l => ({ ...l, disponible: Math.floor(l.cantidad_actual) - (consumido[l.id] || 0) }))
+            .filter(l => l.disponible >= 1);
+
+        const retenido = candidatos.find(l => !estaLiberado(l));
+        if (sol.loteId && retenido) {
+            const estado = retenido.estado_calidad === 'Rechazado' ? 'fue rechazado' : 'está en cuarentena';
+            throw new Error(`El lote ${retenido.numero_lote} de "${nombre}" ${estado} por control de calidad y no se puede vender.`);
+        }
+        const vencidos = candidatos.filter(l => estaVencido(l));
+        if (sol.loteId && vencidos.length > 0) {
+            throw new Error(`El lote ${vencidos[0].numero_lote} de "${nombre}" está vencido y no se puede vender.`);
+        }
+        const preferencia = (l: Lote) => {
+            const posicion = sol.lotesPreferidos?.indexOf(l.id) ?? -1;
+            return posicion < 0 ? Number.MAX_SAFE_INTEGER : posicion;
+        };
+        const vigentes = candidatos
+            .filter(l => !estaVencido(l) && estaLiberado(l))
+            .sort((a, b) => preferencia(a) - preferencia(b) || compararFEFO(a, b));
+
+        const disponibleTotal = vigentes.reduce((sum, l) => sum + l.disponible, 0);
+        if (disponibleTotal < sol.cantidad) {
+            const origen = sol.loteId ? ' en el lote seleccionado' : sol.depositoId ? ' en el depósito seleccionado' : '';
+            const unidadesVencidas = vencidos.reduce((sum, l) => sum + l.disponible, 0);
+            const unidadesRetenidas = candidatos.filter(l => !estaLiberado(l)).reduce((sum, l) => sum + l.disponible, 0);
+            const aclaraciones = [
+                unidadesVencidas > 0 ? `${unidadesVencidas} u. más en lotes vencidos` : '',
+                unidadesRetenidas > 0 ? `${unidadesRetenidas} u. más retenidas por control de calidad` : '',
+            ].filter(Boolean);
+            const aclaracion = aclaraciones.length > 0 ? ` (${aclaraciones.join(', ')})` : '';
+            throw new Error(`Stock insuficiente para "${nombre}"${origen}. Solicitado: ${sol.cantidad}, Disponible: ${disponibleTotal}${aclaracion}.`);
+        }
+
+        const asignaciones: AsignacionLote[] = [];
+        let restante = sol.cantidad;
+        for (const lote of vigentes) {
+            if (restante <= 0) break;
+            const cantidad = Math.min(restante, lote.disponible);
+            asignaciones.push({
+                loteId: lote.id,
+                numeroLote: lote.numero_lote,
+                fechaVencimiento: lote.fecha_vencimiento,
+                depositoId: lote.deposito_id,
+                cantidad,
+            });
+            consumido[lote.id] = (consumido[lote.id] || 0) + cantidad;
+            restante -= cantidad;
+        }
+        return asignaciones;
+    });
+};
+
+/**
+ * Igual que calcularAsignacionFEFO pero consultando los lotes actuales en la base de datos.
+ * Se usa al confirmar la venta para no depender de un stock cargado hace minutos.
+ * Con `depositoIds` solo se toman lotes de esos depósitos (p. ej. los que despachan la tienda web).
+ */
+export const asignarLotesFEFO = async (solicitudes: SolicitudAsignacion[], depositoIds?: string[]): Promise<AsignacionLote[][]> => {
+    const productoIds = Array.from(new Set(solicitudes.map(s => s.productoId)));
+    console.log(`[${SERVICE_NAME}] Allocating lots (FEFO) for ${productoIds.length} products.`);
+    if (productoIds.length === 0) return [];
+
+    let query = supabase
+        .from('lotes')
+        .select('*')
+        .in('producto_id', productoIds)
+        .gt('cantidad_actual', 0);
+    if (depositoIds) query = query.in('deposito_id', depositoIds);
+    const { data, error } = await query;
+
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error fetching lots for allocation:`, error);
+        throw error;
+    }
+
+    return calcularAsignacionFEFO(solicitudes, (data || []) as (Lote & { producto_id: string })[]);
+};
+
 export interface ProductionData {
     productoId: string;
     cantidadProducida: number;
@@ -92,6 +220,21 @@ export interface ProductionData {
     costoLaboratorio: number;
 }
 
+export const REGISTRAR_PRODUCCION_SQL = `CREATE OR REPLACE FUNCTION registrar_produccion(p_producto_id uuid, p_cantidad_producida integer, p_numero_lote text, p_fecha_vencimiento date, p_costo_laboratorio numeric)
+RETURNS void AS $$
+DECLARE v_dep_id uuid;
+BEGIN
+    SELECT id INTO v_dep_id FROM depositos WHERE es_predeterminado = TRUE LIMIT 1;
+    IF v_dep_id IS NULL THEN RAISE EXCEPTION 'No hay depósito predeterminado.'; END IF;
+    PERFORM set_config('app.movimiento_tipo', 'Producción', true);
+    INSERT INTO lotes (producto_id, numero_lote, cantidad_inicial, cantidad_actual, fecha_vencimiento, costo_laboratorio, deposito_id)
+    VALUES (p_producto_id, p_numero_lote, p_cantidad_producida, p_cantidad_producida, p_fecha_vencimiento, p_costo_laboratorio, v_dep_id)
+    ON CONFLICT (producto_id, numero_lote, deposito_id) DO UPDATE SET
+        cantidad_inicial = lotes.cantidad_inicial + EXCLUDED.cantidad_inicial,
+        cantidad_actual = lotes.cantidad_actual + EXCLUDED.cantidad_actual,
+        costo_laboratorio = lotes.costo_laboratorio + EXCLUDED.costo_laboratorio;
+END; $$ LANGUAGE plpgsql SECURITY DEFINER;`;
+
 export const registerProduction = async (data: ProductionData): Promise<void> => {
     const { error } = await supabase.rpc('registrar_produccion', {
         p_producto_id: data.productoId,
@@ -107,19 +250,7 @@ export const registerProduction = async (data: ProductionData): Promise<void> =>
             throw {
                 message: "La función 'registrar_produccion' no existe o es antigua.",
                 hint: "Ejecuta el script SQL 'registrar_produccion' actualizado.",
-                sql: `CREATE OR REPLACE FUNCTION registrar_produccion(p_producto_id uuid, p_cantidad_producida integer, p_numero_lote text, p_fecha_vencimiento date, p_costo_laboratorio numeric)
-RETURNS void AS $$
-DECLARE v_dep_id uuid;
-BEGIN
-    SELECT id INTO v_dep_id FROM depositos WHERE es_predeterminado = TRUE LIMIT 1;
-    IF v_dep_id IS NULL THEN RAISE EXCEPTION 'No hay depósito predeterminado.'; END IF;
-    INSERT INTO lotes (producto_id, numero_lote, cantidad_inicial, cantidad_actual, fecha_vencimiento, costo_laboratorio, deposito_id)
-    VALUES (p_producto_id, p_numero_lote, p_cantidad_producida, p_cantidad_producida, p_fecha_vencimiento, p_costo_laboratorio, v_dep_id)
-    ON CONFLICT (producto_id, numero_lote, deposito_id) DO UPDATE SET
-        cantidad_inicial = lotes.cantidad_inicial + EXCLUDED.cantidad_inicial,
-        cantidad_actual = lotes.cantidad_actual + EXCLUDED.cantidad_actual,
-        costo_laboratorio = lotes.costo_laboratorio + EXCLUDED.costo_laboratorio;
-END; $$ LANGUAGE plpgsql SECURITY DEFINER;`
+                sql: REGISTRAR_PRODUCCION_SQL
             };
         }
         throw error;
@@ -170,6 +301,7 @@ BEGIN
     IF p_nueva_cantidad_inicial < v_vendido THEN
         RAISE EXCEPTION 'La nueva cantidad (%) es menor a lo ya vendido (%)', p_nueva_cantidad_inicial, v_vendido;
     END IF;
+    PERFORM set_config('app.movimiento_tipo', 'Modificación de producción', true);
     UPDATE lotes SET
         numero_lote = p_nuevo_numero_lote,
         cantidad_inicial = p_nueva_cantidad_inicial,
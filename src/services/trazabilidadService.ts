@@ -0,0 +1,342 @@
+import jsPDF from 'jspdf';
+import { supabase } from '../supabase';
+import { TrazabilidadLote, LoteTrazado, MovimientoLote, EntregaLote, ProduccionLote, ContactoRecall } from '../types';
+
+const SERVICE_NAME = 'TrazabilidadService';
+
+// Ventas que nunca salieron del depósito: no cuentan para el recall.
+const ESTADOS_SIN_ENTREGA = ['Cancelada', 'Carrito Abandonado'];
+
+/** Productos que tienen un lote con ese número. Cada laboratorio numera sus lotes, así que puede haber más de uno. */
+export const fetchProductosConLote = async (numeroLote: string): Promise<{ id: string; nombre: string }[]> => {
+    const { data, error } = await supabase
+        .from('lotes')
+        .select('producto_id, productos(nombre)')
+        .eq('numero_lote', numeroLote.trim());
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error fetching lots:`, error);
+        throw new Error(`No se pudo buscar el lote: ${error.message}`);
+    }
+    const productos = new Map<string, string>();
+    (data || []).forEach((l: any) => productos.set(l.producto_id, l.productos?.nombre || 'N/A'));
+    return Array.from(productos, ([id, nombre]) => ({ id, nombre })).sort((a, b) => a.nombre.localeCompare(b.nombre));
+};
+
+/**
+ * Trazabilidad completa de un número de lote de un producto (requisito regulatorio de cosmética).
+ * Hacia adelante: ventas y consignaciones que lo entregaron, netas de devoluciones y de lo ya liquidado.
+ * Hacia atrás: alta del lote, transferencias entre depósitos y la orden de producción con sus lotes de insumo.
+ * Devoluciones, liquidaciones y producción son módulos opcionales: si sus tablas no existen se omiten.
+ */
+export const fetchTrazabilidadLote = async (numeroLote: string, productoId: string): Promise<TrazabilidadLote | null> => {
+    const numero = numeroLote.trim();
+    console.log(`[${SERVICE_NAME}] Tracing lot '${numero}' of product ${productoId}.`);
+
+    const { data: lotesData, error: lotesError } = await supabase
+        .from('lotes')
+        .select('*, productos(nombre), depositos(nombre)')
+        .eq('numero_lote', numero)
+        .eq('producto_id', productoId)
+        .order('created_at', { ascending: true });
+    if (lotesError) {
+        console.error(`[${SERVICE_NAME}] Error fetching lots:`, lotesError);
+        throw new Error(`No se pudo buscar el lote: ${lotesError.message}`);
+    }
+    if (!lotesData || lotesData.length === 0) return null;
+
+    const loteIds = lotesData.map((l: any) => l.id);
+
+    const [depositosRes, transferenciasRes, itemsRes] = await Promise.all([
+        supabase.from('depositos').select('id, nombre'),
+        supabase
+            .from('transferencias_stock')
+            .select('fecha, cantidad, lote_origen_id, lote_destino_id, deposito_origen_id, deposito_destino_id, notas')
+            .in('lote_origen_id', loteIds)
+            .order('fecha', { ascending: true }),
+        supabase
+            .from('venta_items')
+            .select('id, cantidad, lote_id, productos(nombre), ventas(id, fecha, estado, tipo, cliente_id, clientes(id, nombre, representante, telefono, email, localidad, provincia))')
+            .in('lote_id', loteIds),
+    ]);
+    if (depositosRes.error) throw new Error(`No se pudieron cargar los depósitos: ${depositosRes.error.message}`);
+    if (transferenciasRes.error) throw new Error(`No se pudieron cargar las transferencias: ${transferenciasRes.error.message}`);
+    if (itemsRes.error) throw new Error(`No se pudieron cargar las ventas del lote: ${itemsRes.error.message}`);
+
+    const nombreDeposito = new Map<string, string>((depositosRes.data || []).map((d: any) => [d.id, d.nombre]));
+    const transferencias = transferenciasRes.data || [];
+    const items: any[] = (itemsRes.data || []).filter((i: any) => i.ventas && !ESTADOS_SIN_ENTREGA.includes(i.ventas.estado));
+
+    // Devoluciones (notas de crédito) de esos items
+    const devueltoPorItem = new Map<string, number>();
+    const devoluciones: MovimientoLote[] = [];
+    if (items.length > 0) {
+        const { data: ncData, error: ncError } = await supabase
+            .from('nota_credito_items')
+            .select('venta_item_id, cantidad, destino, lote_origen_id, notas_credito(numero, fecha)')
+            .in('venta_item_id', items.map((i: any) => i.id));
+        if (ncError) {
+            console.warn(`[${SERVICE_NAME}] Could not load returns, continuing without them:`, ncError.message);
+        } else {
+            for (const nc of (ncData || []) as any[]) {
+                devueltoPorItem.set(nc.venta_item_id, (devueltoPorItem.get(nc.venta_item_id) || 0) + nc.cantidad);
+                const lote = lotesData.find((l: any) => l.id === nc.lote_origen_id);
+                devoluciones.push({
+                    fecha: nc.notas_credito?.fecha,
+                    tipo: 'Devolución',
+                    descripcion: `Nota de crédito #${nc.notas_credito?.numero} (${nc.destino === 'lote_original' ? 'vuelve al lote' : nc.destino})`,
+                    depositoNombre: lote?.depositos?.nombre || '-',
+                    cantidad: nc.cantidad,
+                });
+            }
+        }
+    }
+
+    // Liquidaciones de consignación: lo vendido pasa a la venta de la liquidación (mismo lote) y lo
+    // devuelto vuelve a stock, así que ninguna de las dos cosas sigue en poder del consignatario
+    const liquidadoPorItem = new Map<string, { vendidas: number; devueltas: number }>();
+    const ventasDeLiquidacion = new Set<string>();
+    const consignaciones = items.filter((i: any) => i.ventas.tipo === 'Consignacion');
+    if (items.length > 0) {
+        const [liqItemsRes, liqVentasRes] = await Promise.all([
+            consignaciones.length > 0
+                ? supabase
+                    .from('liquidacion_consignacion_items')
+                    .select('venta_item_id, cantidad_vendida, cantidad_devuelta, lote_destino_id, liquidaciones_consignacion(numero, fecha)')
+                    .in('venta_item_id', consignaciones.map((i: any) => i.id))
+                : Promise.resolve({ data: [], error: null }),
+            supabase
+                .from('liquidaciones_consignacion')
+                .select('venta_id')
+                .in('venta_id', Array.from(new Set(items.map((i: any) => i.ventas.id)))),
+        ]);
+        if (liqItemsRes.error || liqVentasRes.error) {
+            console.warn(`[${SERVICE_NAME}] Could not load consignment settlements, continuing without them:`, (liqItemsRes.error || liqVentasRes.error)!.message);
+        } else {
+            (liqVentasRes.data || []).forEach((l: any) => ventasDeLiquidacion.add(l.venta_id));
+            for (const li of (liqItemsRes.data || []) as any[]) {
+                const previo = liquidadoPorItem.get(li.venta_item_id) || { vendidas: 0, devueltas: 0 };
+                liquidadoPorItem.set(li.venta_item_id, { vendidas: previo.vendidas + li.cantidad_vendida, devueltas: previo.devueltas + li.cantidad_devuelta });
+                if (li.cantidad_devuelta > 0) {
+                    devoluciones.push({
+                        fecha: li.liquidaciones_consignacion?.fecha,
+                        tipo: 'Devolución',
+                        descripcion: `Liquidación de consignación #${li.liquidaciones_consignacion?.numero}`,
+                        depositoNombre: lotesData.find((l: any) => l.id === li.lote_destino_id)?.depositos?.nombre || '-',
+                        cantidad: li.cantidad_devuelta,
+                    });
+                }
+            }
+        }
+    }
+
+    // Producción: orden que generó el lote y lotes de insumo consumidos
+    let produccion: ProduccionLote[] = [];
+    const { data: ordenesData, error: ordenesError } = await supabase
+        .from('ordenes_produccion')
+        .select('numero, cantidad, completada_at, lote_id, orden_produccion_consumos(cantidad, insumos(nombre, unidad), lotes_insumo(numero_lote, proveedor, fecha_vencimiento))')
+        .in('lote_id', loteIds);
+    if (ordenesError) {
+        console.warn(`[${SERVICE_NAME}] Could not load production orders, continuing without them:`, ordenesError.message);
+    } else {
+        produccion = (ordenesData || []).map((o: any) => ({
+            ordenNumero: o.numero,
+            fecha: o.completada_at,
+            cantidad: o.cantidad,
+            insumos: (o.orden_produccion_consumos || []).map((c: any) => ({
+                insumoNombre: c.insumos?.nombre || 'N/A',
+                unidad: c.insumos?.unidad || '',
+                numeroLote: c.lotes_insumo?.numero_lote || '-',
+                proveedor: c.lotes_insumo?.proveedor || null,
+                fechaVencimiento: c.lotes_insumo?.fecha_vencimiento || null,
+                cantidad: Number(c.cantidad),
+            })),
+        }));
+    }
+
+    // transferir_stock crea el lote destino en la misma transacción que registra la transferencia;
+    // si el lote ya existía (p. ej. mercadería que vuelve a su depósito) su origen sigue siendo el alta.
+    const transferenciaDeAlta = (l: any) => transferencias.find((t: any) =>
+        t.lote_destino_id === l.id && (!l.created_at || new Date(t.fecha).getTime() - new Date(l.created_at).getTime() < 5000));
+
+    const lotes: LoteTrazado[] = lotesData.map((l: any) => {
+        const transferencia = transferenciaDeAlta(l);
+        const orden = (ordenesData || []).find((o: any) => o.lote_id === l.id);
+        let origen = 'Alta manual de producción';
+        if (orden) origen = `Orden de producción #${orden.numero}`;
+        else if (transferencia) origen = `Transferencia desde ${nombreDeposito.get(transferencia.deposito_origen_id) || 'otro depósito'}`;
+        return {
+            id: l.id,
+            productoId: l.producto_id,
+            productoNombre: l.productos?.nombre || 'N/A',
+            depositoId: l.deposito_id,
+            depositoNombre: l.depositos?.nombre || 'N/A',
+            cantidadInicial: l.cantidad_inicial,
+            cantidadActual: l.cantidad_actual,
+            fechaVencimiento: l.fecha_vencimiento,
+            fechaAlta: l.created_at || null,
+            origen,
+        };
+    });
+
+    // En la consignación queda lo que no se liquidó; lo vendido figura en la venta de la liquidación
+    const entregas: EntregaLote[] = items.map((i: any) => {
+        const liquidado = liquidadoPorItem.get(i.id) || { vendidas: 0, devueltas: 0 };
+        return {
+            ventaId: i.ventas.id,
+            fecha: i.ventas.fecha,
+            estado: i.ventas.estado,
+            tipo: i.ventas.tipo,
+            clienteId: i.ventas.cliente_id,
+            clienteNombre: i.ventas.clientes?.nombre || 'Consumidor final',
+            productoNombre: i.productos?.nombre || 'N/A',
+            depositoNombre: lotes.find(l => l.id === i.lote_id)?.depositoNombre || '-',
+            cantidad: i.cantidad - liquidado.vendidas,
+            cantidadDevuelta: (devueltoPorItem.get(i.id) || 0) + liquidado.devueltas,
+        };
+    }).sort((a, b) => a.fecha.localeCompare(b.fecha));
+
+    // Historial por depósito: altas (sin contar las copias creadas por transferencias), transferencias, salidas y devoluciones
+    const movimientos: MovimientoLote[] = [
+        ...lotes
+            .filter(l => !l.origen.startsWith('Transferencia'))
+            .map(l => ({
+                fecha: l.fechaAlta || '',
+                tipo: 'Alta' as const,
+                descripcion: l.origen,
+                depositoNombre: l.depositoNombre,
+                cantidad: l.cantidadInicial,
+            })),
+        ...transferencias.map((t: any) => ({
+            fecha: t.fecha,
+            tipo: 'Transferencia' as const,
+            descripcion: `${nombreDeposito.get(t.deposito_origen_id) || '?'} → ${nombreDeposito.get(t.deposito_destino_id) || '?'}${t.notas ? ` (${t.notas})` : ''}`,
+            depositoNombre: nombreDeposito.get(t.deposito_destino_id) || '-',
+            cantidad: t.cantidad,
+        })),
+        // La venta de una liquidación no mueve stock: las unidades salieron al consignar
+        ...items.filter((i: any) => !ventasDeLiquidacion.has(i.ventas.id)).map((i: any) => ({
+            fecha: i.ventas.fecha,
+            tipo: 'Venta' as const,
+            descripcion: `${i.ventas.tipo === 'Consignacion' ? 'Consignación' : 'Venta'} a ${i.ventas.clientes?.nombre || 'Consumidor final'}`,
+            depositoNombre: lotes.find(l => l.id === i.lote_id)?.depositoNombre || '-',
+            cantidad: -i.cantidad,
+        })),
+        ...devoluciones,
+    ].sort((a, b) => (a.fecha || '').localeCompare(b.fecha || ''));
+
+    // Lista de contactos: un registro por cliente con unidades todavía en su poder
+    const contactosMap = new Map<string, ContactoRecall>();
+    for (const i of items) {
+        const cliente = i.ventas.clientes;
+        if (!cliente) continue;
+        const liquidado = liquidadoPorItem.get(i.id) || { vendidas: 0, devueltas: 0 };
+        const neto = i.cantidad - liquidado.vendidas - liquidado.devueltas - (devueltoPorItem.get(i.id) || 0);
+        if (neto <= 0) continue;
+        const contacto: ContactoRecall = contactosMap.get(cliente.id) || {
+            clienteId: cliente.id,
+            nombre: cliente.nombre,
+            representante: cliente.representante,
+            telefono: cliente.telefono,
+            email: cliente.email,
+            localidad: cliente.localidad,
+            provincia: cliente.provincia,
+            unidades: 0,
+            ventas: [],
+        };
+        contacto.unidades += neto;
+        const ref = i.ventas.id.substring(0, 8);
+        if (!contacto.ventas.includes(ref)) contacto.ventas.push(ref);
+        contactosMap.set(cliente.id, contacto);
+    }
+
+    const transferidas = transferencias.reduce((sum: number, t: any) => sum + t.cantidad, 0);
+    return {
+        numeroLote: numero,
+        lotes,
+        movimientos,
+        entregas,
+        produccion,
+        contactos: Array.from(contactosMap.values()).sort((a, b) => a.nombre.localeCompare(b.nombre)),
+        unidadesProducidas: lotes.reduce((sum, l) => sum + l.cantidadInicial, 0) - transferidas,
+        unidadesEntregadas: entregas.reduce((sum, e) => sum + e.cantidad - e.cantidadDevuelta, 0),
+        unidadesEnStock: lotes.reduce((sum, l) => sum + l.cantidadActual, 0),
+    };
+};
+
+// --- Exportación de la lista de recall ---
+
+const formatFecha = (iso: string | null) => iso ? new Date(iso).toLocaleDateString('es-AR') : '-';
+const nombreArchivo = (numeroLote: string, extension: string) =>
+    `Recall_Lote_${numeroLote.replace(/[^\w-]+/g, '_')}_${new Date().toLocaleDateString('es-AR').replace(/\//g, '-')}.${extension}`;
+
+export const exportarContactosRecallCsv = (traza: TrazabilidadLote) => {
+    const celda = (valor: string | number | null) => `"${String(valor ?? '').replace(/"/g, '""')}"`;
+    const filas = [
+        ['Cliente', 'Representante', 'Teléfono', 'Email', 'Localidad', 'Provincia', 'Unidades', 'Ventas'],
+        ...traza.contactos.map(c => [c.nombre, c.representante, c.telefono, c.email, c.localidad, c.provincia, c.unidades, c.ventas.join(' ')]),
+    ];
+    // BOM para que Excel respete los acentos
+    const csv = '\uFEFF' + filas.map(f => f.map(celda).join(';')).join('\r\n');
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8;' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = nombreArchivo(traza.numeroLote, 'csv');
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export const descargarTrazabilidadPdf = (traza: TrazabilidadLote) => {
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+    const ancho = pdf.internal.pageSize.getWidth();
+    const alto = pdf.internal.pageSize.getHeight();
+    const margen = 12;
+    const productos = Array.from(new Set(traza.lotes.map(l => l.productoNombre))).join(', ');
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(16);
+    pdf.text(`Recall - Lote ${traza.numeroLote}`, margen, margen + 6);
+    pdf.setFontSize(11);
+    pdf.text(productos.substring(0, 90), margen, margen + 14);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.text(`Vence: ${formatFecha(traza.lotes[0].fechaVencimiento)}    Emitido: ${new Date().toLocaleDateString('es-AR')}`, margen, margen + 20);
+
+    let y = margen + 30;
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(`Producidas: ${traza.unidadesProducidas} u.    Entregadas a clientes: ${traza.unidadesEntregadas} u.    En stock: ${traza.unidadesEnStock} u.`, margen, y);
+    pdf.setFont('helvetica', 'normal');
+    for (const p of traza.produccion) {
+        y += 6;
+        const insumos = p.insumos.map(i => `${i.insumoNombre} (lote ${i.numeroLote})`).join(', ');
+        pdf.text(`Orden de producción #${p.ordenNumero} (${formatFecha(p.fecha)}): ${insumos}`.substring(0, 120), margen, y);
+    }
+
+    y += 14;
+    const encabezado = () => {
+        pdf.setFillColor(230, 230, 230);
+        pdf.rect(margen, y - 5, ancho - margen * 2, 7, 'F');
+        pdf.setFont('helvetica', 'bold');
+        pdf.text('Cliente', margen + 2, y);
+        pdf.text('Teléfono', 80, y);
+        pdf.text('Email', 115, y);
+        pdf.text('Unidades', ancho - margen - 2, y, { align: 'right' });
+        pdf.setFont('helvetica', 'normal');
+        y += 7;
+    };
+    encabezado();
+    for (const c of traza.contactos) {
+        if (y > alto - margen) {
+            pdf.addPage();
+            y = margen + 6;
+            encabezado();
+        }
+        pdf.text(c.nombre.substring(0, 34), margen + 2, y);
+        pdf.text((c.telefono || '-').substring(0, 18), 80, y);
+        pdf.text((c.email || '-').substring(0, 38), 115, y);
+        pdf.text(String(c.unidades), ancho - margen - 2, y, { align: 'right' });
+        y += 6;
+    }
+    if (traza.contactos.length === 0) pdf.text('Ningún cliente tiene unidades de este lote.', margen + 2, y);
+
+    pdf.save(nombreArchivo(traza.numeroLote, 'pdf'));
+};
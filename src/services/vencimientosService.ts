@@ -0,0 +1,217 @@
+import { supabase } from '../supabase';
+import { LoteProximoVencer, PromocionVencimiento, PromoLote, TramoVencimiento } from '../types';
+import { CREAR_VENTA_SQL } from './ventasService';
+
+const SERVICE_NAME = 'VencimientosService';
+
+const VENCIMIENTOS_SQL = `-- Promociones para liquidar lotes próximos a vencer (se publican en el banner de la tienda)
+CREATE TABLE IF NOT EXISTS public.promociones_vencimiento (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    lote_id uuid NOT NULL REFERENCES public.lotes(id) ON DELETE CASCADE,
+    producto_id uuid NOT NULL REFERENCES public.productos(id) ON DELETE CASCADE,
+    descuento_pct numeric NOT NULL CHECK (descuento_pct > 0 AND descuento_pct <= 90),
+    mensaje text NOT NULL,
+    vigente_hasta date,
+    activa boolean NOT NULL DEFAULT true,
+    usuario_id uuid DEFAULT auth.uid(),
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS promociones_vencimiento_lote_activa_idx ON public.promociones_vencimiento (lote_id) WHERE activa;
+
+ALTER TABLE public.promociones_vencimiento ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Promociones activas visibles en la tienda" ON public.promociones_vencimiento;
+CREATE POLICY "Promociones activas visibles en la tienda" ON public.promociones_vencimiento FOR SELECT TO anon USING (activa);
+DROP POLICY IF EXISTS "Promociones para usuarios autenticados" ON public.promociones_vencimiento;
+CREATE POLICY "Promociones para usuarios autenticados" ON public.promociones_vencimiento FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Cuando el lote se agota la promoción deja de publicarse (si no, el descuento pasaría a lotes frescos)
+CREATE OR REPLACE FUNCTION public.finalizar_promociones_lote_agotado()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF NEW.cantidad_actual <= 0 THEN
+        UPDATE promociones_vencimiento SET activa = false WHERE lote_id = NEW.id AND activa;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+DROP TRIGGER IF EXISTS trg_finalizar_promociones_lote_agotado ON public.lotes;
+CREATE TRIGGER trg_finalizar_promociones_lote_agotado AFTER UPDATE OF cantidad_actual ON public.lotes
+FOR EACH ROW EXECUTE FUNCTION public.finalizar_promociones_lote_agotado();
+
+-- crear_venta con bloqueo de lotes vencidos
+${CREAR_VENTA_SQL}`;
+
+const isMissingObject = (error: any) =>
+    ['42P01', 'PGRST205'].includes(error?.code) ||
+    error?.message?.includes('promociones_vencimiento');
+
+const vencimientosSqlError = (error: any) => ({
+    ...error,
+    message: "Error de base de datos: Falta la tabla de promociones de vencimiento.",
+    details: "El tablero de vencimientos publica descuentos para los lotes próximos a vencer, y las ventas pasan a rechazar lotes vencidos.",
+    hint: "Ejecuta el script SQL de abajo. También actualiza la función crear_venta para que bloquee los lotes vencidos.",
+    sql: VENCIMIENTOS_SQL,
+});
+
+export const TRAMOS_VENCIMIENTO: TramoVencimiento[] = ['Vencido', '30 días', '60 días', '90 días'];
+
+// Descuento sugerido según cuánto falta para el vencimiento. Un lote vencido no se vende, no se promociona.
+const DESCUENTO_POR_TRAMO: Record<TramoVencimiento, number> = {
+    'Vencido': 0,
+    '30 días': 30,
+    '60 días': 20,
+    '90 días': 10,
+};
+
+const tramoPorDias = (dias: number): TramoVencimiento =>
+    dias < 0 ? 'Vencido' : dias <= 30 ? '30 días' : dias <= 60 ? '60 días' : '90 días';
+
+const fechaISO = (fecha: Date) => fecha.toISOString().split('T')[0];
+
+const diasHasta = (fechaVencimiento: string, hoy: string) =>
+    Math.round((new Date(fechaVencimiento.slice(0, 10)).getTime() - new Date(hoy).getTime()) / 86400000);
+
+const mapPromocion = (p: any): PromocionVencimiento => ({
+    id: p.id,
+    loteId: p.lote_id,
+    productoId: p.producto_id,
+    descuentoPct: Number(p.descuento_pct),
+    mensaje: p.mensaje,
+    vigenteHasta: p.vigente_hasta,
+    activa: p.activa,
+    unidades: p.lotes?.cantidad_actual ?? 0,
+});
+
+/**
+ * Lotes con stock que vencen dentro de horizonteDias (incluye los ya vencidos), valuados a costo_laboratorio.
+ */
+export const fetchLotesPorVencer = async (horizonteDias = 90): Promise<LoteProximoVencer[]> => {
+    console.log(`[${SERVICE_NAME}] Fetching lots expiring within ${horizonteDias} days.`);
+    const hoy = fechaISO(new Date());
+    const limite = new Date();
+    limite.setDate(limite.getDate() + horizonteDias);
+
+    const { data: lotesData, error: lotesError } = await supabase
+        .from('lotes')
+        .select('id, producto_id, numero_lote, deposito_id, fecha_vencimiento, cantidad_actual, costo_laboratorio, productos(nombre), depositos(nombre)')
+        .gt('cantidad_actual', 0)
+        .not('fecha_vencimiento', 'is', null)
+        .lte('fecha_vencimiento', fechaISO(limite))
+        .order('fecha_vencimiento', { ascending: true });
+    if (lotesError) {
+        console.error(`[${SERVICE_NAME}] Error fetching expiring lots:`, lotesError);
+        throw new Error(`No se pudieron cargar los lotes por vencer: ${lotesError.message}`);
+    }
+
+    const { data: promosData, error: promosError } = await supabase
+        .from('promociones_vencimiento')
+        .select('*, lotes(cantidad_actual)')
+        .eq('activa', true);
+    if (promosError) {
+        console.error(`[${SERVICE_NAME}] Error fetching expiry promotions:`, promosError);
+        throw isMissingObject(promosError) ? vencimientosSqlError(promosError) : promosError;
+    }
+    const promociones = (promosData || []).map(mapPromocion);
+
+    return (lotesData || []).map((l: any) => {
+        const diasRestantes = diasHasta(l.fecha_vencimiento, hoy);
+        const tramo = tramoPorDias(diasRestantes);
+        const costoUnitario = Number(l.costo_laboratorio) || 0;
+        return {
+            id: l.id,
+            productoId: l.producto_id,
+            productoNombre: l.productos?.nombre || 'N/A',
+            numeroLote: l.numero_lote,
+            depositoId: l.deposito_id,
+            depositoNombre: l.depositos?.nombre || 'N/A',
+            fechaVencimiento: l.fecha_vencimiento,
+            diasRestantes,
+            tramo,
+            cantidad: l.cantidad_actual,
+            costoUnitario,
+            valorCosto: l.cantidad_actual * costoUnitario,
+            descuentoSugerido: DESCUENTO_POR_TRAMO[tramo],
+            promocion: promociones.find(p => p.loteId === l.id) || null,
+        };
+    });
+};
+
+/**
+ * Conteo liviano para la alerta del Dashboard. Solo lee lotes, así que funciona aunque no esté instalado el script.
+ */
+export const fetchResumenVencimientos = async (): Promise<{ vencidos: number; proximos30: number }> => {
+    const hoy = fechaISO(new Date());
+    const limite = new Date();
+    limite.setDate(limite.getDate() + 30);
+
+    const { data, error } = await supabase
+        .from('lotes')
+        .select('fecha_vencimiento')
+        .gt('cantidad_actual', 0)
+        .not('fecha_vencimiento', 'is', null)
+        .lte('fecha_vencimiento', fechaISO(limite));
+    if (error) {
+        console.warn(`[${SERVICE_NAME}] Could not load expiry summary:`, error.message);
+        return { vencidos: 0, proximos30: 0 };
+    }
+
+    const vencidos = (data || []).filter((l: any) => l.fecha_vencimiento.slice(0, 10) < hoy).length;
+    return { vencidos, proximos30: (data || []).length - vencidos };
+};
+
+export const publicarPromocionVencimiento = async (lote: LoteProximoVencer, descuentoPct: number, mensaje: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Publishing ${descuentoPct}% promotion for lot ${lote.numeroLote}.`);
+    const { error } = await (supabase.from('promociones_vencimiento') as any).insert([{
+        lote_id: lote.id,
+        producto_id: lote.productoId,
+        descuento_pct: descuentoPct,
+        mensaje: mensaje.trim() || `${descuentoPct}% OFF en ${lote.productoNombre}`,
+        // La promo dura hasta el vencimiento del lote; al día siguiente el lote ya no se puede vender.
+        vigente_hasta: lote.fechaVencimiento.slice(0, 10),
+    }]);
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error publishing promotion:`, error);
+        if (isMissingObject(error)) throw vencimientosSqlError(error);
+        if (error.code === '23505') throw new Error('Este lote ya tiene una promoción activa.');
+        throw new Error(`No se pudo publicar la promoción: ${error.message}`);
+    }
+};
+
+export const finalizarPromocionVencimiento = async (promocionId: string): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Ending promotion ${promocionId}.`);
+    const { error } = await (supabase.from('promociones_vencimiento') as any)
+        .update({ activa: false })
+        .eq('id', promocionId);
+    if (error) throw new Error(`No se pudo finalizar la promoción: ${error.message}`);
+};
+
+/**
+ * Promociones vigentes para la tienda pública. Con `depositoIds` solo las de lotes que esa tienda despacha.
+ * Si la tabla no existe la tienda sigue sin promociones.
+ */
+export const fetchPromocionesActivas = async (depositoIds?: string[]): Promise<PromocionVencimiento[]> => {
+    const hoy = fechaISO(new Date());
+    let query = supabase
+        .from('promociones_vencimiento')
+        .select('*, lotes!inner(cantidad_actual, deposito_id)')
+        .eq('activa', true)
+        .or(`vigente_hasta.is.null,vigente_hasta.gte.${hoy}`);
+    if (depositoIds) query = query.in('lotes.deposito_id', depositoIds);
+    const { data, error } = await query;
+    if (error) {
+        console.warn(`[${SERVICE_NAME}] Could not load active promotions:`, error.message);
+        return [];
+    }
+    return (data || []).map(mapPromocion);
+};
+
+/** Promos vigentes por producto, la de mayor descuento primero. Cada una alcanza solo a las unidades de su lote. */
+export const descuentosPorProducto = (promociones: PromocionVencimiento[]): Record<string, PromoLote[]> =>
+    promociones.reduce((acc, p) => {
+        acc[p.productoId] = [...(acc[p.productoId] || []), { loteId: p.loteId, descuentoPct: p.descuentoPct, unidades: p.unidades }]
+            .sort((a, b) => b.descuentoPct - a.descuentoPct);
+        return acc;
+    }, {} as Record<string, PromoLote[]>);
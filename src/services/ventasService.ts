@@ -1,6 +1,8 @@
 import { supabase } from '../supabase';
-import { Venta, VentaItem, PuntoDeVenta, OrderItem } from '../types';
-import { fetchLotesParaVenta } from './stockService';
+import { Venta, VentaItem, PuntoDeVenta, OrderItem, VentaEstadoHistorial, MedioPagoRegla } from '../types';
+import { asignarLotesFEFO } from './stockService';
+import { fetchDepositosDespachoOnline } from './depositosService';
+import { REGLAS_PRECIO_SQL, precioConPromo } from './reglasPrecioService';
 
 const SERVICE_NAME = 'VentasService';
 
@@ -11,8 +13,18 @@ export interface VentaItemParaCrear {
     loteId: string;
 }
 
-export interface VentaToCreate extends Omit<Venta, 'id' | 'clienteNombre' | 'items'> {
+export interface VentaToCreate extends Omit<Venta, 'id' | 'clienteNombre' | 'items' | 'costoEnvio'> {
     items: VentaItemParaCrear[];
+    // Clave única por intento de compra. Si se reenvía la misma clave, la RPC devuelve la venta ya creada.
+    idempotencyKey?: string;
+    // Pedidos web sin pagar: el stock queda reservado y se libera solo si vence la ventana configurada.
+    reservarStock?: boolean;
+    // Cupón a canjear. La RPC lo vuelve a validar contra los ítems guardados y rechaza la venta si no coincide.
+    cupon?: { codigo: string; email: string | null; envio: number; descuento: number } | null;
+    // Costo de envío cobrado. En los pedidos web la RPC lo recalcula y solo compara el total del navegador.
+    envio?: number;
+    // Pedidos web: con el medio de pago la RPC aplica las reglas de precio de alcance Pedido.
+    medioPago?: MedioPagoRegla | null;
 }
 
 const formatFechaLocal = (fechaStr: string) => {
@@ -66,7 +78,10 @@ export const fetchVentas = async (): Promise<Venta[]> => {
                 items: items,
                 observaciones: v.observaciones,
                 puntoDeVenta: v.punto_de_venta,
+                costoEnvio: Number(v.costo_envio) || 0,
                 tienda: v.tienda || null,
+                cuponCodigo: v.cupon_codigo || null,
+                cuponDescuento: v.cupon_descuento ?? null,
             };
         });
     }
@@ -105,6 +120,9 @@ export const fetchVentaPorId = async (id: string): Promise<Venta | null> => {
             observaciones: data.observaciones,
             puntoDeVenta: data.punto_de_venta,
             tienda: data.tienda || null,
+            cuponCodigo: data.cupon_codigo || null,
+            cuponDescuento: data.cupon_descuento ?? null,
+            costoEnvio: Number(data.costo_envio) || 0,
         };
     } catch (error) {
         console.error("Error fetching sale by ID:", error);
@@ -112,56 +130,389 @@ export const fetchVentaPorId = async (id: string): Promise<Venta | null> => {
     }
 };
 
+// Alta transaccional de ventas. También lo incluye el script de vencimientos, que agrega el bloqueo de lotes vencidos.
+export const CREAR_VENTA_SQL = `-- 1. Clave de idempotencia para evitar ventas duplicadas por reintentos
+ALTER TABLE public.ventas ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS ventas_idempotency_key_idx ON public.ventas (idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+-- 2. Reservas de stock para pedidos web pendientes de pago
+CREATE TABLE IF NOT EXISTS public.reservas_stock (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    venta_id uuid NOT NULL REFERENCES public.ventas(id) ON DELETE CASCADE,
+    producto_id uuid NOT NULL REFERENCES public.productos(id),
+    lote_id uuid NOT NULL REFERENCES public.lotes(id),
+    cantidad integer NOT NULL CHECK (cantidad > 0),
+    estado text NOT NULL DEFAULT 'Activa' CHECK (estado IN ('Activa', 'Confirmada', 'Liberada')),
+    expira_en timestamptz NOT NULL,
+    created_at timestamptz DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS reservas_stock_activas_idx ON public.reservas_stock (expira_en) WHERE estado = 'Activa';
+ALTER TABLE public.reservas_stock ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Staff can read reservations" ON public.reservas_stock;
+CREATE POLICY "Staff can read reservations" ON public.reservas_stock FOR SELECT TO authenticated USING (true);
+
+-- 3. El stock se descuenta dentro de crear_venta (evita doble descuento)
+DROP TRIGGER IF EXISTS tr_venta_items_consolidado ON public.venta_items;
+DROP TRIGGER IF EXISTS trigger_descontar_stock_despues_de_venta ON public.venta_items;
+DROP TRIGGER IF EXISTS tr_descontar_stock_venta ON public.venta_items;
+
+-- 4. Cotización de los pedidos de la tienda con el mismo motor que reglasPrecioService: reglas de Línea
+-- (sin medio de pago, como el carrito), promo del lote por vencer solo en las líneas de ese lote y
+-- reglas de Pedido con el medio elegido. p_items: [{producto_id, lote_id, cantidad}]
+${REGLAS_PRECIO_SQL}
+
+ALTER TABLE public.ventas ADD COLUMN IF NOT EXISTS costo_envio numeric NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.cotizar_pedido_tienda(p_items jsonb, p_medio_pago text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_producto record;
+    v_regla reglas_precio%ROWTYPE;
+    v_precios jsonb := '{}'::jsonb;
+    v_promos jsonb := '{}'::jsonb;
+    v_items jsonb;
+    v_subtotal_base numeric;
+    v_subtotal numeric;
+    v_precio numeric;
+    v_precio_nivel numeric;
+    v_minimo integer;
+    v_nivel boolean;
+    v_totales numeric[];
+    v_restantes numeric[];
+    v_cantidades integer[];
+    v_lineas text[];
+    v_unidades integer;
+    v_monto numeric;
+    v_rebaja numeric;
+    v_descuento numeric := 0;
+    v_aplica boolean;
+BEGIN
+    SELECT COALESCE(SUM(COALESCE(p.precio_publico, 0) * t.cantidad), 0) INTO v_subtotal_base
+    FROM (SELECT (i->>'producto_id')::uuid AS producto_id, SUM((i->>'cantidad')::integer) AS cantidad FROM jsonb_array_elements(p_items) i GROUP BY 1) t
+    JOIN productos p ON p.id = t.producto_id;
+
+    -- Reglas de Línea: la cantidad es la del producto en todo el pedido, aunque se reparta en varios lotes
+    FOR v_producto IN
+        SELECT p.id, p.linea, COALESCE(p.precio_publico, 0) AS precio_publico, p.precio_comercio, p.precio_mayorista,
+               p.cantidad_minima_comercio, p.cantidad_minima_mayorista, t.cantidad
+        FROM (SELECT (i->>'producto_id')::uuid AS producto_id, SUM((i->>'cantidad')::integer) AS cantidad FROM jsonb_array_elements(p_items) i GROUP BY 1) t
+        JOIN productos p ON p.id = t.producto_id
+    LOOP
+        v_precio := v_producto.precio_publico;
+        v_nivel := false;
+        FOR v_regla IN
+            SELECT * FROM reglas_precio r
+            WHERE r.activa AND r.alcance = 'Línea'
+              AND (cardinality(r.canales) = 0 OR 'Tienda online' = ANY(r.canales))
+              AND cardinality(r.medios_pago) = 0 AND cardinality(r.lista_precio_ids) = 0
+              AND (r.fecha_desde IS NULL OR current_date >= r.fecha_desde)
+              AND (r.fecha_hasta IS NULL OR current_date <= r.fecha_hasta)
+              AND (cardinality(r.lineas) = 0 OR v_producto.linea = ANY(r.lineas))
+              AND (r.monto_minimo IS NULL OR v_subtotal_base >= r.monto_minimo)
+            ORDER BY r.prioridad
+        LOOP
+            IF v_regla.accion = 'Nivel de precio' THEN
+                -- Un solo nivel por línea, y solo si baja el precio
+                CONTINUE WHEN v_nivel;
+                v_precio_nivel := COALESCE(CASE v_regla.nivel_precio WHEN 'Mayorista' THEN v_producto.precio_mayorista ELSE v_producto.precio_comercio END, 0);
+                v_minimo := COALESCE(v_regla.cantidad_minima, CASE v_regla.nivel_precio WHEN 'Mayorista' THEN v_producto.cantidad_minima_mayorista ELSE v_producto.cantidad_minima_comercio END);
+                CONTINUE WHEN COALESCE(v_minimo, 0) = 0 OR v_producto.cantidad < v_minimo OR v_precio_nivel <= 0 OR v_precio_nivel >= v_precio;
+                v_precio := v_precio_nivel;
+                v_nivel := true;
+            ELSE
+                CONTINUE WHEN v_regla.cantidad_minima IS NOT NULL AND v_producto.cantidad < v_regla.cantidad_minima;
+                v_precio := round(v_precio * (100 - v_regla.porcentaje) / 100, 2);
+            END IF;
+            EXIT WHEN v_regla.exclusiva;
+        END LOOP;
+        v_precios := v_precios || jsonb_build_object(v_producto.id::text, v_precio);
+    END LOOP;
+
+    -- Promo por vencimiento: solo las unidades que salen del lote promocionado (script de vencimientos)
+    IF to_regclass('public.promociones_vencimiento') IS NOT NULL THEN
+        SELECT COALESCE(jsonb_object_agg(lote_id::text, pct), '{}'::jsonb) INTO v_promos
+        FROM (
+            SELECT lote_id, MAX(descuento_pct) AS pct FROM promociones_vencimiento
+            WHERE activa AND (vigente_hasta IS NULL OR vigente_hasta >= current_date)
+            GROUP BY lote_id
+        ) pr;
+    END IF;
+
+    SELECT jsonb_agg(i || jsonb_build_object('precio_unitario',
+               round((v_precios->>(i->>'producto_id'))::numeric * (100 - COALESCE((v_promos->>(i->>'lote_id'))::numeric, 0)) / 100, 2))
+           ORDER BY n)
+    INTO v_items
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS x(i, n);
+
+    SELECT array_agg((i->>'cantidad')::integer * (i->>'precio_unitario')::numeric ORDER BY n),
+           array_agg((i->>'cantidad')::integer ORDER BY n),
+           array_agg(p.linea ORDER BY n)
+    INTO v_totales, v_cantidades, v_lineas
+    FROM jsonb_array_elements(v_items) WITH ORDINALITY AS x(i, n)
+    JOIN productos p ON p.id = (i->>'producto_id')::uuid;
+    v_subtotal := COALESCE((SELECT SUM(t) FROM unnest(v_totales) t), 0);
+    v_restantes := v_totales;
+
+    -- Reglas de Pedido: cada descuento se aplica sobre lo que dejó el anterior
+    FOR v_regla IN
+        SELECT * FROM reglas_precio r
+        WHERE r.activa AND r.alcance = 'Pedido' AND r.accion = 'Descuento %'
+          AND (cardinality(r.canales) = 0 OR 'Tienda online' = ANY(r.canales))
+          AND (cardinality(r.medios_pago) = 0 OR p_medio_pago = ANY(r.medios_pago))
+          AND cardinality(r.lista_precio_ids) = 0
+          AND (r.fecha_desde IS NULL OR current_date >= r.fecha_desde)
+          AND (r.fecha_hasta IS NULL OR current_date <= r.fecha_hasta)
+        ORDER BY r.prioridad
+    LOOP
+        v_unidades := 0;
+        v_monto := 0;
+        v_aplica := false;
+        FOR n IN 1..COALESCE(array_length(v_totales, 1), 0) LOOP
+            IF cardinality(v_regla.lineas) = 0 OR v_lineas[n] = ANY(v_regla.lineas) THEN
+                v_aplica := true;
+                v_unidades := v_unidades + v_cantidades[n];
+                v_monto := v_monto + v_totales[n];
+            END IF;
+        END LOOP;
+        CONTINUE WHEN NOT v_aplica
+            OR (v_regla.cantidad_minima IS NOT NULL AND v_unidades < v_regla.cantidad_minima)
+            OR (v_regla.monto_minimo IS NOT NULL AND v_monto < v_regla.monto_minimo);
+
+        v_rebaja := 0;
+        FOR n IN 1..array_length(v_totales, 1) LOOP
+            IF cardinality(v_regla.lineas) = 0 OR v_lineas[n] = ANY(v_regla.lineas) THEN
+                v_rebaja := v_rebaja + v_restantes[n] * v_regla.porcentaje / 100;
+                v_restantes[n] := v_restantes[n] - v_restantes[n] * v_regla.porcentaje / 100;
+            END IF;
+        END LOOP;
+        v_descuento := v_descuento + round(v_rebaja, 2);
+        EXIT WHEN v_regla.exclusiva;
+    END LOOP;
+
+    RETURN jsonb_build_object('items', v_items, 'subtotal', round(v_subtotal, 2), 'descuento', round(v_descuento, 2));
+END;
+$$;
+
+-- 5. Función transaccional
+DROP FUNCTION IF EXISTS public.crear_venta(jsonb, jsonb, text);
+CREATE OR REPLACE FUNCTION public.crear_venta(p_venta jsonb, p_items jsonb, p_idempotency_key text DEFAULT NULL, p_reservar boolean DEFAULT false)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_venta_id uuid;
+    v_item jsonb;
+    v_lote record;
+    v_cantidad integer;
+    v_minutos integer;
+    -- La tienda online llama sin sesión: no se confía en estado ni totales del cliente
+    v_anonimo boolean := auth.uid() IS NULL AND auth.role() <> 'service_role';
+    v_subtotal numeric := (p_venta->>'subtotal')::numeric;
+    v_total numeric := (p_venta->>'total')::numeric;
+    v_envio numeric := GREATEST(COALESCE((p_venta->>'envio')::numeric, 0), 0);
+    v_items jsonb := p_items;
+    v_cotizacion jsonb;
+    v_descuento_cupon numeric;
+BEGIN
+    IF p_idempotency_key IS NOT NULL THEN
+        -- Serializa reintentos concurrentes con la misma clave
+        PERFORM pg_advisory_xact_lock(hashtext(p_idempotency_key));
+        SELECT id INTO v_venta_id FROM ventas WHERE idempotency_key = p_idempotency_key;
+        IF v_venta_id IS NOT NULL THEN
+            RETURN v_venta_id;
+        END IF;
+    END IF;
+
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'La venta debe tener al menos un producto.';
+    END IF;
+
+    -- Las reservas vencidas devuelven su stock antes de validar (script de reservas; pg_cron puede ir atrasado)
+    IF to_regprocedure('public.liberar_reservas_vencidas()') IS NOT NULL THEN
+        PERFORM liberar_reservas_vencidas();
+        PERFORM set_config('app.motivo_estado', '', true);
+    END IF;
+
+    -- Validar stock bloqueando los lotes involucrados
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        v_cantidad := (v_item->>'cantidad')::integer;
+        IF v_cantidad IS NULL OR v_cantidad < 1 THEN
+            RAISE EXCEPTION 'Cantidad inválida para el producto %.', v_item->>'producto_id';
+        END IF;
+
+        SELECT l.id, l.producto_id, l.numero_lote, l.cantidad_actual, l.fecha_vencimiento INTO v_lote
+        FROM lotes l WHERE l.id = (v_item->>'lote_id')::uuid FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'El lote % no existe.', v_item->>'lote_id';
+        END IF;
+        IF v_lote.producto_id <> (v_item->>'producto_id')::uuid THEN
+            RAISE EXCEPTION 'El lote % no pertenece al producto indicado.', v_lote.numero_lote;
+        END IF;
+        IF v_lote.fecha_vencimiento < current_date THEN
+            RAISE EXCEPTION 'El lote % venció el % y no se puede vender.', v_lote.numero_lote, to_char(v_lote.fecha_vencimiento, 'DD/MM/YYYY');
+        END IF;
+    END LOOP;
+
+    -- Validar totales por lote (un lote puede repetirse en varias líneas)
+    FOR v_lote IN
+        SELECT l.numero_lote, l.cantidad_actual, SUM((i->>'cantidad')::integer) AS solicitado
+        FROM jsonb_array_elements(p_items) i
+        JOIN lotes l ON l.id = (i->>'lote_id')::uuid
+        GROUP BY l.id, l.numero_lote, l.cantidad_actual
+    LOOP
+        IF v_lote.cantidad_actual < v_lote.solicitado THEN
+            RAISE EXCEPTION 'Stock insuficiente en el lote %. Solicitado: %, Disponible: %.', v_lote.numero_lote, v_lote.solicitado, v_lote.cantidad_actual;
+        END IF;
+    END LOOP;
+
+    -- Pedido anónimo: precios, descuentos y envío salen de la base; el cupón se descuenta después de canjearlo
+    IF v_anonimo THEN
+        v_cotizacion := cotizar_pedido_tienda(p_items, p_venta->>'medio_pago');
+        v_items := v_cotizacion->'items';
+        v_subtotal := (v_cotizacion->>'subtotal')::numeric;
+        -- Mismos valores que la tienda (PublicPriceListPage): envío gratis desde $30.000
+        v_envio := CASE WHEN v_subtotal >= 30000 THEN 0 ELSE 9800 END;
+        v_total := GREATEST(v_subtotal - (v_cotizacion->>'descuento')::numeric + v_envio, 0);
+    END IF;
+
+    INSERT INTO ventas (cliente_id, fecha, subtotal, iva, total, tipo, estado, costo_total, tipo_de_cambio, pago_1, observaciones, punto_de_venta, tienda, idempotency_key, costo_envio)
+    VALUES (
+        NULLIF(p_venta->>'cliente_id', '')::uuid,
+        (p_venta->>'fecha')::date,
+        v_subtotal,
+        CASE WHEN v_anonimo THEN 0 ELSE (p_venta->>'iva')::numeric END,
+        v_total,
+        CASE WHEN v_anonimo THEN 'Venta' ELSE p_venta->>'tipo' END,
+        CASE WHEN v_anonimo THEN 'Pendiente'::venta_estado ELSE (p_venta->>'estado')::venta_estado END,
+        (p_venta->>'costo_total')::numeric,
+        (p_venta->>'tipo_de_cambio')::numeric,
+        (p_venta->>'pago_1')::numeric,
+        p_venta->>'observaciones',
+        p_venta->>'punto_de_venta',
+        p_venta->>'tienda',
+        p_idempotency_key,
+        v_envio
+    )
+    RETURNING id INTO v_venta_id;
+
+    INSERT INTO venta_items (venta_id, producto_id, cantidad, precio_unitario, lote_id)
+    SELECT v_venta_id, (i->>'producto_id')::uuid, (i->>'cantidad')::integer, (i->>'precio_unitario')::numeric, (i->>'lote_id')::uuid
+    FROM jsonb_array_elements(v_items) i;
+
+    -- Tipo y referencia para el kardex
+    PERFORM set_config('app.movimiento_tipo', CASE WHEN NOT v_anonimo AND p_venta->>'tipo' = 'Consignacion' THEN 'Consignación' ELSE 'Venta' END, true);
+    PERFORM set_config('app.movimiento_referencia', 'Venta ' || upper(left(v_venta_id::text, 8)), true);
+    PERFORM set_config('app.movimiento_referencia_id', v_venta_id::text, true);
+
+    UPDATE lotes l SET cantidad_actual = l.cantidad_actual - t.cantidad
+    FROM (
+        SELECT (i->>'lote_id')::uuid AS lote_id, SUM((i->>'cantidad')::integer) AS cantidad
+        FROM jsonb_array_elements(p_items) i GROUP BY 1
+    ) t
+    WHERE l.id = t.lote_id;
+
+    -- La reserva mantiene el stock descontado hasta que se pague o venza la ventana
+    IF p_reservar THEN
+        SELECT NULLIF(valor::text, '')::numeric::integer INTO v_minutos FROM ajustes_sistema WHERE clave = 'RESERVA_MINUTOS';
+        INSERT INTO reservas_stock (venta_id, producto_id, lote_id, cantidad, expira_en)
+        SELECT v_venta_id, (i->>'producto_id')::uuid, (i->>'lote_id')::uuid, (i->>'cantidad')::integer, now() + make_interval(mins => COALESCE(v_minutos, 60))
+        FROM jsonb_array_elements(p_items) i;
+    END IF;
+
+    -- Cupón: canjear_cupon (script de cupones) lo valida y lo registra; si falla no se crea la venta
+    IF NULLIF(p_venta->>'cupon_codigo', '') IS NOT NULL THEN
+        v_descuento_cupon := canjear_cupon(v_venta_id, p_venta->>'cupon_codigo', p_venta->>'cupon_email',
+            CASE WHEN v_anonimo THEN v_envio ELSE COALESCE((p_venta->>'cupon_envio')::numeric, 0) END,
+            (p_venta->>'cupon_descuento')::numeric);
+    END IF;
+
+    -- El navegador cobra por la pasarela lo que calculó: si no coincide con el de la base, no se registra
+    IF v_anonimo THEN
+        v_total := GREATEST(v_total - COALESCE(v_descuento_cupon, 0), 0);
+        IF abs(v_total - COALESCE((p_venta->>'total')::numeric, 0)) > 0.01 THEN
+            RAISE EXCEPTION 'El total del pedido cambió: ahora es $%.', v_total;
+        END IF;
+        -- Con un cupón de envío gratis el envío no se cobró: no queda como parte del total
+        IF v_descuento_cupon IS NOT NULL THEN
+            IF EXISTS (SELECT 1 FROM cupones_canjes cc JOIN cupones c ON c.id = cc.cupon_id WHERE cc.venta_id = v_venta_id AND c.tipo = 'Envío gratis') THEN
+                v_envio := 0;
+            END IF;
+        END IF;
+        UPDATE ventas SET total = v_total, costo_envio = v_envio WHERE id = v_venta_id;
+    END IF;
+
+    RETURN v_venta_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.crear_venta(jsonb, jsonb, text, boolean) TO anon, authenticated;`;
+
 export const createVenta = async (ventaData: VentaToCreate): Promise<string> => {
-    let newVentaId: string | null = null;
+    console.log(`[${SERVICE_NAME}] Creating sale via RPC 'crear_venta' (key: ${ventaData.idempotencyKey || 'none'}).`);
     try {
-        const { data: ventaResult, error: ventaError } = await (supabase
-            .from('ventas') as any)
-            .insert([
-                {
-                    cliente_id: ventaData.clienteId,
-                    fecha: ventaData.fecha,
-                    subtotal: ventaData.subtotal,
-                    iva: ventaData.iva,
-                    total: ventaData.total,
-                    tipo: ventaData.tipo,
-                    estado: ventaData.estado,
-                    costo_total: ventaData.costoTotal,
-                    tipo_de_cambio: ventaData.tipoDeCambio,
-                    pago_1: ventaData.pago1,
-                    observaciones: ventaData.observaciones,
-                    punto_de_venta: ventaData.puntoDeVenta,
-                    tienda: ventaData.tienda,
-                }
-            ])
-            .select('id')
-            .single();
+        const { data, error } = await (supabase.rpc as any)('crear_venta', {
+            p_venta: {
+                cliente_id: ventaData.clienteId,
+                fecha: ventaData.fecha,
+                subtotal: ventaData.subtotal,
+                iva: ventaData.iva,
+                total: ventaData.total,
+                tipo: ventaData.tipo,
+                estado: ventaData.estado,
+                costo_total: ventaData.costoTotal ?? null,
+                tipo_de_cambio: ventaData.tipoDeCambio ?? null,
+                pago_1: ventaData.pago1 ?? null,
+                observaciones: ventaData.observaciones ?? null,
+                punto_de_venta: ventaData.puntoDeVenta ?? null,
+                tienda: ventaData.tienda ?? null,
+                cupon_codigo: ventaData.cupon?.codigo ?? null,
+                cupon_email: ventaData.cupon?.email ?? null,
+                cupon_envio: ventaData.cupon?.envio ?? null,
+                cupon_descuento: ventaData.cupon?.descuento ?? null,
+                envio: ventaData.envio ?? null,
+                medio_pago: ventaData.medioPago ?? null,
+            },
+            p_items: ventaData.items.map(item => ({
+                producto_id: item.productoId,
+                cantidad: item.cantidad,
+                precio_unitario: item.precioUnitario,
+                lote_id: item.loteId,
+            })),
+            p_idempotency_key: ventaData.idempotencyKey || null,
+            p_reservar: ventaData.reservarStock || false,
+        });
 
-        if (ventaError) throw ventaError;
-        newVentaId = ventaResult.id;
-        
-        const itemsToInsert = ventaData.items.map(item => ({
-            venta_id: newVentaId,
-            producto_id: item.productoId,
-            cantidad: item.cantidad,
-            precio_unitario: item.precioUnitario,
-            lote_id: item.loteId,
-        }));
+        if (error) throw error;
+        return data as string;
 
-        const { error: itemsError } = await (supabase
-            .from('venta_items') as any)
-            .insert(itemsToInsert);
-        
-        if (itemsError) {
-            await (supabase.from('ventas') as any).delete().eq('id', newVentaId);
-            throw itemsError;
+    } catch (error: any) {
+        console.error(`[${SERVICE_NAME}] ERROR DETECTED:`, error);
+
+        if (error.message?.includes('canjear_cupon')) {
+            throw {
+                ...error,
+                message: "No se pudo aplicar el cupón: la función 'canjear_cupon' no existe.",
+                hint: "Ejecuta el script SQL de la pantalla Cupones y vuelve a intentarlo.",
+            };
         }
 
-        return newVentaId;
+        const functionNotFound = error.code === '42883' || error.code === 'PGRST202' || error.message?.includes('function crear_venta') || error.message?.includes('Could not find the function');
+        if (functionNotFound) {
+            throw {
+                ...error,
+                message: "Error de base de datos: La función 'crear_venta' no existe.",
+                details: "Las ventas ahora se registran en una única transacción (cabecera, items y descuento de stock). Sin esta función no se pueden guardar ventas.",
+                hint: "SOLUCIÓN: Copia y ejecuta el código SQL de abajo en tu editor de Supabase. Reemplaza el trigger de stock de venta_items, ya que el descuento pasa a hacerse dentro de la función.",
+                sql: CREAR_VENTA_SQL
+            };
+        }
 
-    } catch (error: any) {
-        console.error(`[${SERVICE_NAME}] ERROR DETECTED:`, error);
-        
         // Manejo de error de columna faltante en la inserción
         if (error.message?.includes("column \"tienda\" of relation \"ventas\" does not exist") || error.message?.includes("'tienda' column")) {
             throw {
@@ -183,48 +534,318 @@ export const createVenta = async (ventaData: VentaToCreate): Promise<string> =>
             };
         }
 
-        if (error.code === 'P0001' || error.message?.toLowerCase().includes('stock')) {
-             throw {
+        if (error.code === 'P0001') {
+            // Errores de validación de crear_venta (stock, lotes): el mensaje ya es legible.
+            throw {
                 ...error,
-                message: "Error Crítico de Stock: La Base de Datos rechazó la venta.",
-                sql: `-- REPARACIÓN STOCK V7
-BEGIN;
-DROP TRIGGER IF EXISTS trigger_descontar_stock_despues_de_venta ON public.venta_items;
-DROP TRIGGER IF EXISTS tr_descontar_stock_venta ON public.venta_items;
-CREATE OR REPLACE FUNCTION public.procesar_stock_venta_v7() RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER AS $$
+                message: `La base de datos rechazó la venta: ${error.message}`,
+                hint: error.message?.includes('cupón')
+                    ? "Quita el cupón o vuelve a aplicarlo para ver el descuento actualizado."
+                    : error.message?.includes('total del pedido')
+                    ? "Los precios o promociones se actualizaron. Vuelve a cargar la tienda para ver los precios vigentes."
+                    : "Revisa el stock y el vencimiento de los lotes seleccionados y vuelve a intentarlo.",
+            };
+        }
+        throw error;
+    }
+};
+
+// Transiciones permitidas sin override. La misma tabla se valida en la RPC 'cambiar_estado_venta'.
+export const TRANSICIONES_ESTADO_VENTA: Record<Venta['estado'], Venta['estado'][]> = {
+    'Pendiente': ['Contactado', 'Pagada', 'Cancelada', 'Carrito Abandonado'],
+    'Contactado': ['Pendiente', 'Pagada', 'Cancelada', 'Carrito Abandonado'],
+    'Carrito Abandonado': ['Pendiente', 'Contactado', 'Pagada', 'Cancelada'],
+    'Pagada': ['Enviada', 'Cancelada'],
+    'Enviada': [],
+    'Cancelada': [],
+};
+
+export const isTransicionPermitida = (actual: Venta['estado'], nuevo: Venta['estado']): boolean =>
+    actual === nuevo || TRANSICIONES_ESTADO_VENTA[actual]?.includes(nuevo);
+
+const CAMBIAR_ESTADO_SQL = `-- 1. Historial de estados
+CREATE TABLE IF NOT EXISTS public.venta_estado_historial (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    venta_id uuid NOT NULL REFERENCES public.ventas(id) ON DELETE CASCADE,
+    estado_anterior text,
+    estado_nuevo text NOT NULL,
+    usuario_id uuid REFERENCES auth.users(id),
+    motivo text,
+    override_admin boolean NOT NULL DEFAULT false,
+    fecha timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS venta_estado_historial_venta_idx ON public.venta_estado_historial (venta_id, fecha);
+ALTER TABLE public.venta_estado_historial ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Staff can read sale status history" ON public.venta_estado_historial;
+CREATE POLICY "Staff can read sale status history" ON public.venta_estado_historial FOR SELECT TO authenticated USING (true);
+
+-- 2. Todo cambio de estado (RPC, webhook, liberación de reservas) queda registrado
+CREATE OR REPLACE FUNCTION public.registrar_historial_estado_venta()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER AS $$
 BEGIN
-    UPDATE public.lotes SET cantidad_actual = cantidad_actual - NEW.cantidad WHERE id = NEW.lote_id;
+    IF NEW.estado IS DISTINCT FROM OLD.estado THEN
+        INSERT INTO venta_estado_historial (venta_id, estado_anterior, estado_nuevo, usuario_id, motivo, override_admin)
+        VALUES (
+            NEW.id, OLD.estado::text, NEW.estado::text, auth.uid(),
+            COALESCE(NULLIF(current_setting('app.motivo_estado', true), ''), CASE WHEN auth.uid() IS NULL THEN 'Proceso automático' END),
+            COALESCE(NULLIF(current_setting('app.override_estado', true), '')::boolean, false)
+        );
+    END IF;
     RETURN NEW;
 END; $$;
-CREATE TRIGGER tr_venta_items_consolidado AFTER INSERT ON public.venta_items FOR EACH ROW EXECUTE FUNCTION public.procesar_stock_venta_v7();
-COMMIT;`
-             };
+DROP TRIGGER IF EXISTS tr_venta_estado_historial ON public.ventas;
+CREATE TRIGGER tr_venta_estado_historial AFTER UPDATE OF estado ON public.ventas
+FOR EACH ROW EXECUTE FUNCTION public.registrar_historial_estado_venta();
+
+-- 3. Unidades de la venta por lote, sin las ya devueltas en notas de crédito
+-- (esas volvieron al lote, a cuarentena o se dieron de baja al registrar la devolución)
+CREATE OR REPLACE FUNCTION public.venta_cantidades_por_lote(p_venta_id uuid)
+RETURNS TABLE (lote_id uuid, cantidad integer)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+    IF to_regclass('public.nota_credito_items') IS NULL THEN
+        RETURN QUERY
+        SELECT vi.lote_id, SUM(vi.cantidad)::integer FROM venta_items vi
+        WHERE vi.venta_id = p_venta_id AND vi.lote_id IS NOT NULL GROUP BY vi.lote_id;
+    ELSE
+        RETURN QUERY
+        SELECT vi.lote_id, SUM(vi.cantidad - COALESCE((SELECT SUM(n.cantidad) FROM nota_credito_items n WHERE n.venta_item_id = vi.id), 0))::integer
+        FROM venta_items vi
+        WHERE vi.venta_id = p_venta_id AND vi.lote_id IS NOT NULL GROUP BY vi.lote_id
+        HAVING SUM(vi.cantidad - COALESCE((SELECT SUM(n.cantidad) FROM nota_credito_items n WHERE n.venta_item_id = vi.id), 0)) > 0;
+    END IF;
+END;
+$$;
+
+-- 4. Cambio de estado con validación de transiciones y efectos secundarios
+CREATE OR REPLACE FUNCTION public.cambiar_estado_venta(p_venta_id uuid, p_nuevo_estado text, p_motivo text DEFAULT NULL, p_override boolean DEFAULT false)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_actual text;
+    v_permitidos text[];
+    v_es_admin boolean;
+    v_retiene_antes boolean;
+    v_retiene_despues boolean;
+    v_item record;
+    v_minutos integer;
+BEGIN
+    SELECT estado::text INTO v_actual FROM ventas WHERE id = p_venta_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'La venta % no existe.', p_venta_id;
+    END IF;
+    IF v_actual = p_nuevo_estado THEN
+        RETURN;
+    END IF;
+
+    v_permitidos := CASE v_actual
+        WHEN 'Pendiente' THEN ARRAY['Contactado', 'Pagada', 'Cancelada', 'Carrito Abandonado']
+        WHEN 'Contactado' THEN ARRAY['Pendiente', 'Pagada', 'Cancelada', 'Carrito Abandonado']
+        WHEN 'Carrito Abandonado' THEN ARRAY['Pendiente', 'Contactado', 'Pagada', 'Cancelada']
+        WHEN 'Pagada' THEN ARRAY['Enviada', 'Cancelada']
+        ELSE ARRAY[]::text[]
+    END;
+
+    IF NOT (p_nuevo_estado = ANY(v_permitidos)) THEN
+        IF NOT p_override THEN
+            RAISE EXCEPTION 'Transición no permitida: % → %.', v_actual, p_nuevo_estado;
+        END IF;
+        SELECT 'superadmin' = ANY(roles) INTO v_es_admin FROM public.profiles WHERE id = auth.uid();
+        IF NOT COALESCE(v_es_admin, false) AND auth.role() <> 'service_role' THEN
+            RAISE EXCEPTION 'Solo un superadmin puede forzar la transición % → %.', v_actual, p_nuevo_estado;
+        END IF;
+        IF COALESCE(trim(p_motivo), '') = '' THEN
+            RAISE EXCEPTION 'Debe indicar un motivo para forzar el cambio de estado.';
+        END IF;
+    END IF;
+
+    -- Una venta "retiene" stock salvo que esté cancelada o abandonada
+    v_retiene_antes := v_actual NOT IN ('Cancelada', 'Carrito Abandonado');
+    v_retiene_despues := p_nuevo_estado NOT IN ('Cancelada', 'Carrito Abandonado');
+
+    -- Referencia y motivo para el kardex
+    PERFORM set_config('app.movimiento_referencia', 'Venta ' || upper(left(p_venta_id::text, 8)), true);
+    PERFORM set_config('app.movimiento_referencia_id', p_venta_id::text, true);
+    PERFORM set_config('app.movimiento_motivo', COALESCE(p_motivo, ''), true);
+
+    IF v_retiene_antes AND NOT v_retiene_despues THEN
+        -- Reponer stock y liberar reservas
+        PERFORM set_config('app.movimiento_tipo', CASE WHEN p_nuevo_estado = 'Cancelada' THEN 'Venta cancelada' ELSE 'Carrito abandonado' END, true);
+        UPDATE lotes l SET cantidad_actual = l.cantidad_actual + t.cantidad
+        FROM venta_cantidades_por_lote(p_venta_id) t
+        WHERE l.id = t.lote_id;
+        UPDATE reservas_stock SET estado = 'Liberada' WHERE venta_id = p_venta_id AND estado = 'Activa';
+    ELSIF NOT v_retiene_antes AND v_retiene_despues THEN
+        -- Volver a descontar el stock de la venta
+        PERFORM set_config('app.movimiento_tipo', 'Venta reactivada', true);
+        FOR v_item IN SELECT * FROM venta_cantidades_por_lote(p_venta_id) LOOP
+            UPDATE lotes SET cantidad_actual = cantidad_actual - v_item.cantidad
+            WHERE id = v_item.lote_id AND cantidad_actual >= v_item.cantidad;
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Stock insuficiente para reactivar la venta (lote %).', v_item.lote_id;
+            END IF;
+        END LOOP;
+        -- Misma ventana de reserva que crear_venta
+        SELECT NULLIF(valor::text, '')::numeric::integer INTO v_minutos FROM ajustes_sistema WHERE clave = 'RESERVA_MINUTOS';
+        UPDATE reservas_stock SET estado = 'Activa', expira_en = now() + make_interval(mins => COALESCE(v_minutos, 60))
+        WHERE venta_id = p_venta_id AND estado = 'Liberada';
+    END IF;
+
+    IF p_nuevo_estado IN ('Pagada', 'Enviada') THEN
+        UPDATE reservas_stock SET estado = 'Confirmada' WHERE venta_id = p_venta_id AND estado = 'Activa';
+    END IF;
+
+    PERFORM set_config('app.motivo_estado', COALESCE(p_motivo, ''), true);
+    PERFORM set_config('app.override_estado', (p_override AND NOT (p_nuevo_estado = ANY(v_permitidos)))::text, true);
+    UPDATE ventas SET estado = p_nuevo_estado::venta_estado WHERE id = p_venta_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cambiar_estado_venta(uuid, text, text, boolean) TO authenticated;`;
+
+const ELIMINAR_VENTA_SQL = `-- Requiere venta_cantidades_por_lote (script de cambio de estado)
+${CAMBIAR_ESTADO_SQL}
+
+-- Elimina una venta reponiendo solo el stock que todavía retiene.
+-- Canceladas/abandonadas ya repusieron su stock; la venta de una liquidación de consignación
+-- nunca descontó stock propio (las unidades salieron al consignar).
+CREATE OR REPLACE FUNCTION public.eliminar_venta(p_venta_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_estado text;
+    v_liq_numero bigint;
+BEGIN
+    SELECT estado::text INTO v_estado FROM ventas WHERE id = p_venta_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'La venta no existe.';
+    END IF;
+    IF v_estado IN ('Cancelada', 'Carrito Abandonado') THEN
+        RAISE EXCEPTION 'La venta está % y ya repuso su stock: no se puede eliminar.', v_estado;
+    END IF;
+    IF to_regclass('public.liquidaciones_consignacion') IS NOT NULL THEN
+        SELECT numero INTO v_liq_numero FROM liquidaciones_consignacion WHERE venta_id = p_venta_id;
+        IF FOUND THEN
+            RAISE EXCEPTION 'La venta surge de la liquidación de consignación #% y no se puede eliminar.', v_liq_numero;
+        END IF;
+    END IF;
+
+    -- Tipo y referencia para el kardex
+    PERFORM set_config('app.movimiento_tipo', 'Venta eliminada', true);
+    PERFORM set_config('app.movimiento_referencia', 'Venta ' || upper(left(p_venta_id::text, 8)), true);
+    PERFORM set_config('app.movimiento_referencia_id', p_venta_id::text, true);
+
+    UPDATE lotes l SET cantidad_actual = l.cantidad_actual + t.cantidad
+    FROM venta_cantidades_por_lote(p_venta_id) t
+    WHERE l.id = t.lote_id;
+
+    DELETE FROM venta_items WHERE venta_id = p_venta_id;
+    DELETE FROM ventas WHERE id = p_venta_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.eliminar_venta(uuid) TO authenticated;
+
+-- La función anterior repone todo sin mirar el estado: deja de estar disponible desde el cliente
+DO $$
+BEGIN
+    IF to_regprocedure('public.eliminar_venta_y_restaurar_stock(uuid)') IS NOT NULL THEN
+        REVOKE EXECUTE ON FUNCTION public.eliminar_venta_y_restaurar_stock(uuid) FROM PUBLIC, anon, authenticated;
+    END IF;
+END $$;`;
+
+/** Las ventas canceladas o abandonadas ya repusieron su stock: eliminarlas lo duplicaría. */
+export const puedeEliminarVenta = (venta: Pick<Venta, 'estado'>) =>
+    venta.estado !== 'Cancelada' && venta.estado !== 'Carrito Abandonado';
+
+export interface CambioEstadoOpciones {
+    motivo?: string | null;
+    // Solo superadmin: permite transiciones fuera de TRANSICIONES_ESTADO_VENTA (requiere motivo).
+    override?: boolean;
+}
+
+export const updateVentaStatus = async (ventaId: string, newStatus: Venta['estado'], opciones: CambioEstadoOpciones = {}): Promise<void> => {
+    console.log(`[${SERVICE_NAME}] Changing status of sale ${ventaId} to '${newStatus}'${opciones.override ? ' (override)' : ''}.`);
+    const { error } = await (supabase.rpc as any)('cambiar_estado_venta', {
+        p_venta_id: ventaId,
+        p_nuevo_estado: newStatus,
+        p_motivo: opciones.motivo?.trim() || null,
+        p_override: opciones.override || false,
+    });
+
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error changing sale status:`, error);
+        if (error.message?.includes('invalid input value for enum venta_estado')) {
+            throw {
+                ...error,
+                message: "La base de datos no reconoce el nuevo estado de venta.",
+                hint: "Ejecuta el script SQL para actualizar el tipo ENUM.",
+                sql: `ALTER TYPE public.venta_estado ADD VALUE IF NOT EXISTS 'Contactado';`
+            };
+        }
+        const functionNotFound = error.code === '42883' || error.code === 'PGRST202' || error.message?.includes('function cambiar_estado_venta') || error.message?.includes('Could not find the function');
+        if (functionNotFound || error.message?.includes('venta_estado_historial')) {
+            throw {
+                ...error,
+                message: "Error de base de datos: La función 'cambiar_estado_venta' no existe o está desactualizada.",
+                details: "Los cambios de estado ahora validan las transiciones permitidas, reponen stock al cancelar y quedan registrados en un historial.",
+                hint: "Ejecuta el script SQL de abajo en tu editor de Supabase.",
+                sql: CAMBIAR_ESTADO_SQL,
+            };
+        }
+        if (error.code === 'P0001') {
+            throw { ...error, message: error.message };
         }
         throw error;
     }
 };
 
-export const updateVentaStatus = async (ventaId: string, newStatus: Venta['estado']): Promise<void> => {
-    try {
-        const { error } = await (supabase
-            .from('ventas') as any)
-            .update({ estado: newStatus })
-            .eq('id', ventaId);
-        
-        if (error) {
-            if (error.message?.includes('invalid input value for enum venta_estado')) {
-                throw {
-                    ...error,
-                    message: "La base de datos no reconoce el nuevo estado de venta.",
-                    hint: "Ejecuta el script SQL para actualizar el tipo ENUM.",
-                    sql: `ALTER TYPE public.venta_estado ADD VALUE IF NOT EXISTS 'Contactado';`
-                };
-            }
-            throw error;
+export const fetchHistorialEstadoVenta = async (ventaId: string): Promise<VentaEstadoHistorial[]> => {
+    const { data, error } = await (supabase.rpc as any)('get_historial_estado_venta', { p_venta_id: ventaId });
+
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error fetching status history for sale ${ventaId}:`, error);
+        const functionNotFound = error.code === '42883' || error.code === 'PGRST202' || error.message?.includes('Could not find the function');
+        if (functionNotFound) {
+            throw {
+                ...error,
+                message: "Error de base de datos: La función 'get_historial_estado_venta' no existe.",
+                hint: "Ejecuta el script SQL de abajo (incluye la tabla de historial si todavía no existe).",
+                sql: `${CAMBIAR_ESTADO_SQL}
+
+CREATE OR REPLACE FUNCTION public.get_historial_estado_venta(p_venta_id uuid)
+RETURNS TABLE (id uuid, estado_anterior text, estado_nuevo text, usuario_email text, motivo text, override_admin boolean, fecha timestamptz)
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+    SELECT h.id, h.estado_anterior, h.estado_nuevo, u.email::text, h.motivo, h.override_admin, h.fecha
+    FROM venta_estado_historial h
+    LEFT JOIN auth.users u ON u.id = h.usuario_id
+    WHERE h.venta_id = p_venta_id
+    ORDER BY h.fecha ASC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_historial_estado_venta(uuid) TO authenticated;`,
+            };
         }
-    } catch (error: any) {
         throw error;
     }
+
+    return (data || []).map((h: any) => ({
+        id: h.id,
+        estadoAnterior: h.estado_anterior,
+        estadoNuevo: h.estado_nuevo,
+        usuarioEmail: h.usuario_email || null,
+        motivo: h.motivo,
+        overrideAdmin: h.override_admin,
+        fecha: new Date(h.fecha).toLocaleString('es-AR'),
+    }));
 };
 
 // FIX: Added missing assignClientToVenta export to resolve import error in Ventas.tsx.
@@ -242,44 +863,47 @@ export const assignClientToVenta = async (ventaId: string, clienteId: string): P
 };
 
 export const deleteVenta = async (ventaId: string): Promise<void> => {
-    try {
-        const { error } = await supabase.rpc('eliminar_venta_y_restaurar_stock', {
-            p_venta_id: ventaId,
-        });
-        if (error) throw error;
-    } catch (error: any) {
+    const { error } = await (supabase.rpc as any)('eliminar_venta', { p_venta_id: ventaId });
+    if (error) {
+        console.error(`[${SERVICE_NAME}] Error deleting sale ${ventaId}:`, error);
+        if (error.code === '23503') {
+            throw { ...error, message: 'La venta tiene factura o notas de crédito asociadas y no se puede eliminar. Registra una devolución en su lugar.' };
+        }
+        if (error.code === '42883' || error.code === 'PGRST202') {
+            throw {
+                ...error,
+                message: "Error de base de datos: La función 'eliminar_venta' no existe.",
+                details: "Eliminar una venta repone solo el stock que todavía retiene: no se pueden eliminar ventas canceladas, abandonadas ni las generadas por una liquidación de consignación.",
+                hint: "Ejecuta el script SQL de abajo en tu editor de Supabase.",
+                sql: ELIMINAR_VENTA_SQL,
+            };
+        }
+        if (error.code === 'P0001') {
+            throw { ...error, message: error.message };
+        }
         throw error;
     }
 };
 
-export const prepareVentaItemsFromCart = async (cartItems: OrderItem[]): Promise<VentaItemParaCrear[]> => {
-    const itemsParaCrear: VentaItemParaCrear[] = [];
-    for (const item of cartItems) {
-        const lotesDisponibles = await fetchLotesParaVenta(item.id); 
-        const usableLotes = lotesDisponibles
-            .map(l => ({ ...l, q_floor: Math.floor(l.cantidad_actual) }))
-            .filter(l => l.q_floor >= 1);
-        
-        const stockTotal = usableLotes.reduce((acc, l) => acc + l.q_floor, 0);
-        if (stockTotal < item.quantity) {
-             throw new Error(`Stock insuficiente para "${item.nombre}".`);
-        }
+/** Asigna lotes FEFO al carrito web tomando solo el stock de los depósitos que despachan la tienda. */
+export const prepareVentaItemsFromCart = async (cartItems: OrderItem[], tienda: string | null = null): Promise<VentaItemParaCrear[]> => {
+    const depositoIds = await fetchDepositosDespachoOnline(tienda);
+    const asignaciones = await asignarLotesFEFO(cartItems.map(item => ({
+        productoId: item.id,
+        productoNombre: item.nombre,
+        cantidad: item.quantity,
+        lotesPreferidos: item.promos?.map(p => p.loteId),
+    })), depositoIds);
 
-        let cantidadRestante = item.quantity;
-        for (const lote of usableLotes) {
-            if (cantidadRestante <= 0) break;
-            // FIX: Fixed syntax error (accidental space in variable name)
-            const cantidadDeLote = Math.min(cantidadRestante, lote.q_floor);
-            if (cantidadDeLote > 0) {
-                itemsParaCrear.push({
-                    productoId: item.id,
-                    cantidad: cantidadDeLote,
-                    precioUnitario: item.unitPrice,
-                    loteId: lote.id,
-                });
-                cantidadRestante -= cantidadDeLote;
-            }
-        }
-    }
-    return itemsParaCrear;
-};
\ No newline at end of file
+    // Lo que sale de un lote promocionado lleva su descuento; el resto va al precio sin promo (igual que crear_venta)
+    return cartItems.flatMap((item, index) => asignaciones[index].map(a => {
+        const promo = item.promos?.find(p => p.loteId === a.loteId);
+        const precio = item.precioSinPromo ?? item.unitPrice;
+        return {
+            productoId: item.id,
+            cantidad: a.cantidad,
+            precioUnitario: promo ? precioConPromo(precio, promo.descuentoPct) : precio,
+            loteId: a.loteId,
+        };
+    }));
+};
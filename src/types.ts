@@ -37,12 +37,116 @@ export interface Insumo {
   ultimo_lote_pedido?: string | null;
 }
 
+export interface LoteInsumo {
+  id: string;
+  insumoId: string;
+  numeroLote: string;
+  proveedor: string | null;
+  fechaRecepcion: string;
+  fechaVencimiento: string | null;
+  cantidadInicial: number;
+  cantidadActual: number;
+  costoUnitario: number;
+}
+
+// Lote de producto terminado que consumió un lote de insumo (consulta de recall).
+export interface UsoLoteInsumo {
+  ordenNumero: number;
+  fechaProduccion: string | null;
+  productoNombre: string;
+  loteId: string | null;
+  numeroLote: string;
+  cantidadConsumida: number;
+  unidadesProducidas: number;
+  unidadesEnStock: number | null;
+}
+
+export type MonedaCompra = 'ARS' | 'USD';
+
+export interface Proveedor {
+  id: string;
+  nombre: string;
+  cuit?: string | null;
+  contacto?: string | null;
+  email?: string | null;
+  telefono?: string | null;
+  leadTimeDias: number;
+  moneda: MonedaCompra;
+}
+
+export type EstadoOrdenCompra = 'Borrador' | 'Enviada' | 'Recibida parcial' | 'Recibida';
+
+export interface OrdenCompraItem {
+  id: string;
+  insumoId: string;
+  insumoNombre: string;
+  unidad: InsumoUnidad;
+  cantidad: number;
+  cantidadRecibida: number;
+  costoUnitario: number;
+}
+
+export interface OrdenCompra {
+  id: string;
+  numero: number;
+  proveedorId: string;
+  proveedorNombre: string;
+  estado: EstadoOrdenCompra;
+  fecha: string;
+  fechaEntregaEstimada: string | null;
+  moneda: MonedaCompra;
+  notas?: string | null;
+  total: number;
+  items: OrdenCompraItem[];
+}
+
 export interface ProductoInsumo {
   insumoId: string;
   cantidad: number;
   insumoNombre?: string;
 }
 
+export type EstadoOrdenProduccion = 'Planificada' | 'Completada' | 'Cancelada';
+
+export interface NecesidadInsumo {
+  insumoId: string;
+  insumoNombre: string;
+  unidad: InsumoUnidad;
+  cantidadPorUnidad: number;
+  requerido: number;
+  stock: number;
+  reservado: number;
+  disponible: number;
+  costoUnitario: number;
+}
+
+export interface OrdenProduccionInsumo {
+  insumoId: string;
+  insumoNombre: string;
+  unidad: InsumoUnidad;
+  cantidad: number;
+  costoUnitario: number | null;
+  loteInsumo: string | null;
+}
+
+export interface OrdenProduccion {
+  id: string;
+  numero: number;
+  productoId: string;
+  productoNombre: string;
+  cantidad: number;
+  numeroLote: string;
+  fechaVencimiento: string | null;
+  costoLaboratorio: number;
+  costoInsumos: number | null;
+  estado: EstadoOrdenProduccion;
+  loteId: string | null;
+  notas?: string | null;
+  fecha: string;
+  fechaCompletada: string | null;
+  insumos: OrdenProduccionInsumo[];
+}
+
 export interface Lote {
     id: string;
     numero_lote: string;
@@ -50,8 +154,12 @@ export interface Lote {
     cantidad_actual: number;
     fecha_vencimiento: string | null;
     costo_laboratorio: number;
+    // Costo real por unidad de los insumos consumidos (solo lotes creados por una orden de producción).
+    costo_insumos?: number | null;
     deposito_id: string;
     depositoNombre?: string;
+    // Sin informar equivale a 'Liberado' (instalaciones sin el script de control de calidad).
+    estado_calidad?: EstadoCalidadLote;
     created_at?: string;
 }
 
@@ -62,6 +170,200 @@ export interface StockPorDeposito {
     lotes: Lote[];
 }
 
+// --- Vencimientos ---
+
+export type TramoVencimiento = 'Vencido' | '30 días' | '60 días' | '90 días';
+
+// Promoción publicada para empujar un lote próximo a vencer (se muestra en el PromoBanner de la tienda).
+export interface PromocionVencimiento {
+  id: string;
+  loteId: string;
+  productoId: string;
+  descuentoPct: number;
+  mensaje: string;
+  vigenteHasta: string | null;
+  activa: boolean;
+  // Unidades que le quedan al lote: la promo no alcanza a más
+  unidades: number;
+}
+
+// Promo de un lote por vencer tal como la usa el motor de precios
+export interface PromoLote {
+  loteId: string;
+  descuentoPct: number;
+  unidades: number;
+}
+
+export interface LoteProximoVencer {
+  id: string; // id del lote
+  productoId: string;
+  productoNombre: string;
+  numeroLote: string;
+  depositoId: string;
+  depositoNombre: string;
+  fechaVencimiento: string;
+  diasRestantes: number;
+  tramo: TramoVencimiento;
+  cantidad: number;
+  costoUnitario: number;
+  valorCosto: number;
+  descuentoSugerido: number;
+  promocion: PromocionVencimiento | null;
+}
+
+// --- Conteos de inventario y movimientos de stock ---
+
+export type EstadoConteo = 'Abierto' | 'Contabilizado' | 'Anulado';
+
+export interface ConteoInventario {
+  id: string;
+  numero: number;
+  depositoId: string;
+  depositoNombre: string;
+  estado: EstadoConteo;
+  notas: string | null;
+  fecha: string;
+  fechaContabilizado: string | null;
+  totalItems: number;
+  itemsContados: number;
+  // Impacto a costo de las diferencias contadas (sobrantes positivos, faltantes negativos).
+  diferenciaValor: number;
+}
+
+// cantidadSistema es la foto tomada al abrir el conteo; el ajuste aplica la diferencia sobre el stock actual.
+export interface ConteoInventarioItem {
+  id: string;
+  loteId: string;
+  productoId: string;
+  productoNombre: string;
+  codigoBarras: string | null;
+  numeroLote: string;
+  fechaVencimiento: string | null;
+  cantidadSistema: number;
+  cantidadContada: number | null;
+  costoUnitario: number;
+  motivo: string | null;
+  aprobado: boolean;
+}
+
+// Un movimiento es de un lote de producto o de un lote de insumo (productoId o insumoId).
+export interface MovimientoStock {
+  id: string;
+  fecha: string;
+  tipo: string;
+  productoId: string | null;
+  insumoId: string | null;
+  // Nombre del producto o del insumo
+  productoNombre: string;
+  loteId: string | null;
+  loteInsumoId: string | null;
+  numeroLote: string | null;
+  depositoNombre: string;
+  cantidad: number;
+  cantidadAnterior: number | null;
+  cantidadNueva: number | null;
+  motivo: string | null;
+  referencia: string | null;
+  referenciaId: string | null;
+  usuarioEmail: string | null;
+}
+
+// --- Kardex ---
+
+export interface KardexLinea extends MovimientoStock {
+  entrada: number;
+  salida: number;
+  // Saldo acumulado del producto/insumo (o del lote, si se filtra por lote)
+  saldo: number;
+}
+
+// Saldo que da el kardex de cada lote contra su stock actual
+export interface ConciliacionLote {
+  id: string;
+  numeroLote: string;
+  depositoNombre: string;
+  stockActual: number;
+  saldoKardex: number;
+  diferencia: number;
+}
+
+// --- Trazabilidad de lotes (recall) ---
+
+// Un mismo numero_lote puede existir en varios depósitos (las transferencias lo copian).
+export interface LoteTrazado {
+  id: string;
+  productoId: string;
+  productoNombre: string;
+  depositoId: string;
+  depositoNombre: string;
+  cantidadInicial: number;
+  cantidadActual: number;
+  fechaVencimiento: string | null;
+  fechaAlta: string | null;
+  origen: string;
+}
+
+export interface MovimientoLote {
+  fecha: string;
+  tipo: 'Alta' | 'Transferencia' | 'Venta' | 'Devolución';
+  descripcion: string;
+  depositoNombre: string;
+  cantidad: number;
+}
+
+export interface EntregaLote {
+  ventaId: string;
+  fecha: string;
+  estado: Venta['estado'];
+  tipo: Venta['tipo'];
+  clienteId: string | null;
+  clienteNombre: string;
+  productoNombre: string;
+  depositoNombre: string;
+  cantidad: number;
+  cantidadDevuelta: number;
+}
+
+export interface InsumoTrazado {
+  insumoNombre: string;
+  unidad: string;
+  numeroLote: string;
+  proveedor: string | null;
+  fechaVencimiento: string | null;
+  cantidad: number;
+}
+
+export interface ProduccionLote {
+  ordenNumero: number;
+  fecha: string | null;
+  cantidad: number;
+  insumos: InsumoTrazado[];
+}
+
+export interface ContactoRecall {
+  clienteId: string;
+  nombre: string;
+  representante: string | null;
+  telefono: string | null;
+  email: string | null;
+  localidad: string | null;
+  provincia: string | null;
+  unidades: number;
+  ventas: string[];
+}
+
+export interface TrazabilidadLote {
+  numeroLote: string;
+  lotes: LoteTrazado[];
+  movimientos: MovimientoLote[];
+  entregas: EntregaLote[];
+  produccion: ProduccionLote[];
+  contactos: ContactoRecall[];
+  unidadesProducidas: number;
+  unidadesEntregadas: number;
+  unidadesEnStock: number;
+}
+
 export interface GaleriaImagen {
   id: string;
   url: string;
@@ -87,6 +389,8 @@ export interface Producto {
   productsPerBox?: number | null;
   stock: number;
   stockTotal: number;
+  // Unidades retenidas por pedidos web sin pagar. Ya están descontadas de stockTotal (disponible).
+  stockReservado?: number;
   lotes: Lote[];
   stockPorDeposito: StockPorDeposito[];
   insumos: ProductoInsumo[];
@@ -95,6 +399,8 @@ export interface Producto {
 
 export type SimpleProducto = Pick<Producto, 'id' | 'nombre' | 'precioPublico' | 'precioComercio' | 'precioMayorista' | 'stockTotal'> & { codigoBarras?: string | null };
 
+export type CondicionIva = 'Responsable Inscripto' | 'Monotributo' | 'Exento' | 'Consumidor Final';
+
 export interface Cliente {
   id: string;
   nombre: string;
@@ -107,6 +413,7 @@ export interface Cliente {
   direccion: string | null;
   redSocial: string | null;
   cuit: string | null;
+  condicionIva?: CondicionIva | null;
   email: string | null;
   descripcion: string | null;
   listaPrecioId: string | null;
@@ -118,7 +425,7 @@ export interface Cliente {
   totalComprado?: number;
 }
 
-export type SimpleCliente = Pick<Cliente, 'id' | 'nombre' | 'telefono' | 'email' | 'listaPrecioNombre' | 'direccion' | 'localidad' | 'provincia'>;
+export type SimpleCliente = Pick<Cliente, 'id' | 'nombre' | 'telefono' | 'email' | 'listaPrecioId' | 'listaPrecioNombre' | 'direccion' | 'localidad' | 'provincia'>;
 
 export interface VentaItem {
   productoId: string;
@@ -145,6 +452,138 @@ export interface Venta {
   clienteNombre?: string;
   clienteTelefono?: string | null;
   observaciones?: string | null;
+  // Cupón canjeado en la venta y lo que descontó (validado por la base)
+  cuponCodigo?: string | null;
+  cuponDescuento?: number | null;
+  // Envío cobrado dentro del total; no se acredita en las devoluciones
+  costoEnvio?: number;
+}
+
+export interface VentaEstadoHistorial {
+  id: string;
+  estadoAnterior: Venta['estado'] | null;
+  estadoNuevo: Venta['estado'];
+  usuarioEmail: string | null;
+  motivo: string | null;
+  overrideAdmin: boolean;
+  fecha: string;
+}
+
+export type DestinoDevolucion = 'lote_original' | 'cuarentena' | 'baja';
+
+export interface ItemDevolvible {
+  ventaItemId: string;
+  productoId: string;
+  productoNombre: string;
+  loteId: string | null;
+  numeroLote: string | null;
+  cantidadVendida: number;
+  cantidadDevuelta: number;
+  precioUnitario: number;
+}
+
+export interface NotaCreditoItem {
+  productoNombre: string;
+  numeroLote: string | null;
+  cantidad: number;
+  precioUnitario: number;
+  destino: DestinoDevolucion;
+}
+
+export interface NotaCredito {
+  id: string;
+  numero: number;
+  ventaId: string;
+  fecha: string;
+  motivo: string | null;
+  total: number;
+  items: NotaCreditoItem[];
+}
+
+export interface ItemConsignado {
+  ventaItemId: string;
+  ventaId: string;
+  fechaConsignacion: string;
+  productoId: string;
+  productoNombre: string;
+  loteId: string | null;
+  numeroLote: string | null;
+  depositoOrigenId: string | null;
+  cantidadConsignada: number;
+  cantidadVendida: number;
+  cantidadDevuelta: number;
+  pendiente: number;
+  precioUnitario: number;
+}
+
+export interface ConsignacionCliente {
+  clienteId: string;
+  clienteNombre: string;
+  items: ItemConsignado[];
+  unidadesPendientes: number;
+  valorPendiente: number;
+}
+
+export type MetodoPago = 'Efectivo' | 'Transferencia' | 'Mercado Pago' | 'Cheque';
+
+export interface PagoCliente {
+  id: string;
+  clienteId: string;
+  ventaId: string | null;
+  fecha: string;
+  monto: number;
+  metodo: MetodoPago;
+  referencia: string | null;
+}
+
+export interface MovimientoCuentaCorriente {
+  fecha: string;
+  tipo: 'Venta' | 'Consignación' | 'Nota de crédito' | 'Liquidación de consignación' | 'Pago' | 'Cobro según estado';
+  descripcion: string;
+  ventaId: string | null;
+  debe: number;
+  haber: number;
+  saldo: number;
+}
+
+export type TramoAntiguedad = '0-30' | '31-60' | '61-90' | '90+';
+
+export interface VentaConSaldo {
+  ventaId: string;
+  fecha: string;
+  estado: Venta['estado'];
+  total: number;
+  pendiente: number;
+}
+
+export interface CuentaCorriente {
+  movimientos: MovimientoCuentaCorriente[];
+  saldo: number;
+  saldoAFavor: number;
+  antiguedad: Record<TramoAntiguedad, number>;
+  ventasPendientes: VentaConSaldo[];
+  inconsistencias: string[];
+}
+
+export type TipoFactura = 'A' | 'B' | 'C';
+
+export interface Factura {
+  id: string;
+  ventaId: string;
+  tipo: TipoFactura;
+  puntoVenta: number;
+  numero: number;
+  cae: string;
+  caeVencimiento: string;
+  fecha: string;
+  receptorNombre: string;
+  receptorDocTipo: number;
+  receptorDocNro: string;
+  receptorCondicionIva: CondicionIva;
+  importeNeto: number;
+  importeIva: number;
+  importeTotal: number;
+  modo: 'mock' | 'homologacion' | 'produccion';
 }
 
 export interface KnowledgeItem {
@@ -185,6 +624,7 @@ export interface LowStockProducto {
   id: string;
   nombre: string;
   stock: number;
+  puntoReorden?: number | null;
 }
 
 export interface LowStockInsumo {
@@ -192,6 +632,7 @@ export interface LowStockInsumo {
   nombre: string;
   stock: number;
   unidad: InsumoUnidad;
+  puntoReorden?: number | null;
 }
 
 export interface MonthlyData {
@@ -241,11 +682,26 @@ export interface DashboardData {
     ventasPorAnio: { [year: string]: number };
 }
 
+export type RolDeposito = 'Punto de venta' | 'Almacén' | 'Cuarentena' | 'Consignación';
+
 export interface Deposito {
     id: string;
     nombre: string;
     direccion: string | null;
     es_predeterminado: boolean;
+    rol: RolDeposito;
+    // Su stock se ofrece en la tienda pública y en las listas de clientes
+    vende_online: boolean;
+    // Tienda web (Isabella, Ultrashine, Bodytan) que despacha desde este depósito
+    tienda: string | null;
+}
+
+export interface NivelStockDeposito {
+    id: string;
+    productoNombre: string;
+    stockActual: number;
+    stockMinimo: number;
+    stockMaximo: number | null;
 }
 
 export interface TransferenciaStock {
@@ -260,6 +716,300 @@ export interface TransferenciaStock {
     numeroLote?: string | null;
 }
 
+// --- Remitos de transferencia entre depósitos ---
+
+// Preparado → En tránsito (sale del origen) → Recibido parcial / Recibido / Recibido con diferencias (cerrado con faltantes)
+export type EstadoRemitoTransferencia = 'Preparado' | 'En tránsito' | 'Recibido parcial' | 'Recibido' | 'Recibido con diferencias' | 'Anulado';
+
+export interface RemitoTransferenciaItem {
+    id: string;
+    loteOrigenId: string | null;
+    productoId: string;
+    productoNombre: string;
+    numeroLote: string;
+    fechaVencimiento: string | null;
+    cantidad: number;
+    cantidadRecibida: number;
+}
+
+export interface RemitoTransferencia {
+    id: string;
+    numero: number;
+    depositoOrigenId: string;
+    depositoOrigenNombre: string;
+    depositoOrigenDireccion: string | null;
+    depositoDestinoId: string;
+    depositoDestinoNombre: string;
+    depositoDestinoDireccion: string | null;
+    estado: EstadoRemitoTransferencia;
+    fecha: string;
+    fechaDespacho: string | null;
+    fechaRecepcion: string | null;
+    transportista: string | null;
+    notas: string | null;
+    motivoDiferencias: string | null;
+    items: RemitoTransferenciaItem[];
+}
+
+// --- Control de calidad de lotes ---
+
+// Lo producido queda en Cuarentena hasta que un inspector lo libera o lo rechaza.
+export type EstadoCalidadLote = 'Cuarentena' | 'Liberado' | 'Rechazado';
+
+export interface LoteEnCuarentena {
+    id: string;
+    productoId: string;
+    productoNombre: string;
+    numeroLote: string;
+    cantidad: number;
+    fechaVencimiento: string | null;
+    depositoId: string;
+    depositoNombre: string;
+    fechaIngreso: string | null;
+}
+
+export interface InspeccionCalidad {
+    id: string;
+    fecha: string;
+    loteId: string;
+    productoNombre: string;
+    numeroLote: string;
+    resultado: Exclude<EstadoCalidadLote, 'Cuarentena'>;
+    inspector: string;
+    notas: string | null;
+}
+
+// --- Reglas de precio ---
+
+export type CanalVenta = 'Tienda online' | 'Portal clientes' | 'Venta interna';
+export type MedioPagoRegla = 'mercadopago' | 'transferencia' | 'nave' | 'efectivo';
+// Nivel de precio: usa el precio Comercio/Mayorista del producto. Descuento %: rebaja sobre el precio que venía.
+export type AccionReglaPrecio = 'Nivel de precio' | 'Descuento %';
+export type NivelPrecio = 'Comercio' | 'Mayorista';
+export type AlcanceReglaPrecio = 'Línea' | 'Pedido';
+
+export interface ReglaPrecio {
+    id: string;
+    nombre: string;
+    activa: boolean;
+    // Menor número = se evalúa antes
+    prioridad: number;
+    accion: AccionReglaPrecio;
+    alcance: AlcanceReglaPrecio;
+    nivelPrecio: NivelPrecio | null;
+    porcentaje: number | null;
+    // Condiciones: null o lista vacía = cualquiera
+    cantidadMinima: number | null;
+    montoMinimo: number | null;
+    mediosPago: MedioPagoRegla[];
+    listaPrecioIds: string[];
+    lineas: string[];
+    canales: CanalVenta[];
+    fechaDesde: string | null;
+    fechaHasta: string | null;
+    // Si se aplica, no se evalúan las reglas siguientes del mismo alcance
+    exclusiva: boolean;
+}
+
+export interface ReglaAplicada {
+    reglaId: string;
+    nombre: string;
+    detalle: string;
+    // Lo que la regla rebajó, en pesos (sobre la línea completa o el pedido)
+    monto: number;
+}
+
+export interface LineaCotizada {
+    productoId: string;
+    cantidad: number;
+    precioBase: number;
+    // Precio con las reglas de línea, antes de la promo por vencimiento
+    precioSinPromo: number;
+    // Promedio si solo parte de las unidades lleva la promo
+    precioUnitario: number;
+    total: number;
+    reglas: ReglaAplicada[];
+}
+
+export interface Cotizacion {
+    lineas: LineaCotizada[];
+    subtotal: number;
+    reglasPedido: ReglaAplicada[];
+    descuentoPedido: number;
+    total: number;
+    // Una frase por regla aplicada, para mostrar al usuario o dejar en las observaciones
+    explicacion: string[];
+}
+
+// --- Historial y programación de precios ---
+
+export type EstadoVersionPrecio = 'Programado' | 'Aplicado' | 'Cancelado';
+
+// Una versión es un juego de precios con fecha de vigencia: los tres precios base del producto
+// (listaId null) o el precio del producto en una lista.
+export interface VersionPrecio {
+    id: string;
+    productoId: string;
+    productoNombre: string;
+    listaId: string | null;
+    listaNombre: string | null;
+    precioPublico: number | null;
+    precioComercio: number | null;
+    precioMayorista: number | null;
+    precio: number | null;
+    // Costo unitario al aplicarse, para seguir el margen
+    costoUnitario: number | null;
+    vigenteDesde: string;
+    estado: EstadoVersionPrecio;
+    motivo: string | null;
+    aplicadoEn: string | null;
+    createdAt: string;
+}
+
+// --- Remarcación masiva ---
+
+export type EstrategiaRemarcacion = 'Porcentaje' | 'Costo más margen' | 'Proporción del público' | 'Dólar';
+
+export type RedondeoPrecio = 'Sin redondeo' | 'Terminado en 990' | 'Terminado en 90' | 'Centena';
+
+// Precios base usan los tres primeros campos; una lista de precios sólo 'precio'
+export type CampoPrecioRemarcable = 'precioPublico' | 'precioComercio' | 'precioMayorista' | 'precio';
+
+export interface ParametrosRemarcacion {
+    estrategia: EstrategiaRemarcacion;
+    porcentaje: number;
+    // Recargo % sobre el costo unitario, por campo
+    margenes: Record<CampoPrecioRemarcable, number>;
+    // Fracción del precio público, por campo (p. ej. 0.8 = 20% menos)
+    proporciones: Record<CampoPrecioRemarcable, number>;
+    dolarReferencia: number;
+    dolarActual: number;
+    redondeo: RedondeoPrecio;
+}
+
+export interface ProductoRemarcable {
+    id: string;
+    nombre: string;
+    linea: string | null;
+    costoUnitario: number;
+    precioPublico: number;
+    precioComercio: number;
+    precioMayorista: number;
+    // Precio en la lista elegida (si el producto no está cargado, el público como en la gestión de listas)
+    precio: number | null;
+}
+
+export interface PropuestaRemarcacion {
+    productoId: string;
+    productoNombre: string;
+    linea: string | null;
+    costoUnitario: number;
+    actual: Partial<Record<CampoPrecioRemarcable, number>>;
+    nuevo: Partial<Record<CampoPrecioRemarcable, number>>;
+}
+
+// --- Márgenes mínimos ---
+
+// Recargo % mínimo sobre el costo unitario; rige el mayor entre el de la línea y el de la lista
+export interface MargenesMinimos {
+    porLinea: Record<string, number>;
+    porLista: Record<string, number>;
+}
+
+export interface ViolacionMargen {
+    nivel: string;
+    precio: number;
+    minimo: number;
+    margen: number;
+    costoUnitario: number;
+}
+
+// Precio bajo el mínimo autorizado por un superadmin
+export interface ExcepcionMargen {
+    id: string;
+    productoNombre: string;
+    listaNombre: string | null;
+    nivel: string;
+    precio: number;
+    precioMinimo: number;
+    costoUnitario: number;
+    motivo: string;
+    createdAt: string;
+}
+
+// --- Cupones ---
+
+// Envío gratis descuenta el costo de envío del pedido; los otros, sobre los productos alcanzados
+export type TipoCupon = 'Porcentaje' | 'Monto fijo' | 'Envío gratis';
+
+export interface Cupon {
+    id: string;
+    codigo: string;
+    descripcion: string | null;
+    tipo: TipoCupon;
+    valor: number;
+    // Alcance: sin productos ni líneas aplica a todo el pedido
+    productoIds: string[];
+    lineas: string[];
+    montoMinimo: number | null;
+    usosMaximos: number | null;
+    usosPorEmail: number | null;
+    fechaDesde: string | null;
+    fechaHasta: string | null;
+    activo: boolean;
+    // Se anuncia en el banner de la tienda
+    destacado: boolean;
+}
+
+export interface CanjeCupon {
+    id: string;
+    cuponId: string;
+    codigo: string;
+    ventaId: string;
+    email: string | null;
+    descuento: number;
+    fecha: string;
+    ventaEstado: Venta['estado'] | null;
+    ventaTotal: number | null;
+    tienda: string | null;
+}
+
+export interface CuponValidado {
+    cuponId: string;
+    codigo: string;
+    tipo: TipoCupon;
+    valor: number;
+    descuento: number;
+}
+
+// --- Etiquetas ---
+
+export type SimbologiaEtiqueta = 'EAN-13' | 'Code128' | 'QR';
+
+// Hoja de etiquetas, medidas en mm. Las térmicas son una etiqueta por página.
+export interface PlantillaEtiqueta {
+    id: string;
+    nombre: string;
+    anchoPagina: number;
+    altoPagina: number;
+    columnas: number;
+    filas: number;
+    anchoEtiqueta: number;
+    altoEtiqueta: number;
+    margenSuperior: number;
+    margenIzquierdo: number;
+    espacioHorizontal: number;
+    espacioVertical: number;
+    predefinida: boolean;
+}
+
+export interface Etiqueta {
+    titulo: string;
+    lineas: string[];
+    codigo: string;
+    simbologia: SimbologiaEtiqueta;
+}
+
 export interface AccessRequest {
     id: string;
     created_at: string;
@@ -274,6 +1024,7 @@ export interface AccessRequest {
 export interface ProductoEstadistica {
   id: string;
   nombre: string;
+  linea: string | null;
   ventasMesActual: number;
   ventasAñoActual: number;
   costoTotalUnitario: number;
@@ -285,10 +1036,63 @@ export interface ProductoEstadistica {
   tasaVentasPromedio: number;
 }
 
+export type ClasificacionRotacion = 'Alta' | 'Media' | 'Baja' | 'Sin ventas';
+
+export interface ParametrosReposicion {
+  diasSeguridad: number;
+  diasCobertura: number;
+  leadTimeProduccionDias: number;
+  leadTimeCompraDias: number;
+}
+
+export interface SugerenciaProduccion {
+  id: string;
+  productoNombre: string;
+  demandaDiaria: number;
+  tasaRotacion: number;
+  rotacion: ClasificacionRotacion;
+  leadTimeDias: number;
+  leadTimePropio: boolean;
+  stockSeguridad: number;
+  puntoReorden: number;
+  stock: number;
+  enProduccion: number;
+  proyectado: number;
+  cantidadSugerida: number;
+}
+
+export interface SugerenciaCompra {
+  id: string;
+  insumoNombre: string;
+  unidad: InsumoUnidad;
+  demandaDiaria: number;
+  proveedorId: string | null;
+  proveedorNombre: string | null;
+  leadTimeDias: number;
+  stockSeguridad: number;
+  puntoReorden: number;
+  stock: number;
+  reservado: number;
+  enCamino: number;
+  necesidadProduccion: number;
+  proyectado: number;
+  cantidadSugerida: number;
+  costoUnitario: number;
+}
+
+export interface HojaReposicion {
+  produccion: SugerenciaProduccion[];
+  compras: SugerenciaCompra[];
+}
+
 export interface OrderItem {
   id: string;
   nombre: string;
+  linea?: string | null;
   quantity: number;
   unitPrice: number;
   lineTotal: number;
+  // Tienda: precio antes de la promo por vencimiento y los lotes promocionados, para cobrar cada lote a su precio
+  precioSinPromo?: number;
+  promos?: PromoLote[];
 }
@@ -0,0 +1,230 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import forge from 'https://esm.sh/node-forge@1.3.1';
+
+declare const Deno: any;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// WSFEv1. El ticket de acceso (token + sign) se pide al WSAA firmando un TRA con el certificado
+// de la empresa (secretos AFIP_CERT / AFIP_KEY en PEM) y se reutiliza mientras esté vigente (12 hs).
+// El cliente sólo envía venta_id: la reserva (importes, tipo, receptor) la arma reservar_factura en la
+// base y el número y CAE se graban acá con la service role.
+const WSFE_URLS: Record<string, string> = {
+  homologacion: 'https://wswhomo.afip.gov.ar/wsfev1/service.asmx',
+  produccion: 'https://servicios1.afip.gov.ar/wsfev1/service.asmx',
+};
+
+const WSAA_URLS: Record<string, string> = {
+  homologacion: 'https://wsaahomo.afip.gov.ar/ws/services/LoginCms',
+  produccion: 'https://wsaa.afip.gov.ar/ws/services/LoginCms',
+};
+
+// Roles que pueden emitir comprobantes (los mismos que gestionan ventas)
+const ROLES_FACTURACION = ['superadmin', 'vendedor'];
+
+console.log("AFIP WSFE Function Initialized (v3 - server-side amounts)");
+
+const soapCall = async (url: string, method: string, body: string): Promise<string> => {
+  const envelope = `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" xmlns:ar="http://ar.gov.afip.dif.FEV1/">
+  <soap:Body><ar:${method}>${body}</ar:${method}></soap:Body>
+</soap:Envelope>`;
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/xml; charset=utf-8', 'SOAPAction': `http://ar.gov.afip.dif.FEV1/${method}` },
+    body: envelope,
+  });
+  return await res.text();
+};
+
+const tag = (xml: string, name: string) => xml.match(new RegExp(`<${name}>([^<]*)</${name}>`))?.[1] || '';
+
+const decodeXml = (xml: string) =>
+  xml.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+interface TicketAcceso { token: string; sign: string; expira: string; }
+
+// Cache en memoria de la instancia; la tabla afip_tickets_acceso lo comparte entre arranques en frío,
+// porque el WSAA rechaza un TRA nuevo mientras el ticket anterior siga vigente.
+const ticketsEnMemoria: Record<string, TicketAcceso> = {};
+
+const vigente = (t?: TicketAcceso | null) => !!t && new Date(t.expira).getTime() - Date.now() > 10 * 60 * 1000;
+
+const firmarTRA = (cert: string, key: string): string => {
+  const ahora = Date.now();
+  const tra = `<?xml version="1.0" encoding="UTF-8"?>
+<loginTicketRequest version="1.0">
+  <header>
+    <uniqueId>${Math.floor(ahora / 1000)}</uniqueId>
+    <generationTime>${new Date(ahora - 10 * 60 * 1000).toISOString()}</generationTime>
+    <expirationTime>${new Date(ahora + 10 * 60 * 1000).toISOString()}</expirationTime>
+  </header>
+  <service>wsfe</service>
+</loginTicketRequest>`;
+  const p7 = forge.pkcs7.createSignedData();
+  p7.content = forge.util.createBuffer(tra, 'utf8');
+  p7.addCertificate(cert);
+  p7.addSigner({
+    key: forge.pki.privateKeyFromPem(key),
+    certificate: forge.pki.certificateFromPem(cert),
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest },
+      { type: forge.pki.oids.signingTime, value: new Date() },
+    ],
+  });
+  p7.sign();
+  return forge.util.encode64(forge.asn1.toDer(p7.toAsn1()).getBytes());
+};
+
+const obtenerTicketAcceso = async (admin: any, modo: string): Promise<TicketAcceso> => {
+  if (vigente(ticketsEnMemoria[modo])) return ticketsEnMemoria[modo];
+
+  const { data: guardado } = await admin
+    .from('afip_tickets_acceso')
+    .select('token, sign, expira')
+    .eq('modo', modo)
+    .maybeSingle();
+  if (vigente(guardado)) return (ticketsEnMemoria[modo] = guardado);
+
+  const cert = Deno.env.get('AFIP_CERT');
+  const key = Deno.env.get('AFIP_KEY');
+  if (!cert || !key) throw new Error('Server config error: Missing AFIP_CERT / AFIP_KEY');
+
+  const res = await fetch(WSAA_URLS[modo], {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/xml; charset=utf-8', 'SOAPAction': '' },
+    body: `<?xml version="1.0" encoding="utf-8"?>
+<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:wsaa="http://wsaa.view.sua.dvadac.desein.afip.gov">
+  <soapenv:Body><wsaa:loginCms><wsaa:in0>${firmarTRA(cert, key)}</wsaa:in0></wsaa:loginCms></soapenv:Body>
+</soapenv:Envelope>`,
+  });
+  const respuesta = decodeXml(await res.text());
+  const ticket: TicketAcceso = {
+    token: tag(respuesta, 'token'),
+    sign: tag(respuesta, 'sign'),
+    expira: tag(respuesta, 'expirationTime'),
+  };
+  if (!ticket.token || !ticket.sign) {
+    throw new Error(`WSAA: ${tag(respuesta, 'faultstring') || 'no se pudo obtener el ticket de acceso'}`);
+  }
+
+  const { error } = await admin.from('afip_tickets_acceso').upsert({ modo, ...ticket, updated_at: new Date().toISOString() });
+  if (error) console.warn('Could not persist WSAA ticket:', error.message);
+  ticketsEnMemoria[modo] = ticket;
+  console.log(`WSAA ticket obtained for ${modo}, expires ${ticket.expira}`);
+  return ticket;
+};
+
+// f: fila de facturas reservada por reservar_factura (con cuit_emisor, codigo_comprobante y condicion_iva_receptor_id)
+const solicitarCAE = async (url: string, token: string, sign: string, f: any) => {
+  const auth = `<ar:Auth><ar:Token>${token}</ar:Token><ar:Sign>${sign}</ar:Sign><ar:Cuit>${f.cuit_emisor}</ar:Cuit></ar:Auth>`;
+  const neto = Number(f.importe_neto).toFixed(2);
+  const importeIva = Number(f.importe_iva).toFixed(2);
+
+  // 1. Último número autorizado para el punto de venta y tipo
+  const ultimoXml = await soapCall(url, 'FECompUltimoAutorizado',
+    `${auth}<ar:PtoVta>${f.punto_venta}</ar:PtoVta><ar:CbteTipo>${f.codigo_comprobante}</ar:CbteTipo>`);
+  const errUltimo = tag(ultimoXml, 'Msg');
+  if (!tag(ultimoXml, 'CbteNro') && errUltimo) throw new Error(errUltimo);
+  const numero = Number(tag(ultimoXml, 'CbteNro') || 0) + 1;
+
+  // 2. Solicitud de CAE
+  const fecha = String(f.fecha).replace(/-/g, '');
+  const iva = f.codigo_comprobante === 11 ? '' :
+    `<ar:Iva><ar:AlicIva><ar:Id>5</ar:Id><ar:BaseImp>${neto}</ar:BaseImp><ar:Importe>${importeIva}</ar:Importe></ar:AlicIva></ar:Iva>`;
+  const detalle = `<ar:FECAEReq>
+    <ar:FeCabReq><ar:CantReg>1</ar:CantReg><ar:PtoVta>${f.punto_venta}</ar:PtoVta><ar:CbteTipo>${f.codigo_comprobante}</ar:CbteTipo></ar:FeCabReq>
+    <ar:FeDetReq><ar:FECAEDetRequest>
+      <ar:Concepto>1</ar:Concepto>
+      <ar:DocTipo>${f.receptor_doc_tipo}</ar:DocTipo><ar:DocNro>${f.receptor_doc_nro}</ar:DocNro>
+      <ar:CbteDesde>${numero}</ar:CbteDesde><ar:CbteHasta>${numero}</ar:CbteHasta><ar:CbteFch>${fecha}</ar:CbteFch>
+      <ar:ImpTotal>${Number(f.importe_total).toFixed(2)}</ar:ImpTotal><ar:ImpTotConc>0</ar:ImpTotConc>
+      <ar:ImpNeto>${neto}</ar:ImpNeto><ar:ImpOpEx>0</ar:ImpOpEx>
+      <ar:ImpTrib>0</ar:ImpTrib><ar:ImpIVA>${importeIva}</ar:ImpIVA>
+      <ar:MonId>PES</ar:MonId><ar:MonCotiz>1</ar:MonCotiz>
+      <ar:CondicionIVAReceptorId>${f.condicion_iva_receptor_id}</ar:CondicionIVAReceptorId>
+      ${iva}
+    </ar:FECAEDetRequest></ar:FeDetReq>
+  </ar:FECAEReq>`;
+  const caeXml = await soapCall(url, 'FECAESolicitar', `${auth}${detalle}`);
+
+  if (tag(caeXml, 'Resultado') !== 'A') {
+    const motivo = tag(caeXml, 'Msg') || 'Comprobante rechazado';
+    console.error(`CAE rejected: ${motivo}`);
+    throw new Error(`AFIP rechazó el comprobante: ${motivo}`);
+  }
+
+  const vto = tag(caeXml, 'CAEFchVto');
+  return {
+    numero,
+    cae: tag(caeXml, 'CAE'),
+    caeVencimiento: `${vto.slice(0, 4)}-${vto.slice(4, 6)}-${vto.slice(6, 8)}`,
+  };
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const json = (payload: any, status = 200) => new Response(JSON.stringify(payload), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) throw new Error('Server config error: Missing Supabase credentials');
+    const admin = createClient(supabaseUrl, serviceRoleKey);
+
+    // Solo usuarios autenticados con un rol de ventas pueden pedir CAE
+    const jwt = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+    const { data: { user } } = jwt ? await admin.auth.getUser(jwt) : { data: { user: null } };
+    if (!user) return json({ error: 'No autenticado.' }, 401);
+    const { data: perfil } = await admin.from('profiles').select('roles').eq('id', user.id).maybeSingle();
+    if (!(perfil?.roles || []).some((r: string) => ROLES_FACTURACION.includes(r))) {
+      return json({ error: 'No tienes permisos para emitir comprobantes.' }, 403);
+    }
+
+    const { venta_id } = await req.json();
+    if (!venta_id) return json({ error: 'Falta indicar la venta a facturar.' }, 400);
+
+    // Importes, tipo y receptor los calcula la base a partir de la venta y deja la factura reservada
+    const { data: f, error: reservaError } = await admin.rpc('reservar_factura', { p_venta_id: venta_id });
+    if (reservaError) return json({ error: reservaError.message });
+
+    let respuesta: { numero: number; cae: string; caeVencimiento: string };
+    try {
+      const url = WSFE_URLS[f.modo];
+      if (!url) throw new Error(`Modo de facturación inválido: ${f.modo}`);
+      const { token, sign } = await obtenerTicketAcceso(admin, f.modo);
+      respuesta = await solicitarCAE(url, token, sign, f);
+    } catch (error: any) {
+      // AFIP no asignó comprobante: se libera la reserva para poder reintentar
+      await admin.from('facturas').delete().eq('id', f.id).eq('estado', 'Pendiente');
+      throw error;
+    }
+
+    const { data: factura, error: updateError } = await admin
+      .from('facturas')
+      .update({ numero: respuesta.numero, cae: respuesta.cae, cae_vencimiento: respuesta.caeVencimiento, estado: 'Emitida' })
+      .eq('id', f.id)
+      .select()
+      .single();
+    if (updateError) {
+      // El CAE ya fue otorgado: la reserva queda Pendiente y los datos en el log para completarla a mano
+      console.error(`Could not save CAE ${respuesta.cae} for ${f.codigo_comprobante}-${f.punto_venta}-${respuesta.numero}:`, updateError);
+      return json({ error: `AFIP otorgó el comprobante ${respuesta.numero} (CAE ${respuesta.cae}) pero no se pudo guardar: ${updateError.message}` });
+    }
+
+    console.log(`CAE issued for ${f.codigo_comprobante}-${f.punto_venta}-${respuesta.numero}`);
+    return json({ factura });
+  } catch (error: any) {
+    console.error("WSFE Exception:", error);
+    return json({ error: error.message || 'Error inesperado al solicitar el CAE.' });
+  }
+});
@@ -88,16 +88,46 @@ Deno.serve(async (req: Request) => {
 
         const supabase = createClient(supabaseUrl, supabaseKey);
 
-        const { error } = await supabase
+        // Duplicate or late notifications must not move a paid/shipped sale back to "Pagada"
+        const { data: venta, error: ventaError } = await supabase
             .from('ventas')
-            .update({ 
-                estado: 'Pagada',
-                observaciones: `Pagado vía MP (ID: ${id}) - ${new Date().toLocaleString('es-AR')}`
-            })
+            .select('estado')
+            .eq('id', saleId)
+            .maybeSingle();
+
+        if (ventaError) {
+            console.error('Error reading sale:', ventaError);
+            return new Response('DB Read Failed', { status: 500 });
+        }
+        if (!venta) {
+            return new Response('Sale not found, ignoring', { status: 200 });
+        }
+        if (venta.estado === 'Pagada' || venta.estado === 'Enviada') {
+            console.log(`Sale ${saleId} already ${venta.estado}. Notification ignored.`);
+            return new Response('Already processed', { status: 200 });
+        }
+
+        const { error: obsError } = await supabase
+            .from('ventas')
+            .update({ observaciones: `Pagado vía MP (ID: ${id}) - ${new Date().toLocaleString('es-AR')}` })
             .eq('id', saleId);
 
+        if (obsError) {
+            console.error('Error updating DB:', obsError);
+            return new Response('DB Update Failed', { status: 500 });
+        }
+
+        // The state machine RPC records the history entry and confirms (or re-debits) the stock reservation.
+        // Override is only needed to reactivate an order that was cancelled or abandoned before the payment landed.
+        const { error } = await supabase.rpc('cambiar_estado_venta', {
+            p_venta_id: saleId,
+            p_nuevo_estado: 'Pagada',
+            p_motivo: `Pago aprobado en Mercado Pago (ID: ${id})`,
+            p_override: venta.estado === 'Cancelada' || venta.estado === 'Carrito Abandonado',
+        });
+
         if (error) {
-            console.error('Error updating DB:', error);
+            console.error('Error updating sale status:', error);
             return new Response('DB Update Failed', { status: 500 });
         }
         console.log('Sale updated to "Pagada" in DB.');